@@ -32,10 +32,12 @@ import { createFeeBreakdown, FEE_CONFIG } from '../fees/index.js';
 import type { AgentResponse, LPIntent, PoolOpportunity } from './types.js';
 import { unsignedApi } from './unsigned.js';
 import { wrapSigningWithTimeout, withTimeout, PRIVY_SIGN_TIMEOUT_MS } from '../utils/resilience.js';
+import { classifyError, getHttpStatus } from '../utils/error-codes.js';
 
 // Static imports for LP and Swap modules
 import { lpPipeline as lpPipelineImport, METEORA_POOLS as meteoraPoolsImport } from '../lp/index.js';
 import { jupiterClient as jupiterClientImport, TOKENS as tokensImport } from '../swap/index.js';
+import { createConnection } from '../services/connection-pool.js';
 
 // Module references (populated from imports or lazy-load fallback)
 let jupiterClient: any = jupiterClientImport || null;
@@ -906,11 +908,12 @@ app.post('/wallet/transfer', async (c) => {
       transaction: { unsigned: unsignedTx, txid },
     });
   } catch (error) {
+    // Policy violations (destination not allowed, daily limit) are 403s
     return c.json<AgentResponse>({
       success: false,
       message: 'Transfer failed',
       error: error instanceof Error ? error.message : 'Unknown error',
-    }, 500);
+    }, getHttpStatus(classifyError(error)));
   }
 });
 
@@ -1188,7 +1191,7 @@ app.get('/swap/tokens', (c) => {
 app.get('/lp/pools', (c) => {
   return c.json({
     pools: METEORA_POOLS,
-    description: 'Supported Meteora DLMM pools for LP pipeline',
+    description: 'Well-known Meteora DLMM pools; other pairs are resolved via pool discovery',
   });
 });
 
@@ -2187,7 +2190,7 @@ async function broadcastTransaction(signedTx: string): Promise<string> {
 export async function startServer() {
   try {
     console.log('🚀 LP Agent Toolkit - Initializing...');
-    connection = new Connection(config.solana.rpc, 'confirmed');
+    connection = createConnection('confirmed');
 
     // Eagerly load modules to catch errors at startup
     console.log('📦 Pre-loading modules...');
@@ -6,8 +6,9 @@
  * 
  * Flow:
  * 1. Agent encrypts strategy params with Arcium
- * 2. POST /lp/build → returns unsigned transaction
- * 3. Agent signs locally with their wallet
+ * 2. POST /lp/build → returns unsigned transaction, with a decoded preview
+ *    of what it does (instructions, balance changes, fees, tips, programs)
+ * 3. Agent checks the preview and signs locally with their wallet
  * 4. Agent broadcasts OR POST /broadcast with signed tx
  */
 
@@ -17,11 +18,13 @@ import { config } from '../config';
 import { arciumPrivacy } from '../privacy';
 import { MeteoraDirectClient } from '../dex/meteora';
 import { jupiterClient, TOKENS } from '../swap';
+import { createConnection } from '../services/connection-pool.js';
+import { tryPreviewTransactions } from '../inspector/index.js';
 
 const app = new Hono();
 
 // Shared connection
-const connection = new Connection(config.solana.rpc, 'confirmed');
+const connection = createConnection('confirmed');
 const meteoraClient = new MeteoraDirectClient(config.solana.rpc);
 
 interface BuildLPRequest {
@@ -111,12 +114,15 @@ app.post('/lp/build', async (c) => {
       amountY: usdcAmount, // USDC in micro-units
       slippageBps: 100,
     });
+    const preview = await tryPreviewTransactions([lpResult.transaction], walletAddress, connection);
     
     return c.json({
       success: true,
       data: {
         // Unsigned transaction - agent must sign with their wallet
         unsignedTransaction: lpResult.transaction,
+        // What signing it does; null if it couldn't be decoded
+        preview,
         
         // Position info
         positionAddress: lpResult.positionAddress,
@@ -139,7 +145,7 @@ app.post('/lp/build', async (c) => {
         
         // Instructions for agent
         instructions: {
-          step1: 'Sign the unsignedTransaction with your wallet',
+          step1: 'Check the preview, then sign the unsignedTransaction with your wallet',
           step2: 'Also sign with positionKeypair (new position account)',
           step3: 'Broadcast the fully signed transaction',
         },
@@ -178,18 +184,20 @@ app.post('/swap/build', async (c) => {
     
     // Build swap transaction
     const swapResult = await jupiterClient.swap(quote, walletAddress);
+    const preview = await tryPreviewTransactions([swapResult.swapTransaction], walletAddress, connection);
     
     return c.json({
       success: true,
       data: {
         unsignedTransaction: swapResult.swapTransaction,
+        preview,
         quote: {
           inputAmount: quote.inAmount,
           outputAmount: quote.outAmount,
           priceImpact: quote.priceImpactPct,
         },
         instructions: {
-          step1: 'Sign the unsignedTransaction with your wallet',
+          step1: 'Check the preview, then sign the unsignedTransaction with your wallet',
           step2: 'Broadcast the signed transaction',
         },
       },
@@ -0,0 +1,197 @@
+/**
+ * API Keys
+ *
+ * Keys look like `lpk_<id>_<secret>`. The id locates the record; only a
+ * sha256 of the secret is stored (secrets are 32 random bytes, so a slow
+ * hash buys nothing). Each key carries scopes (read / trade / withdraw) and
+ * the wallet ids it may act on; the auth middleware enforces both and
+ * writes a per-key audit trail.
+ *
+ * Rotation issues a new secret for the same id, scopes and wallets. The old
+ * secret can stay valid for a grace period so agents can roll over without
+ * downtime. Revocation is immediate.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { loadWalletById } from '../services/wallet-service.js';
+import { getApiKeyRecord, listApiKeyRecords, saveApiKeyRecord } from './store.js';
+import {
+  ALL_WALLETS,
+  API_KEY_SCOPES,
+  type ApiKey,
+  type ApiKeyScope,
+  type ApiKeyView,
+  type IssueApiKeyInput,
+} from './types.js';
+
+export * from './types.js';
+export { appendAudit, getAuditEntries } from './store.js';
+
+const KEY_PREFIX = 'lpk';
+const KEY_PATTERN = /^lpk_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+// Writing lastUsedAt on every request would double KV traffic
+const LAST_USED_RESOLUTION_MS = 60_000;
+const MAX_GRACE_SECONDS = 7 * 24 * 60 * 60;
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, 'hex');
+  const bufB = Buffer.from(b, 'hex');
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function toApiKeyView(key: ApiKey): ApiKeyView {
+  const { secretHash: _hash, previousSecretHash: _previous, ...view } = key;
+  return view;
+}
+
+/**
+ * Validate issuance input; returns an error message or null
+ */
+export function validateIssueInput(input: Partial<IssueApiKeyInput>): string | null {
+  if (!input.name || typeof input.name !== 'string') return 'name is required';
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return `scopes must be a non-empty array of ${API_KEY_SCOPES.join(', ')}`;
+  }
+  const unknown = input.scopes.filter(s => !API_KEY_SCOPES.includes(s));
+  if (unknown.length > 0) return `Unknown scope(s): ${unknown.join(', ')}`;
+  if (!Array.isArray(input.walletIds) || input.walletIds.length === 0) {
+    return `walletIds must list the wallets the key may use (or ["${ALL_WALLETS}"])`;
+  }
+  if (input.walletIds.some(w => typeof w !== 'string' || !w)) return 'walletIds must be strings';
+  if (input.expiresInDays !== undefined && !(input.expiresInDays > 0)) {
+    return 'expiresInDays must be a positive number';
+  }
+  return null;
+}
+
+/**
+ * Create a key. The returned secret is never stored and can't be recovered.
+ */
+export async function issueApiKey(input: IssueApiKeyInput): Promise<{ key: ApiKeyView; secret: string }> {
+  const walletIds = input.walletIds.includes(ALL_WALLETS) ? [ALL_WALLETS] : [...new Set(input.walletIds)];
+
+  // Also fails fast on wallet ids that don't exist
+  const walletAddresses = walletIds[0] === ALL_WALLETS
+    ? []
+    : await Promise.all(walletIds.map(async (id) => {
+      try {
+        const { wallet } = await loadWalletById(id);
+        return wallet.address as string;
+      } catch (e: any) {
+        throw new Error(`Wallet ${id} not found: ${e.message}`);
+      }
+    }));
+
+  const id = randomBytes(8).toString('hex');
+  const secret = newSecret();
+  const now = Date.now();
+  const key: ApiKey = {
+    id,
+    name: input.name,
+    scopes: [...new Set(input.scopes)],
+    walletIds,
+    walletAddresses,
+    secretHash: hashSecret(secret),
+    createdAt: now,
+    expiresAt: input.expiresInDays ? now + input.expiresInDays * 24 * 60 * 60 * 1000 : undefined,
+  };
+  await saveApiKeyRecord(key);
+
+  console.log(`[Auth] Issued key ${id} "${key.name}" scopes=${key.scopes.join(',')} wallets=${walletIds.join(',')}`);
+  return { key: toApiKeyView(key), secret: `${KEY_PREFIX}_${id}_${secret}` };
+}
+
+/**
+ * New secret for an existing key. With graceSeconds > 0 the old secret
+ * keeps working until then.
+ */
+export async function rotateApiKey(
+  id: string,
+  graceSeconds = 0,
+): Promise<{ key: ApiKeyView; secret: string } | null> {
+  const key = await getApiKeyRecord(id);
+  if (!key || key.revokedAt) return null;
+
+  const grace = Math.min(Math.max(0, graceSeconds), MAX_GRACE_SECONDS);
+  const secret = newSecret();
+  const now = Date.now();
+  const rotated: ApiKey = {
+    ...key,
+    secretHash: hashSecret(secret),
+    previousSecretHash: grace > 0 ? key.secretHash : undefined,
+    previousExpiresAt: grace > 0 ? now + grace * 1000 : undefined,
+    rotatedAt: now,
+  };
+  await saveApiKeyRecord(rotated);
+
+  console.log(`[Auth] Rotated key ${id} (old secret valid for ${grace}s)`);
+  return { key: toApiKeyView(rotated), secret: `${KEY_PREFIX}_${id}_${secret}` };
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeyView | null> {
+  const key = await getApiKeyRecord(id);
+  if (!key) return null;
+  if (!key.revokedAt) {
+    key.revokedAt = Date.now();
+    key.previousSecretHash = undefined;
+    key.previousExpiresAt = undefined;
+    await saveApiKeyRecord(key);
+    console.log(`[Auth] Revoked key ${id}`);
+  }
+  return toApiKeyView(key);
+}
+
+export async function getApiKey(id: string): Promise<ApiKeyView | null> {
+  const key = await getApiKeyRecord(id);
+  return key ? toApiKeyView(key) : null;
+}
+
+export async function listApiKeys(): Promise<ApiKeyView[]> {
+  return (await listApiKeyRecords()).map(toApiKeyView);
+}
+
+/**
+ * Resolve a presented key to its record. Null for malformed, unknown,
+ * revoked or expired keys and wrong secrets.
+ */
+export async function verifyApiKey(presented: string): Promise<ApiKey | null> {
+  const match = KEY_PATTERN.exec(presented);
+  if (!match) return null;
+  const [, id, secret] = match;
+
+  const key = await getApiKeyRecord(id);
+  if (!key || key.revokedAt) return null;
+
+  const now = Date.now();
+  if (key.expiresAt && now >= key.expiresAt) return null;
+
+  const hash = hashSecret(secret);
+  const current = hashesMatch(hash, key.secretHash);
+  const previous = !current
+    && !!key.previousSecretHash
+    && !!key.previousExpiresAt && now < key.previousExpiresAt
+    && hashesMatch(hash, key.previousSecretHash);
+  if (!current && !previous) return null;
+
+  if (!key.lastUsedAt || now - key.lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    key.lastUsedAt = now;
+    await saveApiKeyRecord(key).catch(() => { /* best effort */ });
+  }
+  return key;
+}
+
+/**
+ * trade and withdraw imply read
+ */
+export function hasScope(granted: ApiKeyScope[], required: ApiKeyScope): boolean {
+  if (granted.includes(required)) return true;
+  return required === 'read' && granted.length > 0;
+}
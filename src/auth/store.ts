@@ -0,0 +1,53 @@
+/**
+ * API Key Storage
+ *
+ * Keyspace:
+ *   lp-toolkit:auth:key:<id>      ApiKey (secret hashes only)
+ *   lp-toolkit:auth:keys          Set of key ids
+ *   lp-toolkit:auth:audit:<id>    AuditEntry list, newest first, capped
+ *
+ * Revoked keys are kept so their audit trail stays attributable.
+ */
+
+import { getStore } from '../storage/index.js';
+import { config } from '../config/index.js';
+import type { ApiKey, AuditEntry } from './types.js';
+
+const KEYS = {
+  KEY: (id: string) => `lp-toolkit:auth:key:${id}`,
+  ALL: 'lp-toolkit:auth:keys',
+  AUDIT: (id: string) => `lp-toolkit:auth:audit:${id}`,
+};
+
+// ============ Keys ============
+
+export async function getApiKeyRecord(id: string): Promise<ApiKey | null> {
+  return getStore().get<ApiKey>(KEYS.KEY(id));
+}
+
+export async function saveApiKeyRecord(key: ApiKey): Promise<void> {
+  const store = getStore();
+  await store.set(KEYS.KEY(key.id), key);
+  await store.sadd(KEYS.ALL, key.id);
+}
+
+export async function listApiKeyRecords(): Promise<ApiKey[]> {
+  const store = getStore();
+  const ids = await store.smembers<string>(KEYS.ALL);
+  const keys = await Promise.all(ids.map(id => store.get<ApiKey>(KEYS.KEY(id))));
+  return keys
+    .filter((k): k is ApiKey => !!k)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// ============ Audit ============
+
+export async function appendAudit(entry: AuditEntry): Promise<void> {
+  const store = getStore();
+  await store.lpush(KEYS.AUDIT(entry.keyId), entry);
+  await store.ltrim(KEYS.AUDIT(entry.keyId), 0, config.auth.auditLogSize - 1);
+}
+
+export async function getAuditEntries(keyId: string, limit: number): Promise<AuditEntry[]> {
+  return getStore().lrange<AuditEntry>(KEYS.AUDIT(keyId), 0, limit - 1);
+}
@@ -0,0 +1,69 @@
+/**
+ * API Key Types
+ */
+
+/**
+ * - read: GET endpoints and read-only POSTs (quotes, backtests, previews)
+ * - trade: open / add liquidity, swaps, compounding, settings
+ * - withdraw: remove liquidity, close positions, claim fees
+ *
+ * trade and withdraw imply read.
+ */
+export type ApiKeyScope = 'read' | 'trade' | 'withdraw';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'trade', 'withdraw'];
+
+/** Bind a key to every wallet instead of a list of wallet ids */
+export const ALL_WALLETS = '*';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  /** Privy wallet ids the key may act on, or [ALL_WALLETS] */
+  walletIds: string[];
+  /** Addresses of walletIds, resolved at issuance for address-based routes */
+  walletAddresses: string[];
+  /** sha256 of the secret; the secret itself is only returned once */
+  secretHash: string;
+  /** Hash of the secret replaced by the last rotation, accepted until previousExpiresAt */
+  previousSecretHash?: string;
+  previousExpiresAt?: number;
+  createdAt: number;
+  rotatedAt?: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+}
+
+/** What the key management endpoints return: no hashes */
+export type ApiKeyView = Omit<ApiKey, 'secretHash' | 'previousSecretHash'>;
+
+export interface IssueApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  walletIds: string[];
+  expiresInDays?: number;
+}
+
+/** The authenticated caller of a request */
+export interface Principal {
+  keyId: string; // 'admin' for the admin key
+  admin: boolean;
+  scopes: ApiKeyScope[];
+  walletIds: string[];
+  walletAddresses: string[];
+}
+
+export interface AuditEntry {
+  at: number;
+  keyId: string;
+  requestId?: string;
+  method: string;
+  path: string;
+  outcome: 'allowed' | 'denied';
+  status?: number;
+  reason?: string;
+  /** Wallet ids / addresses the request referenced */
+  wallets?: string[];
+}
@@ -0,0 +1,244 @@
+/**
+ * DLMM Backtest Engine
+ *
+ * Replays a price/volume series against a simulated DLMM position. Pure:
+ * no network, no storage.
+ *
+ * Model:
+ * - Bin k sits at price p_k = p_0 * (1 + binStep)^k, with k = 0 the bin of
+ *   the first point. A bin below the active bin holds only token Y, a bin
+ *   above only token X, so each bin's value is fixed by its liquidity L_k
+ *   (in Y): L_k below, L_k * P / p_k above.
+ * - Capital is spread over [center - offset, center + offset] by shape:
+ *   spot = flat, curve = bell around the center, bid-ask = heavier at edges.
+ * - Each step earns volume * base fee * (our depth in the active bin /
+ *   (pool depth + ours)), where pool depth is TVL / liquidityBins. Variable
+ *   fees are ignored, so results lean conservative in volatile periods.
+ * - A rebalance closes at the current price and reopens centered there,
+ *   paying two Jito bundles (withdraw + re-enter) and a swap of the
+ *   composition difference.
+ * - IL is measured against holding the very first deposit, costs excluded.
+ */
+
+import type {
+  BacktestEvent,
+  BacktestParams,
+  BacktestResult,
+  BacktestShape,
+  BacktestStrategy,
+  SeriesPoint,
+} from './types.js';
+
+// Same bin offsets as the LP wizard presets (±3 / ±8 / ±25 bins)
+export const STRATEGY_BIN_OFFSETS: Record<BacktestStrategy, number> = {
+  tight: 3,
+  balanced: 8,
+  wide: 25,
+};
+
+const BUNDLES_PER_REBALANCE = 2;
+const MAX_EVENTS = 200;
+const DAY_MS = 86_400_000;
+
+interface SimPosition {
+  lower: number;
+  upper: number;
+  liquidity: Map<number, number>; // bin -> L_k in token Y
+}
+
+function shapeWeights(offset: number, shape: BacktestShape): number[] {
+  const raw: number[] = [];
+  for (let j = -offset; j <= offset; j++) {
+    if (shape === 'curve') {
+      const sigma = Math.max(offset / 2, 1);
+      raw.push(Math.exp(-0.5 * (j / sigma) ** 2));
+    } else if (shape === 'bidask') {
+      raw.push(Math.abs(j) + 1);
+    } else {
+      raw.push(1);
+    }
+  }
+  const total = raw.reduce((s, w) => s + w, 0);
+  return raw.map(w => w / total);
+}
+
+export function runBacktestSimulation(params: BacktestParams): BacktestResult {
+  const { pool, points, amountUsd, strategy, shape, rebalance, costs } = params;
+  const offset = params.binOffset ?? STRATEGY_BIN_OFFSETS[strategy];
+  const step = 1 + pool.binStep / 10_000;
+  const logStep = Math.log(step);
+  const p0 = points[0].price;
+  const weights = shapeWeights(offset, shape);
+  const feeRate = pool.baseFeeBps / 10_000;
+  const solToUsd = (lamports: number) => (lamports / 1e9) * costs.solPriceUsd;
+  const quoteUsd = (p: SeriesPoint) => p.quoteUsd ?? 1;
+
+  const binPrice = (k: number) => p0 * Math.pow(step, k);
+  const activeBin = (price: number) => Math.floor(Math.log(price / p0) / logStep + 1e-9);
+
+  const binValue = (k: number, L: number, price: number, active: number) =>
+    k > active ? (L * price) / binPrice(k) : L;
+
+  const valueOf = (pos: SimPosition, price: number) => {
+    const active = activeBin(price);
+    let v = 0;
+    for (const [k, L] of pos.liquidity) v += binValue(k, L, price, active);
+    return v;
+  };
+
+  const composition = (pos: SimPosition, price: number) => {
+    const active = activeBin(price);
+    let x = 0;
+    let y = 0;
+    for (const [k, L] of pos.liquidity) {
+      if (k > active) x += L / binPrice(k);
+      else y += L;
+    }
+    return { x, y };
+  };
+
+  const open = (capital: number, price: number): SimPosition => {
+    const center = activeBin(price);
+    const liquidity = new Map<number, number>();
+    weights.forEach((w, i) => {
+      const k = center - offset + i;
+      liquidity.set(k, k > center ? (w * capital * binPrice(k)) / price : w * capital);
+    });
+    return { lower: center - offset, upper: center + offset, liquidity };
+  };
+
+  // ---- Open ----
+  const first = points[0];
+  let tipsUsd = solToUsd(costs.tipLamports);
+  let txFeesUsd = solToUsd(costs.txFeeLamports);
+  let swapsUsd = 0;
+  const initialCapital = amountUsd / quoteUsd(first);
+  let position = open(initialCapital - (tipsUsd + txFeesUsd) / quoteUsd(first), first.price);
+  const hold = composition(position, first.price);
+  // The HODL basket is the full deposit, before entry costs
+  const holdScale = initialCapital / (hold.x * first.price + hold.y);
+  const holdX = hold.x * holdScale;
+  const holdY = hold.y * holdScale;
+
+  const events: BacktestEvent[] = [{
+    timestamp: first.timestamp,
+    type: 'open',
+    price: first.price,
+    valueUsd: amountUsd,
+    binRange: { lower: position.lower, upper: position.upper },
+  }];
+
+  let feesUsd = 0;
+  let rebalances = 0;
+  let inRangeMs = 0;
+  let triggeredSince: number | null = null;
+  let lastRebalance = first.timestamp;
+
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i];
+    const dt = point.timestamp - points[i - 1].timestamp;
+    const active = activeBin(point.price);
+    const inRange = active >= position.lower && active <= position.upper;
+
+    // ---- Fees ----
+    if (inRange) {
+      inRangeMs += dt;
+      const ourDepthUsd = binValue(active, position.liquidity.get(active) || 0, point.price, active) * quoteUsd(point);
+      const poolDepthUsd = (point.tvlUsd ?? pool.tvlUsd) / Math.max(pool.liquidityBins, 1);
+      const share = ourDepthUsd > 0 ? ourDepthUsd / (poolDepthUsd + ourDepthUsd) : 0;
+      feesUsd += point.volumeUsd * feeRate * share;
+    }
+
+    // ---- Rebalance policy ----
+    if (rebalance.trigger === 'none') continue;
+
+    const edgeBins = rebalance.edgeBins ?? 1;
+    const triggered = rebalance.trigger === 'edge'
+      ? active <= position.lower + edgeBins || active >= position.upper - edgeBins
+      : !inRange;
+
+    if (!triggered) {
+      triggeredSince = null;
+      continue;
+    }
+    triggeredSince ??= point.timestamp;
+
+    const delayMet = point.timestamp - triggeredSince >= (rebalance.delayMinutes ?? 0) * 60_000;
+    const cooldownMet = point.timestamp - lastRebalance >= (rebalance.cooldownMinutes ?? 0) * 60_000;
+    if (!delayMet || !cooldownMet) continue;
+
+    // Close, pay for it, reopen centered on the current price
+    const q = quoteUsd(point);
+    const before = composition(position, point.price);
+    const bundleCostUsd = BUNDLES_PER_REBALANCE * (solToUsd(costs.tipLamports) + solToUsd(costs.txFeeLamports));
+    const capital = valueOf(position, point.price) - bundleCostUsd / q;
+
+    const target = composition(open(capital, point.price), point.price);
+    const swapNotional = Math.abs(before.x - target.x) * point.price;
+    const swapCost = swapNotional * (costs.swapCostBps / 10_000);
+
+    position = open(capital - swapCost, point.price);
+    tipsUsd += BUNDLES_PER_REBALANCE * solToUsd(costs.tipLamports);
+    txFeesUsd += BUNDLES_PER_REBALANCE * solToUsd(costs.txFeeLamports);
+    swapsUsd += swapCost * q;
+    rebalances++;
+    lastRebalance = point.timestamp;
+    triggeredSince = null;
+
+    if (events.length < MAX_EVENTS) {
+      events.push({
+        timestamp: point.timestamp,
+        type: 'rebalance',
+        price: point.price,
+        valueUsd: (capital - swapCost) * q,
+        binRange: { lower: position.lower, upper: position.upper },
+      });
+    }
+  }
+
+  // ---- Results ----
+  const last = points[points.length - 1];
+  const finalValueUsd = valueOf(position, last.price) * quoteUsd(last);
+  const holdValueUsd = (holdX * last.price + holdY) * quoteUsd(last);
+  const costsUsd = tipsUsd + txFeesUsd + swapsUsd;
+  const ilUsd = finalValueUsd + costsUsd - holdValueUsd;
+  const netPnlUsd = finalValueUsd + feesUsd - amountUsd;
+  const days = Math.max((last.timestamp - first.timestamp) / DAY_MS, 1 / 24);
+  const totalMs = last.timestamp - first.timestamp;
+
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+
+  return {
+    strategy,
+    shape,
+    binOffset: offset,
+    rangePercent: round2((Math.pow(step, offset) - 1) * 100),
+    rebalancePolicy: rebalance,
+    period: {
+      start: new Date(first.timestamp).toISOString(),
+      end: new Date(last.timestamp).toISOString(),
+      days: round2(days),
+      points: points.length,
+    },
+    initialValueUsd: round2(amountUsd),
+    finalValueUsd: round2(finalValueUsd),
+    holdValueUsd: round2(holdValueUsd),
+    feesEarnedUsd: round2(feesUsd),
+    ilUsd: round2(ilUsd),
+    ilPercent: holdValueUsd > 0 ? round2((ilUsd / holdValueUsd) * 100) : 0,
+    costs: {
+      totalUsd: round2(costsUsd),
+      tipsUsd: round2(tipsUsd),
+      txFeesUsd: round2(txFeesUsd),
+      swapsUsd: round2(swapsUsd),
+    },
+    rebalances,
+    timeInRangePercent: totalMs > 0 ? round2((inRangeMs / totalMs) * 100) : 0,
+    netPnlUsd: round2(netPnlUsd),
+    netPnlPercent: round2((netPnlUsd / amountUsd) * 100),
+    vsHodlUsd: round2(finalValueUsd + feesUsd - holdValueUsd),
+    feeAprPercent: round2((feesUsd / amountUsd) * (365 / days) * 100),
+    netAprPercent: round2((netPnlUsd / amountUsd) * (365 / days) * 100),
+    events,
+  };
+}
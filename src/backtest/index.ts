@@ -0,0 +1,284 @@
+/**
+ * DLMM Strategy Backtester
+ *
+ * Replays a historical price/volume series against a strategy (bin preset +
+ * distribution shape) and a rebalance policy, and reports fees earned, IL,
+ * rebalances, tip/gas cost and time in range.
+ *
+ * Pool parameters come from the request, then the series file, then the
+ * Meteora API when a pool address is given.
+ *
+ * The optimizer runs the same inputs over a parameter grid. Saved results
+ * for a pool (series files only, admin API) are kept under
+ * lp-toolkit:optimizer:<poolAddress> and picked up by the risk engine's
+ * recommendations.
+ */
+
+import { config } from '../config/index.js';
+import { getTipLamports, type TipSpeed } from '../jito/index.js';
+import { getStore } from '../storage/index.js';
+import { getTokenPrices } from '../utils/prices.js';
+import { runBacktestSimulation } from './engine.js';
+import { DEFAULT_OPTIMIZER_GRID, searchStrategies, type OptimizerCandidate, type OptimizerGrid } from './optimizer.js';
+import { findPoolSeries, loadSeries, normalizePoints } from './series.js';
+import type {
+  BacktestCosts,
+  BacktestPool,
+  BacktestResult,
+  BacktestShape,
+  BacktestStrategy,
+  RebalancePolicy,
+  SeriesPoint,
+} from './types.js';
+
+export * from './types.js';
+export { runBacktestSimulation, STRATEGY_BIN_OFFSETS } from './engine.js';
+export { loadSeries, listSeries, findPoolSeries } from './series.js';
+export { DEFAULT_OPTIMIZER_GRID, paretoFront } from './optimizer.js';
+export type { OptimizerCandidate, OptimizerGrid, RebalanceThreshold } from './optimizer.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DEFAULT_LIQUIDITY_BINS = 70;
+const DEFAULT_TX_FEE_LAMPORTS = 105_000; // ~3 txs per bundle at base fee + priority fee
+const OPTIMIZATION_TTL_SECONDS = 7 * 24 * 3600;
+// Both run synchronously on the event loop
+export const MAX_INLINE_POINTS = 5000;
+export const MAX_OPTIMIZER_CANDIDATES = 240;
+const MAX_DELAY_MINUTES = 7 * 24 * 60;
+
+const KEYS = {
+  OPTIMIZATION: (poolAddress: string) => `lp-toolkit:optimizer:${poolAddress}`,
+};
+
+export interface BacktestRequest {
+  series?: string; // File name in config.backtest.dataDir
+  points?: SeriesPoint[]; // Or inline points
+  poolAddress?: string;
+  binStep?: number;
+  baseFeeBps?: number;
+  tvlUsd?: number;
+  liquidityBins?: number;
+  amountUsd?: number;
+  strategy?: BacktestStrategy;
+  binOffset?: number;
+  shape?: BacktestShape;
+  rebalance?: RebalancePolicy;
+  tipSpeed?: TipSpeed;
+  swapCostBps?: number;
+  solPriceUsd?: number;
+}
+
+export interface BacktestResponse extends BacktestResult {
+  series: string;
+  pool: BacktestPool & { address?: string };
+}
+
+export type OptimizeRequest = Omit<BacktestRequest, 'strategy' | 'binOffset' | 'shape' | 'rebalance'> & {
+  grid?: Partial<OptimizerGrid>;
+  save?: boolean; // Store for the risk engine; needs poolAddress and a series file (default: false)
+};
+
+export interface OptimizationResult {
+  poolAddress?: string;
+  series: string;
+  pool: BacktestPool;
+  period: BacktestResult['period'];
+  amountUsd: number;
+  evaluated: number;
+  front: OptimizerCandidate[];
+  recommended: OptimizerCandidate;
+  optimizedAt: string;
+}
+
+interface PreparedInputs {
+  seriesName: string;
+  points: SeriesPoint[];
+  pool: BacktestPool;
+  amountUsd: number;
+  costs: BacktestCosts;
+}
+
+async function fetchMeteoraPool(address: string): Promise<Partial<BacktestPool>> {
+  const resp = await fetch(`${config.meteora.apiUrl}/pair/${address}`);
+  if (!resp.ok) throw new Error(`Pool ${address} not found on Meteora (HTTP ${resp.status})`);
+  const data = await resp.json() as any;
+  return {
+    binStep: parseInt(data.bin_step || '0') || undefined,
+    baseFeeBps: data.base_fee_percentage ? parseFloat(data.base_fee_percentage) * 100 : undefined,
+    tvlUsd: parseFloat(data.liquidity || '0') || undefined,
+  };
+}
+
+async function resolvePool(
+  request: BacktestRequest,
+  points: SeriesPoint[],
+  fromSeries?: Partial<BacktestPool>,
+): Promise<BacktestPool> {
+  const explicit: Partial<BacktestPool> = {
+    binStep: request.binStep,
+    baseFeeBps: request.baseFeeBps,
+    tvlUsd: request.tvlUsd,
+    liquidityBins: request.liquidityBins,
+  };
+  const merged = { ...fromSeries };
+  for (const [k, v] of Object.entries(explicit)) {
+    if (v !== undefined) (merged as any)[k] = v;
+  }
+
+  if ((!merged.binStep || merged.baseFeeBps === undefined || !merged.tvlUsd) && request.poolAddress) {
+    const remote = await fetchMeteoraPool(request.poolAddress);
+    merged.binStep ??= remote.binStep;
+    merged.baseFeeBps ??= remote.baseFeeBps;
+    merged.tvlUsd ??= remote.tvlUsd;
+  }
+
+  if (!merged.binStep) {
+    throw new Error('Unknown bin step: pass binStep or poolAddress, or include pool.binStep in the series file');
+  }
+  if (!merged.tvlUsd && !points.every(p => p.tvlUsd)) {
+    throw new Error('Unknown pool TVL: pass tvlUsd or poolAddress, or include tvl in the series');
+  }
+
+  return {
+    binStep: merged.binStep,
+    // Meteora's base fee is binStep * baseFactor; baseFactor is 1 (bps) on most pools
+    baseFeeBps: merged.baseFeeBps ?? merged.binStep,
+    tvlUsd: merged.tvlUsd || 0,
+    liquidityBins: merged.liquidityBins || DEFAULT_LIQUIDITY_BINS,
+  };
+}
+
+async function prepareInputs(request: BacktestRequest): Promise<PreparedInputs> {
+  let seriesName = 'inline';
+  let points: SeriesPoint[];
+  let seriesPool: Partial<BacktestPool> | undefined;
+
+  if (request.points?.length) {
+    if (request.points.length > MAX_INLINE_POINTS) {
+      throw new Error(`Too many inline points (max ${MAX_INLINE_POINTS}); use a series file`);
+    }
+    points = normalizePoints(request.points);
+  } else if (request.series) {
+    const series = await loadSeries(request.series);
+    seriesName = series.name;
+    points = series.points;
+    seriesPool = series.pool;
+  } else {
+    throw new Error('Provide a series file name or inline points');
+  }
+
+  const pool = await resolvePool(request, points, seriesPool);
+
+  let solPriceUsd = request.solPriceUsd;
+  if (solPriceUsd === undefined) {
+    const prices = await getTokenPrices([SOL_MINT]).catch(() => new Map<string, number>());
+    solPriceUsd = prices.get(SOL_MINT);
+    if (!solPriceUsd) throw new Error('Could not fetch SOL price for tip costs; pass solPriceUsd');
+  }
+
+  const amountUsd = request.amountUsd ?? 1000;
+  if (amountUsd <= 0) throw new Error('amountUsd must be positive');
+
+  return {
+    seriesName,
+    points,
+    pool,
+    amountUsd,
+    costs: {
+      tipLamports: getTipLamports(request.tipSpeed || 'fast'),
+      txFeeLamports: DEFAULT_TX_FEE_LAMPORTS,
+      swapCostBps: request.swapCostBps ?? 30,
+      solPriceUsd,
+    },
+  };
+}
+
+/**
+ * Run a backtest from a request (API, bot and MCP entry point)
+ */
+export async function runBacktest(request: BacktestRequest): Promise<BacktestResponse> {
+  const { seriesName, points, pool, amountUsd, costs } = await prepareInputs(request);
+
+  console.log(`[Backtest] ${seriesName}: ${points.length} points, ${request.strategy || 'balanced'}/${request.shape || 'spot'}, rebalance ${request.rebalance?.trigger || 'out-of-range'}`);
+
+  const result = runBacktestSimulation({
+    pool,
+    points,
+    amountUsd,
+    strategy: request.strategy || 'balanced',
+    binOffset: request.binOffset,
+    shape: request.shape || 'spot',
+    rebalance: request.rebalance || { trigger: 'out-of-range' },
+    costs,
+  });
+
+  return { series: seriesName, pool: { ...pool, address: request.poolAddress }, ...result };
+}
+
+/**
+ * Search bin width, shape and rebalance threshold for the Pareto front of
+ * fee yield vs IL vs rebalance cost. Without a series or points, uses the
+ * pool's own series file (<poolAddress>.csv/.json).
+ */
+export async function optimizeStrategy(request: OptimizeRequest): Promise<OptimizationResult> {
+  // Inline points are the caller's word; only server-side series feed recommendations
+  if (request.save && (!request.poolAddress || request.points?.length)) {
+    throw new Error('Only runs over a series file for a poolAddress can be saved');
+  }
+
+  let series = request.series;
+  if (!series && !request.points?.length && request.poolAddress) {
+    series = await findPoolSeries(request.poolAddress);
+    if (!series) {
+      throw new Error(`No series file for pool ${request.poolAddress}; add ${request.poolAddress}.csv to ${config.backtest.dataDir} or pass series`);
+    }
+  }
+
+  const { seriesName, points, pool, amountUsd, costs } = await prepareInputs({ ...request, series });
+  const grid: OptimizerGrid = {
+    binOffsets: request.grid?.binOffsets?.length ? request.grid.binOffsets : DEFAULT_OPTIMIZER_GRID.binOffsets,
+    shapes: request.grid?.shapes?.length ? request.grid.shapes : DEFAULT_OPTIMIZER_GRID.shapes,
+    thresholds: request.grid?.thresholds?.length ? request.grid.thresholds : DEFAULT_OPTIMIZER_GRID.thresholds,
+  };
+  if (grid.binOffsets.some(o => !Number.isInteger(o) || o < 1 || o > 34)) {
+    throw new Error('binOffsets must be whole numbers between 1 and 34');
+  }
+  if (grid.thresholds.some(t => (t.delayMinutes !== undefined && !(t.delayMinutes >= 0 && t.delayMinutes <= MAX_DELAY_MINUTES))
+    || (t.edgeFraction !== undefined && !(t.edgeFraction > 0 && t.edgeFraction <= 1)))) {
+    throw new Error(`Threshold delayMinutes must be 0-${MAX_DELAY_MINUTES} and edgeFraction between 0 and 1`);
+  }
+  if (grid.binOffsets.length * grid.shapes.length * grid.thresholds.length > MAX_OPTIMIZER_CANDIDATES) {
+    throw new Error(`Optimizer grid is too large (max ${MAX_OPTIMIZER_CANDIDATES} combinations)`);
+  }
+
+  const search = searchStrategies({ pool, points, amountUsd, costs, grid });
+  const result: OptimizationResult = {
+    poolAddress: request.poolAddress,
+    series: seriesName,
+    pool,
+    period: {
+      start: new Date(points[0].timestamp).toISOString(),
+      end: new Date(points[points.length - 1].timestamp).toISOString(),
+      days: Math.round(((points[points.length - 1].timestamp - points[0].timestamp) / 86_400_000) * 100) / 100,
+      points: points.length,
+    },
+    amountUsd,
+    ...search,
+    optimizedAt: new Date().toISOString(),
+  };
+
+  console.log(`[Backtest] Optimized ${seriesName}: ${search.evaluated} candidates, ${search.front.length} on the front, recommended ±${search.recommended.binOffset} ${search.recommended.shape}/${search.recommended.rebalance.trigger}`);
+
+  if (request.save && request.poolAddress) {
+    await getStore().set(KEYS.OPTIMIZATION(request.poolAddress), result, { ex: OPTIMIZATION_TTL_SECONDS });
+  }
+
+  return result;
+}
+
+/**
+ * Last stored optimization for a pool, if any
+ */
+export async function getStoredOptimization(poolAddress: string): Promise<OptimizationResult | null> {
+  return getStore().get<OptimizationResult>(KEYS.OPTIMIZATION(poolAddress));
+}
@@ -0,0 +1,151 @@
+/**
+ * Strategy Parameter Optimizer
+ *
+ * Grid-searches bin width, distribution shape and rebalance threshold over
+ * one series and keeps the Pareto front of three objectives:
+ *   - fee yield (fee APR, higher is better)
+ *   - IL vs HODL (ilPercent, closer to zero is better)
+ *   - rebalance cost (tips + tx fees + swaps, lower is better)
+ *
+ * Pure: every candidate is a runBacktestSimulation call on the same inputs.
+ */
+
+import { runBacktestSimulation } from './engine.js';
+import type {
+  BacktestCosts,
+  BacktestPool,
+  BacktestShape,
+  RebalancePolicy,
+  SeriesPoint,
+} from './types.js';
+
+export interface RebalanceThreshold {
+  trigger: RebalancePolicy['trigger'];
+  delayMinutes?: number;
+  edgeFraction?: number; // For 'edge': trigger distance as a fraction of the half-range
+}
+
+export interface OptimizerGrid {
+  binOffsets: number[];
+  shapes: BacktestShape[];
+  thresholds: RebalanceThreshold[];
+}
+
+export interface OptimizerCandidate {
+  binOffset: number;
+  totalBins: number;
+  rangePercent: number;
+  shape: BacktestShape;
+  rebalance: RebalancePolicy;
+  feeAprPercent: number;
+  ilPercent: number;
+  rebalanceCostUsd: number;
+  rebalances: number;
+  timeInRangePercent: number;
+  netAprPercent: number;
+}
+
+export interface OptimizerParams {
+  pool: BacktestPool;
+  points: SeriesPoint[];
+  amountUsd: number;
+  costs: BacktestCosts;
+  grid: OptimizerGrid;
+}
+
+export interface OptimizerSearch {
+  evaluated: number;
+  front: OptimizerCandidate[];
+  recommended: OptimizerCandidate;
+}
+
+// A DLMM position holds at most 70 bins, so offsets stop at ±34
+export const DEFAULT_OPTIMIZER_GRID: OptimizerGrid = {
+  binOffsets: [2, 3, 5, 8, 12, 18, 25, 34],
+  shapes: ['spot', 'curve', 'bidask'],
+  thresholds: [
+    { trigger: 'none' },
+    { trigger: 'out-of-range' },
+    { trigger: 'out-of-range', delayMinutes: 60 },
+    { trigger: 'edge', edgeFraction: 0.1 },
+    { trigger: 'edge', edgeFraction: 0.25 },
+  ],
+};
+
+function toPolicy(threshold: RebalanceThreshold, binOffset: number): RebalancePolicy {
+  const policy: RebalancePolicy = { trigger: threshold.trigger };
+  if (threshold.delayMinutes) policy.delayMinutes = threshold.delayMinutes;
+  if (threshold.trigger === 'edge') {
+    policy.edgeBins = Math.max(1, Math.round(binOffset * (threshold.edgeFraction ?? 0.1)));
+  }
+  return policy;
+}
+
+function dominates(a: OptimizerCandidate, b: OptimizerCandidate): boolean {
+  const noWorse = a.feeAprPercent >= b.feeAprPercent
+    && a.ilPercent >= b.ilPercent
+    && a.rebalanceCostUsd <= b.rebalanceCostUsd;
+  const better = a.feeAprPercent > b.feeAprPercent
+    || a.ilPercent > b.ilPercent
+    || a.rebalanceCostUsd < b.rebalanceCostUsd;
+  return noWorse && better;
+}
+
+/**
+ * Non-dominated candidates, sorted by fee APR (highest first)
+ */
+export function paretoFront(candidates: OptimizerCandidate[]): OptimizerCandidate[] {
+  return candidates
+    .filter(c => !candidates.some(other => dominates(other, c)))
+    .sort((a, b) => b.feeAprPercent - a.feeAprPercent);
+}
+
+export function searchStrategies(params: OptimizerParams): OptimizerSearch {
+  const { pool, points, amountUsd, costs, grid } = params;
+  const seen = new Set<string>();
+  const candidates: OptimizerCandidate[] = [];
+
+  for (const binOffset of grid.binOffsets) {
+    for (const shape of grid.shapes) {
+      for (const threshold of grid.thresholds) {
+        const rebalance = toPolicy(threshold, binOffset);
+        // Small offsets collapse several edge fractions onto the same edgeBins
+        const key = JSON.stringify([binOffset, shape, rebalance]);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const r = runBacktestSimulation({
+          pool,
+          points,
+          amountUsd,
+          strategy: 'balanced',
+          binOffset,
+          shape,
+          rebalance,
+          costs,
+        });
+        candidates.push({
+          binOffset,
+          totalBins: binOffset * 2 + 1,
+          rangePercent: r.rangePercent,
+          shape,
+          rebalance,
+          feeAprPercent: r.feeAprPercent,
+          ilPercent: r.ilPercent,
+          rebalanceCostUsd: r.costs.totalUsd,
+          rebalances: r.rebalances,
+          timeInRangePercent: r.timeInRangePercent,
+          netAprPercent: r.netAprPercent,
+        });
+      }
+    }
+  }
+
+  if (candidates.length === 0) throw new Error('Optimizer grid is empty');
+
+  const front = paretoFront(candidates);
+  // Net PnL is fees + IL - costs (plus a constant), so the net-best candidate is always on the front
+  const recommended = [...front].sort((a, b) => b.netAprPercent - a.netAprPercent)[0];
+
+  return { evaluated: candidates.length, front, recommended };
+}
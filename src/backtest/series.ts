@@ -0,0 +1,126 @@
+/**
+ * Historical Series Files
+ *
+ * Series live in config.backtest.dataDir and are referenced by file name.
+ *
+ *   CSV:  timestamp,price,volume_usd[,tvl_usd][,quote_usd]
+ *   JSON: [{ timestamp, price, volumeUsd, tvlUsd?, quoteUsd? }, ...]
+ *         or { pool: { binStep, baseFeeBps, tvlUsd }, points: [...] }
+ *
+ * A file named <poolAddress>.csv/.json is that pool's default series.
+ *
+ * Timestamps may be ms, seconds or ISO 8601.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+import type { HistoricalSeries, SeriesPoint } from './types.js';
+
+const SERIES_EXTENSIONS = ['.csv', '.json'];
+
+function parseTimestamp(value: unknown): number {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  const s = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(s)) return parseTimestamp(Number(s));
+  const ms = Date.parse(s);
+  if (Number.isNaN(ms)) throw new Error(`Invalid timestamp "${s}"`);
+  return ms;
+}
+
+function toPoint(raw: Record<string, unknown>): SeriesPoint {
+  const num = (...keys: string[]) => {
+    for (const k of keys) {
+      if (raw[k] !== undefined && raw[k] !== '') return Number(raw[k]);
+    }
+    return undefined;
+  };
+  return {
+    timestamp: parseTimestamp(raw.timestamp ?? raw.time ?? raw.date),
+    price: num('price', 'close') ?? NaN,
+    volumeUsd: num('volumeUsd', 'volume_usd', 'volume') ?? 0,
+    tvlUsd: num('tvlUsd', 'tvl_usd', 'tvl'),
+    quoteUsd: num('quoteUsd', 'quote_usd'),
+  };
+}
+
+function parseCsv(text: string): SeriesPoint[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+  const header = lines.shift()?.split(',').map(h => h.trim().toLowerCase()) || [];
+  if (!header.includes('timestamp') || !header.includes('price')) {
+    throw new Error('CSV series needs a header with at least timestamp and price columns');
+  }
+  return lines.map(line => {
+    const cells = line.split(',');
+    return toPoint(Object.fromEntries(header.map((h, i) => [h, cells[i]?.trim()])));
+  });
+}
+
+/**
+ * Sort, validate and de-duplicate points
+ */
+export function normalizePoints(points: SeriesPoint[]): SeriesPoint[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const result: SeriesPoint[] = [];
+  for (const p of sorted) {
+    if (!Number.isFinite(p.price) || p.price <= 0) {
+      throw new Error(`Invalid price at ${new Date(p.timestamp).toISOString()}`);
+    }
+    if (result.length > 0 && result[result.length - 1].timestamp === p.timestamp) continue;
+    result.push({ ...p, volumeUsd: Math.max(p.volumeUsd || 0, 0) });
+  }
+  if (result.length < 2) throw new Error('Series needs at least two points');
+  return result;
+}
+
+/**
+ * Resolve a series name to a path inside the data dir. Names can't escape it.
+ */
+function seriesPath(name: string): string {
+  if (name !== path.basename(name) || !SERIES_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+    throw new Error(`Invalid series name "${name}". Use a .csv or .json file name from ${config.backtest.dataDir}`);
+  }
+  return path.resolve(config.backtest.dataDir, name);
+}
+
+export async function loadSeries(name: string): Promise<HistoricalSeries> {
+  const file = seriesPath(name);
+  let text: string;
+  try {
+    text = await readFile(file, 'utf-8');
+  } catch {
+    throw new Error(`Series "${name}" not found in ${config.backtest.dataDir}`);
+  }
+
+  if (file.toLowerCase().endsWith('.csv')) {
+    return { name, points: normalizePoints(parseCsv(text)) };
+  }
+
+  const json = JSON.parse(text) as any;
+  const rawPoints: Record<string, unknown>[] = Array.isArray(json) ? json : json.points || [];
+  return {
+    name,
+    pool: Array.isArray(json) ? undefined : json.pool,
+    points: normalizePoints(rawPoints.map(toPoint)),
+  };
+}
+
+/**
+ * Series files available to backtest
+ */
+export async function listSeries(): Promise<string[]> {
+  try {
+    const files = await readdir(config.backtest.dataDir);
+    return files.filter(f => SERIES_EXTENSIONS.includes(path.extname(f).toLowerCase())).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Series file named after a pool (<poolAddress>.csv or .json), if installed
+ */
+export async function findPoolSeries(poolAddress: string): Promise<string | undefined> {
+  const files = await listSeries();
+  return files.find(f => path.basename(f, path.extname(f)) === poolAddress);
+}
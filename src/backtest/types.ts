@@ -0,0 +1,86 @@
+/**
+ * Backtest Types
+ */
+
+/** One observation of the pool. `volumeUsd` is traded volume since the previous point. */
+export interface SeriesPoint {
+  timestamp: number; // ms
+  price: number; // Token X priced in token Y
+  volumeUsd: number;
+  tvlUsd?: number; // Pool TVL at this point (falls back to the pool's)
+  quoteUsd?: number; // USD price of token Y (default 1, e.g. USDC-quoted pools)
+}
+
+export interface HistoricalSeries {
+  name: string;
+  pool?: Partial<BacktestPool>;
+  points: SeriesPoint[];
+}
+
+export interface BacktestPool {
+  binStep: number; // bps
+  baseFeeBps: number;
+  tvlUsd: number;
+  liquidityBins: number; // How many bins around the active bin the pool's TVL is spread over
+}
+
+export type BacktestStrategy = 'tight' | 'balanced' | 'wide';
+
+export type BacktestShape = 'spot' | 'curve' | 'bidask';
+
+export interface RebalancePolicy {
+  trigger: 'none' | 'out-of-range' | 'edge';
+  delayMinutes?: number; // Trigger must hold this long before acting (default 0)
+  edgeBins?: number; // 'edge': act when the active bin is this close to either edge (default 1)
+  cooldownMinutes?: number; // Minimum time between rebalances (default 0)
+}
+
+export interface BacktestCosts {
+  tipLamports: number; // Jito tip per bundle
+  txFeeLamports: number; // Base + priority fees per bundle
+  swapCostBps: number; // Slippage + route fees on the rebalancing swap
+  solPriceUsd: number;
+}
+
+export interface BacktestParams {
+  pool: BacktestPool;
+  points: SeriesPoint[];
+  amountUsd: number;
+  strategy: BacktestStrategy;
+  binOffset?: number; // Overrides the strategy preset
+  shape: BacktestShape;
+  rebalance: RebalancePolicy;
+  costs: BacktestCosts;
+}
+
+export interface BacktestEvent {
+  timestamp: number;
+  type: 'open' | 'rebalance';
+  price: number;
+  valueUsd: number;
+  binRange: { lower: number; upper: number }; // Relative to the bin of the first point
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  shape: BacktestShape;
+  binOffset: number;
+  rangePercent: number; // ± price range covered by the bins
+  rebalancePolicy: RebalancePolicy;
+  period: { start: string; end: string; days: number; points: number };
+  initialValueUsd: number;
+  finalValueUsd: number; // Position value at the last point, fees excluded
+  holdValueUsd: number; // The initial deposit held instead of LPed
+  feesEarnedUsd: number;
+  ilUsd: number;
+  ilPercent: number;
+  costs: { totalUsd: number; tipsUsd: number; txFeesUsd: number; swapsUsd: number };
+  rebalances: number;
+  timeInRangePercent: number;
+  netPnlUsd: number;
+  netPnlPercent: number;
+  vsHodlUsd: number;
+  feeAprPercent: number;
+  netAprPercent: number;
+  events: BacktestEvent[];
+}
@@ -5,7 +5,7 @@
  * Conversation wizards handle their own callbacks via waitForCallbackQuery().
  */
 import { InlineKeyboard } from 'grammy';
-import type { BotContext } from './types.js';
+import type { BotContext, PendingLpPool } from './types.js';
 import { setPendingPool, getCachedPosition, setWaitingForCA, setPendingPoolAddress, getDisplayedPool, setPendingLpPool, getPoolByPrefix } from './types.js';
 import {
   getRecipient,
@@ -81,6 +81,12 @@ export async function handleCallback(ctx: BotContext) {
       return;
     }
 
+    if (category === 'damm') {
+      const { showDammPools } = await import('./commands/pools.js');
+      await showDammPools(ctx);
+      return;
+    }
+
     if (category === 'best') {
       // Unified best yields across all DEXes
       const { showBestYieldPools } = await import('./commands/pools.js');
@@ -262,15 +268,16 @@ export async function handleCallback(ctx: BotContext) {
   if (data.startsWith('lp:p:')) {
     await ctx.answerCallbackQuery().catch(() => {});
     const parts = data.split(':');
-    const dexTag = parts[2]; // 'o' = orca, 'm' = meteora, 'r' = raydium
+    const dexTag = parts[2]; // 'o' = orca, 'm' = meteora, 'r' = raydium, 'd' = meteora damm
     const prefix = parts[3]; // first 11 chars of address
     
     const displayed = getPoolByPrefix(prefix);
     if (displayed && chatId) {
       // Use unified wizard for all DEXes
-      let dex: 'meteora' | 'orca' | 'raydium' = 'meteora';
+      let dex: PendingLpPool['dex'] = 'meteora';
       if (dexTag === 'o' || displayed.dex === 'orca') dex = 'orca';
       else if (dexTag === 'r' || displayed.dex === 'raydium') dex = 'raydium';
+      else if (dexTag === 'd' || displayed.dex === 'damm') dex = 'damm';
       setPendingLpPool(chatId, {
         address: displayed.address,
         dex,
@@ -302,9 +309,7 @@ export async function handleCallback(ctx: BotContext) {
       const displayed = getDisplayedPool(chatId, poolIdx);
       if (displayed) {
         // Use unified wizard for all DEXes
-        let dex: 'meteora' | 'orca' | 'raydium' = 'meteora';
-        if (displayed.dex === 'orca') dex = 'orca';
-        else if (displayed.dex === 'raydium') dex = 'raydium';
+        const dex: PendingLpPool['dex'] = displayed.dex ?? 'meteora';
         setPendingLpPool(chatId, {
           address: displayed.address,
           dex,
@@ -622,6 +627,31 @@ export async function handleCallback(ctx: BotContext) {
           return;
         }
 
+        // ---- Meteora DAMM v2 withdraw path ----
+        if (cached.dex === 'damm') {
+          const { executeDammWithdraw } = await import('../services/damm-service.js');
+          const result = await executeDammWithdraw({
+            walletId: cached.walletId,
+            walletAddress: cached.walletAddress,
+            positionAddress: cached.address,
+            convertToSol: true,
+            signTransaction: async (tx) => client.signTransaction(tx),
+          });
+
+          if (result.status.landed) {
+            await ctx.reply(
+              `*DAMM Position Closed!*\n\nPool: *${cached.pool}*\n\nLiquidity and fees withdrawn and swapped to SOL.\nUse /balance to check.`,
+              { parse_mode: 'Markdown' },
+            );
+          } else {
+            await ctx.reply(
+              `*Withdrawal Failed*\n\n${result.status.error || 'Transactions did not land'}\n\nYour tokens are safe. Try again from /positions.`,
+              { parse_mode: 'Markdown' },
+            );
+          }
+          return;
+        }
+
         // ---- Meteora DLMM withdraw path ----
         const connection = getConnection();
         const userPubkey = new PublicKey(cached.walletAddress);
@@ -695,6 +725,28 @@ export async function handleCallback(ctx: BotContext) {
         await invalidatePositionCache(cached.walletId);
 
         if (txHashes.length > 0) {
+          const { recordLpExit, fromBaseUnits } = await import('../ledger/index.js');
+          const [decimalsX, decimalsY] = [pool.tokenX.mint.decimals, pool.tokenY.mint.decimals];
+          const [mintX, mintY] = [pool.tokenX.publicKey.toBase58(), pool.tokenY.publicKey.toBase58()];
+          await recordLpExit({
+            walletAddress: cached.walletAddress,
+            poolAddress: cached.poolAddress,
+            positionId: cached.address,
+            dex: 'meteora',
+            flows: {
+              tokenX: { mint: mintX, amount: fromBaseUnits(positionData.totalXAmount || '0', decimalsX) },
+              tokenY: { mint: mintY, amount: fromBaseUnits(positionData.totalYAmount || '0', decimalsY) },
+              fees: [
+                { mint: mintX, amount: fromBaseUnits(positionData.feeX || '0', decimalsX) },
+                { mint: mintY, amount: fromBaseUnits(positionData.feeY || '0', decimalsY) },
+              ],
+              protocolFee: [],
+              swaps: [],
+              tipLamports: 0,
+            },
+            txHashes,
+          });
+
           const lastHash = txHashes[txHashes.length - 1];
           await ctx.reply(
             `*Position Closed!*\n\nPool: *${cached.pool}*\nTransactions: ${txHashes.length}\nTx: \`${lastHash.slice(0, 16)}...\`\n\nTokens returned to your wallet.\nUse /balance to check.`,
@@ -756,6 +808,11 @@ export async function handleCallback(ctx: BotContext) {
       return;
     }
 
+    if (cached.dex === 'damm') {
+      await ctx.reply('DAMM v2 fees are claimed when you withdraw the position.');
+      return;
+    }
+
     await ctx.reply(
       `Claiming fees from *${cached.pool}*...\n\nThis may take 30 seconds.`,
       { parse_mode: 'Markdown' },
@@ -853,6 +910,19 @@ export async function handleCallback(ctx: BotContext) {
         }
 
         if (txHashes.length > 0) {
+          const { recordFeeClaim, fromBaseUnits } = await import('../ledger/index.js');
+          await recordFeeClaim({
+            walletAddress: cached.walletAddress,
+            poolAddress: cached.poolAddress,
+            positionId: cached.address,
+            dex: 'meteora',
+            fees: [
+              { mint: pool.tokenX.publicKey.toBase58(), amount: fromBaseUnits(feeX, pool.tokenX.mint.decimals) },
+              { mint: pool.tokenY.publicKey.toBase58(), amount: fromBaseUnits(feeY, pool.tokenY.mint.decimals) },
+            ],
+            txHashes,
+          });
+
           await ctx.reply(
             `*Fees Claimed!*\n\nPool: *${cached.pool}*\nFees: ${feeX} tokenX + ${feeY} tokenY\nTx: \`${txHashes[txHashes.length - 1].slice(0, 16)}...\`\n\nUse /balance to check.`,
             { parse_mode: 'Markdown' },
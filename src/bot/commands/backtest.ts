@@ -0,0 +1,121 @@
+/**
+ * /backtest command handler - Replay DLMM strategies against a historical series
+ *
+ * Usage: /backtest <series> [tight|balanced|wide] [spot|curve|bidask] [none|oor|edge] [$amount] [pool]
+ * Without a strategy, compares all three presets side by side.
+ */
+import type { BotContext } from '../types.js';
+import {
+  runBacktest,
+  listSeries,
+  STRATEGY_BIN_OFFSETS,
+  type BacktestResponse,
+  type BacktestShape,
+  type BacktestStrategy,
+  type RebalancePolicy,
+} from '../../backtest/index.js';
+
+const TRIGGER_ALIASES: Record<string, RebalancePolicy['trigger']> = {
+  none: 'none',
+  hold: 'none',
+  oor: 'out-of-range',
+  'out-of-range': 'out-of-range',
+  edge: 'edge',
+};
+
+function formatUsd(n: number): string {
+  const sign = n < 0 ? '-' : '';
+  return `${sign}$${Math.abs(n).toFixed(2)}`;
+}
+
+function resultLines(r: BacktestResponse): string[] {
+  return [
+    `📊 *${r.strategy}* (±${r.binOffset} bins, ±${r.rangePercent}%)`,
+    `├ Fees: ${formatUsd(r.feesEarnedUsd)} (${r.feeAprPercent.toFixed(1)}% APR)`,
+    `├ IL vs HODL: ${formatUsd(r.ilUsd)} (${r.ilPercent.toFixed(2)}%)`,
+    `├ Rebalances: ${r.rebalances} (costs ${formatUsd(r.costs.totalUsd)})`,
+    `├ Time in range: ${r.timeInRangePercent.toFixed(1)}%`,
+    `└ Net: ${formatUsd(r.netPnlUsd)} (${r.netAprPercent.toFixed(1)}% APR)`,
+    ``,
+  ];
+}
+
+export async function backtestCommand(ctx: BotContext) {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  const text = ctx.message?.text || '';
+  const args = text.replace(/^\/backtest\S*\s*/i, '').trim().split(/\s+/).filter(Boolean);
+
+  if (args.length === 0) {
+    const series = await listSeries();
+    await ctx.reply(
+      '*Strategy Backtester*\n\n' +
+      'Replay a DLMM strategy against historical prices and volume.\n\n' +
+      'Usage:\n' +
+      '• `/backtest sol-usdc.csv` - Compare tight / balanced / wide\n' +
+      '• `/backtest sol-usdc.csv tight curve edge $500`\n' +
+      '• Add a pool address to use its bin step, fee and TVL\n\n' +
+      'Rebalance: `none`, `oor` (when out of range), `edge` (near range edge)\n\n' +
+      (series.length > 0 ? `Available series:\n${series.map(s => `• \`${s}\``).join('\n')}` : '_No series files installed_'),
+      { parse_mode: 'Markdown' },
+    );
+    return;
+  }
+
+  const [series, ...rest] = args;
+  let strategy: BacktestStrategy | undefined;
+  let shape: BacktestShape = 'spot';
+  let trigger: RebalancePolicy['trigger'] = 'out-of-range';
+  let amountUsd = 1000;
+  let poolAddress: string | undefined;
+
+  for (const arg of rest) {
+    const lower = arg.toLowerCase();
+    if (lower in STRATEGY_BIN_OFFSETS) strategy = lower as BacktestStrategy;
+    else if (['spot', 'curve', 'bidask'].includes(lower)) shape = lower as BacktestShape;
+    else if (TRIGGER_ALIASES[lower]) trigger = TRIGGER_ALIASES[lower];
+    else if (/^\$?[\d.]+$/.test(arg)) amountUsd = parseFloat(arg.replace('$', ''));
+    else if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(arg)) poolAddress = arg;
+  }
+
+  await ctx.reply('⏳ Running backtest...');
+
+  try {
+    const strategies = strategy ? [strategy] : (Object.keys(STRATEGY_BIN_OFFSETS) as BacktestStrategy[]);
+    const results: BacktestResponse[] = [];
+    for (const s of strategies) {
+      results.push(await runBacktest({
+        series,
+        poolAddress,
+        amountUsd,
+        strategy: s,
+        shape,
+        rebalance: { trigger },
+      }));
+    }
+
+    const first = results[0];
+    const lines = [
+      `*Backtest: ${first.series}*`,
+      ``,
+      `Period: ${first.period.start.slice(0, 10)} → ${first.period.end.slice(0, 10)} (${first.period.days}d)`,
+      `Amount: ${formatUsd(amountUsd)} | Shape: ${shape} | Rebalance: ${trigger}`,
+      `Bin step: ${first.pool.binStep} | Base fee: ${(first.pool.baseFeeBps / 100).toFixed(2)}%`,
+      ``,
+      ...results.flatMap(resultLines),
+    ];
+
+    if (results.length > 1) {
+      const best = [...results].sort((a, b) => b.netPnlUsd - a.netPnlUsd)[0];
+      lines.push(`🏆 Best net result: *${best.strategy}*`, ``);
+    }
+
+    lines.push(`_Base fees only; variable fees and MEV are not modeled._`);
+
+    await ctx.reply(lines.join('\n'), { parse_mode: 'Markdown' });
+  } catch (error: any) {
+    console.error('[Bot] /backtest error:', error.message);
+    await ctx.reply(`Backtest failed: ${error.message}`);
+  }
+}
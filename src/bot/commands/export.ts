@@ -1,11 +1,13 @@
 /**
- * /export - Export position data as text summary
+ * /export - Tax & accounting export of LP activity as a CSV file
+ *
+ * Usage: /export [csv|koinly|cointracker] [from YYYY-MM-DD] [to YYYY-MM-DD]
  */
 
+import { InputFile } from 'grammy';
 import type { BotContext } from '../types.js';
 import { getUserByChat } from '../../onboarding/index.js';
-import { discoverAllPositions } from '../../utils/position-discovery.js';
-import { getConnection } from '../../services/connection-pool.js';
+import { exportWalletActivity, parseExportDate, EXPORT_FORMATS, type ExportFormat } from '../../ledger/index.js';
 
 export async function exportCommand(ctx: BotContext) {
   const chatId = ctx.chat?.id;
@@ -17,45 +19,43 @@ export async function exportCommand(ctx: BotContext) {
     return;
   }
 
-  await ctx.reply('📊 Generating position export...');
+  const text = ctx.message?.text || '';
+  const args = text.replace(/^\/export\S*\s*/i, '').trim().split(/\s+/).filter(Boolean);
+
+  // Format is optional and may come first; the rest are dates
+  let format: ExportFormat = 'csv';
+  if (args[0] && EXPORT_FORMATS.includes(args[0].toLowerCase() as ExportFormat)) {
+    format = args.shift()!.toLowerCase() as ExportFormat;
+  }
+  const from = parseExportDate(args[0]);
+  const to = parseExportDate(args[1], true);
+
+  if ((args[0] && from === undefined) || (args[1] && to === undefined)) {
+    await ctx.reply(
+      '*Tax Export*\n\n' +
+      'Usage:\n' +
+      '• `/export` - All LP activity, generic CSV\n' +
+      '• `/export koinly 2026-01-01 2026-12-31` - Koinly import for a date range\n' +
+      '• `/export cointracker 2026-01-01` - CoinTracker import from a date\n\n' +
+      `Formats: ${EXPORT_FORMATS.join(', ')}`,
+      { parse_mode: 'Markdown' },
+    );
+    return;
+  }
+
+  await ctx.reply('📊 Generating export...');
 
   try {
-    const connection = getConnection();
-    const positions = await discoverAllPositions(connection, user.walletAddress);
-    
-    if (positions.length === 0) {
-      await ctx.reply('No positions to export.');
-      return;
-    }
+    const { csv, filename, rowCount } = await exportWalletActivity(user.walletAddress, format, { from, to });
 
-    const lines = [
-      `LP Position Export`,
-      `Wallet: ${user.walletAddress}`,
-      `Date: ${new Date().toISOString()}`,
-      ``,
-      `Positions:`,
-    ];
-
-    for (const pos of positions) {
-      lines.push(`---`);
-      lines.push(`Pool: ${pos.pool?.name || 'Unknown'}`);
-      lines.push(`Address: ${pos.address}`);
-      lines.push(`Range: ${pos.priceRange?.display || 'N/A'}`);
-      lines.push(`In Range: ${pos.inRange ? 'Yes' : 'No'}`);
-      lines.push(`Token X: ${pos.amounts?.tokenX || 0}`);
-      lines.push(`Token Y: ${pos.amounts?.tokenY || 0}`);
-      lines.push(`Fees X: ${pos.fees?.tokenXFormatted || '0'}`);
-      lines.push(`Fees Y: ${pos.fees?.tokenYFormatted || '0'}`);
+    if (rowCount === 0) {
+      await ctx.reply('No LP activity recorded for this period. Only operations executed through the toolkit are tracked.');
+      return;
     }
 
-    lines.push(`---`);
-    lines.push(`Total Positions: ${positions.length}`);
-
-    // Send as a code block for easy copying
-    await ctx.reply(
-      '```\n' + lines.join('\n') + '\n```',
-      { parse_mode: 'Markdown' }
-    );
+    await ctx.replyWithDocument(new InputFile(Buffer.from(csv, 'utf-8'), filename), {
+      caption: `${rowCount} rows (${format}). Cost basis and fee income are priced at the time of each event.`,
+    });
   } catch (error: any) {
     console.error('[Export] Error:', error);
     await ctx.reply(`Export failed: ${error.message}`);
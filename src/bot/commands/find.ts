@@ -6,6 +6,7 @@
 import type { BotContext } from '../types.js';
 import { InlineKeyboard } from 'grammy';
 import { setDisplayedPools, setPendingLpPool } from '../types.js';
+import { config } from '../../config/index.js';
 
 // Common token aliases
 const TOKEN_ALIASES: Record<string, string[]> = {
@@ -68,7 +69,7 @@ export async function findCommand(ctx: BotContext) {
 
   try {
     // Search Meteora pools
-    const meteoraUrl = 'https://dlmm-api.meteora.ag/pair/all_with_pagination?limit=100';
+    const meteoraUrl = `${config.meteora.apiUrl}/pair/all_with_pagination?limit=100`;
     const meteoraResp = await fetch(meteoraUrl);
     const meteoraData = await meteoraResp.json() as { groups: any[] };
     
@@ -0,0 +1,73 @@
+/**
+ * /hedge command handler - Delta/gamma of LP exposure and hedge sizes
+ */
+import type { BotContext } from '../types.js';
+import { getUserByChat } from '../../onboarding/index.js';
+import { getHedgeReport } from '../../risk/hedge.js';
+
+function formatUsd(n: number): string {
+  const sign = n < 0 ? '-' : '';
+  return `${sign}$${Math.abs(n).toFixed(2)}`;
+}
+
+function formatSignedUsd(n: number): string {
+  return `${n < 0 ? '-' : '+'}$${Math.abs(n).toFixed(2)}`;
+}
+
+export async function hedgeCommand(ctx: BotContext) {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  try {
+    const user = await getUserByChat(chatId);
+
+    if (!user) {
+      await ctx.reply('No wallet found. Use /start to create one.');
+      return;
+    }
+
+    await ctx.reply('📐 Computing delta and hedge sizes...');
+
+    const report = await getHedgeReport(user.walletAddress);
+
+    if (report.tokens.length === 0) {
+      await ctx.reply(report.positionCount === 0
+        ? 'No LP positions found. Use /lp to open one.'
+        : 'No volatile token exposure to hedge.');
+      return;
+    }
+
+    const sections = report.tokens.slice(0, 3).map(t => {
+      const short = t.suggestions.find(s => s.type === 'short');
+      const rows = t.whatIf.map(w =>
+        `   ${w.movePercent > 0 ? '+' : ''}${w.movePercent}%: LP ${formatSignedUsd(w.lpValueChangeUsd)} · hedged ${formatSignedUsd(w.netHedgedUsd)}`,
+      );
+      return [
+        `*${t.symbol}* @ ${formatUsd(t.priceUsd)}`,
+        `├ Delta: ${t.delta.toFixed(4)} ${t.symbol} (${formatUsd(t.deltaUsd)})`,
+        `├ Gamma: ${t.gammaPer1Pct.toFixed(4)} ${t.symbol} per +1%`,
+        `└ Re-hedge after: ${t.rehedgeBandPercent !== null ? `±${t.rehedgeBandPercent}%` : 'n/a (out of range)'}`,
+        short
+          ? `🛡️ Hedge: short ${short.amount.toFixed(4)} ${t.symbol} or swap it to USDC`
+          : `✅ Delta too small to hedge`,
+        `*What-if:*`,
+        ...rows,
+        ``,
+      ].join('\n');
+    });
+
+    const lines = [
+      `📐 *LP Delta & Hedges*`,
+      ``,
+      `Net volatile exposure: ${formatUsd(report.totalDeltaUsd)} across ${report.positionCount} position(s)`,
+      ``,
+      ...sections,
+      ...report.notes.map(n => `_${n}_`),
+    ].join('\n');
+
+    await ctx.reply(lines, { parse_mode: 'Markdown' });
+  } catch (error: any) {
+    console.error('[Bot] /hedge error:', error);
+    await ctx.reply('Failed to compute hedges. Please try again.');
+  }
+}
@@ -9,13 +9,16 @@ export async function helpCommand(ctx: BotContext) {
     ``,
     `📊 *Overview*`,
     `/portfolio - Total value & health summary`,
+    `/risk - Portfolio risk: exposure, concentration, IL`,
+    `/hedge - Delta, gamma & hedge sizes for LP exposure`,
     `/positions - View LP positions with IL`,
     `/balance - Wallet balance`,
     `/history - Recent transactions`,
-    `/export - Export position data`,
+    `/export - Tax export of LP activity (CSV, Koinly, CoinTracker)`,
     `/price SOL - Check token prices`,
     `/gas - Network fee status`,
     `/simulate 1 SOL - Estimate LP returns`,
+    `/backtest - Replay strategies on historical data`,
     ``,
     `🏊 *Liquidity*`,
     `/pools - Browse top LP pools`,
@@ -20,5 +20,8 @@ export { priceCommand } from './price.js';
 export { gasCommand } from './gas.js';
 export { aboutCommand } from './about.js';
 export { simulateCommand } from './simulate.js';
+export { backtestCommand } from './backtest.js';
+export { riskCommand } from './risk.js';
+export { hedgeCommand } from './hedge.js';
 export { rebalanceCommand } from './rebalance.js';
 export { trackCommand } from './track.js';
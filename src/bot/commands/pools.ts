@@ -12,6 +12,7 @@ import { InlineKeyboard } from 'grammy';
 import type { BotContext } from '../types.js';
 import { poolSelectionKeyboard } from '../keyboards.js';
 import { setPendingPoolAddress, setDisplayedPools } from '../types.js';
+import { config } from '../../config/index.js';
 
 export interface PoolInfo {
   name: string;
@@ -56,6 +57,8 @@ export async function poolsCommand(ctx: BotContext) {
     .text('🐋 Orca', 'pools:orca')
     .text('⚡ Raydium', 'pools:raydium')
     .row()
+    .text('💧 Meteora DAMM', 'pools:damm')
+    .row()
     .text('Paste CA', 'pools:ca');
 
   await ctx.reply('*Browse LP Pools*\n\nTap *Best Yields* for top pools across all DEXes, or pick a category:', {
@@ -130,7 +133,7 @@ export async function showPoolCategory(ctx: BotContext, category: PoolCategory |
  */
 export async function lookupPoolByAddress(ctx: BotContext, address: string) {
   try {
-    const resp = await fetch(`https://dlmm-api.meteora.ag/pair/${address}`);
+    const resp = await fetch(`${config.meteora.apiUrl}/pair/${address}`);
     if (!resp.ok) {
       await ctx.reply(`Pool not found for address \`${address.slice(0, 12)}...\`\n\nMake sure it's a valid Meteora DLMM pool address.`);
       return;
@@ -280,6 +283,60 @@ export async function showRaydiumPools(ctx: BotContext) {
   }
 }
 
+/**
+ * Display Meteora DAMM v2 pools (called from callback handler)
+ */
+export async function showDammPools(ctx: BotContext) {
+  try {
+    const { fetchDammTopPools } = await import('../../services/unified-pools.js');
+    const pools = await fetchDammTopPools(8);
+
+    if (pools.length === 0) {
+      await ctx.reply('No Meteora DAMM pools found. Try again later.');
+      return;
+    }
+
+    const poolLines = pools.map((p, i) => {
+      return `${i + 1}. *${p.name}* (${(p.feeRate / 100).toFixed(2)}% fee)\n   APR: ${p.apr.toFixed(1)}% | TVL: ${formatTvl(p.tvl)}`;
+    }).join('\n\n');
+
+    const text = [
+      `*💧 Meteora DAMM v2 Pools*`,
+      `_Full-range positions, no rebalancing needed_`,
+      ``,
+      poolLines,
+      ``,
+      `Tap a pool to add liquidity.`,
+    ].join('\n');
+
+    // Cache displayed pools with damm dex tag
+    const chatId = ctx.chat?.id;
+    if (chatId) {
+      setDisplayedPools(chatId, pools.map(p => ({
+        address: p.address,
+        name: p.name,
+        dex: 'damm' as const,
+      })));
+    }
+
+    // Build selection keyboard with address-based callbacks
+    const kb = new InlineKeyboard();
+    for (const pool of pools) {
+      // Use address prefix for stable lookup: lp:p:d:PREFIX (d = damm)
+      kb.text(`${pool.name}`, `lp:p:d:${pool.address.slice(0, 11)}`).row();
+    }
+    kb.text('Back to Categories', 'cmd:pools');
+
+    await ctx.reply(text, { parse_mode: 'Markdown', reply_markup: kb });
+  } catch (error: any) {
+    console.error('[Bot] /pools damm error:', error);
+    await ctx.reply('Failed to fetch Meteora DAMM pools. Please try again.');
+  }
+}
+
+const DEX_ICONS = { meteora: '🌙', orca: '🐋', raydium: '⚡', damm: '💧' } as const;
+const DEX_TAGS = { meteora: 'm', orca: 'o', raydium: 'r', damm: 'd' } as const;
+
 /**
  * Show best yield pools across all DEXes (unified view)
  */
@@ -288,10 +345,11 @@ export async function showBestYieldPools(ctx: BotContext) {
     await ctx.reply('🔍 Finding best yield pools across all DEXes...');
 
     // Fetch from all sources in parallel
-    const [meteoraPools, orcaPoolsResult, raydiumPoolsResult] = await Promise.allSettled([
+    const [meteoraPools, orcaPoolsResult, raydiumPoolsResult, dammPoolsResult] = await Promise.allSettled([
       fetchPoolsByCategory('all'),
       import('../../orca/pools.js').then(m => m.fetchOrcaPools(8, 'tvl')),
       import('../../services/unified-pools.js').then(m => m.fetchRaydiumTopPools(8)),
+      import('../../services/unified-pools.js').then(m => m.fetchDammTopPools(8)),
     ]);
 
     // Process Meteora pools
@@ -333,8 +391,23 @@ export async function showBestYieldPools(ctx: BotContext) {
         }))
       : [];
 
+    // Process Meteora DAMM v2 pools
+    const damm = dammPoolsResult.status === 'fulfilled'
+      ? dammPoolsResult.value.map(p => ({
+          name: p.name,
+          address: p.address,
+          apr: p.apr,
+          tvl: p.tvl,
+          volume24h: p.volume24h,
+          binStep: 0,
+          tickSpacing: undefined,
+          dex: 'damm' as const,
+          dailyYieldPer100: p.dailyYieldPer100Usd.toFixed(2),
+        }))
+      : [];
+
     // Combine and sort by APR (highest first)
-    const combined = [...meteora, ...orca, ...raydium]
+    const combined = [...meteora, ...orca, ...raydium, ...damm]
       .filter(p => p.tvl >= 50000) // Min $50K TVL
       .sort((a, b) => b.apr - a.apr)
       .slice(0, 10);
@@ -348,7 +421,7 @@ export async function showBestYieldPools(ctx: BotContext) {
       const fmtTvl = p.tvl >= 1_000_000 
         ? `$${(p.tvl / 1_000_000).toFixed(1)}M` 
         : `$${(p.tvl / 1_000).toFixed(0)}K`;
-      const dexTag = p.dex === 'orca' ? '🐋' : p.dex === 'raydium' ? '⚡' : '🌙';
+      const dexTag = DEX_ICONS[p.dex];
       // Show bin step for Meteora or tick spacing for Orca/Raydium
       const stepInfo = p.dex === 'meteora' && p.binStep 
         ? ` • ${p.binStep}bp` 
@@ -360,7 +433,7 @@ export async function showBestYieldPools(ctx: BotContext) {
 
     const text = [
       `*🏆 Best Yield Pools*`,
-      `_Across Meteora 🌙, Orca 🐋 & Raydium ⚡_`,
+      `_Across Meteora 🌙, Orca 🐋, Raydium ⚡ & Meteora DAMM 💧_`,
       ``,
       poolLines,
       ``,
@@ -381,9 +454,7 @@ export async function showBestYieldPools(ctx: BotContext) {
     // Build keyboard with address-based callbacks
     const kb = new InlineKeyboard();
     for (const pool of combined) {
-      const dexTag = pool.dex === 'orca' ? 'o' : pool.dex === 'raydium' ? 'r' : 'm';
-      const dexIcon = pool.dex === 'orca' ? '🐋' : pool.dex === 'raydium' ? '⚡' : '🌙';
-      kb.text(`${dexIcon} ${pool.name}`, `lp:p:${dexTag}:${pool.address.slice(0, 11)}`).row();
+      kb.text(`${DEX_ICONS[pool.dex]} ${pool.name}`, `lp:p:${DEX_TAGS[pool.dex]}:${pool.address.slice(0, 11)}`).row();
     }
     kb.text('Back to Categories', 'cmd:pools');
 
@@ -429,7 +500,7 @@ async function fetchAllPools(): Promise<any[]> {
     return _poolCache.data;
   }
 
-  const resp = await fetch('https://dlmm-api.meteora.ag/pair/all');
+  const resp = await fetch(`${config.meteora.apiUrl}/pair/all`);
   if (!resp.ok) throw new Error('Meteora API failed');
 
   const data = (await resp.json()) as any[];
@@ -7,6 +7,7 @@ import { getUserByChat, getUserPositions } from '../../onboarding/index.js';
 import { getOrcaPositionsForWallet } from '../../services/orca-service.js';
 import { fetchRaydiumPositions } from '../../raydium/positions.js';
 import { getAggregatedPrice } from '../../services/oracle-service.js';
+import { getWalletPnl } from '../../ledger/index.js';
 
 interface PortfolioSummary {
   totalValueUsd: number;
@@ -133,6 +134,30 @@ export async function portfolioCommand(ctx: BotContext) {
     const inRangeCount = meteoraInRange + orcaInRange + raydiumInRange;
     const outOfRangeCount = totalPositions - inRangeCount;
 
+    // PnL from the position ledger, against the same live valuations
+    const pnl = await getWalletPnl(user.walletAddress, [
+      ...meteoraPositions.map(p => ({
+        positionId: p.address,
+        valueUsd: (p.amounts.tokenX.amount || 0) * solPrice + (p.amounts.tokenY.amount || 0),
+        feesUsd: parseFloat((p.fees.tokenX || '0').replace(/[^0-9.]/g, '')) * solPrice
+          + parseFloat((p.fees.tokenY || '0').replace(/[^0-9.]/g, '')),
+      })),
+      ...orcaPositions.map(p => ({
+        positionId: p.mintAddress,
+        valueUsd: parseFloat(p.tokenA?.amount || '0') * solPrice + parseFloat(p.tokenB?.amount || '0'),
+        feesUsd: parseFloat((p.fees?.tokenA || '0').replace(/[^0-9.]/g, '')) * solPrice
+          + parseFloat((p.fees?.tokenB || '0').replace(/[^0-9.]/g, '')),
+      })),
+      ...raydiumPositions.map(p => ({
+        positionId: p.positionMint,
+        valueUsd: p.amountA * solPrice + p.amountB,
+        feesUsd: p.feesOwedA * solPrice + p.feesOwedB,
+      })),
+    ]).catch((e: any) => {
+      console.warn('[Portfolio] PnL unavailable:', e.message);
+      return null;
+    });
+
     // Build top positions list
     const allPositions = [
       ...meteoraPositions.map(p => ({
@@ -162,6 +187,19 @@ export async function portfolioCommand(ctx: BotContext) {
       ? '✅ All positions earning fees'
       : `⚠️ ${outOfRangeCount} position(s) out of range`;
 
+    const formatSignedUsd = (n: number) => `${n < 0 ? '-' : '+'}${formatUsd(Math.abs(n))}`;
+
+    const pnlLines = pnl && pnl.positionCount > 0 ? [
+      `*PnL (since open):*`,
+      `   Cost Basis: ${formatUsd(pnl.costBasisUsd)}`,
+      `   Realized: ${formatSignedUsd(pnl.realizedPnlUsd)}`,
+      `   Unrealized: ${formatSignedUsd(pnl.unrealizedPnlUsd)}`,
+      `   Fees Earned: ${formatUsd(pnl.feesEarnedUsd)}`,
+      `   IL vs HODL: ${formatSignedUsd(pnl.ilUsd)}`,
+      `   Net: ${formatSignedUsd(pnl.netPnlUsd)} (${pnl.netAprPercent.toFixed(1)}% APR)`,
+      ``,
+    ] : [];
+
     const lines = [
       `📊 *Portfolio Overview*`,
       ``,
@@ -177,6 +215,7 @@ export async function portfolioCommand(ctx: BotContext) {
       orcaPositions.length > 0 ? `   🐋 Orca: ${orcaPositions.length} pos (${formatUsd(orcaValueUsd)})` : null,
       raydiumPositions.length > 0 ? `   ⚡ Raydium: ${raydiumPositions.length} pos (${formatUsd(raydiumValueUsd)})` : null,
       ``,
+      ...pnlLines,
       healthStatus,
     ].filter(Boolean).join('\n');
 
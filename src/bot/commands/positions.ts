@@ -36,7 +36,16 @@ export async function positionsCommand(ctx: BotContext) {
       console.warn('[Bot] Orca position discovery failed (non-blocking):', err);
     }
 
-    const totalCount = positions.length + orcaPositions.length;
+    // Fetch Meteora DAMM v2 positions (non-blocking)
+    let dammPositions: any[] = [];
+    try {
+      const { getDammPositionsForWallet } = await import('../../services/damm-service.js');
+      dammPositions = await getDammPositionsForWallet(user.walletAddress);
+    } catch (err) {
+      console.warn('[Bot] DAMM position discovery failed (non-blocking):', err);
+    }
+
+    const totalCount = positions.length + orcaPositions.length + dammPositions.length;
 
     if (totalCount === 0) {
       await ctx.reply(
@@ -65,6 +74,15 @@ export async function positionsCommand(ctx: BotContext) {
         dex: 'orca' as const,
         positionMintAddress: p.mintAddress,
       })),
+      ...dammPositions.map(p => ({
+        address: p.address,
+        pool: p.poolName,
+        poolAddress: p.poolAddress,
+        walletId: user.walletId,
+        walletAddress: user.walletAddress,
+        dex: 'damm' as const,
+        positionMintAddress: p.nftMint,
+      })),
     ];
 
     setCachedPositions(chatId, allCached);
@@ -142,13 +160,24 @@ export async function positionsCommand(ctx: BotContext) {
       ].filter(Boolean).join('\n');
     });
 
-    const posLines = [...meteoraLines, ...orcaLines].join('\n\n');
+    // DAMM v2 positions are full range: no range bar or range IL estimate
+    const dammLines = dammPositions.map((p: any) => {
+      const hasFees = p.fees.tokenA > 0 || p.fees.tokenB > 0;
+      return [
+        `━━━━━━━━━━━━━━━━━━`,
+        `*${p.poolName}* (DAMM) 🟢 FULL RANGE`,
+        `💰 ${p.tokenA.amount.toFixed(4)} ${p.tokenA.symbol} + ${p.tokenB.amount.toFixed(4)} ${p.tokenB.symbol}`,
+        hasFees ? `✨ Fees: ${p.fees.tokenA.toFixed(4)} ${p.tokenA.symbol} + ${p.fees.tokenB.toFixed(4)} ${p.tokenB.symbol}` : null,
+      ].filter(Boolean).join('\n');
+    });
+
+    const posLines = [...meteoraLines, ...orcaLines, ...dammLines].join('\n\n');
 
     const kb = new InlineKeyboard();
 
     for (let i = 0; i < Math.min(allCached.length, 8); i++) {
       const c = allCached[i];
-      const dexTag = c.dex === 'orca' ? 'Orca' : 'Met';
+      const dexTag = c.dex === 'orca' ? 'Orca' : c.dex === 'damm' ? 'DAMM' : 'Met';
       kb.text(`${c.pool} [${dexTag}]`, `pd:${i}`)
         .text('Withdraw', `wd:${i}`)
         .row();
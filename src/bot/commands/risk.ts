@@ -0,0 +1,86 @@
+/**
+ * /risk command handler - Portfolio-level risk across all DEX positions
+ */
+import type { BotContext } from '../types.js';
+import { InlineKeyboard } from 'grammy';
+import { getUserByChat } from '../../onboarding/index.js';
+import { getPortfolioRiskReport } from '../../risk/portfolio.js';
+
+function formatUsd(n: number): string {
+  const sign = n < 0 ? '-' : '';
+  return `${sign}$${Math.abs(n).toFixed(2)}`;
+}
+
+function healthEmoji(score: number): string {
+  if (score >= 80) return '🟢';
+  if (score >= 60) return '🟡';
+  if (score >= 40) return '🟠';
+  return '🔴';
+}
+
+export async function riskCommand(ctx: BotContext) {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  try {
+    const user = await getUserByChat(chatId);
+
+    if (!user) {
+      await ctx.reply('No wallet found. Use /start to create one.');
+      return;
+    }
+
+    await ctx.reply('🛡️ Assessing portfolio risk...');
+
+    const report = await getPortfolioRiskReport(user.walletAddress);
+
+    if (report.positionCount === 0) {
+      await ctx.reply('No LP positions found. Use /lp to open one.');
+      return;
+    }
+
+    const exposureLines = report.exposure.slice(0, 5).map(e =>
+      `   ${e.symbol}: ${formatUsd(e.valueUsd)} (${e.sharePercent}%)${e.stable ? ' · stable' : ''}`,
+    );
+    const pairLines = report.concentration.byPair.slice(0, 3).map(b =>
+      `   ${b.key}: ${b.sharePercent}% (${b.positions} pos)`,
+    );
+    const dexLine = report.concentration.byDex.map(b => `${b.key} ${b.sharePercent}%`).join(' · ');
+
+    // Worst IL per token at ±10% and ±25%
+    const ilLines = report.ilSensitivity.slice(0, 3).map(t => {
+      const at = (move: number) => t.scenarios.find(s => s.movePercent === move)?.ilUsd ?? 0;
+      return `   ${t.symbol} ±10%: ${formatUsd(Math.min(at(-10), at(10)))} · ±25%: ${formatUsd(Math.min(at(-25), at(25)))}`;
+    });
+
+    const lines = [
+      `🛡️ *Portfolio Risk*`,
+      ``,
+      `${healthEmoji(report.healthScore)} *Health Score:* ${report.healthScore}/100`,
+      `💰 *Value:* ${formatUsd(report.totalValueUsd)} across ${report.positionCount} position(s)`,
+      `🔴 *Out of Range:* ${report.outOfRange.sharePercent}% (${report.outOfRange.positions} pos)`,
+      ``,
+      `*Net Exposure:*`,
+      ...exposureLines,
+      ``,
+      `*By Pair:*`,
+      ...pairLines,
+      `*By DEX:* ${dexLine}`,
+      ``,
+      ...(ilLines.length > 0 ? [`*IL vs HODL (worst case):*`, ...ilLines, ``] : []),
+      ...(report.warnings.length > 0 ? [`*Warnings:*`, ...report.warnings.map(w => `⚠️ ${w}`)] : [`✅ No portfolio-level warnings`]),
+    ].join('\n');
+
+    const kb = new InlineKeyboard()
+      .text('📊 Portfolio', 'cmd:portfolio')
+      .text('🔄 Rebalance', 'cmd:rebalance');
+
+    await ctx.reply(lines, {
+      parse_mode: 'Markdown',
+      reply_markup: kb,
+    });
+  } catch (error: any) {
+    console.error('[Bot] /risk error:', error);
+    await ctx.reply('Failed to assess portfolio risk. Please try again.');
+  }
+}
@@ -4,6 +4,7 @@
 import type { BotContext } from '../types.js';
 import { settingsKeyboard } from '../keyboards.js';
 import { getUserByChat } from '../../onboarding/index.js';
+import { config } from '../../config/index.js';
 
 export async function settingsCommand(ctx: BotContext) {
   const chatId = ctx.chat?.id;
@@ -28,7 +29,7 @@ export async function settingsCommand(ctx: BotContext) {
       `*🔧 Alert Settings*`,
       ``,
       `🔔 Out of Range: ${prefs.alertOnOutOfRange ? 'ON' : 'OFF'}`,
-      `⚡ Auto-Rebalance: ${prefs.autoRebalance ? 'ON' : 'OFF'}`,
+      `⚡ Auto-Rebalance: ${prefs.autoRebalance ? (config.autoRebalance.live ? 'ON' : 'ON (dry run)') : 'OFF'}`,
       `📊 Daily Summary: ${prefs.dailySummary ? 'ON' : 'OFF'}`,
       `📏 Alert Threshold: ${threshold > 0 ? `${threshold}% change` : 'Any change'}`,
       `🌙 Quiet Hours: ${quietEnabled ? `${prefs.quietHours?.start}:00-${prefs.quietHours?.end}:00 UTC` : 'OFF'}`,
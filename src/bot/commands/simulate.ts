@@ -95,6 +95,7 @@ export async function simulateCommand(ctx: BotContext) {
     `⚠️ *Disclaimer*`,
     `APRs vary based on trading volume and IL.`,
     `Use /pools to see actual pool APRs.`,
+    `Use /backtest to compare ranges on historical data.`,
   );
 
   await ctx.reply(lines.join('\n'), { parse_mode: 'Markdown' });
@@ -34,18 +34,18 @@ export async function statusCommand(ctx: BotContext) {
     checks.push({ name: 'Jupiter API', status: '⚠️', detail: 'unknown' });
   }
 
-  // 3. Check Redis
+  // 3. Check storage backend
   try {
-    const { getRedis } = await import('../../services/lp-service.js');
-    const redis = getRedis();
-    if (redis) {
-      await redis.ping();
-      checks.push({ name: 'Redis Cache', status: '✅' });
+    const { getStore, isStoreDurable } = await import('../../storage/index.js');
+    const store = getStore();
+    await store.ping();
+    if (isStoreDurable()) {
+      checks.push({ name: 'Storage', status: '✅', detail: store.backend });
     } else {
-      checks.push({ name: 'Redis Cache', status: '⚠️', detail: 'not configured' });
+      checks.push({ name: 'Storage', status: '⚠️', detail: 'in-memory, not persisted' });
     }
   } catch (e) {
-    checks.push({ name: 'Redis Cache', status: '❌', detail: 'unreachable' });
+    checks.push({ name: 'Storage', status: '❌', detail: 'unreachable' });
   }
 
   // 4. Check Privy
@@ -3,9 +3,7 @@
  */
 import type { BotContext } from '../types.js';
 import { getUserByChat } from '../../onboarding/index.js';
-import { discoverAllPositions } from '../../utils/position-discovery.js';
-import { getConnection } from '../../services/connection-pool.js';
-import { trackPosition, getTrackedPositions, createDefaultSettings, getUserSettings, setUserSettings, type TrackedPosition } from '../../monitoring/index.js';
+import { trackPosition, getTrackedPositions, createDefaultSettings, getUserSettings, setUserSettings, discoverTrackablePositions } from '../../monitoring/index.js';
 
 export async function trackCommand(ctx: BotContext): Promise<void> {
   const chatId = ctx.chat?.id;
@@ -27,9 +25,8 @@ export async function trackCommand(ctx: BotContext): Promise<void> {
     const alreadyTracked = await getTrackedPositions(userId);
     const trackedAddresses = new Set(alreadyTracked.map(p => p.positionAddress));
 
-    // Discover all positions on-chain
-    const connection = getConnection();
-    const discovered = await discoverAllPositions(connection, walletAddress);
+    // Discover all positions on-chain (Meteora, Orca and Raydium)
+    const discovered = await discoverTrackablePositions(walletAddress, { userId });
 
     if (discovered.length === 0) {
       await ctx.reply('📭 No positions found to track.');
@@ -49,20 +46,11 @@ export async function trackCommand(ctx: BotContext): Promise<void> {
 
     // Track new positions
     let newTracked = 0;
-    for (const pos of discovered) {
-      if (trackedAddresses.has(pos.address)) {
+    for (const position of discovered) {
+      if (trackedAddresses.has(position.positionAddress)) {
         continue; // Already tracked
       }
 
-      const position: TrackedPosition = {
-        positionAddress: pos.address,
-        poolAddress: pos.pool.address,
-        poolName: pos.pool.name || `${pos.pool.tokenX.symbol}-${pos.pool.tokenY.symbol}`,
-        userId,
-        binRange: pos.binRange,
-        createdAt: new Date().toISOString(),
-        lastInRange: pos.inRange,
-      };
       await trackPosition(position);
       newTracked++;
     }
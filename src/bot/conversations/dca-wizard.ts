@@ -15,7 +15,7 @@ import {
   formatInterval,
   type DCAInterval,
 } from '../../services/dca-service.js';
-import { fetchUnifiedPools } from '../../services/unified-pools.js';
+import { fetchUnifiedPools, type UnifiedPool } from '../../services/unified-pools.js';
 
 /**
  * DCA Setup Wizard
@@ -48,8 +48,11 @@ export async function dcaWizard(
   // ---- Step 1: Select Pool ----
   await ctx.reply('🔍 Fetching top pools across all DEXes...');
   
-  const pools = await conversation.external(() => 
-    fetchUnifiedPools({ limit: 8, sortBy: 'riskAdjustedYield' })
+  // DCA executes on Meteora DLMM, Orca and Raydium only
+  const pools = await conversation.external(async () =>
+    (await fetchUnifiedPools({ limit: 12, sortBy: 'riskAdjustedYield' }))
+      .filter((p): p is UnifiedPool & { dex: 'meteora' | 'orca' | 'raydium' } => p.dex !== 'damm')
+      .slice(0, 8)
   );
 
   if (pools.length === 0) {
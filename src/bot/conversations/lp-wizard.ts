@@ -16,12 +16,14 @@ import {
   confirmKeyboard,
 } from '../keyboards.js';
 import { getUserByChat } from '../../onboarding/index.js';
-import { executeLp, type LpExecuteParams } from '../../services/lp-service.js';
+import { executeLp, previewLp, type LpExecuteParams } from '../../services/lp-service.js';
+import { formatPreview } from '../../inspector/index.js';
 import { loadWalletById, getWalletBalance } from '../../services/wallet-service.js';
 import { parseNaturalAmount, formatParsedAmount } from '../../utils/natural-amounts.js';
 import { validateSolAmount, validateSolanaAddress, friendlyErrorMessage } from '../../utils/resilience.js';
 import { operationLock } from '../../utils/operation-lock.js';
 import { consumePendingPool, consumePendingPoolAddress } from '../types.js';
+import { config } from '../../config/index.js';
 
 interface PoolData {
   name: string;
@@ -32,7 +34,7 @@ interface PoolData {
 }
 
 async function fetchTopPools(): Promise<PoolData[]> {
-  const resp = await fetch('https://dlmm-api.meteora.ag/pair/all');
+  const resp = await fetch(`${config.meteora.apiUrl}/pair/all`);
   if (!resp.ok) throw new Error('Meteora API failed');
 
   const all = (await resp.json()) as any[];
@@ -95,7 +97,7 @@ export async function lpWizard(
   if (pendingPoolAddress) {
     // Pool address was pasted via CA flow — fetch its info
     const poolInfo = await conversation.external(async () => {
-      const resp = await fetch(`https://dlmm-api.meteora.ag/pair/${pendingPoolAddress}`);
+      const resp = await fetch(`${config.meteora.apiUrl}/pair/${pendingPoolAddress}`);
       if (!resp.ok) return null;
       return resp.json() as Promise<any>;
     });
@@ -159,7 +161,7 @@ export async function lpWizard(
       }
       // Fetch pool info
       const poolInfo = await conversation.external(async () => {
-        const resp = await fetch(`https://dlmm-api.meteora.ag/pair/${addr}`);
+        const resp = await fetch(`${config.meteora.apiUrl}/pair/${addr}`);
         if (!resp.ok) return null;
         return resp.json() as Promise<any>;
       });
@@ -319,6 +321,27 @@ export async function lpWizard(
   const shape = distData.split(':')[2] as 'spot' | 'curve' | 'bidask';
 
   // ---- Step 5: Confirmation ----
+  // Build once unsigned to show what will be signed; execution rebuilds with fresh quotes
+  const previewLines = await conversation.external(async () => {
+    try {
+      const preview = await previewLp({
+        walletAddress: user.walletAddress,
+        poolAddress: selectedPool.address,
+        amountSol: amount,
+        minBinId: -binOffset,
+        maxBinId: binOffset,
+        strategy,
+        shape,
+        tipSpeed: 'fast',
+        slippageBps: 300,
+      });
+      return formatPreview(preview);
+    } catch (error: any) {
+      console.warn('[LP Wizard] Preview failed:', error.message);
+      return ['_Transaction preview unavailable_'];
+    }
+  });
+
   const summary = [
     `*Confirm LP Position*`,
     ``,
@@ -327,6 +350,8 @@ export async function lpWizard(
     `Strategy: *${strategy}* (+/- ${binOffset} bins)`,
     `Distribution: *${shape}*`,
     ``,
+    ...previewLines,
+    ``,
     `Your position will be:`,
     `- Encrypted with Arcium`,
     `- Bundled via Jito (MEV-protected)`,
@@ -353,7 +378,7 @@ export async function lpWizard(
 
   // ---- Step 6: Execute ----
   // Acquire operation lock to prevent double-tap
-  const lockAcquired = operationLock.tryAcquire(user.walletId, 'lp');
+  const lockAcquired = await conversation.external(() => operationLock.tryAcquire(user.walletId, 'lp'));
   if (!lockAcquired) {
     await ctx.reply('An LP operation is already in progress. Please wait for it to complete.');
     return;
@@ -390,7 +415,7 @@ export async function lpWizard(
       console.error('[LP Wizard] Execution error:', error);
       return { success: false as const, error: friendlyErrorMessage(error) };
     } finally {
-      operationLock.release(user.walletId, 'lp');
+      await operationLock.release(user.walletId, 'lp');
     }
   });
 
@@ -156,7 +156,7 @@ export async function orcaLpWizard(
   if (cfCtx.callbackQuery.data === 'cancel') { await cfCtx.reply('LP cancelled.'); return; }
 
   // Step 5: Execute
-  const lockAcquired = operationLock.tryAcquire(user.walletId, 'orca-lp');
+  const lockAcquired = await conversation.external(() => operationLock.tryAcquire(user.walletId, 'orca-lp'));
   if (!lockAcquired) {
     await ctx.reply('An Orca LP operation is already in progress.');
     return;
@@ -184,7 +184,7 @@ export async function orcaLpWizard(
       console.error('[Orca LP Wizard] Execution error:', error);
       return { success: false as const, error: friendlyErrorMessage(error) };
     } finally {
-      operationLock.release(user.walletId, 'orca-lp');
+      await operationLock.release(user.walletId, 'orca-lp');
     }
   });
 
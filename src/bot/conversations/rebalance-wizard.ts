@@ -3,6 +3,9 @@
  *
  * Flow: list positions -> select position -> choose new strategy -> confirm -> execute
  *
+ * Covers Meteora DLMM and Raydium CLMM positions; Raydium ranges are set in
+ * tick-spacing steps and skip the distribution step.
+ *
  * Uses conversation.external() for all async service calls.
  * Uses conversation.waitForCallbackQuery() for button selections.
  */
@@ -16,6 +19,16 @@ import { loadWalletById } from '../../services/wallet-service.js';
 import { friendlyErrorMessage } from '../../utils/resilience.js';
 import { operationLock } from '../../utils/operation-lock.js';
 import { analyzePosition, type RebalanceAnalysis } from '../../services/auto-rebalance.js';
+import { fetchRaydiumPositions } from '../../raydium/index.js';
+
+interface RebalanceCandidate {
+  address: string;
+  poolAddress: string;
+  pool: string;
+  dex: 'meteora' | 'raydium';
+  priceRange: { lower: number; upper: number; current: number };
+  inRange: boolean;
+}
 
 export async function rebalanceWizard(
   conversation: Conversation<BotContext, BotContext>,
@@ -34,8 +47,29 @@ export async function rebalanceWizard(
   }
 
   // ---- Step 1: Load and display positions ----
-  const positions = await conversation.external(async () => {
-    return getUserPositions(user.walletAddress);
+  const positions = await conversation.external(async (): Promise<RebalanceCandidate[]> => {
+    const [meteora, raydium] = await Promise.all([
+      getUserPositions(user.walletAddress),
+      fetchRaydiumPositions(user.walletAddress),
+    ]);
+    return [
+      ...meteora.map(p => ({
+        address: p.address,
+        poolAddress: p.poolAddress,
+        pool: p.pool,
+        dex: 'meteora' as const,
+        priceRange: p.priceRange,
+        inRange: p.inRange,
+      })),
+      ...raydium.map(p => ({
+        address: p.positionMint,
+        poolAddress: p.poolAddress,
+        pool: p.poolName,
+        dex: 'raydium' as const,
+        priceRange: { lower: p.priceLower, upper: p.priceUpper, current: p.currentPrice },
+        inRange: p.inRange,
+      })),
+    ];
   });
 
   if (positions.length === 0) {
@@ -54,7 +88,7 @@ export async function rebalanceWizard(
       positionAddress: p.address,
       poolAddress: p.poolAddress,
       poolName: p.pool,
-      dex: 'meteora',
+      dex: p.dex,
       currentPrice: p.priceRange.current,
       lowerBound: p.priceRange.lower,
       upperBound: p.priceRange.upper,
@@ -170,37 +204,42 @@ export async function rebalanceWizard(
   const strategy: 'concentrated' | 'wide' =
     strCtx.callbackQuery.data === 'rb:str:c' ? 'concentrated' : 'wide';
   const binOffset = strategy === 'concentrated' ? 5 : 20;
+  const isRaydium = selected.dex === 'raydium';
+  const unit = isRaydium ? 'steps' : 'bins';
 
-  // ---- Step 3: Distribution shape ----
-  await ctx.reply(
-    `*Rebalance - Distribution*\n\nNew strategy: *${strategy}* (+/- ${binOffset} bins)\n\nChoose distribution shape:`,
-    {
-      parse_mode: 'Markdown',
-      reply_markup: distributionKeyboard(),
-    },
-  );
+  // ---- Step 3: Distribution shape (DLMM only; CLMM liquidity is uniform) ----
+  let shape: 'spot' | 'curve' | 'bidask' = 'spot';
+  if (!isRaydium) {
+    await ctx.reply(
+      `*Rebalance - Distribution*\n\nNew strategy: *${strategy}* (+/- ${binOffset} ${unit})\n\nChoose distribution shape:`,
+      {
+        parse_mode: 'Markdown',
+        reply_markup: distributionKeyboard(),
+      },
+    );
 
-  const distCtx = await conversation.waitForCallbackQuery(/^(lp:dist:(spot|curve|bidask)|cancel)$/, {
-    otherwise: async (ctx) => {
-      await ctx.reply('Please tap a distribution button above.');
-    },
-  });
-  await distCtx.answerCallbackQuery();
+    const distCtx = await conversation.waitForCallbackQuery(/^(lp:dist:(spot|curve|bidask)|cancel)$/, {
+      otherwise: async (ctx) => {
+        await ctx.reply('Please tap a distribution button above.');
+      },
+    });
+    await distCtx.answerCallbackQuery();
 
-  if (distCtx.callbackQuery.data === 'cancel') {
-    await distCtx.reply('Rebalance cancelled.');
-    return;
-  }
+    if (distCtx.callbackQuery.data === 'cancel') {
+      await distCtx.reply('Rebalance cancelled.');
+      return;
+    }
 
-  const shape = distCtx.callbackQuery.data.split(':')[2] as 'spot' | 'curve' | 'bidask';
+    shape = distCtx.callbackQuery.data.split(':')[2] as 'spot' | 'curve' | 'bidask';
+  }
 
   // ---- Step 4: Confirmation ----
   const confirmText = [
     `*Confirm Rebalance*`,
     ``,
     `Pool: *${selected.pool}*`,
-    `New strategy: *${strategy}* (+/- ${binOffset} bins)`,
-    `Distribution: *${shape}*`,
+    `New strategy: *${strategy}* (+/- ${binOffset} ${unit})`,
+    isRaydium ? `Tick spacing steps around the current tick` : `Distribution: *${shape}*`,
     ``,
     `This will:`,
     `1. Withdraw current position`,
@@ -230,7 +269,7 @@ export async function rebalanceWizard(
   }
 
   // ---- Step 5: Execute ----
-  const lockAcquired = operationLock.tryAcquire(user.walletId, 'rebalance');
+  const lockAcquired = await conversation.external(() => operationLock.tryAcquire(user.walletId, 'rebalance'));
   if (!lockAcquired) {
     await ctx.reply('A rebalance operation is already in progress. Please wait for it to complete.');
     return;
@@ -249,6 +288,7 @@ export async function rebalanceWizard(
         walletAddress: user.walletAddress,
         poolAddress: selected.poolAddress,
         positionAddress: selected.address,
+        dex: selected.dex,
         newMinBinOffset: -binOffset,
         newMaxBinOffset: binOffset,
         strategy,
@@ -271,13 +311,13 @@ export async function rebalanceWizard(
       console.error('[Rebalance Wizard] Execution error:', error);
       return { success: false, error: friendlyErrorMessage(error) };
     } finally {
-      operationLock.release(user.walletId, 'rebalance');
+      await operationLock.release(user.walletId, 'rebalance');
     }
   });
 
   if (result.success) {
     const rangeStr = result.newBinRange
-      ? `New range: bins ${result.newBinRange.lower} to ${result.newBinRange.upper}`
+      ? `New range: ${isRaydium ? 'ticks' : 'bins'} ${result.newBinRange.lower} to ${result.newBinRange.upper}`
       : '';
 
     await ctx.reply(
@@ -285,7 +325,7 @@ export async function rebalanceWizard(
         `*Rebalance Complete!*`,
         ``,
         `Pool: *${selected.pool}*`,
-        `Strategy: ${strategy} (${shape})`,
+        isRaydium ? `Strategy: ${strategy}` : `Strategy: ${strategy} (${shape})`,
         rangeStr,
         ``,
         `Your position is now in range and earning fees.`,
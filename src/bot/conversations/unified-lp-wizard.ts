@@ -3,10 +3,14 @@
  *
  * Flow: Pool pre-selected → Enter amount → Pick strategy → Confirm → Execute
  *
- * Supports both Meteora DLMM and Orca Whirlpools transparently.
+ * Supports Meteora DLMM, Meteora DAMM v2, Orca Whirlpools and Raydium CLMM
+ * transparently. DAMM v2 positions are full-range, so the strategy and
+ * shape steps are skipped for them.
  * DEX routing happens at execution time, not wizard entry.
  */
 import type { Conversation } from '@grammyjs/conversations';
+import { VersionedTransaction } from '@solana/web3.js';
+import type { ApiV3PoolInfoConcentratedItem } from '@raydium-io/raydium-sdk-v2';
 import type { BotContext } from '../types.js';
 import {
   amountKeyboard,
@@ -18,6 +22,9 @@ import { getUserByChat } from '../../onboarding/index.js';
 import { executeLp, type LpExecuteParams } from '../../services/lp-service.js';
 import { executeOrcaLp, type OrcaLpExecuteParams } from '../../services/orca-service.js';
 import { executeRaydiumLp, type RaydiumLpExecuteParams } from '../../services/raydium-service.js';
+import { executeDammLp, type DammLpExecuteParams } from '../../services/damm-service.js';
+import { fetchDammPoolByAddress } from '../../damm/pools.js';
+import { getRaydiumClient } from '../../raydium/client.js';
 import { loadWalletById, getWalletBalance } from '../../services/wallet-service.js';
 import { parseNaturalAmount } from '../../utils/natural-amounts.js';
 import { validateSolAmount, validateSolanaAddress, friendlyErrorMessage } from '../../utils/resilience.js';
@@ -28,6 +35,7 @@ import {
   consumePendingPoolAddress,
   type PendingLpPool,
 } from '../types.js';
+import { config } from '../../config/index.js';
 
 // Fee reserve: covers tx fees (~0.01/tx × 3-5), rent for ATAs (~0.003 × 3), position rent (~0.01)
 // Atomic LP needs more buffer due to multiple transactions + potential ATA creation
@@ -36,7 +44,7 @@ const FEE_RESERVE = 0.15;
 interface PoolInfo {
   address: string;
   name: string;
-  dex: 'meteora' | 'orca' | 'raydium';
+  dex: 'meteora' | 'orca' | 'raydium' | 'damm';
   binStep?: number;      // Meteora
   tickSpacing?: number;  // Orca / Raydium
   apr?: number;          // For yield estimate
@@ -48,7 +56,7 @@ interface PoolInfo {
  */
 async function fetchMeteoraPoolInfo(address: string): Promise<PoolInfo | null> {
   try {
-    const resp = await fetch(`https://dlmm-api.meteora.ag/pair/${address}`);
+    const resp = await fetch(`${config.meteora.apiUrl}/pair/${address}`);
     if (!resp.ok) return null;
     const data = await resp.json() as any;
     return {
@@ -64,12 +72,48 @@ async function fetchMeteoraPoolInfo(address: string): Promise<PoolInfo | null> {
   }
 }
 
+/**
+ * Fetch Raydium CLMM pool info by address
+ */
+async function fetchRaydiumPoolInfo(address: string): Promise<PoolInfo | null> {
+  try {
+    const raydium = await getRaydiumClient();
+    const [pool] = await raydium.api.fetchPoolById({ ids: address }) as ApiV3PoolInfoConcentratedItem[];
+    if (!pool || pool.type !== 'Concentrated') return null;
+    return {
+      address,
+      name: `${pool.mintA?.symbol || 'UNKNOWN'}-${pool.mintB?.symbol || 'UNKNOWN'}`,
+      dex: 'raydium',
+      tickSpacing: pool.config?.tickSpacing,
+      apr: pool.day?.apr || 0,
+      tvl: pool.tvl || 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch Meteora DAMM v2 pool info by address
+ */
+async function fetchDammPoolInfo(address: string): Promise<PoolInfo | null> {
+  const pool = await fetchDammPoolByAddress(address);
+  if (!pool) return null;
+  return {
+    address,
+    name: pool.name,
+    dex: 'damm',
+    apr: pool.apr,
+    tvl: pool.tvl,
+  };
+}
+
 /**
  * Fetch top Meteora pools for fallback pool selection
  */
 async function fetchTopMeteoraPools(): Promise<PoolInfo[]> {
   try {
-    const resp = await fetch('https://dlmm-api.meteora.ag/pair/all');
+    const resp = await fetch(`${config.meteora.apiUrl}/pair/all`);
     if (!resp.ok) return [];
 
     const all = (await resp.json()) as any[];
@@ -166,6 +210,16 @@ export async function unifiedLpWizard(
       if (fullInfo) {
         selectedPool = { ...selectedPool, ...fullInfo };
       }
+    } else if (pendingLpPool.dex === 'raydium') {
+      const fullInfo = await conversation.external(() => fetchRaydiumPoolInfo(pendingLpPool.address));
+      if (fullInfo) {
+        selectedPool = { ...selectedPool, ...fullInfo, name: pendingLpPool.name || fullInfo.name };
+      }
+    } else if (pendingLpPool.dex === 'damm') {
+      const fullInfo = await conversation.external(() => fetchDammPoolInfo(pendingLpPool.address));
+      if (fullInfo) {
+        selectedPool = { ...selectedPool, ...fullInfo, name: pendingLpPool.name || fullInfo.name };
+      }
     }
   } else if (pendingPoolAddress) {
     // Legacy: Pool address was pasted (Meteora CA flow)
@@ -232,7 +286,10 @@ export async function unifiedLpWizard(
         return;
       }
       
-      const poolInfo = await conversation.external(() => fetchMeteoraPoolInfo(addr));
+      const poolInfo = await conversation.external(async () =>
+        (await fetchMeteoraPoolInfo(addr))
+          ?? (await fetchRaydiumPoolInfo(addr))
+          ?? (await fetchDammPoolInfo(addr)));
       if (!poolInfo) {
         await ctx.reply('Pool not found. Please check the address and try again.');
         return;
@@ -249,7 +306,10 @@ export async function unifiedLpWizard(
   }
 
   // Show pool header (DEX shown as small detail)
-  const dexLabel = selectedPool.dex === 'orca' ? '🌊' : '☄️';
+  const dexLabel = selectedPool.dex === 'orca' ? '🌊'
+    : selectedPool.dex === 'raydium' ? '⚡'
+    : selectedPool.dex === 'damm' ? '💧'
+    : '☄️';
   await ctx.reply(
     `*Add Liquidity*\n\n${dexLabel} *${selectedPool.name}*`,
     { parse_mode: 'Markdown' },
@@ -332,24 +392,28 @@ export async function unifiedLpWizard(
     return;
   }
 
-  // ---- Step 3: Strategy Selection ----
-  const binStepInfo = selectedPool.binStep ? `\n\n_Pool bin step: ${selectedPool.binStep}bp (${(selectedPool.binStep / 100).toFixed(2)}% per bin)_` : '';
-  await ctx.reply(
-    `Choose range strategy:${binStepInfo}\n\n• *Tight* = 6 bins, max APR but needs rebalancing often\n• *Balanced* = 16 bins, good yield with less maintenance\n• *Wide* = 50 bins, set & forget, lower APR`,
-    { reply_markup: strategyKeyboard(selectedPool.binStep), parse_mode: 'Markdown' },
-  );
+  // ---- Step 3: Strategy Selection (not for full-range DAMM v2) ----
+  let strData = 'lp:str:m';
 
-  const strCtx = await conversation.waitForCallbackQuery(/^(lp:str:[cmw]|cancel)$/, {
-    otherwise: async (ctx) => {
-      await ctx.reply('Please tap a strategy button above.');
-    },
-  });
-  await strCtx.answerCallbackQuery();
+  if (selectedPool.dex !== 'damm') {
+    const binStepInfo = selectedPool.binStep ? `\n\n_Pool bin step: ${selectedPool.binStep}bp (${(selectedPool.binStep / 100).toFixed(2)}% per bin)_` : '';
+    await ctx.reply(
+      `Choose range strategy:${binStepInfo}\n\n• *Tight* = 6 bins, max APR but needs rebalancing often\n• *Balanced* = 16 bins, good yield with less maintenance\n• *Wide* = 50 bins, set & forget, lower APR`,
+      { reply_markup: strategyKeyboard(selectedPool.binStep), parse_mode: 'Markdown' },
+    );
 
-  const strData = strCtx.callbackQuery.data;
-  if (strData === 'cancel') {
-    await strCtx.reply('LP cancelled.');
-    return;
+    const strCtx = await conversation.waitForCallbackQuery(/^(lp:str:[cmw]|cancel)$/, {
+      otherwise: async (ctx) => {
+        await ctx.reply('Please tap a strategy button above.');
+      },
+    });
+    await strCtx.answerCallbackQuery();
+
+    strData = strCtx.callbackQuery.data;
+    if (strData === 'cancel') {
+      await strCtx.reply('LP cancelled.');
+      return;
+    }
   }
 
   // Map strategy to bin/tick offset
@@ -395,7 +459,9 @@ export async function unifiedLpWizard(
   const rangeDesc = binOffset <= 5 ? '±2%' : binOffset <= 10 ? '±5%' : '±15%';
   const strategyDesc = selectedPool.dex === 'meteora'
     ? `${strategyName} ${rangeDesc} (${shape})`
-    : `${strategyName} ${rangeDesc}`;
+    : selectedPool.dex === 'damm'
+      ? 'full range'
+      : `${strategyName} ${rangeDesc}`;
 
   const summary = [
     `*Confirm LP Position*`,
@@ -431,7 +497,7 @@ export async function unifiedLpWizard(
 
   // ---- Step 6: Execute ----
   const lockKey = `lp-${selectedPool.dex}`;
-  const lockAcquired = operationLock.tryAcquire(user.walletId, lockKey);
+  const lockAcquired = await conversation.external(() => operationLock.tryAcquire(user.walletId, lockKey));
   if (!lockAcquired) {
     await ctx.reply('An LP operation is already in progress. Please wait for it to complete.');
     return;
@@ -485,7 +551,11 @@ export async function unifiedLpWizard(
           strategy: raydiumStrategy,
           tipSpeed: 'fast',
           slippageBps: 300,
-          signTransaction: async (tx) => client.signTransaction(tx),
+          // The service hands over deserialized transactions; Privy signs base64
+          signTransaction: async (tx) => {
+            const signed = await client.signTransaction(Buffer.from(tx.serialize()).toString('base64'));
+            return VersionedTransaction.deserialize(Buffer.from(signed, 'base64'));
+          },
         };
 
         const res = await executeRaydiumLp(params);
@@ -496,6 +566,26 @@ export async function unifiedLpWizard(
           bundleId: res.bundleId,
           status: res.status,
         };
+      } else if (selectedPool.dex === 'damm') {
+        // ---- Meteora DAMM v2 execution (full range) ----
+        const params: DammLpExecuteParams = {
+          walletId: user.walletId,
+          walletAddress: user.walletAddress,
+          poolAddress: selectedPool.address,
+          amountSol: amount,
+          tipSpeed: 'fast',
+          slippageBps: 300,
+          signTransaction: async (tx) => client.signTransaction(tx),
+        };
+
+        const res = await executeDammLp(params);
+        return {
+          success: true as const,
+          dex: 'damm' as const,
+          txHashes: res.txHashes,
+          bundleId: res.bundleId,
+          status: res.status,
+        };
       } else {
         // ---- Meteora DLMM execution ----
         // Always use Jito bundles for multi-tx LP (fixes signature verification errors)
@@ -527,7 +617,7 @@ export async function unifiedLpWizard(
       console.error('[Unified LP] Execution error:', error);
       return { success: false as const, error: friendlyErrorMessage(error) };
     } finally {
-      operationLock.release(user.walletId, lockKey);
+      await operationLock.release(user.walletId, lockKey);
     }
   });
 
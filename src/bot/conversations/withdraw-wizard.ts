@@ -16,6 +16,8 @@ import {
   type PositionDetails,
 } from '../../onboarding/index.js';
 import { loadWalletById } from '../../services/wallet-service.js';
+import { previewWithdraw } from '../../services/lp-service.js';
+import { formatPreview } from '../../inspector/index.js';
 import { friendlyErrorMessage } from '../../utils/resilience.js';
 import { operationLock } from '../../utils/operation-lock.js';
 
@@ -128,6 +130,22 @@ export async function withdrawWizard(
   const convertToSol = optCtx.callbackQuery.data === 'wd:cf:sol';
 
   // ---- Step 3: Final confirmation ----
+  // Build once unsigned to show what will be signed; the worker rebuilds when it runs
+  const previewLines = await conversation.external(async () => {
+    try {
+      const preview = await previewWithdraw({
+        walletAddress: user.walletAddress,
+        poolAddress: selected.poolAddress,
+        positionAddress: selected.address,
+        convertToSol,
+      });
+      return formatPreview(preview);
+    } catch (error: any) {
+      console.warn('[Withdraw Wizard] Preview failed:', error.message);
+      return ['_Transaction preview unavailable_'];
+    }
+  });
+
   const confirmText = [
     `*Confirm Withdrawal*`,
     ``,
@@ -140,6 +158,8 @@ export async function withdrawWizard(
     convertToSol ? `3. Swap tokens to SOL (Jupiter)` : '',
     `${convertToSol ? '4' : '3'}. Bundle via Jito (MEV-protected)`,
     ``,
+    ...previewLines,
+    ``,
     `Proceed?`,
   ]
     .filter(Boolean)
@@ -163,7 +183,7 @@ export async function withdrawWizard(
   }
 
   // ---- Step 4: Execute ----
-  const lockAcquired = operationLock.tryAcquire(user.walletId, 'withdraw');
+  const lockAcquired = await conversation.external(() => operationLock.tryAcquire(user.walletId, 'withdraw'));
   if (!lockAcquired) {
     await ctx.reply('A withdrawal is already in progress. Please wait for it to complete.');
     return;
@@ -190,7 +210,7 @@ export async function withdrawWizard(
       console.error('[Withdraw Wizard] Execution error:', error);
       return { success: false as const, error: friendlyErrorMessage(error) };
     } finally {
-      operationLock.release(user.walletId, 'withdraw');
+      await operationLock.release(user.walletId, 'withdraw');
     }
   });
 
@@ -37,6 +37,9 @@ import {
   gasCommand,
   aboutCommand,
   simulateCommand,
+  backtestCommand,
+  riskCommand,
+  hedgeCommand,
   rebalanceCommand,
   trackCommand,
 } from './commands/index.js';
@@ -98,6 +101,9 @@ export function createBot(token?: string): Bot<BotContext> | null {
   bot.command('gas', gasCommand);
   bot.command('about', aboutCommand);
   bot.command('simulate', simulateCommand);
+  bot.command('backtest', backtestCommand);
+  bot.command('risk', riskCommand);
+  bot.command('hedge', hedgeCommand);
   bot.command('dca', dcaCommand);
   bot.command('track', trackCommand);
 
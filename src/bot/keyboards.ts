@@ -29,7 +29,7 @@ export function poolSelectionKeyboard(
       ? `${pool.name} (${pool.apy.toFixed(1)}% APY)`
       : pool.name;
     // Use address prefix for stable lookup (11 chars + prefix = ~20 bytes, under 64 limit)
-    const dexTag = pool.dex === 'orca' ? 'o' : 'm';
+    const dexTag = pool.dex === 'orca' ? 'o' : pool.dex === 'raydium' ? 'r' : pool.dex === 'damm' ? 'd' : 'm';
     kb.text(label, `lp:p:${dexTag}:${pool.address.slice(0, 11)}`).row();
   }
   kb.text('Cancel', 'cancel');
@@ -35,15 +35,120 @@ export const config = {
     port: parseInt(process.env.PORT || '3456'),
   },
 
+  // API keys (see src/auth/). The admin key manages keys under /keys and
+  // has full access. Until `required` is on, requests without a key are
+  // still served; a key that is presented is always checked.
+  auth: {
+    adminKey: process.env.API_ADMIN_KEY || '',
+    required: process.env.API_AUTH_REQUIRED === 'true',
+    auditLogSize: parseInt(process.env.API_AUDIT_LOG_SIZE || '1000'),
+  },
+
+  // Token-bucket rate limits (see middleware/rateLimit.ts), per API key
+  // (or IP when no key is sent) and per wallet id. Read endpoints and
+  // transaction-building endpoints have separate budgets.
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    readPerMinute: parseInt(process.env.RATE_LIMIT_READ_PER_MIN || '300'),
+    txPerMinute: parseInt(process.env.RATE_LIMIT_TX_PER_MIN || '20'),
+    burstMultiplier: parseFloat(process.env.RATE_LIMIT_BURST || '1'), // Bucket size = per-minute rate x this
+    usageRetentionDays: parseInt(process.env.USAGE_RETENTION_DAYS || '30'),
+    // Proxy addresses whose X-Forwarded-For is believed ('*' = any peer, for
+    // platforms whose proxy addresses change). Empty: the socket address is the client.
+    trustedProxies: (process.env.RATE_LIMIT_TRUSTED_PROXIES || '').split(',').map(s => s.trim()).filter(Boolean),
+  },
+
   // Solana
   solana: {
     rpc: process.env.SOLANA_RPC || 'https://api.mainnet-beta.solana.com',
   },
 
+  // Storage backend (upstash | redis | memory)
+  // Defaults to Upstash when its REST credentials are set, then REDIS_URL,
+  // then the in-process store (optionally snapshotted to STORAGE_FILE)
+  storage: {
+    backend: process.env.STORAGE_BACKEND || '',
+    upstashUrl: process.env.UPSTASH_REDIS_REST_URL || '',
+    upstashToken: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+    redisUrl: process.env.REDIS_URL || '',
+    file: process.env.STORAGE_FILE || '',
+  },
+
   // Jupiter Swap (v1 - Metis Swap API)
   jupiter: {
     apiKey: process.env.JUPITER_API_KEY || '',
-    baseUrl: 'https://api.jup.ag/swap/v1',
+    baseUrl: process.env.JUPITER_API_URL || 'https://api.jup.ag/swap/v1',
+    ultraUrl: process.env.JUPITER_ULTRA_URL || 'https://api.jup.ag/ultra/v1',
+    priceUrl: process.env.JUPITER_PRICE_URL || 'https://api.jup.ag/price/v2',
+    tokenListUrl: process.env.JUPITER_TOKEN_LIST_URL || 'https://token.jup.ag/strict',
+  },
+
+  // Pyth Hermes price service
+  pyth: {
+    hermesUrl: process.env.PYTH_HERMES_URL || 'https://hermes.pyth.network',
+  },
+
+  // Jito Block Engine
+  jito: {
+    blockEngineUrl: process.env.JITO_BLOCK_ENGINE_URL || 'https://mainnet.block-engine.jito.wtf',
+    // Recent landed-tip percentiles; set to empty to estimate from our own bundles only
+    tipFloorUrl: process.env.JITO_TIP_FLOOR_URL ?? 'https://bundles.jito.wtf/api/v1/bundles/tip_floor',
+    maxTipLamports: parseInt(process.env.JITO_MAX_TIP_LAMPORTS || '10000000'), // 0.01 SOL
+    maxTipBpsOfValue: parseInt(process.env.JITO_MAX_TIP_BPS || '50'), // Tip cap relative to bundle value
+  },
+
+  // Pre-flight bundle simulation (see src/jito/simulation.ts). Bundles whose
+  // simulated swap outputs, deposits or withdrawals miss the builder's quote
+  // by more than the tolerance are not sent. A Jito RPC (simulateBundle) runs
+  // the transactions in sequence; without one each is simulated on its own.
+  simulation: {
+    toleranceBps: parseInt(process.env.SIMULATION_TOLERANCE_BPS || '100'),
+    bundleRpcUrl: process.env.SIMULATION_BUNDLE_RPC_URL || '',
+  },
+
+  // DEX REST APIs (pool discovery and metadata)
+  meteora: {
+    apiUrl: process.env.METEORA_API_URL || 'https://dlmm-api.meteora.ag',
+    dammApiUrl: process.env.METEORA_DAMM_API_URL || 'https://dammv2-api.meteora.ag',
+  },
+  orca: {
+    apiUrl: process.env.ORCA_API_URL || 'https://api.orca.so/v2/solana',
+  },
+  raydium: {
+    apiUrl: process.env.RAYDIUM_API_URL || 'https://api-v3.raydium.io',
+  },
+
+  // Transaction policy checked before server wallets sign (see src/policy/).
+  // 'monitor' records violations without blocking.
+  policy: {
+    mode: (process.env.SIGNING_POLICY_MODE === 'monitor' ? 'monitor' : 'enforce') as 'enforce' | 'monitor',
+    extraAllowedPrograms: (process.env.SIGNING_POLICY_EXTRA_PROGRAMS || '')
+      .split(',').map(s => s.trim()).filter(Boolean),
+  },
+
+  // Token-2022 mints: transfer hook programs LP builders may route through
+  // (comma-separated); mints with any other hook are refused
+  tokens: {
+    allowedTransferHookPrograms: (process.env.ALLOWED_TRANSFER_HOOK_PROGRAMS || '')
+      .split(',').map(s => s.trim()).filter(Boolean),
+  },
+
+  // Backtester: historical price/volume series files (see src/backtest/)
+  backtest: {
+    dataDir: process.env.BACKTEST_DATA_DIR || 'data/backtest',
+  },
+
+  // Autonomous rebalances (see src/monitoring/autoExecutor.ts). Decisions are
+  // dry runs until live execution is switched on.
+  autoRebalance: {
+    live: process.env.AUTO_REBALANCE_LIVE === 'true',
+  },
+
+  // Offline mode: serve RPC calls from recorded fixtures instead of the network
+  // (see src/offline/). 'record' proxies to solana.rpc and saves responses.
+  offline: {
+    fixturesDir: process.env.OFFLINE_FIXTURES_DIR || '',
+    mode: (process.env.OFFLINE_FIXTURES_MODE === 'record' ? 'record' : 'replay') as 'record' | 'replay',
   },
 };
 
@@ -0,0 +1,253 @@
+/**
+ * Meteora DAMM v2 Atomic LP Pipeline
+ *
+ * Builds swap + create position + add liquidity transactions from a SOL
+ * amount. DAMM v2 positions span the whole pool range, so there is no
+ * strategy or bin/tick selection.
+ * Returns unsigned transactions for Privy MPC signing.
+ */
+
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+  type Signer,
+} from '@solana/web3.js';
+import {
+  derivePositionAddress,
+  getTokenProgram,
+  type PoolState,
+} from '@meteora-ag/cp-amm-sdk';
+import BN from 'bn.js';
+import { getCpAmm, getDammConnection } from './client.js';
+import { getDammPoolDecimals } from './pools.js';
+import { config } from '../config/index.js';
+import { buildTipTransaction, type TipSpeed } from '../jito/index.js';
+import { assertSupportedMints, getMintProfiles, netAfterTransferFee, type MintProfile } from '../utils/token-extensions.js';
+import type { LpEntryFlows, SwapFlow } from '../ledger/types.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface DammAtomicLPParams {
+  walletAddress: string;
+  poolAddress: string;
+  amountSol: number;
+  slippageBps?: number;
+  tipSpeed?: TipSpeed;
+  skipTip?: boolean;
+}
+
+export interface BuiltDammLP {
+  unsignedTransactions: string[];
+  positionAddress: string;
+  positionNft: string;
+  flows: LpEntryFlows; // What lands in the position, for the PnL ledger
+  signers: Signer[]; // Position NFT keypair that pre-signed the deposit tx, for re-signing on a new blockhash
+}
+
+/**
+ * Get Jupiter swap transaction
+ */
+async function getJupiterSwapTx(params: {
+  inputMint: string;
+  outputMint: string;
+  amount: number;
+  slippageBps: number;
+  walletAddress: string;
+}): Promise<{ transaction: string; outAmount: string; otherAmountThreshold: string } | null> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (config.jupiter?.apiKey) headers['x-api-key'] = config.jupiter.apiKey;
+
+  const quoteUrl = new URL(`${config.jupiter.baseUrl}/quote`);
+  quoteUrl.searchParams.set('inputMint', params.inputMint);
+  quoteUrl.searchParams.set('outputMint', params.outputMint);
+  quoteUrl.searchParams.set('amount', params.amount.toString());
+  quoteUrl.searchParams.set('slippageBps', params.slippageBps.toString());
+  // Don't route through the pool we're about to deposit into
+  quoteUrl.searchParams.set('excludeDexes', 'Meteora DAMM v2');
+
+  const quoteResp = await fetch(quoteUrl.toString(), { headers });
+  if (!quoteResp.ok) {
+    console.error('[DAMM] Jupiter quote failed:', await quoteResp.text());
+    return null;
+  }
+  const quote = (await quoteResp.json()) as { outAmount: string; otherAmountThreshold: string };
+
+  const swapResp = await fetch(`${config.jupiter.baseUrl}/swap`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      quoteResponse: quote,
+      userPublicKey: params.walletAddress,
+      wrapAndUnwrapSol: true,
+      dynamicComputeUnitLimit: true,
+    }),
+  });
+
+  if (!swapResp.ok) {
+    console.error('[DAMM] Jupiter swap failed:', await swapResp.text());
+    return null;
+  }
+
+  const swapData = await swapResp.json() as { swapTransaction?: string };
+  return swapData.swapTransaction
+    ? { transaction: swapData.swapTransaction, outAmount: quote.outAmount, otherAmountThreshold: quote.otherAmountThreshold }
+    : null;
+}
+
+/**
+ * Liquidity both amounts (base units) can fund at the pool's current price.
+ * Quotes from each side and keeps the smaller, so neither amount is exceeded.
+ */
+function quoteDepositLiquidity(pool: PoolState, amountA: BN, amountB: BN) {
+  const cpAmm = getCpAmm();
+  const common = {
+    minSqrtPrice: pool.sqrtMinPrice,
+    maxSqrtPrice: pool.sqrtMaxPrice,
+    sqrtPrice: pool.sqrtPrice,
+    collectFeeMode: pool.collectFeeMode,
+    tokenAAmount: pool.tokenAAmount,
+    tokenBAmount: pool.tokenBAmount,
+    liquidity: pool.liquidity,
+  };
+  const fromA = cpAmm.getDepositQuote({ ...common, inAmount: amountA, isTokenA: true });
+  const fromB = cpAmm.getDepositQuote({ ...common, inAmount: amountB, isTokenA: false });
+
+  if (fromA.outputAmount.lte(amountB)) {
+    return { liquidityDelta: fromA.liquidityDelta, amountA: fromA.consumedInputAmount, amountB: fromA.outputAmount };
+  }
+  return { liquidityDelta: fromB.liquidityDelta, amountA: fromB.outputAmount, amountB: fromB.consumedInputAmount };
+}
+
+/**
+ * Build atomic LP transactions for a DAMM v2 pool
+ *
+ * Half the SOL is swapped into each side the wallet doesn't hold as SOL;
+ * swaps are sized on Jupiter's minimum output so the deposit never asks
+ * for more than the swaps deliver.
+ */
+export async function buildDammAtomicLP(params: DammAtomicLPParams): Promise<BuiltDammLP> {
+  const {
+    walletAddress,
+    poolAddress,
+    amountSol,
+    slippageBps = 300,
+    tipSpeed = 'medium',
+    skipTip = false,
+  } = params;
+
+  const cpAmm = getCpAmm();
+  const connection = getDammConnection();
+  const poolPubkey = new PublicKey(poolAddress);
+  const walletPubkey = new PublicKey(walletAddress);
+
+  const pool = await cpAmm.fetchPoolState(poolPubkey);
+  const { decimalsA, decimalsB } = await getDammPoolDecimals(pool);
+  const mintA = pool.tokenAMint.toBase58();
+  const mintB = pool.tokenBMint.toBase58();
+
+  // Token-2022: refuse unsupported hooks; swap outputs arrive net of transfer fees
+  const [profileA, profileB] = await getMintProfiles(connection, [mintA, mintB]);
+  assertSupportedMints([profileA, profileB]);
+
+  const unsignedTransactions: string[] = [];
+  const swaps: SwapFlow[] = [];
+  const halfLamports = Math.floor((amountSol * 1e9) / 2);
+
+  // Funding per side: SOL as-is, anything else via Jupiter
+  const fundSide = async (mint: string, decimals: number, profile: MintProfile): Promise<BN> => {
+    if (mint === SOL_MINT) return new BN(halfLamports);
+
+    const swap = await getJupiterSwapTx({
+      inputMint: SOL_MINT,
+      outputMint: mint,
+      amount: halfLamports,
+      slippageBps,
+      walletAddress,
+    });
+    if (!swap) {
+      throw new Error(
+        `Cannot LP into this pool: No swap route found for ${mint.slice(0, 8)}. ` +
+        `Jupiter can't route SOL into this token. Try a SOL-paired pool instead.`
+      );
+    }
+    unsignedTransactions.push(swap.transaction);
+    swaps.push({
+      input: { mint: SOL_MINT, amount: halfLamports / 1e9 },
+      output: { mint, amount: Number(netAfterTransferFee(profile, new BN(swap.outAmount)).toString()) / 10 ** decimals },
+    });
+    return netAfterTransferFee(profile, new BN(swap.otherAmountThreshold));
+  };
+
+  const fundedA = await fundSide(mintA, decimalsA, profileA);
+  const fundedB = await fundSide(mintB, decimalsB, profileB);
+
+  // Size liquidity from amounts shrunk by the slippage, so the max amounts
+  // the program may pull never exceed what we have
+  const shrink = (amount: BN) => amount.muln(10000).divn(10000 + slippageBps);
+  const deposit = quoteDepositLiquidity(pool, shrink(fundedA), shrink(fundedB));
+  if (deposit.liquidityDelta.isZero()) {
+    throw new Error('Amount is too small to add liquidity to this pool');
+  }
+
+  // Fresh position NFT; the mint keypair signs the create-position instruction
+  const positionNft = Keypair.generate();
+  const depositTx = await cpAmm.createPositionAndAddLiquidity({
+    owner: walletPubkey,
+    pool: poolPubkey,
+    positionNft: positionNft.publicKey,
+    liquidityDelta: deposit.liquidityDelta,
+    maxAmountTokenA: fundedA,
+    maxAmountTokenB: fundedB,
+    tokenAAmountThreshold: fundedA,
+    tokenBAmountThreshold: fundedB,
+    tokenAMint: pool.tokenAMint,
+    tokenBMint: pool.tokenBMint,
+    tokenAProgram: getTokenProgram(pool.tokenAFlag),
+    tokenBProgram: getTokenProgram(pool.tokenBFlag),
+  });
+
+  const { blockhash } = await connection.getLatestBlockhash('finalized');
+  const message = new TransactionMessage({
+    payerKey: walletPubkey,
+    recentBlockhash: blockhash,
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
+      ...depositTx.instructions,
+    ],
+  }).compileToV0Message();
+  const openTx = new VersionedTransaction(message);
+  openTx.sign([positionNft]);
+  unsignedTransactions.push(Buffer.from(openTx.serialize()).toString('base64'));
+
+  let tipLamports = 0;
+  if (!skipTip) {
+    const { transaction: tipTx, tipLamports: tip } = await buildTipTransaction({
+      payerAddress: walletAddress,
+      recentBlockhash: blockhash,
+      speed: tipSpeed,
+      valueLamports: Math.floor(amountSol * 1e9),
+    });
+    unsignedTransactions.push(Buffer.from(tipTx.serialize()).toString('base64'));
+    tipLamports = tip;
+  }
+
+  const positionAddress = derivePositionAddress(positionNft.publicKey).toBase58();
+  console.log(`[DAMM] Built ${unsignedTransactions.length} transactions, position ${positionAddress}`);
+
+  return {
+    unsignedTransactions,
+    positionAddress,
+    positionNft: positionNft.publicKey.toBase58(),
+    signers: [positionNft],
+    flows: {
+      tokenX: { mint: mintA, amount: Number(deposit.amountA.toString()) / 10 ** decimalsA },
+      tokenY: { mint: mintB, amount: Number(deposit.amountB.toString()) / 10 ** decimalsB },
+      swaps,
+      tipLamports,
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Meteora DAMM v2 Withdraw Pipeline
+ *
+ * Claims fees, removes all liquidity and closes the position in one
+ * transaction, optionally swapping the non-SOL side(s) back to SOL.
+ */
+
+import { ComputeBudgetProgram, PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { derivePositionNftAccount, getCurrentPoint, getUnClaimLpFee } from '@meteora-ag/cp-amm-sdk';
+import BN from 'bn.js';
+import { getCpAmm, getDammConnection } from './client.js';
+import { getDammPoolDecimals } from './pools.js';
+import { dammAmountsForLiquidity } from './positions.js';
+import { jupiterClient } from '../swap/jupiter.js';
+import { buildTipTransaction, type TipSpeed } from '../jito/index.js';
+import type { LpExitFlows, SwapFlow } from '../ledger/types.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface DammWithdrawParams {
+  walletAddress: string;
+  positionAddress: string;
+  convertToSol?: boolean;
+  slippageBps?: number;
+  tipSpeed?: TipSpeed;
+  skipTip?: boolean;
+}
+
+export interface BuiltDammWithdraw {
+  unsignedTransactions: string[];
+  poolAddress: string;
+  positionAddress: string;
+  estimatedWithdraw: { tokenA: string; tokenB: string }; // Base units, excluding fees
+  fees: { tokenA: string; tokenB: string };
+  flows: LpExitFlows; // What leaves the position, for the PnL ledger
+}
+
+export async function buildDammWithdraw(params: DammWithdrawParams): Promise<BuiltDammWithdraw> {
+  const {
+    walletAddress,
+    positionAddress,
+    convertToSol = false,
+    slippageBps = 300,
+    tipSpeed = 'medium',
+    skipTip = false,
+  } = params;
+
+  const cpAmm = getCpAmm();
+  const connection = getDammConnection();
+  const walletPubkey = new PublicKey(walletAddress);
+  const position = new PublicKey(positionAddress);
+
+  const positionState = await cpAmm.fetchPositionState(position);
+  const poolState = await cpAmm.fetchPoolState(positionState.pool);
+  const { decimalsA, decimalsB } = await getDammPoolDecimals(poolState);
+  const mintA = poolState.tokenAMint.toBase58();
+  const mintB = poolState.tokenBMint.toBase58();
+
+  // Only unlocked liquidity (plus any vesting released by now) leaves the position
+  const vestings = await cpAmm.getAllVestingsByPosition(position);
+  const { amountA, amountB } = dammAmountsForLiquidity(poolState, positionState.unlockedLiquidity);
+  const { feeTokenA, feeTokenB } = getUnClaimLpFee(poolState, positionState);
+  const minOut = (amount: BN) => amount.muln(10000 - slippageBps).divn(10000);
+
+  const withdrawTx = await cpAmm.removeAllLiquidityAndClosePosition({
+    owner: walletPubkey,
+    position,
+    positionNftAccount: derivePositionNftAccount(positionState.nftMint),
+    poolState,
+    positionState,
+    tokenAAmountThreshold: minOut(amountA),
+    tokenBAmountThreshold: minOut(amountB),
+    vestings: vestings.map(v => ({ account: v.publicKey, vestingState: v.account })),
+    currentPoint: await getCurrentPoint(connection, poolState.activationType),
+  });
+
+  const { blockhash } = await connection.getLatestBlockhash('finalized');
+  const message = new TransactionMessage({
+    payerKey: walletPubkey,
+    recentBlockhash: blockhash,
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
+      ...withdrawTx.instructions,
+    ],
+  }).compileToV0Message();
+  const unsignedTransactions = [Buffer.from(new VersionedTransaction(message).serialize()).toString('base64')];
+
+  // Swap the non-SOL side(s) back to SOL, sized on the minimum withdrawn
+  const swaps: SwapFlow[] = [];
+  if (convertToSol) {
+    const sides = [
+      { mint: mintA, amount: minOut(amountA).add(feeTokenA), decimals: decimalsA },
+      { mint: mintB, amount: minOut(amountB).add(feeTokenB), decimals: decimalsB },
+    ];
+    for (const side of sides) {
+      if (side.mint === SOL_MINT || side.amount.isZero()) continue;
+      try {
+        const { quote, swap } = await jupiterClient.getSwapTransaction(
+          side.mint, SOL_MINT, side.amount.toString(), walletAddress, slippageBps,
+        );
+        unsignedTransactions.push(swap.swapTransaction);
+        swaps.push({
+          input: { mint: side.mint, amount: Number(side.amount.toString()) / 10 ** side.decimals },
+          output: { mint: SOL_MINT, amount: Number(quote.outAmount) / 1e9 },
+        });
+      } catch (e: any) {
+        // Keep the withdrawal; the token stays in the wallet
+        console.warn(`[DAMM Withdraw] No swap route for ${side.mint.slice(0, 8)}, keeping token:`, e.message);
+      }
+    }
+  }
+
+  let tipLamports = 0;
+  if (!skipTip) {
+    const { transaction: tipTx, tipLamports: tip } = await buildTipTransaction({
+      payerAddress: walletAddress,
+      recentBlockhash: blockhash,
+      speed: tipSpeed,
+    });
+    unsignedTransactions.push(Buffer.from(tipTx.serialize()).toString('base64'));
+    tipLamports = tip;
+  }
+
+  return {
+    unsignedTransactions,
+    poolAddress: positionState.pool.toBase58(),
+    positionAddress,
+    estimatedWithdraw: { tokenA: amountA.toString(), tokenB: amountB.toString() },
+    fees: { tokenA: feeTokenA.toString(), tokenB: feeTokenB.toString() },
+    flows: {
+      tokenX: { mint: mintA, amount: Number(amountA.toString()) / 10 ** decimalsA },
+      tokenY: { mint: mintB, amount: Number(amountB.toString()) / 10 ** decimalsB },
+      fees: [
+        { mint: mintA, amount: Number(feeTokenA.toString()) / 10 ** decimalsA },
+        { mint: mintB, amount: Number(feeTokenB.toString()) / 10 ** decimalsB },
+      ],
+      protocolFee: [],
+      swaps,
+      tipLamports,
+    },
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Meteora DAMM v2 SDK client setup
+ *
+ * The cp-amm SDK only needs a connection; transactions are built unsigned
+ * and signed via Privy MPC.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { CpAmm, CP_AMM_PROGRAM_ID } from '@meteora-ag/cp-amm-sdk';
+import { getConnection } from '../services/connection-pool.js';
+
+export const DAMM_V2_PROGRAM_ID = CP_AMM_PROGRAM_ID;
+
+export function getDammConnection(): Connection {
+  return getConnection();
+}
+
+export function getCpAmm(connection?: Connection): CpAmm {
+  return new CpAmm(connection || getDammConnection());
+}
@@ -0,0 +1,10 @@
+/**
+ * Meteora DAMM v2 (constant-product dynamic AMM) module
+ */
+
+export * from './types.js';
+export * from './client.js';
+export * from './pools.js';
+export * from './positions.js';
+export * from './atomic.js';
+export * from './atomicWithdraw.js';
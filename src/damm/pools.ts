@@ -0,0 +1,94 @@
+/**
+ * Meteora DAMM v2 pool discovery via REST API, plus on-chain pool state
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { getPriceFromSqrtPrice, getTokenDecimals, getTokenProgram, type PoolState } from '@meteora-ag/cp-amm-sdk';
+import type { DammPoolInfo, DammPoolState } from './types.js';
+import { config } from '../config/index.js';
+import { getCpAmm, getDammConnection } from './client.js';
+
+let _poolCache: { data: DammPoolInfo[]; fetchedAt: number } | null = null;
+const CACHE_TTL_MS = 60_000;
+
+function transformDammPool(p: any): DammPoolInfo {
+  const symbolA = p.token_a_symbol || '?';
+  const symbolB = p.token_b_symbol || '?';
+  return {
+    address: p.pool_address,
+    name: p.pool_name || `${symbolA}-${symbolB}`,
+    tokenA: { mint: p.token_a_mint || '', symbol: symbolA },
+    tokenB: { mint: p.token_b_mint || '', symbol: symbolB },
+    feeBps: Math.round(parseFloat(p.base_fee || '0') * 100), // API reports percent
+    apr: parseFloat(p.apr || '0'),
+    tvl: parseFloat(p.tvl || '0'),
+    volume24h: parseFloat(p.volume24h || '0'),
+    fees24h: parseFloat(p.fee24h || '0'),
+  };
+}
+
+export async function fetchDammPools(limit = 20): Promise<DammPoolInfo[]> {
+  if (_poolCache && Date.now() - _poolCache.fetchedAt < CACHE_TTL_MS) {
+    return _poolCache.data.slice(0, limit);
+  }
+
+  const url = `${config.meteora.dammApiUrl}/pools?page=1&limit=${Math.min(limit * 2, 100)}&order_by=tvl&order=desc`;
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`Meteora DAMM API failed: ${resp.status}`);
+
+  const data = (await resp.json()) as any;
+  const pools: DammPoolInfo[] = (data.data || [])
+    .map(transformDammPool)
+    .filter((p: DammPoolInfo) => p.address && p.tvl > 10_000);
+
+  _poolCache = { data: pools, fetchedAt: Date.now() };
+  return pools.slice(0, limit);
+}
+
+export async function fetchDammPoolByAddress(address: string): Promise<DammPoolInfo | null> {
+  if (_poolCache) {
+    const cached = _poolCache.data.find(p => p.address === address);
+    if (cached) return cached;
+  }
+
+  try {
+    const resp = await fetch(`${config.meteora.dammApiUrl}/pools/${address}`);
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as any;
+    const p = data.data ?? data;
+    return p?.pool_address ? transformDammPool(p) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Token decimals for both sides of a pool (SPL or Token-2022 per the pool's flags)
+ */
+export async function getDammPoolDecimals(pool: PoolState): Promise<{ decimalsA: number; decimalsB: number }> {
+  const connection = getDammConnection();
+  const [decimalsA, decimalsB] = await Promise.all([
+    getTokenDecimals(connection, pool.tokenAMint, getTokenProgram(pool.tokenAFlag)),
+    getTokenDecimals(connection, pool.tokenBMint, getTokenProgram(pool.tokenBFlag)),
+  ]);
+  return { decimalsA, decimalsB };
+}
+
+/**
+ * Read a DAMM v2 pool's price and price bounds from RPC
+ */
+export async function fetchDammPoolState(poolAddress: string): Promise<DammPoolState> {
+  const pool = await getCpAmm().fetchPoolState(new PublicKey(poolAddress));
+  const { decimalsA, decimalsB } = await getDammPoolDecimals(pool);
+
+  return {
+    poolAddress,
+    mintA: pool.tokenAMint.toBase58(),
+    mintB: pool.tokenBMint.toBase58(),
+    decimalsA,
+    decimalsB,
+    currentPrice: getPriceFromSqrtPrice(pool.sqrtPrice, decimalsA, decimalsB).toNumber(),
+    priceMin: getPriceFromSqrtPrice(pool.sqrtMinPrice, decimalsA, decimalsB).toNumber(),
+    priceMax: getPriceFromSqrtPrice(pool.sqrtMaxPrice, decimalsA, decimalsB).toNumber(),
+  };
+}
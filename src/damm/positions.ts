@@ -0,0 +1,118 @@
+/**
+ * Meteora DAMM v2 position discovery
+ *
+ * Positions are NFT-backed (Token-2022 NFTs); the SDK resolves the wallet's
+ * position NFTs to position accounts. Every position spans the pool's
+ * price bounds, so there is no per-position range.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import {
+  getPriceFromSqrtPrice,
+  getUnClaimLpFee,
+  positionLiquidity,
+  type PoolState,
+  type PositionState,
+} from '@meteora-ag/cp-amm-sdk';
+import BN from 'bn.js';
+import { getCpAmm } from './client.js';
+import { getDammPoolDecimals } from './pools.js';
+import { resolveTokens } from '../utils/token-metadata.js';
+import type { DammPositionInfo } from './types.js';
+
+/**
+ * Token amounts (base units) a liquidity amount is worth at the pool's current price
+ */
+export function dammAmountsForLiquidity(pool: PoolState, liquidity: BN): { amountA: BN; amountB: BN } {
+  if (liquidity.isZero()) return { amountA: new BN(0), amountB: new BN(0) };
+  const quote = getCpAmm().getWithdrawQuote({
+    liquidityDelta: liquidity,
+    minSqrtPrice: pool.sqrtMinPrice,
+    maxSqrtPrice: pool.sqrtMaxPrice,
+    sqrtPrice: pool.sqrtPrice,
+    collectFeeMode: pool.collectFeeMode,
+    tokenAAmount: pool.tokenAAmount,
+    tokenBAmount: pool.tokenBAmount,
+    liquidity: pool.liquidity,
+  });
+  return { amountA: quote.outAmountA, amountB: quote.outAmountB };
+}
+
+async function toPositionInfo(
+  entry: { position: PublicKey; positionNftAccount: PublicKey; positionState: PositionState },
+  pool: PoolState,
+  decimals: { decimalsA: number; decimalsB: number },
+  symbols: Map<string, { symbol: string }>,
+): Promise<DammPositionInfo> {
+  const { position, positionNftAccount, positionState } = entry;
+  const { decimalsA, decimalsB } = decimals;
+  const mintA = pool.tokenAMint.toBase58();
+  const mintB = pool.tokenBMint.toBase58();
+  const symbolA = symbols.get(mintA)?.symbol || mintA.slice(0, 4);
+  const symbolB = symbols.get(mintB)?.symbol || mintB.slice(0, 4);
+
+  const liquidity = positionLiquidity(positionState);
+  const { amountA, amountB } = dammAmountsForLiquidity(pool, liquidity);
+  const { feeTokenA, feeTokenB } = getUnClaimLpFee(pool, positionState);
+
+  const currentPrice = getPriceFromSqrtPrice(pool.sqrtPrice, decimalsA, decimalsB).toNumber();
+  const priceMin = getPriceFromSqrtPrice(pool.sqrtMinPrice, decimalsA, decimalsB).toNumber();
+  const priceMax = getPriceFromSqrtPrice(pool.sqrtMaxPrice, decimalsA, decimalsB).toNumber();
+
+  return {
+    address: position.toBase58(),
+    nftMint: positionState.nftMint.toBase58(),
+    nftAccount: positionNftAccount.toBase58(),
+    poolAddress: positionState.pool.toBase58(),
+    poolName: `${symbolA}-${symbolB}`,
+    liquidity: liquidity.toString(),
+    unlockedLiquidity: positionState.unlockedLiquidity.toString(),
+    tokenA: { mint: mintA, symbol: symbolA, decimals: decimalsA, amount: Number(amountA.toString()) / 10 ** decimalsA },
+    tokenB: { mint: mintB, symbol: symbolB, decimals: decimalsB, amount: Number(amountB.toString()) / 10 ** decimalsB },
+    fees: {
+      tokenA: Number(feeTokenA.toString()) / 10 ** decimalsA,
+      tokenB: Number(feeTokenB.toString()) / 10 ** decimalsB,
+    },
+    priceMin,
+    priceMax,
+    currentPrice,
+    inRange: currentPrice >= priceMin && currentPrice <= priceMax,
+    dex: 'damm',
+  };
+}
+
+/**
+ * Discover all DAMM v2 positions for a wallet
+ */
+export async function discoverDammPositions(walletAddress: string): Promise<DammPositionInfo[]> {
+  const cpAmm = getCpAmm();
+  const entries = await cpAmm.getPositionsByUser(new PublicKey(walletAddress));
+  if (entries.length === 0) return [];
+
+  // One fetch per distinct pool
+  const poolKeys = [...new Set(entries.map(e => e.positionState.pool.toBase58()))].map(k => new PublicKey(k));
+  const poolStates = await cpAmm.getMultiplePools(poolKeys);
+  const pools = new Map(poolKeys.map((k, i) => [k.toBase58(), poolStates[i]]));
+  const decimals = new Map(await Promise.all(
+    poolKeys.map(async k => [k.toBase58(), await getDammPoolDecimals(pools.get(k.toBase58())!)] as const),
+  ));
+
+  const mints = [...new Set(poolStates.flatMap(p => [p.tokenAMint.toBase58(), p.tokenBMint.toBase58()]))];
+  const symbols = await resolveTokens(mints);
+
+  const positions = await Promise.all(entries.map(entry => {
+    const poolKey = entry.positionState.pool.toBase58();
+    return toPositionInfo(entry, pools.get(poolKey)!, decimals.get(poolKey)!, symbols);
+  }));
+
+  console.log(`[DAMM] Found ${positions.length} positions for ${walletAddress.slice(0, 8)}...`);
+  return positions;
+}
+
+/**
+ * Look up one of a wallet's positions by position account or NFT mint
+ */
+export async function findDammPosition(walletAddress: string, positionOrMint: string): Promise<DammPositionInfo | null> {
+  const positions = await discoverDammPositions(walletAddress);
+  return positions.find(p => p.address === positionOrMint || p.nftMint === positionOrMint) ?? null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Meteora DAMM v2 (constant-product dynamic AMM) type definitions
+ */
+
+export interface DammPoolInfo {
+  address: string;
+  name: string;
+  tokenA: { mint: string; symbol: string };
+  tokenB: { mint: string; symbol: string };
+  feeBps: number; // Current base fee
+  apr: number; // Percentage
+  tvl: number;
+  volume24h: number;
+  fees24h: number;
+}
+
+/** On-chain pool state: reserves, price and price bounds */
+export interface DammPoolState {
+  poolAddress: string;
+  mintA: string;
+  mintB: string;
+  decimalsA: number;
+  decimalsB: number;
+  currentPrice: number; // Token B per token A
+  priceMin: number; // Pool-wide price bounds, the range every position shares
+  priceMax: number;
+}
+
+export interface DammPositionInfo {
+  address: string; // Position account
+  nftMint: string;
+  nftAccount: string;
+  poolAddress: string;
+  poolName: string;
+  liquidity: string; // Unlocked + vested + permanently locked
+  unlockedLiquidity: string; // Withdrawable now
+  tokenA: { mint: string; symbol: string; decimals: number; amount: number };
+  tokenB: { mint: string; symbol: string; decimals: number; amount: number };
+  fees: { tokenA: number; tokenB: number }; // Unclaimed, UI units
+  priceMin: number;
+  priceMax: number;
+  currentPrice: number;
+  inRange: boolean; // Always true while the price is inside the pool bounds
+  dex: 'damm';
+}
@@ -8,6 +8,9 @@
 import { Connection, PublicKey, Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
 import DLMM, { StrategyType } from '@meteora-ag/dlmm';
 import BN from 'bn.js';
+import { config } from '../config/index.js';
+import { createConnection } from '../services/connection-pool.js';
+import { assertSupportedMints, getMintProfiles } from '../utils/token-extensions.js';
 
 export interface AddLiquidityParams {
   poolAddress: string;
@@ -33,7 +36,7 @@ export class MeteoraDirectClient {
   private connection: Connection;
 
   constructor(rpcUrl: string) {
-    this.connection = new Connection(rpcUrl);
+    this.connection = createConnection(undefined, rpcUrl);
   }
 
   /**
@@ -77,6 +80,7 @@ export class MeteoraDirectClient {
     } = params;
     
     const pool = await DLMM.create(this.connection, new PublicKey(poolAddress));
+    await this.assertSupportedPoolMints(pool);
     const activeBin = await pool.getActiveBin();
     
     // Create position keypair
@@ -182,6 +186,7 @@ export class MeteoraDirectClient {
     const { poolAddress, positionAddress, userPublicKey, amountX, amountY, slippageBps = 300 } = params;
     
     const pool = await DLMM.create(this.connection, new PublicKey(poolAddress));
+    await this.assertSupportedPoolMints(pool);
     const userPubkey = new PublicKey(userPublicKey);
     
     // Get position info
@@ -376,6 +381,18 @@ export class MeteoraDirectClient {
     return result;
   }
 
+  /**
+   * Refuse pools with a Token-2022 transfer hook we can't satisfy
+   * (the SDK handles transfer fees in its deposit amounts)
+   */
+  private async assertSupportedPoolMints(pool: DLMM): Promise<void> {
+    const profiles = await getMintProfiles(this.connection, [
+      pool.tokenX.publicKey.toBase58(),
+      pool.tokenY.publicKey.toBase58(),
+    ]);
+    assertSupportedMints(profiles);
+  }
+
   /**
    * Search for DLMM pools by token pair
    */
@@ -391,7 +408,7 @@ export class MeteoraDirectClient {
     binStep: number;
   }[]> {
     try {
-      const response = await fetch('https://dlmm-api.meteora.ag/pair/all_with_pagination?page=0&limit=100');
+      const response = await fetch(`${config.meteora.apiUrl}/pair/all_with_pagination?page=0&limit=100`);
       if (!response.ok) return [];
       
       const data = await response.json() as { pairs: Array<{
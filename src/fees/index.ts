@@ -5,12 +5,15 @@
  * Fees are collected in the transaction's output token
  */
 
-import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
 import {
-  TOKEN_PROGRAM_ID,
-  createTransferInstruction,
-  getAssociatedTokenAddress,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  getAssociatedTokenAddressSync,
 } from '@solana/spl-token';
+import { getMintProfile } from '../utils/token-extensions.js';
+import { config } from '../config/index.js';
 
 // Protocol fee configuration
 export const FEE_CONFIG = {
@@ -80,30 +83,70 @@ export function createSolFeeInstruction(
 }
 
 /**
- * Create fee transfer instruction for SPL tokens
+ * Create fee transfer instructions for SPL and Token-2022 tokens
+ *
+ * Resolves the mint's token program, creates the treasury ATA if missing and
+ * uses transferChecked (required for Token-2022 transfer-fee mints). The
+ * treasury receives the fee minus any transfer fee the mint withholds.
+ * Allowlisted transfer-hook mints get the hook's extra accounts; other hook
+ * mints are skipped: a missing fee must never block a user's exit.
  */
-export async function createTokenFeeInstruction(
+export async function createTokenFeeInstructions(
+  connection: Connection,
   payer: PublicKey,
   tokenMint: PublicKey,
   amount: number
-): Promise<TransactionInstruction | null> {
+): Promise<TransactionInstruction[]> {
   const fee = calculateFee(amount);
   
   if (fee.feeAmount === 0) {
-    return null;
+    return [];
   }
   
-  const payerAta = await getAssociatedTokenAddress(tokenMint, payer);
-  const treasuryAta = await getAssociatedTokenAddress(tokenMint, FEE_CONFIG.TREASURY_ADDRESS);
+  const profile = await getMintProfile(connection, tokenMint.toBase58());
+  if (profile.transferHookProgram && !config.tokens.allowedTransferHookPrograms.includes(profile.transferHookProgram)) {
+    console.warn(`[Fees] Skipping fee on ${tokenMint.toBase58().slice(0, 8)}...: transfer hook ${profile.transferHookProgram}`);
+    return [];
+  }
+  
+  const payerAta = getAssociatedTokenAddressSync(tokenMint, payer, false, profile.tokenProgram);
+  const treasuryAta = getAssociatedTokenAddressSync(tokenMint, FEE_CONFIG.TREASURY_ADDRESS, true, profile.tokenProgram);
+  
+  // The hook program rejects a transfer without its extra accounts
+  const transfer = profile.transferHookProgram
+    ? await createTransferCheckedWithTransferHookInstruction(
+      connection,
+      payerAta,
+      tokenMint,
+      treasuryAta,
+      payer,
+      BigInt(fee.feeAmount),
+      profile.decimals,
+      [],
+      'confirmed',
+      profile.tokenProgram
+    )
+    : createTransferCheckedInstruction(
+      payerAta,
+      tokenMint,
+      treasuryAta,
+      payer,
+      fee.feeAmount,
+      profile.decimals,
+      [],
+      profile.tokenProgram
+    );
   
-  return createTransferInstruction(
-    payerAta,
-    treasuryAta,
-    payer,
-    fee.feeAmount,
-    [],
-    TOKEN_PROGRAM_ID
-  );
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      payer,
+      treasuryAta,
+      FEE_CONFIG.TREASURY_ADDRESS,
+      tokenMint,
+      profile.tokenProgram
+    ),
+    transfer,
+  ];
 }
 
 /**
@@ -158,7 +201,7 @@ export function createFeeBreakdown(
 export default {
   calculateFee,
   createSolFeeInstruction,
-  createTokenFeeInstruction,
+  createTokenFeeInstructions,
   formatFee,
   createFeeBreakdown,
   FEE_CONFIG,
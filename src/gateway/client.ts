@@ -73,7 +73,7 @@ export class GatewayClient {
 
   private async fetchMeteoraPoolsDirect(tokenA?: string, tokenB?: string): Promise<PoolInfo[]> {
     // Use Meteora's public API directly
-    const response = await fetch('https://dlmm-api.meteora.ag/pair/all_with_pagination?page=0&limit=50');
+    const response = await fetch(`${config.meteora.apiUrl}/pair/all_with_pagination?page=0&limit=50`);
     if (!response.ok) return [];
     
     const data = await response.json() as { pairs: MeteoraPool[] };
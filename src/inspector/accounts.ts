@@ -0,0 +1,80 @@
+/**
+ * Inspector Accounts - resolving a transaction's accounts
+ *
+ * Lookup tables for v0 messages, and token account -> owner / mint, so a
+ * transfer into the treasury's ATA reads as a transfer to the treasury.
+ */
+
+import {
+  PublicKey,
+  type AddressLookupTableAccount,
+  type Connection,
+  type VersionedTransaction,
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount } from '@solana/spl-token';
+
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+const MULTIPLE_ACCOUNTS_LIMIT = 100;
+
+export interface TokenAccountInfo {
+  owner?: string;
+  mint?: string;
+}
+
+export async function loadLookupTables(connection: Connection, tx: VersionedTransaction): Promise<AddressLookupTableAccount[]> {
+  return Promise.all(tx.message.addressTableLookups.map(async (lookup) => {
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!value) throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+    return value;
+  }));
+}
+
+export interface AccountResolver {
+  /** Record an account the transaction itself creates (ATAs), so it isn't read from chain */
+  register(address: string, info: TokenAccountInfo): void;
+  /** Read accounts from chain in batches; call with everything you'll ask about */
+  load(addresses: string[]): Promise<void>;
+  /** Owner / mint of a token account, null for accounts that aren't token accounts */
+  tokenAccount(address: string): Promise<TokenAccountInfo | null>;
+  /** Owner of a token account, or the address itself */
+  ownerOf(address: string): Promise<string>;
+}
+
+export function createAccountResolver(connection: Connection): AccountResolver {
+  const known = new Map<string, TokenAccountInfo | null>();
+
+  const load = async (addresses: string[]) => {
+    const missing = [...new Set(addresses)].filter(a => a && !known.has(a));
+    for (let i = 0; i < missing.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+      const batch = missing.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT);
+      const infos = await connection.getMultipleAccountsInfo(batch.map(a => new PublicKey(a)));
+      batch.forEach((address, j) => {
+        const info = infos[j];
+        let parsed: TokenAccountInfo | null = null;
+        if (info && TOKEN_PROGRAMS.includes(info.owner.toBase58())) {
+          try {
+            const account = unpackAccount(new PublicKey(address), info, info.owner);
+            parsed = { owner: account.owner.toBase58(), mint: account.mint.toBase58() };
+          } catch {
+            // A mint or multisig, not a token account
+          }
+        }
+        known.set(address, parsed);
+      });
+    }
+  };
+
+  const tokenAccount = async (address: string) => {
+    if (!known.has(address)) await load([address]);
+    return known.get(address) ?? null;
+  };
+
+  return {
+    register: (address, info) => {
+      known.set(address, { ...known.get(address), ...info });
+    },
+    load,
+    tokenAccount,
+    ownerOf: async (address) => (await tokenAccount(address))?.owner ?? address,
+  };
+}
@@ -0,0 +1,306 @@
+/**
+ * Transaction Inspector
+ *
+ * Decodes unsigned transactions into a preview of what signing them does:
+ * instructions in plain words, token balance changes per account (owners,
+ * not token accounts), the fee to the treasury, Jito tips, priority fees
+ * and the programs involved.
+ *
+ * Deltas come from the instructions themselves. Deposits and swap outputs
+ * are slippage bounds or quotes (marked exact: false); withdrawals settle
+ * on-chain and only show where the instruction carries a minimum.
+ */
+
+import { NATIVE_MINT } from '@solana/spl-token';
+import { VersionedTransaction, type Connection } from '@solana/web3.js';
+import { createConnection } from '../services/connection-pool.js';
+import { FEE_CONFIG } from '../fees/index.js';
+import { JITO_TIP_ACCOUNTS } from '../jito/index.js';
+import { getMintProfile } from '../utils/token-extensions.js';
+import { getSymbol } from '../utils/token-metadata.js';
+import { createAccountResolver, loadLookupTables, type AccountResolver } from './accounts.js';
+import { PROGRAMS, decodeInstruction } from './programs.js';
+import type { BundlePreview, DecodedInstruction, TokenDelta, TokenFlow, TransactionPreview } from './types.js';
+
+export * from './types.js';
+export { createAccountResolver, loadLookupTables, type AccountResolver } from './accounts.js';
+export { PROGRAMS, JUPITER_V6_PROGRAM_ID } from './programs.js';
+
+const SOL_MINT = NATIVE_MINT.toBase58();
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+function formatUi(amount: number): string {
+  return amount.toLocaleString('en-US', { maximumSignificantDigits: 6 });
+}
+
+function symbolFor(mint: string): string {
+  return mint === SOL_MINT ? 'SOL' : getSymbol(mint);
+}
+
+function formatFlow(ui: number, symbol: string, bound: TokenFlow['bound']): string {
+  const text = `${formatUi(ui)} ${symbol}`;
+  switch (bound) {
+    case 'max': return `up to ${text}`;
+    case 'min': return `at least ${text}`;
+    case 'quoted': return `~${text}`;
+    default: return text;
+  }
+}
+
+async function decimalsOf(connection: Connection, mint: string): Promise<number> {
+  if (mint === SOL_MINT) return 9;
+  return (await getMintProfile(connection, mint)).decimals;
+}
+
+function roleOf(owner: string, walletAddress: string): TokenDelta['role'] {
+  if (owner === walletAddress) return 'wallet';
+  if (owner === FEE_CONFIG.TREASURY_ADDRESS.toBase58()) return 'treasury';
+  if (JITO_TIP_ACCOUNTS.includes(owner)) return 'jito-tip';
+  return 'other';
+}
+
+/**
+ * Preview one base64 transaction. Pass the same resolver for every
+ * transaction in a bundle so accounts created earlier are known later.
+ */
+export async function previewTransaction(
+  connection: Connection,
+  transactionBase64: string,
+  walletAddress: string,
+  options: { index?: number; resolver?: AccountResolver } = {},
+): Promise<TransactionPreview> {
+  const resolver = options.resolver ?? createAccountResolver(connection);
+  const tx = VersionedTransaction.deserialize(Buffer.from(transactionBase64, 'base64'));
+  const keys = tx.message.getAccountKeys({ addressLookupTableAccounts: await loadLookupTables(connection, tx) });
+  const key = (index: number) => keys.get(index)?.toBase58() ?? '';
+  const signers = tx.message.staticAccountKeys
+    .slice(0, tx.message.header.numRequiredSignatures)
+    .map(k => k.toBase58());
+
+  const treasury = FEE_CONFIG.TREASURY_ADDRESS.toBase58();
+  const preview: TransactionPreview = {
+    index: options.index ?? 0,
+    feePayer: signers[0],
+    otherSigners: signers.slice(1),
+    programs: [],
+    instructions: [],
+    deltas: [],
+    treasuryFees: [],
+    tips: [],
+    compute: { unitLimit: null, unitPriceMicroLamports: null, priorityFeeLamports: 0 },
+    warnings: [],
+  };
+
+  // Decode first: ATAs and token accounts created here are registered before anything is read
+  const decoded = tx.message.compiledInstructions.map((ix) => {
+    const programId = key(ix.programIdIndex);
+    const decoding = decodeInstruction(programId, ix.accountKeyIndexes.map(key), Buffer.from(ix.data));
+    for (const created of decoding?.creates ?? []) {
+      resolver.register(created.address, { owner: created.owner, mint: created.mint });
+    }
+    if (decoding?.compute?.unitLimit !== undefined) preview.compute.unitLimit = decoding.compute.unitLimit;
+    if (decoding?.compute?.unitPriceMicroLamports !== undefined) {
+      preview.compute.unitPriceMicroLamports = decoding.compute.unitPriceMicroLamports;
+    }
+    if (!preview.programs.some(p => p.id === programId)) {
+      preview.programs.push({ id: programId, name: PROGRAMS[programId]?.name ?? programId });
+    }
+    return { programId, decoding };
+  });
+
+  const flows = decoded.flatMap(d => d.decoding?.flows ?? []);
+  await resolver.load(flows.flatMap(f => [f.from, f.to, ...(f.mint ? [] : [f.mintFrom ?? f.from])]));
+
+  const deltas = new Map<string, { owner: string; mint: string; raw: bigint; decimals: number; exact: boolean }>();
+  const addDelta = (owner: string, mint: string, raw: bigint, decimals: number, exact: boolean) => {
+    const id = `${owner}:${mint}`;
+    const current = deltas.get(id) ?? { owner, mint, raw: 0n, decimals, exact: true };
+    current.raw += raw;
+    current.exact = current.exact && exact;
+    deltas.set(id, current);
+  };
+
+  for (const { programId, decoding } of decoded) {
+    const program = PROGRAMS[programId]?.name ?? programId;
+    if (!decoding) {
+      preview.warnings.push(`Unknown program ${programId}`);
+      preview.instructions.push({ programId, program, name: 'unknown', summary: `Call to unknown program ${programId}` });
+      continue;
+    }
+
+    const amounts: string[] = [];
+    let role: 'treasury' | 'tip' | 'wrap' | null = null;
+    for (const flow of decoding.flows ?? []) {
+      const mint = flow.mint ?? (await resolver.tokenAccount(flow.mintFrom ?? flow.from))?.mint;
+      if (!mint) {
+        preview.warnings.push(`Couldn't read token account ${flow.mintFrom ?? flow.from} (${program} ${decoding.name})`);
+        amounts.push('an unknown amount');
+        continue;
+      }
+      let decimals: number;
+      try {
+        decimals = await decimalsOf(connection, mint);
+      } catch (error: any) {
+        preview.warnings.push(`Couldn't read mint ${mint}: ${error.message}`);
+        amounts.push('an unknown amount');
+        continue;
+      }
+
+      const symbol = symbolFor(mint);
+      const ui = Number(flow.amount) / 10 ** decimals;
+      amounts.push(formatFlow(ui, symbol, flow.bound));
+
+      const [from, to] = await Promise.all([resolver.ownerOf(flow.from), resolver.ownerOf(flow.to)]);
+      if (from === to) {
+        // SOL into the wallet's own wSOL account
+        if (mint === SOL_MINT && decoding.name === 'transfer') role = 'wrap';
+        continue;
+      }
+      const exact = flow.bound === 'exact';
+      addDelta(from, mint, -flow.amount, decimals, exact);
+      addDelta(to, mint, flow.amount, decimals, exact);
+
+      if (to === treasury) {
+        role = 'treasury';
+        preview.treasuryFees.push({ mint, symbol, amount: ui });
+      } else if (mint === SOL_MINT && JITO_TIP_ACCOUNTS.includes(to)) {
+        role = 'tip';
+        preview.tips.push({ account: to, lamports: Number(flow.amount) });
+      }
+    }
+
+    const summary = role === 'treasury'
+      ? `Fee of ${amounts.join(' + ')} to the treasury`
+      : role === 'tip'
+        ? `Jito tip of ${amounts.join(' + ')}`
+        : role === 'wrap'
+          ? `Wrap ${amounts.join(' + ')} as wSOL`
+          : decoding.describe?.(amounts) ?? `${program}: ${decoding.name}`;
+    const instruction: DecodedInstruction = { programId, program, name: decoding.name, summary };
+    if (decoding.args) instruction.args = decoding.args;
+    preview.instructions.push(instruction);
+  }
+
+  preview.deltas = [...deltas.values()]
+    .filter(d => d.raw !== 0n)
+    .map(d => ({
+      owner: d.owner,
+      role: roleOf(d.owner, walletAddress),
+      mint: d.mint,
+      symbol: symbolFor(d.mint),
+      rawAmount: d.raw.toString(),
+      amount: Number(d.raw) / 10 ** d.decimals,
+      exact: d.exact,
+    }));
+
+  const { unitLimit, unitPriceMicroLamports } = preview.compute;
+  if (unitPriceMicroLamports) {
+    // Without an explicit limit the runtime allows 200k units per instruction
+    const units = unitLimit ?? 200_000 * tx.message.compiledInstructions.length;
+    preview.compute.priorityFeeLamports = Math.ceil((units * unitPriceMicroLamports) / 1_000_000);
+  }
+
+  return preview;
+}
+
+/**
+ * Preview every transaction of an operation, with the wallet's totals
+ */
+export async function previewTransactions(
+  transactions: string[],
+  walletAddress: string,
+  connection: Connection = createConnection(),
+): Promise<BundlePreview> {
+  const resolver = createAccountResolver(connection);
+  const previews: TransactionPreview[] = [];
+  for (let i = 0; i < transactions.length; i++) {
+    previews.push(await previewTransaction(connection, transactions[i], walletAddress, { index: i, resolver }));
+  }
+
+  const walletDeltas = new Map<string, TokenDelta & { raw: bigint }>();
+  const fees = new Map<string, { mint: string; symbol: string; amount: number }>();
+  const programs = new Map<string, string>();
+  for (const preview of previews) {
+    for (const delta of preview.deltas.filter(d => d.role === 'wallet')) {
+      const current = walletDeltas.get(delta.mint) ?? { ...delta, raw: 0n, amount: 0, exact: true };
+      current.raw += BigInt(delta.rawAmount);
+      current.amount += delta.amount;
+      current.exact = current.exact && delta.exact;
+      walletDeltas.set(delta.mint, current);
+    }
+    for (const fee of preview.treasuryFees) {
+      const current = fees.get(fee.mint) ?? { ...fee, amount: 0 };
+      current.amount += fee.amount;
+      fees.set(fee.mint, current);
+    }
+    for (const program of preview.programs) programs.set(program.id, program.name);
+  }
+
+  return {
+    walletAddress,
+    transactions: previews,
+    walletDeltas: [...walletDeltas.values()]
+      .filter(d => d.raw !== 0n)
+      .map(({ raw, ...delta }) => ({ ...delta, rawAmount: raw.toString() })),
+    treasuryFees: [...fees.values()],
+    tipLamports: previews.reduce((sum, p) => sum + p.tips.reduce((s, t) => s + t.lamports, 0), 0),
+    priorityFeeLamports: previews.reduce((sum, p) => sum + p.compute.priorityFeeLamports, 0),
+    programs: [...programs].map(([id, name]) => ({ id, name })),
+    warnings: previews.flatMap(p => p.warnings.map(w => previews.length > 1 ? `Tx ${p.index + 1}: ${w}` : w)),
+  };
+}
+
+/**
+ * Preview for API responses: logged and null on failure, so a preview
+ * problem never blocks handing out the transaction itself
+ */
+export async function tryPreviewTransactions(
+  transactions: string[],
+  walletAddress: string,
+  connection?: Connection,
+): Promise<BundlePreview | null> {
+  try {
+    return await previewTransactions(transactions, walletAddress, connection);
+  } catch (error: any) {
+    console.warn('[Inspector] Preview failed:', error?.message || error);
+    return null;
+  }
+}
+
+// Legacy Markdown, as the bot sends it: memos and symbols may contain these
+function escapeMarkdown(text: string): string {
+  return text.replace(/[_*`[]/g, '\\$&');
+}
+
+/**
+ * Telegram (Markdown) lines for a confirmation step
+ */
+export function formatPreview(preview: BundlePreview): string[] {
+  const count = preview.transactions.length;
+  const lines = [`*What you'll sign* (${count} transaction${count === 1 ? '' : 's'})`];
+
+  // Compute budget shows up in the fee line
+  for (const tx of preview.transactions) {
+    for (const ix of tx.instructions.filter(i => i.program !== 'Compute Budget')) {
+      lines.push(`• ${escapeMarkdown(ix.summary)}`);
+    }
+  }
+
+  if (preview.walletDeltas.length > 0) {
+    lines.push('', 'Your balances:');
+    for (const delta of preview.walletDeltas) {
+      const sign = delta.amount > 0 ? '+' : '';
+      lines.push(`  ${sign}${formatUi(delta.amount)} ${escapeMarkdown(delta.symbol)}${delta.exact ? '' : ' (est.)'}`);
+    }
+  }
+  for (const fee of preview.treasuryFees) {
+    lines.push(`Protocol fee: ${formatUi(fee.amount)} ${escapeMarkdown(fee.symbol)}`);
+  }
+  const networkLamports = preview.tipLamports + preview.priorityFeeLamports;
+  if (networkLamports > 0) {
+    lines.push(`Jito tip + priority fees: ${formatUi(networkLamports / LAMPORTS_PER_SOL)} SOL`);
+  }
+  lines.push(`Programs: ${preview.programs.map(p => p.name).join(', ')}`);
+  for (const warning of preview.warnings) lines.push(`⚠️ ${escapeMarkdown(warning)}`);
+  return lines;
+}
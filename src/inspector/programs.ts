@@ -0,0 +1,515 @@
+/**
+ * Inspector Programs - per-program instruction decoders
+ *
+ * Anchor programs (Meteora, Orca, Raydium, Jupiter) are matched on the
+ * 8-byte discriminator sha256("global:<name>"); only the arguments that
+ * move tokens are read. Native programs (System, SPL Token, ATA, Compute
+ * Budget, Memo) are decoded from their instruction indexes.
+ *
+ * Account positions follow each program's IDL. Mints are read from the
+ * user's token account where the instruction doesn't carry them.
+ */
+
+import { createHash } from 'crypto';
+import { ComputeBudgetProgram, PublicKey, SystemProgram } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { LBCLMM_PROGRAM_IDS } from '@meteora-ag/dlmm';
+import { ORCA_WHIRLPOOL_PROGRAM_ID } from '@orca-so/whirlpools-sdk';
+import { DAMM_V2_PROGRAM_ID } from '../damm/client.js';
+import { RAYDIUM_CLMM_PROGRAM_ID } from '../raydium/client.js';
+import type { TokenFlow } from './types.js';
+
+export const JUPITER_V6_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const MEMO_PROGRAM_IDS = ['MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr', 'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo'];
+const SOL_MINT = NATIVE_MINT.toBase58();
+
+export interface InstructionDecoding {
+  name: string;
+  args?: Record<string, string | number | boolean>;
+  flows?: TokenFlow[];
+  /** Summary from the formatted flow amounts ("at least 210.3 USDC"), in flow order */
+  describe?: (amounts: string[]) => string;
+  /** Token accounts the instruction creates */
+  creates?: Array<{ address: string; owner: string; mint: string }>;
+  compute?: { unitLimit?: number; unitPriceMicroLamports?: number };
+}
+
+type ArgsDecoder = (accounts: string[], args: Buffer) => Omit<InstructionDecoding, 'name'>;
+type Decoder = (accounts: string[], data: Buffer) => InstructionDecoding;
+
+const u64 = (buf: Buffer, offset: number) => buf.readBigUInt64LE(offset);
+const u128 = (buf: Buffer, offset: number) => buf.readBigUInt64LE(offset) + (buf.readBigUInt64LE(offset + 8) << 64n);
+const short = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+function discriminator(name: string): string {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8).toString('hex');
+}
+
+/**
+ * Decoder for an Anchor program: known names get their arguments read
+ * (null: name only), anything else is 'unknown'
+ */
+function anchorDecoder(handlers: Record<string, ArgsDecoder | null>): Decoder {
+  const byDiscriminator = new Map(
+    Object.entries(handlers).map(([name, handler]) => [discriminator(name), { name, handler }]),
+  );
+  return (accounts, data) => {
+    const entry = data.length >= 8 ? byDiscriminator.get(data.subarray(0, 8).toString('hex')) : undefined;
+    if (!entry) return { name: 'unknown' };
+    try {
+      return { name: entry.name, ...entry.handler?.(accounts, data.subarray(8)) };
+    } catch (error) {
+      // Arguments shorter than the layout: keep the name
+      if (error instanceof RangeError) return { name: entry.name };
+      throw error;
+    }
+  };
+}
+
+const named = (summary: string): ArgsDecoder => () => ({ describe: () => summary });
+
+// ============ Meteora DLMM ============
+
+// [position, lb_pair, bitmap_ext, user_token_x, user_token_y, reserve_x, reserve_y, token_x_mint, token_y_mint, ...]
+const dlmmDeposit: ArgsDecoder = (accounts, args) => ({
+  args: { amountX: u64(args, 0).toString(), amountY: u64(args, 8).toString() },
+  flows: [
+    { from: accounts[3], to: accounts[5], mint: accounts[7], amount: u64(args, 0), bound: 'max' },
+    { from: accounts[4], to: accounts[6], mint: accounts[8], amount: u64(args, 8), bound: 'max' },
+  ],
+  describe: (a) => `Deposit ${a[0]} + ${a[1]} into the pool`,
+});
+
+// LiquidityParameterByStrategy: amount_x, amount_y, active_id, max_active_bin_slippage, min_bin_id, max_bin_id, ...
+const dlmmDepositByStrategy: ArgsDecoder = (accounts, args) => {
+  const deposit = dlmmDeposit(accounts, args);
+  const minBinId = args.readInt32LE(24);
+  const maxBinId = args.readInt32LE(28);
+  return {
+    ...deposit,
+    args: { ...deposit.args, minBinId, maxBinId },
+    describe: (a) => `Deposit ${a[0]} + ${a[1]} into bins ${minBinId} to ${maxBinId}`,
+  };
+};
+
+// [position, lb_pair, bitmap_ext, user_token, reserve, token_mint, ...]
+const dlmmDepositOneSide: ArgsDecoder = (accounts, args) => ({
+  args: { amount: u64(args, 0).toString() },
+  flows: [{ from: accounts[3], to: accounts[4], mint: accounts[5], amount: u64(args, 0), bound: 'max' }],
+  describe: (a) => `Deposit ${a[0]} into the pool (one side)`,
+});
+
+const dlmmWithdrawByRange: ArgsDecoder = (_accounts, args) => {
+  const fromBinId = args.readInt32LE(0);
+  const toBinId = args.readInt32LE(4);
+  const bps = args.readUInt16LE(8);
+  return {
+    args: { fromBinId, toBinId, bpsToRemove: bps },
+    describe: () => `Withdraw ${bps / 100}% of liquidity in bins ${fromBinId} to ${toBinId} (amounts settle on-chain)`,
+  };
+};
+
+// [lb_pair, bitmap_ext, reserve_x, reserve_y, user_token_in, user_token_out, ...]
+const dlmmSwap = (exactOut: boolean): ArgsDecoder => (accounts, args) => ({
+  args: {
+    [exactOut ? 'maxInAmount' : 'amountIn']: u64(args, 0).toString(),
+    [exactOut ? 'outAmount' : 'minAmountOut']: u64(args, 8).toString(),
+  },
+  flows: [
+    { from: accounts[4], to: accounts[0], mintFrom: accounts[4], amount: u64(args, 0), bound: exactOut ? 'max' : 'exact' },
+    { from: accounts[0], to: accounts[5], mintFrom: accounts[5], amount: u64(args, 8), bound: exactOut ? 'exact' : 'min' },
+  ],
+  describe: (a) => `Swap ${a[0]} for ${a[1]}`,
+});
+
+const dlmm = anchorDecoder({
+  add_liquidity: dlmmDeposit,
+  add_liquidity2: dlmmDeposit,
+  add_liquidity_by_weight: dlmmDeposit,
+  add_liquidity_by_strategy: dlmmDepositByStrategy,
+  add_liquidity_by_strategy2: dlmmDepositByStrategy,
+  add_liquidity_one_side: dlmmDepositOneSide,
+  add_liquidity_by_strategy_one_side: dlmmDepositOneSide,
+  remove_liquidity: named('Withdraw liquidity (amounts settle on-chain)'),
+  remove_liquidity2: named('Withdraw liquidity (amounts settle on-chain)'),
+  remove_all_liquidity: named('Withdraw all liquidity (amounts settle on-chain)'),
+  remove_liquidity_by_range: dlmmWithdrawByRange,
+  remove_liquidity_by_range2: dlmmWithdrawByRange,
+  claim_fee: named('Claim swap fees'),
+  claim_fee2: named('Claim swap fees'),
+  claim_reward: named('Claim farming rewards'),
+  claim_reward2: named('Claim farming rewards'),
+  initialize_position: (_accounts, args) => ({
+    args: { lowerBinId: args.readInt32LE(0), width: args.readInt32LE(4) },
+    describe: () => `Open a position for bins ${args.readInt32LE(0)} to ${args.readInt32LE(0) + args.readInt32LE(4) - 1}`,
+  }),
+  initialize_position_pda: named('Open a position'),
+  initialize_bin_array: named('Create a bin array (rent)'),
+  initialize_bin_array_bitmap_extension: named('Create a bin array bitmap extension (rent)'),
+  close_position: named('Close the position, rent back to the wallet'),
+  close_position2: named('Close the position, rent back to the wallet'),
+  close_position_if_empty: named('Close the position if empty, rent back to the wallet'),
+  swap: dlmmSwap(false),
+  swap2: dlmmSwap(false),
+  swap_exact_out: dlmmSwap(true),
+  swap_exact_out2: dlmmSwap(true),
+});
+
+// ============ Orca Whirlpool ============
+
+/**
+ * Increase / decrease liquidity: liquidity u128, token_a u64, token_b u64.
+ * v1: [whirlpool, token_program, authority, position, position_token_account,
+ *      owner_a, owner_b, vault_a, vault_b, ...]
+ * v2: [whirlpool, program_a, program_b, memo, authority, position, position_token_account,
+ *      mint_a, mint_b, owner_a, owner_b, vault_a, vault_b, ...]
+ */
+const orcaLiquidity = (v2: boolean, deposit: boolean): ArgsDecoder => (accounts, args) => {
+  const [ownerA, ownerB, vaultA, vaultB] = v2 ? accounts.slice(9, 13) : accounts.slice(5, 9);
+  const mints = v2 ? { a: accounts[7], b: accounts[8] } : null;
+  const amountA = u64(args, 16);
+  const amountB = u64(args, 24);
+  const bound = deposit ? 'max' as const : 'min' as const;
+  return {
+    args: { liquidity: u128(args, 0).toString(), [deposit ? 'tokenMaxA' : 'tokenMinA']: amountA.toString(), [deposit ? 'tokenMaxB' : 'tokenMinB']: amountB.toString() },
+    flows: deposit
+      ? [
+          { from: ownerA, to: vaultA, mint: mints?.a, mintFrom: ownerA, amount: amountA, bound },
+          { from: ownerB, to: vaultB, mint: mints?.b, mintFrom: ownerB, amount: amountB, bound },
+        ]
+      : [
+          { from: vaultA, to: ownerA, mint: mints?.a, mintFrom: ownerA, amount: amountA, bound },
+          { from: vaultB, to: ownerB, mint: mints?.b, mintFrom: ownerB, amount: amountB, bound },
+        ],
+    describe: (a) => deposit ? `Deposit ${a[0]} + ${a[1]} into the position` : `Withdraw ${a[0]} + ${a[1]} from the position`,
+  };
+};
+
+/**
+ * swap: amount, other_amount_threshold, sqrt_price_limit u128, amount_specified_is_input, a_to_b.
+ * v1: [token_program, authority, whirlpool, owner_a, vault_a, owner_b, vault_b, ...]
+ * v2: [program_a, program_b, memo, authority, whirlpool, mint_a, mint_b, owner_a, vault_a, owner_b, vault_b, ...]
+ */
+const orcaSwap = (v2: boolean): ArgsDecoder => (accounts, args) => {
+  const [ownerA, vaultA, ownerB, vaultB] = v2 ? accounts.slice(7, 11) : accounts.slice(3, 7);
+  const isInput = args[32] === 1;
+  const aToB = args[33] === 1;
+  const amount = u64(args, 0);
+  const threshold = u64(args, 8);
+  const [userIn, vaultIn, userOut, vaultOut] = aToB ? [ownerA, vaultA, ownerB, vaultB] : [ownerB, vaultB, ownerA, vaultA];
+  return {
+    args: { amount: amount.toString(), otherAmountThreshold: threshold.toString(), amountSpecifiedIsInput: isInput, aToB },
+    flows: [
+      { from: userIn, to: vaultIn, mintFrom: userIn, amount: isInput ? amount : threshold, bound: isInput ? 'exact' : 'max' },
+      { from: vaultOut, to: userOut, mintFrom: userOut, amount: isInput ? threshold : amount, bound: isInput ? 'min' : 'exact' },
+    ],
+    describe: (a) => `Swap ${a[0]} for ${a[1]}`,
+  };
+};
+
+const orca = anchorDecoder({
+  open_position: named('Open a position'),
+  open_position_with_metadata: named('Open a position'),
+  open_position_with_token_extensions: (_accounts, args) => ({
+    args: { tickLowerIndex: args.readInt32LE(0), tickUpperIndex: args.readInt32LE(4) },
+    describe: () => `Open a position for ticks ${args.readInt32LE(0)} to ${args.readInt32LE(4)}`,
+  }),
+  increase_liquidity: orcaLiquidity(false, true),
+  increase_liquidity_v2: orcaLiquidity(true, true),
+  decrease_liquidity: orcaLiquidity(false, false),
+  decrease_liquidity_v2: orcaLiquidity(true, false),
+  collect_fees: named('Collect swap fees'),
+  collect_fees_v2: named('Collect swap fees'),
+  collect_reward: named('Collect rewards'),
+  collect_reward_v2: named('Collect rewards'),
+  update_fees_and_rewards: named('Update fees and rewards'),
+  close_position: named('Close the position, rent back to the wallet'),
+  close_position_with_token_extensions: named('Close the position, rent back to the wallet'),
+  initialize_tick_array: named('Create a tick array (rent)'),
+  swap: orcaSwap(false),
+  swap_v2: orcaSwap(true),
+});
+
+// ============ Raydium CLMM ============
+
+/**
+ * Account positions of the user's token accounts and the vaults, per
+ * instruction (raydium-sdk-v2 ClmmInstrument)
+ */
+const raydiumLiquidity = (
+  layout: { user: number; vault: number; mint: number; amounts: number },
+  deposit: boolean,
+): ArgsDecoder => (accounts, args) => {
+  const amountA = u64(args, layout.amounts);
+  const amountB = u64(args, layout.amounts + 8);
+  const bound = deposit ? 'max' as const : 'min' as const;
+  const [userA, userB] = [accounts[layout.user], accounts[layout.user + 1]];
+  const [vaultA, vaultB] = [accounts[layout.vault], accounts[layout.vault + 1]];
+  const [mintA, mintB] = [accounts[layout.mint], accounts[layout.mint + 1]];
+  return {
+    args: { [deposit ? 'amount0Max' : 'amount0Min']: amountA.toString(), [deposit ? 'amount1Max' : 'amount1Min']: amountB.toString() },
+    flows: deposit
+      ? [
+          { from: userA, to: vaultA, mint: mintA, amount: amountA, bound },
+          { from: userB, to: vaultB, mint: mintB, amount: amountB, bound },
+        ]
+      : [
+          { from: vaultA, to: userA, mint: mintA, amount: amountA, bound },
+          { from: vaultB, to: userB, mint: mintB, amount: amountB, bound },
+        ],
+    describe: (a) => deposit ? `Deposit ${a[0]} + ${a[1]} into the position` : `Withdraw ${a[0]} + ${a[1]} from the position`,
+  };
+};
+
+// swap_v2: amount, other_amount_threshold, sqrt_price_limit_x64 u128, is_base_input
+// [payer, amm_config, pool, input_account, output_account, input_vault, output_vault, observation, ...]
+const raydiumSwap: ArgsDecoder = (accounts, args) => {
+  const isInput = args[32] === 1;
+  const amount = u64(args, 0);
+  const threshold = u64(args, 8);
+  return {
+    args: { amount: amount.toString(), otherAmountThreshold: threshold.toString(), isBaseInput: isInput },
+    flows: [
+      { from: accounts[3], to: accounts[5], mintFrom: accounts[3], amount: isInput ? amount : threshold, bound: isInput ? 'exact' : 'max' },
+      { from: accounts[6], to: accounts[4], mintFrom: accounts[4], amount: isInput ? threshold : amount, bound: isInput ? 'min' : 'exact' },
+    ],
+    describe: (a) => `Swap ${a[0]} for ${a[1]}`,
+  };
+};
+
+// Open: tick_lower, tick_upper, tick_array_lower_start, tick_array_upper_start (i32 each), liquidity u128, amounts
+const raydium = anchorDecoder({
+  open_position_v2: raydiumLiquidity({ user: 10, vault: 12, mint: 20, amounts: 32 }, true),
+  open_position_with_token22_nft: raydiumLiquidity({ user: 9, vault: 11, mint: 18, amounts: 32 }, true),
+  increase_liquidity_v2: raydiumLiquidity({ user: 7, vault: 9, mint: 13, amounts: 16 }, true),
+  decrease_liquidity_v2: raydiumLiquidity({ user: 9, vault: 5, mint: 14, amounts: 16 }, false),
+  close_position: named('Close the position, rent back to the wallet'),
+  collect_remaining_rewards: named('Collect rewards'),
+  swap_v2: raydiumSwap,
+});
+
+// ============ Jupiter v6 ============
+
+/**
+ * Route instructions end with in_amount (or out_amount), quoted_out_amount
+ * (or quoted_in_amount), slippage_bps u16 and platform_fee_bps u8, after a
+ * variable-length route plan, so they're read from the end.
+ */
+const jupiterRoute = (source: number, destination: (accounts: string[]) => string, exactOut: boolean): ArgsDecoder =>
+  (accounts, args) => {
+    const tail = args.length - 19;
+    const amount = u64(args, tail);
+    const quoted = u64(args, tail + 8);
+    const slippageBps = args.readUInt16LE(tail + 16);
+    const platformFeeBps = args[tail + 18];
+    const dest = destination(accounts);
+    const [inAmount, outAmount] = exactOut ? [quoted, amount] : [amount, quoted];
+    return {
+      args: {
+        [exactOut ? 'outAmount' : 'inAmount']: amount.toString(),
+        [exactOut ? 'quotedInAmount' : 'quotedOutAmount']: quoted.toString(),
+        slippageBps,
+        platformFeeBps,
+      },
+      flows: [
+        { from: accounts[source], to: JUPITER_V6_PROGRAM_ID, mintFrom: accounts[source], amount: inAmount, bound: exactOut ? 'quoted' : 'exact' },
+        { from: JUPITER_V6_PROGRAM_ID, to: dest, mintFrom: dest, amount: outAmount, bound: exactOut ? 'exact' : 'quoted' },
+      ],
+      describe: (a) => `Swap ${a[0]} for ${a[1]} via Jupiter (slippage ${slippageBps / 100}%)`,
+    };
+  };
+
+// route: [token_program, authority, user_source, user_destination, destination_token_account (optional), ...]
+const routeDestination = (accounts: string[]) => accounts[4] && accounts[4] !== JUPITER_V6_PROGRAM_ID ? accounts[4] : accounts[3];
+// shared accounts: [token_program, program_authority, authority, source, program_source, program_destination, destination, ...]
+const sharedDestination = (accounts: string[]) => accounts[6];
+
+const jupiter = anchorDecoder({
+  route: jupiterRoute(2, routeDestination, false),
+  exact_out_route: jupiterRoute(2, routeDestination, true),
+  shared_accounts_route: jupiterRoute(3, sharedDestination, false),
+  shared_accounts_exact_out_route: jupiterRoute(3, sharedDestination, true),
+  route_with_token_ledger: named('Swap via Jupiter (amount from token ledger)'),
+  shared_accounts_route_with_token_ledger: named('Swap via Jupiter (amount from token ledger)'),
+  set_token_ledger: named('Record token balance for the next swap'),
+  create_open_orders: named('Create open orders account'),
+});
+
+// ============ Meteora DAMM v2 ============
+
+const damm = anchorDecoder({
+  create_position: named('Open a position'),
+  add_liquidity: named('Deposit into the position'),
+  remove_liquidity: named('Withdraw from the position'),
+  remove_all_liquidity: named('Withdraw all liquidity from the position'),
+  claim_position_fee: named('Claim swap fees'),
+  claim_reward: named('Claim rewards'),
+  close_position: named('Close the position, rent back to the wallet'),
+  swap: named('Swap'),
+  swap2: named('Swap'),
+});
+
+// ============ Native programs ============
+
+const SYSTEM_INSTRUCTIONS = [
+  'createAccount', 'assign', 'transfer', 'createAccountWithSeed', 'advanceNonceAccount',
+  'withdrawNonceAccount', 'initializeNonceAccount', 'authorizeNonceAccount', 'allocate',
+  'allocateWithSeed', 'assignWithSeed', 'transferWithSeed', 'upgradeNonceAccount',
+];
+
+const system: Decoder = (accounts, data) => {
+  if (data.length < 4) return { name: 'unknown' };
+  const index = data.readUInt32LE(0);
+  const name = SYSTEM_INSTRUCTIONS[index] ?? 'unknown';
+  if (name === 'transfer' && data.length >= 12) {
+    return {
+      name,
+      flows: [{ from: accounts[0], to: accounts[1], mint: SOL_MINT, amount: u64(data, 4), bound: 'exact' }],
+      describe: (a) => `Send ${a[0]} to ${short(accounts[1])}`,
+    };
+  }
+  if (name === 'transferWithSeed' && data.length >= 12) {
+    return {
+      name,
+      flows: [{ from: accounts[1], to: accounts[2], mint: SOL_MINT, amount: u64(data, 4), bound: 'exact' }],
+      describe: (a) => `Send ${a[0]} to ${short(accounts[2])}`,
+    };
+  }
+  if (name === 'createAccount' && data.length >= 52) {
+    const owner = new PublicKey(data.subarray(20, 52)).toBase58();
+    return {
+      name,
+      flows: [{ from: accounts[0], to: accounts[1], mint: SOL_MINT, amount: u64(data, 4), bound: 'exact' }],
+      describe: (a) => `Create account ${short(accounts[1])} owned by ${PROGRAMS[owner]?.name ?? short(owner)}, funded with ${a[0]}`,
+    };
+  }
+  return { name };
+};
+
+const TOKEN_INSTRUCTIONS = [
+  'initializeMint', 'initializeAccount', 'initializeMultisig', 'transfer', 'approve', 'revoke',
+  'setAuthority', 'mintTo', 'burn', 'closeAccount', 'freezeAccount', 'thawAccount',
+  'transferChecked', 'approveChecked', 'mintToChecked', 'burnChecked', 'initializeAccount2',
+  'syncNative', 'initializeAccount3', 'initializeMultisig2', 'initializeMint2',
+  'getAccountDataSize', 'initializeImmutableOwner', 'amountToUiAmount', 'uiAmountToAmount',
+  'initializeMintCloseAuthority', 'transferFeeExtension',
+];
+
+const token: Decoder = (accounts, data) => {
+  if (data.length === 0) return { name: 'unknown' };
+  const name = TOKEN_INSTRUCTIONS[data[0]] ?? 'unknown';
+  switch (name) {
+    case 'transfer':
+      // [source, destination, authority]
+      return {
+        name,
+        flows: [{ from: accounts[0], to: accounts[1], mintFrom: accounts[0], amount: u64(data, 1), bound: 'exact' }],
+        describe: (a) => `Transfer ${a[0]}`,
+      };
+    case 'transferChecked':
+      // [source, mint, destination, authority]
+      return {
+        name,
+        flows: [{ from: accounts[0], to: accounts[2], mint: accounts[1], amount: u64(data, 1), bound: 'exact' }],
+        describe: (a) => `Transfer ${a[0]}`,
+      };
+    case 'transferFeeExtension':
+      // Sub-instruction 1: TransferCheckedWithFee, same accounts as transferChecked
+      if (data[1] !== 1) return { name };
+      return {
+        name: 'transferCheckedWithFee',
+        flows: [{ from: accounts[0], to: accounts[2], mint: accounts[1], amount: u64(data, 2), bound: 'exact' }],
+        describe: (a) => `Transfer ${a[0]} (Token-2022 transfer fee applies)`,
+      };
+    case 'initializeAccount':
+      // [account, mint, owner, rent]
+      return { name, creates: [{ address: accounts[0], mint: accounts[1], owner: accounts[2] }] };
+    case 'initializeAccount2':
+    case 'initializeAccount3':
+      // [account, mint, ...]; owner in data
+      return {
+        name,
+        creates: [{ address: accounts[0], mint: accounts[1], owner: new PublicKey(data.subarray(1, 33)).toBase58() }],
+      };
+    case 'closeAccount':
+      return { name, describe: () => `Close token account ${short(accounts[0])}, rent to ${short(accounts[1])}` };
+    case 'syncNative':
+      return { name, describe: () => 'Sync wrapped SOL balance' };
+    default:
+      return { name };
+  }
+};
+
+const associatedToken: Decoder = (accounts, data) => {
+  // [payer, ata, owner, mint, system, token_program]
+  const name = data.length === 0 || data[0] === 0 ? 'create' : data[0] === 1 ? 'createIdempotent' : 'recoverNested';
+  if (name === 'recoverNested') return { name };
+  return {
+    name,
+    creates: [{ address: accounts[1], owner: accounts[2], mint: accounts[3] }],
+    describe: () => `Create token account ${short(accounts[1])} if missing (rent)`,
+  };
+};
+
+const computeBudget: Decoder = (_accounts, data) => {
+  switch (data[0]) {
+    case 1:
+      return { name: 'requestHeapFrame' };
+    case 2: {
+      const unitLimit = data.readUInt32LE(1);
+      return { name: 'setComputeUnitLimit', compute: { unitLimit }, describe: () => `Compute limit ${unitLimit.toLocaleString('en-US')} units` };
+    }
+    case 3: {
+      const unitPriceMicroLamports = Number(u64(data, 1));
+      return {
+        name: 'setComputeUnitPrice',
+        compute: { unitPriceMicroLamports },
+        describe: () => `Priority fee ${unitPriceMicroLamports.toLocaleString('en-US')} micro-lamports per unit`,
+      };
+    }
+    case 4:
+      return { name: 'setLoadedAccountsDataSizeLimit' };
+    default:
+      return { name: 'unknown' };
+  }
+};
+
+const memo: Decoder = (_accounts, data) => {
+  const text = data.toString('utf8');
+  return { name: 'memo', describe: () => `Memo "${text.length > 60 ? `${text.slice(0, 57)}...` : text}"` };
+};
+
+export const PROGRAMS: Record<string, { name: string; decode: Decoder }> = {
+  [SystemProgram.programId.toBase58()]: { name: 'System', decode: system },
+  [ComputeBudgetProgram.programId.toBase58()]: { name: 'Compute Budget', decode: computeBudget },
+  [TOKEN_PROGRAM_ID.toBase58()]: { name: 'SPL Token', decode: token },
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: { name: 'Token-2022', decode: token },
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: { name: 'Associated Token Account', decode: associatedToken },
+  [MEMO_PROGRAM_IDS[0]]: { name: 'Memo', decode: memo },
+  [MEMO_PROGRAM_IDS[1]]: { name: 'Memo (v1)', decode: memo },
+  [LBCLMM_PROGRAM_IDS['mainnet-beta']]: { name: 'Meteora DLMM', decode: dlmm },
+  [DAMM_V2_PROGRAM_ID.toBase58()]: { name: 'Meteora DAMM v2', decode: damm },
+  [ORCA_WHIRLPOOL_PROGRAM_ID.toBase58()]: { name: 'Orca Whirlpool', decode: orca },
+  [RAYDIUM_CLMM_PROGRAM_ID.toBase58()]: { name: 'Raydium CLMM', decode: raydium },
+  [JUPITER_V6_PROGRAM_ID]: { name: 'Jupiter v6', decode: jupiter },
+};
+
+/**
+ * Decode one instruction; null for programs we don't know
+ */
+export function decodeInstruction(programId: string, accounts: string[], data: Buffer): InstructionDecoding | null {
+  const program = PROGRAMS[programId];
+  if (!program) return null;
+  try {
+    return program.decode(accounts, data);
+  } catch (error) {
+    // Native instruction data shorter than its layout
+    if (error instanceof RangeError) return { name: 'unknown' };
+    throw error;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Transaction Inspector Types
+ */
+
+/**
+ * Tokens an instruction moves between two accounts. Endpoints are token
+ * accounts or wallets; they're resolved to owners for the deltas. How
+ * sure the amount is:
+ * - exact: moved as encoded (transfers, tips, swap inputs)
+ * - quoted: the quote the route was built for (swap outputs)
+ * - max / min: a slippage bound (deposits, withdrawals)
+ */
+export interface TokenFlow {
+  from: string;
+  to: string;
+  /** Mint, or a token account to read it from */
+  mint?: string;
+  mintFrom?: string;
+  amount: bigint;
+  bound: 'exact' | 'quoted' | 'max' | 'min';
+}
+
+export interface DecodedInstruction {
+  programId: string;
+  /** Program name, or the id for programs we don't know */
+  program: string;
+  /** Instruction name, 'unknown' when the program is known but the instruction isn't */
+  name: string;
+  /** One line for people, e.g. "Swap 1.5 SOL for at least 210.3 USDC" */
+  summary: string;
+  /** Decoded arguments we read (amounts as strings) */
+  args?: Record<string, string | number | boolean>;
+}
+
+export interface TokenDelta {
+  /** Wallet, program or account the balance belongs to */
+  owner: string;
+  /** 'wallet' for the signing wallet, 'treasury', 'jito-tip', or 'other' */
+  role: 'wallet' | 'treasury' | 'jito-tip' | 'other';
+  mint: string;
+  symbol: string;
+  /** Signed, in base units */
+  rawAmount: string;
+  /** Signed, in UI units */
+  amount: number;
+  /** False when any part is a quote or slippage bound */
+  exact: boolean;
+}
+
+export interface TransactionPreview {
+  index: number;
+  feePayer: string;
+  /** Accounts that must sign besides the fee payer (e.g. new position keypairs) */
+  otherSigners: string[];
+  programs: Array<{ id: string; name: string }>;
+  instructions: DecodedInstruction[];
+  deltas: TokenDelta[];
+  treasuryFees: Array<{ mint: string; symbol: string; amount: number }>;
+  tips: Array<{ account: string; lamports: number }>;
+  compute: {
+    unitLimit: number | null;
+    unitPriceMicroLamports: number | null;
+    /** unitLimit * unitPrice; the 5000-lamport signature fee comes on top */
+    priorityFeeLamports: number;
+  };
+  /** Instructions from programs we don't know, accounts we couldn't read */
+  warnings: string[];
+}
+
+export interface BundlePreview {
+  walletAddress: string;
+  transactions: TransactionPreview[];
+  /** The wallet's deltas over all transactions */
+  walletDeltas: TokenDelta[];
+  treasuryFees: Array<{ mint: string; symbol: string; amount: number }>;
+  tipLamports: number;
+  priorityFeeLamports: number;
+  programs: Array<{ id: string; name: string }>;
+  warnings: string[];
+}
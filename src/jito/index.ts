@@ -3,6 +3,7 @@
  * 
  * Enables atomic transaction bundles via Jito block engine.
  * Swap + LP happens atomically - either all succeed or all fail.
+ * Bundles are simulated against the builder's quote first (simulation.ts).
  */
 
 import { 
@@ -11,46 +12,65 @@ import {
   SystemProgram, 
   TransactionMessage, 
   VersionedTransaction,
-  LAMPORTS_PER_SOL,
 } from '@solana/web3.js';
+import bs58 from 'bs58';
 import { config } from '../config/index.js';
+import { noteBundleSubmitted, noteBundleResult, noteTipEstimate } from '../journal/store.js';
+import {
+  estimateTip,
+  JITO_TIP_ACCOUNTS,
+  rememberBundleTip,
+  recordTipOutcome,
+  STATIC_TIP_LAMPORTS,
+  type TipEstimate,
+  type TipSpeed,
+} from './tips.js';
+import { simulateTransactions, type SimulationExpectation, type SimulationReport } from './simulation.js';
 
-const JITO_BLOCK_ENGINE_URL = 'https://mainnet.block-engine.jito.wtf';
 const JITO_API_KEY = process.env.JITO_API_KEY || '';
-const JITO_TIP_ACCOUNTS = [
-  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
-  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
-  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
-  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
-  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
-  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
-  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
-  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
-];
 
-export type TipSpeed = 'low' | 'medium' | 'fast' | 'extraFast';
+export type { TipSpeed, TipEstimate, TipEstimateRequest } from './tips.js';
+export { estimateTip, JITO_TIP_ACCOUNTS } from './tips.js';
+export type {
+  SimulationExpectation,
+  SimulationReport,
+  SimulationResult,
+  SimulationCheck,
+  TransactionSimulation,
+  BalanceChange,
+  PositionChange,
+} from './simulation.js';
+export { simulateTransactions, expectedWithdrawals } from './simulation.js';
 
-const TIP_LAMPORTS: Record<TipSpeed, number> = {
-  low: Math.round(0.0005 * LAMPORTS_PER_SOL),      // 0.0005 SOL
-  medium: Math.round(0.001 * LAMPORTS_PER_SOL),    // 0.001 SOL
-  fast: Math.round(0.0025 * LAMPORTS_PER_SOL),     // 0.0025 SOL
-  extraFast: Math.round(0.005 * LAMPORTS_PER_SOL), // 0.005 SOL
-};
+/**
+ * Static tip for a speed tier (cost estimates; bundles use estimateTip)
+ */
+export function getTipLamports(speed: TipSpeed): number {
+  return STATIC_TIP_LAMPORTS[speed];
+}
+
+// Waits at least this long that see nothing count as a dropped bundle
+const DROPPED_AFTER_MS = 30000;
 
 function getRandomTipAccount(): string {
   return JITO_TIP_ACCOUNTS[Math.floor(Math.random() * JITO_TIP_ACCOUNTS.length)];
 }
 
 /**
- * Build a Jito tip transaction
+ * Build a Jito tip transaction sized by the tip estimator
  */
-export function buildTipTransaction(params: {
+export async function buildTipTransaction(params: {
   payerAddress: string;
   recentBlockhash: string;
   speed?: TipSpeed;
-}): { transaction: VersionedTransaction; tipLamports: number } {
-  const { payerAddress, recentBlockhash, speed = 'fast' } = params;
-  const tipLamports = TIP_LAMPORTS[speed];
+  valueLamports?: number;
+  attempt?: number;
+}): Promise<{ transaction: VersionedTransaction; tipLamports: number; estimate: TipEstimate }> {
+  const { payerAddress, recentBlockhash, speed = 'fast', valueLamports, attempt } = params;
+  const estimate = await estimateTip({ speed, valueLamports, attempt, payerAddress });
+  const tipLamports = estimate.tipLamports;
+  console.log(`[Jito] Tip ${tipLamports} lamports (${estimate.source}, p=${estimate.targetProbability}, attempt ${estimate.attempt}${estimate.capped ? ', capped' : ''})`);
+  await noteTipEstimate(estimate);
   const tipAccount = new PublicKey(getRandomTipAccount());
   const payer = new PublicKey(payerAddress);
 
@@ -69,9 +89,44 @@ export function buildTipTransaction(params: {
   return {
     transaction: new VersionedTransaction(message),
     tipLamports,
+    estimate,
   };
 }
 
+/**
+ * Signatures and total tip of a bundle of base64 signed transactions.
+ * Tips are SystemProgram transfers to any Jito tip account.
+ */
+export function describeBundle(signedTransactions: string[]): { signatures: string[]; tipLamports: number; payer?: string } {
+  const signatures: string[] = [];
+  let tipLamports = 0;
+  let payer: string | undefined;
+
+  for (const encoded of signedTransactions) {
+    try {
+      const tx = VersionedTransaction.deserialize(Buffer.from(encoded, 'base64'));
+      if (tx.signatures[0]) signatures.push(bs58.encode(tx.signatures[0]));
+
+      const keys = tx.message.staticAccountKeys;
+      payer = payer || keys[0]?.toBase58();
+      for (const ix of tx.message.compiledInstructions) {
+        if (!keys[ix.programIdIndex]?.equals(SystemProgram.programId)) continue;
+        const data = Buffer.from(ix.data);
+        // Transfer = instruction index 2, followed by u64 lamports
+        if (data.length < 12 || data.readUInt32LE(0) !== 2) continue;
+        const destination = keys[ix.accountKeyIndexes[1]]?.toBase58();
+        if (destination && JITO_TIP_ACCOUNTS.includes(destination)) {
+          tipLamports += Number(data.readBigUInt64LE(4));
+        }
+      }
+    } catch {
+      // Not a versioned transaction we can read - leave it out
+    }
+  }
+
+  return { signatures, tipLamports, payer };
+}
+
 /**
  * Send a bundle of transactions via Jito block engine
  */
@@ -87,7 +142,7 @@ export async function sendBundle(
     headers['x-jito-auth'] = JITO_API_KEY;
   }
 
-  const response = await fetch(`${JITO_BLOCK_ENGINE_URL}/api/v1/bundles`, {
+  const response = await fetch(`${config.jito.blockEngineUrl}/api/v1/bundles`, {
     method: 'POST',
     headers,
     body: JSON.stringify({
@@ -113,87 +168,21 @@ export async function sendBundle(
     throw new Error('Jito sendBundle returned no result');
   }
 
+  const { signatures, tipLamports, payer } = describeBundle(signedTransactions);
+  await rememberBundleTip(json.result, tipLamports, payer);
+  await noteBundleSubmitted(json.result, { signatures, tipLamports });
   return { bundleId: json.result };
 }
 
 /**
- * Simulate transactions before sending to Jito
- * 
- * NOTE: For atomic bundles (swap→LP), later transactions depend on earlier ones.
- * We only hard-fail on the FIRST transaction. Subsequent tx failures are logged
- * but treated as "expected" since they may depend on prior tx outputs.
- */
-export async function simulateTransactions(
-  signedTransactions: string[]
-): Promise<{ success: boolean; errors: string[] }> {
-  const rpcUrl = config.solana?.rpc || 'https://api.mainnet-beta.solana.com';
-  const connection = new Connection(rpcUrl, 'confirmed');
-  const errors: string[] = [];
-  let firstTxFailed = false;
-
-  for (let i = 0; i < signedTransactions.length; i++) {
-    try {
-      const txBuf = Buffer.from(signedTransactions[i], 'base64');
-      const tx = VersionedTransaction.deserialize(txBuf);
-      
-      const result = await connection.simulateTransaction(tx, {
-        sigVerify: false, // Skip sig verify since some might be partial
-        replaceRecentBlockhash: true, // Use latest blockhash for simulation
-      });
-
-      if (result.value.err) {
-        const errStr = typeof result.value.err === 'string' 
-          ? result.value.err 
-          : JSON.stringify(result.value.err);
-        
-        // Check if this is an "insufficient funds" error that might be due to dependency
-        const isInsufficientFunds = errStr.includes('Custom":1') || errStr.includes('insufficient');
-        
-        if (i === 0) {
-          // First transaction failure is always a real error
-          console.log(`[Jito] ❌ Tx ${i + 1} simulation failed: ${errStr}`);
-          firstTxFailed = true;
-          errors.push(`Tx ${i + 1}: ${errStr}`);
-        } else if (isInsufficientFunds) {
-          // Later txs failing with "insufficient funds" likely depend on prior swaps
-          console.log(`[Jito] ⚠️ Tx ${i + 1} simulation failed (likely depends on prior tx): ${errStr}`);
-          // Don't add to errors - this is expected for atomic bundles
-        } else {
-          // Other errors on later txs are still reported
-          console.log(`[Jito] ❌ Tx ${i + 1} simulation failed: ${errStr}`);
-          errors.push(`Tx ${i + 1}: ${errStr}`);
-        }
-        
-        if (result.value.logs) {
-          const relevantLogs = result.value.logs.filter(l => 
-            l.includes('Error') || l.includes('failed') || l.includes('insufficient')
-          );
-          if (relevantLogs.length > 0) {
-            console.log(`[Jito] Relevant logs: ${relevantLogs.join('\n')}`);
-          }
-        }
-      } else {
-        console.log(`[Jito] ✅ Tx ${i + 1} simulation passed`);
-      }
-    } catch (e: any) {
-      console.log(`[Jito] ⚠️ Tx ${i + 1} simulation error: ${e.message}`);
-      if (i === 0) {
-        errors.push(`Tx ${i + 1}: ${e.message}`);
-      }
-    }
-  }
-
-  return { success: errors.length === 0, errors };
-}
-
-/**
- * Send bundle with pre-flight simulation
+ * Send bundle with pre-flight simulation, held to what the builder quoted
  */
 export async function sendBundleWithSimulation(
-  signedTransactions: string[]
-): Promise<{ bundleId: string; simulated: boolean }> {
+  signedTransactions: string[],
+  expected?: SimulationExpectation,
+): Promise<{ bundleId: string; simulated: boolean; simulation: SimulationReport }> {
   // First simulate all transactions
-  const simResult = await simulateTransactions(signedTransactions);
+  const simResult = await simulateTransactions(signedTransactions, expected);
   
   if (!simResult.success) {
     throw new Error(`Bundle simulation failed:\n${simResult.errors.join('\n')}`);
@@ -201,7 +190,7 @@ export async function sendBundleWithSimulation(
 
   // If simulation passes, send to Jito
   const result = await sendBundle(signedTransactions);
-  return { ...result, simulated: true };
+  return { ...result, simulated: true, simulation: simResult.report };
 }
 
 /**
@@ -220,7 +209,7 @@ export async function waitForBundle(
       statusHeaders['x-jito-auth'] = JITO_API_KEY;
     }
 
-    const response = await fetch(`${JITO_BLOCK_ENGINE_URL}/api/v1/getBundleStatuses`, {
+    const response = await fetch(`${config.jito.blockEngineUrl}/api/v1/getBundleStatuses`, {
       method: 'POST',
       headers: statusHeaders,
       body: JSON.stringify({
@@ -249,12 +238,15 @@ export async function waitForBundle(
           // {"Ok": null} is Solana success - not an error
           const isSuccess = !bundle.err || (bundle.err && 'Ok' in bundle.err);
           if (isSuccess) {
+            await recordTipOutcome(bundleId, true);
+            await noteBundleResult(bundleId, { landed: true, slot: bundle.slot });
             return { landed: true, slot: bundle.slot };
           }
         }
         // Only treat as error if err exists and is NOT {"Ok": null}
         if (bundle.err && !('Ok' in bundle.err)) {
           console.log(`[Jito] ❌ Bundle failed with error: ${JSON.stringify(bundle.err)}`);
+          await noteBundleResult(bundleId, { landed: false, slot: bundle.slot, error: JSON.stringify(bundle.err) });
           return { landed: false, error: JSON.stringify(bundle.err) };
         }
       }
@@ -264,11 +256,17 @@ export async function waitForBundle(
     await new Promise(r => setTimeout(r, intervalMs));
   }
 
+  // A bundle still unseen after a full wait was dropped - count it against its tip
+  if (timeoutMs >= DROPPED_AFTER_MS) {
+    await recordTipOutcome(bundleId, false);
+  }
   return { landed: false, error: `Timeout after ${timeoutMs}ms` };
 }
 
 export default {
   buildTipTransaction,
+  estimateTip,
+  describeBundle,
   sendBundle,
   waitForBundle,
 };
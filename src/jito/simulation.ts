@@ -0,0 +1,673 @@
+/**
+ * Bundle Simulation
+ *
+ * Every bundle is simulated before it is sent, and the simulation is read
+ * for what the bundle would do to the wallet: its SOL and token balances
+ * before and after each transaction, what each swap returns, liquidity
+ * added to or removed from positions, rent locked in new accounts, and
+ * compute units. The outcome is held to what the builder quoted:
+ * - swap outputs and withdrawals may fall short of the quote by at most
+ *   the tolerance
+ * - deposits may differ from the planned amounts by at most the tolerance
+ * Anything further off fails the simulation with "<what> deviates from
+ * the quote" (classifyError -> LP_SIMULATION_DEVIATION) and nothing is sent.
+ *
+ * With a Jito RPC (config.simulation.bundleRpcUrl) the bundle runs in
+ * sequence through simulateBundle, so later transactions see what earlier
+ * ones did. Otherwise each transaction is simulated against the current
+ * state: later ones that fail only for lack of an earlier transaction's
+ * output are skipped, and the checks that needed them are reported as
+ * unverified rather than passed. An RPC error is a failure either way.
+ */
+
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  VersionedTransaction,
+  type AccountInfo,
+  type Connection,
+} from '@solana/web3.js';
+import { NATIVE_MINT, unpackAccount } from '@solana/spl-token';
+import { LBCLMM_PROGRAM_IDS } from '@meteora-ag/dlmm';
+import { ORCA_WHIRLPOOL_PROGRAM_ID } from '@orca-so/whirlpools-sdk';
+import { config } from '../config/index.js';
+import { createConnection } from '../services/connection-pool.js';
+import { DAMM_V2_PROGRAM_ID } from '../damm/client.js';
+import { RAYDIUM_CLMM_PROGRAM_ID } from '../raydium/client.js';
+import { loadLookupTables } from '../inspector/accounts.js';
+import { getMintProfile } from '../utils/token-extensions.js';
+import { getSymbol } from '../utils/token-metadata.js';
+import { JITO_TIP_ACCOUNTS } from './tips.js';
+import type { LpExitFlows, SwapFlow, TokenFlow } from '../ledger/types.js';
+
+const SOL_MINT = NATIVE_MINT.toBase58();
+const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+const SIGNATURE_FEE_LAMPORTS = 5000;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+const MULTIPLE_ACCOUNTS_LIMIT = 100;
+const NOT_EXECUTED = 'Not executed: an earlier transaction failed';
+
+/** What the builder quoted; amounts in UI units, as in the ledger flows */
+export interface SimulationExpectation {
+  /** Defaults to the first transaction's fee payer */
+  walletAddress?: string;
+  swaps?: SwapFlow[];
+  /** Planned into positions */
+  deposits?: TokenFlow[];
+  /** Expected out of positions, net of the protocol fee */
+  withdrawals?: TokenFlow[];
+  /** Defaults to config.simulation.toleranceBps */
+  toleranceBps?: number;
+}
+
+export interface BalanceChange {
+  account: string;
+  mint: string;
+  symbol: string;
+  /** The wallet's own lamports rather than a token account */
+  native: boolean;
+  /** Base units */
+  pre: string;
+  post: string;
+  /** Signed, in UI units; null when the mint's decimals couldn't be read */
+  change: number | null;
+}
+
+export interface PositionChange {
+  address: string;
+  program: string;
+  liquidityBefore: string;
+  liquidityAfter: string;
+}
+
+export interface TransactionSimulation {
+  index: number;
+  /** skipped: depends on an earlier transaction's output, or never ran */
+  status: 'passed' | 'failed' | 'skipped';
+  error?: string;
+  computeUnits: number | null;
+  /** Signature and priority fees */
+  feeLamports: number;
+  /** Locked in accounts the transaction creates, less what closing accounts returns */
+  rentLamports: number;
+  tipLamports: number;
+  balances: BalanceChange[];
+  positions: PositionChange[];
+}
+
+export interface SimulationCheck {
+  kind: 'swap-output' | 'deposit' | 'withdrawal';
+  mint: string;
+  symbol: string;
+  expected: number;
+  /** null when the transactions involved weren't simulated */
+  actual: number | null;
+  deviationBps: number | null;
+  /** unverified: the transactions involved weren't simulated, so there was nothing to compare */
+  status: 'passed' | 'failed' | 'unverified';
+  transactions: number[];
+}
+
+export interface SimulationReport {
+  /** bundle: in sequence; per-transaction: each against the current state */
+  mode: 'bundle' | 'per-transaction';
+  walletAddress: string;
+  toleranceBps: number;
+  transactions: TransactionSimulation[];
+  /** The wallet's net balance changes over the simulated transactions */
+  walletChanges: Array<{ mint: string; symbol: string; change: number }>;
+  positions: PositionChange[];
+  checks: SimulationCheck[];
+  computeUnits: number;
+  feeLamports: number;
+  rentLamports: number;
+  tipLamports: number;
+  /** Every check passed. Unverified checks don't stop the bundle, but make this false. */
+  withinTolerance: boolean;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  errors: string[];
+  report: SimulationReport;
+}
+
+interface RawAccount {
+  lamports: number;
+  owner: string;
+  data: Buffer;
+}
+
+interface SimulatedTransaction {
+  err: string | null;
+  /** The simulation itself failed (RPC error), not the transaction */
+  thrown?: boolean;
+  logs: string[];
+  unitsConsumed: number | null;
+  pre: Map<string, RawAccount | null>;
+  /** null when the transaction failed or never ran */
+  post: Map<string, RawAccount | null> | null;
+}
+
+// ============ Positions ============
+
+function u128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+/** Position accounts by program: Anchor discriminator and where liquidity is kept */
+const POSITION_LAYOUTS: Record<string, { program: string; discriminator: number[]; size: number; liquidity: (data: Buffer) => bigint }> = {
+  // PositionV2: lb_pair, owner, liquidity_shares: [u128; 70]
+  [LBCLMM_PROGRAM_IDS['mainnet-beta']]: {
+    program: 'Meteora DLMM',
+    discriminator: [117, 176, 212, 199, 245, 180, 133, 182],
+    size: 72 + 16 * 70,
+    liquidity: (data) => {
+      let total = 0n;
+      for (let i = 0; i < 70; i++) total += u128(data, 72 + 16 * i);
+      return total;
+    },
+  },
+  // Position: whirlpool, position_mint, liquidity
+  [ORCA_WHIRLPOOL_PROGRAM_ID.toBase58()]: {
+    program: 'Orca Whirlpool',
+    discriminator: [170, 188, 143, 228, 122, 64, 247, 208],
+    size: 88,
+    liquidity: (data) => u128(data, 72),
+  },
+  // PersonalPositionState: bump, nft_mint, pool_id, tick_lower, tick_upper, liquidity
+  [RAYDIUM_CLMM_PROGRAM_ID.toBase58()]: {
+    program: 'Raydium CLMM',
+    discriminator: [70, 111, 150, 126, 230, 15, 25, 117],
+    size: 97,
+    liquidity: (data) => u128(data, 81),
+  },
+  // Position: pool, nft_mint, fee checkpoints and pending fees, then unlocked,
+  // vested and permanently locked liquidity
+  [DAMM_V2_PROGRAM_ID.toBase58()]: {
+    program: 'Meteora DAMM v2',
+    discriminator: [170, 188, 143, 228, 122, 64, 247, 208],
+    size: 200,
+    liquidity: (data) => u128(data, 152) + u128(data, 168) + u128(data, 184),
+  },
+};
+
+function positionLiquidity(account: RawAccount | null): { program: string; liquidity: bigint } | null {
+  const layout = account && POSITION_LAYOUTS[account.owner];
+  if (!account || !layout || account.data.length < layout.size) return null;
+  if (!layout.discriminator.every((byte, i) => account.data[i] === byte)) return null;
+  return { program: layout.program, liquidity: layout.liquidity(account.data) };
+}
+
+// ============ Accounts ============
+
+function fromAccountInfo(info: AccountInfo<Buffer> | null): RawAccount | null {
+  if (!info || info.lamports === 0) return null;
+  return { lamports: info.lamports, owner: info.owner.toBase58(), data: info.data };
+}
+
+/** Accounts as simulateTransaction and simulateBundle return them */
+function fromUiAccount(account: { lamports: number; owner: string; data: string[] | [string, string] } | null | undefined): RawAccount | null {
+  if (!account || account.lamports === 0) return null;
+  return { lamports: account.lamports, owner: account.owner, data: Buffer.from(account.data[0], 'base64') };
+}
+
+function tokenState(address: string, account: RawAccount | null) {
+  if (!account) return null;
+  try {
+    const owner = new PublicKey(account.owner);
+    const token = unpackAccount(new PublicKey(address), { ...account, owner, executable: false }, owner);
+    return { owner: token.owner.toBase58(), mint: token.mint.toBase58(), amount: token.amount, isNative: token.isNative };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Accounts each transaction can write: the only ones whose balances change
+ */
+async function writableAccounts(connection: Connection, txs: VersionedTransaction[]): Promise<string[][]> {
+  return Promise.all(txs.map(async (tx) => {
+    const addressLookupTableAccounts = await loadLookupTables(connection, tx);
+    const keys = tx.message.getAccountKeys({ addressLookupTableAccounts });
+    const writable: string[] = [];
+    for (let i = 0; i < keys.length; i++) {
+      if (tx.message.isAccountWritable(i)) writable.push(keys.get(i)!.toBase58());
+    }
+    return writable;
+  }));
+}
+
+/**
+ * Signature fees plus the priority fee the compute budget asks for
+ */
+function networkFeeLamports(tx: VersionedTransaction): number {
+  const keys = tx.message.staticAccountKeys;
+  let unitLimit: number | null = null;
+  let unitPrice = 0n;
+  let instructions = 0;
+  for (const ix of tx.message.compiledInstructions) {
+    if (keys[ix.programIdIndex]?.toBase58() !== COMPUTE_BUDGET_PROGRAM_ID) {
+      instructions++;
+      continue;
+    }
+    const data = Buffer.from(ix.data);
+    if (data[0] === 2 && data.length >= 5) unitLimit = data.readUInt32LE(1);
+    if (data[0] === 3 && data.length >= 9) unitPrice = data.readBigUInt64LE(1);
+  }
+  const units = unitLimit ?? Math.min(DEFAULT_UNITS_PER_INSTRUCTION * instructions, MAX_COMPUTE_UNITS);
+  const priority = Number((BigInt(units) * unitPrice + 999_999n) / 1_000_000n);
+  return tx.message.header.numRequiredSignatures * SIGNATURE_FEE_LAMPORTS + priority;
+}
+
+// ============ Simulation ============
+
+/**
+ * Run the transactions in sequence on a Jito RPC
+ */
+async function simulateInSequence(signedTransactions: string[], addresses: string[][]): Promise<SimulatedTransaction[]> {
+  const accountsConfigs = addresses.map(list => ({ addresses: list, encoding: 'base64' }));
+  const response = await fetch(config.simulation.bundleRpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'simulateBundle',
+      params: [
+        { encodedTransactions: signedTransactions },
+        {
+          transactionEncoding: 'base64',
+          skipSigVerify: true,
+          replaceRecentBlockhash: true,
+          preExecutionAccountsConfigs: accountsConfigs,
+          postExecutionAccountsConfigs: accountsConfigs,
+        },
+      ],
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`simulateBundle failed: HTTP ${response.status}`);
+  }
+
+  type UiAccount = Parameters<typeof fromUiAccount>[0];
+  const json = await response.json() as {
+    error?: { message: string };
+    result?: { value?: {
+      summary: 'succeeded' | { failed?: { error: unknown } };
+      transactionResults: Array<{
+        err: unknown;
+        logs: string[] | null;
+        unitsConsumed?: number;
+        preExecutionAccounts: UiAccount[] | null;
+        postExecutionAccounts: UiAccount[] | null;
+      }>;
+    } };
+  };
+  if (json.error) throw new Error(`simulateBundle failed: ${json.error.message}`);
+  const value = json.result?.value;
+  if (!value) throw new Error('simulateBundle returned no result');
+
+  // The failing transaction may be reported only in the summary
+  let summaryError = typeof value.summary === 'object' && value.summary.failed
+    ? JSON.stringify(value.summary.failed.error)
+    : null;
+
+  return signedTransactions.map((_, i) => {
+    const result = value.transactionResults[i];
+    const pre = new Map(addresses[i].map((a, j) => [a, fromUiAccount(result?.preExecutionAccounts?.[j])] as const));
+    if (!result) {
+      const err = summaryError ?? NOT_EXECUTED;
+      summaryError = null;
+      return { err, logs: [], unitsConsumed: null, pre, post: null };
+    }
+    const err = result.err ? JSON.stringify(result.err) : null;
+    if (err) summaryError = null;
+    return {
+      err,
+      logs: result.logs || [],
+      unitsConsumed: result.unitsConsumed ?? null,
+      pre,
+      post: err ? null : new Map(addresses[i].map((a, j) => [a, fromUiAccount(result.postExecutionAccounts?.[j])] as const)),
+    };
+  });
+}
+
+/**
+ * Simulate each transaction on its own against the current state
+ */
+async function simulateEach(
+  connection: Connection,
+  txs: VersionedTransaction[],
+  addresses: string[][],
+): Promise<SimulatedTransaction[]> {
+  const current = new Map<string, RawAccount | null>();
+  const all = [...new Set(addresses.flat())];
+  for (let i = 0; i < all.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+    const batch = all.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT);
+    const infos = await connection.getMultipleAccountsInfo(batch.map(a => new PublicKey(a)));
+    batch.forEach((address, j) => current.set(address, fromAccountInfo(infos[j])));
+  }
+
+  const results: SimulatedTransaction[] = [];
+  for (let i = 0; i < txs.length; i++) {
+    const pre = new Map(addresses[i].map(a => [a, current.get(a) ?? null] as const));
+    try {
+      const { value } = await connection.simulateTransaction(txs[i], {
+        sigVerify: false, // Skip sig verify since some might be partial
+        replaceRecentBlockhash: true, // Use latest blockhash for simulation
+        accounts: { encoding: 'base64', addresses: addresses[i] },
+      });
+      const err = value.err ? (typeof value.err === 'string' ? value.err : JSON.stringify(value.err)) : null;
+      results.push({
+        err,
+        logs: value.logs || [],
+        unitsConsumed: value.unitsConsumed ?? null,
+        pre,
+        post: err ? null : new Map(addresses[i].map((a, j) => [a, fromUiAccount(value.accounts?.[j])] as const)),
+      });
+    } catch (e: any) {
+      results.push({ err: e.message, thrown: true, logs: [], unitsConsumed: null, pre, post: null });
+    }
+  }
+  return results;
+}
+
+/**
+ * A later transaction failing for funds an earlier one would have provided
+ */
+function isDependencyFailure(err: string): boolean {
+  return err.includes('Custom":1') || err.includes('insufficient');
+}
+
+// ============ Report ============
+
+function readTransaction(
+  index: number,
+  tx: VersionedTransaction,
+  simulated: SimulatedTransaction,
+  status: TransactionSimulation['status'],
+  walletAddress: string,
+  decimals: Map<string, number | null>,
+): TransactionSimulation {
+  const result: TransactionSimulation = {
+    index,
+    status,
+    error: simulated.err ?? undefined,
+    computeUnits: simulated.unitsConsumed,
+    feeLamports: 0,
+    rentLamports: 0,
+    tipLamports: 0,
+    balances: [],
+    positions: [],
+  };
+  if (status !== 'passed' || !simulated.post) return result;
+
+  result.feeLamports = networkFeeLamports(tx);
+  const uiChange = (mint: string, pre: bigint, post: bigint) => {
+    const d = decimals.get(mint);
+    return d === null || d === undefined ? null : Number(post - pre) / 10 ** d;
+  };
+
+  for (const [address, post] of simulated.post) {
+    const pre = simulated.pre.get(address) ?? null;
+    const preToken = tokenState(address, pre);
+    const postToken = tokenState(address, post);
+
+    // Wrapped SOL accounts hold their balance as lamports on top of the rent
+    const rentOf = (account: RawAccount, token: ReturnType<typeof tokenState>) =>
+      account.lamports - (token?.isNative ? Number(token.amount) : 0);
+    if (!pre && post) result.rentLamports += rentOf(post, postToken);
+    if (pre && !post) result.rentLamports -= rentOf(pre, preToken);
+
+    if (JITO_TIP_ACCOUNTS.includes(address) && pre && post && post.lamports > pre.lamports) {
+      result.tipLamports += post.lamports - pre.lamports;
+    }
+
+    if (address === walletAddress) {
+      const before = BigInt(pre?.lamports ?? 0);
+      const after = BigInt(post?.lamports ?? 0);
+      result.balances.push({
+        account: address, mint: SOL_MINT, symbol: 'SOL', native: true,
+        pre: before.toString(), post: after.toString(), change: uiChange(SOL_MINT, before, after),
+      });
+    }
+
+    const token = postToken ?? preToken;
+    if (token?.owner === walletAddress) {
+      const before = preToken?.amount ?? 0n;
+      const after = postToken?.amount ?? 0n;
+      if (before !== after) {
+        result.balances.push({
+          account: address, mint: token.mint, symbol: getSymbol(token.mint), native: false,
+          pre: before.toString(), post: after.toString(), change: uiChange(token.mint, before, after),
+        });
+      }
+    }
+
+    const before = positionLiquidity(pre);
+    const after = positionLiquidity(post);
+    if ((before || after) && before?.liquidity !== after?.liquidity) {
+      result.positions.push({
+        address,
+        program: (after ?? before)!.program,
+        liquidityBefore: (before?.liquidity ?? 0n).toString(),
+        liquidityAfter: (after?.liquidity ?? 0n).toString(),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The wallet's change per mint in one transaction, SOL and wrapped SOL
+ * together, with fees, rent and tips added back so SOL compares with quotes
+ */
+function walletFlows(tx: TransactionSimulation): Map<string, number | null> {
+  const flows = new Map<string, number | null>();
+  for (const balance of tx.balances) {
+    const sum = flows.has(balance.mint) ? flows.get(balance.mint)! : 0;
+    flows.set(balance.mint, sum === null || balance.change === null ? null : sum + balance.change);
+  }
+  const sol = flows.get(SOL_MINT) ?? 0;
+  if (sol !== null) {
+    flows.set(SOL_MINT, sol + (tx.feeLamports + tx.rentLamports + tx.tipLamports) / LAMPORTS_PER_SOL);
+  }
+  return flows;
+}
+
+function makeCheck(
+  kind: SimulationCheck['kind'],
+  expected: TokenFlow,
+  actual: number | null,
+  transactions: number[],
+  toleranceBps: number,
+): SimulationCheck {
+  if (actual !== null) actual = Math.round(actual * 1e9) / 1e9;
+  const deviationBps = actual === null ? null : Math.round(((actual - expected.amount) / expected.amount) * 10000);
+  const status: SimulationCheck['status'] = deviationBps === null ? 'unverified'
+    : (kind === 'deposit' ? Math.abs(deviationBps) <= toleranceBps : deviationBps >= -toleranceBps) ? 'passed'
+    : 'failed';
+  return {
+    kind,
+    mint: expected.mint,
+    symbol: getSymbol(expected.mint),
+    expected: expected.amount,
+    actual,
+    deviationBps,
+    status,
+    transactions,
+  };
+}
+
+function compareWithQuote(
+  transactions: TransactionSimulation[],
+  expected: SimulationExpectation,
+  toleranceBps: number,
+): SimulationCheck[] {
+  const checks: SimulationCheck[] = [];
+  const passed = transactions.filter(t => t.status === 'passed');
+  const flows = new Map(passed.map(t => [t.index, walletFlows(t)]));
+  const flowOf = (t: TransactionSimulation, mint: string) => flows.get(t.index)!.get(mint) ?? 0;
+
+  // Each swap is the first unclaimed transaction that spends its input for its output
+  const claimed = new Set<number>();
+  for (const swap of expected.swaps || []) {
+    if (!(swap.output.amount > 0)) continue;
+    const tx = passed.find(t => !claimed.has(t.index)
+      && (flowOf(t, swap.input.mint) ?? 0) < 0
+      && (flowOf(t, swap.output.mint) ?? 0) > 0);
+    if (tx) claimed.add(tx.index);
+    checks.push(makeCheck('swap-output', swap.output, tx ? flowOf(tx, swap.output.mint) : null, tx ? [tx.index] : [], toleranceBps));
+  }
+
+  // Deposits and withdrawals: the wallet's flows in transactions that change a position
+  const positionChecks = (kind: 'deposit' | 'withdrawal', planned: TokenFlow[]) => {
+    const adding = kind === 'deposit';
+    const txs = passed.filter(t => t.positions.some(p =>
+      adding ? BigInt(p.liquidityAfter) > BigInt(p.liquidityBefore) : BigInt(p.liquidityAfter) < BigInt(p.liquidityBefore)));
+    for (const flow of planned) {
+      if (!(flow.amount > 0)) continue;
+      let actual: number | null = txs.length > 0 ? 0 : null;
+      for (const t of txs) {
+        const change = flowOf(t, flow.mint);
+        actual = actual === null || change === null ? null : actual + (adding ? -change : change);
+      }
+      checks.push(makeCheck(kind, flow, actual, txs.map(t => t.index), toleranceBps));
+    }
+  };
+  positionChecks('deposit', expected.deposits || []);
+  positionChecks('withdrawal', expected.withdrawals || []);
+
+  return checks;
+}
+
+function describeCheck(check: SimulationCheck): string {
+  const what = { 'swap-output': 'Swap output', deposit: 'Deposit', withdrawal: 'Withdrawal' }[check.kind];
+  const pct = ((check.deviationBps ?? 0) / 100).toFixed(2);
+  return `${what} deviates from the quote: expected ${check.expected} ${check.symbol}, simulated ${check.actual} ${check.symbol} (${pct}%)`;
+}
+
+/**
+ * What the wallet is expected to get out of a withdrawn position: the
+ * principal less the protocol fee
+ */
+export function expectedWithdrawals(flows: LpExitFlows): TokenFlow[] {
+  return [flows.tokenX, flows.tokenY].map(token => ({
+    mint: token.mint,
+    amount: token.amount - flows.protocolFee
+      .filter(fee => fee.mint === token.mint)
+      .reduce((sum, fee) => sum + fee.amount, 0),
+  }));
+}
+
+/**
+ * Simulate a bundle before sending it and compare the outcome with the quote
+ *
+ * NOTE: Without a Jito RPC, later transactions of an atomic bundle (swap→LP)
+ * are simulated without the earlier ones' outputs. Only the first one hard
+ * fails; later "insufficient funds" failures are treated as dependencies.
+ * RPC errors fail the simulation wherever they happen.
+ */
+export async function simulateTransactions(
+  signedTransactions: string[],
+  expected: SimulationExpectation = {},
+): Promise<SimulationResult> {
+  const connection = createConnection('confirmed');
+  const txs = signedTransactions.map(tx => VersionedTransaction.deserialize(Buffer.from(tx, 'base64')));
+  const walletAddress = expected.walletAddress || txs[0].message.staticAccountKeys[0].toBase58();
+  const toleranceBps = expected.toleranceBps ?? config.simulation.toleranceBps;
+  const addresses = await writableAccounts(connection, txs);
+
+  let mode: SimulationReport['mode'] = 'per-transaction';
+  let simulated: SimulatedTransaction[] | null = null;
+  if (config.simulation.bundleRpcUrl) {
+    try {
+      simulated = await simulateInSequence(signedTransactions, addresses);
+      mode = 'bundle';
+    } catch (error: any) {
+      console.warn(`[Simulation] Bundle simulation unavailable, simulating each transaction: ${error.message}`);
+    }
+  }
+  simulated ??= await simulateEach(connection, txs, addresses);
+
+  const errors: string[] = [];
+  const statuses = simulated.map((sim, i): TransactionSimulation['status'] => {
+    if (!sim.err) {
+      console.log(`[Simulation] ✅ Tx ${i + 1} simulation passed (${sim.unitsConsumed ?? '?'} CU)`);
+      return 'passed';
+    }
+    const relevantLogs = sim.logs.filter(l => l.includes('Error') || l.includes('failed') || l.includes('insufficient'));
+    if (relevantLogs.length > 0) {
+      console.log(`[Simulation] Relevant logs: ${relevantLogs.join('\n')}`);
+    }
+    if (sim.err === NOT_EXECUTED) {
+      console.log(`[Simulation] ⚠️ Tx ${i + 1} not simulated: an earlier transaction failed`);
+      return 'skipped';
+    }
+    if (i > 0 && mode === 'per-transaction' && !sim.thrown && isDependencyFailure(sim.err)) {
+      console.log(`[Simulation] ⚠️ Tx ${i + 1} simulation skipped (depends on prior tx): ${sim.err}`);
+      return 'skipped';
+    }
+    const error = sim.thrown ? `simulation RPC error: ${sim.err}` : sim.err;
+    console.log(`[Simulation] ❌ Tx ${i + 1} simulation failed: ${error}`);
+    errors.push(`Tx ${i + 1}: ${error}`);
+    return 'failed';
+  });
+
+  // Decimals of every mint the wallet's accounts hold
+  const mints = new Set<string>([SOL_MINT]);
+  for (const sim of simulated) {
+    for (const [address, account] of [...sim.pre, ...(sim.post || [])]) {
+      const token = tokenState(address, account);
+      if (token?.owner === walletAddress) mints.add(token.mint);
+    }
+  }
+  const decimals = new Map<string, number | null>([[SOL_MINT, 9]]);
+  await Promise.all([...mints].filter(m => m !== SOL_MINT).map(async (mint) => {
+    const profile = await getMintProfile(connection, mint).catch(() => null);
+    if (!profile) console.warn(`[Simulation] No decimals for ${mint.slice(0, 8)}..., its balances go unchecked`);
+    decimals.set(mint, profile?.decimals ?? null);
+  }));
+
+  const transactions = simulated.map((sim, i) => readTransaction(i, txs[i], sim, statuses[i], walletAddress, decimals));
+  const checks = compareWithQuote(transactions, expected, toleranceBps);
+  for (const check of checks) {
+    if (check.status === 'passed') {
+      console.log(`[Simulation] ${check.kind} ${check.symbol}: expected ${check.expected}, simulated ${check.actual} (${check.deviationBps} bps)`);
+    } else if (check.status === 'unverified') {
+      console.log(`[Simulation] ⚠️ ${check.kind} ${check.symbol} unverified: the transactions involved weren't simulated`);
+    } else {
+      const line = describeCheck(check);
+      console.log(`[Simulation] ❌ ${line}`);
+      errors.push(line);
+    }
+  }
+
+  const walletChanges = new Map<string, number>();
+  for (const balance of transactions.flatMap(t => t.balances)) {
+    if (balance.change !== null) walletChanges.set(balance.mint, (walletChanges.get(balance.mint) || 0) + balance.change);
+  }
+  const total = (field: 'feeLamports' | 'rentLamports' | 'tipLamports' | 'computeUnits') => transactions
+    .filter(t => t.status === 'passed')
+    .reduce((sum, t) => sum + (t[field] ?? 0), 0);
+
+  const report: SimulationReport = {
+    mode,
+    walletAddress,
+    toleranceBps,
+    transactions,
+    walletChanges: [...walletChanges].map(([mint, change]) => ({ mint, symbol: getSymbol(mint), change })),
+    positions: transactions.flatMap(t => t.positions),
+    checks,
+    computeUnits: total('computeUnits'),
+    feeLamports: total('feeLamports'),
+    rentLamports: total('rentLamports'),
+    tipLamports: total('tipLamports'),
+    withinTolerance: checks.every(c => c.status === 'passed'),
+  };
+
+  return { success: errors.length === 0, errors, report };
+}
@@ -0,0 +1,282 @@
+/**
+ * Jito Tip Estimator
+ *
+ * Chooses a tip for a target landing probability instead of a fixed tier:
+ * 1. Our own recent bundles: the cheapest tip bucket (tips within a factor
+ *    of two) whose own bundles landed often enough, once the bucket has
+ *    enough samples.
+ * 2. Jito's tip floor: the percentile of recently landed tips matching the
+ *    target probability.
+ * 3. The static tier for the requested speed.
+ *
+ * The base tip is then escalated for retries - an explicit attempt number,
+ * or the payer's run of dropped bundles - and capped relative to the value
+ * the bundle moves.
+ *
+ * Keyspace:
+ *   lp-toolkit:jito:tips:outcomes          List of TipOutcome (newest first)
+ *   lp-toolkit:jito:tips:bundle:<id>       Tip and payer of an unresolved bundle
+ *   lp-toolkit:jito:tips:drops:<payer>     Consecutive dropped bundles for a payer
+ */
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { config } from '../config/index.js';
+import { getStore } from '../storage/index.js';
+
+const KEYS = {
+  OUTCOMES: 'lp-toolkit:jito:tips:outcomes',
+  BUNDLE: (bundleId: string) => `lp-toolkit:jito:tips:bundle:${bundleId}`,
+  DROPS: (payer: string) => `lp-toolkit:jito:tips:drops:${payer}`,
+};
+
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+export type TipSpeed = 'low' | 'medium' | 'fast' | 'extraFast';
+
+export const STATIC_TIP_LAMPORTS: Record<TipSpeed, number> = {
+  low: Math.round(0.0005 * LAMPORTS_PER_SOL),      // 0.0005 SOL
+  medium: Math.round(0.001 * LAMPORTS_PER_SOL),    // 0.001 SOL
+  fast: Math.round(0.0025 * LAMPORTS_PER_SOL),     // 0.0025 SOL
+  extraFast: Math.round(0.005 * LAMPORTS_PER_SOL), // 0.005 SOL
+};
+
+// Landing probability each speed tier asks for
+const SPEED_TARGETS: Record<TipSpeed, number> = {
+  low: 0.5,
+  medium: 0.75,
+  fast: 0.9,
+  extraFast: 0.97,
+};
+
+const MIN_TIP_LAMPORTS = 1000; // Jito's minimum
+const ESCALATION_FACTOR = 1.5;
+const MAX_ESCALATION_STEPS = 4;
+const OUTCOME_HISTORY = 500;
+const OUTCOME_WINDOW_MS = 6 * 60 * 60 * 1000;
+const MIN_HISTORY_SAMPLES = 20;
+const MIN_BUCKET_SAMPLES = 10;
+const BUNDLE_META_TTL_SECONDS = 60 * 60;
+const DROPS_TTL_SECONDS = 15 * 60;
+const TIP_FLOOR_TTL_MS = 60 * 1000;
+
+export interface TipOutcome {
+  tipLamports: number;
+  landed: boolean;
+  at: number;
+}
+
+export interface TipEstimateRequest {
+  speed?: TipSpeed;
+  targetProbability?: number; // Overrides the speed tier's target
+  valueLamports?: number;     // What the bundle moves, for the tip cap
+  payerAddress?: string;
+  attempt?: number;           // 0 for the first try; defaults to the payer's recent drops
+}
+
+export interface TipEstimate {
+  tipLamports: number;
+  targetProbability: number;
+  source: 'history' | 'tip-floor' | 'static';
+  baseLamports: number;
+  attempt: number;
+  capped: boolean;
+  samples: number; // Local outcomes in the window
+}
+
+// ============ Outcomes ============
+
+/**
+ * Remember a submitted bundle's tip until its outcome is known
+ */
+export async function rememberBundleTip(bundleId: string, tipLamports: number, payer?: string): Promise<void> {
+  if (tipLamports <= 0) return;
+  try {
+    await getStore().set(KEYS.BUNDLE(bundleId), { tipLamports, payer }, { ex: BUNDLE_META_TTL_SECONDS });
+  } catch (error: any) {
+    console.warn('[JitoTips] Failed to remember bundle tip:', error?.message || error);
+  }
+}
+
+/**
+ * Record whether a bundle landed. Only call for outcomes the tip explains:
+ * landed, or dropped (never seen). A bundle that executed and errored says
+ * nothing about the tip.
+ */
+export async function recordTipOutcome(bundleId: string, landed: boolean): Promise<void> {
+  const store = getStore();
+  try {
+    const meta = await store.get<{ tipLamports: number; payer?: string }>(KEYS.BUNDLE(bundleId));
+    if (!meta) return;
+    await store.del(KEYS.BUNDLE(bundleId));
+
+    const outcome: TipOutcome = { tipLamports: meta.tipLamports, landed, at: Date.now() };
+    await store.lpush(KEYS.OUTCOMES, outcome);
+    await store.ltrim(KEYS.OUTCOMES, 0, OUTCOME_HISTORY - 1);
+
+    if (meta.payer) {
+      if (landed) {
+        await store.del(KEYS.DROPS(meta.payer));
+      } else {
+        await store.incr(KEYS.DROPS(meta.payer));
+        await store.expire(KEYS.DROPS(meta.payer), DROPS_TTL_SECONDS);
+      }
+    }
+  } catch (error: any) {
+    console.warn('[JitoTips] Failed to record tip outcome:', error?.message || error);
+  }
+}
+
+async function getRecentOutcomes(): Promise<TipOutcome[]> {
+  const outcomes = await getStore().lrange<TipOutcome | string>(KEYS.OUTCOMES, 0, OUTCOME_HISTORY - 1);
+  const cutoff = Date.now() - OUTCOME_WINDOW_MS;
+  return outcomes
+    .map(o => (typeof o === 'string' ? JSON.parse(o) as TipOutcome : o))
+    .filter(o => o.at >= cutoff);
+}
+
+/**
+ * Tip of the cheapest bucket whose bundles landed with the target
+ * probability, or null without enough evidence. Buckets span a factor of
+ * two, so a level is judged by bundles tipped about that much - never by
+ * much larger tips - and the largest tip seen in the bucket is returned.
+ */
+export function tipFromHistory(outcomes: TipOutcome[], target: number): number | null {
+  if (outcomes.length < MIN_HISTORY_SAMPLES) return null;
+
+  const buckets = new Map<number, { maxTip: number; landed: number; total: number }>();
+  for (const outcome of outcomes) {
+    if (outcome.tipLamports <= 0) continue;
+    const key = Math.floor(Math.log2(outcome.tipLamports));
+    const bucket = buckets.get(key) || { maxTip: 0, landed: 0, total: 0 };
+    bucket.maxTip = Math.max(bucket.maxTip, outcome.tipLamports);
+    bucket.total += 1;
+    if (outcome.landed) bucket.landed += 1;
+    buckets.set(key, bucket);
+  }
+
+  const ordered = [...buckets.entries()].sort(([a], [b]) => a - b).map(([, bucket]) => bucket);
+  for (const bucket of ordered) {
+    if (bucket.total < MIN_BUCKET_SAMPLES) continue;
+    if (bucket.landed / bucket.total >= target) return bucket.maxTip;
+  }
+  return null;
+}
+
+// ============ Tip Floor ============
+
+interface TipFloor {
+  fetchedAt: number;
+  points: Array<[number, number]>; // [percentile 0-1, lamports]
+}
+
+let tipFloorCache: TipFloor | null = null;
+
+async function getTipFloor(): Promise<TipFloor | null> {
+  if (!config.jito.tipFloorUrl) return null;
+  if (tipFloorCache && Date.now() - tipFloorCache.fetchedAt < TIP_FLOOR_TTL_MS) {
+    return tipFloorCache;
+  }
+
+  try {
+    const response = await fetch(config.jito.tipFloorUrl, { signal: AbortSignal.timeout(3000) });
+    if (!response.ok) return tipFloorCache;
+    const json = await response.json() as Array<Record<string, number>>;
+    const row = json?.[0];
+    if (!row) return tipFloorCache;
+
+    const toLamports = (sol: number | undefined) => Math.round((sol || 0) * LAMPORTS_PER_SOL);
+    const points: Array<[number, number]> = [
+      [0.25, toLamports(row.landed_tips_25th_percentile)],
+      [0.5, toLamports(row.landed_tips_50th_percentile)],
+      [0.75, toLamports(row.landed_tips_75th_percentile)],
+      [0.95, toLamports(row.landed_tips_95th_percentile)],
+      [0.99, toLamports(row.landed_tips_99th_percentile)],
+    ];
+    if (points.every(([, lamports]) => lamports <= 0)) return tipFloorCache;
+
+    tipFloorCache = { fetchedAt: Date.now(), points };
+    return tipFloorCache;
+  } catch (error: any) {
+    console.warn('[JitoTips] Tip floor unavailable:', error?.message || error);
+    return tipFloorCache;
+  }
+}
+
+/**
+ * Interpolate the landed-tip percentile curve at the target probability
+ */
+export function tipFromFloor(points: Array<[number, number]>, target: number): number {
+  if (target <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [p0, t0] = points[i - 1];
+    const [p1, t1] = points[i];
+    if (target <= p1) {
+      return Math.round(t0 + ((target - p0) / (p1 - p0)) * (t1 - t0));
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+// ============ Estimator ============
+
+/**
+ * Choose a tip for a bundle
+ */
+export async function estimateTip(request: TipEstimateRequest = {}): Promise<TipEstimate> {
+  const speed = request.speed || 'fast';
+  const target = Math.min(0.99, Math.max(0.05, request.targetProbability ?? SPEED_TARGETS[speed]));
+
+  let outcomes: TipOutcome[] = [];
+  let attempt = request.attempt ?? 0;
+  try {
+    outcomes = await getRecentOutcomes();
+    if (request.attempt === undefined && request.payerAddress) {
+      attempt = (await getStore().get<number>(KEYS.DROPS(request.payerAddress))) || 0;
+    }
+  } catch (error: any) {
+    console.warn('[JitoTips] Tip history unavailable:', error?.message || error);
+  }
+
+  let source: TipEstimate['source'] = 'static';
+  let baseLamports = STATIC_TIP_LAMPORTS[speed];
+
+  const fromHistory = tipFromHistory(outcomes, target);
+  if (fromHistory !== null) {
+    source = 'history';
+    baseLamports = fromHistory;
+  } else {
+    const floor = await getTipFloor();
+    if (floor) {
+      source = 'tip-floor';
+      baseLamports = tipFromFloor(floor.points, target);
+    }
+  }
+
+  const steps = Math.min(Math.max(0, attempt), MAX_ESCALATION_STEPS);
+  const escalated = Math.round(baseLamports * ESCALATION_FACTOR ** steps);
+
+  const valueCap = request.valueLamports && request.valueLamports > 0
+    ? Math.floor(request.valueLamports * config.jito.maxTipBpsOfValue / 10000)
+    : Infinity;
+  const cap = Math.max(MIN_TIP_LAMPORTS, Math.min(config.jito.maxTipLamports, valueCap));
+  const tipLamports = Math.max(MIN_TIP_LAMPORTS, Math.min(escalated, cap));
+
+  return {
+    tipLamports,
+    targetProbability: target,
+    source,
+    baseLamports,
+    attempt: steps,
+    capped: escalated > cap,
+    samples: outcomes.length,
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Jobs
+ *
+ * Building blocks for running background work on several replicas:
+ * durable queues with visibility timeouts, idempotency keys and dead
+ * letters, plus store-backed locks and leader election.
+ */
+
+export { JobQueue } from './queue.js';
+export type { JobRecord, JobQueueOptions, EnqueueOptions, QueueStats, JobHandler } from './queue.js';
+export {
+  INSTANCE_ID,
+  acquireLock,
+  renewLock,
+  releaseLock,
+  getLockHolder,
+  LeaderElection,
+} from './lock.js';
+export type { LeaderElectionOptions } from './lock.js';
@@ -0,0 +1,143 @@
+/**
+ * Distributed Lock & Leader Election
+ *
+ * Locks are a store key set with NX and a TTL, holding the owner's token.
+ * Renew and release check the token first so a replica can't free a lock
+ * another replica took over after expiry. (Check-then-act isn't atomic;
+ * the TTL bounds the damage if a renew races an expiry.)
+ *
+ * Leader election is a lock that the current leader keeps renewing. A
+ * replica that stops renewing (crash, partition) loses leadership after
+ * one TTL and another replica takes over on its next campaign.
+ */
+
+import { hostname } from 'os';
+import { getStore } from '../storage/index.js';
+
+const KEYS = {
+  LOCK: (name: string) => `lp-toolkit:lock:${name}`,
+};
+
+/** Identifies this process as a lock owner and queue consumer */
+export const INSTANCE_ID = `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Try to take a lock. Returns true if this owner now holds it.
+ */
+export async function acquireLock(name: string, ttlSeconds: number, owner: string = INSTANCE_ID): Promise<boolean> {
+  const result = await getStore().set(KEYS.LOCK(name), owner, { nx: true, ex: Math.max(1, Math.ceil(ttlSeconds)) });
+  return result === 'OK';
+}
+
+/**
+ * Extend a lock this owner holds. Returns false if it was lost.
+ */
+export async function renewLock(name: string, ttlSeconds: number, owner: string = INSTANCE_ID): Promise<boolean> {
+  const store = getStore();
+  const holder = await store.get<string>(KEYS.LOCK(name));
+  if (holder !== owner) return false;
+  await store.set(KEYS.LOCK(name), owner, { ex: Math.max(1, Math.ceil(ttlSeconds)) });
+  return true;
+}
+
+/**
+ * Release a lock if this owner holds it
+ */
+export async function releaseLock(name: string, owner: string = INSTANCE_ID): Promise<boolean> {
+  const store = getStore();
+  const holder = await store.get<string>(KEYS.LOCK(name));
+  if (holder !== owner) return false;
+  await store.del(KEYS.LOCK(name));
+  return true;
+}
+
+/**
+ * Current holder of a lock, if any
+ */
+export async function getLockHolder(name: string): Promise<string | null> {
+  return getStore().get<string>(KEYS.LOCK(name));
+}
+
+// ============ Leader Election ============
+
+export interface LeaderElectionOptions {
+  ttlSeconds?: number;      // Leadership lapses this long after the last renew
+  renewIntervalMs?: number; // Campaign/renew cadence; keep well under the TTL
+  onElected?: () => void | Promise<void>;
+  onDemoted?: () => void | Promise<void>;
+}
+
+export class LeaderElection {
+  private leader = false;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly ttlSeconds: number;
+  private readonly renewIntervalMs: number;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: LeaderElectionOptions = {},
+  ) {
+    this.ttlSeconds = options.ttlSeconds ?? 30;
+    this.renewIntervalMs = options.renewIntervalMs ?? 10_000;
+  }
+
+  /**
+   * Start campaigning. Resolves after the first attempt.
+   */
+  async start(): Promise<boolean> {
+    if (this.timer) return this.leader;
+    await this.campaign();
+    this.timer = setInterval(() => { this.campaign(); }, this.renewIntervalMs);
+    return this.leader;
+  }
+
+  /**
+   * Stop campaigning and hand leadership back
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.leader) {
+      await releaseLock(this.lockName).catch(() => false);
+      await this.setLeader(false);
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  async getLeader(): Promise<string | null> {
+    return getLockHolder(this.lockName).catch(() => null);
+  }
+
+  private get lockName(): string {
+    return `leader:${this.name}`;
+  }
+
+  private async campaign(): Promise<void> {
+    try {
+      const held = this.leader
+        ? await renewLock(this.lockName, this.ttlSeconds)
+        : await acquireLock(this.lockName, this.ttlSeconds);
+      await this.setLeader(held);
+    } catch (error: any) {
+      // Can't reach the store: assume another replica can, and step down
+      console.warn(`[Leader] ${this.name} campaign failed: ${error.message}`);
+      await this.setLeader(false);
+    }
+  }
+
+  private async setLeader(leader: boolean): Promise<void> {
+    if (leader === this.leader) return;
+    this.leader = leader;
+    console.log(`[Leader] ${INSTANCE_ID} ${leader ? 'elected' : 'stepped down as'} ${this.name} leader`);
+    try {
+      await (leader ? this.options.onElected?.() : this.options.onDemoted?.());
+    } catch (error: any) {
+      console.warn(`[Leader] ${this.name} ${leader ? 'onElected' : 'onDemoted'} failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Durable Job Queue
+ *
+ * Store-backed queue that several replicas can consume safely:
+ * - ready:    zset of job ids scored by the time they may run
+ * - inflight: zset of claimed job ids scored by their visibility deadline
+ * - jobs:     hash of id -> JobRecord
+ * - dead:     hash of id -> JobRecord for jobs that ran out of attempts
+ *
+ * A consumer owns a job only if its ZREM from ready removed it. A claimed job
+ * that isn't completed, failed or extended before its visibility timeout goes
+ * back to ready, so a crashed replica's work is picked up elsewhere (delivery
+ * is at-least-once; handlers should tolerate a rerun).
+ *
+ * Idempotency keys are SET NX to the job id, so the same request enqueued
+ * twice runs once within the key's TTL. Dead-lettering frees the key so the
+ * caller can retry.
+ */
+
+import { randomBytes } from 'crypto';
+import { getStore } from '../storage/index.js';
+import { INSTANCE_ID } from './lock.js';
+
+const KEYS = {
+  READY: (queue: string) => `lp-toolkit:jobs:${queue}:ready`,
+  INFLIGHT: (queue: string) => `lp-toolkit:jobs:${queue}:inflight`,
+  JOBS: (queue: string) => `lp-toolkit:jobs:${queue}:jobs`,
+  DEAD: (queue: string) => `lp-toolkit:jobs:${queue}:dead`,
+  STATS: (queue: string) => `lp-toolkit:jobs:${queue}:stats`,
+  IDEMPOTENCY: (queue: string, key: string) => `lp-toolkit:jobs:${queue}:idem:${key}`,
+};
+
+const CLAIM_BATCH = 5;
+
+export interface JobRecord<T = unknown> {
+  id: string;
+  queue: string;
+  payload: T;
+  attempts: number;
+  maxAttempts: number;
+  idempotencyKey?: string;
+  enqueuedAt: number;
+  runAt: number;
+  claimedBy?: string;
+  claimToken?: string;
+  claimedAt?: number;
+  lastError?: string;
+  deadAt?: number;
+}
+
+export interface JobQueueOptions {
+  visibilityTimeoutMs?: number; // Lease length; the handler heartbeat extends it
+  maxAttempts?: number;
+  backoffMs?: number; // First retry delay, doubled per attempt
+  idempotencyTtlSeconds?: number;
+}
+
+export interface EnqueueOptions {
+  idempotencyKey?: string;
+  delayMs?: number;
+  maxAttempts?: number;
+  id?: string;
+}
+
+export interface QueueStats {
+  queue: string;
+  ready: number;
+  inflight: number;
+  dead: number;
+  completed: number;
+  retried: number;
+  reclaimed: number;
+  deadLettered: number;
+}
+
+export type JobHandler<T> = (payload: T, job: JobRecord<T>) => Promise<void>;
+
+export class JobQueue<T = unknown> {
+  readonly visibilityTimeoutMs: number;
+  readonly maxAttempts: number;
+  readonly backoffMs: number;
+  readonly idempotencyTtlSeconds: number;
+
+  constructor(readonly name: string, options: JobQueueOptions = {}) {
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 5 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.backoffMs = options.backoffMs ?? 30_000;
+    this.idempotencyTtlSeconds = options.idempotencyTtlSeconds ?? 24 * 3600;
+  }
+
+  /**
+   * Add a job. With an idempotency key already in use, returns the existing
+   * job's id and duplicate: true instead of enqueueing again.
+   */
+  async enqueue(payload: T, opts: EnqueueOptions = {}): Promise<{ id: string; duplicate: boolean }> {
+    const store = getStore();
+    const id = opts.id || `${this.name}_${Date.now()}_${randomBytes(4).toString('hex')}`;
+
+    if (opts.idempotencyKey) {
+      const key = KEYS.IDEMPOTENCY(this.name, opts.idempotencyKey);
+      const claimed = await store.set(key, id, { nx: true, ex: this.idempotencyTtlSeconds });
+      if (!claimed) {
+        const existing = await store.get<string>(key);
+        console.log(`[Jobs] ${this.name}: duplicate enqueue for ${opts.idempotencyKey} -> ${existing}`);
+        return { id: existing || id, duplicate: true };
+      }
+    }
+
+    const now = Date.now();
+    const job: JobRecord<T> = {
+      id,
+      queue: this.name,
+      payload,
+      attempts: 0,
+      maxAttempts: opts.maxAttempts ?? this.maxAttempts,
+      idempotencyKey: opts.idempotencyKey,
+      enqueuedAt: now,
+      runAt: now + (opts.delayMs ?? 0),
+    };
+
+    await store.hset(KEYS.JOBS(this.name), { [id]: job });
+    await store.zadd(KEYS.READY(this.name), { score: job.runAt, member: id });
+    return { id, duplicate: false };
+  }
+
+  /**
+   * Claim the next due job, or null if none. Requeues expired leases first.
+   */
+  async claim(consumer: string = INSTANCE_ID): Promise<JobRecord<T> | null> {
+    await this.reclaimExpired();
+
+    const store = getStore();
+    const now = Date.now();
+    const due = await store.zrange<string>(KEYS.READY(this.name), 0, now, { byScore: true, offset: 0, count: CLAIM_BATCH });
+
+    for (const id of due) {
+      // Only one consumer's ZREM removes the id
+      if (await store.zrem(KEYS.READY(this.name), id) !== 1) continue;
+
+      const job = await store.hget<JobRecord<T>>(KEYS.JOBS(this.name), id);
+      if (!job) continue; // Completed elsewhere after a reclaim
+
+      job.attempts++;
+      job.claimedBy = consumer;
+      job.claimToken = randomBytes(8).toString('hex');
+      job.claimedAt = now;
+      await store.zadd(KEYS.INFLIGHT(this.name), { score: now + this.visibilityTimeoutMs, member: id });
+      await store.hset(KEYS.JOBS(this.name), { [id]: job });
+      return job;
+    }
+
+    return null;
+  }
+
+  /**
+   * Push a claimed job's visibility deadline out. Returns false if the lease
+   * was lost to another consumer.
+   */
+  async extend(job: JobRecord<T>): Promise<boolean> {
+    if (!await this.ownsLease(job)) return false;
+    await getStore().zadd(KEYS.INFLIGHT(this.name), { score: Date.now() + this.visibilityTimeoutMs, member: job.id });
+    return true;
+  }
+
+  /**
+   * Mark a claimed job done
+   */
+  async complete(job: JobRecord<T>): Promise<void> {
+    if (!await this.ownsLease(job)) {
+      console.warn(`[Jobs] ${this.name}: ${job.id} finished after its lease moved to another consumer`);
+      return;
+    }
+    const store = getStore();
+    await store.zrem(KEYS.INFLIGHT(this.name), job.id);
+    await store.zrem(KEYS.READY(this.name), job.id);
+    await store.hdel(KEYS.JOBS(this.name), job.id);
+    await store.hincrby(KEYS.STATS(this.name), 'completed', 1);
+  }
+
+  /**
+   * Record a failed attempt: retry with backoff, or dead-letter once attempts
+   * run out (or straight away with retry: false).
+   */
+  async fail(job: JobRecord<T>, error: string, opts: { retry?: boolean } = {}): Promise<'retrying' | 'dead'> {
+    if (!await this.ownsLease(job)) {
+      console.warn(`[Jobs] ${this.name}: ${job.id} failed after its lease moved to another consumer`);
+      return 'retrying';
+    }
+    const store = getStore();
+    await store.zrem(KEYS.INFLIGHT(this.name), job.id);
+
+    const failed = { ...job, lastError: error };
+    if (opts.retry === false || failed.attempts >= failed.maxAttempts) {
+      await this.deadLetter(failed);
+      return 'dead';
+    }
+
+    const runAt = Date.now() + this.backoffMs * 2 ** (failed.attempts - 1);
+    await store.hset(KEYS.JOBS(this.name), { [job.id]: { ...failed, runAt } });
+    await store.zadd(KEYS.READY(this.name), { score: runAt, member: job.id });
+    await store.hincrby(KEYS.STATS(this.name), 'retried', 1);
+    return 'retrying';
+  }
+
+  /**
+   * Claim one job and run it, heartbeating the lease while the handler runs.
+   * Handler errors count as failed attempts. Returns the job it ran, if any.
+   */
+  async processNext(handler: JobHandler<T>, consumer: string = INSTANCE_ID): Promise<JobRecord<T> | null> {
+    const job = await this.claim(consumer);
+    if (!job) return null;
+
+    const heartbeat = setInterval(() => {
+      this.extend(job).catch(() => false);
+    }, Math.max(1000, Math.floor(this.visibilityTimeoutMs / 3)));
+
+    try {
+      await handler(job.payload, job);
+      await this.complete(job);
+    } catch (error: any) {
+      const outcome = await this.fail(job, error?.message || String(error));
+      console.warn(`[Jobs] ${this.name}: ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed (${outcome}): ${error?.message}`);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    return job;
+  }
+
+  /**
+   * Requeue jobs whose lease expired. Out of attempts means dead-letter.
+   */
+  async reclaimExpired(): Promise<number> {
+    const store = getStore();
+    const expired = await store.zrange<string>(KEYS.INFLIGHT(this.name), 0, Date.now(), { byScore: true });
+    let reclaimed = 0;
+
+    for (const id of expired) {
+      if (await store.zrem(KEYS.INFLIGHT(this.name), id) !== 1) continue;
+      const job = await store.hget<JobRecord<T>>(KEYS.JOBS(this.name), id);
+      if (!job) continue;
+
+      const lastError = `Visibility timeout expired (consumer ${job.claimedBy || 'unknown'})`;
+      if (job.attempts >= job.maxAttempts) {
+        await this.deadLetter({ ...job, lastError });
+      } else {
+        await store.hset(KEYS.JOBS(this.name), { [id]: { ...job, lastError } });
+        await store.zadd(KEYS.READY(this.name), { score: Date.now(), member: id });
+        await store.hincrby(KEYS.STATS(this.name), 'reclaimed', 1);
+      }
+      reclaimed++;
+    }
+
+    if (reclaimed > 0) {
+      console.warn(`[Jobs] ${this.name}: reclaimed ${reclaimed} expired job(s)`);
+    }
+    return reclaimed;
+  }
+
+  /**
+   * Put back jobs that sit in the jobs hash but in neither zset, which
+   * happens if a consumer dies between removing a job from ready and
+   * leasing it. Cheap for small queues; the worker's leader runs it.
+   */
+  async recoverOrphans(): Promise<number> {
+    const store = getStore();
+    const jobs = await store.hgetall<Record<string, JobRecord<T>>>(KEYS.JOBS(this.name));
+    if (!jobs) return 0;
+
+    const [ready, inflight] = await Promise.all([
+      store.zrange<string>(KEYS.READY(this.name), 0, -1),
+      store.zrange<string>(KEYS.INFLIGHT(this.name), 0, -1),
+    ]);
+    const queued = new Set([...ready, ...inflight]);
+    const cutoff = Date.now() - this.visibilityTimeoutMs;
+    let recovered = 0;
+
+    for (const job of Object.values(jobs)) {
+      if (queued.has(job.id) || (job.claimedAt ?? job.enqueuedAt) > cutoff) continue;
+      await store.zadd(KEYS.READY(this.name), { score: Date.now(), member: job.id });
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      console.warn(`[Jobs] ${this.name}: recovered ${recovered} orphaned job(s)`);
+    }
+    return recovered;
+  }
+
+  /**
+   * Free an idempotency key early, e.g. once a job ended in a business
+   * failure the caller is expected to retry
+   */
+  async clearIdempotencyKey(key: string): Promise<void> {
+    await getStore().del(KEYS.IDEMPOTENCY(this.name, key));
+  }
+
+  async getJob(id: string): Promise<JobRecord<T> | null> {
+    return getStore().hget<JobRecord<T>>(KEYS.JOBS(this.name), id);
+  }
+
+  async getDeadLetters(): Promise<JobRecord<T>[]> {
+    const dead = await getStore().hgetall<Record<string, JobRecord<T>>>(KEYS.DEAD(this.name));
+    return Object.values(dead || {}).sort((a, b) => (b.deadAt || 0) - (a.deadAt || 0));
+  }
+
+  /**
+   * Move a dead-lettered job back to ready with a fresh set of attempts
+   */
+  async retryDeadLetter(id: string): Promise<boolean> {
+    const store = getStore();
+    const job = await store.hget<JobRecord<T>>(KEYS.DEAD(this.name), id);
+    if (!job) return false;
+
+    const revived: JobRecord<T> = { ...job, attempts: 0, runAt: Date.now(), deadAt: undefined };
+    await store.hdel(KEYS.DEAD(this.name), id);
+    await store.hset(KEYS.JOBS(this.name), { [id]: revived });
+    await store.zadd(KEYS.READY(this.name), { score: revived.runAt, member: id });
+    return true;
+  }
+
+  async removeDeadLetter(id: string): Promise<boolean> {
+    return await getStore().hdel(KEYS.DEAD(this.name), id) > 0;
+  }
+
+  async stats(): Promise<QueueStats> {
+    const store = getStore();
+    const [ready, inflight, dead, counters] = await Promise.all([
+      store.zcard(KEYS.READY(this.name)),
+      store.zcard(KEYS.INFLIGHT(this.name)),
+      store.hlen(KEYS.DEAD(this.name)),
+      store.hgetall<Record<string, number | string>>(KEYS.STATS(this.name)),
+    ]);
+    const counter = (field: string) => Number(counters?.[field] || 0);
+    return {
+      queue: this.name,
+      ready,
+      inflight,
+      dead,
+      completed: counter('completed'),
+      retried: counter('retried'),
+      reclaimed: counter('reclaimed'),
+      deadLettered: counter('deadLettered'),
+    };
+  }
+
+  private async ownsLease(job: JobRecord<T>): Promise<boolean> {
+    const current = await getStore().hget<JobRecord<T>>(KEYS.JOBS(this.name), job.id);
+    return !!current && current.claimToken === job.claimToken;
+  }
+
+  private async deadLetter(job: JobRecord<T>): Promise<void> {
+    const store = getStore();
+    await store.hset(KEYS.DEAD(this.name), { [job.id]: { ...job, deadAt: Date.now() } });
+    await store.hdel(KEYS.JOBS(this.name), job.id);
+    await store.zrem(KEYS.READY(this.name), job.id);
+    if (job.idempotencyKey) {
+      await store.del(KEYS.IDEMPOTENCY(this.name, job.idempotencyKey));
+    }
+    await store.hincrby(KEYS.STATS(this.name), 'deadLettered', 1);
+    console.error(`[Jobs] ${this.name}: ${job.id} dead-lettered after ${job.attempts} attempt(s): ${job.lastError}`);
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Intent Journal
+ *
+ * Every write operation (LP, withdraw, rebalance, swap, DCA) is recorded as
+ * an intent before it does anything, and moves through
+ * built -> signed -> submitted -> landed | failed as the signer and the Jito
+ * client report progress. This gives us:
+ *
+ * - Idempotency: an intent created with a client key is looked up again on
+ *   retry, and the original response is replayed instead of re-executing.
+ *   Keys are per caller and wallet; reusing one with other params is refused.
+ * - Recovery: intents whose bundles (or RPC fallback transactions) were
+ *   submitted but never confirmed (timeout, crash, restart) are reconciled
+ *   against Jito / the RPC by the worker leader, so we always know what
+ *   went on-chain.
+ *
+ * A key whose intent failed before anything was submitted is released,
+ * so the client can retry with it.
+ */
+
+import { waitForBundle } from '../jito/index.js';
+import { recordTipOutcome } from '../jito/tips.js';
+import { createConnection } from '../services/connection-pool.js';
+import {
+  createIntent,
+  failIntent,
+  getInflightIntentIds,
+  getIntent,
+  getIntentResponse,
+  hashParams,
+  isCurrentIntentDeferred,
+  pendingBundles,
+  pendingTransactions,
+  releaseIdempotencyKey,
+  removeInflightIntent,
+  runInIntent,
+  saveIntentResponse,
+  transition,
+  updateIntent,
+  applyBundleResult,
+  applyTransactionResult,
+  sentLanded,
+} from './store.js';
+import { publishBundleUpdate, publishTransactionUpdate } from './updates.js';
+import type { CreateIntentInput, Intent, IntentBundle, IntentResponse, IntentTransaction } from './types.js';
+
+export * from './types.js';
+export {
+  getIntent,
+  getIntentResponse,
+  currentIntentId,
+  deferCurrentIntent,
+  markIntentAsync,
+  failIntent,
+} from './store.js';
+export { buildBundleUpdate } from './updates.js';
+
+// Submitted bundles / transactions that haven't landed by now never will (blockhash expired)
+const BUNDLE_EXPIRY_MS = 5 * 60 * 1000;
+// Intents that never reached submission are abandoned after this long
+const STALE_INTENT_MS = 10 * 60 * 1000;
+// Leave intents alone while their request is plausibly still running
+const RECONCILE_GRACE_MS = 90 * 1000;
+
+export interface IntentOutcome {
+  ok: boolean;
+  status: number;
+  body: unknown;
+}
+
+export interface IntentRun {
+  intent: Intent;
+  /** Null when replayed while the original is still in progress */
+  response: IntentResponse | null;
+  replayed: boolean;
+  /** Replayed, but the key was first used with different params */
+  paramsMismatch?: boolean;
+}
+
+/**
+ * Execute fn as a journaled intent. With an idempotency key that was seen
+ * before, fn does not run and the stored intent/response are returned.
+ */
+export async function runIntent(
+  input: CreateIntentInput,
+  fn: () => Promise<IntentOutcome>,
+): Promise<IntentRun> {
+  const { intent, created } = await createIntent(input);
+  if (!created) {
+    // Intents from before params were hashed have no hash to compare
+    if (intent.paramsHash && intent.paramsHash !== hashParams(input.params || {})) {
+      console.warn(`[Journal] Key ${input.idempotencyKey} reused with different params (${intent.operation} ${intent.id})`);
+      return { intent, response: null, replayed: true, paramsMismatch: true };
+    }
+    console.log(`[Journal] Replaying ${intent.operation} ${intent.id} (${intent.state}) for key ${input.idempotencyKey}`);
+    return { intent, response: await getIntentResponse(intent.id), replayed: true };
+  }
+
+  let deferred = false;
+  let outcome: IntentOutcome;
+  try {
+    outcome = await runInIntent(intent.id, async () => {
+      const result = await fn();
+      deferred = isCurrentIntentDeferred();
+      return result;
+    });
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    await saveIntentResponse(intent.id, 500, { error: message });
+    await failIntent(intent.id, message);
+    await releaseKeyIfNothingSent(intent.id);
+    throw error;
+  }
+
+  // Deferred work may already have finished and stored its final response
+  await saveIntentResponse(intent.id, outcome.status, outcome.body, { onlyIfMissing: deferred });
+  const settled = deferred
+    ? await getIntent(intent.id)
+    : await settleAfterResponse(intent.id, outcome);
+
+  return {
+    intent: settled || intent,
+    response: { status: outcome.status, body: outcome.body, recordedAt: Date.now() },
+    replayed: false,
+  };
+}
+
+/**
+ * Settle an intent from its handler's outcome. Bundles or transactions
+ * still awaiting confirmation keep it open for the reconciler.
+ */
+async function settleAfterResponse(id: string, outcome: IntentOutcome): Promise<Intent | null> {
+  const intent = await updateIntent(id, (intent) => {
+    if (intent.settled || hasPending(intent)) return;
+    // Confirmed bundles / transactions outrank the handler's view of success
+    const landed = sentLanded(intent) ?? outcome.ok;
+    if (landed) {
+      if (intent.state !== 'landed') transition(intent, 'landed');
+    } else if (intent.state !== 'failed') {
+      transition(intent, 'failed', `HTTP ${outcome.status}`);
+    }
+    intent.settled = true;
+  });
+  await releaseKeyIfNothingSent(id);
+  return intent;
+}
+
+/**
+ * Finish a deferred intent (see deferCurrentIntent) once its background
+ * work is done; retries then replay this outcome instead of the early ack.
+ */
+export async function completeIntent(id: string, outcome: IntentOutcome): Promise<void> {
+  try {
+    await saveIntentResponse(id, outcome.status, outcome.body);
+    await settleAfterResponse(id, outcome);
+  } catch (error: any) {
+    console.warn(`[Journal] Failed to complete ${id}:`, error?.message || error);
+  }
+}
+
+function hasPending(intent: Intent): boolean {
+  return pendingBundles(intent).length > 0 || pendingTransactions(intent).length > 0;
+}
+
+async function releaseKeyIfNothingSent(id: string): Promise<void> {
+  const intent = await getIntent(id);
+  if (!intent || intent.state !== 'failed') return;
+  if (intent.bundles.length > 0 || (intent.transactions?.length ?? 0) > 0) return;
+  await releaseIdempotencyKey(intent);
+}
+
+// ============ Reconciliation ============
+
+/**
+ * Resolve intents left unsettled by timeouts or restarts by asking Jito
+ * for their bundles' status (and the RPC for fallback transactions). Run
+ * by the worker leader.
+ */
+export async function reconcileInflightIntents(): Promise<{ checked: number; settled: number }> {
+  const ids = await getInflightIntentIds();
+  let checked = 0;
+  let settled = 0;
+
+  for (const id of ids) {
+    const intent = await getIntent(id);
+    if (!intent || intent.settled) {
+      await removeInflightIntent(id);
+      continue;
+    }
+    if (Date.now() - intent.updatedAt < RECONCILE_GRACE_MS) continue;
+    checked++;
+
+    try {
+      if (await reconcileIntent(intent)) settled++;
+    } catch (error: any) {
+      console.warn(`[Journal] Reconcile ${id} failed:`, error?.message || error);
+    }
+  }
+
+  if (settled > 0) {
+    console.log(`[Journal] Reconciled ${settled}/${checked} in-flight intents`);
+  }
+  return { checked, settled };
+}
+
+async function reconcileIntent(intent: Intent): Promise<boolean> {
+  const now = Date.now();
+  const resolved: IntentBundle[] = [];
+  const resolvedTxs: IntentTransaction[] = [];
+
+  for (const bundle of pendingBundles(intent)) {
+    const status = await waitForBundle(bundle.bundleId, { timeoutMs: 5000, intervalMs: 2500 });
+    if (status.landed || !status.error?.startsWith('Timeout')) {
+      applyBundleResult(intent, bundle, status);
+      resolved.push(bundle);
+    } else if (now - bundle.submittedAt > BUNDLE_EXPIRY_MS) {
+      await recordTipOutcome(bundle.bundleId, false);
+      applyBundleResult(intent, bundle, { landed: false, error: 'Bundle not confirmed before expiry' });
+      resolved.push(bundle);
+    }
+  }
+
+  const txs = pendingTransactions(intent);
+  if (txs.length > 0) {
+    const connection = createConnection('confirmed');
+    const { value: statuses } = await connection.getSignatureStatuses(
+      txs.map(t => t.signature),
+      { searchTransactionHistory: true },
+    );
+    txs.forEach((tx, i) => {
+      const status = statuses[i];
+      const confirmed = status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized';
+      if (status?.err) {
+        applyTransactionResult(intent, tx, { landed: false, slot: status.slot, error: JSON.stringify(status.err) });
+      } else if (confirmed) {
+        applyTransactionResult(intent, tx, { landed: true, slot: status!.slot });
+      } else if (now - tx.submittedAt > BUNDLE_EXPIRY_MS) {
+        applyTransactionResult(intent, tx, { landed: false, error: 'Transaction not confirmed before expiry' });
+      } else {
+        return;
+      }
+      resolvedTxs.push(tx);
+    });
+  }
+
+  const publishResolved = () => {
+    for (const bundle of resolved) publishBundleUpdate(intent, bundle);
+    for (const tx of resolvedTxs) publishTransactionUpdate(intent, tx);
+  };
+
+  const persist = (settled: boolean) => updateIntent(intent.id, (stored) => {
+    stored.bundles = intent.bundles;
+    stored.transactions = intent.transactions;
+    stored.history = intent.history;
+    stored.state = intent.state;
+    stored.error = intent.error;
+    stored.settled = settled;
+  });
+
+  if (hasPending(intent)) {
+    await persist(false);
+    publishResolved();
+    return false;
+  }
+
+  if (sentLanded(intent) === null) {
+    // Never reached Jito or the RPC: still running somewhere, or its replica died
+    if (now - intent.createdAt < STALE_INTENT_MS) return false;
+    transition(intent, 'failed', 'Abandoned before submission');
+    intent.error = intent.error || 'Abandoned before submission';
+  }
+
+  const landed = sentLanded(intent) === true;
+  if (landed && intent.state !== 'landed') transition(intent, 'landed', 'reconciled');
+  if (!landed && intent.state !== 'failed') transition(intent, 'failed', 'reconciled');
+
+  await persist(true);
+  publishResolved();
+
+  // Retries after reconciliation see the confirmed outcome
+  const previous = await getIntentResponse(intent.id);
+  const reconciled = {
+    state: intent.state,
+    bundles: intent.bundles,
+    transactions: intent.transactions,
+    error: intent.error,
+    at: now,
+  };
+  const body = previous?.body && typeof previous.body === 'object'
+    ? { ...(previous.body as Record<string, unknown>), success: landed, reconciled }
+    : { success: landed, intentId: intent.id, operation: intent.operation, reconciled };
+  await saveIntentResponse(intent.id, landed ? 200 : (previous?.status ?? 500), body);
+  await releaseKeyIfNothingSent(intent.id);
+
+  console.log(`[Journal] ${intent.operation} ${intent.id} reconciled as ${intent.state}`);
+  return true;
+}
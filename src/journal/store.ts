@@ -0,0 +1,418 @@
+/**
+ * Intent Journal Storage
+ *
+ * Keyspace:
+ *   lp-toolkit:journal:intent:<id>                Intent
+ *   lp-toolkit:journal:intent:<id>:response       IntentResponse
+ *   lp-toolkit:journal:key:<operation>:<principal>:<wallet>:<key>
+ *                                                 Intent id for an idempotency key (SET NX)
+ *   lp-toolkit:journal:inflight                   Set of unsettled intent ids
+ *
+ * The current intent travels with the async call chain (AsyncLocalStorage),
+ * so the signer and the Jito client can record progress without every
+ * service threading an intent id through its parameters. The note* hooks
+ * are no-ops outside an intent and never throw.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomBytes } from 'crypto';
+import { getStore } from '../storage/index.js';
+import { INSTANCE_ID } from '../jobs/lock.js';
+import { publishBundleUpdate, publishTransactionUpdate } from './updates.js';
+import type { TipEstimate } from '../jito/tips.js';
+import type { SubmissionLeg, SubmissionReport } from '../submission/types.js';
+import type {
+  CreateIntentInput,
+  Intent,
+  IntentBundle,
+  IntentResponse,
+  IntentState,
+  IntentTransaction,
+} from './types.js';
+
+const KEYS = {
+  INTENT: (id: string) => `lp-toolkit:journal:intent:${id}`,
+  RESPONSE: (id: string) => `lp-toolkit:journal:intent:${id}:response`,
+  IDEMPOTENCY: (intent: Pick<Intent, 'operation' | 'principal' | 'walletId'>, key: string) =>
+    `lp-toolkit:journal:key:${intent.operation}:${intent.principal ?? 'anonymous'}:${intent.walletId ?? 'none'}:${key}`,
+  INFLIGHT: 'lp-toolkit:journal:inflight',
+};
+
+const INTENT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const MAX_HISTORY = 50;
+
+interface IntentContext {
+  intentId: string;
+  deferred: boolean;
+}
+
+const intentContext = new AsyncLocalStorage<IntentContext>();
+
+// ============ Context ============
+
+/**
+ * Run fn with intentId as the current intent
+ */
+export function runInIntent<T>(intentId: string, fn: () => Promise<T>): Promise<T> {
+  return intentContext.run({ intentId, deferred: false }, fn);
+}
+
+export function currentIntentId(): string | undefined {
+  return intentContext.getStore()?.intentId;
+}
+
+/**
+ * Mark the current intent as finishing after the response is sent
+ * (background work). Returns the intent id for failIntent, if any.
+ */
+export function deferCurrentIntent(): string | undefined {
+  const ctx = intentContext.getStore();
+  if (!ctx) return undefined;
+  ctx.deferred = true;
+  return ctx.intentId;
+}
+
+export function isCurrentIntentDeferred(): boolean {
+  return intentContext.getStore()?.deferred ?? false;
+}
+
+// ============ Records ============
+
+export async function getIntent(id: string): Promise<Intent | null> {
+  return getStore().get<Intent>(KEYS.INTENT(id));
+}
+
+export async function getIntentResponse(id: string): Promise<IntentResponse | null> {
+  return getStore().get<IntentResponse>(KEYS.RESPONSE(id));
+}
+
+/**
+ * Store the response replayed for this intent. With onlyIfMissing, an
+ * existing (final) response wins - used for the early ack of deferred work.
+ */
+export async function saveIntentResponse(
+  id: string,
+  status: number,
+  body: unknown,
+  opts: { onlyIfMissing?: boolean } = {},
+): Promise<void> {
+  const response: IntentResponse = { status, body, recordedAt: Date.now() };
+  await getStore().set(KEYS.RESPONSE(id), response, { ex: INTENT_TTL_SECONDS, nx: opts.onlyIfMissing });
+}
+
+export async function getInflightIntentIds(): Promise<string[]> {
+  return getStore().smembers<string>(KEYS.INFLIGHT);
+}
+
+export async function removeInflightIntent(id: string): Promise<void> {
+  await getStore().srem(KEYS.INFLIGHT, id);
+}
+
+export async function markIntentAsync(id: string): Promise<void> {
+  await updateIntent(id, (intent) => { intent.async = true; }).catch((error) => {
+    console.warn(`[Journal] Failed to mark ${id} async:`, error?.message || error);
+  });
+}
+
+export async function releaseIdempotencyKey(intent: Intent): Promise<void> {
+  if (!intent.idempotencyKey) return;
+  await getStore().del(KEYS.IDEMPOTENCY(intent, intent.idempotencyKey));
+}
+
+// JSON with sorted object keys, so the hash doesn't depend on field order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashParams(params: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalJson(params)).digest('hex');
+}
+
+async function saveIntent(intent: Intent): Promise<void> {
+  intent.updatedAt = Date.now();
+  await getStore().set(KEYS.INTENT(intent.id), intent, { ex: INTENT_TTL_SECONDS });
+  if (intent.settled) {
+    await getStore().srem(KEYS.INFLIGHT, intent.id);
+  }
+}
+
+function pushHistory(intent: Intent, state: IntentState, note?: string): void {
+  intent.state = state;
+  intent.history.push({ state, at: Date.now(), ...(note ? { note } : {}) });
+  if (intent.history.length > MAX_HISTORY) {
+    intent.history = intent.history.slice(-MAX_HISTORY);
+  }
+}
+
+/**
+ * Create an intent, or return the one already registered for the
+ * idempotency key (created: false). Keys are scoped to the principal and
+ * wallet, so two callers can't see each other's intents through them.
+ */
+export async function createIntent(input: CreateIntentInput): Promise<{ intent: Intent; created: boolean }> {
+  const store = getStore();
+  const now = Date.now();
+  const intent: Intent = {
+    id: `int_${now.toString(36)}_${randomBytes(4).toString('hex')}`,
+    operation: input.operation,
+    idempotencyKey: input.idempotencyKey,
+    principal: input.principal,
+    walletId: input.walletId,
+    params: input.params || {},
+    paramsHash: hashParams(input.params || {}),
+    notify: input.notify,
+    state: 'pending',
+    settled: false,
+    bundles: [],
+    signedCount: 0,
+    instanceId: INSTANCE_ID,
+    history: [{ state: 'pending', at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  // Saved before the key is claimed, so a claimed key always has its intent:
+  // a concurrent retry that loses the claim finds it instead of taking over
+  await saveIntent(intent);
+
+  if (input.idempotencyKey) {
+    const keyName = KEYS.IDEMPOTENCY(intent, input.idempotencyKey);
+    const claimed = await store.set(keyName, intent.id, { nx: true, ex: INTENT_TTL_SECONDS });
+    if (!claimed) {
+      const existingId = await store.get<string>(keyName);
+      const existing = existingId ? await getIntent(existingId) : null;
+      if (existing) {
+        await store.del(KEYS.INTENT(intent.id));
+        return { intent: existing, created: false };
+      }
+      // Key outlived its intent (expired) - take it over
+      await store.set(keyName, intent.id, { ex: INTENT_TTL_SECONDS });
+    }
+  }
+
+  await store.sadd(KEYS.INFLIGHT, intent.id);
+  return { intent, created: true };
+}
+
+/**
+ * Apply a change to an intent and persist it
+ */
+export async function updateIntent(
+  id: string,
+  change: (intent: Intent) => void,
+): Promise<Intent | null> {
+  const intent = await getIntent(id);
+  if (!intent) return null;
+  change(intent);
+  await saveIntent(intent);
+  return intent;
+}
+
+export function transition(intent: Intent, state: IntentState, note?: string): void {
+  pushHistory(intent, state, note);
+}
+
+export function pendingBundles(intent: Intent): IntentBundle[] {
+  return intent.bundles.filter(b => b.state === 'submitted');
+}
+
+export function pendingTransactions(intent: Intent): IntentTransaction[] {
+  return (intent.transactions || []).filter(t => t.state === 'submitted');
+}
+
+/**
+ * Whether everything the intent sent landed, or null if it sent nothing.
+ * Superseded bundles and transactions were replaced and don't count.
+ */
+export function sentLanded(intent: Intent): boolean | null {
+  const sent = [
+    ...intent.bundles.filter(b => !b.superseded),
+    ...(intent.transactions || []).filter(t => !t.superseded),
+  ];
+  if (sent.length === 0) return null;
+  return sent.every(s => s.state === 'landed');
+}
+
+/**
+ * Record a failure unless a bundle may still land, in which case the
+ * reconciler decides the outcome.
+ */
+export async function failIntent(id: string, error: string): Promise<void> {
+  await updateIntent(id, (intent) => {
+    intent.error = error;
+    if (intent.settled || pendingBundles(intent).length > 0 || pendingTransactions(intent).length > 0) return;
+    transition(intent, 'failed', error);
+    intent.settled = true;
+  }).catch((err) => {
+    console.warn(`[Journal] Failed to record failure for ${id}:`, err?.message || err);
+  });
+}
+
+// ============ Hooks ============
+
+async function noteCurrent(change: (intent: Intent) => void): Promise<Intent | null> {
+  const intentId = currentIntentId();
+  if (!intentId) return null;
+  try {
+    return await updateIntent(intentId, change);
+  } catch (error: any) {
+    console.warn(`[Journal] Failed to update ${intentId}:`, error?.message || error);
+    return null;
+  }
+}
+
+/**
+ * Called by the signer around each transaction signature
+ */
+export async function noteSigning(phase: 'built' | 'signed'): Promise<void> {
+  await noteCurrent((intent) => {
+    if (phase === 'signed') intent.signedCount++;
+    if (intent.state !== phase) transition(intent, phase);
+  });
+}
+
+/**
+ * Called when a tip is chosen for a bundle about to be built
+ */
+export async function noteTipEstimate(estimate: TipEstimate): Promise<void> {
+  await noteCurrent((intent) => { intent.tip = estimate; });
+}
+
+/**
+ * Called by the Jito client once a bundle is accepted by the block engine
+ */
+export async function noteBundleSubmitted(
+  bundleId: string,
+  details: { signatures: string[]; tipLamports: number },
+): Promise<void> {
+  const intent = await noteCurrent((intent) => {
+    intent.bundles.push({
+      bundleId,
+      state: 'submitted',
+      submittedAt: Date.now(),
+      signatures: details.signatures,
+      tipLamports: details.tipLamports,
+    });
+    transition(intent, 'submitted', bundleId);
+  });
+  const bundle = intent?.bundles.find(b => b.bundleId === bundleId);
+  if (intent && bundle) publishBundleUpdate(intent, bundle);
+}
+
+/**
+ * Called by the Jito client when a bundle's status is known. A timeout
+ * leaves the bundle submitted for the reconciler.
+ */
+export async function noteBundleResult(
+  bundleId: string,
+  result: { landed: boolean; slot?: number; error?: string },
+): Promise<void> {
+  if (!result.landed && result.error?.startsWith('Timeout')) return;
+  let changed = false;
+  const intent = await noteCurrent((intent) => {
+    const bundle = intent.bundles.find(b => b.bundleId === bundleId);
+    if (!bundle || bundle.state !== 'submitted') return;
+    applyBundleResult(intent, bundle, result);
+    changed = true;
+  });
+  const bundle = intent?.bundles.find(b => b.bundleId === bundleId);
+  if (changed && intent && bundle) publishBundleUpdate(intent, bundle);
+}
+
+export function applyBundleResult(
+  intent: Intent,
+  bundle: IntentBundle,
+  result: { landed: boolean; slot?: number; error?: string },
+): void {
+  bundle.state = result.landed ? 'landed' : 'failed';
+  bundle.slot = result.slot;
+  bundle.error = result.error;
+  if (!result.landed) {
+    intent.error = result.error;
+    transition(intent, 'failed', `${bundle.bundleId}: ${result.error || 'not landed'}`);
+  } else if (sentLanded(intent)) {
+    transition(intent, 'landed', `slot ${result.slot ?? 'unknown'}`);
+  }
+}
+
+/**
+ * Called by the submission layer when a dropped bundle is replaced by the
+ * RPC fallback (only once its blockhash expired, so it can't land later)
+ */
+export async function noteBundleSuperseded(bundleId: string, reason: string): Promise<void> {
+  await noteCurrent((intent) => {
+    const bundle = intent.bundles.find(b => b.bundleId === bundleId);
+    if (!bundle) return;
+    bundle.state = 'failed';
+    bundle.error = reason;
+    bundle.superseded = true;
+  });
+}
+
+/**
+ * Called by the submission layer for each transaction sent over RPC
+ */
+export async function noteTransactionSubmitted(signature: string, leg: SubmissionLeg): Promise<void> {
+  const intent = await noteCurrent((intent) => {
+    intent.transactions = intent.transactions || [];
+    intent.transactions.push({ signature, leg, state: 'submitted', submittedAt: Date.now() });
+    transition(intent, 'submitted', `rpc ${leg} ${signature}`);
+  });
+  const tx = intent?.transactions?.find(t => t.signature === signature);
+  if (intent && tx) publishTransactionUpdate(intent, tx);
+}
+
+export async function noteTransactionResult(
+  signature: string,
+  result: { landed: boolean; slot?: number; error?: string },
+): Promise<void> {
+  let changed = false;
+  const intent = await noteCurrent((intent) => {
+    const tx = intent.transactions?.find(t => t.signature === signature);
+    if (!tx || tx.state !== 'submitted') return;
+    applyTransactionResult(intent, tx, result);
+    changed = true;
+  });
+  const tx = intent?.transactions?.find(t => t.signature === signature);
+  if (changed && intent && tx) publishTransactionUpdate(intent, tx);
+}
+
+/**
+ * Called when a failed transaction is replaced by a retry
+ */
+export async function noteTransactionSuperseded(signature: string): Promise<void> {
+  await noteCurrent((intent) => {
+    const tx = intent.transactions?.find(t => t.signature === signature);
+    if (tx) tx.superseded = true;
+  });
+}
+
+export function applyTransactionResult(
+  intent: Intent,
+  tx: IntentTransaction,
+  result: { landed: boolean; slot?: number; error?: string },
+): void {
+  tx.state = result.landed ? 'landed' : 'failed';
+  tx.slot = result.slot;
+  tx.error = result.error;
+  if (!result.landed) {
+    intent.error = result.error;
+    transition(intent, 'failed', `${tx.signature}: ${result.error || 'not landed'}`);
+  } else if (tx.leg !== 'recovery' && sentLanded(intent)) {
+    transition(intent, 'landed', `slot ${result.slot ?? 'unknown'}`);
+  }
+}
+
+/**
+ * Called by the submission layer with how the operation was submitted
+ */
+export async function noteSubmission(report: SubmissionReport): Promise<void> {
+  await noteCurrent((intent) => { intent.submission = report; });
+}
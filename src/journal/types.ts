@@ -0,0 +1,102 @@
+/**
+ * Intent Journal Types
+ */
+
+import type { TipEstimate } from '../jito/tips.js';
+import type { SubmissionLeg, SubmissionReport } from '../submission/types.js';
+
+export type IntentOperation = 'lp' | 'withdraw' | 'rebalance' | 'swap' | 'dca';
+
+/**
+ * Lifecycle of a write operation:
+ * pending -> built -> signed -> submitted -> landed | failed
+ *
+ * Multi-bundle operations (rebalance) go round built/signed/submitted once
+ * per bundle.
+ */
+export type IntentState = 'pending' | 'built' | 'signed' | 'submitted' | 'landed' | 'failed';
+
+export type BundleState = 'submitted' | 'landed' | 'failed';
+
+export interface IntentBundle {
+  bundleId: string;
+  state: BundleState;
+  submittedAt: number;
+  signatures: string[];
+  tipLamports: number;
+  slot?: number;
+  error?: string;
+  /** Dropped and replaced by the RPC fallback; doesn't decide the outcome */
+  superseded?: boolean;
+}
+
+/** A transaction sent on its own over RPC (submission fallback) */
+export interface IntentTransaction {
+  signature: string;
+  leg: SubmissionLeg;
+  state: BundleState;
+  submittedAt: number;
+  slot?: number;
+  error?: string;
+  /** Failed and replaced by a retry; doesn't decide the outcome */
+  superseded?: boolean;
+}
+
+/** Where bundle updates are pushed; defaults to the wallet's registered recipient for async submissions */
+export interface IntentNotifyTarget {
+  webhookUrl?: string;
+  chatId?: number | string;
+}
+
+export interface IntentTransition {
+  state: IntentState;
+  at: number;
+  note?: string;
+}
+
+export interface Intent {
+  id: string;
+  operation: IntentOperation;
+  idempotencyKey?: string;
+  /** API key id the request came in with; idempotency keys are scoped to it and walletId */
+  principal?: string;
+  walletId?: string;
+  params: Record<string, unknown>;
+  /** sha256 of params, to tell a retry from a reused key */
+  paramsHash: string;
+  /** Submitted with async mode: the caller got an operation id, not the result */
+  async?: boolean;
+  notify?: IntentNotifyTarget;
+  /** Latest tip chosen by the estimator for this operation */
+  tip?: TipEstimate;
+  state: IntentState;
+  /** False while the outcome may still change (work running or bundles unconfirmed) */
+  settled: boolean;
+  bundles: IntentBundle[];
+  /** Transactions sent over RPC instead of (or after) a bundle */
+  transactions?: IntentTransaction[];
+  /** How the operation was submitted, including partial states and recovery */
+  submission?: SubmissionReport;
+  signedCount: number;
+  error?: string;
+  instanceId: string;
+  history: IntentTransition[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** What the original caller got back, replayed for retries with the same key */
+export interface IntentResponse {
+  status: number;
+  body: unknown;
+  recordedAt: number;
+}
+
+export interface CreateIntentInput {
+  operation: IntentOperation;
+  idempotencyKey?: string;
+  principal?: string;
+  walletId?: string;
+  params?: Record<string, unknown>;
+  notify?: IntentNotifyTarget;
+}
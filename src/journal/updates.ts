@@ -0,0 +1,96 @@
+/**
+ * Intent Journal Updates
+ *
+ * Pushes a webhook / Telegram update each time one of an intent's bundles
+ * (or, on the RPC fallback, transactions) is submitted, lands or fails. Updates go to the intent's explicit notify
+ * target, or to the wallet's registered recipient for async submissions
+ * (those callers have no other way to learn the outcome). Delivery is
+ * best-effort and never blocks the operation.
+ */
+
+import { sendAlert, sendAlertToTargets, type AlertPayload } from '../notifications/index.js';
+import type { Intent, IntentBundle, IntentTransaction } from './types.js';
+
+const OPERATION_LABELS: Record<Intent['operation'], string> = {
+  lp: 'LP deposit',
+  withdraw: 'Withdrawal',
+  rebalance: 'Rebalance',
+  swap: 'Swap',
+  dca: 'DCA deposit',
+};
+
+export function buildBundleUpdate(intent: Intent, bundle: IntentBundle): AlertPayload {
+  const label = OPERATION_LABELS[intent.operation];
+  const message = bundle.state === 'submitted'
+    ? `${label} sent to Jito, waiting for it to land.`
+    : bundle.state === 'landed'
+      ? `${label} landed on-chain.`
+      : `${label} did not land.`;
+
+  return {
+    event: `operation_${bundle.state}`,
+    walletId: intent.walletId || '',
+    timestamp: new Date().toISOString(),
+    details: { message },
+    operation: {
+      id: intent.id,
+      type: intent.operation,
+      state: intent.state,
+      bundleId: bundle.bundleId,
+      signatures: bundle.signatures,
+      tipLamports: bundle.tipLamports,
+      slot: bundle.slot,
+      error: bundle.error,
+    },
+  };
+}
+
+export function buildTransactionUpdate(intent: Intent, tx: IntentTransaction): AlertPayload {
+  const label = OPERATION_LABELS[intent.operation];
+  const leg = tx.leg === 'recovery' ? 'recovery swap' : `${tx.leg} transaction`;
+  const message = tx.state === 'submitted'
+    ? `${label}: ${leg} sent over RPC, waiting for confirmation.`
+    : tx.state === 'landed'
+      ? `${label}: ${leg} landed on-chain.`
+      : `${label}: ${leg} did not land.`;
+
+  return {
+    event: `operation_${tx.state}`,
+    walletId: intent.walletId || '',
+    timestamp: new Date().toISOString(),
+    details: { message },
+    operation: {
+      id: intent.id,
+      type: intent.operation,
+      state: intent.state,
+      leg: tx.leg,
+      signatures: [tx.signature],
+      tipLamports: 0,
+      slot: tx.slot,
+      error: tx.error,
+    },
+  };
+}
+
+export function publishBundleUpdate(intent: Intent, bundle: IntentBundle): void {
+  publish(intent, () => buildBundleUpdate(intent, bundle));
+}
+
+export function publishTransactionUpdate(intent: Intent, tx: IntentTransaction): void {
+  publish(intent, () => buildTransactionUpdate(intent, tx));
+}
+
+function publish(intent: Intent, build: () => AlertPayload): void {
+  const target = intent.notify;
+  const hasTarget = !!(target?.webhookUrl || target?.chatId);
+  if (!hasTarget && !(intent.async && intent.walletId)) return;
+
+  const payload = build();
+  const delivery = hasTarget
+    ? sendAlertToTargets(target!, payload)
+    : sendAlert(intent.walletId!, payload);
+
+  delivery.catch((error: any) => {
+    console.warn(`[Journal] Update for ${intent.id} not delivered:`, error?.message || error);
+  });
+}
@@ -0,0 +1,298 @@
+/**
+ * Tax & Accounting Export
+ *
+ * Flattens the position ledger into one row per token movement over a date
+ * range, then renders it as generic CSV or in the import formats of Koinly
+ * and CoinTracker.
+ *
+ * How LP activity maps to rows:
+ *   deposit / compound / rebalance-in   tokens sent into the pool (cost basis carried in)
+ *   withdrawal / rebalance-out          tokens received back (proceeds, position basis released)
+ *   fee_claim and fees on withdrawal    income at the price when collected
+ *   protocol fee (fees/index.ts)        cost, sent to the treasury
+ *   swap                                trade (input sent, output received)
+ *   Jito tip                            network fee on the row it paid for, in SOL
+ */
+
+import { resolveTokens } from '../utils/token-metadata.js';
+import { getWalletLedger } from './store.js';
+import type { LedgerEntry, LedgerPosition, PricedAmount } from './types.js';
+
+export type ExportFormat = 'csv' | 'koinly' | 'cointracker';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'koinly', 'cointracker'];
+
+export type ExportRowKind = 'liquidity_in' | 'liquidity_out' | 'fee_income' | 'protocol_fee' | 'trade';
+
+export interface ExportRow {
+  timestamp: number;
+  kind: ExportRowKind;
+  eventType: LedgerEntry['type'];
+  dex: LedgerPosition['dex'];
+  poolAddress: string;
+  positionId: string;
+  sent?: PricedAmount;
+  received?: PricedAmount;
+  networkFeeSol: number; // Jito tip, attached to the first row of its event
+  costBasisUsd: number;
+  proceedsUsd: number;
+  incomeUsd: number;
+  protocolFeeUsd: number;
+  txHash: string;
+}
+
+export interface ExportOptions {
+  from?: number; // Inclusive, ms
+  to?: number; // Inclusive, ms
+}
+
+function usd(a: PricedAmount): number {
+  return a.amount * a.priceUsd;
+}
+
+function round(n: number, digits: number): number {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+}
+
+/**
+ * Turn one position's entries into rows. Basis is tracked across the whole
+ * position so exit rows can release it, even when entries before `from`
+ * are filtered out of the final export.
+ */
+function positionRows(position: LedgerPosition, entries: LedgerEntry[]): ExportRow[] {
+  const rows: ExportRow[] = [];
+  let openBasisUsd = 0;
+
+  for (const entry of entries) {
+    const base = {
+      timestamp: entry.timestamp,
+      eventType: entry.type,
+      dex: position.dex,
+      poolAddress: position.poolAddress,
+      positionId: position.positionId,
+      networkFeeSol: 0,
+      costBasisUsd: 0,
+      proceedsUsd: 0,
+      incomeUsd: 0,
+      protocolFeeUsd: 0,
+      txHash: entry.txHashes[0] || entry.bundleId || '',
+    };
+    const eventRows: ExportRow[] = [];
+    const isEntry = entry.type === 'deposit' || entry.type === 'compound'
+      || (entry.type === 'rebalance' && entry.direction === 'in');
+    const isExit = entry.type === 'withdrawal' || (entry.type === 'rebalance' && entry.direction === 'out');
+
+    if (entry.swap) {
+      eventRows.push({
+        ...base,
+        kind: 'trade',
+        sent: entry.swap.input,
+        received: entry.swap.output,
+        costBasisUsd: usd(entry.swap.input),
+        proceedsUsd: usd(entry.swap.output),
+      });
+    }
+
+    if (isEntry) {
+      for (const token of entry.tokens) {
+        openBasisUsd += usd(token);
+        eventRows.push({ ...base, kind: 'liquidity_in', sent: token, costBasisUsd: usd(token) });
+      }
+    }
+
+    if (isExit) {
+      // Exits close the position, so all remaining basis is released,
+      // split across the returned tokens by value
+      const totalUsd = entry.tokens.reduce((sum, t) => sum + usd(t), 0);
+      const tokens = entry.tokens.filter(t => t.amount > 0);
+      for (const token of tokens) {
+        const share = totalUsd > 0 ? usd(token) / totalUsd : 1 / tokens.length;
+        eventRows.push({
+          ...base,
+          kind: 'liquidity_out',
+          received: token,
+          costBasisUsd: openBasisUsd * share,
+          proceedsUsd: usd(token),
+        });
+      }
+      openBasisUsd = 0;
+    }
+
+    for (const fee of entry.fees) {
+      eventRows.push({ ...base, kind: 'fee_income', received: fee, incomeUsd: usd(fee) });
+    }
+
+    for (const fee of entry.protocolFee) {
+      eventRows.push({ ...base, kind: 'protocol_fee', sent: fee, protocolFeeUsd: usd(fee) });
+    }
+
+    if (eventRows.length > 0 && entry.tipLamports) {
+      eventRows[0].networkFeeSol = entry.tipLamports / 1e9;
+    }
+
+    rows.push(...eventRows);
+  }
+
+  return rows;
+}
+
+/**
+ * All export rows for a wallet within the date range, oldest first
+ */
+export async function buildExportRows(walletAddress: string, options: ExportOptions = {}): Promise<ExportRow[]> {
+  const { from = 0, to = Date.now() } = options;
+  const ledger = await getWalletLedger(walletAddress);
+
+  return ledger
+    .flatMap(({ position, entries }) => positionRows(position, entries))
+    .filter(r => r.timestamp >= from && r.timestamp <= to)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ============ Rendering ============
+
+// Spreadsheets run cells starting with these as formulas; token symbols are
+// self-declared on chain, so they must not be able to inject one
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  let s = String(value);
+  if (FORMULA_PREFIX.test(s) && !PLAIN_NUMBER.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | undefined>>): string {
+  return [header, ...rows].map(r => r.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function amountStr(a: PricedAmount | undefined): string | undefined {
+  return a ? round(a.amount, 9).toString() : undefined;
+}
+
+function usdStr(n: number): string {
+  return round(n, 2).toFixed(2);
+}
+
+// Koinly: "2026-01-31 14:05:00 UTC"
+function koinlyDate(ts: number): string {
+  return new Date(ts).toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+}
+
+// CoinTracker: "01/31/2026 14:05:00" (UTC)
+function coinTrackerDate(ts: number): string {
+  const iso = new Date(ts).toISOString();
+  return `${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(0, 4)} ${iso.slice(11, 19)}`;
+}
+
+const KOINLY_LABELS: Record<ExportRowKind, string> = {
+  liquidity_in: 'liquidity in',
+  liquidity_out: 'liquidity out',
+  fee_income: 'reward',
+  protocol_fee: 'cost',
+  trade: '',
+};
+
+// CoinTracker has no LP tags: liquidity moves import as plain sends/receives
+const COINTRACKER_TAGS: Record<ExportRowKind, string> = {
+  liquidity_in: '',
+  liquidity_out: '',
+  fee_income: 'staked',
+  protocol_fee: '',
+  trade: '',
+};
+
+function describe(row: ExportRow): string {
+  return `${row.dex} ${row.eventType} ${row.positionId.slice(0, 8)} pool ${row.poolAddress}`;
+}
+
+/**
+ * Render rows in the requested format. Currency columns use token symbols
+ * where known and fall back to the mint address.
+ */
+export async function renderExport(rows: ExportRow[], format: ExportFormat): Promise<string> {
+  const mints = [...new Set(rows.flatMap(r => [r.sent?.mint, r.received?.mint]).filter((m): m is string => !!m))];
+  const tokens = await resolveTokens(mints).catch(() => new Map<string, { name: string; symbol: string }>());
+  const symbol = (a: PricedAmount | undefined) => {
+    if (!a) return undefined;
+    const t = tokens.get(a.mint);
+    return t && t.name !== 'Unknown Token' ? t.symbol : a.mint;
+  };
+  const fee = (r: ExportRow) => r.networkFeeSol > 0 ? round(r.networkFeeSol, 9).toString() : undefined;
+  const feeCurrency = (r: ExportRow) => r.networkFeeSol > 0 ? 'SOL' : undefined;
+
+  if (format === 'koinly') {
+    return toCsv(
+      ['Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency', 'Fee Amount', 'Fee Currency',
+        'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash'],
+      rows.map(r => [
+        koinlyDate(r.timestamp),
+        amountStr(r.sent), symbol(r.sent),
+        amountStr(r.received), symbol(r.received),
+        fee(r), feeCurrency(r),
+        usdStr(r.received ? usd(r.received) : r.sent ? usd(r.sent) : 0), 'USD',
+        KOINLY_LABELS[r.kind], describe(r), r.txHash,
+      ]),
+    );
+  }
+
+  if (format === 'cointracker') {
+    return toCsv(
+      ['Date', 'Received Quantity', 'Received Currency', 'Sent Quantity', 'Sent Currency', 'Fee Amount', 'Fee Currency', 'Tag'],
+      rows.map(r => [
+        coinTrackerDate(r.timestamp),
+        amountStr(r.received), symbol(r.received),
+        amountStr(r.sent), symbol(r.sent),
+        fee(r), feeCurrency(r),
+        COINTRACKER_TAGS[r.kind],
+      ]),
+    );
+  }
+
+  return toCsv(
+    ['date', 'type', 'event', 'dex', 'pool', 'position', 'sent_amount', 'sent_token', 'sent_mint',
+      'received_amount', 'received_token', 'received_mint', 'network_fee_sol',
+      'cost_basis_usd', 'proceeds_usd', 'fee_income_usd', 'protocol_fee_usd', 'tx'],
+    rows.map(r => [
+      new Date(r.timestamp).toISOString(), r.kind, r.eventType, r.dex, r.poolAddress, r.positionId,
+      amountStr(r.sent), symbol(r.sent), r.sent?.mint,
+      amountStr(r.received), symbol(r.received), r.received?.mint,
+      fee(r),
+      usdStr(r.costBasisUsd), usdStr(r.proceedsUsd), usdStr(r.incomeUsd), usdStr(r.protocolFeeUsd),
+      r.txHash,
+    ]),
+  );
+}
+
+/**
+ * Build and render a wallet's export in one call
+ */
+export async function exportWalletActivity(
+  walletAddress: string,
+  format: ExportFormat,
+  options: ExportOptions = {},
+): Promise<{ csv: string; rowCount: number; filename: string }> {
+  const rows = await buildExportRows(walletAddress, options);
+  const csv = await renderExport(rows, format);
+  const day = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+  const range = `${day(options.from ?? rows[0]?.timestamp ?? Date.now())}_${day(options.to ?? Date.now())}`;
+
+  return {
+    csv,
+    rowCount: rows.length,
+    filename: `lp-${format}-${walletAddress.slice(0, 8)}-${range}.csv`,
+  };
+}
+
+/**
+ * Parse a date bound from a query or command argument: YYYY-MM-DD, full
+ * ISO or ms timestamp. `endOfDay` makes a bare date inclusive of that day.
+ */
+export function parseExportDate(value: string | undefined, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value);
+  const ms = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value);
+  return Number.isNaN(ms) ? undefined : ms;
+}
@@ -0,0 +1,162 @@
+/**
+ * Position Ledger
+ *
+ * Append-only record of everything that moves value in or out of an LP
+ * position: deposits, the swap legs that funded them, fee claims,
+ * compounds, rebalances and withdrawals. Every entry is priced in USD when
+ * it is recorded, so PnL can be reported against real entry prices instead
+ * of today's.
+ *
+ * Recording never throws: a ledger failure is logged and the LP operation
+ * that triggered it still succeeds.
+ */
+
+import { getTokenPrices } from '../utils/prices.js';
+import { appendEntry, ensurePosition, markPositionClosed, type PositionRef } from './store.js';
+import type { LpEntryFlows, LpExitFlows, PricedAmount, TokenFlow } from './types.js';
+
+export * from './types.js';
+export { getPositionEntries, getLedgerPosition, getWalletLedger } from './store.js';
+export { computePositionPnl, getWalletPnl } from './pnl.js';
+export {
+  buildExportRows,
+  renderExport,
+  exportWalletActivity,
+  parseExportDate,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportRow,
+  type ExportOptions,
+} from './export.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/**
+ * Convert a base-unit amount (lamports, token atoms) to UI units
+ */
+export function fromBaseUnits(amount: string | number | { toString(): string }, decimals: number): number {
+  return Number(amount.toString()) / Math.pow(10, decimals);
+}
+
+// ============ Pricing ============
+
+async function fetchPrices(mints: string[]): Promise<Map<string, number>> {
+  try {
+    return await getTokenPrices([...new Set(mints)]);
+  } catch (error: any) {
+    console.warn('[Ledger] Price lookup failed, recording without prices:', error.message);
+    return new Map();
+  }
+}
+
+function price(flow: TokenFlow, prices: Map<string, number>): PricedAmount {
+  return { mint: flow.mint, amount: flow.amount, priceUsd: prices.get(flow.mint) || 0 };
+}
+
+/**
+ * Fill in prices the oracle doesn't know from the swap that produced the
+ * token (e.g. a fresh memecoin bought with SOL)
+ */
+function impliedPricesFromSwaps(swaps: LpEntryFlows['swaps'], prices: Map<string, number>): void {
+  for (const { input, output } of swaps) {
+    const inputPrice = prices.get(input.mint);
+    if (!prices.get(output.mint) && inputPrice && output.amount > 0) {
+      prices.set(output.mint, (input.amount * inputPrice) / output.amount);
+    }
+  }
+}
+
+// ============ Recording ============
+
+/**
+ * Record liquidity added to a position: a new deposit, a compound of
+ * claimed fees, or the re-entry side of a rebalance. Swap legs that funded
+ * it are recorded first, each as its own entry.
+ */
+export async function recordLpEntry(params: PositionRef & {
+  type?: 'deposit' | 'compound' | 'rebalance';
+  flows: LpEntryFlows;
+  relatedPositionId?: string; // Rebalance: the position that was closed
+}): Promise<void> {
+  const { flows, type = 'deposit', relatedPositionId } = params;
+
+  try {
+    const mints = [flows.tokenX.mint, flows.tokenY.mint];
+    const prices = await fetchPrices([...mints, SOL_MINT, ...flows.swaps.map(s => s.input.mint)]);
+    impliedPricesFromSwaps(flows.swaps, prices);
+
+    await ensurePosition(params, mints);
+
+    for (const swap of flows.swaps) {
+      await appendEntry(params, 'swap', {
+        swap: { input: price(swap.input, prices), output: price(swap.output, prices) },
+      });
+    }
+
+    await appendEntry(params, type, {
+      tokens: [price(flows.tokenX, prices), price(flows.tokenY, prices)].filter(t => t.amount > 0),
+      costUsd: fromBaseUnits(flows.tipLamports, 9) * (prices.get(SOL_MINT) || 0),
+      tipLamports: flows.tipLamports || undefined,
+      direction: type === 'rebalance' ? 'in' : undefined,
+      relatedPositionId,
+    });
+
+    console.log(`[Ledger] Recorded ${type} for ${params.dex} position ${params.positionId.slice(0, 8)}...`);
+  } catch (error: any) {
+    console.error(`[Ledger] Failed to record ${type} for ${params.positionId}:`, error.message);
+  }
+}
+
+/**
+ * Record a position being emptied: a withdrawal, or the exit side of a
+ * rebalance. Marks the position closed.
+ */
+export async function recordLpExit(params: PositionRef & {
+  type?: 'withdrawal' | 'rebalance';
+  flows: LpExitFlows;
+  relatedPositionId?: string; // Rebalance: the position that replaced this one
+}): Promise<void> {
+  const { flows, type = 'withdrawal', relatedPositionId } = params;
+
+  try {
+    const mints = [flows.tokenX.mint, flows.tokenY.mint];
+    const prices = await fetchPrices([...mints, SOL_MINT, ...flows.swaps.map(s => s.output.mint)]);
+
+    await appendEntry(params, type, {
+      tokens: [price(flows.tokenX, prices), price(flows.tokenY, prices)],
+      fees: flows.fees.filter(f => f.amount > 0).map(f => price(f, prices)),
+      protocolFee: flows.protocolFee.filter(f => f.amount > 0).map(f => price(f, prices)),
+      costUsd: fromBaseUnits(flows.tipLamports, 9) * (prices.get(SOL_MINT) || 0),
+      tipLamports: flows.tipLamports || undefined,
+      direction: type === 'rebalance' ? 'out' : undefined,
+      relatedPositionId,
+    });
+
+    for (const swap of flows.swaps) {
+      await appendEntry(params, 'swap', {
+        swap: { input: price(swap.input, prices), output: price(swap.output, prices) },
+      });
+    }
+
+    await markPositionClosed(params, mints);
+    console.log(`[Ledger] Recorded ${type} for ${params.dex} position ${params.positionId.slice(0, 8)}...`);
+  } catch (error: any) {
+    console.error(`[Ledger] Failed to record ${type} for ${params.positionId}:`, error.message);
+  }
+}
+
+/**
+ * Record fees claimed from a position without removing liquidity
+ */
+export async function recordFeeClaim(params: PositionRef & { fees: TokenFlow[] }): Promise<void> {
+  try {
+    const fees = params.fees.filter(f => f.amount > 0);
+    if (fees.length === 0) return;
+
+    const prices = await fetchPrices(fees.map(f => f.mint));
+    await appendEntry(params, 'fee_claim', { fees: fees.map(f => price(f, prices)) });
+    console.log(`[Ledger] Recorded fee claim for ${params.dex} position ${params.positionId.slice(0, 8)}...`);
+  } catch (error: any) {
+    console.error(`[Ledger] Failed to record fee claim for ${params.positionId}:`, error.message);
+  }
+}
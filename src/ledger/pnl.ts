@@ -0,0 +1,193 @@
+/**
+ * Position PnL
+ *
+ * Turns ledger entries plus live position values into realized and
+ * unrealized PnL, fees earned, IL versus holding the deposited tokens,
+ * and net APR since open.
+ *
+ *   cost basis   = deposits (and rebalance re-entries) at entry prices
+ *   reinvested   = compounds (claimed fees put back in)
+ *   costs        = Jito tips + swap slippage + protocol fees
+ *   realized     = withdrawn + fees claimed - cost basis - reinvested - costs   (closed)
+ *                  fees claimed - reinvested - costs                            (open)
+ *   unrealized   = current value + unclaimed fees - cost basis                  (open)
+ *   IL           = position value (ex fees) - value of the deposited tokens held
+ */
+
+import { getTokenPrices } from '../utils/prices.js';
+import { getWalletLedger } from './store.js';
+import type {
+  LedgerEntry,
+  LedgerPosition,
+  LivePositionValue,
+  PositionPnl,
+  PricedAmount,
+  WalletPnl,
+} from './types.js';
+
+const DAY_MS = 86_400_000;
+const MIN_DAYS = 1 / 24; // Floor so a fresh position doesn't annualize to absurd APRs
+
+function sumUsd(amounts: PricedAmount[]): number {
+  return amounts.reduce((sum, a) => sum + a.amount * a.priceUsd, 0);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function isEntrySide(entry: LedgerEntry): boolean {
+  return entry.type === 'deposit' || (entry.type === 'rebalance' && entry.direction === 'in');
+}
+
+function isExitSide(entry: LedgerEntry): boolean {
+  return entry.type === 'withdrawal' || (entry.type === 'rebalance' && entry.direction === 'out');
+}
+
+/**
+ * Compute PnL for one position.
+ * `prices` are current USD prices, used to value the HODL basket of open positions.
+ */
+export function computePositionPnl(
+  position: LedgerPosition,
+  entries: LedgerEntry[],
+  live: LivePositionValue | undefined,
+  prices: Map<string, number>,
+  now = Date.now(),
+): PositionPnl {
+  let costBasisUsd = 0;
+  let reinvestedUsd = 0;
+  let withdrawnUsd = 0;
+  let feesClaimedUsd = 0;
+  let costsUsd = 0;
+  const holdings = new Map<string, number>();
+  const exitPrices = new Map<string, number>();
+
+  for (const entry of entries) {
+    const tokensUsd = sumUsd(entry.tokens);
+
+    if (isEntrySide(entry)) costBasisUsd += tokensUsd;
+    if (entry.type === 'compound') reinvestedUsd += tokensUsd;
+    if (isEntrySide(entry) || entry.type === 'compound') {
+      for (const t of entry.tokens) holdings.set(t.mint, (holdings.get(t.mint) || 0) + t.amount);
+    }
+    if (isExitSide(entry)) {
+      withdrawnUsd += tokensUsd;
+      for (const t of entry.tokens) exitPrices.set(t.mint, t.priceUsd);
+    }
+
+    feesClaimedUsd += sumUsd(entry.fees);
+    costsUsd += entry.costUsd + sumUsd(entry.protocolFee);
+    if (entry.swap) {
+      costsUsd += sumUsd([entry.swap.input]) - sumUsd([entry.swap.output]);
+    }
+  }
+
+  const closed = !!position.closedAt;
+  const status: PositionPnl['status'] = closed ? 'closed' : live ? 'open' : 'missing';
+  const currentValueUsd = status === 'open' ? live!.valueUsd : 0;
+  const unclaimedFeesUsd = status === 'open' ? live!.feesUsd : 0;
+
+  // HODL: what the deposited tokens would be worth now (or at exit)
+  let holdValueUsd = 0;
+  for (const [mint, amount] of holdings) {
+    const p = closed ? (exitPrices.get(mint) ?? prices.get(mint) ?? 0) : (prices.get(mint) ?? 0);
+    holdValueUsd += amount * p;
+  }
+
+  // IL can't be measured for a position we can no longer see
+  const positionValueUsd = closed ? withdrawnUsd : currentValueUsd;
+  const ilUsd = status === 'missing' ? 0 : positionValueUsd - holdValueUsd;
+  const ilPercent = status !== 'missing' && holdValueUsd > 0 ? (ilUsd / holdValueUsd) * 100 : 0;
+
+  const realizedPnlUsd = closed
+    ? withdrawnUsd + feesClaimedUsd - costBasisUsd - reinvestedUsd - costsUsd
+    : feesClaimedUsd - reinvestedUsd - costsUsd;
+  const unrealizedPnlUsd = status === 'open' ? currentValueUsd + unclaimedFeesUsd - costBasisUsd : 0;
+  const netPnlUsd = realizedPnlUsd + unrealizedPnlUsd;
+
+  const daysOpen = Math.max(((position.closedAt ?? now) - position.openedAt) / DAY_MS, MIN_DAYS);
+  const capitalUsd = costBasisUsd + reinvestedUsd;
+  const netAprPercent = capitalUsd > 0 ? (netPnlUsd / capitalUsd) * (365 / daysOpen) * 100 : 0;
+
+  return {
+    positionId: position.positionId,
+    poolAddress: position.poolAddress,
+    dex: position.dex,
+    status,
+    openedAt: new Date(position.openedAt).toISOString(),
+    closedAt: position.closedAt ? new Date(position.closedAt).toISOString() : undefined,
+    daysOpen: Math.round(daysOpen * 100) / 100,
+    costBasisUsd: round2(costBasisUsd),
+    reinvestedUsd: round2(reinvestedUsd),
+    currentValueUsd: round2(currentValueUsd),
+    withdrawnUsd: round2(withdrawnUsd),
+    feesClaimedUsd: round2(feesClaimedUsd),
+    unclaimedFeesUsd: round2(unclaimedFeesUsd),
+    feesEarnedUsd: round2(feesClaimedUsd + unclaimedFeesUsd),
+    costsUsd: round2(costsUsd),
+    holdValueUsd: round2(holdValueUsd),
+    ilUsd: round2(ilUsd),
+    ilPercent: round2(ilPercent),
+    realizedPnlUsd: round2(realizedPnlUsd),
+    unrealizedPnlUsd: round2(unrealizedPnlUsd),
+    netPnlUsd: round2(netPnlUsd),
+    netAprPercent: round2(netAprPercent),
+  };
+}
+
+/**
+ * PnL for every ledger position of a wallet.
+ *
+ * @param live - Current value of the wallet's on-chain positions, keyed by
+ *   position account (Meteora) or position NFT mint (Orca, Raydium)
+ * @param prices - Current USD prices already fetched by the caller; missing
+ *   mints are looked up
+ */
+export async function getWalletPnl(
+  walletAddress: string,
+  live: LivePositionValue[],
+  prices: Map<string, number> = new Map(),
+): Promise<WalletPnl> {
+  const ledger = await getWalletLedger(walletAddress);
+
+  const missingMints = [...new Set(ledger.flatMap(l => l.position.mints))].filter(m => !prices.has(m));
+  if (missingMints.length > 0) {
+    try {
+      const fetched = await getTokenPrices(missingMints);
+      for (const [mint, p] of fetched) prices.set(mint, p);
+    } catch (error: any) {
+      console.warn('[Ledger] Failed to fetch current prices for PnL:', error.message);
+    }
+  }
+
+  const liveById = new Map(live.map(l => [l.positionId, l]));
+  const now = Date.now();
+  const positions = ledger.map(({ position, entries }) =>
+    computePositionPnl(position, entries, liveById.get(position.positionId), prices, now),
+  );
+
+  const total = (key: keyof PositionPnl) =>
+    round2(positions.reduce((sum, p) => sum + (p[key] as number), 0));
+
+  // APR weighted by capital x time deployed
+  const capitalDays = positions.reduce((sum, p) => sum + (p.costBasisUsd + p.reinvestedUsd) * p.daysOpen, 0);
+  const netPnlUsd = total('netPnlUsd');
+
+  return {
+    walletAddress,
+    positionCount: positions.length,
+    openCount: positions.filter(p => p.status === 'open').length,
+    closedCount: positions.filter(p => p.status === 'closed').length,
+    costBasisUsd: total('costBasisUsd'),
+    currentValueUsd: total('currentValueUsd'),
+    feesEarnedUsd: total('feesEarnedUsd'),
+    costsUsd: total('costsUsd'),
+    ilUsd: total('ilUsd'),
+    realizedPnlUsd: total('realizedPnlUsd'),
+    unrealizedPnlUsd: total('unrealizedPnlUsd'),
+    netPnlUsd,
+    netAprPercent: capitalDays > 0 ? round2((netPnlUsd / capitalDays) * 365 * 100) : 0,
+    positions,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Ledger Storage
+ *
+ * Keyspace:
+ *   lp-toolkit:ledger:position:<id>          LedgerPosition
+ *   lp-toolkit:ledger:position:<id>:entries  List of LedgerEntry (newest first)
+ *   lp-toolkit:ledger:wallet:<address>       Set of position ids
+ */
+
+import { getStore } from '../storage/index.js';
+import type { LedgerDex, LedgerEntry, LedgerEventType, LedgerPosition } from './types.js';
+
+const KEYS = {
+  ENTRIES: (positionId: string) => `lp-toolkit:ledger:position:${positionId}:entries`,
+  POSITION: (positionId: string) => `lp-toolkit:ledger:position:${positionId}`,
+  WALLET: (walletAddress: string) => `lp-toolkit:ledger:wallet:${walletAddress}`,
+};
+
+export interface PositionRef {
+  walletAddress: string;
+  positionId: string;
+  poolAddress: string;
+  dex: LedgerDex;
+  txHashes?: string[];
+  bundleId?: string;
+}
+
+/**
+ * Append an entry to a position's ledger
+ */
+export async function appendEntry(
+  ref: PositionRef,
+  type: LedgerEventType,
+  fields: Partial<Pick<LedgerEntry, 'tokens' | 'fees' | 'protocolFee' | 'swap' | 'costUsd' | 'tipLamports' | 'direction' | 'relatedPositionId'>>,
+): Promise<LedgerEntry> {
+  const entry: LedgerEntry = {
+    id: `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    positionId: ref.positionId,
+    walletAddress: ref.walletAddress,
+    poolAddress: ref.poolAddress,
+    dex: ref.dex,
+    timestamp: Date.now(),
+    tokens: [],
+    fees: [],
+    protocolFee: [],
+    costUsd: 0,
+    txHashes: ref.txHashes || [],
+    bundleId: ref.bundleId,
+    ...fields,
+  };
+
+  await getStore().lpush(KEYS.ENTRIES(ref.positionId), entry);
+  return entry;
+}
+
+/**
+ * Create the position record on first sight (no-op if it exists)
+ */
+export async function ensurePosition(ref: PositionRef, mints: string[]): Promise<void> {
+  const client = getStore();
+  const existing = await client.get<LedgerPosition>(KEYS.POSITION(ref.positionId));
+  if (existing) return;
+
+  const position: LedgerPosition = {
+    positionId: ref.positionId,
+    walletAddress: ref.walletAddress,
+    poolAddress: ref.poolAddress,
+    dex: ref.dex,
+    mints,
+    openedAt: Date.now(),
+  };
+  await client.set(KEYS.POSITION(ref.positionId), position);
+  await client.sadd(KEYS.WALLET(ref.walletAddress), ref.positionId);
+}
+
+export async function markPositionClosed(ref: PositionRef, mints: string[]): Promise<void> {
+  const client = getStore();
+  await ensurePosition(ref, mints);
+  const position = await client.get<LedgerPosition>(KEYS.POSITION(ref.positionId));
+  if (position && !position.closedAt) {
+    position.closedAt = Date.now();
+    await client.set(KEYS.POSITION(ref.positionId), position);
+  }
+}
+
+// ============ Queries ============
+
+/**
+ * Get a position's entries, oldest first
+ */
+export async function getPositionEntries(positionId: string): Promise<LedgerEntry[]> {
+  const entries = await getStore().lrange<LedgerEntry>(KEYS.ENTRIES(positionId), 0, -1);
+  return entries.reverse();
+}
+
+export async function getLedgerPosition(positionId: string): Promise<LedgerPosition | null> {
+  return getStore().get<LedgerPosition>(KEYS.POSITION(positionId));
+}
+
+/**
+ * Get every position a wallet has opened through the toolkit, with entries
+ */
+export async function getWalletLedger(walletAddress: string): Promise<Array<{ position: LedgerPosition; entries: LedgerEntry[] }>> {
+  const positionIds = await getStore().smembers<string>(KEYS.WALLET(walletAddress));
+
+  const ledger = await Promise.all(positionIds.map(async (positionId) => {
+    const [position, entries] = await Promise.all([
+      getLedgerPosition(positionId),
+      getPositionEntries(positionId),
+    ]);
+    return position ? { position, entries } : null;
+  }));
+
+  return ledger
+    .filter((p): p is { position: LedgerPosition; entries: LedgerEntry[] } => !!p)
+    .sort((a, b) => a.position.openedAt - b.position.openedAt);
+}
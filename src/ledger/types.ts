@@ -0,0 +1,128 @@
+/**
+ * Ledger Types
+ */
+
+export type LedgerEventType = 'deposit' | 'swap' | 'fee_claim' | 'compound' | 'rebalance' | 'withdrawal';
+
+export type LedgerDex = 'meteora' | 'orca' | 'raydium' | 'damm';
+
+/** A token amount in UI units (not base units) */
+export interface TokenFlow {
+  mint: string;
+  amount: number;
+}
+
+/** A swap leg executed as part of an LP action */
+export interface SwapFlow {
+  input: TokenFlow;
+  output: TokenFlow;
+}
+
+/**
+ * What a built LP entry commits to a position. Returned by the atomic
+ * builders so the executing service can record it once the bundle lands.
+ */
+export interface LpEntryFlows {
+  tokenX: TokenFlow;
+  tokenY: TokenFlow;
+  swaps: SwapFlow[];
+  tipLamports: number;
+}
+
+/** What leaves a position when it is withdrawn */
+export interface LpExitFlows {
+  tokenX: TokenFlow; // Principal returned
+  tokenY: TokenFlow;
+  fees: TokenFlow[]; // Fees collected by the same transactions
+  protocolFee: TokenFlow[]; // Toolkit fee taken from the withdrawal (see fees/index.ts)
+  swaps: SwapFlow[];
+  tipLamports: number;
+}
+
+/** A token amount priced in USD at the time of the event */
+export interface PricedAmount extends TokenFlow {
+  priceUsd: number;
+}
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEventType;
+  positionId: string; // Position account (Meteora) or position NFT mint (Orca, Raydium)
+  walletAddress: string;
+  poolAddress: string;
+  dex: LedgerDex;
+  timestamp: number;
+  /** Principal moved into (deposit, compound) or out of (withdrawal) the position */
+  tokens: PricedAmount[];
+  /** Fees realized by this event */
+  fees: PricedAmount[];
+  protocolFee: PricedAmount[];
+  swap?: { input: PricedAmount; output: PricedAmount };
+  /** Jito tip and other execution costs */
+  costUsd: number;
+  tipLamports?: number;
+  /** Rebalances only: which side of the move this entry is */
+  direction?: 'in' | 'out';
+  relatedPositionId?: string;
+  txHashes: string[];
+  bundleId?: string;
+}
+
+export interface LedgerPosition {
+  positionId: string;
+  walletAddress: string;
+  poolAddress: string;
+  dex: LedgerDex;
+  mints: string[];
+  openedAt: number;
+  closedAt?: number;
+}
+
+/** Live on-chain state of a position, supplied by the caller */
+export interface LivePositionValue {
+  positionId: string;
+  valueUsd: number;
+  feesUsd: number; // Unclaimed
+}
+
+export interface PositionPnl {
+  positionId: string;
+  poolAddress: string;
+  dex: LedgerDex;
+  status: 'open' | 'closed' | 'missing'; // missing = ledger says open but not found on-chain
+  openedAt: string;
+  closedAt?: string;
+  daysOpen: number;
+  costBasisUsd: number;
+  reinvestedUsd: number;
+  currentValueUsd: number;
+  withdrawnUsd: number;
+  feesClaimedUsd: number;
+  unclaimedFeesUsd: number;
+  feesEarnedUsd: number;
+  costsUsd: number; // Tips, swap slippage and protocol fees
+  holdValueUsd: number;
+  ilUsd: number;
+  ilPercent: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  netPnlUsd: number;
+  netAprPercent: number;
+}
+
+export interface WalletPnl {
+  walletAddress: string;
+  positionCount: number;
+  openCount: number;
+  closedCount: number;
+  costBasisUsd: number;
+  currentValueUsd: number;
+  feesEarnedUsd: number;
+  costsUsd: number;
+  ilUsd: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  netPnlUsd: number;
+  netAprPercent: number;
+  positions: PositionPnl[];
+}
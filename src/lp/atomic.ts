@@ -20,8 +20,10 @@ import { buildTipTransaction, TipSpeed } from '../jito/index.js';
 import { optimizeComputeBudget, buildComputeBudgetInstructions } from '../utils/priority-fees.js';
 import { getCachedDLMM } from '../services/pool-cache.js';
 import { getConnection } from '../services/connection-pool.js';
+import { assertSupportedMints, getMintProfiles, netAfterTransferFee } from '../utils/token-extensions.js';
+import type { LpEntryFlows, SwapFlow } from '../ledger/types.js';
 
-const JUPITER_API = 'https://api.jup.ag/swap/v1';
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
 
 export interface AtomicLPParams {
   walletAddress: string;
@@ -40,7 +42,9 @@ export interface AtomicLPParams {
 export interface BuiltAtomicLP {
   unsignedTransactions: string[]; // Base64 encoded unsigned txs
   positionKeypair: string; // Secret key for the new position
+  positionAddress: string;
   binRange: { min: number; max: number };
+  flows: LpEntryFlows; // What lands in the position, for the PnL ledger
   encryptedStrategy?: any;
 }
 
@@ -56,7 +60,7 @@ async function getSwapQuote(params: {
 }): Promise<any> {
   const { inputMint, outputMint, amount, slippageBps = 100, excludeDexes } = params;
   
-  const url = new URL(`${JUPITER_API}/quote`);
+  const url = new URL(`${config.jupiter.baseUrl}/quote`);
   url.searchParams.set('inputMint', inputMint);
   url.searchParams.set('outputMint', outputMint);
   url.searchParams.set('amount', amount.toString());
@@ -90,7 +94,7 @@ async function getSwapTransaction(params: {
     headers['x-api-key'] = config.jupiter.apiKey;
   }
   
-  const response = await fetch(`${JUPITER_API}/swap`, {
+  const response = await fetch(`${config.jupiter.baseUrl}/swap`, {
     method: 'POST',
     headers,
     body: JSON.stringify({
@@ -123,6 +127,12 @@ export async function buildAtomicLP(params: AtomicLPParams): Promise<BuiltAtomic
   const [tokenXMint, tokenYMint] = [pool.tokenX.publicKey.toBase58(), pool.tokenY.publicKey.toBase58()];
   const [decimalsX, decimalsY] = [pool.tokenX.mint.decimals, pool.tokenY.mint.decimals];
   const halfCollateral = Math.floor(collateralAmount / 2);
+  const collateralDecimals = collateralMint === tokenXMint ? decimalsX : collateralMint === tokenYMint ? decimalsY : 9;
+  const swaps: SwapFlow[] = [];
+
+  // Token-2022: refuse unsupported hooks; swap outputs arrive net of transfer fees
+  const [profileX, profileY] = await getMintProfiles(connection, [tokenXMint, tokenYMint]);
+  assertSupportedMints([profileX, profileY]);
 
   const { blockhash } = await connection.getLatestBlockhash('finalized');
   const unsignedTransactions: VersionedTransaction[] = [];
@@ -140,7 +150,11 @@ export async function buildAtomicLP(params: AtomicLPParams): Promise<BuiltAtomic
     const swapTxX_b64 = await getSwapTransaction({ quoteResponse: quoteX, userPublicKey: walletAddress });
     unsignedTransactions.push(VersionedTransaction.deserialize(Buffer.from(swapTxX_b64, 'base64')));
     // Use minimum guaranteed output (after slippage) for LP amounts to avoid insufficient funds
-    amountXToLP = new BN(quoteX.otherAmountThreshold || quoteX.outAmount);
+    amountXToLP = netAfterTransferFee(profileX, new BN(quoteX.otherAmountThreshold || quoteX.outAmount));
+    swaps.push({
+      input: { mint: collateralMint, amount: halfCollateral / 10 ** collateralDecimals },
+      output: { mint: tokenXMint, amount: Number(netAfterTransferFee(profileX, new BN(quoteX.outAmount)).toString()) / 10 ** decimalsX },
+    });
   } else {
     amountXToLP = new BN(halfCollateral);
   }
@@ -151,7 +165,11 @@ export async function buildAtomicLP(params: AtomicLPParams): Promise<BuiltAtomic
     const swapTxY_b64 = await getSwapTransaction({ quoteResponse: quoteY, userPublicKey: walletAddress });
     unsignedTransactions.push(VersionedTransaction.deserialize(Buffer.from(swapTxY_b64, 'base64')));
     // Use minimum guaranteed output (after slippage) for LP amounts to avoid insufficient funds
-    amountYToLP = new BN(quoteY.otherAmountThreshold || quoteY.outAmount);
+    amountYToLP = netAfterTransferFee(profileY, new BN(quoteY.otherAmountThreshold || quoteY.outAmount));
+    swaps.push({
+      input: { mint: collateralMint, amount: halfCollateral / 10 ** collateralDecimals },
+      output: { mint: tokenYMint, amount: Number(netAfterTransferFee(profileY, new BN(quoteY.outAmount)).toString()) / 10 ** decimalsY },
+    });
   } else {
     amountYToLP = new BN(halfCollateral);
   }
@@ -206,15 +224,29 @@ export async function buildAtomicLP(params: AtomicLPParams): Promise<BuiltAtomic
   unsignedTransactions.push(lpTx);
 
   // 5. Build Tip transaction (skip when sending directly via RPC)
+  let tipLamports = 0;
   if (!skipTip) {
-    const { transaction: tipTx } = buildTipTransaction({ payerAddress: walletAddress, recentBlockhash: blockhash, speed: tipSpeed });
-    unsignedTransactions.push(tipTx);
+    const tip = await buildTipTransaction({
+      payerAddress: walletAddress,
+      recentBlockhash: blockhash,
+      speed: tipSpeed,
+      valueLamports: collateralMint === SOL_MINT ? collateralAmount : undefined,
+    });
+    unsignedTransactions.push(tip.transaction);
+    tipLamports = tip.tipLamports;
   }
 
   return {
     unsignedTransactions: unsignedTransactions.map(tx => Buffer.from(tx.serialize()).toString('base64')),
     positionKeypair: Buffer.from(positionKeypair.secretKey).toString('base64'),
+    positionAddress: positionKeypair.publicKey.toBase58(),
     binRange: { min: minBin, max: maxBin },
+    flows: {
+      tokenX: { mint: tokenXMint, amount: Number(amountXToLP.toString()) / 10 ** decimalsX },
+      tokenY: { mint: tokenYMint, amount: Number(amountYToLP.toString()) / 10 ** decimalsY },
+      swaps,
+      tipLamports,
+    },
     encryptedStrategy: { ciphertext: encrypted.ciphertext.slice(0, 32) + '...' },
   };
 }
@@ -6,6 +6,10 @@
  * 
  * If Phase 1 succeeds but Phase 2 fails, tokens are safe in wallet.
  * The endpoint returns clear status so the agent can retry Phase 2.
+ *
+ * Meteora DLMM and Raydium CLMM positions are supported. For Raydium the
+ * range offsets count tick-spacing steps from the current tick, and
+ * "bin" ranges in the result are tick indexes.
  */
 
 import { Connection, PublicKey } from '@solana/web3.js';
@@ -15,16 +19,29 @@ import { config } from '../config/index.js';
 import { arciumPrivacy } from '../privacy/index.js';
 import { buildAtomicWithdraw } from './atomicWithdraw.js';
 import { buildAtomicLP } from './atomic.js';
-import { sendBundle, sendBundleWithSimulation, waitForBundle, TipSpeed } from '../jito/index.js';
+import { sendBundle, sendBundleWithSimulation, waitForBundle, expectedWithdrawals, TipSpeed, type SimulationReport } from '../jito/index.js';
 import { FEE_CONFIG } from '../fees/index.js';
 import { getCachedDLMM, invalidatePoolCache } from '../services/pool-cache.js';
 import { getConnection } from '../services/connection-pool.js';
+import {
+  buildRaydiumOpenPosition,
+  buildRaydiumWithdraw,
+  fetchRaydiumPositionState,
+  quoteRaydiumClaimableFees,
+  tickToPrice,
+} from '../raydium/index.js';
+import type { LpEntryFlows, LpExitFlows } from '../ledger/types.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+// Left in the wallet for fees when re-entering with native SOL
+const SOL_FEE_RESERVE_LAMPORTS = 20_000_000;
 
 export interface RebalanceParams {
   walletAddress: string;
   walletId: string;
   poolAddress: string;
-  positionAddress: string;
+  positionAddress: string; // Raydium: the position NFT mint
+  dex?: 'meteora' | 'raydium';
   newMinBinOffset?: number;
   newMaxBinOffset?: number;
   strategy?: 'concentrated' | 'wide';
@@ -42,6 +59,7 @@ export interface RebalanceResult {
     bundleId?: string;
     slot?: number;
     error?: string;
+    simulation?: SimulationReport; // Pre-flight simulation of the bundle that was sent
   };
   phase2: {
     status: 'success' | 'failed' | 'skipped';
@@ -49,6 +67,7 @@ export interface RebalanceResult {
     slot?: number;
     newPositionAddress?: string;
     error?: string;
+    simulation?: SimulationReport;
   };
   oldPosition: {
     address: string;
@@ -62,6 +81,11 @@ export interface RebalanceResult {
     tokenX: string;
     tokenY: string;
   };
+  // Token flows of each completed phase, for the PnL ledger
+  flows?: {
+    withdrawn?: LpExitFlows;
+    entry?: LpEntryFlows;
+  };
   recoveryHint?: string;
 }
 
@@ -69,6 +93,8 @@ export interface RebalanceResult {
  * Execute resilient rebalance with clear phase tracking
  */
 export async function executeRebalance(params: RebalanceParams): Promise<RebalanceResult> {
+  if (params.dex === 'raydium') return executeRaydiumRebalance(params);
+
   const {
     walletAddress,
     poolAddress,
@@ -148,7 +174,11 @@ export async function executeRebalance(params: RebalanceParams): Promise<Rebalan
 
     // Simulate and submit withdrawal bundle
     console.log(`[Rebalance] Phase 1: Simulating ${signedWithdrawTxs.length} txs...`);
-    const { bundleId } = await sendBundleWithSimulation(signedWithdrawTxs);
+    const { bundleId, simulation } = await sendBundleWithSimulation(signedWithdrawTxs, {
+      walletAddress,
+      swaps: withdrawResult.flows.swaps,
+      withdrawals: expectedWithdrawals(withdrawResult.flows),
+    });
     console.log(`[Rebalance] Phase 1: Simulation passed, bundle ${bundleId.slice(0, 8)}... submitted`);
     
     // Wait for withdrawal
@@ -159,6 +189,7 @@ export async function executeRebalance(params: RebalanceParams): Promise<Rebalan
         status: 'failed',
         bundleId,
         error: withdrawStatus.error || 'Bundle did not land',
+        simulation,
       };
       result.recoveryHint = 'Withdrawal failed. Position unchanged. Try again.';
       return result;
@@ -168,11 +199,13 @@ export async function executeRebalance(params: RebalanceParams): Promise<Rebalan
       status: 'success',
       bundleId,
       slot: withdrawStatus.slot,
+      simulation,
     };
     result.tokensInWallet = {
       tokenX: withdrawResult.estimatedWithdraw.tokenX.amount,
       tokenY: withdrawResult.estimatedWithdraw.tokenY.amount,
     };
+    result.flows = { withdrawn: withdrawResult.flows };
 
     console.log(`[Rebalance] Phase 1 complete! Tokens in wallet.`);
 
@@ -251,7 +284,11 @@ export async function executeRebalance(params: RebalanceParams): Promise<Rebalan
 
     // Simulate and submit LP bundle
     console.log(`[Rebalance] Phase 2: Simulating ${signedLpTxs.length} txs...`);
-    const lpBundle = await sendBundleWithSimulation(signedLpTxs);
+    const lpBundle = await sendBundleWithSimulation(signedLpTxs, {
+      walletAddress,
+      swaps: lpResult.flows.swaps,
+      deposits: [lpResult.flows.tokenX, lpResult.flows.tokenY],
+    });
     console.log(`[Rebalance] Phase 2: Simulation passed, bundle ${lpBundle.bundleId.slice(0, 8)}... submitted`);
     
     // Wait for LP
@@ -262,6 +299,7 @@ export async function executeRebalance(params: RebalanceParams): Promise<Rebalan
         status: 'failed',
         bundleId: lpBundle.bundleId,
         error: lpStatus.error || 'LP bundle did not land',
+        simulation: lpBundle.simulation,
       };
       result.recoveryHint = 'Withdrawal succeeded but LP entry failed. Tokens safe in wallet. Call POST /lp/execute to manually re-enter.';
       return result;
@@ -271,8 +309,10 @@ export async function executeRebalance(params: RebalanceParams): Promise<Rebalan
       status: 'success',
       bundleId: lpBundle.bundleId,
       slot: lpStatus.slot,
-      newPositionAddress: 'Created new position',
+      newPositionAddress: lpResult.positionAddress,
+      simulation: lpBundle.simulation,
     };
+    result.flows = { ...result.flows, entry: lpResult.flows };
 
     result.success = true;
     console.log(`[Rebalance] Phase 2 complete! Rebalance successful.`);
@@ -288,6 +328,245 @@ export async function executeRebalance(params: RebalanceParams): Promise<Rebalan
   return result;
 }
 
+/**
+ * Signed copies of a phase's transactions. Pre-signed ones (position
+ * keypairs) may be refused by the signer and go through as they are.
+ */
+async function signAll(unsigned: string[], signTransaction: (tx: string) => Promise<string>): Promise<string[]> {
+  const signed: string[] = [];
+  for (const tx of unsigned) {
+    try {
+      signed.push(await signTransaction(tx));
+    } catch (e) {
+      signed.push(tx);
+    }
+  }
+  return signed;
+}
+
+/**
+ * Wallet balance of a mint in base units (native SOL for the SOL mint)
+ */
+async function getWalletBalance(connection: Connection, owner: PublicKey, mint: string): Promise<BN> {
+  if (mint === SOL_MINT) {
+    return new BN(await connection.getBalance(owner));
+  }
+  const { value } = await connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(mint) });
+  return value.reduce(
+    (sum, a) => sum.add(new BN(a.account.data.parsed.info.tokenAmount.amount)),
+    new BN(0),
+  );
+}
+
+/**
+ * Raydium CLMM rebalance: close the position, then open a new one around
+ * the current tick with what the withdrawal returned.
+ */
+async function executeRaydiumRebalance(params: RebalanceParams): Promise<RebalanceResult> {
+  const {
+    walletAddress,
+    poolAddress,
+    positionAddress,
+    newMinBinOffset = -5,
+    newMaxBinOffset = 5,
+    tipSpeed = 'fast',
+    slippageBps = 300,
+    signTransaction,
+  } = params;
+
+  const connection = getConnection();
+  const walletPubkey = new PublicKey(walletAddress);
+
+  console.log(`[Rebalance] Starting Raydium rebalance for ${positionAddress}...`);
+
+  const position = await fetchRaydiumPositionState(positionAddress);
+  const { pool } = position;
+  if (pool.poolAddress !== poolAddress) {
+    throw new Error(`Position ${positionAddress} belongs to pool ${pool.poolAddress}, not ${poolAddress}`);
+  }
+
+  // New range in whole tick-spacing steps around the current tick
+  const spacing = pool.tickSpacing;
+  const currentStep = Math.floor(pool.tickCurrent / spacing);
+  const newLowerTick = (currentStep + newMinBinOffset) * spacing;
+  const newUpperTick = Math.max(currentStep + newMaxBinOffset, currentStep + newMinBinOffset + 1) * spacing;
+
+  const result: RebalanceResult = {
+    success: false,
+    phase1: { status: 'skipped' },
+    phase2: { status: 'skipped' },
+    oldPosition: {
+      address: positionAddress,
+      binRange: { lower: position.tickLower, upper: position.tickUpper },
+    },
+    newPosition: {
+      binRange: { lower: newLowerTick, upper: newUpperTick },
+      priceRange: {
+        lower: tickToPrice(newLowerTick, pool.decimalsA, pool.decimalsB),
+        upper: tickToPrice(newUpperTick, pool.decimalsA, pool.decimalsB),
+      },
+    },
+  };
+
+  // ============ PHASE 1: WITHDRAW ============
+  console.log(`[Rebalance] Phase 1: Building Raydium withdrawal...`);
+
+  let withdrawn: { tokenA: BN; tokenB: BN };
+
+  try {
+    // Closing collects the fees too; quote them for the ledger first
+    const fees = await quoteRaydiumClaimableFees(positionAddress).catch((e: any) => {
+      console.warn('[Rebalance] Fee quote failed, fees will not be recorded:', e.message);
+      return null;
+    });
+
+    const withdrawResult = await buildRaydiumWithdraw({
+      walletAddress,
+      positionMint: positionAddress,
+      closePosition: true,
+      tipSpeed,
+    });
+    const signedWithdrawTxs = await signAll(withdrawResult.unsignedTransactions, signTransaction);
+
+    console.log(`[Rebalance] Phase 1: Simulating ${signedWithdrawTxs.length} txs...`);
+    const { bundleId, simulation } = await sendBundleWithSimulation(signedWithdrawTxs, {
+      walletAddress,
+      withdrawals: [position.tokenA, position.tokenB],
+    });
+    console.log(`[Rebalance] Phase 1: Simulation passed, bundle ${bundleId.slice(0, 8)}... submitted`);
+
+    const withdrawStatus = await waitForBundle(bundleId, { timeoutMs: 60000 });
+
+    if (!withdrawStatus.landed) {
+      result.phase1 = {
+        status: 'failed',
+        bundleId,
+        error: withdrawStatus.error || 'Bundle did not land',
+        simulation,
+      };
+      result.recoveryHint = 'Withdrawal failed. Position unchanged. Try again.';
+      return result;
+    }
+
+    withdrawn = {
+      tokenA: position.baseUnits.tokenA.add(fees?.baseUnits.tokenA ?? new BN(0)),
+      tokenB: position.baseUnits.tokenB.add(fees?.baseUnits.tokenB ?? new BN(0)),
+    };
+
+    result.phase1 = {
+      status: 'success',
+      bundleId,
+      slot: withdrawStatus.slot,
+      simulation,
+    };
+    result.tokensInWallet = {
+      tokenX: withdrawn.tokenA.toString(),
+      tokenY: withdrawn.tokenB.toString(),
+    };
+    result.flows = {
+      withdrawn: {
+        tokenX: position.tokenA,
+        tokenY: position.tokenB,
+        fees: fees ? [fees.tokenA, fees.tokenB] : [],
+        protocolFee: [],
+        swaps: [],
+        tipLamports: 0,
+      },
+    };
+
+    console.log(`[Rebalance] Phase 1 complete! Tokens in wallet.`);
+
+  } catch (error: any) {
+    result.phase1 = {
+      status: 'failed',
+      error: error.message,
+    };
+    result.recoveryHint = 'Withdrawal failed. Position unchanged. Try again.';
+    return result;
+  }
+
+  // ============ PHASE 2: RE-ENTER ============
+  console.log(`[Rebalance] Phase 2: Building Raydium position...`);
+
+  // Small delay to let state propagate
+  await new Promise(r => setTimeout(r, 2000));
+
+  const reentryHint = 'Withdrawal succeeded but LP entry failed. Tokens safe in wallet. Call POST /unified/lp/add with the pool address to manually re-enter.';
+
+  try {
+    // Re-enter with what the withdrawal returned, capped by what the wallet holds
+    const available = async (mint: string, amount: BN) => {
+      let balance = await getWalletBalance(connection, walletPubkey, mint);
+      if (mint === SOL_MINT) balance = BN.max(balance.subn(SOL_FEE_RESERVE_LAMPORTS), new BN(0));
+      return BN.min(balance, amount);
+    };
+    const amountA = await available(pool.mintA, withdrawn.tokenA);
+    const amountB = await available(pool.mintB, withdrawn.tokenB);
+
+    if (amountA.isZero() && amountB.isZero()) {
+      result.phase2 = {
+        status: 'failed',
+        error: 'No withdrawn tokens available for re-entry',
+      };
+      result.recoveryHint = reentryHint;
+      return result;
+    }
+
+    const lpResult = await buildRaydiumOpenPosition({
+      walletAddress,
+      poolAddress,
+      tickLower: newLowerTick,
+      tickUpper: newUpperTick,
+      amountA,
+      amountB,
+      slippageBps,
+      tipSpeed,
+    });
+    const signedLpTxs = await signAll(lpResult.unsignedTransactions, signTransaction);
+
+    console.log(`[Rebalance] Phase 2: Simulating ${signedLpTxs.length} txs...`);
+    const lpBundle = await sendBundleWithSimulation(signedLpTxs, {
+      walletAddress,
+      deposits: [lpResult.flows.tokenX, lpResult.flows.tokenY],
+    });
+    console.log(`[Rebalance] Phase 2: Simulation passed, bundle ${lpBundle.bundleId.slice(0, 8)}... submitted`);
+
+    const lpStatus = await waitForBundle(lpBundle.bundleId, { timeoutMs: 60000 });
+
+    if (!lpStatus.landed) {
+      result.phase2 = {
+        status: 'failed',
+        bundleId: lpBundle.bundleId,
+        error: lpStatus.error || 'LP bundle did not land',
+        simulation: lpBundle.simulation,
+      };
+      result.recoveryHint = reentryHint;
+      return result;
+    }
+
+    result.phase2 = {
+      status: 'success',
+      bundleId: lpBundle.bundleId,
+      slot: lpStatus.slot,
+      newPositionAddress: lpResult.positionMint,
+      simulation: lpBundle.simulation,
+    };
+    result.flows = { ...result.flows, entry: lpResult.flows };
+
+    result.success = true;
+    console.log(`[Rebalance] Phase 2 complete! Rebalance successful.`);
+
+  } catch (error: any) {
+    result.phase2 = {
+      status: 'failed',
+      error: error.message,
+    };
+    result.recoveryHint = reentryHint;
+  }
+
+  return result;
+}
+
 // Keep the interface for backwards compatibility
 export interface BuiltAtomicRebalance {
   unsignedTransactions: string[];
@@ -6,18 +6,19 @@
  */
 
 import { Connection, PublicKey, VersionedTransaction, TransactionMessage, SystemProgram, ComputeBudgetProgram } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID, createTransferInstruction, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction, getAccount } from '@solana/spl-token';
 import DLMM from '@meteora-ag/dlmm';
 import BN from 'bn.js';
 import { config } from '../config/index.js';
 import { arciumPrivacy } from '../privacy/index.js';
 import { buildTipTransaction, TipSpeed } from '../jito/index.js';
-import { FEE_CONFIG, calculateFee } from '../fees/index.js';
+import { FEE_CONFIG, calculateFee, createTokenFeeInstructions } from '../fees/index.js';
 import { getTokenPrices } from '../utils/prices.js';
 import { resolveTokens } from '../utils/token-metadata.js';
+import { getMintProfiles, netAfterTransferFee } from '../utils/token-extensions.js';
 import { jupiterClient, TOKENS } from '../swap/jupiter.js';
 import { getCachedDLMM } from '../services/pool-cache.js';
 import { getConnection } from '../services/connection-pool.js';
+import type { LpExitFlows, SwapFlow } from '../ledger/types.js';
 
 export interface AtomicWithdrawParams {
   walletAddress: string;
@@ -84,6 +85,7 @@ export interface BuiltAtomicWithdraw {
   };
   encryptedStrategy?: { ciphertext: string; nonce: string };
   pnl?: PnlSummary;
+  flows: LpExitFlows; // What leaves the position, for the PnL ledger
 }
 
 /**
@@ -145,9 +147,13 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
     throw new Error(`Withdrawal too small. Minimum: ${FEE_CONFIG.MIN_WITHDRAW_LAMPORTS / 1e9} SOL`);
   }
 
-  // 3. Calculate 1% fee on withdrawn amounts
-  const feeX = calculateFee(totalXAmount.toNumber());
-  const feeY = calculateFee(totalYAmount.toNumber());
+  // 3. Calculate 1% fee on what actually reaches the wallet (Token-2022
+  // transfer fees are withheld on the way out of the pool)
+  const [profileX, profileY] = await getMintProfiles(connection, [tokenXMint, tokenYMint]);
+  const receivedX = netAfterTransferFee(profileX, totalXAmount);
+  const receivedY = netAfterTransferFee(profileY, totalYAmount);
+  const feeX = calculateFee(receivedX.toNumber());
+  const feeY = calculateFee(receivedY.toNumber());
 
   const { blockhash } = await connection.getLatestBlockhash('confirmed');
   const unsignedTransactions: VersionedTransaction[] = [];
@@ -195,10 +201,12 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
     ComputeBudgetProgram.setComputeUnitLimit({ units: 100_000 }),
   ];
 
-  // Fee for token X (if not dust)
-  if (feeX.feeAmount >= FEE_CONFIG.MIN_FEE_LAMPORTS || tokenXMint !== solMint) {
-    if (tokenXMint === solMint) {
-      // SOL fee
+  let chargedFeeX = 0;
+  let chargedFeeY = 0;
+
+  // Fee for token X (SOL fees below the dust minimum are skipped)
+  if (tokenXMint === solMint) {
+    if (feeX.feeAmount >= FEE_CONFIG.MIN_FEE_LAMPORTS) {
       feeInstructions.push(
         SystemProgram.transfer({
           fromPubkey: userPubkey,
@@ -206,36 +214,13 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
           lamports: feeX.feeAmount,
         })
       );
-    } else {
-      // SPL token fee
-      const userAtaX = await getAssociatedTokenAddress(new PublicKey(tokenXMint), userPubkey);
-      const treasuryAtaX = await getAssociatedTokenAddress(new PublicKey(tokenXMint), FEE_CONFIG.TREASURY_ADDRESS);
-      
-      // Create treasury ATA if needed
-      try {
-        await getAccount(connection, treasuryAtaX);
-      } catch {
-        feeInstructions.push(
-          createAssociatedTokenAccountInstruction(
-            userPubkey,
-            treasuryAtaX,
-            FEE_CONFIG.TREASURY_ADDRESS,
-            new PublicKey(tokenXMint)
-          )
-        );
-      }
-      
-      if (feeX.feeAmount > 0) {
-        feeInstructions.push(
-          createTransferInstruction(
-            userAtaX,
-            treasuryAtaX,
-            userPubkey,
-            feeX.feeAmount
-          )
-        );
-      }
+      chargedFeeX = feeX.feeAmount;
     }
+  } else {
+    // SPL / Token-2022 fee (token program resolved per mint)
+    const ixs = await createTokenFeeInstructions(connection, userPubkey, new PublicKey(tokenXMint), receivedX.toNumber());
+    feeInstructions.push(...ixs);
+    if (ixs.length > 0) chargedFeeX = feeX.feeAmount;
   }
 
   // Fee for token Y (if not dust)
@@ -249,35 +234,12 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
           lamports: feeY.feeAmount,
         })
       );
+      chargedFeeY = feeY.feeAmount;
     } else {
-      // SPL token fee (likely USDC)
-      const userAtaY = await getAssociatedTokenAddress(new PublicKey(tokenYMint), userPubkey);
-      const treasuryAtaY = await getAssociatedTokenAddress(new PublicKey(tokenYMint), FEE_CONFIG.TREASURY_ADDRESS);
-      
-      // Create treasury ATA if needed
-      try {
-        await getAccount(connection, treasuryAtaY);
-      } catch {
-        feeInstructions.push(
-          createAssociatedTokenAccountInstruction(
-            userPubkey,
-            treasuryAtaY,
-            FEE_CONFIG.TREASURY_ADDRESS,
-            new PublicKey(tokenYMint)
-          )
-        );
-      }
-      
-      if (feeY.feeAmount > 0) {
-        feeInstructions.push(
-          createTransferInstruction(
-            userAtaY,
-            treasuryAtaY,
-            userPubkey,
-            feeY.feeAmount
-          )
-        );
-      }
+      // SPL / Token-2022 fee (likely USDC)
+      const ixs = await createTokenFeeInstructions(connection, userPubkey, new PublicKey(tokenYMint), receivedY.toNumber());
+      feeInstructions.push(...ixs);
+      if (ixs.length > 0) chargedFeeY = feeY.feeAmount;
     }
   }
 
@@ -293,9 +255,10 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
 
   // 6. If convertToSol requested, add Jupiter swap transactions
   let swapDetails: { inputAmount: string; outputAmount: string; route: string } | undefined;
+  const exitSwaps: SwapFlow[] = [];
   if (params.convertToSol && tokenYMint !== solMint) {
-    // Calculate amount to swap (total Y minus fee)
-    const amountToSwap = totalYAmount.toNumber() - feeY.feeAmount;
+    // Calculate amount to swap (received Y minus fee)
+    const amountToSwap = receivedY.toNumber() - chargedFeeY;
     
     if (amountToSwap > 0) {
       try {
@@ -318,6 +281,10 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
           outputAmount: quote.outAmount,
           route: quote.routePlan.map(r => r.swapInfo.label).join(' → '),
         };
+        exitSwaps.push({
+          input: { mint: tokenYMint, amount: Number(quote.inAmount) / 10 ** decimalsY },
+          output: { mint: solMint, amount: Number(quote.outAmount) / 1e9 },
+        });
         
         console.log(`[AtomicWithdraw] Added swap: ${quote.inAmount} → ${quote.outAmount} SOL via ${swapDetails.route}`);
       } catch (swapError: any) {
@@ -329,7 +296,7 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
   
   // Also swap token X if it's not SOL (e.g., MET in MET-SOL pool)
   if (params.convertToSol && tokenXMint !== solMint) {
-    const amountToSwapX = totalXAmount.toNumber() - feeX.feeAmount;
+    const amountToSwapX = receivedX.toNumber() - chargedFeeX;
     
     if (amountToSwapX > 0) {
       try {
@@ -346,6 +313,10 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
         const swapTx = VersionedTransaction.deserialize(Buffer.from(swap.swapTransaction, 'base64'));
         unsignedTransactions.push(swapTx);
         
+        exitSwaps.push({
+          input: { mint: tokenXMint, amount: Number(quote.inAmount) / 10 ** decimalsX },
+          output: { mint: solMint, amount: Number(quote.outAmount) / 1e9 },
+        });
         console.log(`[AtomicWithdraw] Added X swap: ${quote.inAmount} → ${quote.outAmount} SOL`);
       } catch (swapError: any) {
         console.warn(`[AtomicWithdraw] Jupiter X swap failed:`, swapError.message);
@@ -354,7 +325,7 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
   }
 
   // 7. Build Jito tip transaction
-  const { transaction: tipTx } = buildTipTransaction({
+  const { transaction: tipTx, tipLamports } = await buildTipTransaction({
     payerAddress: walletAddress,
     recentBlockhash: blockhash,
     speed: tipSpeed,
@@ -379,8 +350,8 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
     const withdrawYHuman = Number(totalYAmount.toString()) / Math.pow(10, decimalsY);
     const feesXHuman = Number(totalFeesX.toString()) / Math.pow(10, decimalsX);
     const feesYHuman = Number(totalFeesY.toString()) / Math.pow(10, decimalsY);
-    const protocolFeeXHuman = feeX.feeAmount / Math.pow(10, decimalsX);
-    const protocolFeeYHuman = feeY.feeAmount / Math.pow(10, decimalsY);
+    const protocolFeeXHuman = chargedFeeX / Math.pow(10, decimalsX);
+    const protocolFeeYHuman = chargedFeeY / Math.pow(10, decimalsY);
 
     // Calculate USD values
     const withdrawXUsd = withdrawXHuman * priceX;
@@ -461,8 +432,8 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
     },
     fee: {
       bps: FEE_CONFIG.FEE_BPS,
-      estimatedSol: tokenXMint === solMint ? feeX.feeAmount / 1e9 : 0,
-      estimatedUsdc: tokenYMint === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' ? feeY.feeAmount / 1e6 : 0,
+      estimatedSol: tokenXMint === solMint ? chargedFeeX / 1e9 : 0,
+      estimatedUsdc: tokenYMint === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' ? chargedFeeY / 1e6 : 0,
       treasury: FEE_CONFIG.TREASURY_ADDRESS.toBase58(),
     },
     swap: params.convertToSol ? {
@@ -477,6 +448,20 @@ export async function buildAtomicWithdraw(params: AtomicWithdrawParams): Promise
       nonce: encrypted.nonce,
     },
     pnl,
+    flows: {
+      tokenX: { mint: tokenXMint, amount: Number(totalXAmount.toString()) / 10 ** decimalsX },
+      tokenY: { mint: tokenYMint, amount: Number(totalYAmount.toString()) / 10 ** decimalsY },
+      fees: [
+        { mint: tokenXMint, amount: Number(unclaimedFeeX.toString()) / 10 ** decimalsX },
+        { mint: tokenYMint, amount: Number(unclaimedFeeY.toString()) / 10 ** decimalsY },
+      ],
+      protocolFee: [
+        { mint: tokenXMint, amount: chargedFeeX / 10 ** decimalsX },
+        { mint: tokenYMint, amount: chargedFeeY / 10 ** decimalsY },
+      ],
+      swaps: exitSwaps,
+      tipLamports,
+    },
   };
 }
 
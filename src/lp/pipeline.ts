@@ -2,23 +2,34 @@
  * Swap → LP Pipeline for Meteora DLMM
  * 
  * Orchestrates the full flow:
- * 1. Check wallet balance
- * 2. Calculate optimal 50/50 split at current price
- * 3. Swap if needed (via Jupiter) to get the right ratio
- * 4. Add liquidity to Meteora DLMM
+ * 1. Resolve the pair to a DLMM pool (any pair, SPL or Token-2022)
+ * 2. Check wallet balance
+ * 3. Calculate optimal 50/50 split at current USD prices
+ * 4. Swap if needed (via Jupiter) to get the right ratio
+ * 5. Add liquidity to Meteora DLMM
  */
 
 import { Connection, PublicKey, Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
+import BN from 'bn.js';
 import { config } from '../config/index.js';
 import { jupiterClient, TOKENS } from '../swap/index.js';
 import { MeteoraDirectClient } from '../dex/meteora.js';
 import { arciumPrivacy } from '../privacy/index.js';
-
-// Well-known pool addresses (Meteora DLMM)
+import { createConnection } from '../services/connection-pool.js';
+import { fetchUnifiedPools } from '../services/unified-pools.js';
+import { STABLECOIN_MINTS } from '../risk/index.js';
+import { getMintInfo, resolveToken, resolveTokens } from '../utils/token-metadata.js';
+import { getTokenPrices } from '../utils/prices.js';
+import { getMintProfile, netAfterTransferFee } from '../utils/token-extensions.js';
+
+// Well-known pool addresses (Meteora DLMM), checked before pool discovery
 export const METEORA_POOLS = {
   'SOL-USDC': 'BGm1tav58oGcsQJehL9WXBFXF7D27vZsKefj4xJKD5Y', // Main SOL-USDC DLMM pool ($5M TVL)
 } as const;
 
+// Pools thinner than this aren't picked when resolving a pair
+const MIN_POOL_TVL_USD = 10_000;
+
 export interface TokenBalance {
   mint: string;
   symbol: string;
@@ -82,7 +93,7 @@ export class LPPipeline {
   private meteoraClient: MeteoraDirectClient;
 
   constructor() {
-    this.connection = new Connection(config.solana.rpc);
+    this.connection = createConnection();
     this.meteoraClient = new MeteoraDirectClient(config.solana.rpc);
   }
 
@@ -95,106 +106,121 @@ export class LPPipeline {
     tokenB: string,
     totalValueUsd: number
   ): Promise<PrepareResult> {
-    // Resolve pool address (SOL-USDC for now)
-    const pairKey = `${tokenA.toUpperCase()}-${tokenB.toUpperCase()}` as keyof typeof METEORA_POOLS;
-    const reversePairKey = `${tokenB.toUpperCase()}-${tokenA.toUpperCase()}` as keyof typeof METEORA_POOLS;
-    
-    let poolAddress = METEORA_POOLS[pairKey] || METEORA_POOLS[reversePairKey];
-    
+    const notReady = (message: string): PrepareResult => ({
+      ready: false,
+      needsSwap: false,
+      currentBalances: {} as PrepareResult['currentBalances'],
+      targetAmounts: {} as PrepareResult['targetAmounts'],
+      poolInfo: {} as PrepareResult['poolInfo'],
+      message,
+    });
+
+    const poolAddress = await this.resolvePool(tokenA, tokenB);
     if (!poolAddress) {
-      return {
-        ready: false,
-        needsSwap: false,
-        currentBalances: {} as PrepareResult['currentBalances'],
-        targetAmounts: {} as PrepareResult['targetAmounts'],
-        poolInfo: {} as PrepareResult['poolInfo'],
-        message: `Pool ${tokenA}-${tokenB} not supported yet. Only SOL-USDC is currently supported.`,
-      };
+      return notReady(`No Meteora DLMM pool found for ${tokenA}-${tokenB}.`);
     }
 
-    // Get pool info
-    const poolInfo = await this.meteoraClient.getPoolInfo(poolAddress);
-    const currentPrice = poolInfo.currentPrice; // SOL price in USDC
+    // Get pool info; tokenX/tokenY follow the pool's order, not the caller's
+    const poolInfo = await this.meteoraClient.getPoolInfoExtended(poolAddress);
+    const currentPrice = poolInfo.currentPrice; // Y per X, UI units
+    const mintX = poolInfo.tokenX.mint;
+    const mintY = poolInfo.tokenY.mint;
+
+    // Real decimals from the mint accounts (SPL Token or Token-2022)
+    const [mintInfoX, mintInfoY] = await Promise.all([
+      getMintInfo(this.connection, mintX),
+      getMintInfo(this.connection, mintY),
+    ]);
+    const decimalsX = mintInfoX.decimals;
+    const decimalsY = mintInfoY.decimals;
+    if (mintInfoX.isToken2022 || mintInfoY.isToken2022) {
+      console.log(`[LP] Pool ${poolAddress.slice(0, 8)}... has Token-2022 mint(s)`);
+    }
 
-    // Determine which token is X (base) and Y (quote) in the pool
-    const isTokenABase = poolInfo.tokenX === TOKENS[tokenA.toUpperCase() as keyof typeof TOKENS];
-    
-    // Get wallet balances
-    const mintX = poolInfo.tokenX;
-    const mintY = poolInfo.tokenY;
-    const decimalsX = tokenA.toUpperCase() === 'SOL' ? 9 : 6;
-    const decimalsY = tokenB.toUpperCase() === 'SOL' ? 9 : 6;
+    const symbols = await resolveTokens([mintX, mintY]);
+    const symbolX = symbols.get(mintX)!.symbol;
+    const symbolY = symbols.get(mintY)!.symbol;
+
+    const { priceX, priceY } = await this.getUsdPrices(mintX, mintY, symbolX, symbolY, currentPrice);
+    if (!priceX || !priceY) {
+      return notReady(`Could not price ${symbolX}-${symbolY}. Try again later.`);
+    }
 
-    const balanceX = await this.getTokenBalance(walletAddress, mintX, decimalsX);
-    const balanceY = await this.getTokenBalance(walletAddress, mintY, decimalsY);
+    // Get wallet balances
+    const balanceX = await this.getTokenBalance(walletAddress, mintX, decimalsX, symbolX);
+    const balanceY = await this.getTokenBalance(walletAddress, mintY, decimalsY, symbolY);
 
     // Calculate target amounts for 50/50 split
     // Each side gets half the USD value
     const halfValueUsd = totalValueUsd / 2;
-    
-    // For SOL-USDC: 
-    // - tokenX = SOL, tokenY = USDC (typically)
-    // - Need $halfValueUsd worth of SOL and $halfValueUsd of USDC
-    const targetAmountXUi = halfValueUsd / currentPrice; // SOL needed
-    const targetAmountYUi = halfValueUsd;                 // USDC needed
-    
+    const targetAmountXUi = halfValueUsd / priceX;
+    const targetAmountYUi = halfValueUsd / priceY;
+
     const targetAmountX = Math.floor(targetAmountXUi * Math.pow(10, decimalsX));
     const targetAmountY = Math.floor(targetAmountYUi * Math.pow(10, decimalsY));
 
     // Calculate current USD value of holdings
-    const currentValueX = balanceX.balanceUi * currentPrice;
-    const currentValueY = balanceY.balanceUi; // USDC is 1:1
+    const currentValueX = balanceX.balanceUi * priceX;
+    const currentValueY = balanceY.balanceUi * priceY;
     const totalCurrentValue = currentValueX + currentValueY;
 
-    // Check if we need to swap
+    // Check if we need to swap: move only as much value as the short side
+    // is missing, capped by what the long side has spare
     let needsSwap = false;
     let swap: PrepareResult['swap'] | undefined;
 
     // If we have more X than needed and less Y than needed, swap X->Y
     if (balanceX.balanceUi > targetAmountXUi * 1.01 && balanceY.balanceUi < targetAmountYUi * 0.99) {
       needsSwap = true;
-      const excessX = balanceX.balanceUi - targetAmountXUi;
-      const amountToSwap = Math.floor(excessX * Math.pow(10, decimalsX));
-      
+      const swapValueUsd = Math.min(
+        (balanceX.balanceUi - targetAmountXUi) * priceX,
+        (targetAmountYUi - balanceY.balanceUi) * priceY,
+      );
+
       swap = {
         inputMint: mintX,
         outputMint: mintY,
-        amountIn: amountToSwap,
-        expectedOut: Math.floor(excessX * currentPrice * Math.pow(10, decimalsY)),
+        amountIn: Math.floor((swapValueUsd / priceX) * Math.pow(10, decimalsX)),
+        expectedOut: Math.floor((swapValueUsd / priceY) * Math.pow(10, decimalsY)),
       };
     }
     // If we have more Y than needed and less X than needed, swap Y->X
     else if (balanceY.balanceUi > targetAmountYUi * 1.01 && balanceX.balanceUi < targetAmountXUi * 0.99) {
       needsSwap = true;
-      const excessY = balanceY.balanceUi - targetAmountYUi;
-      const amountToSwap = Math.floor(excessY * Math.pow(10, decimalsY));
-      
+      const swapValueUsd = Math.min(
+        (balanceY.balanceUi - targetAmountYUi) * priceY,
+        (targetAmountXUi - balanceX.balanceUi) * priceX,
+      );
+
       swap = {
         inputMint: mintY,
         outputMint: mintX,
-        amountIn: amountToSwap,
-        expectedOut: Math.floor((excessY / currentPrice) * Math.pow(10, decimalsX)),
+        amountIn: Math.floor((swapValueUsd / priceY) * Math.pow(10, decimalsY)),
+        expectedOut: Math.floor((swapValueUsd / priceX) * Math.pow(10, decimalsX)),
       };
     }
 
+    // Token-2022 transfer fees come off what the swap delivers
+    if (swap) {
+      const outputProfile = await getMintProfile(this.connection, swap.outputMint);
+      // Base units can pass 2^53, where BN's number conversions throw
+      const expectedOut = new BN(BigInt(swap.expectedOut).toString());
+      swap.expectedOut = Number(netAfterTransferFee(outputProfile, expectedOut).toString());
+    }
+
     // Check if we have enough total value
     const ready = totalCurrentValue >= totalValueUsd * 0.98; // 2% tolerance
 
-    const symbolX = isTokenABase ? tokenA.toUpperCase() : tokenB.toUpperCase();
-    const symbolY = isTokenABase ? tokenB.toUpperCase() : tokenA.toUpperCase();
-
     return {
       ready,
       needsSwap,
       currentBalances: {
         tokenX: {
           ...balanceX,
-          symbol: symbolX,
           usdValue: currentValueX,
         },
         tokenY: {
           ...balanceY,
-          symbol: symbolY,
           usdValue: currentValueY,
         },
       },
@@ -333,41 +359,18 @@ export class LPPipeline {
         const decimalsX = poolInfo.tokenX.decimals;
         const decimalsY = poolInfo.tokenY.decimals;
         
-        // Get USD prices for both tokens from Jupiter Price API
-        let priceX = 1; // Default to 1 for stablecoins
-        let priceY = 1;
-        
-        try {
-          const priceUrl = `https://api.jup.ag/price/v2?ids=${poolInfo.tokenX.mint},${poolInfo.tokenY.mint}`;
-          const priceHeaders: Record<string, string> = {};
-          if (config.jupiter.apiKey) {
-            priceHeaders['x-api-key'] = config.jupiter.apiKey;
-          }
-          const priceResp = await fetch(priceUrl, { headers: priceHeaders });
-          if (priceResp.ok) {
-            const priceData = await priceResp.json() as { data: Record<string, { price: string }> };
-            priceX = parseFloat(priceData.data[poolInfo.tokenX.mint]?.price || '1');
-            priceY = parseFloat(priceData.data[poolInfo.tokenY.mint]?.price || '1');
-            console.log(`[LP] USD Prices: tokenX=$${priceX}, tokenY=$${priceY}`);
-          } else {
-            // API returned non-OK (401, 429, etc.) - use pool ratio fallback
-            console.warn(`[LP] Price API returned ${priceResp.status}, using pool ratio fallback`);
-            const isYStable = poolInfo.tokenY.mint.startsWith('EPjFWdd5') || poolInfo.tokenY.mint.startsWith('Es9vMFr');
-            if (isYStable) {
-              priceY = 1;
-              priceX = poolInfo.currentPrice; // Pool ratio = X price in terms of stablecoin Y
-              console.log(`[LP] Fallback prices: tokenX=$${priceX}, tokenY=$${priceY}`);
-            }
-          }
-        } catch (e) {
-          console.warn('[LP] Failed to fetch USD prices, using pool ratio');
-          // Fallback: if tokenY looks like USDC/USDT, assume $1
-          const isYStable = poolInfo.tokenY.mint.startsWith('EPjFWdd5') || poolInfo.tokenY.mint.startsWith('Es9vMFr');
-          if (isYStable) {
-            priceY = 1;
-            priceX = poolInfo.currentPrice; // Price in terms of stablecoin
-          }
-        }
+        // Get USD prices for both tokens (falls back to the pool ratio)
+        const symbols = await resolveTokens([poolInfo.tokenX.mint, poolInfo.tokenY.mint]);
+        const prices = await this.getUsdPrices(
+          poolInfo.tokenX.mint,
+          poolInfo.tokenY.mint,
+          symbols.get(poolInfo.tokenX.mint)!.symbol,
+          symbols.get(poolInfo.tokenY.mint)!.symbol,
+          poolInfo.currentPrice,
+        );
+        // Unpriceable pair: assume $1 each
+        const priceX = prices.priceX || 1;
+        const priceY = prices.priceY || 1;
         
         // Calculate amounts: split USD value 50/50
         const halfValueUsd = totalValueUsd / 2;
@@ -494,10 +497,84 @@ export class LPPipeline {
 
   // ============ Helpers ============
 
+  /**
+   * Resolve a token pair (symbols or mints, either order) to a DLMM pool
+   * Known pools first, then the unified pool index, then Meteora's search.
+   * Mints and symbols we know the mint of must match by mint, since any
+   * token can call itself USDC; unknown symbols match by symbol.
+   */
+  private async resolvePool(tokenA: string, tokenB: string): Promise<string | null> {
+    const pairKey = `${tokenA.toUpperCase()}-${tokenB.toUpperCase()}` as keyof typeof METEORA_POOLS;
+    const reversePairKey = `${tokenB.toUpperCase()}-${tokenA.toUpperCase()}` as keyof typeof METEORA_POOLS;
+    const known = METEORA_POOLS[pairKey] || METEORA_POOLS[reversePairKey];
+    if (known) return known;
+
+    const knownMint = (token: string): string | null => {
+      const mint = jupiterClient.resolveTokenMint(token);
+      return mint !== token || token.length >= 32 ? mint : null;
+    };
+    const [mintA, mintB] = [knownMint(tokenA), knownMint(tokenB)];
+    const matches = (token: string, mint: string | null, side: { symbol: string; mint: string }) =>
+      mint ? mint === side.mint : token.toUpperCase() === side.symbol.toUpperCase();
+    const isPair = (x: { symbol: string; mint: string }, y: { symbol: string; mint: string }) =>
+      (matches(tokenA, mintA, x) && matches(tokenB, mintB, y)) || (matches(tokenA, mintA, y) && matches(tokenB, mintB, x));
+
+    try {
+      const pools = await fetchUnifiedPools({ dexFilter: 'meteora', limit: 100, minTvl: MIN_POOL_TVL_USD, sortBy: 'tvl' });
+      const pool = pools.find(p => isPair(p.tokenA, p.tokenB));
+      if (pool) {
+        console.log(`[LP] Resolved ${tokenA}-${tokenB} to ${pool.name} (${pool.address.slice(0, 8)}...)`);
+        return pool.address;
+      }
+    } catch (error) {
+      console.warn('[LP] Unified pool lookup failed:', error instanceof Error ? error.message : error);
+    }
+
+    // Meteora's search matches on pool name, so mints need their symbols
+    const toSymbol = async (token: string) =>
+      token.length >= 32 ? (await resolveToken(token)).symbol : token;
+    const [symbolA, symbolB] = await Promise.all([toSymbol(tokenA), toSymbol(tokenB)]);
+    const results = await this.meteoraClient.searchPools(symbolA, symbolB);
+    const pool = results.find(p => {
+      // Search has no TVL filter; a fresh pool named after real tokens is cheap to make
+      if (!(parseFloat(p.liquidity) >= MIN_POOL_TVL_USD)) return false;
+      const [nameX = '', nameY = ''] = p.name.split('-');
+      return isPair({ symbol: nameX, mint: p.mintX }, { symbol: nameY, mint: p.mintY });
+    });
+    if (pool) {
+      console.log(`[LP] Resolved ${tokenA}-${tokenB} via search to ${pool.name} (${pool.address.slice(0, 8)}...)`);
+    }
+    return pool?.address ?? null;
+  }
+
+  /**
+   * USD prices for both pool tokens
+   * A side Jupiter can't price is derived from the other via the pool ratio
+   * (Y per X); known stablecoin mints count as $1. Returns 0 for a side that stays unknown.
+   */
+  private async getUsdPrices(
+    mintX: string,
+    mintY: string,
+    symbolX: string,
+    symbolY: string,
+    poolPrice: number
+  ): Promise<{ priceX: number; priceY: number }> {
+    const prices = await getTokenPrices([mintX, mintY]);
+    let priceX = prices.get(mintX) || (STABLECOIN_MINTS.has(mintX) ? 1 : 0);
+    let priceY = prices.get(mintY) || (STABLECOIN_MINTS.has(mintY) ? 1 : 0);
+
+    if (!priceX && priceY && poolPrice > 0) priceX = priceY * poolPrice;
+    if (!priceY && priceX && poolPrice > 0) priceY = priceX / poolPrice;
+
+    console.log(`[LP] USD Prices: ${symbolX}=$${priceX}, ${symbolY}=$${priceY}`);
+    return { priceX, priceY };
+  }
+
   private async getTokenBalance(
     walletAddress: string,
     mint: string,
-    decimals: number
+    decimals: number,
+    symbol: string
   ): Promise<TokenBalance> {
     const pubkey = new PublicKey(walletAddress);
     
@@ -506,37 +583,28 @@ export class LPPipeline {
       const balance = await this.connection.getBalance(pubkey);
       return {
         mint,
-        symbol: 'SOL',
+        symbol,
         balance,
         balanceUi: balance / Math.pow(10, decimals),
         decimals,
       };
     }
 
-    // SPL token
+    // SPL token or Token-2022 (the RPC picks the program from the mint)
     try {
       const mintPubkey = new PublicKey(mint);
       const accounts = await this.connection.getTokenAccountsByOwner(pubkey, { mint: mintPubkey });
-      
-      if (accounts.value.length === 0) {
-        return {
-          mint,
-          symbol: this.getSymbolForMint(mint),
-          balance: 0,
-          balanceUi: 0,
-          decimals,
-        };
-      }
 
-      // Parse token account data to get balance
-      const accountData = accounts.value[0].account.data;
-      // Token account layout: mint (32) + owner (32) + amount (8)
-      const amount = accountData.readBigUInt64LE(64);
-      const balance = Number(amount);
+      // Token account layout: mint (32) + owner (32) + amount (8); Token-2022
+      // extensions come after the base layout, so the offset holds for both
+      let balance = 0;
+      for (const { account } of accounts.value) {
+        balance += Number(account.data.readBigUInt64LE(64));
+      }
 
       return {
         mint,
-        symbol: this.getSymbolForMint(mint),
+        symbol,
         balance,
         balanceUi: balance / Math.pow(10, decimals),
         decimals,
@@ -544,7 +612,7 @@ export class LPPipeline {
     } catch {
       return {
         mint,
-        symbol: this.getSymbolForMint(mint),
+        symbol,
         balance: 0,
         balanceUi: 0,
         decimals,
@@ -552,13 +620,6 @@ export class LPPipeline {
     }
   }
 
-  private getSymbolForMint(mint: string): string {
-    for (const [symbol, address] of Object.entries(TOKENS)) {
-      if (address === mint) return symbol;
-    }
-    return mint.slice(0, 4) + '...';
-  }
-
   private async broadcastTransaction(signedTx: string): Promise<string> {
     const txBuffer = Buffer.from(signedTx, 'base64');
     const txid = await this.connection.sendRawTransaction(txBuffer, {
@@ -27,7 +27,7 @@ const server = new McpServer({
   name: 'solana-lp-toolkit',
   version: '1.0.0',
 }, {
-  instructions: 'Solana LP Toolkit MCP server. Provides tools for scanning Meteora DLMM pools, checking wallet balances, discovering LP positions, estimating LP parameters, and monitoring position health. All tools are read-only.',
+  instructions: 'Solana LP Toolkit MCP server. Provides tools for scanning Meteora DLMM pools, checking wallet balances, discovering LP positions, estimating LP parameters, backtesting and optimizing DLMM strategies on historical series, and monitoring position health. All tools are read-only.',
 });
 
 registerTools(server);
@@ -9,14 +9,19 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { getTopPools, type TopPoolsOptions } from '../services/pool-service.js';
 import { getWalletBalance, getConnection } from '../services/wallet-service.js';
 import { discoverAllPositions, getPoolInfo } from '../utils/position-discovery.js';
-import { assessPositionRisk } from '../risk/index.js';
+import { assessPositionRisk, assessTickPositionRisk } from '../risk/index.js';
+import { fetchRaydiumPositions, fetchRaydiumPoolState } from '../raydium/index.js';
+import { getPortfolioRiskReport } from '../risk/portfolio.js';
+import { getHedgeReport } from '../risk/hedge.js';
+import { runBacktest, listSeries, optimizeStrategy } from '../backtest/index.js';
 
 export function registerTools(server: McpServer): void {
   // ---- scan_pools ----
   server.tool(
     'scan_pools',
-    'Scan for top Meteora DLMM liquidity pools, sorted and risk-assessed. Returns pool address, name, APR, TVL, risk score, Sharpe ratio, and strategy recommendations.',
+    'Scan for top Meteora DLMM or Raydium CLMM liquidity pools, sorted and risk-assessed. Returns pool address, name, APR, TVL, risk score, Sharpe ratio, and strategy recommendations.',
     {
+      dex: z.enum(['meteora', 'raydium']).optional().describe('DEX to scan (default: meteora). For raydium, binStep is the tick spacing and recommendedBins counts tick-spacing steps'),
       sortBy: z.enum(['sharpe', 'apr', 'tvl', 'risk']).optional().describe('Sort order for pools (default: sharpe)'),
       limit: z.number().int().min(1).max(20).optional().describe('Max pools to return (default: 5)'),
       minTvl: z.number().optional().describe('Minimum TVL in USD (default: 100000)'),
@@ -28,6 +33,7 @@ export function registerTools(server: McpServer): void {
         limit: args.limit ?? 5,
         minTvl: args.minTvl ?? 100000,
         riskMax: args.riskMax ?? 10,
+        dex: args.dex ?? 'meteora',
       };
 
       const result = await getTopPools(options);
@@ -36,6 +42,7 @@ export function registerTools(server: McpServer): void {
         content: [{
           type: 'text' as const,
           text: JSON.stringify({
+            dex: options.dex,
             count: result.count,
             sortedBy: options.sortBy,
             pools: result.pools.map(p => ({
@@ -50,6 +57,7 @@ export function registerTools(server: McpServer): void {
               sharpeRatio: p.sharpeRatio,
               recommendedBins: p.recommendedBins,
               recommendedStrategy: p.recommendedStrategy,
+              recommendationSource: p.recommendationSource,
               warnings: p.warnings,
             })),
           }, null, 2),
@@ -61,21 +69,25 @@ export function registerTools(server: McpServer): void {
   // ---- get_positions ----
   server.tool(
     'get_positions',
-    'Get all Meteora DLMM LP positions for a Solana wallet. Returns position addresses, pool info, bin/price ranges, token amounts, claimable fees, and in-range status.',
+    'Get all Meteora DLMM and Raydium CLMM LP positions for a Solana wallet. Returns position addresses, pool info, bin/tick and price ranges, token amounts, claimable fees, and in-range status.',
     {
       walletAddress: z.string().describe('Solana wallet address (base58)'),
     },
     async (args) => {
       const connection = getConnection();
-      const positions = await discoverAllPositions(connection, args.walletAddress);
+      const [positions, raydiumPositions] = await Promise.all([
+        discoverAllPositions(connection, args.walletAddress),
+        fetchRaydiumPositions(args.walletAddress),
+      ]);
 
       return {
         content: [{
           type: 'text' as const,
           text: JSON.stringify({
             walletAddress: args.walletAddress,
-            totalPositions: positions.length,
+            totalPositions: positions.length + raydiumPositions.length,
             positions: positions.map(p => ({
+              dex: 'meteora',
               address: p.address,
               pool: {
                 address: p.pool.address,
@@ -94,6 +106,22 @@ export function registerTools(server: McpServer): void {
               },
               solscanUrl: p.solscanUrl,
             })),
+            raydiumPositions: raydiumPositions.map(p => ({
+              dex: 'raydium',
+              positionMint: p.positionMint,
+              pool: {
+                address: p.poolAddress,
+                name: p.poolName,
+                tickSpacing: p.tickSpacing,
+                tokenA: p.tokenA.symbol,
+                tokenB: p.tokenB.symbol,
+              },
+              inRange: p.inRange,
+              priceRange: { lower: p.priceLower, upper: p.priceUpper, current: p.currentPrice },
+              tickRange: { lower: p.tickLower, upper: p.tickUpper, current: p.tickCurrent },
+              amounts: { tokenA: p.amountA, tokenB: p.amountB },
+              fees: { tokenA: p.feesOwedA, tokenB: p.feesOwedB },
+            })),
           }, null, 2),
         }],
       };
@@ -126,11 +154,23 @@ export function registerTools(server: McpServer): void {
   // ---- get_pool_info ----
   server.tool(
     'get_pool_info',
-    'Get detailed on-chain info about a specific Meteora DLMM pool, including current price, active bin, tokens, and bin step.',
+    'Get detailed on-chain info about a specific Meteora DLMM pool (current price, active bin, tokens, bin step) or Raydium CLMM pool (current price, current tick, mints, tick spacing).',
     {
-      poolAddress: z.string().describe('Meteora DLMM pool address (base58)'),
+      poolAddress: z.string().describe('Pool address (base58)'),
+      dex: z.enum(['meteora', 'raydium']).optional().describe('DEX of the pool (default: meteora)'),
     },
     async (args) => {
+      if (args.dex === 'raydium') {
+        const state = await fetchRaydiumPoolState(args.poolAddress).catch(() => null);
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify(state ? { dex: 'raydium', ...state } : { error: 'Pool not found or failed to fetch' }, null, 2),
+          }],
+          ...(!state && { isError: true }),
+        };
+      }
+
       const connection = getConnection();
       const info = await getPoolInfo(connection, args.poolAddress);
 
@@ -228,9 +268,12 @@ export function registerTools(server: McpServer): void {
     },
     async (args) => {
       const connection = getConnection();
-      const positions = await discoverAllPositions(connection, args.walletAddress);
+      const [positions, raydiumPositions] = await Promise.all([
+        discoverAllPositions(connection, args.walletAddress),
+        fetchRaydiumPositions(args.walletAddress),
+      ]);
 
-      if (positions.length === 0) {
+      if (positions.length + raydiumPositions.length === 0) {
         return {
           content: [{
             type: 'text' as const,
@@ -255,7 +298,19 @@ export function registerTools(server: McpServer): void {
             pos.inRange ? undefined : new Date().toISOString(),
             pos.pool.tokenX.symbol,
           ),
-        ),
+        ).concat(raydiumPositions.map(pos =>
+          assessTickPositionRisk({
+            positionAddress: pos.positionMint,
+            poolAddress: pos.poolAddress,
+            poolName: pos.poolName,
+            tickCurrent: pos.tickCurrent,
+            tickLower: pos.tickLower,
+            tickUpper: pos.tickUpper,
+            tickSpacing: pos.tickSpacing,
+            outOfRangeSince: pos.inRange ? undefined : new Date().toISOString(),
+            tokenXSymbol: pos.tokenA.symbol,
+          }),
+        )),
       );
 
       assessments.sort((a, b) => a.healthScore - b.healthScore);
@@ -272,7 +327,7 @@ export function registerTools(server: McpServer): void {
           type: 'text' as const,
           text: JSON.stringify({
             walletAddress: args.walletAddress,
-            totalPositions: positions.length,
+            totalPositions: positions.length + raydiumPositions.length,
             summary,
             assessments: assessments.map(a => ({
               positionAddress: a.positionAddress,
@@ -292,4 +347,147 @@ export function registerTools(server: McpServer): void {
       };
     },
   );
+
+  // ---- get_portfolio_risk ----
+  server.tool(
+    'get_portfolio_risk',
+    'Wallet-level risk report across Meteora, Orca and Raydium positions: net token exposure, concentration by pair and DEX, IL vs HODL for ±5/10/25% moves in each token, share of capital out of range, and a 0-100 portfolio health score.',
+    {
+      walletAddress: z.string().describe('Solana wallet address (base58)'),
+    },
+    async (args) => {
+      try {
+        const report = await getPortfolioRiskReport(args.walletAddress);
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(report, null, 2) }],
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({ error: error.message }) }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ---- get_hedge_suggestions ----
+  server.tool(
+    'get_hedge_suggestions',
+    'Delta and gamma of a wallet\'s LP positions in each volatile token, hedge sizes (short-equivalent or stablecoin swap) that flatten wallet delta, how far price can move before re-hedging, and a what-if table of LP vs hedged P&L for ±5/10/25% moves.',
+    {
+      walletAddress: z.string().describe('Solana wallet address (base58)'),
+    },
+    async (args) => {
+      try {
+        const report = await getHedgeReport(args.walletAddress);
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(report, null, 2) }],
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({ error: error.message }) }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ---- backtest_strategy ----
+  server.tool(
+    'backtest_strategy',
+    'Backtest a Meteora DLMM strategy against a historical price/volume series file. Returns fees earned, IL vs holding, number of rebalances, Jito tip/gas cost, time in range and net APR. Call with no series to list available files.',
+    {
+      series: z.string().optional().describe('Series file name from the backtest data dir (omit to list available series)'),
+      poolAddress: z.string().optional().describe('Meteora DLMM pool address, used for bin step, base fee and TVL'),
+      binStep: z.number().int().positive().optional().describe('Pool bin step in bps (overrides the pool)'),
+      tvlUsd: z.number().positive().optional().describe('Pool TVL in USD (overrides the pool)'),
+      amountUsd: z.number().positive().optional().describe('Position size in USD (default: 1000)'),
+      strategy: z.enum(['tight', 'balanced', 'wide']).optional().describe('Bin range preset: tight ±3, balanced ±8, wide ±25 bins (default: balanced)'),
+      shape: z.enum(['spot', 'curve', 'bidask']).optional().describe('Liquidity distribution shape (default: spot)'),
+      rebalanceTrigger: z.enum(['none', 'out-of-range', 'edge']).optional().describe('When to rebalance (default: out-of-range)'),
+      rebalanceDelayMinutes: z.number().min(0).optional().describe('How long the trigger must hold before rebalancing'),
+    },
+    async (args) => {
+      if (!args.series) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ series: await listSeries() }, null, 2),
+          }],
+        };
+      }
+
+      try {
+        const { events, ...result } = await runBacktest({
+          series: args.series,
+          poolAddress: args.poolAddress,
+          binStep: args.binStep,
+          tvlUsd: args.tvlUsd,
+          amountUsd: args.amountUsd,
+          strategy: args.strategy,
+          shape: args.shape,
+          rebalance: {
+            trigger: args.rebalanceTrigger ?? 'out-of-range',
+            delayMinutes: args.rebalanceDelayMinutes,
+          },
+        });
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ ...result, rebalanceEvents: events.filter(e => e.type === 'rebalance').length }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: error.message }),
+          }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  // ---- optimize_strategy ----
+  server.tool(
+    'optimize_strategy',
+    'Search bin width, distribution shape and rebalance threshold for a Meteora DLMM pool over a historical series. Returns the Pareto front of fee APR vs IL vs rebalance cost and a recommended setting.',
+    {
+      poolAddress: z.string().optional().describe('Meteora DLMM pool address; its <address>.csv/.json series is used when series is omitted'),
+      series: z.string().optional().describe('Series file name from the backtest data dir'),
+      binStep: z.number().int().positive().optional().describe('Pool bin step in bps (overrides the pool)'),
+      tvlUsd: z.number().positive().optional().describe('Pool TVL in USD (overrides the pool)'),
+      amountUsd: z.number().positive().optional().describe('Position size in USD (default: 1000)'),
+      binOffsets: z.array(z.number().int().min(1).max(34)).optional().describe('Half-range widths in bins to try (default: 2-34)'),
+    },
+    async (args) => {
+      try {
+        const result = await optimizeStrategy({
+          poolAddress: args.poolAddress,
+          series: args.series,
+          binStep: args.binStep,
+          tvlUsd: args.tvlUsd,
+          amountUsd: args.amountUsd,
+          grid: args.binOffsets ? { binOffsets: args.binOffsets } : undefined,
+        });
+
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify(result, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({ error: error.message }),
+          }],
+          isError: true,
+        };
+      }
+    },
+  );
 }
@@ -0,0 +1,241 @@
+/**
+ * API Key Auth Middleware
+ *
+ * apiKeyAuth runs on every request after requestIdMiddleware:
+ * - Reads the key from `Authorization: Bearer <key>` or `X-API-Key`
+ * - Works out the scopes the route needs (ROUTE_SCOPES) and checks them
+ * - Checks every walletId / walletAddress / address in the query or body
+ *   against the wallets the key is bound to
+ * - Appends an audit entry per request to the key's log
+ *
+ * Path params aren't known to app-level middleware, so routes with a
+ * wallet in the path add walletParam('walletId') themselves.
+ *
+ * The admin key (API_ADMIN_KEY) passes every check and is the only way
+ * into /keys, /usage, /worker and /debug. Without API_AUTH_REQUIRED=true, requests
+ * that present no key are let through as before.
+ */
+
+import { Context, Next } from 'hono';
+import { createHash, timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
+import { appendAudit, hasScope, verifyApiKey, ALL_WALLETS, type ApiKeyScope, type Principal } from '../auth/index.js';
+import { getRequestId } from './requestId.js';
+
+export const API_KEY_HEADER = 'X-API-Key';
+export const PRINCIPAL_KEY = 'principal';
+const DENIAL_KEY = 'authDenial';
+
+export type RouteAccess = 'public' | 'admin' | ApiKeyScope[];
+
+// No key needed: health checks, Telegram's webhook, Solana Actions (the user signs client-side)
+const PUBLIC_ROUTES: RegExp[] = [
+  /^\/$/,
+  /^\/health(\/|$)/,
+  /^\/skill\.md$/,
+  /^\/capabilities(\/|$)/,
+  /^\/\.well-known\/actions\.json$/,
+  /^\/actions\//,
+  /^\/bot\/webhook$/,
+  /^\/telegram\/webhook$/,
+];
+
+const ADMIN_ROUTES: RegExp[] = [
+  /^\/keys(\/|$)/,
+  /^\/usage(\/|$)/,
+  /^\/worker(\/|$)/,
+  /^\/debug(\/|$)/,
+];
+
+// Readable with the read scope, but only the admin key may change them:
+// a trading key must not be able to loosen its own wallet's signing policy
+const ADMIN_WRITE_ROUTES: RegExp[] = [
+  /^\/wallet\/[^/]+\/transaction-policy$/,
+];
+
+// Non-GET routes that don't need trade. First match wins; GET is read,
+// anything else not listed is trade.
+const ROUTE_SCOPES: Array<{ pattern: RegExp; scopes: ApiKeyScope[] }> = [
+  { pattern: /^\/lp\/withdraw(\/|$)/, scopes: ['withdraw'] },
+  { pattern: /^\/lp\/close$/, scopes: ['withdraw'] },
+  { pattern: /^\/fees\/claim$/, scopes: ['withdraw'] },
+  // Rebalance and compound take liquidity out and put it back
+  { pattern: /^\/lp\/rebalance(\/|$)/, scopes: ['trade', 'withdraw'] },
+  { pattern: /^\/fees\/compound$/, scopes: ['trade', 'withdraw'] },
+  // Quotes, previews and simulations
+  { pattern: /^\/lp\/prepare$/, scopes: ['read'] },
+  { pattern: /^\/oracle\/prices$/, scopes: ['read'] },
+  { pattern: /^\/backtest(\/|$)/, scopes: ['read'] },
+  { pattern: /^\/chat$/, scopes: ['read'] },
+  { pattern: /^\/encrypt$/, scopes: ['read'] },
+];
+
+export function routeAccess(method: string, path: string): RouteAccess {
+  if (method === 'OPTIONS') return 'public';
+  if (PUBLIC_ROUTES.some(p => p.test(path))) return 'public';
+  if (ADMIN_ROUTES.some(p => p.test(path))) return 'admin';
+  if (method === 'GET' || method === 'HEAD') return ['read'];
+  if (ADMIN_WRITE_ROUTES.some(p => p.test(path))) return 'admin';
+  return ROUTE_SCOPES.find(r => r.pattern.test(path))?.scopes ?? ['trade'];
+}
+
+function presentedKey(c: Context): string | undefined {
+  const auth = c.req.header('Authorization');
+  if (auth?.startsWith('Bearer ')) return auth.slice(7).trim();
+  return c.req.header(API_KEY_HEADER)?.trim() || undefined;
+}
+
+function isAdminKey(presented: string): boolean {
+  if (!config.auth.adminKey) return false;
+  // Compare digests so lengths always match
+  const a = createHash('sha256').update(presented).digest();
+  const b = createHash('sha256').update(config.auth.adminKey).digest();
+  return timingSafeEqual(a, b);
+}
+
+// Request fields handlers read a wallet id or address from
+const WALLET_FIELDS = ['walletId', 'walletAddress', 'address'];
+
+/**
+ * Wallet ids / addresses a request refers to outside its path. The body is
+ * read whatever its Content-Type, since handlers call c.req.json() anyway.
+ */
+export async function referencedWallets(c: Context): Promise<string[]> {
+  const refs: unknown[] = WALLET_FIELDS.flatMap(field => c.req.queries(field) ?? []);
+  if (c.req.method !== 'GET' && c.req.method !== 'HEAD') {
+    try {
+      // Hono caches the parsed body, so handlers can read it again
+      const body = await c.req.json();
+      if (body && typeof body === 'object') refs.push(...WALLET_FIELDS.map(field => body[field]));
+    } catch {
+      // Empty or malformed: the handler reports it, or never reads a body
+    }
+  }
+  // Non-strings too: an array or number would still reach the handler
+  const wallets = refs
+    .filter(r => r !== undefined && r !== null && r !== '')
+    .map(r => (typeof r === 'string' ? r : JSON.stringify(r)));
+  return [...new Set(wallets)];
+}
+
+function canUseWallet(principal: Principal, walletIdOrAddress: string): boolean {
+  return principal.admin
+    || principal.walletIds.includes(ALL_WALLETS)
+    || principal.walletIds.includes(walletIdOrAddress)
+    || principal.walletAddresses.includes(walletIdOrAddress);
+}
+
+function audit(c: Context, principal: Principal, entry: { outcome: 'allowed' | 'denied'; status?: number; reason?: string; wallets?: string[] }) {
+  appendAudit({
+    at: Date.now(),
+    keyId: principal.keyId,
+    requestId: getRequestId(c),
+    method: c.req.method,
+    path: c.req.path,
+    ...entry,
+    wallets: entry.wallets && entry.wallets.length > 0 ? entry.wallets : undefined,
+  }).catch((e) => console.error(`[Auth] Audit write failed for key ${principal.keyId}:`, e.message));
+}
+
+function deny(c: Context, principal: Principal, reason: string, wallets?: string[]) {
+  console.warn(`[Auth] Denied key ${principal.keyId} ${c.req.method} ${c.req.path}: ${reason}`);
+  audit(c, principal, { outcome: 'denied', status: 403, reason, wallets });
+  return c.json({ error: 'Forbidden', details: reason }, 403);
+}
+
+export async function apiKeyAuth(c: Context, next: Next) {
+  const access = routeAccess(c.req.method, c.req.path);
+  if (access === 'public') return next();
+
+  const presented = presentedKey(c);
+  if (!presented) {
+    if (access === 'admin' || config.auth.required) {
+      return c.json({
+        error: 'Unauthorized',
+        details: `Pass an API key as "Authorization: Bearer <key>" or "${API_KEY_HEADER}"`,
+      }, 401);
+    }
+    return next();
+  }
+
+  let principal: Principal;
+  if (isAdminKey(presented)) {
+    principal = { keyId: 'admin', admin: true, scopes: ['read', 'trade', 'withdraw'], walletIds: [ALL_WALLETS], walletAddresses: [] };
+  } else {
+    const key = await verifyApiKey(presented);
+    if (!key) {
+      console.warn(`[Auth] Rejected invalid, expired or revoked key on ${c.req.method} ${c.req.path}`);
+      return c.json({ error: 'Unauthorized', details: 'Invalid, expired or revoked API key' }, 401);
+    }
+    principal = { keyId: key.id, admin: false, scopes: key.scopes, walletIds: key.walletIds, walletAddresses: key.walletAddresses };
+  }
+
+  if (access === 'admin' && !principal.admin) {
+    return deny(c, principal, 'Admin key required');
+  }
+  if (access !== 'admin') {
+    const missing = access.filter(s => !hasScope(principal.scopes, s));
+    if (missing.length > 0) {
+      return deny(c, principal, `Key lacks scope: ${missing.join(', ')}`);
+    }
+  }
+
+  const wallets = await referencedWallets(c);
+  const outside = wallets.filter(w => !canUseWallet(principal, w));
+  if (outside.length > 0) {
+    return deny(c, principal, `Key is not bound to wallet ${outside.join(', ')}`, wallets);
+  }
+
+  c.set(PRINCIPAL_KEY, principal);
+  try {
+    await next();
+  } finally {
+    // forbidWallet denials from routes are recorded here, once
+    const denial: { reason: string; wallet: string } | undefined = c.get(DENIAL_KEY);
+    audit(c, principal, denial
+      ? { outcome: 'denied', status: c.res.status, reason: denial.reason, wallets: [...wallets, denial.wallet] }
+      : { outcome: 'allowed', status: c.res.status, wallets });
+  }
+}
+
+/**
+ * The authenticated caller, or undefined for anonymous requests
+ */
+export function getPrincipal(c: Context): Principal | undefined {
+  try {
+    return c.get(PRINCIPAL_KEY);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the request may act on a wallet. Anonymous requests only get
+ * this far when auth isn't required.
+ */
+export function authorizeWallet(c: Context, walletIdOrAddress: string): boolean {
+  const principal = getPrincipal(c);
+  return !principal || canUseWallet(principal, walletIdOrAddress);
+}
+
+/**
+ * 403 for a wallet the key isn't bound to, found by a route after
+ * apiKeyAuth ran (path params, stored records). Audited by apiKeyAuth.
+ */
+export function forbidWallet(c: Context, walletIdOrAddress: string) {
+  const reason = `Key is not bound to wallet ${walletIdOrAddress}`;
+  console.warn(`[Auth] Denied key ${getPrincipal(c)?.keyId} ${c.req.method} ${c.req.path}: ${reason}`);
+  c.set(DENIAL_KEY, { reason, wallet: walletIdOrAddress });
+  return c.json({ error: 'Forbidden', details: reason }, 403);
+}
+
+/**
+ * Route-level check for a wallet id or address in the path
+ */
+export function walletParam(name: string) {
+  return async (c: Context, next: Next) => {
+    const value = c.req.param(name);
+    if (value && !authorizeWallet(c, value)) return forbidWallet(c, value);
+    return next();
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Idempotency Middleware
+ *
+ * Journals a write endpoint as an intent (see journal/index.ts). Clients
+ * pass an `Idempotency-Key` header (or `idempotencyKey` in the JSON body);
+ * a retry with the same key gets the original response back with
+ * `Idempotent-Replayed: true` instead of running the operation again.
+ * A retry that arrives while the original is still running gets 409, and
+ * a key reused with different params gets 422. Keys are scoped to the API
+ * key and wallet, so one caller's key never replays another's response.
+ *
+ * Requests without a key are still journaled so a restart can reconcile
+ * their bundles; they just can't be replayed.
+ *
+ * `notify: { webhookUrl?, chatId? }` in the body subscribes to bundle
+ * updates. Handlers that support it can run in async mode via acceptAsync.
+ */
+
+import { Context, Next } from 'hono';
+import {
+  runIntent,
+  completeIntent,
+  deferCurrentIntent,
+  markIntentAsync,
+  type IntentNotifyTarget,
+  type IntentOperation,
+  type IntentOutcome,
+} from '../journal/index.js';
+import { getPrincipal } from './auth.js';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+export const INTENT_ID_HEADER = 'X-Intent-ID';
+
+const MAX_KEY_LENGTH = 200;
+
+function parseNotifyTarget(value: unknown): IntentNotifyTarget | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { webhookUrl, chatId } = value as Record<string, unknown>;
+  const target: IntentNotifyTarget = {};
+  if (typeof webhookUrl === 'string' && /^https?:\/\//.test(webhookUrl)) target.webhookUrl = webhookUrl;
+  if (typeof chatId === 'string' || typeof chatId === 'number') target.chatId = chatId;
+  return target.webhookUrl || target.chatId ? target : undefined;
+}
+
+export function idempotent(operation: IntentOperation) {
+  return async (c: Context, next: Next) => {
+    let body: Record<string, unknown>;
+    try {
+      body = await c.req.json();
+    } catch {
+      // Let the handler report the malformed body
+      return next();
+    }
+
+    const idempotencyKey = c.req.header(IDEMPOTENCY_KEY_HEADER)
+      || (typeof body.idempotencyKey === 'string' ? body.idempotencyKey : undefined);
+
+    if (idempotencyKey && idempotencyKey.length > MAX_KEY_LENGTH) {
+      return c.json({ error: `Idempotency key must be at most ${MAX_KEY_LENGTH} characters` }, 400);
+    }
+
+    const { idempotencyKey: _key, ...params } = body;
+    const run = await runIntent(
+      {
+        operation,
+        idempotencyKey,
+        principal: getPrincipal(c)?.keyId,
+        walletId: typeof body.walletId === 'string' ? body.walletId : undefined,
+        params,
+        notify: parseNotifyTarget(body.notify),
+      },
+      async () => {
+        await next();
+        const responseBody = await c.res.clone().json().catch(() => null);
+        return { ok: c.res.ok, status: c.res.status, body: responseBody };
+      },
+    );
+
+    if (!run.replayed) {
+      c.res.headers.set(INTENT_ID_HEADER, run.intent.id);
+      return;
+    }
+
+    if (run.paramsMismatch) {
+      return c.json({
+        error: 'This idempotency key was already used with different parameters',
+        intentId: run.intent.id,
+      }, 422);
+    }
+
+    if (!run.response) {
+      return c.json({
+        error: 'A request with this idempotency key is still in progress',
+        intentId: run.intent.id,
+        state: run.intent.state,
+      }, 409);
+    }
+
+    c.header(INTENT_ID_HEADER, run.intent.id);
+    c.header(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    return c.json(run.response.body as any, run.response.status as any);
+  };
+}
+
+/**
+ * Async submit mode (`?async=true` or `{ async: true }`): respond 202 with
+ * the operation id right away and run work in the background. Poll
+ * GET /operations/:id or subscribe with `notify` for the outcome. Returns
+ * null when the request should run inline.
+ */
+export function acceptAsync(
+  c: Context,
+  body: Record<string, unknown>,
+  work: () => Promise<IntentOutcome>,
+): Response | null {
+  const requested = c.req.query('async') === 'true' || body.async === true;
+  if (!requested) return null;
+
+  const operationId = deferCurrentIntent();
+  if (!operationId) return null; // Not behind idempotent(): nothing to track it with
+
+  (async () => {
+    await markIntentAsync(operationId);
+    let outcome: IntentOutcome;
+    try {
+      outcome = await work();
+    } catch (error: any) {
+      outcome = { ok: false, status: 500, body: { error: error?.message || 'Unknown error' } };
+    }
+    await completeIntent(operationId, outcome);
+  })();
+
+  return c.json({
+    success: true,
+    operationId,
+    state: 'pending',
+    statusUrl: `/operations/${operationId}`,
+  }, 202);
+}
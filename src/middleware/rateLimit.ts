@@ -0,0 +1,189 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Token buckets per client (API key, or IP for requests without one) and
+ * per wallet id / address the request names in its path, query or body.
+ * X-Forwarded-For only counts when the peer is a trusted proxy
+ * (RATE_LIMIT_TRUSTED_PROXIES); otherwise the socket address is the IP.
+ * Read endpoints and transaction-building endpoints (anything needing the
+ * trade or withdraw scope, see routeAccess) draw on separate budgets, so
+ * polling /pools/top can't starve /lp/atomic and the other way round.
+ *
+ * Buckets live in process memory: the hot path stays free of KV round
+ * trips, at the cost of limits applying per instance. Every request,
+ * limited or not, is counted in the usage report (services/usage-service).
+ *
+ * Runs after apiKeyAuth so the key is known. The admin key is exempt.
+ */
+
+import { Context, Next } from 'hono';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { config } from '../config/index.js';
+import { ErrorCode, createError, getFriendlyMessage, getHttpStatus } from '../utils/error-codes.js';
+import { recordUsage, type RequestClass } from '../services/usage-service.js';
+import { getPrincipal, referencedWallets, routeAccess } from './auth.js';
+import { getRequestId } from './requestId.js';
+
+// Platform traffic, not clients
+const EXEMPT_ROUTES: RegExp[] = [
+  /^\/health(\/|$)/,
+  /^\/bot\/webhook$/,
+  /^\/telegram\/webhook$/,
+];
+
+// Routes with a wallet id / address in the path. App-level middleware runs
+// before the route's params are parsed, so they're matched here.
+const WALLET_PATHS: RegExp[] = [
+  /^\/wallet\/(?!create$)([^/]+)(?:\/[^/]+)?$/,
+  /^\/positions\/([^/]+)(?:\/risk)?$/,
+  /^\/portfolio\/([^/]+)(?:\/(?:ledger|export))?$/,
+  /^\/risk\/(?:portfolio|hedge)\/([^/]+)$/,
+  /^\/notify\/(?!register$)([^/]+)(?:\/(?:positions|test))?$/,
+];
+
+const IDLE_SWEEP_INTERVAL_MS = 5 * 60_000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Budget {
+  capacity: number;
+  refillPerMs: number;
+}
+
+const buckets = new Map<string, Bucket>();
+let sweepTimer: NodeJS.Timeout | null = null;
+
+function budgetFor(requestClass: RequestClass): Budget {
+  const perMinute = requestClass === 'tx' ? config.rateLimit.txPerMinute : config.rateLimit.readPerMinute;
+  return {
+    capacity: Math.max(1, Math.round(perMinute * config.rateLimit.burstMultiplier)),
+    refillPerMs: perMinute / 60_000,
+  };
+}
+
+function refill(bucket: Bucket, budget: Budget, now: number): void {
+  bucket.tokens = Math.min(budget.capacity, bucket.tokens + (now - bucket.updatedAt) * budget.refillPerMs);
+  bucket.updatedAt = now;
+}
+
+/**
+ * Take one token from every bucket, or none if any is empty. Returns the
+ * wait until the emptiest bucket has a token again, or 0 when allowed.
+ */
+function take(keys: string[], budget: Budget, now: number): { retryAfterMs: number; remaining: number } {
+  const current = keys.map((key) => {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: budget.capacity, updatedAt: now };
+      buckets.set(key, bucket);
+    }
+    refill(bucket, budget, now);
+    return bucket;
+  });
+
+  const lowest = Math.min(...current.map(b => b.tokens));
+  if (lowest < 1) {
+    return { retryAfterMs: Math.ceil((1 - lowest) / budget.refillPerMs), remaining: 0 };
+  }
+  for (const bucket of current) bucket.tokens -= 1;
+  return { retryAfterMs: 0, remaining: Math.floor(lowest - 1) };
+}
+
+// Full buckets carry no state worth keeping
+function sweepIdleBuckets(): void {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    const budget = budgetFor(key.startsWith('tx:') ? 'tx' : 'read');
+    refill(bucket, budget, now);
+    if (bucket.tokens >= budget.capacity) buckets.delete(key);
+  }
+}
+
+function socketAddress(c: Context): string | undefined {
+  try {
+    // IPv4 peers show up as ::ffff:a.b.c.d on dual-stack sockets
+    return getConnInfo(c).remote.address?.replace(/^::ffff:/, '');
+  } catch {
+    return undefined; // Not served by @hono/node-server (e.g. app.request in scripts)
+  }
+}
+
+function clientIp(c: Context): string {
+  const remote = socketAddress(c);
+  const { trustedProxies } = config.rateLimit;
+  if (remote && (trustedProxies.includes('*') || trustedProxies.includes(remote))) {
+    // The proxy appends the address it saw; earlier entries are client-supplied
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',').pop()?.trim();
+    if (forwarded) return forwarded;
+  }
+  return remote || 'unknown';
+}
+
+function pathWallets(path: string): string[] {
+  for (const pattern of WALLET_PATHS) {
+    const match = pattern.exec(path);
+    if (match) return [match[1]];
+  }
+  return [];
+}
+
+function requestClassFor(method: string, path: string): RequestClass {
+  const access = routeAccess(method, path);
+  if (Array.isArray(access)) {
+    return access.some(s => s !== 'read') ? 'tx' : 'read';
+  }
+  // Public and admin routes: Solana Actions POSTs build transactions
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'tx';
+}
+
+export async function rateLimit(c: Context, next: Next) {
+  const { method, path } = c.req;
+  if (method === 'OPTIONS' || EXEMPT_ROUTES.some(p => p.test(path))) return next();
+
+  const principal = getPrincipal(c);
+  const client = principal ? `key:${principal.keyId}` : `ip:${clientIp(c)}`;
+  const requestClass = requestClassFor(method, path);
+
+  if (!config.rateLimit.enabled || principal?.admin) {
+    recordUsage({ client, requestClass, method, path, limited: false });
+    return next();
+  }
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(sweepIdleBuckets, IDLE_SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+  }
+
+  const wallets = [...new Set([...pathWallets(path), ...await referencedWallets(c)])];
+  const budget = budgetFor(requestClass);
+  const { retryAfterMs, remaining } = take(
+    [`${requestClass}:${client}`, ...wallets.map(w => `${requestClass}:wallet:${w}`)],
+    budget,
+    Date.now(),
+  );
+
+  recordUsage({ client, requestClass, method, path, limited: retryAfterMs > 0 });
+
+  c.header('X-RateLimit-Limit', String(budget.capacity));
+  c.header('X-RateLimit-Remaining', String(remaining));
+
+  if (retryAfterMs > 0) {
+    const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    console.warn(`[RateLimit] ${client} limited on ${method} ${path} (${requestClass}), retry in ${retryAfterSeconds}s`);
+    c.header('Retry-After', String(retryAfterSeconds));
+    const code = ErrorCode.GENERAL_RATE_LIMITED;
+    return c.json({
+      success: false,
+      error: createError(code, getFriendlyMessage(code), {
+        requestClass,
+        limitPerMinute: requestClass === 'tx' ? config.rateLimit.txPerMinute : config.rateLimit.readPerMinute,
+        retryAfterSeconds,
+      }, getRequestId(c)),
+    }, getHttpStatus(code));
+  }
+
+  return next();
+}
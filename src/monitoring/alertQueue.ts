@@ -1,14 +1,14 @@
 /**
  * Alert Queue System
  * 
- * Queues alerts in Redis for reliable delivery with:
+ * Queues alerts in the shared store for reliable delivery with:
  * - Multiple delivery channels (Telegram, Webhook, etc.)
  * - Retry with exponential backoff
  * - Delivery tracking
  * - Dead letter queue for failed alerts
  */
 
-import { Redis } from '@upstash/redis';
+import { getStore } from '../storage/index.js';
 
 const KEYS = {
   QUEUE: 'lp-toolkit:alerts:queue',
@@ -58,30 +58,13 @@ export interface AlertStats {
   lastProcessed?: string;
 }
 
-// Redis client
-let redis: Redis | null = null;
-
-function getRedis(): Redis {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) {
-    throw new Error('Redis not configured for alert queue');
-  }
-  
-  redis = new Redis({ url, token });
-  return redis;
-}
-
 // ============ Queue Operations ============
 
 /**
  * Add an alert to the queue
  */
 export async function queueAlert(alert: Omit<QueuedAlert, 'id' | 'attempts' | 'nextAttemptAt' | 'createdAt'>): Promise<string> {
-  const client = getRedis();
+  const client = getStore();
   
   const id = `alert-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
   const now = new Date().toISOString();
@@ -110,7 +93,7 @@ export async function queueAlert(alert: Omit<QueuedAlert, 'id' | 'attempts' | 'n
  * Get alerts ready to be processed
  */
 export async function getReadyAlerts(limit: number = 10): Promise<QueuedAlert[]> {
-  const client = getRedis();
+  const client = getStore();
   
   const now = Date.now();
   
@@ -130,7 +113,7 @@ export async function getReadyAlerts(limit: number = 10): Promise<QueuedAlert[]>
  * Move alert to processing state
  */
 export async function markProcessing(alert: QueuedAlert): Promise<void> {
-  const client = getRedis();
+  const client = getStore();
   
   // Remove from queue
   await client.zrem(KEYS.QUEUE, JSON.stringify(alert));
@@ -143,7 +126,7 @@ export async function markProcessing(alert: QueuedAlert): Promise<void> {
  * Mark alert as delivered
  */
 export async function markDelivered(alert: QueuedAlert, channel: string): Promise<void> {
-  const client = getRedis();
+  const client = getStore();
   
   alert.deliveredAt = new Date().toISOString();
   alert.deliveredVia = channel;
@@ -165,7 +148,7 @@ export async function markDelivered(alert: QueuedAlert, channel: string): Promis
  * Mark alert for retry
  */
 export async function markRetry(alert: QueuedAlert, error: string): Promise<void> {
-  const client = getRedis();
+  const client = getStore();
   
   alert.attempts++;
   alert.lastAttemptAt = new Date().toISOString();
@@ -199,7 +182,7 @@ export async function markRetry(alert: QueuedAlert, error: string): Promise<void
  * Get queue statistics
  */
 export async function getStats(): Promise<AlertStats> {
-  const client = getRedis();
+  const client = getStore();
   
   const [queueSize, processingSize, stats] = await Promise.all([
     client.zcard(KEYS.QUEUE),
@@ -220,7 +203,7 @@ export async function getStats(): Promise<AlertStats> {
  * Get failed alerts (for debugging/retry)
  */
 export async function getFailedAlerts(limit: number = 50): Promise<QueuedAlert[]> {
-  const client = getRedis();
+  const client = getStore();
   
   const results = await client.lrange(KEYS.FAILED, 0, limit - 1);
   
@@ -236,7 +219,7 @@ export async function getFailedAlerts(limit: number = 50): Promise<QueuedAlert[]
  * Retry a failed alert
  */
 export async function retryFailedAlert(alertId: string): Promise<boolean> {
-  const client = getRedis();
+  const client = getStore();
   
   const failed = await getFailedAlerts(100);
   const alert = failed.find(a => a.id === alertId);
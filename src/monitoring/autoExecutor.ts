@@ -0,0 +1,448 @@
+/**
+ * Autonomous Rebalance Executor
+ *
+ * Runs executeRebalance for out-of-range Meteora and Raydium positions when the user
+ * allows it (preferences.autoRebalance, or a rebalance rule with
+ * autoExecute), within per-user limits. Every decision it takes or
+ * declines goes to the user's audit trail.
+ *
+ * Nothing is sent on-chain unless AUTO_REBALANCE_LIVE=true; until then, and
+ * whenever the user's limits ask for it, decisions are recorded as dry runs.
+ * Dry runs count toward the limits, so the trail shows what live mode would do.
+ * Failed attempts count too, so a rebalance that keeps failing waits out the
+ * cooldown instead of being retried on every check.
+ *
+ * Keyspace:
+ *   lp-toolkit:autorebalance:<userId>:audit       List of AutoRebalanceDecision (newest first)
+ *   lp-toolkit:autorebalance:<userId>:executions  List of AutoRebalanceExecution (newest first)
+ *   lp-toolkit:autorebalance:<userId>:declined    Hash positionAddress -> last decline
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { config } from '../config/index.js';
+import { getStore } from '../storage/index.js';
+import { getConnection } from '../services/connection-pool.js';
+import { getCachedDLMM } from '../services/pool-cache.js';
+import { fetchRaydiumPoolState, fetchRaydiumPositionState } from '../raydium/index.js';
+import { analyzePosition } from '../services/auto-rebalance.js';
+import { executeRebalanceOperation } from '../services/lp-service.js';
+import { loadWalletById } from '../services/wallet-service.js';
+import { getTipLamports } from '../jito/index.js';
+import { getTokenPrices } from '../utils/prices.js';
+import { operationLock } from '../utils/operation-lock.js';
+import { fromBaseUnits } from '../ledger/index.js';
+import { getRecipient, sendAlert as sendNotification } from '../notifications/index.js';
+import {
+  getUserSettings,
+  getUserRules,
+  trackPosition,
+  untrackPosition,
+  type AutoRebalanceLimits,
+  type TrackedPosition,
+  type UserRule,
+} from './userRules.js';
+import type { RangeSnapshot } from './ranges.js';
+
+const KEYS = {
+  AUDIT: (userId: string) => `lp-toolkit:autorebalance:${userId}:audit`,
+  EXECUTIONS: (userId: string) => `lp-toolkit:autorebalance:${userId}:executions`,
+  DECLINED: (userId: string) => `lp-toolkit:autorebalance:${userId}:declined`,
+};
+
+export const DEFAULT_AUTO_REBALANCE_LIMITS: AutoRebalanceLimits = {
+  dryRun: false,
+  maxRebalancesPerDay: 3,
+  maxSlippageBps: 100,
+  minPositionValueUsd: 50,
+  cooldownMinutes: 60,
+  maxCumulativeCostSol: 0.1,
+};
+
+const MAX_AUDIT_ENTRIES = 500;
+const MAX_EXECUTION_ENTRIES = 200;
+const COST_WINDOW_MS = 30 * 24 * 3600 * 1000;
+const DAY_MS = 24 * 3600 * 1000;
+// Same decline for the same position is logged at most once an hour
+const DECLINE_REPEAT_MS = 60 * 60 * 1000;
+// Withdraw + re-enter bundles, ~3 txs each at base + priority fee
+const BUNDLES_PER_REBALANCE = 2;
+const TX_FEE_LAMPORTS_PER_BUNDLE = 105_000;
+
+export interface AutoRebalanceDecision {
+  id: string;
+  timestamp: string;
+  userId: string;
+  positionAddress: string;
+  poolAddress: string;
+  poolName: string;
+  decision: 'executed' | 'dry_run' | 'declined' | 'failed';
+  reasons: string[];
+  trigger: string; // The analysis reason that prompted the decision
+  policy: 'preferences' | 'rule';
+  ruleId?: string;
+  limits: AutoRebalanceLimits;
+  params?: {
+    newMinBinOffset: number;
+    newMaxBinOffset: number;
+    slippageBps: number;
+  };
+  estimatedCostSol: number;
+  positionValueUsd?: number;
+  result?: {
+    success: boolean;
+    phase1: string;
+    phase2: string;
+    newPositionAddress?: string;
+    bundleIds: string[];
+    recoveryHint?: string;
+  };
+}
+
+interface AutoRebalanceExecution {
+  timestamp: number;
+  positionAddress: string;
+  costSol: number;
+  dryRun: boolean;
+  failed?: boolean;
+}
+
+export interface AutoRebalanceOutcome {
+  considered: boolean; // False when auto-rebalance isn't enabled for this position
+  decision?: AutoRebalanceDecision;
+}
+
+export interface AutoRebalanceCheck {
+  position: TrackedPosition;
+  range: RangeSnapshot;
+}
+
+/**
+ * Effective limits for a user (stored overrides on top of the defaults)
+ */
+export async function getAutoRebalanceLimits(userId: string): Promise<AutoRebalanceLimits> {
+  const settings = await getUserSettings(userId);
+  return { ...DEFAULT_AUTO_REBALANCE_LIMITS, ...settings?.preferences.autoRebalanceLimits };
+}
+
+/**
+ * Most recent decisions for a user, newest first
+ */
+export async function getAutoRebalanceAudit(userId: string, limit = 50): Promise<AutoRebalanceDecision[]> {
+  return getStore().lrange<AutoRebalanceDecision>(KEYS.AUDIT(userId), 0, limit - 1);
+}
+
+function ruleMatches(rule: UserRule, position: TrackedPosition): boolean {
+  if (!rule.enabled || rule.type !== 'rebalance' || !rule.condition.autoExecute) return false;
+  const { positionAddress, poolAddress } = rule.condition;
+  if (positionAddress && positionAddress !== position.positionAddress) return false;
+  // Natural-language rules store the pool name ("SOL-USDC") until resolved
+  if (poolAddress && poolAddress !== position.poolAddress && poolAddress !== position.poolName.toUpperCase()) return false;
+  return true;
+}
+
+async function resolvePolicy(position: TrackedPosition): Promise<{ policy: 'preferences' | 'rule'; rule?: UserRule } | null> {
+  const rule = (await getUserRules(position.userId)).find(r => ruleMatches(r, position));
+  if (rule) return { policy: 'rule', rule };
+
+  const settings = await getUserSettings(position.userId);
+  if (settings?.preferences.autoRebalance) return { policy: 'preferences' };
+
+  const recipient = position.walletId ? await getRecipient(position.walletId) : null;
+  if (recipient?.preferences.autoRebalance) return { policy: 'preferences' };
+
+  return null;
+}
+
+async function positionValueUsd(position: TrackedPosition): Promise<number | null> {
+  const { poolAddress, positionAddress } = position;
+  if (position.dex === 'raydium') {
+    const state = await fetchRaydiumPositionState(positionAddress);
+    const prices = await getTokenPrices([state.tokenA.mint, state.tokenB.mint]);
+    const [priceA, priceB] = [prices.get(state.tokenA.mint), prices.get(state.tokenB.mint)];
+    if (!priceA || !priceB) return null;
+    return state.tokenA.amount * priceA + state.tokenB.amount * priceB;
+  }
+
+  const pool = await getCachedDLMM(getConnection(), poolAddress);
+  const { positionData } = await pool.getPosition(new PublicKey(positionAddress));
+  const [mintX, mintY] = [pool.tokenX.publicKey.toBase58(), pool.tokenY.publicKey.toBase58()];
+  const prices = await getTokenPrices([mintX, mintY]);
+  const [priceX, priceY] = [prices.get(mintX), prices.get(mintY)];
+  if (!priceX || !priceY) return null;
+
+  return fromBaseUnits(positionData.totalXAmount || '0', pool.tokenX.mint.decimals) * priceX
+    + fromBaseUnits(positionData.totalYAmount || '0', pool.tokenY.mint.decimals) * priceY;
+}
+
+async function recordDecision(decision: AutoRebalanceDecision): Promise<void> {
+  const client = getStore();
+  // Numbers (minutes left, values) change every check; the reason itself doesn't
+  const declineKey = decision.reasons.map(r => r.replace(/[\d.]+/g, '#')).join('|');
+
+  if (decision.decision === 'declined') {
+    const last = await client.hget<{ key: string; at: number }>(KEYS.DECLINED(decision.userId), decision.positionAddress);
+    if (last?.key === declineKey && Date.now() - last.at < DECLINE_REPEAT_MS) return;
+    await client.hset(KEYS.DECLINED(decision.userId), { [decision.positionAddress]: { key: declineKey, at: Date.now() } });
+  } else {
+    await client.hdel(KEYS.DECLINED(decision.userId), decision.positionAddress);
+  }
+
+  await client.lpush(KEYS.AUDIT(decision.userId), decision);
+  await client.ltrim(KEYS.AUDIT(decision.userId), 0, MAX_AUDIT_ENTRIES - 1);
+  console.log(`[AutoRebalance] ${decision.decision} ${decision.poolName} ${decision.positionAddress.slice(0, 8)}...: ${decision.reasons.join('; ')}`);
+}
+
+async function recordExecution(userId: string, execution: AutoRebalanceExecution): Promise<void> {
+  const client = getStore();
+  await client.lpush(KEYS.EXECUTIONS(userId), execution);
+  await client.ltrim(KEYS.EXECUTIONS(userId), 0, MAX_EXECUTION_ENTRIES - 1);
+}
+
+/**
+ * Check the per-user limits; returns the reasons to decline (empty = allowed)
+ */
+function checkLimits(
+  limits: AutoRebalanceLimits,
+  executions: AutoRebalanceExecution[],
+  positionAddress: string,
+  estimatedCostSol: number,
+  valueUsd: number | null,
+): string[] {
+  const now = Date.now();
+  const reasons: string[] = [];
+
+  const today = executions.filter(e => now - e.timestamp < DAY_MS);
+  if (today.length >= limits.maxRebalancesPerDay) {
+    reasons.push(`Daily limit reached (${today.length}/${limits.maxRebalancesPerDay})`);
+  }
+
+  const last = executions.find(e => e.positionAddress === positionAddress);
+  if (last && now - last.timestamp < limits.cooldownMinutes * 60_000) {
+    const minutesLeft = Math.ceil((limits.cooldownMinutes * 60_000 - (now - last.timestamp)) / 60_000);
+    reasons.push(`Cooldown: ${minutesLeft} min left`);
+  }
+
+  const spentSol = executions
+    .filter(e => now - e.timestamp < COST_WINDOW_MS)
+    .reduce((sum, e) => sum + e.costSol, 0);
+  if (spentSol + estimatedCostSol > limits.maxCumulativeCostSol) {
+    reasons.push(`Cost cap: ${spentSol.toFixed(4)} + ${estimatedCostSol.toFixed(4)} SOL exceeds ${limits.maxCumulativeCostSol} SOL (30d)`);
+  }
+
+  if (valueUsd === null) {
+    reasons.push('Could not value position');
+  } else if (valueUsd < limits.minPositionValueUsd) {
+    reasons.push(`Position value $${valueUsd.toFixed(2)} below minimum $${limits.minPositionValueUsd}`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Decide on, and possibly execute, an auto-rebalance for an out-of-range position.
+ * Called by the worker on every check while the position is out of range.
+ */
+export async function considerAutoRebalance(check: AutoRebalanceCheck): Promise<AutoRebalanceOutcome> {
+  const { position, range } = check;
+  const activePrice = range.currentPrice;
+
+  const resolved = await resolvePolicy(position);
+  if (!resolved) return { considered: false };
+
+  const settings = await getUserSettings(position.userId);
+  const limits = { ...DEFAULT_AUTO_REBALANCE_LIMITS, ...settings?.preferences.autoRebalanceLimits };
+  const dryRun = limits.dryRun || !config.autoRebalance.live;
+
+  const analysis = analyzePosition({
+    positionAddress: position.positionAddress,
+    poolAddress: position.poolAddress,
+    poolName: position.poolName,
+    dex: range.dex,
+    currentPrice: activePrice,
+    lowerBound: range.priceLower,
+    upperBound: range.priceUpper,
+  });
+
+  // Keep the range width: bins for Meteora, tick-spacing steps for Raydium
+  const spacing = range.dex === 'raydium'
+    ? position.tickSpacing ?? (await fetchRaydiumPoolState(position.poolAddress)).tickSpacing
+    : 1;
+  const halfWidth = Math.max(1, Math.floor((position.binRange.upper - position.binRange.lower) / spacing / 2));
+  const estimatedCostSol = BUNDLES_PER_REBALANCE * (getTipLamports('fast') + TX_FEE_LAMPORTS_PER_BUNDLE) / 1e9;
+
+  const decision: AutoRebalanceDecision = {
+    id: `ar-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    userId: position.userId,
+    positionAddress: position.positionAddress,
+    poolAddress: position.poolAddress,
+    poolName: position.poolName,
+    decision: 'declined',
+    reasons: [],
+    trigger: analysis.reason,
+    policy: resolved.policy,
+    ruleId: resolved.rule?.id,
+    limits,
+    params: {
+      newMinBinOffset: -halfWidth,
+      newMaxBinOffset: halfWidth,
+      slippageBps: limits.maxSlippageBps,
+    },
+    estimatedCostSol,
+  };
+
+  // ---- Trigger conditions ----
+  if (range.dex === 'orca') {
+    decision.reasons.push('Auto-rebalance is not supported for Orca positions');
+    await recordDecision(decision);
+    return { considered: true, decision };
+  }
+
+  if (analysis.action !== 'rebalance_now') {
+    decision.reasons.push(`Analysis says ${analysis.action}`);
+    await recordDecision(decision);
+    return { considered: true, decision };
+  }
+
+  const outOfRangeMinutes = resolved.rule?.condition.outOfRangeMinutes ?? 0;
+  const outSince = position.outOfRangeSince ? Date.parse(position.outOfRangeSince) : Date.now();
+  if (Date.now() - outSince < outOfRangeMinutes * 60_000) {
+    decision.reasons.push(`Waiting for ${outOfRangeMinutes} min out of range`);
+  }
+
+  const threshold = settings?.preferences.rebalanceThreshold ?? 0;
+  const { distancePercent } = range;
+  if (resolved.policy === 'preferences' && distancePercent < threshold) {
+    decision.reasons.push(`${distancePercent.toFixed(1)}% out of range, threshold ${threshold}%`);
+  }
+
+  // ---- Guardrails ----
+  const executions = await getStore().lrange<AutoRebalanceExecution>(KEYS.EXECUTIONS(position.userId), 0, MAX_EXECUTION_ENTRIES - 1);
+  const valueUsd = await positionValueUsd(position).catch(() => null);
+  decision.positionValueUsd = valueUsd ?? undefined;
+  decision.reasons.push(...checkLimits(limits, executions, position.positionAddress, estimatedCostSol, valueUsd));
+
+  // Only the wallet the position was tracked with, never one named by the user id
+  const walletId = position.walletId;
+  if (!walletId) {
+    decision.reasons.push('Position is tracked without a walletId');
+    await recordDecision(decision);
+    return { considered: true, decision };
+  }
+  if (decision.reasons.length === 0 && !dryRun && await operationLock.isLocked(walletId, 'rebalance')) {
+    decision.reasons.push('Another rebalance is in progress for this wallet');
+  }
+
+  if (decision.reasons.length > 0) {
+    await recordDecision(decision);
+    return { considered: true, decision };
+  }
+
+  // ---- Dry run ----
+  if (dryRun) {
+    decision.decision = 'dry_run';
+    decision.reasons.push(limits.dryRun ? 'Dry-run mode (user limits)' : 'Dry-run mode (AUTO_REBALANCE_LIVE is off)');
+    await recordExecution(position.userId, { timestamp: Date.now(), positionAddress: position.positionAddress, costSol: estimatedCostSol, dryRun: true });
+    await recordDecision(decision);
+    return { considered: true, decision };
+  }
+
+  // ---- Execute ----
+  if (!await operationLock.tryAcquire(walletId, 'rebalance')) {
+    decision.reasons.push('Another rebalance is in progress for this wallet');
+    await recordDecision(decision);
+    return { considered: true, decision };
+  }
+
+  try {
+    const { client, wallet } = await loadWalletById(walletId);
+    const result = await executeRebalanceOperation({
+      walletId,
+      walletAddress: wallet.address,
+      poolAddress: position.poolAddress,
+      positionAddress: position.positionAddress,
+      dex: range.dex,
+      newMinBinOffset: -halfWidth,
+      newMaxBinOffset: halfWidth,
+      strategy: 'concentrated',
+      shape: 'spot',
+      tipSpeed: 'fast',
+      slippageBps: limits.maxSlippageBps,
+      signTransaction: (tx: string) => client.signTransaction(tx),
+    });
+
+    const bundleIds = [result.phase1.bundleId, result.phase2.bundleId].filter((id): id is string => !!id);
+    decision.decision = result.success ? 'executed' : 'failed';
+    decision.reasons.push(result.success ? 'Rebalanced' : result.recoveryHint || 'Rebalance failed');
+    decision.result = {
+      success: result.success,
+      phase1: result.phase1.status,
+      phase2: result.phase2.status,
+      newPositionAddress: result.phase2.newPositionAddress,
+      bundleIds,
+      recoveryHint: result.recoveryHint,
+    };
+
+    // Bundles that landed were paid for, even if phase 2 failed
+    const paidBundles = result.phase1.status !== 'success' ? 0
+      : result.phase2.status === 'success' ? BUNDLES_PER_REBALANCE : 1;
+    await recordExecution(position.userId, {
+      timestamp: Date.now(),
+      positionAddress: position.positionAddress,
+      costSol: (estimatedCostSol / BUNDLES_PER_REBALANCE) * paidBundles,
+      dryRun: false,
+      failed: !result.success || undefined,
+    });
+    if (result.phase1.status === 'success') {
+      await untrackPosition(position.userId, position.positionAddress);
+    }
+    if (result.success && result.phase2.newPositionAddress && result.newPosition) {
+      await trackPosition({
+        positionAddress: result.phase2.newPositionAddress,
+        poolAddress: position.poolAddress,
+        poolName: position.poolName,
+        userId: position.userId,
+        walletId: position.walletId,
+        dex: range.dex,
+        binRange: result.newPosition.binRange,
+        tickSpacing: position.tickSpacing,
+        lastInRange: true,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    await sendNotification(walletId, {
+      event: result.success ? 'rebalance_complete' : 'rebalance_failed',
+      walletId,
+      timestamp: decision.timestamp,
+      position: {
+        address: position.positionAddress,
+        poolName: position.poolName,
+        poolAddress: position.poolAddress,
+      },
+      details: {
+        message: result.success
+          ? `Auto-rebalanced: ${analysis.reason}. New range ${range.unit}s ${result.newPosition?.binRange.lower} to ${result.newPosition?.binRange.upper}.`
+          : `Auto-rebalance failed: ${result.recoveryHint || 'unknown error'}`,
+        binRange: result.newPosition?.binRange,
+        autoRebalance: true,
+        bundleIds,
+      },
+    }).catch(e => console.warn('[AutoRebalance] Notification failed:', e.message));
+  } catch (error: any) {
+    decision.decision = 'failed';
+    decision.reasons.push(error.message);
+    await recordExecution(position.userId, {
+      timestamp: Date.now(),
+      positionAddress: position.positionAddress,
+      costSol: 0,
+      dryRun: false,
+      failed: true,
+    }).catch(e => console.warn('[AutoRebalance] Could not record failed attempt:', e.message));
+  } finally {
+    await operationLock.release(walletId, 'rebalance');
+  }
+
+  await recordDecision(decision);
+  return { considered: true, decision };
+}
@@ -47,7 +47,23 @@ export {
   updatePositionStatus,
   parseNaturalRule,
 } from './userRules.js';
-export type { UserSettings, UserRule, TrackedPosition } from './userRules.js';
+export type { UserSettings, UserRule, TrackedPosition, AutoRebalanceLimits } from './userRules.js';
+
+// Position ranges across DEXes
+export {
+  getRangeSnapshot,
+  discoverTrackablePositions,
+} from './ranges.js';
+export type { RangeDex, RangeTarget, RangeSnapshot } from './ranges.js';
+
+// Autonomous rebalance executor
+export {
+  considerAutoRebalance,
+  getAutoRebalanceLimits,
+  getAutoRebalanceAudit,
+  DEFAULT_AUTO_REBALANCE_LIMITS,
+} from './autoExecutor.js';
+export type { AutoRebalanceDecision, AutoRebalanceOutcome } from './autoExecutor.js';
 
 // Alert queue
 export {
@@ -84,5 +100,7 @@ export {
   isWorkerRunning,
   getWorkerStatus,
   triggerPositionCheck,
+  getQueueStats,
+  getWorkerQueue,
 } from './worker.js';
 export type { WorkerState, WorkerLog } from './worker.js';
@@ -4,11 +4,14 @@
  * Tracks LP positions and alerts on:
  * 1. Position falling out of range
  * 2. Significant value changes (configurable %)
+ *
+ * Meteora DLMM positions are tracked by bin, Orca and Raydium positions by tick.
  */
 
-import { Connection, PublicKey } from '@solana/web3.js';
-import DLMM from '@meteora-ag/dlmm';
+import { Connection } from '@solana/web3.js';
 import { debounceAlert } from '../utils/resilience.js';
+import { createConnection } from '../services/connection-pool.js';
+import { getRangeSnapshot, type RangeSnapshot } from './ranges.js';
 
 // Minimum 15 minutes between out-of-range alerts for the same position
 const ALERT_COOLDOWN_MS = 15 * 60 * 1000;
@@ -16,7 +19,8 @@ const ALERT_COOLDOWN_MS = 15 * 60 * 1000;
 export interface MonitoredPosition {
   positionAddress: string;
   poolAddress: string;
-  binRange: { min: number; max: number };
+  dex?: 'meteora' | 'orca' | 'raydium'; // Defaults to meteora
+  binRange: { min: number; max: number }; // Tick indexes for Orca/Raydium (max exclusive)
   initialValue?: number; // USD value when position was created
   lastCheckedValue?: number;
   lastActiveBin?: number;
@@ -41,7 +45,7 @@ export class PositionMonitor {
   private positions: Map<string, MonitoredPosition> = new Map();
 
   constructor(rpcUrl: string) {
-    this.connection = new Connection(rpcUrl);
+    this.connection = createConnection(undefined, rpcUrl);
   }
 
   /**
@@ -49,7 +53,19 @@ export class PositionMonitor {
    */
   addPosition(position: MonitoredPosition): void {
     this.positions.set(position.positionAddress, position);
-    console.log(`[Monitor] Tracking position ${position.positionAddress} (bins ${position.binRange.min} to ${position.binRange.max})`);
+    const unit = (position.dex ?? 'meteora') === 'meteora' ? 'bin' : 'tick';
+    console.log(`[Monitor] Tracking position ${position.positionAddress} (${unit}s ${position.binRange.min} to ${position.binRange.max})`);
+  }
+
+  /**
+   * Place the position's range against its pool's current price
+   */
+  private getRange(position: MonitoredPosition): Promise<RangeSnapshot> {
+    return getRangeSnapshot({
+      poolAddress: position.poolAddress,
+      dex: position.dex,
+      range: { lower: position.binRange.min, upper: position.binRange.max },
+    });
   }
 
   /**
@@ -79,28 +95,25 @@ export class PositionMonitor {
     const now = new Date().toISOString();
 
     try {
-      // Get pool info
-      const pool = await DLMM.create(this.connection, new PublicKey(position.poolAddress));
-      const activeBin = await pool.getActiveBin();
-      const currentActiveBin = activeBin.binId;
+      const range = await this.getRange(position);
+      const { unit, currentIndex: currentActiveBin } = range;
 
       // 1. Check if out of range
       if (position.alertsEnabled.outOfRange) {
-        const inRange = currentActiveBin >= position.binRange.min && 
-                        currentActiveBin <= position.binRange.max;
-        
-        if (!inRange) {
-          const direction = currentActiveBin < position.binRange.min ? 'below' : 'above';
+        if (!range.inRange) {
+          const { direction } = range;
           // Debounce: only alert once every 15 minutes per position
           if (debounceAlert(`oor:${positionAddress}`, ALERT_COOLDOWN_MS)) {
             alerts.push({
               type: 'out_of_range',
               positionAddress,
-              message: `🚨 Position OUT OF RANGE! Active bin ${currentActiveBin} is ${direction} your range [${position.binRange.min}, ${position.binRange.max}]`,
+              message: `🚨 Position OUT OF RANGE! Active ${unit} ${currentActiveBin} is ${direction} your range [${position.binRange.min}, ${position.binRange.max}] (${range.distancePercent.toFixed(2)}% past the edge)`,
               data: {
                 activeBin: currentActiveBin,
                 binRange: position.binRange,
                 direction,
+                distancePercent: range.distancePercent,
+                currentPrice: range.currentPrice,
                 pool: position.poolAddress,
               },
               timestamp: now,
@@ -121,7 +134,7 @@ export class PositionMonitor {
             alerts.push({
               type: 'value_change',
               positionAddress,
-              message: `📊 Significant move detected! Price moved ~${movePercent.toFixed(1)}% (${binDelta} bins)`,
+              message: `📊 Significant move detected! Price moved ~${movePercent.toFixed(1)}% (${binDelta} ${unit}s)`,
               data: {
                 previousBin: position.lastActiveBin,
                 currentBin: currentActiveBin,
@@ -172,31 +185,21 @@ export class PositionMonitor {
     activeBin: number;
     binRange: { min: number; max: number };
     distanceFromRange: number;
+    distancePercent: number;
   }> {
     const position = this.positions.get(positionAddress);
     if (!position) {
       throw new Error(`Position ${positionAddress} not being monitored`);
     }
 
-    const pool = await DLMM.create(this.connection, new PublicKey(position.poolAddress));
-    const activeBin = await pool.getActiveBin();
-    const currentActiveBin = activeBin.binId;
-
-    const inRange = currentActiveBin >= position.binRange.min && 
-                    currentActiveBin <= position.binRange.max;
-    
-    let distanceFromRange = 0;
-    if (!inRange) {
-      distanceFromRange = currentActiveBin < position.binRange.min
-        ? position.binRange.min - currentActiveBin
-        : currentActiveBin - position.binRange.max;
-    }
+    const range = await this.getRange(position);
 
     return {
-      inRange,
-      activeBin: currentActiveBin,
+      inRange: range.inRange,
+      activeBin: range.currentIndex,
       binRange: position.binRange,
-      distanceFromRange,
+      distanceFromRange: range.distance,
+      distancePercent: range.distancePercent,
     };
   }
 }
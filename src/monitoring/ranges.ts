@@ -0,0 +1,189 @@
+/**
+ * Position Ranges Across DEXes
+ *
+ * Where a position's range sits against its pool's current price, for every
+ * DEX the monitor tracks:
+ * - Meteora DLMM: bin ids, both ends inclusive
+ * - Orca Whirlpools / Raydium CLMM: tick indexes, upper tick exclusive
+ *
+ * Distances are reported in bins/ticks and in price terms, so alerts and the
+ * auto-rebalance analysis read the same for every DEX.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { getConnection } from '../services/connection-pool.js';
+import { getCachedDLMM, getCachedBinData } from '../services/pool-cache.js';
+import { fetchOrcaPoolState } from '../orca/pools.js';
+import { discoverOrcaPositions } from '../orca/positions.js';
+import { fetchRaydiumPoolState, fetchRaydiumPositions } from '../raydium/index.js';
+import { getPdaPersonalPositionAddress } from '@raydium-io/raydium-sdk-v2';
+import { RAYDIUM_CLMM_PROGRAM_ID } from '../raydium/client.js';
+import type { TrackedPosition } from './userRules.js';
+
+export type RangeDex = 'meteora' | 'orca' | 'raydium';
+
+export interface RangeTarget {
+  poolAddress: string;
+  dex?: RangeDex; // Defaults to meteora
+  range: { lower: number; upper: number };
+}
+
+export interface RangeSnapshot {
+  dex: RangeDex;
+  unit: 'bin' | 'tick';
+  currentIndex: number; // Active bin or current tick
+  currentPrice: number;
+  priceLower: number;
+  priceUpper: number;
+  inRange: boolean;
+  direction?: 'below' | 'above';
+  distance: number; // Bins/ticks past the nearest edge, 0 when in range
+  distancePercent: number; // Price move past the nearest edge, 0 when in range
+  edgeDistancePercent: { lower: number; upper: number }; // Price move to each edge, negative once crossed
+}
+
+/** Price of a tick, token B per token A (same for Orca and Raydium) */
+function tickPrice(tick: number, decimalsA: number, decimalsB: number): number {
+  return Math.pow(1.0001, tick) * Math.pow(10, decimalsA - decimalsB);
+}
+
+/** Last index still inside the range */
+export function lastRangeIndex(target: RangeTarget): number {
+  return (target.dex ?? 'meteora') === 'meteora' ? target.range.upper : target.range.upper - 1;
+}
+
+/**
+ * Read the pool and place the range against its current price
+ */
+export async function getRangeSnapshot(target: RangeTarget): Promise<RangeSnapshot> {
+  const dex = target.dex ?? 'meteora';
+  const { lower, upper } = target.range;
+
+  let currentIndex: number;
+  let currentPrice: number;
+  let priceLower: number;
+  let priceUpper: number;
+
+  if (dex === 'meteora') {
+    // Bin prices relative to the active bin, so % distances are exact
+    const conn = getConnection();
+    const binData = await getCachedBinData(conn, target.poolAddress);
+    const pool = await getCachedDLMM(conn, target.poolAddress);
+    const step = 1 + pool.lbPair.binStep / 10_000;
+    currentIndex = binData.activeBinId;
+    currentPrice = binData.activePrice;
+    priceLower = currentPrice * Math.pow(step, lower - currentIndex);
+    priceUpper = currentPrice * Math.pow(step, upper - currentIndex);
+  } else {
+    const pool = dex === 'orca'
+      ? await fetchOrcaPoolState(target.poolAddress)
+      : await fetchRaydiumPoolState(target.poolAddress);
+    currentIndex = pool.tickCurrent;
+    currentPrice = pool.currentPrice;
+    priceLower = tickPrice(lower, pool.decimalsA, pool.decimalsB);
+    priceUpper = tickPrice(upper, pool.decimalsA, pool.decimalsB);
+  }
+
+  const last = lastRangeIndex(target);
+  const inRange = currentIndex >= lower && currentIndex <= last;
+  const direction = inRange ? undefined : currentIndex < lower ? 'below' : 'above';
+
+  let distance = 0;
+  let distancePercent = 0;
+  if (direction === 'below') {
+    distance = lower - currentIndex;
+    distancePercent = Math.max(0, ((priceLower - currentPrice) / priceLower) * 100);
+  } else if (direction === 'above') {
+    distance = currentIndex - last;
+    distancePercent = Math.max(0, ((currentPrice - priceUpper) / priceUpper) * 100);
+  }
+
+  return {
+    dex,
+    unit: dex === 'meteora' ? 'bin' : 'tick',
+    currentIndex,
+    currentPrice,
+    priceLower,
+    priceUpper,
+    inRange,
+    direction,
+    distance,
+    distancePercent,
+    edgeDistancePercent: {
+      lower: currentPrice > 0 ? ((currentPrice - priceLower) / currentPrice) * 100 : 0,
+      upper: currentPrice > 0 ? ((priceUpper - currentPrice) / currentPrice) * 100 : 0,
+    },
+  };
+}
+
+/**
+ * On-chain account that exists for as long as the position is open.
+ * Raydium positions are tracked by NFT mint, which outlives the position.
+ */
+export function positionAccountAddress(position: { positionAddress: string; dex?: RangeDex }): PublicKey {
+  const address = new PublicKey(position.positionAddress);
+  if (position.dex !== 'raydium') return address;
+  return getPdaPersonalPositionAddress(RAYDIUM_CLMM_PROGRAM_ID, address).publicKey;
+}
+
+/**
+ * Discover a wallet's open positions on every DEX, ready to track.
+ * Orca positions are keyed by position account, Raydium by NFT mint.
+ */
+export async function discoverTrackablePositions(
+  walletAddress: string,
+  owner: { userId: string; walletId?: string },
+): Promise<TrackedPosition[]> {
+  const { discoverAllPositions } = await import('../utils/position-discovery.js');
+  const connection = getConnection();
+  const createdAt = new Date().toISOString();
+
+  const [meteora, orca, raydium] = await Promise.all([
+    discoverAllPositions(connection, walletAddress).catch(e => {
+      console.warn('[Ranges] Meteora discovery failed:', e.message);
+      return [];
+    }),
+    discoverOrcaPositions(connection, walletAddress).catch(e => {
+      console.warn('[Ranges] Orca discovery failed:', e.message);
+      return [];
+    }),
+    fetchRaydiumPositions(walletAddress).catch(e => {
+      console.warn('[Ranges] Raydium discovery failed:', e.message);
+      return [];
+    }),
+  ]);
+
+  return [
+    ...meteora.map(pos => ({
+      positionAddress: pos.address,
+      poolAddress: pos.pool.address,
+      poolName: pos.pool.name || `${pos.pool.tokenX.symbol}-${pos.pool.tokenY.symbol}`,
+      ...owner,
+      dex: 'meteora' as const,
+      binRange: pos.binRange,
+      createdAt,
+      lastInRange: pos.inRange,
+    })),
+    ...orca.map(pos => ({
+      positionAddress: pos.address,
+      poolAddress: pos.poolAddress,
+      poolName: pos.poolName,
+      ...owner,
+      dex: 'orca' as const,
+      binRange: { lower: pos.tickLowerIndex, upper: pos.tickUpperIndex },
+      createdAt,
+      lastInRange: pos.inRange,
+    })),
+    ...raydium.map(pos => ({
+      positionAddress: pos.positionMint,
+      poolAddress: pos.poolAddress,
+      poolName: pos.poolName,
+      ...owner,
+      dex: 'raydium' as const,
+      binRange: { lower: pos.tickLower, upper: pos.tickUpper },
+      tickSpacing: pos.tickSpacing,
+      createdAt,
+      lastInRange: pos.inRange,
+    })),
+  ];
+}
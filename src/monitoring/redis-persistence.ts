@@ -1,15 +1,11 @@
 /**
- * Redis Persistence Module (Upstash)
- * 
- * Redis-based storage for monitored positions and webhook config.
- * Falls back to in-memory if Redis not configured.
- * 
- * Environment variables:
- * - UPSTASH_REDIS_REST_URL
- * - UPSTASH_REDIS_REST_TOKEN
+ * Monitor Persistence
+ *
+ * Monitored positions and webhook config, kept in the shared store (see
+ * storage/index.ts), so it follows whichever backend is configured.
  */
 
-import { Redis } from '@upstash/redis';
+import { getStore, isStoreDurable, type StorageBackend } from '../storage/index.js';
 import type { MonitoredPosition } from './positionMonitor.js';
 import type { WebhookConfig } from './webhookDelivery.js';
 
@@ -21,7 +17,7 @@ export interface PersistedData {
   lastCheck?: string;
 }
 
-// Redis keys
+// Storage keys
 const KEYS = {
   POSITIONS: 'lp-toolkit:positions',
   WEBHOOK: 'lp-toolkit:webhook',
@@ -31,97 +27,44 @@ const KEYS = {
 
 const CURRENT_VERSION = 1;
 
-// In-memory fallback
-let memoryStore: PersistedData = {
-  version: CURRENT_VERSION,
-  lastUpdated: new Date().toISOString(),
-  positions: [],
-  webhook: null,
-};
-
-// Redis client (lazy init)
-let redis: Redis | null = null;
-let redisAvailable = false;
-
-/**
- * Initialize Redis connection
- */
-function initRedis(): Redis | null {
-  if (redis !== null) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) {
-    console.warn('[Redis] ⚠️ UPSTASH_REDIS_REST_URL or UPSTASH_REDIS_REST_TOKEN not set');
-    console.warn('[Redis] ⚠️ Falling back to in-memory storage (data will not persist across restarts)');
-    redisAvailable = false;
-    return null;
-  }
-  
-  try {
-    const client = new Redis({ url, token });
-    // Ping to verify connectivity (catches over-limit errors early)
-    client.ping().then(() => {
-      redisAvailable = true;
-      console.log('[Redis] ✅ Connected to Upstash Redis');
-    }).catch((err: any) => {
-      console.warn(`[Redis] ⚠️ Redis ping failed (falling back to in-memory): ${err.message}`);
-      redisAvailable = false;
-      redis = null;
-    });
-    redis = client;
-    redisAvailable = true; // Optimistic; ping will correct if needed
-    return redis;
-  } catch (error: any) {
-    console.error(`[Redis] ❌ Failed to connect: ${error.message}`);
-    redisAvailable = false;
-    return null;
-  }
+function emptyData(): PersistedData {
+  return {
+    version: CURRENT_VERSION,
+    lastUpdated: new Date().toISOString(),
+    positions: [],
+    webhook: null,
+  };
 }
 
 /**
- * Check if Redis is available
+ * Whether monitor state survives a restart
  */
 export function isRedisAvailable(): boolean {
-  initRedis();
-  return redisAvailable;
+  return isStoreDurable();
 }
 
 /**
- * Load persisted data from Redis
+ * Load persisted data from the store
  */
 export async function loadData(): Promise<PersistedData> {
-  const client = initRedis();
-  
-  if (!client) {
-    console.log('[Persistence] Using in-memory storage');
-    return memoryStore;
-  }
-  
-  try {
-    // Load all data from Redis
-    const [positions, webhook, lastCheck, version] = await Promise.all([
-      client.get<MonitoredPosition[]>(KEYS.POSITIONS),
-      client.get<WebhookConfig>(KEYS.WEBHOOK),
-      client.get<string>(KEYS.LAST_CHECK),
-      client.get<number>(KEYS.VERSION),
-    ]);
-    
-    const data: PersistedData = {
-      version: version || CURRENT_VERSION,
-      lastUpdated: new Date().toISOString(),
-      positions: positions || [],
-      webhook: webhook || null,
-      lastCheck: lastCheck || undefined,
-    };
-    
-    console.log(`[Persistence] Loaded ${data.positions.length} positions from Redis, webhook: ${data.webhook ? 'configured' : 'none'}`);
-    return data;
-  } catch (error: any) {
-    console.error(`[Persistence] Failed to load from Redis: ${error.message}`);
-    return memoryStore;
-  }
+  const store = getStore();
+  const [positions, webhook, lastCheck, version] = await Promise.all([
+    store.get<MonitoredPosition[]>(KEYS.POSITIONS),
+    store.get<WebhookConfig>(KEYS.WEBHOOK),
+    store.get<string>(KEYS.LAST_CHECK),
+    store.get<number>(KEYS.VERSION),
+  ]);
+
+  const data: PersistedData = {
+    version: version || CURRENT_VERSION,
+    lastUpdated: new Date().toISOString(),
+    positions: positions || [],
+    webhook: webhook || null,
+    lastCheck: lastCheck || undefined,
+  };
+
+  console.log(`[Persistence] Loaded ${data.positions.length} positions from ${store.backend}, webhook: ${data.webhook ? 'configured' : 'none'}`);
+  return data;
 }
 
 /**
@@ -137,48 +80,33 @@ export function loadDataSync(): PersistedData {
     loadPromise = loadData().then(data => {
       cachedData = data;
       return data;
+    }).catch((error: any) => {
+      console.error(`[Persistence] Failed to load: ${error.message}`);
+      loadPromise = null; // Retry on the next call
+      return emptyData();
     });
   }
   
   // Return cached or default
-  return cachedData || {
-    version: CURRENT_VERSION,
-    lastUpdated: new Date().toISOString(),
-    positions: [],
-    webhook: null,
-  };
+  return cachedData || emptyData();
 }
 
 /**
- * Save data to Redis
+ * Save data to the store
  */
 export async function saveData(data: PersistedData): Promise<void> {
-  const client = initRedis();
-  
+  const store = getStore();
   data.lastUpdated = new Date().toISOString();
-  
-  if (!client) {
-    memoryStore = data;
-    console.log(`[Persistence] Saved ${data.positions.length} positions to memory`);
-    return;
-  }
-  
-  try {
-    await Promise.all([
-      client.set(KEYS.POSITIONS, data.positions),
-      client.set(KEYS.WEBHOOK, data.webhook),
-      data.lastCheck ? client.set(KEYS.LAST_CHECK, data.lastCheck) : Promise.resolve(),
-      client.set(KEYS.VERSION, data.version),
-    ]);
-    
-    cachedData = data;
-    console.log(`[Persistence] Saved ${data.positions.length} positions to Redis`);
-  } catch (error: any) {
-    console.error(`[Persistence] Failed to save to Redis: ${error.message}`);
-    // Fallback to memory
-    memoryStore = data;
-    throw error;
-  }
+
+  await Promise.all([
+    store.set(KEYS.POSITIONS, data.positions),
+    store.set(KEYS.WEBHOOK, data.webhook),
+    data.lastCheck ? store.set(KEYS.LAST_CHECK, data.lastCheck) : Promise.resolve(),
+    store.set(KEYS.VERSION, data.version),
+  ]);
+
+  cachedData = data;
+  console.log(`[Persistence] Saved ${data.positions.length} positions to ${store.backend}`);
 }
 
 /**
@@ -254,18 +182,10 @@ export async function getWebhook(): Promise<WebhookConfig | null> {
  * Update last check timestamp
  */
 export async function setLastCheck(timestamp: string): Promise<void> {
-  const client = initRedis();
-  
-  if (!client) {
-    memoryStore.lastCheck = timestamp;
-    return;
-  }
-  
   try {
-    await client.set(KEYS.LAST_CHECK, timestamp);
+    await getStore().set(KEYS.LAST_CHECK, timestamp);
   } catch (error: any) {
     console.error(`[Persistence] Failed to set lastCheck: ${error.message}`);
-    memoryStore.lastCheck = timestamp;
   }
 }
 
@@ -273,29 +193,21 @@ export async function setLastCheck(timestamp: string): Promise<void> {
  * Get last check timestamp
  */
 export async function getLastCheck(): Promise<string | undefined> {
-  const client = initRedis();
-  
-  if (!client) {
-    return memoryStore.lastCheck;
-  }
-  
   try {
-    const lastCheck = await client.get<string>(KEYS.LAST_CHECK);
-    return lastCheck || undefined;
+    return (await getStore().get<string>(KEYS.LAST_CHECK)) || undefined;
   } catch (error: any) {
     console.error(`[Persistence] Failed to get lastCheck: ${error.message}`);
-    return memoryStore.lastCheck;
+    return undefined;
   }
 }
 
 /**
  * Get storage info (for debugging)
  */
-export function getStorageInfo(): { type: 'redis' | 'memory'; available: boolean } {
-  initRedis();
+export function getStorageInfo(): { type: StorageBackend; available: boolean } {
   return {
-    type: redisAvailable ? 'redis' : 'memory',
-    available: redisAvailable,
+    type: getStore().backend,
+    available: isStoreDurable(),
   };
 }
 
@@ -303,31 +215,9 @@ export function getStorageInfo(): { type: 'redis' | 'memory'; available: boolean
  * Clear all data (for testing)
  */
 export async function clearAll(): Promise<void> {
-  const client = initRedis();
-  
-  if (!client) {
-    memoryStore = {
-      version: CURRENT_VERSION,
-      lastUpdated: new Date().toISOString(),
-      positions: [],
-      webhook: null,
-    };
-    console.log('[Persistence] Memory store cleared');
-    return;
-  }
-  
-  try {
-    await Promise.all([
-      client.del(KEYS.POSITIONS),
-      client.del(KEYS.WEBHOOK),
-      client.del(KEYS.LAST_CHECK),
-      client.del(KEYS.VERSION),
-    ]);
-    cachedData = null;
-    console.log('[Persistence] Redis data cleared');
-  } catch (error: any) {
-    console.error(`[Persistence] Failed to clear Redis: ${error.message}`);
-  }
+  await getStore().del(KEYS.POSITIONS, KEYS.WEBHOOK, KEYS.LAST_CHECK, KEYS.VERSION);
+  cachedData = null;
+  console.log('[Persistence] Monitor data cleared');
 }
 
 // Export sync wrappers for backwards compatibility
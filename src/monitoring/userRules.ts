@@ -1,13 +1,13 @@
 /**
  * User Rules & Settings System
  * 
- * Stores per-user preferences and alert rules in Redis.
+ * Stores per-user preferences and alert rules in the shared store.
  * Supports natural language rule definitions.
  */
 
-import { Redis } from '@upstash/redis';
+import { getStore } from '../storage/index.js';
 
-// Redis keys
+// Storage keys
 const KEYS = {
   USER_SETTINGS: (userId: string) => `lp-toolkit:user:${userId}:settings`,
   USER_RULES: (userId: string) => `lp-toolkit:user:${userId}:rules`,
@@ -31,6 +31,7 @@ export interface UserSettings {
     alertOnValueChange: number; // percentage threshold, 0 = disabled
     autoRebalance: boolean; // If true, auto-execute. If false, ask first.
     rebalanceThreshold: number; // % out of range before triggering rebalance
+    autoRebalanceLimits?: Partial<AutoRebalanceLimits>; // Guardrails for auto-execution
     quietHours?: { start: number; end: number }; // UTC hours
     dailySummary: boolean;
     dailySummaryTime?: string; // "09:00" format
@@ -39,6 +40,15 @@ export interface UserSettings {
   updatedAt: string;
 }
 
+export interface AutoRebalanceLimits {
+  dryRun: boolean; // Record decisions without sending transactions
+  maxRebalancesPerDay: number;
+  maxSlippageBps: number;
+  minPositionValueUsd: number;
+  cooldownMinutes: number; // Per position, between auto-rebalances
+  maxCumulativeCostSol: number; // Tips + tx fees over the trailing 30 days
+}
+
 export interface UserRule {
   id: string;
   userId: string;
@@ -73,36 +83,20 @@ export interface TrackedPosition {
   poolName: string;
   userId: string;
   walletId?: string;
+  dex?: 'meteora' | 'orca' | 'raydium'; // Absent on positions tracked before Orca/Raydium support = meteora
+  // Meteora: bin ids. Orca/Raydium: tick indexes, upper exclusive (see ranges.ts)
   binRange: { lower: number; upper: number };
+  tickSpacing?: number; // Raydium, to size a rebalance in tick-spacing steps
   lastChecked?: string;
   lastInRange?: boolean;
   outOfRangeSince?: string;
   createdAt: string;
 }
 
-// Redis client
-let redis: Redis | null = null;
-
-function getRedis(): Redis | null {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) {
-    console.warn('[UserRules] Redis not configured');
-    return null;
-  }
-  
-  redis = new Redis({ url, token });
-  return redis;
-}
-
 // ============ User Settings ============
 
 export async function getUserSettings(userId: string): Promise<UserSettings | null> {
-  const client = getRedis();
-  if (!client) return null;
+  const client = getStore();
   
   try {
     return await client.get<UserSettings>(KEYS.USER_SETTINGS(userId));
@@ -113,8 +107,7 @@ export async function getUserSettings(userId: string): Promise<UserSettings | nu
 }
 
 export async function setUserSettings(settings: UserSettings): Promise<void> {
-  const client = getRedis();
-  if (!client) throw new Error('Redis not configured');
+  const client = getStore();
   
   settings.updatedAt = new Date().toISOString();
   
@@ -145,8 +138,7 @@ export async function createDefaultSettings(userId: string, telegram?: { chatId:
 }
 
 export async function getAllUsers(): Promise<string[]> {
-  const client = getRedis();
-  if (!client) return [];
+  const client = getStore();
   
   try {
     return await client.smembers(KEYS.ALL_USERS);
@@ -176,8 +168,7 @@ export async function getUsersWithWallets(): Promise<{ userId: string; walletAdd
 // ============ User Rules ============
 
 export async function getUserRules(userId: string): Promise<UserRule[]> {
-  const client = getRedis();
-  if (!client) return [];
+  const client = getStore();
   
   try {
     const rules = await client.get<UserRule[]>(KEYS.USER_RULES(userId));
@@ -189,8 +180,7 @@ export async function getUserRules(userId: string): Promise<UserRule[]> {
 }
 
 export async function addUserRule(rule: UserRule): Promise<void> {
-  const client = getRedis();
-  if (!client) throw new Error('Redis not configured');
+  const client = getStore();
   
   const rules = await getUserRules(rule.userId);
   
@@ -207,8 +197,7 @@ export async function addUserRule(rule: UserRule): Promise<void> {
 }
 
 export async function removeUserRule(userId: string, ruleId: string): Promise<void> {
-  const client = getRedis();
-  if (!client) throw new Error('Redis not configured');
+  const client = getStore();
   
   const rules = await getUserRules(userId);
   const filtered = rules.filter(r => r.id !== ruleId);
@@ -231,8 +220,7 @@ export async function updateRuleTriggered(userId: string, ruleId: string, trigge
 // ============ Tracked Positions ============
 
 export async function getTrackedPositions(userId: string): Promise<TrackedPosition[]> {
-  const client = getRedis();
-  if (!client) return [];
+  const client = getStore();
   
   try {
     const positions = await client.get<TrackedPosition[]>(KEYS.USER_POSITIONS(userId));
@@ -256,8 +244,7 @@ export async function getAllTrackedPositions(): Promise<TrackedPosition[]> {
 }
 
 export async function trackPosition(position: TrackedPosition): Promise<void> {
-  const client = getRedis();
-  if (!client) throw new Error('Redis not configured');
+  const client = getStore();
   
   const positions = await getTrackedPositions(position.userId);
   
@@ -274,8 +261,7 @@ export async function trackPosition(position: TrackedPosition): Promise<void> {
 }
 
 export async function untrackPosition(userId: string, positionAddress: string): Promise<void> {
-  const client = getRedis();
-  if (!client) throw new Error('Redis not configured');
+  const client = getStore();
   
   const positions = await getTrackedPositions(userId);
   const filtered = positions.filter(p => p.positionAddress !== positionAddress);
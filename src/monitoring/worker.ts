@@ -4,16 +4,19 @@
  * Runs continuously to:
  * 1. Check all tracked positions every interval
  * 2. Process alert queue and deliver notifications
- * 3. Execute autonomous actions (if enabled)
+ * 3. Execute autonomous rebalances (if enabled, see autoExecutor.ts)
  * 4. Log all activity for audit trail
  * 
- * Designed to survive API restarts via Redis state.
+ * Designed to survive API restarts via Redis state, and to run on several
+ * replicas: scheduled scans (position checks, DCA scheduling, compounding)
+ * run only on the elected leader, while withdrawal, swap and DCA jobs sit
+ * in durable queues that every replica consumes.
  */
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { Connection } from '@solana/web3.js';
 import DLMM from '@meteora-ag/dlmm';
 import { config } from '../config/index.js';
-import { getCachedDLMM, getCachedBinData } from '../services/pool-cache.js';
+import { getCachedDLMM } from '../services/pool-cache.js';
 import { getConnection } from '../services/connection-pool.js';
 import {
   getAllTrackedPositions,
@@ -33,7 +36,11 @@ import {
   getRecipient,
   type AlertPayload,
 } from '../notifications/index.js';
-import { Redis } from '@upstash/redis';
+import { getStore } from '../storage/index.js';
+import { JobQueue, LeaderElection, INSTANCE_ID, type QueueStats } from '../jobs/index.js';
+import { considerAutoRebalance } from './autoExecutor.js';
+import { getRangeSnapshot, positionAccountAddress, discoverTrackablePositions } from './ranges.js';
+import { reconcileInflightIntents } from '../journal/index.js';
 
 // Worker state keys
 const KEYS = {
@@ -41,10 +48,9 @@ const KEYS = {
   WORKER_LOGS: 'lp-toolkit:worker:logs',
   LAST_CHECK: 'lp-toolkit:worker:lastCheck',
   CHECK_COUNT: 'lp-toolkit:worker:checkCount',
-  WITHDRAWAL_QUEUE: 'lp-toolkit:withdrawal:queue',
-  WITHDRAWAL_PROCESSING: 'lp-toolkit:withdrawal:processing',
-  SWAP_QUEUE: 'lp-toolkit:swap:queue',
-  SWAP_PROCESSING: 'lp-toolkit:swap:processing',
+  // Pre-JobQueue lists; drained into the queues when a leader is elected
+  LEGACY_WITHDRAWAL_QUEUE: 'lp-toolkit:withdrawal:queue',
+  LEGACY_SWAP_QUEUE: 'lp-toolkit:swap:queue',
 };
 
 // ============ Withdrawal Job Types ============
@@ -92,20 +98,26 @@ const MAX_LOG_ENTRIES = 500;
 let isRunning = false;
 let positionCheckTimer: NodeJS.Timeout | null = null;
 let dcaQueueTimer: NodeJS.Timeout | null = null;
+let dcaJobTimer: NodeJS.Timeout | null = null;
+let compoundTimer: NodeJS.Timeout | null = null;
+let maintenanceTimer: NodeJS.Timeout | null = null;
 
-// Redis client
-let redis: Redis | null = null;
+// Scheduled scans run on one replica at a time
+const leader = new LeaderElection('worker', {
+  onElected: () => drainLegacyQueues(),
+});
 
-function getRedis(): Redis | null {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) return null;
-  
-  redis = new Redis({ url, token });
-  return redis;
+// Timer callbacks skip a tick while the previous one is still running
+const busy = new Set<string>();
+
+async function runExclusive(task: string, fn: () => Promise<unknown>): Promise<void> {
+  if (busy.has(task)) return;
+  busy.add(task);
+  try {
+    await fn();
+  } finally {
+    busy.delete(task);
+  }
 }
 
 // ============ Logging ============
@@ -121,21 +133,19 @@ async function log(level: 'info' | 'warn' | 'error', message: string, data?: Rec
   const prefix = level === 'error' ? '❌' : level === 'warn' ? '⚠️' : '📋';
   console.log(`[Worker] ${prefix} ${message}`, data ? JSON.stringify(data) : '');
   
-  const client = getRedis();
-  if (client) {
-    try {
-      await client.lpush(KEYS.WORKER_LOGS, JSON.stringify(entry));
-      await client.ltrim(KEYS.WORKER_LOGS, 0, MAX_LOG_ENTRIES - 1);
-    } catch (e) {
-      // Ignore logging errors
-    }
+  try {
+    const client = getStore();
+    await client.lpush(KEYS.WORKER_LOGS, JSON.stringify(entry));
+    await client.ltrim(KEYS.WORKER_LOGS, 0, MAX_LOG_ENTRIES - 1);
+  } catch (e) {
+    // Ignore logging errors
   }
 }
 
 // ============ Worker State ============
 
 async function getWorkerState(): Promise<WorkerState> {
-  const client = getRedis();
+  const client = getStore();
   
   const defaultState: WorkerState = {
     running: isRunning,
@@ -147,8 +157,6 @@ async function getWorkerState(): Promise<WorkerState> {
     startedAt: null,
   };
   
-  if (!client) return defaultState;
-  
   try {
     const state = await client.get<WorkerState>(KEYS.WORKER_STATE);
     return { ...defaultState, ...state, running: isRunning };
@@ -158,8 +166,7 @@ async function getWorkerState(): Promise<WorkerState> {
 }
 
 async function updateWorkerState(updates: Partial<WorkerState>): Promise<void> {
-  const client = getRedis();
-  if (!client) return;
+  const client = getStore();
   
   try {
     const current = await getWorkerState();
@@ -186,37 +193,24 @@ async function autoDiscoverPositions(): Promise<number> {
       return 0;
     }
     
-    const { discoverAllPositions } = await import('../utils/position-discovery.js');
-    const connection = getConnection();
-    
     for (const { userId, walletAddress, settings } of usersWithWallets) {
       try {
         // Get already tracked positions for this user
         const alreadyTracked = await getTrackedPositions(userId);
         const trackedAddresses = new Set(alreadyTracked.map(p => p.positionAddress));
         
-        // Discover positions on-chain
-        const discovered = await discoverAllPositions(connection, walletAddress);
+        // Discover positions on-chain (Meteora, Orca and Raydium)
+        const discovered = await discoverTrackablePositions(walletAddress, { userId });
         
         // Track any new positions
-        for (const pos of discovered) {
-          if (trackedAddresses.has(pos.address)) {
+        for (const position of discovered) {
+          if (trackedAddresses.has(position.positionAddress)) {
             continue; // Already tracked
           }
           
-          const position: TrackedPosition = {
-            positionAddress: pos.address,
-            poolAddress: pos.pool.address,
-            poolName: pos.pool.name || `${pos.pool.tokenX.symbol}-${pos.pool.tokenY.symbol}`,
-            userId,
-            binRange: pos.binRange,
-            createdAt: new Date().toISOString(),
-            lastInRange: pos.inRange,
-          };
-          
           await trackPosition(position);
           newPositions++;
-          await log('info', `Auto-discovered position ${pos.address.slice(0, 8)}...`, { 
+          await log('info', `Auto-discovered ${position.dex} position ${position.positionAddress.slice(0, 8)}...`, { 
             userId, 
             pool: position.poolName 
           });
@@ -297,8 +291,7 @@ async function checkPosition(position: TrackedPosition): Promise<{ alertQueued:
   
   // FIRST: Verify position still exists on-chain
   try {
-    const positionPubkey = new PublicKey(position.positionAddress);
-    const accountInfo = await conn.getAccountInfo(positionPubkey);
+    const accountInfo = await conn.getAccountInfo(positionAccountAddress(position));
     
     if (!accountInfo) {
       // Position was closed/doesn't exist - auto-remove from tracking
@@ -318,11 +311,10 @@ async function checkPosition(position: TrackedPosition): Promise<{ alertQueued:
     // Continue anyway - might be RPC issue
   }
   
-  // Use cached bin data (10s TTL) - precomputes for subsequent requests
-  const binData = await getCachedBinData(conn, position.poolAddress);
-  const currentBin = binData.activeBinId;
+  // Bins or ticks against the pool price (DLMM bin data is cached for 10s)
+  const range = await getRangeSnapshot({ poolAddress: position.poolAddress, dex: position.dex, range: position.binRange });
+  const { inRange, currentIndex: currentBin, unit } = range;
   
-  const inRange = currentBin >= position.binRange.lower && currentBin <= position.binRange.upper;
   const wasInRange = position.lastInRange !== false;
   const now = new Date().toISOString();
   
@@ -333,6 +325,26 @@ async function checkPosition(position: TrackedPosition): Promise<{ alertQueued:
     outOfRangeSince: inRange ? undefined : (position.outOfRangeSince || now),
   });
   
+  // Auto-rebalance (if the user allows it) before prompting them
+  if (!inRange) {
+    const outcome = await considerAutoRebalance({
+      position: { ...position, outOfRangeSince: position.outOfRangeSince || now },
+      range,
+    }).catch(async (error: any) => {
+      await log('error', `Auto-rebalance check failed for ${position.positionAddress}`, { error: error.message });
+      return null;
+    });
+    const decision = outcome?.decision;
+    // A live attempt notifies the user itself; dry runs and declines fall through to the prompt
+    if (decision && (decision.decision === 'executed' || decision.decision === 'failed')) {
+      await log('info', `Auto-rebalance ${decision.decision} for ${position.poolName}`, {
+        positionAddress: position.positionAddress,
+        reasons: decision.reasons,
+      });
+      return { alertQueued: false };
+    }
+  }
+  
   // Check if we need to alert
   let alertQueued = false;
   
@@ -340,16 +352,16 @@ async function checkPosition(position: TrackedPosition): Promise<{ alertQueued:
     // Just went out of range!
     await log('warn', `Position ${position.positionAddress} went OUT OF RANGE`, {
       pool: position.poolName,
+      dex: range.dex,
       currentBin,
       range: position.binRange,
+      distancePercent: range.distancePercent,
     });
     
-    // Get user settings for delivery
-    // Calculate distance from range
-    const direction = currentBin < position.binRange.lower ? 'below' : 'above';
-    const distance = currentBin < position.binRange.lower
-      ? position.binRange.lower - currentBin
-      : currentBin - position.binRange.upper;
+    const direction = range.direction ?? 'above';
+    const distance = range.distance;
+    // Orca positions can't be rebalanced in one call yet
+    const canRebalance = range.dex !== 'orca';
     
     // Check if recipient is registered for notifications
     const recipient = await getRecipient(position.walletId || position.userId);
@@ -366,22 +378,30 @@ async function checkPosition(position: TrackedPosition): Promise<{ alertQueued:
           poolAddress: position.poolAddress,
         },
         details: {
-          message: `Position is ${distance} bins ${direction} your range`,
+          message: `Position is ${distance} ${unit}s (${range.distancePercent.toFixed(2)}%) ${direction} your range`,
+          dex: range.dex,
+          unit,
           currentBin,
           binRange: position.binRange,
           direction,
           distance,
+          distancePercent: range.distancePercent,
+          currentPrice: range.currentPrice,
+          priceRange: { lower: range.priceLower, upper: range.priceUpper },
         },
-        action: {
-          suggested: 'rebalance',
-          endpoint: 'POST /lp/rebalance/execute',
-          method: 'POST',
-          params: {
-            walletId: position.walletId,
-            poolAddress: position.poolAddress,
-            positionAddress: position.positionAddress,
-          },
-        },
+        action: canRebalance
+          ? {
+            suggested: 'rebalance',
+            endpoint: 'POST /lp/rebalance/execute',
+            method: 'POST',
+            params: {
+              walletId: position.walletId,
+              poolAddress: position.poolAddress,
+              positionAddress: position.positionAddress,
+              dex: range.dex,
+            },
+          }
+          : { suggested: 'withdraw' },
       };
       
       const results = await sendNotification(position.walletId || position.userId, alertPayload);
@@ -416,8 +436,11 @@ async function checkPosition(position: TrackedPosition): Promise<{ alertQueued:
         },
         details: {
           message: 'Position is back in range and earning fees!',
+          dex: range.dex,
+          unit,
           currentBin,
           binRange: position.binRange,
+          currentPrice: range.currentPrice,
         },
       };
       
@@ -436,13 +459,44 @@ const WITHDRAWAL_CHECK_INTERVAL_MS = 5 * 1000; // Check every 5 seconds
 let withdrawalQueueTimer: NodeJS.Timeout | null = null;
 let swapQueueTimer: NodeJS.Timeout | null = null;
 
+// A rerun is safe: once the position is closed the retry just fails
+const withdrawalQueue = new JobQueue<WithdrawalJob>('withdrawal', {
+  visibilityTimeoutMs: 5 * 60 * 1000,
+  maxAttempts: 3,
+});
+
+// Swap-all only swaps what is left, so a rerun is harmless
+const swapQueue = new JobQueue<SwapJob>('swap', {
+  visibilityTimeoutMs: 5 * 60 * 1000,
+  maxAttempts: 2,
+});
+
+function getApiUrl(): string {
+  return process.env.RAILWAY_PUBLIC_DOMAIN 
+    ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
+    : 'http://localhost:3000';
+}
+
+async function sendTelegramMessage(chatId: number | string, text: string): Promise<void> {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken || !chatId) return;
+  await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      chat_id: chatId,
+      text,
+      parse_mode: 'Markdown',
+    }),
+  });
+}
+
 /**
- * Queue a withdrawal job for background processing
+ * Queue a withdrawal job for background processing.
+ * A second request for the same position while one is queued or running
+ * returns the first job's id.
  */
 export async function queueWithdrawal(job: Omit<WithdrawalJob, 'id' | 'queuedAt'>): Promise<string> {
-  const client = getRedis();
-  if (!client) throw new Error('Redis not available');
-  
   const id = `wd_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const fullJob: WithdrawalJob = {
     ...job,
@@ -450,61 +504,47 @@ export async function queueWithdrawal(job: Omit<WithdrawalJob, 'id' | 'queuedAt'
     queuedAt: new Date().toISOString(),
   };
   
-  await client.lpush(KEYS.WITHDRAWAL_QUEUE, JSON.stringify(fullJob));
-  await log('info', `Queued withdrawal ${id}`, { poolAddress: job.poolAddress, chatId: job.chatId });
+  const queued = await withdrawalQueue.enqueue(fullJob, {
+    id,
+    idempotencyKey: `${job.walletId}:${job.positionAddress}`,
+  });
+  
+  if (queued.duplicate) {
+    await log('info', `Withdrawal already queued as ${queued.id}`, { positionAddress: job.positionAddress });
+  } else {
+    await log('info', `Queued withdrawal ${id}`, { poolAddress: job.poolAddress, chatId: job.chatId });
+  }
   
-  return id;
+  return queued.id;
 }
 
 /**
  * Process one withdrawal job from the queue
  */
 async function processWithdrawalQueue(): Promise<void> {
-  const client = getRedis();
-  if (!client) return;
-  
-  // Check if already processing (prevent concurrent processing)
-  const processing = await client.get(KEYS.WITHDRAWAL_PROCESSING);
-  if (processing) {
-    return; // Another job is in progress
-  }
-  
-  // Get next job
-  const rawJob = await client.rpop(KEYS.WITHDRAWAL_QUEUE);
-  if (!rawJob) return;
-  
-  const job: WithdrawalJob = typeof rawJob === 'string' ? JSON.parse(rawJob) : rawJob;
-  
-  // Mark as processing (with 5 min timeout to prevent stuck jobs)
-  await client.set(KEYS.WITHDRAWAL_PROCESSING, job.id, { ex: 300 });
-  
-  await log('info', `Processing withdrawal ${job.id}`, { 
-    poolAddress: job.poolAddress, 
-    positionAddress: job.positionAddress 
-  });
-  
-  try {
-    // Execute withdrawal via API
-    const apiUrl = process.env.RAILWAY_PUBLIC_DOMAIN 
-      ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
-      : 'http://localhost:3000';
+  await withdrawalQueue.processNext(async (job, record) => {
+    const client = getStore();
     
-    const response = await fetch(`${apiUrl}/lp/withdraw/execute`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        walletId: job.walletId,
-        poolAddress: job.poolAddress,
-        positionAddress: job.positionAddress,
-        convertToSol: job.convertToSol,
-      }),
+    await log('info', `Processing withdrawal ${job.id} (attempt ${record.attempts}/${record.maxAttempts})`, { 
+      poolAddress: job.poolAddress, 
+      positionAddress: job.positionAddress 
     });
     
-    const result = await response.json() as any;
-    
-    // Send result to Telegram
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (botToken && job.chatId) {
+    try {
+      // Execute withdrawal via API
+      const response = await fetch(`${getApiUrl()}/lp/withdraw/execute`, {
+        method: 'POST',
+        // Redelivered jobs replay the first attempt instead of withdrawing twice
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': `worker:${job.id}` },
+        body: JSON.stringify({
+          walletId: job.walletId,
+          poolAddress: job.poolAddress,
+          positionAddress: job.positionAddress,
+          convertToSol: job.convertToSol,
+        }),
+      });
+      
+      const result = await response.json() as any;
       let message: string;
       
       if (result.success) {
@@ -539,49 +579,36 @@ async function processWithdrawalQueue(): Promise<void> {
         ].join('\n');
         
         await log('error', `Withdrawal ${job.id} failed`, { error: result.error });
+        
+        // Let the user's retry through instead of deduplicating it
+        if (record.idempotencyKey) {
+          await withdrawalQueue.clearIdempotencyKey(record.idempotencyKey);
+        }
       }
       
-      // Send via Telegram Bot API
-      await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: job.chatId,
-          text: message,
-          parse_mode: 'Markdown',
-        }),
-      });
-    }
-    
-  } catch (error: any) {
-    await log('error', `Withdrawal ${job.id} threw error`, { error: error.message });
-    
-    // Notify user of error
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (botToken && job.chatId) {
-      await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: job.chatId,
-          text: `❌ *Withdrawal Error*\n\nFailed to process withdrawal. Please try again.\n\nError: ${error.message}`,
-          parse_mode: 'Markdown',
-        }),
-      });
+      await sendTelegramMessage(job.chatId, message);
+      
+    } catch (error: any) {
+      await log('error', `Withdrawal ${job.id} threw error`, { error: error.message, attempt: record.attempts });
+      
+      // Notify user once retries are exhausted (the job is dead-lettered)
+      if (record.attempts >= record.maxAttempts) {
+        await sendTelegramMessage(
+          job.chatId,
+          `❌ *Withdrawal Error*\n\nFailed to process withdrawal. Please try again.\n\nError: ${error.message}`,
+        ).catch(() => {});
+      }
+      throw error;
     }
-  } finally {
-    // Clear processing lock
-    await client.del(KEYS.WITHDRAWAL_PROCESSING);
-  }
+  });
 }
 
 /**
  * Get pending withdrawal count
  */
 export async function getWithdrawalQueueLength(): Promise<number> {
-  const client = getRedis();
-  if (!client) return 0;
-  return await client.llen(KEYS.WITHDRAWAL_QUEUE);
+  const stats = await withdrawalQueue.stats();
+  return stats.ready + stats.inflight;
 }
 
 // ============ Swap Queue ============
@@ -590,9 +617,6 @@ export async function getWithdrawalQueueLength(): Promise<number> {
  * Queue a swap-all-to-SOL job for background processing
  */
 export async function queueSwapAll(job: Omit<SwapJob, 'id' | 'queuedAt'>): Promise<string> {
-  const client = getRedis();
-  if (!client) throw new Error('Redis not available');
-  
   const id = `swap_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const fullJob: SwapJob = {
     ...job,
@@ -600,50 +624,32 @@ export async function queueSwapAll(job: Omit<SwapJob, 'id' | 'queuedAt'>): Promi
     queuedAt: new Date().toISOString(),
   };
   
-  await client.lpush(KEYS.SWAP_QUEUE, JSON.stringify(fullJob));
-  await log('info', `Queued swap-all ${id}`, { walletId: job.walletId, chatId: job.chatId });
+  const queued = await swapQueue.enqueue(fullJob, { id, idempotencyKey: job.walletId });
   
-  return id;
+  if (queued.duplicate) {
+    await log('info', `Swap-all already queued as ${queued.id}`, { walletId: job.walletId });
+  } else {
+    await log('info', `Queued swap-all ${id}`, { walletId: job.walletId, chatId: job.chatId });
+  }
+  
+  return queued.id;
 }
 
 /**
  * Process one swap job from the queue
  */
 async function processSwapQueue(): Promise<void> {
-  const client = getRedis();
-  if (!client) return;
-  
-  // Check if already processing
-  const processing = await client.get(KEYS.SWAP_PROCESSING);
-  if (processing) return;
-  
-  // Get next job
-  const rawJob = await client.rpop(KEYS.SWAP_QUEUE);
-  if (!rawJob) return;
-  
-  const job: SwapJob = typeof rawJob === 'string' ? JSON.parse(rawJob) : rawJob;
-  
-  // Mark as processing (5 min timeout)
-  await client.set(KEYS.SWAP_PROCESSING, job.id, { ex: 300 });
-  
-  await log('info', `Processing swap-all ${job.id}`, { walletId: job.walletId });
-  
-  try {
-    // Call the swap endpoint
-    const apiUrl = process.env.RAILWAY_PUBLIC_DOMAIN 
-      ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}`
-      : 'http://localhost:3000';
+  await swapQueue.processNext(async (job, record) => {
+    await log('info', `Processing swap-all ${job.id} (attempt ${record.attempts}/${record.maxAttempts})`, { walletId: job.walletId });
     
-    const response = await fetch(`${apiUrl}/wallet/${job.walletId}/swap-all-to-sol`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-    });
-    
-    const result = await response.json() as any;
-    
-    // Send result to Telegram
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (botToken && job.chatId) {
+    try {
+      // Call the swap endpoint
+      const response = await fetch(`${getApiUrl()}/wallet/${job.walletId}/swap-all-to-sol`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      
+      const result = await response.json() as any;
       let message: string;
       
       if (result.success) {
@@ -679,34 +685,103 @@ async function processSwapQueue(): Promise<void> {
         await log('error', `Swap ${job.id} failed`, { error: result.error });
       }
       
-      await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: job.chatId,
-          text: message,
-          parse_mode: 'Markdown',
-        }),
-      });
+      // A finished swap-all shouldn't block the next request
+      if (record.idempotencyKey) {
+        await swapQueue.clearIdempotencyKey(record.idempotencyKey);
+      }
+      
+      await sendTelegramMessage(job.chatId, message);
+      
+    } catch (error: any) {
+      await log('error', `Swap ${job.id} threw error`, { error: error.message, attempt: record.attempts });
+      
+      if (record.attempts >= record.maxAttempts) {
+        await sendTelegramMessage(
+          job.chatId,
+          `❌ *Swap Error*\n\nFailed to swap tokens. Please try again.\n\nError: ${error.message}`,
+        ).catch(() => {});
+      }
+      throw error;
     }
-    
-  } catch (error: any) {
-    await log('error', `Swap ${job.id} threw error`, { error: error.message });
-    
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (botToken && job.chatId) {
-      await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: job.chatId,
-          text: `❌ *Swap Error*\n\nFailed to swap tokens. Please try again.\n\nError: ${error.message}`,
-          parse_mode: 'Markdown',
-        }),
-      });
+  });
+}
+
+// ============ Queue Maintenance ============
+
+/**
+ * Queues processed by the worker, by name
+ */
+export function getWorkerQueues(): Record<string, JobQueue<any>> {
+  return { withdrawal: withdrawalQueue, swap: swapQueue };
+}
+
+async function getAllQueues(): Promise<Record<string, JobQueue<any>>> {
+  const { dcaQueue } = await import('../services/dca-service.js');
+  return { ...getWorkerQueues(), dca: dcaQueue };
+}
+
+/**
+ * Stats for every worker queue
+ */
+export async function getQueueStats(): Promise<QueueStats[]> {
+  const queues = await getAllQueues();
+  return Promise.all(Object.values(queues).map(q => q.stats()));
+}
+
+/**
+ * Look up a worker queue by name (for dead-letter management)
+ */
+export async function getWorkerQueue(name: string): Promise<JobQueue<any> | null> {
+  const queues = await getAllQueues();
+  return queues[name] || null;
+}
+
+/**
+ * Move jobs left in the pre-JobQueue lists into the durable queues
+ */
+async function drainLegacyQueues(): Promise<void> {
+  const client = getStore();
+  let moved = 0;
+  
+  for (const [key, queue] of [
+    [KEYS.LEGACY_WITHDRAWAL_QUEUE, withdrawalQueue],
+    [KEYS.LEGACY_SWAP_QUEUE, swapQueue],
+  ] as const) {
+    let raw: unknown;
+    while ((raw = await client.rpop(key))) {
+      const job = typeof raw === 'string' ? JSON.parse(raw) : raw;
+      await (queue as JobQueue<any>).enqueue(job, { id: job.id });
+      moved++;
     }
-  } finally {
-    await client.del(KEYS.SWAP_PROCESSING);
+  }
+  
+  if (moved > 0) {
+    await log('info', `Moved ${moved} job(s) from legacy queues`);
+  }
+}
+
+/**
+ * Requeue orphaned jobs on every queue (leader only)
+ */
+async function runQueueMaintenance(): Promise<void> {
+  const queues = await getAllQueues();
+  for (const queue of Object.values(queues)) {
+    await queue.reclaimExpired();
+    await queue.recoverOrphans();
+  }
+}
+
+/**
+ * Settle journaled intents whose bundles were left unconfirmed (leader only)
+ */
+async function reconcileJournal(): Promise<void> {
+  try {
+    const { settled } = await reconcileInflightIntents();
+    if (settled > 0) {
+      await log('info', `[Journal] Reconciled ${settled} in-flight intents`);
+    }
+  } catch (error: any) {
+    await log('warn', `[Journal] Reconcile error (non-fatal): ${error.message}`);
   }
 }
 
@@ -724,57 +799,117 @@ export async function startWorker(): Promise<void> {
   isRunning = true;
   const startTime = new Date().toISOString();
   
-  await log('info', '🚀 Starting background monitoring worker');
+  await log('info', '🚀 Starting background monitoring worker', { instanceId: INSTANCE_ID });
   await updateWorkerState({ running: true, startedAt: startTime });
   
+  const elected = await leader.start();
+  
   // Initial check
-  await checkAllPositions();
+  if (elected) {
+    await runExclusive('journal', reconcileJournal);
+    await runExclusive('positions', checkAllPositions);
+  }
+  
+  // ---- Leader only: scheduled scans ----
   
   // Start position check interval
   positionCheckTimer = setInterval(async () => {
-    if (isRunning) {
-      await checkAllPositions();
+    if (isRunning && leader.isLeader()) {
+      await runExclusive('positions', checkAllPositions);
     }
   }, POSITION_CHECK_INTERVAL_MS);
   
+  // Enqueue due DCA slots (check every minute)
+  dcaQueueTimer = setInterval(async () => {
+    if (isRunning && leader.isLeader()) {
+      await runExclusive('dca-schedule', async () => {
+        try {
+          const { enqueueDueSchedules } = await import('../services/dca-service.js');
+          const enqueued = await enqueueDueSchedules();
+          if (enqueued > 0) {
+            await log('info', `[DCA] Enqueued ${enqueued} due schedules`);
+          }
+        } catch (error: any) {
+          await log('error', `[DCA] Scheduling error: ${error.message}`);
+        }
+      });
+    }
+  }, 60_000); // Check every minute
+  
+  // Start auto-compound processing (policies carry their own next check time)
+  compoundTimer = setInterval(async () => {
+    if (isRunning && leader.isLeader()) {
+      await runExclusive('compound', async () => {
+        try {
+          const { processDueCompounds } = await import('../services/compound-service.js');
+          const compounded = await processDueCompounds();
+          if (compounded > 0) {
+            await log('info', `[Compound] Compounded ${compounded} positions`);
+          }
+        } catch (error: any) {
+          await log('error', `[Compound] Processing error: ${error.message}`);
+        }
+      });
+    }
+  }, 60_000);
+  
+  // Requeue jobs from replicas that died mid-job and settle unconfirmed bundles
+  maintenanceTimer = setInterval(async () => {
+    if (isRunning && leader.isLeader()) {
+      await runExclusive('maintenance', async () => {
+        try {
+          await runQueueMaintenance();
+        } catch (error: any) {
+          await log('warn', `[Jobs] Maintenance error (non-fatal): ${error.message}`);
+        }
+      });
+      await runExclusive('journal', reconcileJournal);
+    }
+  }, 60_000);
+  
+  // ---- Every replica: queue consumers ----
+  
   // Start withdrawal queue processing
   withdrawalQueueTimer = setInterval(async () => {
     if (isRunning) {
-      try {
-        await processWithdrawalQueue();
-      } catch (error: any) {
-        await log('warn', `[WithdrawalQueue] Error (non-fatal): ${error.message}`);
-      }
+      await runExclusive('withdrawal', async () => {
+        try {
+          await processWithdrawalQueue();
+        } catch (error: any) {
+          await log('warn', `[WithdrawalQueue] Error (non-fatal): ${error.message}`);
+        }
+      });
     }
   }, WITHDRAWAL_CHECK_INTERVAL_MS);
   
   // Start swap queue processing
   swapQueueTimer = setInterval(async () => {
     if (isRunning) {
-      try {
-        await processSwapQueue();
-      } catch (error: any) {
-        await log('warn', `[SwapQueue] Error (non-fatal): ${error.message}`);
-      }
+      await runExclusive('swap', async () => {
+        try {
+          await processSwapQueue();
+        } catch (error: any) {
+          await log('warn', `[SwapQueue] Error (non-fatal): ${error.message}`);
+        }
+      });
     }
   }, WITHDRAWAL_CHECK_INTERVAL_MS);
   
-  // Start DCA processing (check every minute)
-  dcaQueueTimer = setInterval(async () => {
+  // Start DCA deposit processing
+  dcaJobTimer = setInterval(async () => {
     if (isRunning) {
-      try {
-        const { processDueSchedules } = await import('../services/dca-service.js');
-        const processed = await processDueSchedules();
-        if (processed > 0) {
-          await log('info', `[DCA] Processed ${processed} due schedules`);
+      await runExclusive('dca', async () => {
+        try {
+          const { processNextDCAJob } = await import('../services/dca-service.js');
+          await processNextDCAJob();
+        } catch (error: any) {
+          await log('error', `[DCA] Processing error: ${error.message}`);
         }
-      } catch (error: any) {
-        await log('error', `[DCA] Processing error: ${error.message}`);
-      }
+      });
     }
-  }, 60_000); // Check every minute
+  }, WITHDRAWAL_CHECK_INTERVAL_MS);
   
-  await log('info', `Worker started. Position check: ${POSITION_CHECK_INTERVAL_MS / 1000}s, Queue processing: ${WITHDRAWAL_CHECK_INTERVAL_MS / 1000}s, DCA: 60s`);
+  await log('info', `Worker started (${elected ? 'leader' : 'follower'}). Position check: ${POSITION_CHECK_INTERVAL_MS / 1000}s, Queue processing: ${WITHDRAWAL_CHECK_INTERVAL_MS / 1000}s, DCA: 60s, Compound: 60s`);
 }
 
 /**
@@ -787,25 +922,27 @@ export async function stopWorker(): Promise<void> {
   
   isRunning = false;
   
-  if (positionCheckTimer) {
-    clearInterval(positionCheckTimer);
-    positionCheckTimer = null;
-  }
-  
-  if (withdrawalQueueTimer) {
-    clearInterval(withdrawalQueueTimer);
-    withdrawalQueueTimer = null;
-  }
-  
-  if (swapQueueTimer) {
-    clearInterval(swapQueueTimer);
-    swapQueueTimer = null;
+  for (const timer of [
+    positionCheckTimer,
+    withdrawalQueueTimer,
+    swapQueueTimer,
+    dcaQueueTimer,
+    dcaJobTimer,
+    compoundTimer,
+    maintenanceTimer,
+  ]) {
+    if (timer) clearInterval(timer);
   }
+  positionCheckTimer = null;
+  withdrawalQueueTimer = null;
+  swapQueueTimer = null;
+  dcaQueueTimer = null;
+  dcaJobTimer = null;
+  compoundTimer = null;
+  maintenanceTimer = null;
   
-  if (dcaQueueTimer) {
-    clearInterval(dcaQueueTimer);
-    dcaQueueTimer = null;
-  }
+  // Hand leadership to another replica right away instead of after the TTL
+  await leader.stop();
   
   await log('info', '🛑 Worker stopped');
   await updateWorkerState({ running: false });
@@ -821,21 +958,37 @@ export function isWorkerRunning(): boolean {
 /**
  * Get worker status
  */
-export async function getWorkerStatus(): Promise<WorkerState & { logs: WorkerLog[] }> {
+export async function getWorkerStatus(): Promise<WorkerState & {
+  instanceId: string;
+  isLeader: boolean;
+  leader: string | null;
+  queues: QueueStats[];
+  logs: WorkerLog[];
+}> {
   const state = await getWorkerState();
-  const client = getRedis();
+  const client = getStore();
   
   let logs: WorkerLog[] = [];
-  if (client) {
-    try {
-      const rawLogs = await client.lrange(KEYS.WORKER_LOGS, 0, 49);
-      logs = rawLogs.map(l => typeof l === 'string' ? JSON.parse(l) : l as unknown as WorkerLog);
-    } catch (e) {
-      // Ignore
-    }
+  try {
+    const rawLogs = await client.lrange(KEYS.WORKER_LOGS, 0, 49);
+    logs = rawLogs.map(l => typeof l === 'string' ? JSON.parse(l) : l as unknown as WorkerLog);
+  } catch (e) {
+    // Ignore
   }
   
-  return { ...state, logs };
+  const [leaderId, queues] = await Promise.all([
+    leader.getLeader(),
+    getQueueStats().catch(() => []),
+  ]);
+  
+  return {
+    ...state,
+    instanceId: INSTANCE_ID,
+    isLeader: leader.isLeader(),
+    leader: leaderId,
+    queues,
+    logs,
+  };
 }
 
 /**
@@ -843,5 +996,5 @@ export async function getWorkerStatus(): Promise<WorkerState & { logs: WorkerLog
  */
 export async function triggerPositionCheck(): Promise<void> {
   await log('info', 'Manual position check triggered');
-  await checkAllPositions();
+  await runExclusive('positions', checkAllPositions);
 }
@@ -3,9 +3,14 @@
  * 
  * Uses Privy's server-side Wallets API to create and manage embedded wallets
  * for AI agents. Replaces Portal MPC with same interface.
+ *
+ * Every transaction is checked against the wallet's transaction policy
+ * (src/policy/) before it goes to Privy for signing.
  */
 
 import { PrivyClient } from '@privy-io/node';
+import { noteSigning } from '../journal/store.js';
+import { checkTransactionPolicy, holdSignedOutflow, releaseOutflow, type OutflowReservation } from '../policy/index.js';
 
 export interface PrivyWalletInfo {
   id: string;
@@ -104,6 +109,13 @@ export class PrivyWalletClient {
       throw new Error('No wallet loaded');
     }
 
+    const { reservation } = await checkTransactionPolicy({
+      walletId: this.wallet.id,
+      walletAddress: this.wallet.address,
+      transactionBase64,
+    });
+
+    await noteSigning('built');
     try {
       // Use the Privy SDK RPC API for Solana transactions
       // Note: signTransaction does NOT use caip2 (only signAndSendTransaction does)
@@ -122,10 +134,16 @@ export class PrivyWalletClient {
       const signedTx = (result as any).data?.signed_transaction || (result as any).signed_transaction || (result as any).data?.signedTransaction;
       if (!signedTx) {
         console.error('[Privy] signTransaction full response:', JSON.stringify(result).slice(0, 500));
+        await releaseOutflow(reservation);
+      } else {
+        // Released by the submitter if the transaction never lands
+        await holdSignedOutflow(signedTx, reservation);
+        await noteSigning('signed');
       }
       return signedTx;
     } catch (error) {
       console.error('[Privy] Failed to sign transaction:', error);
+      await releaseOutflow(reservation);
       throw error;
     }
   }
@@ -138,6 +156,12 @@ export class PrivyWalletClient {
       throw new Error('No wallet loaded');
     }
 
+    const { reservation } = await checkTransactionPolicy({
+      walletId: this.wallet.id,
+      walletAddress: this.wallet.address,
+      transactionBase64,
+    });
+
     try {
       // Use the Privy SDK RPC API for Solana transactions with caip2
       const result = await (this.client as any).privyApiClient.wallets._rpc(this.wallet.id, {
@@ -153,6 +177,7 @@ export class PrivyWalletClient {
       return (result as any).data?.hash || (result as any).hash || (result as any).transaction_hash;
     } catch (error) {
       console.error('[Privy] Failed to sign and send transaction:', error);
+      await releaseOutflow(reservation);
       throw error;
     }
   }
@@ -191,6 +216,7 @@ export class PrivyWalletClient {
       throw new Error('No wallet loaded');
     }
 
+    let reservation: OutflowReservation | null = null;
     try {
       const { PublicKey, SystemProgram, Transaction } = await import('@solana/web3.js');
       
@@ -213,6 +239,11 @@ export class PrivyWalletClient {
       
       // Serialize transaction (unsigned, base64)
       const serializedTx = tx.serialize({ requireAllSignatures: false }).toString('base64');
+      ({ reservation } = await checkTransactionPolicy({
+        walletId: this.wallet.id,
+        walletAddress: this.wallet.address,
+        transactionBase64: serializedTx,
+      }));
       
       // Use Privy's signAndSendTransaction with correct Solana params format
       const result = await (this.client as any).privyApiClient.wallets._rpc(this.wallet.id, {
@@ -228,6 +259,7 @@ export class PrivyWalletClient {
       return (result as any).hash || (result as any).transaction_hash || (result as any).txid || result;
     } catch (error) {
       console.error('[Privy] Failed to transfer:', error);
+      await releaseOutflow(reservation);
       throw error;
     }
   }
@@ -8,12 +8,13 @@
  * Each user/agent registers their preferred notification method.
  */
 
-import { Redis } from '@upstash/redis';
+import { getStore } from '../storage/index.js';
 import crypto from 'crypto';
+import { config } from '../config/index.js';
 
 // Import getUserByChat from onboarding (lazy import to avoid circular deps)
 async function getUserByChat(chatId: string | number): Promise<{ walletId: string; walletAddress: string } | null> {
-  const client = getRedis();
+  const client = getStore();
   const walletId = await client.get<string>(`notify:chat:${chatId}`);
   if (!walletId) return null;
   
@@ -62,7 +63,8 @@ export interface TelegramLinkCode {
 }
 
 export interface AlertPayload {
-  event: 'out_of_range' | 'back_in_range' | 'rebalance_complete' | 'rebalance_failed' | 'daily_summary';
+  event: 'out_of_range' | 'back_in_range' | 'rebalance_complete' | 'rebalance_failed' | 'compound_complete' | 'compound_failed' | 'daily_summary'
+    | 'operation_submitted' | 'operation_landed' | 'operation_failed';
   walletId: string;
   timestamp: string;
   
@@ -74,13 +76,28 @@ export interface AlertPayload {
   
   details: {
     message: string;
-    currentBin?: number;
+    currentBin?: number; // Active bin, or current tick when unit is 'tick'
     binRange?: { lower: number; upper: number };
+    unit?: 'bin' | 'tick';
     direction?: 'above' | 'below';
     distance?: number;
+    distancePercent?: number;
     [key: string]: any;
   };
   
+  // Bundle (or RPC fallback transaction) progress for journaled write operations
+  operation?: {
+    id: string;
+    type: string;
+    state: string;
+    bundleId?: string;
+    leg?: string;
+    signatures: string[];
+    tipLamports: number;
+    slot?: number;
+    error?: string;
+  };
+  
   // For agents - actionable endpoints
   action?: {
     suggested: 'rebalance' | 'monitor' | 'withdraw' | 'none';
@@ -99,31 +116,13 @@ const KEYS = {
   ALL_RECIPIENTS: 'lp:notify:recipients',
 };
 
-// ============ Redis Client ============
-
-let redis: Redis | null = null;
-
-function getRedis(): Redis {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) {
-    throw new Error('Redis not configured');
-  }
-  
-  redis = new Redis({ url, token });
-  return redis;
-}
-
 // ============ Recipient Management ============
 
 /**
  * Get a notification recipient by wallet ID
  */
 export async function getRecipient(walletId: string): Promise<NotificationRecipient | null> {
-  const client = getRedis();
+  const client = getStore();
   return client.get<NotificationRecipient>(KEYS.RECIPIENT(walletId));
 }
 
@@ -131,7 +130,7 @@ export async function getRecipient(walletId: string): Promise<NotificationRecipi
  * Create or update a notification recipient
  */
 export async function upsertRecipient(recipient: Partial<NotificationRecipient> & { walletId: string }): Promise<NotificationRecipient> {
-  const client = getRedis();
+  const client = getStore();
   
   const existing = await getRecipient(recipient.walletId);
   const now = new Date().toISOString();
@@ -169,7 +168,7 @@ export async function upsertRecipient(recipient: Partial<NotificationRecipient>
  * Get all registered recipients
  */
 export async function getAllRecipients(): Promise<string[]> {
-  const client = getRedis();
+  const client = getStore();
   return client.smembers(KEYS.ALL_RECIPIENTS);
 }
 
@@ -177,7 +176,7 @@ export async function getAllRecipients(): Promise<string[]> {
  * Get wallet ID by Telegram chat ID (reverse lookup)
  */
 export async function getWalletByChatId(chatId: string | number): Promise<string | null> {
-  const client = getRedis();
+  const client = getStore();
   return client.get<string>(KEYS.CHAT_TO_WALLET(chatId));
 }
 
@@ -187,7 +186,7 @@ export async function getWalletByChatId(chatId: string | number): Promise<string
  * Generate a link code for Telegram authentication
  */
 export async function generateLinkCode(chatId: number | string, username?: string): Promise<TelegramLinkCode> {
-  const client = getRedis();
+  const client = getStore();
   
   // Generate 6-character alphanumeric code
   const code = crypto.randomBytes(3).toString('hex').toUpperCase();
@@ -214,7 +213,7 @@ export async function generateLinkCode(chatId: number | string, username?: strin
  * Validate and consume a link code
  */
 export async function consumeLinkCode(code: string): Promise<TelegramLinkCode | null> {
-  const client = getRedis();
+  const client = getStore();
   
   const linkCode = await client.get<TelegramLinkCode>(KEYS.LINK_CODE(code.toUpperCase()));
   
@@ -274,6 +273,32 @@ export async function sendAlert(walletId: string, payload: AlertPayload): Promis
   return results;
 }
 
+/**
+ * Send alert to explicit targets instead of a registered recipient
+ */
+export async function sendAlertToTargets(
+  targets: { chatId?: number | string; webhookUrl?: string },
+  payload: AlertPayload,
+): Promise<{
+  telegram?: { success: boolean; error?: string };
+  webhook?: { success: boolean; error?: string };
+}> {
+  const results: {
+    telegram?: { success: boolean; error?: string };
+    webhook?: { success: boolean; error?: string };
+  } = {};
+  
+  if (targets.chatId) {
+    results.telegram = await sendTelegramAlert(targets.chatId, payload);
+  }
+  
+  if (targets.webhookUrl) {
+    results.webhook = await sendWebhookAlert(targets.webhookUrl, payload);
+  }
+  
+  return results;
+}
+
 /**
  * Send alert via Telegram
  */
@@ -362,9 +387,10 @@ function formatTelegramMessage(payload: AlertPayload): string {
       return [
         `🚨 *${payload.position?.poolName || 'Position'} Out of Range*`,
         ``,
-        `Your position is ${payload.details.distance} bins ${payload.details.direction} your range.`,
+        `Your position is ${payload.details.distance} ${payload.details.unit ?? 'bin'}s ${payload.details.direction} your range` +
+          (payload.details.distancePercent !== undefined ? ` (${payload.details.distancePercent.toFixed(2)}% in price).` : '.'),
         ``,
-        `📍 Current: bin ${payload.details.currentBin}`,
+        `📍 Current: ${payload.details.unit ?? 'bin'} ${payload.details.currentBin}`,
         `📐 Your range: ${payload.details.binRange?.lower} → ${payload.details.binRange?.upper}`,
         ``,
         `_${payload.details.message}_`,
@@ -376,7 +402,7 @@ function formatTelegramMessage(payload: AlertPayload): string {
         ``,
         `Your position is earning fees again!`,
         ``,
-        `📍 Current: bin ${payload.details.currentBin}`,
+        `📍 Current: ${payload.details.unit ?? 'bin'} ${payload.details.currentBin}`,
       ].join('\n');
     
     case 'rebalance_complete':
@@ -399,6 +425,24 @@ function formatTelegramMessage(payload: AlertPayload): string {
         `Your tokens are safe in your wallet.`,
       ].join('\n');
     
+    case 'compound_complete':
+      return [
+        `♻️ *Fees Compounded*`,
+        ``,
+        `${payload.position?.poolName || 'Position'} fees were claimed and added back.`,
+        ``,
+        payload.details.message,
+      ].join('\n');
+    
+    case 'compound_failed':
+      return [
+        `❌ *Auto-Compound Failed*`,
+        ``,
+        `${payload.position?.poolName || 'Position'} compound failed.`,
+        ``,
+        `Error: ${payload.details.message}`,
+      ].join('\n');
+    
     case 'daily_summary':
       return [
         `📊 *Daily LP Summary*`,
@@ -406,6 +450,29 @@ function formatTelegramMessage(payload: AlertPayload): string {
         payload.details.message,
       ].join('\n');
     
+    case 'operation_submitted':
+    case 'operation_landed':
+    case 'operation_failed': {
+      const op = payload.operation;
+      const kind = op && !op.bundleId ? 'Transaction' : 'Bundle';
+      const title = payload.event === 'operation_submitted' ? `📤 *${kind} Submitted*`
+        : payload.event === 'operation_landed' ? `✅ *${kind} Landed*`
+        : `❌ *${kind} Failed*`;
+      return [
+        title,
+        ``,
+        payload.details.message,
+        ``,
+        ...(op ? [
+          ...(op.bundleId ? [`Bundle: \`${op.bundleId.slice(0, 16)}...\``] : []),
+          ...op.signatures.map((sig, i) => `Tx ${i + 1}: [${sig.slice(0, 8)}...](https://solscan.io/tx/${sig})`),
+          ...(op.tipLamports > 0 ? [`Tip: ${(op.tipLamports / 1e9).toFixed(6)} SOL`] : []),
+          ...(op.slot ? [`Slot: ${op.slot}`] : []),
+          ...(op.error ? [`Error: ${op.error}`] : []),
+        ] : []),
+      ].join('\n');
+    }
+    
     default:
       return payload.details.message;
   }
@@ -588,7 +655,7 @@ export async function handleTelegramCallback(chatId: number | string, data: stri
       if (action === 'wd' && param?.startsWith('p')) {
         // Look up position from Redis cache
         try {
-          const client = getRedis();
+          const client = getStore();
           const positionMap = await client.get<Record<string, { poolAddress: string; positionAddress: string }>>(`positions:${walletId}`);
           if (positionMap && positionMap[param]) {
             poolAddress = positionMap[param].poolAddress;
@@ -613,7 +680,7 @@ export async function handleTelegramCallback(chatId: number | string, data: stri
         // Get pool name first (fast)
         let poolName = poolAddress.slice(0, 8) + '...';
         try {
-          const poolResp = await fetch(`https://dlmm-api.meteora.ag/pair/${poolAddress}`);
+          const poolResp = await fetch(`${config.meteora.apiUrl}/pair/${poolAddress}`);
           if (poolResp.ok) {
             const poolData = await poolResp.json() as any;
             poolName = poolData.name || poolName;
@@ -741,7 +808,7 @@ export async function handleTelegramCallback(chatId: number | string, data: stri
           // Get pool name from Meteora
           let poolName = poolAddress.slice(0, 8) + '...';
           try {
-            const poolResp = await fetch(`https://dlmm-api.meteora.ag/pair/${poolAddress}`);
+            const poolResp = await fetch(`${config.meteora.apiUrl}/pair/${poolAddress}`);
             if (poolResp.ok) {
               const poolData = await poolResp.json() as any;
               poolName = poolData.name || poolName;
@@ -870,6 +937,7 @@ export default {
   generateLinkCode,
   consumeLinkCode,
   sendAlert,
+  sendAlertToTargets,
   handleTelegramStart,
   handleTelegramCallback,
 };
@@ -0,0 +1,199 @@
+/**
+ * Account-backed RPC Answers
+ *
+ * Serves account reads (getAccountInfo, getMultipleAccounts, program and
+ * token account scans, balances) from the accounts/ fixtures, so one
+ * snapshot of the accounts answers any query over them. An account missing
+ * from the snapshot does not exist.
+ */
+
+import { AccountLayout, MintLayout, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import bs58 from 'bs58';
+import type { AccountFixture, FixtureStore } from './fixtures.js';
+
+const TOKEN_PROGRAM = TOKEN_PROGRAM_ID.toBase58();
+const TOKEN_2022_PROGRAM = TOKEN_2022_PROGRAM_ID.toBase58();
+// Rent per byte for two years, counting the 128-byte account header
+const RENT_LAMPORTS_PER_BYTE = 6960;
+const ACCOUNT_HEADER_BYTES = 128;
+
+interface AccountFilter {
+  memcmp?: { offset: number; bytes: string; encoding?: 'base58' | 'base64' };
+  dataSize?: number;
+}
+
+interface ReadConfig {
+  encoding?: string;
+  filters?: AccountFilter[];
+  dataSlice?: { offset: number; length: number };
+  withContext?: boolean;
+}
+
+/** An answer, and whether the RPC wraps it in { context, value } */
+export interface AccountAnswer {
+  result: unknown;
+  withContext: boolean;
+}
+
+function dataOf(account: AccountFixture): Buffer {
+  return Buffer.from(account.data[0], 'base64');
+}
+
+function isTokenProgram(owner: string): boolean {
+  return owner === TOKEN_PROGRAM || owner === TOKEN_2022_PROGRAM;
+}
+
+// Token-2022 accounts carry extensions after the base layout, tagged 2 at byte 165
+function isTokenAccount(account: AccountFixture): boolean {
+  const data = dataOf(account);
+  return isTokenProgram(account.owner)
+    && (data.length === AccountLayout.span || (data.length > AccountLayout.span && data[AccountLayout.span] === 2));
+}
+
+function matches(account: AccountFixture, filters: AccountFilter[] = []): boolean {
+  const data = dataOf(account);
+  return filters.every((filter) => {
+    if (filter.dataSize !== undefined) return data.length === filter.dataSize;
+    if (!filter.memcmp) return true;
+    const { offset, bytes, encoding } = filter.memcmp;
+    const expected = encoding === 'base64' ? Buffer.from(bytes, 'base64') : Buffer.from(bs58.decode(bytes));
+    return data.subarray(offset, offset + expected.length).equals(expected);
+  });
+}
+
+function tokenAmount(amount: bigint, decimals: number) {
+  const uiAmountString = decimals > 0
+    ? `${amount / 10n ** BigInt(decimals)}.${(amount % 10n ** BigInt(decimals)).toString().padStart(decimals, '0')}`.replace(/\.?0+$/, '')
+    : amount.toString();
+  return { amount: amount.toString(), decimals, uiAmount: Number(uiAmountString), uiAmountString };
+}
+
+function decimalsOf(store: FixtureStore, mint: string): number {
+  const account = store.getAccount(mint);
+  return account ? MintLayout.decode(dataOf(account)).decimals : 0;
+}
+
+/**
+ * jsonParsed data for token accounts and mints; the RPC falls back to
+ * base64 for anything it can't parse
+ */
+function parsedData(store: FixtureStore, account: AccountFixture): unknown {
+  if (!isTokenProgram(account.owner)) return account.data;
+  const data = dataOf(account);
+  const program = account.owner === TOKEN_2022_PROGRAM ? 'spl-token-2022' : 'spl-token';
+
+  if (isTokenAccount(account)) {
+    const token = AccountLayout.decode(data);
+    const mint = token.mint.toBase58();
+    return {
+      program,
+      parsed: {
+        type: 'account',
+        info: {
+          isNative: token.isNative !== 0n,
+          mint,
+          owner: token.owner.toBase58(),
+          state: 'initialized',
+          tokenAmount: tokenAmount(token.amount, decimalsOf(store, mint)),
+        },
+      },
+      space: data.length,
+    };
+  }
+
+  const mint = MintLayout.decode(data);
+  return {
+    program,
+    parsed: {
+      type: 'mint',
+      info: {
+        decimals: mint.decimals,
+        freezeAuthority: mint.freezeAuthorityOption ? mint.freezeAuthority.toBase58() : null,
+        isInitialized: mint.isInitialized,
+        mintAuthority: mint.mintAuthorityOption ? mint.mintAuthority.toBase58() : null,
+        supply: mint.supply.toString(),
+      },
+    },
+    space: data.length,
+  };
+}
+
+function encode(store: FixtureStore, account: AccountFixture | null, config: ReadConfig = {}): unknown {
+  if (!account) return null;
+  if (config.encoding === 'jsonParsed') return { ...account, data: parsedData(store, account) };
+  if (config.dataSlice) {
+    const { offset, length } = config.dataSlice;
+    return { ...account, data: [dataOf(account).subarray(offset, offset + length).toString('base64'), 'base64'] };
+  }
+  return account;
+}
+
+function keyed(store: FixtureStore, entries: Array<[string, AccountFixture]>, config?: ReadConfig) {
+  return entries.map(([pubkey, account]) => ({ pubkey, account: encode(store, account, config) }));
+}
+
+/**
+ * Answer an account read from the snapshot, or null for any other method
+ */
+export function accountAnswer(store: FixtureStore, method: string, params: any[]): AccountAnswer | null {
+  const all = () => [...store.allAccounts()];
+
+  switch (method) {
+    case 'getAccountInfo':
+      return { result: encode(store, store.getAccount(params[0]), params[1]), withContext: true };
+    case 'getMultipleAccounts':
+      return {
+        result: (params[0] as string[]).map(address => encode(store, store.getAccount(address), params[1])),
+        withContext: true,
+      };
+    case 'getBalance':
+      return { result: store.getAccount(params[0])?.lamports ?? 0, withContext: true };
+    case 'getProgramAccounts': {
+      const config: ReadConfig = params[1] || {};
+      const found = all().filter(([, account]) => account.owner === params[0] && matches(account, config.filters));
+      return { result: keyed(store, found, config), withContext: !!config.withContext };
+    }
+    case 'getTokenAccountsByOwner': {
+      const filter: { mint?: string; programId?: string } = params[1];
+      const found = all().filter(([, account]) => {
+        if (!isTokenAccount(account)) return false;
+        const token = AccountLayout.decode(dataOf(account));
+        return token.owner.toBase58() === params[0]
+          && (filter.mint ? token.mint.toBase58() === filter.mint : account.owner === filter.programId);
+      });
+      return { result: keyed(store, found, params[2]), withContext: true };
+    }
+    case 'getTokenAccountBalance': {
+      const account = store.getAccount(params[0]);
+      if (!account || !isTokenAccount(account)) return null;
+      const token = AccountLayout.decode(dataOf(account));
+      return { result: tokenAmount(token.amount, decimalsOf(store, token.mint.toBase58())), withContext: true };
+    }
+    case 'getMinimumBalanceForRentExemption':
+      return { result: (params[0] + ACCOUNT_HEADER_BYTES) * RENT_LAMPORTS_PER_BYTE, withContext: false };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Accounts in a live response, to save alongside it when recording.
+ * Sliced or parsed reads are skipped: they don't hold the whole account.
+ */
+export function accountsIn(method: string, params: any[], result: any): Array<[string, AccountFixture]> {
+  const config: ReadConfig | undefined = method === 'getTokenAccountsByOwner' ? params[2] : params[1];
+  if (config?.encoding !== 'base64' || config.dataSlice) return [];
+
+  const value = result?.value ?? result;
+  switch (method) {
+    case 'getAccountInfo':
+      return value ? [[params[0], value]] : [];
+    case 'getMultipleAccounts':
+      return (params[0] as string[]).flatMap((address, i): Array<[string, AccountFixture]> => (value[i] ? [[address, value[i]]] : []));
+    case 'getProgramAccounts':
+    case 'getTokenAccountsByOwner':
+      return (value as Array<{ pubkey: string; account: AccountFixture }>).map(({ pubkey, account }) => [pubkey, account]);
+    default:
+      return [];
+  }
+}
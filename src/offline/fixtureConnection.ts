@@ -0,0 +1,160 @@
+/**
+ * Fixture-backed Solana Connection
+ *
+ * A regular web3.js Connection with an injected fetch that answers its
+ * JSON-RPC calls from fixtures, so every SDK that takes a Connection (DLMM,
+ * Whirlpools, Raydium) works unchanged.
+ *
+ * - replay: answer from recorded responses, then from the recorded account
+ *   state (accounts.ts); volatile methods (blockhash, send, status,
+ *   simulate) get deterministic synthetic answers; anything else missing is
+ *   an error
+ * - record: forward to the real RPC and save each response, and the
+ *   accounts in it, as fixtures
+ */
+
+import { Connection, VersionedTransaction, type Commitment, type FetchFn } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { createHash } from 'crypto';
+import { accountAnswer, accountsIn } from './accounts.js';
+import { FixtureStore } from './fixtures.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+export const OFFLINE_SLOT = 300_000_000;
+const OFFLINE_BLOCK_HEIGHT = 280_000_000;
+
+// Deterministic blockhash so built transactions are byte-identical across runs
+export const OFFLINE_BLOCKHASH = bs58.encode(createHash('sha256').update('lp-toolkit-offline').digest());
+
+function envelope(result: unknown) {
+  return { jsonrpc: '2.0', id: 'offline', result };
+}
+
+function withContext(value: unknown) {
+  return envelope({ context: { slot: OFFLINE_SLOT }, value });
+}
+
+function firstSignature(encodedTx: string, encoding: string | undefined): string {
+  const bytes = encoding === 'base58' ? bs58.decode(encodedTx) : Buffer.from(encodedTx, 'base64');
+  const tx = VersionedTransaction.deserialize(bytes);
+  return bs58.encode(tx.signatures[0]);
+}
+
+/**
+ * Answers for methods whose results depend on time or on the transaction
+ * being sent, so they cannot be meaningfully recorded
+ */
+function syntheticResponse(store: FixtureStore, method: string, params: any[]): any | null {
+  switch (method) {
+    case 'getLatestBlockhash':
+      return withContext({ blockhash: OFFLINE_BLOCKHASH, lastValidBlockHeight: OFFLINE_BLOCK_HEIGHT + 150 });
+    case 'getSlot':
+      return envelope(OFFLINE_SLOT);
+    case 'getBlockHeight':
+      return envelope(OFFLINE_BLOCK_HEIGHT);
+    case 'isBlockhashValid':
+      return withContext(true);
+    case 'sendTransaction':
+      return envelope(firstSignature(params[0], params[1]?.encoding));
+    case 'getSignatureStatuses':
+      return withContext((params[0] as string[]).map(() => ({
+        slot: OFFLINE_SLOT,
+        confirmations: null,
+        err: null,
+        confirmationStatus: 'finalized',
+      })));
+    case 'simulateTransaction':
+      // Transactions don't execute offline: requested accounts come back as they are
+      return withContext({
+        err: null,
+        logs: [],
+        accounts: params[1]?.accounts
+          ? (params[1].accounts.addresses as string[]).map(address => store.getAccount(address))
+          : null,
+        unitsConsumed: 200_000,
+        returnData: null,
+      });
+    case 'getRecentPrioritizationFees':
+      return envelope([]);
+    default:
+      return null;
+  }
+}
+
+interface JsonRpcCall {
+  jsonrpc: '2.0';
+  id: string | number;
+  method: string;
+  params?: any[];
+}
+
+/**
+ * A fetch for the Connection's JSON-RPC transport that answers each call
+ * (or batch) from the fixtures, or forwards and records it
+ */
+function fixtureFetch(store: FixtureStore, mode: FixtureMode, rpcUrl: string): FetchFn {
+  const record = async (call: JsonRpcCall): Promise<any> => {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(call),
+    });
+    const envelope = await response.json() as any;
+    if (!envelope?.error) {
+      store.putRpc(call.method, call.params ?? [], envelope);
+      for (const [address, account] of accountsIn(call.method, call.params ?? [], envelope.result)) {
+        store.putAccount(address, account);
+      }
+    }
+    return envelope;
+  };
+
+  const replay = (call: JsonRpcCall): any => {
+    const params = call.params ?? [];
+    const recorded = store.getRpc(call.method, params);
+    if (recorded) return recorded;
+
+    const fromAccounts = accountAnswer(store, call.method, params);
+    if (fromAccounts) return fromAccounts.withContext ? withContext(fromAccounts.result) : envelope(fromAccounts.result);
+
+    const synthetic = syntheticResponse(store, call.method, params);
+    if (synthetic) return synthetic;
+
+    throw new Error(
+      `[Offline] No fixture for ${call.method} (${FixtureStore.rpcKey(call.method, params)}); ` +
+      'record one with OFFLINE_FIXTURES_MODE=record'
+    );
+  };
+
+  return async (_input, init) => {
+    const body = JSON.parse(String(init?.body)) as JsonRpcCall | JsonRpcCall[];
+    const calls = Array.isArray(body) ? body : [body];
+    const answers = [];
+    for (const call of calls) {
+      const answer = mode === 'record' ? await record(call) : replay(call);
+      answers.push({ ...answer, id: call.id });
+    }
+    return new Response(JSON.stringify(Array.isArray(body) ? answers : answers[0]), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+/**
+ * Create a Connection whose RPC calls are served from (or recorded to) fixtures
+ */
+export function createFixtureConnection(params: {
+  rpcUrl: string;
+  fixturesDir: string;
+  mode: FixtureMode;
+  commitment?: Commitment;
+}): Connection {
+  const { rpcUrl, fixturesDir, mode, commitment } = params;
+  return new Connection(rpcUrl, {
+    commitment,
+    disableRetryOnRateLimit: true,
+    fetch: fixtureFetch(new FixtureStore(fixturesDir), mode, rpcUrl),
+  });
+}
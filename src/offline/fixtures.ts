@@ -0,0 +1,98 @@
+/**
+ * Fixture Store
+ *
+ * Reads and writes recorded responses for the offline harness.
+ *
+ * Layout under the fixtures directory:
+ *   rpc/<method>/<hash>.json   Recorded JSON-RPC envelope for exact params
+ *   rpc/<method>.json          Fallback envelope for any params
+ *   accounts/<address>.json    Account state (base64, as getAccountInfo returns it)
+ *   http/<service>/<name>.json Canned REST payloads (pools, prices, quotes)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/** An account as getAccountInfo returns it with base64 encoding */
+export interface AccountFixture {
+  lamports: number;
+  owner: string;
+  data: [string, 'base64'];
+  executable: boolean;
+  rentEpoch: number;
+  space: number;
+}
+
+export class FixtureStore {
+  private accounts: Map<string, AccountFixture> | null = null;
+
+  constructor(readonly dir: string) {}
+
+  /**
+   * Stable key for an RPC call. Params are hashed so fixture names stay
+   * short regardless of how large the request is.
+   */
+  static rpcKey(method: string, params: unknown): string {
+    const hash = createHash('sha256').update(JSON.stringify(params ?? [])).digest('hex').slice(0, 16);
+    return `${method}/${hash}`;
+  }
+
+  private readJson<T>(relPath: string): T | null {
+    const file = path.join(this.dir, relPath);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  }
+
+  private writeJson(relPath: string, data: unknown): void {
+    const file = path.join(this.dir, relPath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * Look up a recorded RPC response: exact params first, then the
+   * method-wide fallback
+   */
+  getRpc(method: string, params: unknown): any | null {
+    return this.readJson(`rpc/${FixtureStore.rpcKey(method, params)}.json`)
+      ?? this.readJson(`rpc/${method}.json`);
+  }
+
+  putRpc(method: string, params: unknown, response: unknown): void {
+    this.writeJson(`rpc/${FixtureStore.rpcKey(method, params)}.json`, response);
+  }
+
+  getAccount(address: string): AccountFixture | null {
+    return this.allAccounts().get(address) ?? null;
+  }
+
+  putAccount(address: string, account: AccountFixture): void {
+    this.writeJson(`accounts/${address}.json`, account);
+    this.accounts?.set(address, account);
+  }
+
+  /**
+   * Every recorded account, for the scans (program accounts, token
+   * accounts by owner). Read once per store.
+   */
+  allAccounts(): Map<string, AccountFixture> {
+    if (this.accounts) return this.accounts;
+    this.accounts = new Map();
+    const dir = path.join(this.dir, 'accounts');
+    if (fs.existsSync(dir)) {
+      for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json'))) {
+        this.accounts.set(path.basename(file, '.json'), this.readJson<AccountFixture>(`accounts/${file}`)!);
+      }
+    }
+    return this.accounts;
+  }
+
+  getHttp<T = any>(service: string, name: string): T | null {
+    return this.readJson<T>(`http/${service}/${name}.json`);
+  }
+
+  putHttp(service: string, name: string, data: unknown): void {
+    this.writeJson(`http/${service}/${name}.json`, data);
+  }
+}
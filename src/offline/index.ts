@@ -0,0 +1,97 @@
+/**
+ * Offline Harness
+ *
+ * Runs the toolkit end to end with no network: Solana RPC is served from
+ * recorded fixtures, Jupiter / Jito / Meteora / Orca / Raydium are local
+ * stand-ins, and state lives in an in-process store.
+ *
+ * Usage (CI or a laptop):
+ *
+ *   const harness = await startOfflineHarness({ fixturesDir: 'test/fixtures/dlmm-sol-usdc' });
+ *   const result = await executeLp({ ... });           // real builder, fake services
+ *   harness.services.jito.outcome = 'failed';         // exercise failure paths
+ *   await harness.stop();
+ *
+ * Record fixtures once against a real RPC with mode 'record' (or
+ * OFFLINE_FIXTURES_MODE=record), commit them, and replay forever after.
+ * The same switch works for the whole server: set OFFLINE_FIXTURES_DIR and
+ * point the API URL env vars at a running stand-in.
+ */
+
+import { config } from '../config/index.js';
+import { resetConnection } from '../services/connection-pool.js';
+import { setStore, MemoryStore } from '../storage/index.js';
+import { FixtureStore } from './fixtures.js';
+import { startOfflineServices, type OfflineServices } from './services.js';
+import type { FixtureMode } from './fixtureConnection.js';
+
+export { FixtureStore } from './fixtures.js';
+export { createFixtureConnection, OFFLINE_BLOCKHASH, type FixtureMode } from './fixtureConnection.js';
+export { startOfflineServices, type OfflineServices, type FakeBundle, type JitoOutcome } from './services.js';
+
+export interface OfflineHarnessOptions {
+  fixturesDir: string;
+  mode?: FixtureMode;
+  port?: number; // Stand-in server port (default: any free port)
+}
+
+export interface OfflineHarness {
+  fixtures: FixtureStore;
+  services: OfflineServices;
+  stop(): Promise<void>;
+}
+
+/**
+ * Point config at fixtures and local stand-ins. Returns a handle that
+ * restores the previous config on stop().
+ */
+export async function startOfflineHarness(options: OfflineHarnessOptions): Promise<OfflineHarness> {
+  const fixtures = new FixtureStore(options.fixturesDir);
+  const services = await startOfflineServices(fixtures, options.port);
+
+  const previous = {
+    offline: { ...config.offline },
+    jupiter: { ...config.jupiter },
+    pyth: { ...config.pyth },
+    jito: { ...config.jito },
+    meteora: { ...config.meteora },
+    orca: { ...config.orca },
+    raydium: { ...config.raydium },
+  };
+
+  config.offline.fixturesDir = options.fixturesDir;
+  config.offline.mode = options.mode || 'replay';
+  config.jupiter.baseUrl = `${services.baseUrl}/jupiter/swap/v1`;
+  config.jupiter.ultraUrl = `${services.baseUrl}/jupiter/ultra/v1`;
+  config.jupiter.priceUrl = `${services.baseUrl}/jupiter/price/v2`;
+  config.jupiter.tokenListUrl = `${services.baseUrl}/jupiter/tokens/strict`;
+  config.pyth.hermesUrl = `${services.baseUrl}/pyth`;
+  config.jito.blockEngineUrl = `${services.baseUrl}/jito`;
+  config.jito.tipFloorUrl = `${services.baseUrl}/jito/api/v1/bundles/tip_floor`;
+  config.meteora.apiUrl = `${services.baseUrl}/meteora`;
+  config.orca.apiUrl = `${services.baseUrl}/orca`;
+  config.raydium.apiUrl = `${services.baseUrl}/raydium`;
+
+  // Fresh shared connection (now fixture-backed) and a clean keyspace
+  resetConnection();
+  setStore(new MemoryStore());
+
+  console.log(`[Offline] Harness ready (${config.offline.mode}) at ${services.baseUrl}, fixtures: ${options.fixturesDir}`);
+
+  return {
+    fixtures,
+    services,
+    async stop() {
+      await services.close();
+      Object.assign(config.offline, previous.offline);
+      Object.assign(config.jupiter, previous.jupiter);
+      Object.assign(config.pyth, previous.pyth);
+      Object.assign(config.jito, previous.jito);
+      Object.assign(config.meteora, previous.meteora);
+      Object.assign(config.orca, previous.orca);
+      Object.assign(config.raydium, previous.raydium);
+      resetConnection();
+      setStore(null);
+    },
+  };
+}
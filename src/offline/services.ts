@@ -0,0 +1,280 @@
+/**
+ * Offline Service Stand-ins
+ *
+ * One local Hono server that imitates every HTTP API the toolkit talks to:
+ *
+ *   /jupiter/swap/v1   quote + swap (Metis)
+ *   /jupiter/ultra/v1  order + execute
+ *   /jupiter/price/v2  prices
+ *   /jupiter/tokens    verified token list (http/jupiter/tokens.json)
+ *   /jito              block engine (sendBundle, getBundleStatuses, tip floor)
+ *   /meteora           DLMM pair API
+ *   /orca              Whirlpool pool API
+ *   /raydium           CLMM pool API
+ *   /pyth              Hermes (always empty, Jupiter prices win)
+ *
+ * Quotes are priced from http/jupiter/prices.json; pool lists come from
+ * http/<dex>/pools.json. Swap transactions are deterministic no-op
+ * transfers signed by the user, so builders can bundle them like real ones.
+ */
+
+import { Hono } from 'hono';
+import { serve } from '@hono/node-server';
+import type { AddressInfo } from 'net';
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { createHash } from 'crypto';
+import { FixtureStore } from './fixtures.js';
+import { OFFLINE_BLOCKHASH } from './fixtureConnection.js';
+
+// unavailable: the block engine refuses bundles (exercises the RPC fallback)
+export type JitoOutcome = 'landed' | 'failed' | 'dropped' | 'unavailable';
+
+export interface FakeBundle {
+  bundleId: string;
+  transactions: string[];
+  submittedAt: number;
+  outcome: JitoOutcome;
+}
+
+export interface OfflineServices {
+  baseUrl: string;
+  jito: {
+    outcome: JitoOutcome; // Applied to bundles submitted from now on
+    bundles: FakeBundle[];
+  };
+  swaps: Array<{ inputMint: string; outputMint: string; inAmount: string; outAmount: string }>;
+  close(): Promise<void>;
+}
+
+interface PriceFixture {
+  [mint: string]: { symbol?: string; price: number; decimals: number };
+}
+
+const DEFAULT_PRICES: PriceFixture = {
+  So11111111111111111111111111111111111111112: { symbol: 'SOL', price: 150, decimals: 9 },
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: { symbol: 'USDC', price: 1, decimals: 6 },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: { symbol: 'USDT', price: 1, decimals: 6 },
+};
+
+// Simulated route cost so round trips lose a little, like real swaps
+const SWAP_FEE_BPS = 10;
+
+function buildNoopSwapTx(userPublicKey: string): string {
+  const user = new PublicKey(userPublicKey);
+  const message = new TransactionMessage({
+    payerKey: user,
+    recentBlockhash: OFFLINE_BLOCKHASH,
+    instructions: [SystemProgram.transfer({ fromPubkey: user, toPubkey: user, lamports: 0 })],
+  }).compileToV0Message();
+  return Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+}
+
+function signatureOf(base64Tx: string): string {
+  const tx = VersionedTransaction.deserialize(Buffer.from(base64Tx, 'base64'));
+  return bs58.encode(tx.signatures[0]);
+}
+
+/**
+ * Start the stand-in server on the given port (0 = any free port)
+ */
+export async function startOfflineServices(fixtures: FixtureStore, port = 0): Promise<OfflineServices> {
+  const prices: PriceFixture = { ...DEFAULT_PRICES, ...(fixtures.getHttp<PriceFixture>('jupiter', 'prices') || {}) };
+  const meteoraPairs = fixtures.getHttp<any[]>('meteora', 'pools') || [];
+  const orcaPools = fixtures.getHttp<any[]>('orca', 'pools') || [];
+  const raydiumPools = fixtures.getHttp<any[]>('raydium', 'pools') || [];
+
+  const state: Omit<OfflineServices, 'baseUrl' | 'close'> = {
+    jito: { outcome: 'landed', bundles: [] },
+    swaps: [],
+  };
+
+  function quote(inputMint: string, outputMint: string, amount: string, slippageBps: number) {
+    const input = prices[inputMint];
+    const output = prices[outputMint];
+    if (!input || !output) return null;
+
+    const inUi = Number(amount) / 10 ** input.decimals;
+    const outUi = (inUi * input.price / output.price) * (1 - SWAP_FEE_BPS / 10_000);
+    const outAmount = Math.floor(outUi * 10 ** output.decimals).toString();
+    const threshold = Math.floor(Number(outAmount) * (1 - slippageBps / 10_000)).toString();
+
+    return {
+      ...(fixtures.getHttp('jupiter', 'quote') || {}),
+      inputMint,
+      inAmount: amount,
+      outputMint,
+      outAmount,
+      otherAmountThreshold: threshold,
+      swapMode: 'ExactIn',
+      slippageBps,
+      priceImpactPct: '0',
+      routePlan: [],
+      contextSlot: 0,
+      timeTaken: 0,
+    };
+  }
+
+  const app = new Hono();
+
+  // ============ Jupiter Metis ============
+
+  app.get('/jupiter/swap/v1/quote', (c) => {
+    const q = quote(
+      c.req.query('inputMint') || '',
+      c.req.query('outputMint') || '',
+      c.req.query('amount') || '0',
+      parseInt(c.req.query('slippageBps') || '50'),
+    );
+    if (!q) return c.json({ error: 'No route found (offline price fixture missing)' }, 400);
+    return c.json(q);
+  });
+
+  app.post('/jupiter/swap/v1/swap', async (c) => {
+    const body = await c.req.json() as { quoteResponse: any; userPublicKey: string };
+    state.swaps.push({
+      inputMint: body.quoteResponse.inputMint,
+      outputMint: body.quoteResponse.outputMint,
+      inAmount: body.quoteResponse.inAmount,
+      outAmount: body.quoteResponse.outAmount,
+    });
+    return c.json({
+      swapTransaction: buildNoopSwapTx(body.userPublicKey),
+      lastValidBlockHeight: 0,
+      prioritizationFeeLamports: 0,
+    });
+  });
+
+  // ============ Jupiter Ultra ============
+
+  app.post('/jupiter/ultra/v1/order', async (c) => {
+    const body = await c.req.json() as { inputMint: string; outputMint: string; amount: string; taker: string; slippageBps?: number };
+    const q = quote(body.inputMint, body.outputMint, body.amount, body.slippageBps ?? 100);
+    if (!q) return c.json({ error: 'No route found (offline price fixture missing)' }, 400);
+    return c.json({
+      ...q,
+      requestId: createHash('sha256').update(JSON.stringify(body)).digest('hex').slice(0, 32),
+      transaction: buildNoopSwapTx(body.taker),
+      expiresAt: Date.now() + 60_000,
+    });
+  });
+
+  app.post('/jupiter/ultra/v1/execute', async (c) => {
+    const body = await c.req.json() as { requestId: string; signedTransaction: string };
+    return c.json({
+      signature: signatureOf(body.signedTransaction),
+      status: 'confirmed',
+      inputAmount: '0',
+      outputAmount: '0',
+    });
+  });
+
+  // ============ Prices ============
+
+  app.get('/jupiter/price/v2', (c) => {
+    const ids = (c.req.query('ids') || '').split(',').filter(Boolean);
+    const data: Record<string, { id: string; type: string; price: string }> = {};
+    for (const id of ids) {
+      if (prices[id]) data[id] = { id, type: 'derivedPrice', price: String(prices[id].price) };
+    }
+    return c.json({ data, timeTaken: 0 });
+  });
+
+  app.get('/jupiter/tokens/strict', (c) => c.json(fixtures.getHttp('jupiter', 'tokens') || []));
+
+  app.get('/pyth/v2/updates/price/latest', (c) => c.json({ binary: { encoding: 'hex', data: [] }, parsed: [] }));
+
+  // ============ Jito Block Engine ============
+
+  app.post('/jito/api/v1/bundles', async (c) => {
+    const body = await c.req.json() as { id: number; params: [string[], unknown?] };
+    const transactions = body.params[0];
+    if (state.jito.outcome === 'unavailable') {
+      return c.json({ jsonrpc: '2.0', id: body.id, error: { code: -32097, message: 'Block engine unavailable' } }, 503);
+    }
+    const bundleId = createHash('sha256').update(transactions.join('')).digest('hex');
+    state.jito.bundles.push({ bundleId, transactions, submittedAt: Date.now(), outcome: state.jito.outcome });
+    return c.json({ jsonrpc: '2.0', id: body.id, result: bundleId });
+  });
+
+  app.get('/jito/api/v1/bundles/tip_floor', (c) => c.json(fixtures.getHttp('jito', 'tip_floor') || [{
+    landed_tips_25th_percentile: 0.00001,
+    landed_tips_50th_percentile: 0.00005,
+    landed_tips_75th_percentile: 0.0001,
+    landed_tips_95th_percentile: 0.001,
+    landed_tips_99th_percentile: 0.002,
+  }]));
+
+  app.post('/jito/api/v1/getBundleStatuses', async (c) => {
+    const body = await c.req.json() as { id: number; params: [string[]] };
+    const value = body.params[0]
+      .map(id => state.jito.bundles.find(b => b.bundleId === id))
+      .filter((b): b is FakeBundle => !!b && b.outcome !== 'dropped')
+      .map(b => ({
+        bundle_id: b.bundleId,
+        transactions: b.transactions.map(signatureOf),
+        slot: 0,
+        confirmation_status: 'confirmed',
+        err: b.outcome === 'landed' ? { Ok: null } : { Err: 'BundleFailed' },
+      }));
+    return c.json({ jsonrpc: '2.0', id: body.id, result: { context: { slot: 0 }, value } });
+  });
+
+  // ============ Meteora DLMM ============
+
+  app.get('/meteora/pair/all', (c) => c.json(meteoraPairs));
+
+  app.get('/meteora/pair/all_with_pagination', (c) => {
+    const limit = parseInt(c.req.query('limit') || '50');
+    return c.json({ pairs: meteoraPairs.slice(0, limit), total: meteoraPairs.length });
+  });
+
+  app.get('/meteora/pair/:address', (c) => {
+    const pair = meteoraPairs.find(p => p.address === c.req.param('address'));
+    return pair ? c.json(pair) : c.json({ error: 'Pair not found' }, 404);
+  });
+
+  // ============ Orca Whirlpools ============
+
+  app.get('/orca/pools', (c) => c.json({ data: orcaPools }));
+
+  app.get('/orca/pools/:address', (c) => {
+    const pool = orcaPools.find(p => p.address === c.req.param('address'));
+    return pool ? c.json({ data: pool }) : c.json({ error: 'Pool not found' }, 404);
+  });
+
+  // ============ Raydium CLMM ============
+
+  app.get('/raydium/pools/info/list', (c) => c.json({ success: true, data: { count: raydiumPools.length, data: raydiumPools } }));
+
+  app.get('/raydium/pools/info/mint', (c) => {
+    const mints = [c.req.query('mint1'), c.req.query('mint2')].filter(Boolean);
+    const matches = raydiumPools.filter(p => mints.every(m => p.mintA?.address === m || p.mintB?.address === m));
+    return c.json({ success: true, data: { count: matches.length, data: matches } });
+  });
+
+  app.get('/raydium/pools/info/ids', (c) => {
+    const ids = (c.req.query('ids') || '').split(',');
+    return c.json({ success: true, data: raydiumPools.filter(p => ids.includes(p.id)) });
+  });
+
+  app.notFound((c) => c.json({ error: `Offline stand-in has no route for ${c.req.method} ${c.req.path}` }, 404));
+
+  // ============ Listen ============
+
+  const server = await new Promise<ReturnType<typeof serve>>((resolve) => {
+    const s = serve({ fetch: app.fetch, port, hostname: '127.0.0.1' }, () => resolve(s));
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    ...state,
+    baseUrl: `http://127.0.0.1:${boundPort}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -5,14 +5,15 @@
  * Supports both humans (Telegram) and agents (API).
  */
 
-import { Redis } from '@upstash/redis';
+import { getStore } from '../storage/index.js';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { config } from '../config/index.js';
 import { upsertRecipient } from '../notifications/index.js';
 import { discoverAllPositions } from '../utils/position-discovery.js';
 import { getAggregatedPrice } from '../services/oracle-service.js';
+import { createConnection } from '../services/connection-pool.js';
 
-// ============ Redis Keys (UNIFIED) ============
+// ============ Storage Keys (UNIFIED) ============
 const KEYS = {
   // User profile by wallet
   USER: (walletId: string) => `lp:user:${walletId}`,
@@ -66,21 +67,6 @@ export interface OnboardResult {
   message: string;
 }
 
-// ============ Redis Client ============
-let redis: Redis | null = null;
-
-function getRedis(): Redis {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) throw new Error('Redis not configured');
-  
-  redis = new Redis({ url, token });
-  return redis;
-}
-
 // ============ Privy Client ============
 let privyClient: any = null;
 
@@ -107,7 +93,7 @@ async function getPrivyClient() {
  * Get user profile by wallet ID
  */
 export async function getUserProfile(walletId: string): Promise<UserProfile | null> {
-  const client = getRedis();
+  const client = getStore();
   return client.get<UserProfile>(KEYS.USER(walletId));
 }
 
@@ -115,7 +101,7 @@ export async function getUserProfile(walletId: string): Promise<UserProfile | nu
  * Get user by Telegram chat ID (checks both new and legacy systems)
  */
 export async function getUserByChat(chatId: string | number): Promise<UserProfile | null> {
-  const client = getRedis();
+  const client = getStore();
   
   // Check new system first
   let walletId = await client.get<string>(KEYS.CHAT_WALLET(chatId));
@@ -176,7 +162,7 @@ export async function getUserByChat(chatId: string | number): Promise<UserProfil
  * Get user by wallet address
  */
 export async function getUserByAddress(walletAddress: string): Promise<UserProfile | null> {
-  const client = getRedis();
+  const client = getStore();
   
   // Get all users and find by address
   const allUserIds = await client.smembers(KEYS.ALL_USERS);
@@ -195,7 +181,7 @@ export async function getUserByAddress(walletAddress: string): Promise<UserProfi
  * Save user profile
  */
 export async function saveUserProfile(profile: UserProfile): Promise<void> {
-  const client = getRedis();
+  const client = getStore();
   profile.lastSeen = new Date().toISOString();
   
   await client.set(KEYS.USER(profile.walletId), profile);
@@ -227,7 +213,7 @@ export async function saveUserProfile(profile: UserProfile): Promise<void> {
  * Link existing wallet to Telegram chat
  */
 export async function linkWalletToChat(walletId: string, chatId: number | string, username?: string): Promise<UserProfile | null> {
-  const client = getRedis();
+  const client = getStore();
   
   // Try to load wallet from Privy
   const privy = await getPrivyClient();
@@ -425,7 +411,7 @@ export interface PositionDetails {
 
 export async function getUserPositions(walletAddress: string): Promise<PositionDetails[]> {
   try {
-    const connection = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+    const connection = createConnection();
     const positions = await discoverAllPositions(connection, walletAddress);
     
     return positions.map(p => {
@@ -501,7 +487,7 @@ export async function getWalletBalance(walletAddress: string): Promise<{
   totalUsd: number;
 }> {
   try {
-    const connection = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+    const connection = createConnection();
     const pubkey = new PublicKey(walletAddress);
     
     const solBalance = await connection.getBalance(pubkey);
@@ -782,7 +768,7 @@ export async function handlePositions(chatId: number | string): Promise<{ text:
   
   // Store position map in user session (Redis) for callback lookup
   try {
-    const client = getRedis();
+    const client = getStore();
     await client.set(`positions:${user.walletId}`, positionMap, { ex: 3600 }); // 1 hour TTL
   } catch (e) {
     console.error('Failed to cache position map:', e);
@@ -999,7 +985,7 @@ export async function handlePools(chatId: number | string): Promise<{ text: stri
   let topPools: Array<{ name: string; address: string; apr: string; tvl: string; binStep: number }> = [];
   
   try {
-    const meteoraResp = await fetch('https://dlmm-api.meteora.ag/pair/all');
+    const meteoraResp = await fetch(`${config.meteora.apiUrl}/pair/all`);
     if (meteoraResp.ok) {
       const allPools = await meteoraResp.json() as any[];
       
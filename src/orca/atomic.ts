@@ -11,6 +11,7 @@ import {
   TransactionMessage,
   ComputeBudgetProgram,
   MessageV0,
+  type Signer,
 } from '@solana/web3.js';
 import { getWhirlpoolClient, getOrcaConnection } from './client.js';
 import {
@@ -24,8 +25,9 @@ import { config } from '../config/index.js';
 import { buildTipTransaction, type TipSpeed } from '../jito/index.js';
 import { optimizeComputeBudget, buildComputeBudgetInstructions } from '../utils/priority-fees.js';
 import { arciumPrivacy } from '../privacy/index.js';
+import { assertSupportedMints, getMintProfiles, netAfterTransferFee } from '../utils/token-extensions.js';
+import type { LpEntryFlows, SwapFlow } from '../ledger/types.js';
 
-const JUPITER_API = 'https://api.jup.ag/swap/v1';
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
 
 export interface OrcaAtomicLPParams {
@@ -42,6 +44,8 @@ export interface BuiltOrcaLP {
   unsignedTransactions: string[];
   positionMint: string;
   tickRange: { lower: number; upper: number };
+  flows: LpEntryFlows; // What lands in the position, for the PnL ledger
+  signers: Signer[]; // Keypairs that pre-signed the open position tx, for re-signing on a new blockhash
 }
 
 async function getJupiterSwapTx(params: {
@@ -50,11 +54,11 @@ async function getJupiterSwapTx(params: {
   amount: number;
   slippageBps: number;
   walletAddress: string;
-}): Promise<string | null> {
+}): Promise<{ transaction: string; outAmount: string; otherAmountThreshold: string } | null> {
   const headers: Record<string, string> = { Accept: 'application/json' };
   if (config.jupiter?.apiKey) headers['x-api-key'] = config.jupiter.apiKey;
 
-  const quoteUrl = new URL(`${JUPITER_API}/quote`);
+  const quoteUrl = new URL(`${config.jupiter.baseUrl}/quote`);
   quoteUrl.searchParams.set('inputMint', params.inputMint);
   quoteUrl.searchParams.set('outputMint', params.outputMint);
   quoteUrl.searchParams.set('amount', params.amount.toString());
@@ -62,12 +66,12 @@ async function getJupiterSwapTx(params: {
 
   const quoteResp = await fetch(quoteUrl.toString(), { headers });
   if (!quoteResp.ok) return null;
-  const quote = await quoteResp.json();
+  const quote = (await quoteResp.json()) as { outAmount: string; otherAmountThreshold: string };
 
   const swapHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
   if (config.jupiter?.apiKey) swapHeaders['x-api-key'] = config.jupiter.apiKey;
 
-  const swapResp = await fetch(`${JUPITER_API}/swap`, {
+  const swapResp = await fetch(`${config.jupiter.baseUrl}/swap`, {
     method: 'POST',
     headers: swapHeaders,
     body: JSON.stringify({
@@ -79,7 +83,7 @@ async function getJupiterSwapTx(params: {
   });
   if (!swapResp.ok) return null;
   const swapData = (await swapResp.json()) as { swapTransaction: string };
-  return swapData.swapTransaction;
+  return { transaction: swapData.swapTransaction, outAmount: quote.outAmount, otherAmountThreshold: quote.otherAmountThreshold };
 }
 
 export async function buildOrcaAtomicLP(params: OrcaAtomicLPParams): Promise<BuiltOrcaLP> {
@@ -127,27 +131,51 @@ export async function buildOrcaAtomicLP(params: OrcaAtomicLPParams): Promise<Bui
   const tokenAMint = tokenAInfo.mint.toBase58();
   const tokenBMint = tokenBInfo.mint.toBase58();
 
+  // Token-2022: refuse unsupported hooks, net swap outputs of transfer fees
+  const [profileA, profileB] = await getMintProfiles(connection, [tokenAMint, tokenBMint]);
+  assertSupportedMints([profileA, profileB]);
+
   // 4. Build swap transactions if needed (SOL -> tokenA, SOL -> tokenB)
+  // fundedA/B: the least each swap lands in the wallet
+  const swaps: SwapFlow[] = [];
+  let fundedA: BN | undefined;
+  let fundedB: BN | undefined;
   if (tokenAMint !== SOL_MINT) {
-    const swapTx = await getJupiterSwapTx({
+    const swap = await getJupiterSwapTx({
       inputMint: SOL_MINT,
       outputMint: tokenAMint,
       amount: halfLamports,
       slippageBps,
       walletAddress,
     });
-    if (swapTx) unsignedTransactions.push(swapTx);
+    if (swap) {
+      unsignedTransactions.push(swap.transaction);
+      fundedA = netAfterTransferFee(profileA, new BN(swap.otherAmountThreshold));
+      const received = netAfterTransferFee(profileA, new BN(swap.outAmount));
+      swaps.push({
+        input: { mint: SOL_MINT, amount: halfLamports / 1e9 },
+        output: { mint: tokenAMint, amount: Number(received.toString()) / 10 ** tokenAInfo.decimals },
+      });
+    }
   }
 
   if (tokenBMint !== SOL_MINT) {
-    const swapTx = await getJupiterSwapTx({
+    const swap = await getJupiterSwapTx({
       inputMint: SOL_MINT,
       outputMint: tokenBMint,
       amount: halfLamports,
       slippageBps,
       walletAddress,
     });
-    if (swapTx) unsignedTransactions.push(swapTx);
+    if (swap) {
+      unsignedTransactions.push(swap.transaction);
+      fundedB = netAfterTransferFee(profileB, new BN(swap.otherAmountThreshold));
+      const received = netAfterTransferFee(profileB, new BN(swap.outAmount));
+      swaps.push({
+        input: { mint: SOL_MINT, amount: halfLamports / 1e9 },
+        output: { mint: tokenBMint, amount: Number(received.toString()) / 10 ** tokenBInfo.decimals },
+      });
+    }
   }
 
   // 5. Build liquidity quote
@@ -161,18 +189,29 @@ export async function buildOrcaAtomicLP(params: OrcaAtomicLPParams): Promise<Bui
     fetcher, tokenAInfo.mint, tokenBInfo.mint,
   );
 
-  const liquidityQuote = increaseLiquidityQuoteByInputTokenWithParams({
+  // The extension context makes the quote include deposit-side transfer fees
+  const quoteBy = (mint: PublicKey, amount: BN) => increaseLiquidityQuoteByInputTokenWithParams({
     tokenMintA: tokenAInfo.mint,
     tokenMintB: tokenBInfo.mint,
     sqrtPrice: poolData.sqrtPrice,
     tickCurrentIndex: currentTick,
     tickLowerIndex: lowerTick,
     tickUpperIndex: upperTick,
-    inputTokenMint,
-    inputTokenAmount: inputAmount,
+    inputTokenMint: mint,
+    inputTokenAmount: amount,
     slippageTolerance: slippage,
     tokenExtensionCtx,
   });
+  let liquidityQuote = quoteBy(inputTokenMint, inputAmount);
+
+  // A swapped side only holds what the swap lands; if the quote wants more,
+  // size from that side instead (shrunk so its slippage max still fits)
+  const shrink = (amount: BN) => amount.muln(10000).divn(10000 + slippageBps);
+  if (fundedB && liquidityQuote.tokenMaxB.gt(fundedB)) {
+    liquidityQuote = quoteBy(tokenBInfo.mint, shrink(fundedB));
+  } else if (fundedA && liquidityQuote.tokenMaxA.gt(fundedA)) {
+    liquidityQuote = quoteBy(tokenAInfo.mint, shrink(fundedA));
+  }
 
   // 6. Build open position + add liquidity via SDK
   // openPosition takes IncreaseLiquidityInput as 3rd arg (combined open+addLiq)
@@ -316,20 +355,30 @@ export async function buildOrcaAtomicLP(params: OrcaAtomicLPParams): Promise<Bui
   }
 
   // 8. Add Jito tip if needed
+  let tipLamports = 0;
   if (!skipTip) {
-    const { transaction: tipTx } = buildTipTransaction({
+    const { transaction: tipTx, tipLamports: tip } = await buildTipTransaction({
       payerAddress: walletAddress,
       recentBlockhash: blockhash,
       speed: tipSpeed,
+      valueLamports: Math.floor(amountSol * 1e9),
     });
     unsignedTransactions.push(
       Buffer.from(tipTx.serialize()).toString('base64'),
     );
+    tipLamports = tip;
   }
 
   return {
     unsignedTransactions,
     positionMint: positionMint.toBase58(),
     tickRange: { lower: lowerTick, upper: upperTick },
+    signers: openPayload.signers,
+    flows: {
+      tokenX: { mint: tokenAMint, amount: Number(liquidityQuote.tokenEstA.toString()) / 10 ** tokenAInfo.decimals },
+      tokenY: { mint: tokenBMint, amount: Number(liquidityQuote.tokenEstB.toString()) / 10 ** tokenBInfo.decimals },
+      swaps,
+      tipLamports,
+    },
   };
 }
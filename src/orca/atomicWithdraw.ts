@@ -16,6 +16,7 @@ import {
 import { Percentage } from '@orca-so/common-sdk';
 import { arciumPrivacy } from '../privacy/index.js';
 import { discoverOrcaPositions } from './positions.js';
+import type { LpExitFlows } from '../ledger/types.js';
 
 export interface OrcaWithdrawParams {
   walletAddress: string;
@@ -29,6 +30,8 @@ export interface BuiltOrcaWithdraw {
   unsignedTransactions: string[];
   estimatedWithdraw: { tokenA: string; tokenB: string };
   fees: { tokenA: string; tokenB: string };
+  positionMint: string;
+  flows: LpExitFlows; // What leaves the position, for the PnL ledger
 }
 
 export async function buildOrcaWithdraw(params: OrcaWithdrawParams): Promise<BuiltOrcaWithdraw> {
@@ -106,25 +109,29 @@ export async function buildOrcaWithdraw(params: OrcaWithdrawParams): Promise<Bui
   const ataInstructions: any[] = [];
   const blockhash = (await connection.getLatestBlockhash()).blockhash;
   
+  // ATAs live under each mint's own token program (SPL or Token-2022)
+  const programA = tokenExtensionCtx.tokenMintWithProgramA.tokenProgram;
+  const programB = tokenExtensionCtx.tokenMintWithProgramB.tokenProgram;
+
   // Check and create ATA for token A (including WSOL for native SOL)
   const NATIVE_SOL = new PublicKey('So11111111111111111111111111111111111111112');
-  const ataA = await getAssociatedTokenAddress(tokenAMint, walletPubkey);
+  const ataA = await getAssociatedTokenAddress(tokenAMint, walletPubkey, false, programA);
   try {
-    await getAccount(connection, ataA);
+    await getAccount(connection, ataA, undefined, programA);
     console.log(`[Orca Withdraw] ATA for token A exists: ${ataA.toBase58()}`);
   } catch {
     console.log(`[Orca Withdraw] Creating ATA for token A: ${tokenAMint.toBase58()}`);
-    ataInstructions.push(createAssociatedTokenAccountInstruction(walletPubkey, ataA, walletPubkey, tokenAMint));
+    ataInstructions.push(createAssociatedTokenAccountInstruction(walletPubkey, ataA, walletPubkey, tokenAMint, programA));
   }
   
   // Check and create ATA for token B
-  const ataB = await getAssociatedTokenAddress(tokenBMint, walletPubkey);
+  const ataB = await getAssociatedTokenAddress(tokenBMint, walletPubkey, false, programB);
   try {
-    await getAccount(connection, ataB);
+    await getAccount(connection, ataB, undefined, programB);
     console.log(`[Orca Withdraw] ATA for token B exists: ${ataB.toBase58()}`);
   } catch {
     console.log(`[Orca Withdraw] Creating ATA for token B: ${tokenBMint.toBase58()}`);
-    ataInstructions.push(createAssociatedTokenAccountInstruction(walletPubkey, ataB, walletPubkey, tokenBMint));
+    ataInstructions.push(createAssociatedTokenAccountInstruction(walletPubkey, ataB, walletPubkey, tokenBMint, programB));
   }
   
   const unsignedTransactions: string[] = [];
@@ -208,5 +215,20 @@ export async function buildOrcaWithdraw(params: OrcaWithdrawParams): Promise<Bui
       tokenA: posData.feeOwedA.toString(),
       tokenB: posData.feeOwedB.toString(),
     },
+    positionMint: positionMintAddress,
+    flows: {
+      tokenX: {
+        mint: tokenAMint.toBase58(),
+        amount: Number(decreaseQuote.tokenEstA?.toString() || '0') / 10 ** pool.getTokenAInfo().decimals,
+      },
+      tokenY: {
+        mint: tokenBMint.toBase58(),
+        amount: Number(decreaseQuote.tokenEstB?.toString() || '0') / 10 ** pool.getTokenBInfo().decimals,
+      },
+      fees: [], // collectFees is not part of this bundle; fees stay claimable
+      protocolFee: [],
+      swaps: [],
+      tipLamports: 0,
+    },
   };
 }
@@ -12,12 +12,13 @@ import {
   type WhirlpoolClient,
 } from '@orca-so/whirlpools-sdk';
 import { config } from '../config/index.js';
+import { createConnection } from '../services/connection-pool.js';
 
 // Read-only wallet for SDK context (signing happens via Privy)
 const DUMMY_WALLET = new Wallet(Keypair.generate());
 
 export function getOrcaConnection(): Connection {
-  return new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+  return createConnection();
 }
 
 export function getWhirlpoolCtx(connection?: Connection): WhirlpoolContext {
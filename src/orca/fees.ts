@@ -1,12 +1,41 @@
 /**
  * Orca Whirlpool fee harvesting
  *
- * Builds transactions to collect fees and rewards from positions.
+ * Builds transactions to collect fees and rewards from positions, and to
+ * add collected fees back into the same position.
  */
 
 import { PublicKey, VersionedTransaction } from '@solana/web3.js';
 import { getWhirlpoolClient, getOrcaConnection, getWhirlpoolCtx } from './client.js';
-import { PDAUtil } from '@orca-so/whirlpools-sdk';
+import {
+  PDAUtil,
+  TokenExtensionUtil,
+  collectFeesQuote,
+  increaseLiquidityQuoteByInputTokenWithParams,
+} from '@orca-so/whirlpools-sdk';
+import { Percentage, type TransactionPayload } from '@orca-so/common-sdk';
+import BN from 'bn.js';
+import type { LpEntryFlows, TokenFlow } from '../ledger/types.js';
+
+/**
+ * Pre-sign with the payload's own signers and serialize for the wallet
+ */
+function serializePayload(payload: TransactionPayload, walletAddress: string): string {
+  const tx = payload.transaction;
+  if (payload.signers.length > 0) {
+    if (tx instanceof VersionedTransaction) {
+      tx.sign(payload.signers);
+    } else {
+      tx.partialSign(...payload.signers);
+    }
+  }
+
+  if (tx instanceof VersionedTransaction) {
+    return Buffer.from(tx.serialize()).toString('base64');
+  }
+  tx.feePayer = new PublicKey(walletAddress);
+  return tx.serialize({ requireAllSignatures: false }).toString('base64');
+}
 
 export async function buildOrcaFeeClaimTx(
   walletAddress: string,
@@ -33,23 +62,7 @@ export async function buildOrcaFeeClaimTx(
     walletAddress, // ataPayer
   );
 
-  const feesPayload = await feesTxBuilder.build();
-  const feesTx = feesPayload.transaction;
-  if (feesPayload.signers.length > 0) {
-    if (feesTx instanceof VersionedTransaction) {
-      feesTx.sign(feesPayload.signers);
-    } else {
-      feesTx.partialSign(...feesPayload.signers);
-    }
-  }
-
-  if (feesTx instanceof VersionedTransaction) {
-    unsignedTransactions.push(Buffer.from(feesTx.serialize()).toString('base64'));
-  } else {
-    feesTx.feePayer = new PublicKey(walletAddress);
-    const serialized = feesTx.serialize({ requireAllSignatures: false });
-    unsignedTransactions.push(serialized.toString('base64'));
-  }
+  unsignedTransactions.push(serializePayload(await feesTxBuilder.build(), walletAddress));
 
   // Collect rewards
   const rewardTxBuilders = await position.collectRewards(
@@ -63,24 +76,135 @@ export async function buildOrcaFeeClaimTx(
 
   for (const txBuilder of rewardTxBuilders) {
     if (txBuilder.isEmpty()) continue;
-    const payload = await txBuilder.build();
-    const tx = payload.transaction;
-    if (payload.signers.length > 0) {
-      if (tx instanceof VersionedTransaction) {
-        tx.sign(payload.signers);
-      } else {
-        tx.partialSign(...payload.signers);
-      }
-    }
-
-    if (tx instanceof VersionedTransaction) {
-      unsignedTransactions.push(Buffer.from(tx.serialize()).toString('base64'));
-    } else {
-      tx.feePayer = new PublicKey(walletAddress);
-      const serialized = tx.serialize({ requireAllSignatures: false });
-      unsignedTransactions.push(serialized.toString('base64'));
-    }
+    unsignedTransactions.push(serializePayload(await txBuilder.build(), walletAddress));
   }
 
   return unsignedTransactions;
 }
+
+/**
+ * Quote the fees a claim would collect right now (owed plus accrued since
+ * the last on-chain update), in UI units
+ */
+export async function quoteOrcaClaimableFees(
+  positionMintAddress: string,
+): Promise<{ poolAddress: string; tokenA: TokenFlow; tokenB: TokenFlow; baseUnits: { tokenA: BN; tokenB: BN } }> {
+  const connection = getOrcaConnection();
+  const client = getWhirlpoolClient(connection);
+  const ctx = getWhirlpoolCtx(connection);
+
+  const positionPDA = PDAUtil.getPosition(
+    ctx.program.programId,
+    new PublicKey(positionMintAddress),
+  );
+  const position = await client.getPosition(positionPDA.publicKey);
+  const posData = position.getData();
+  const pool = await client.getPool(posData.whirlpool);
+  const poolData = pool.getData();
+
+  const tokenExtensionCtx = await TokenExtensionUtil.buildTokenExtensionContextForPool(
+    client.getFetcher(), poolData.tokenMintA, poolData.tokenMintB,
+  );
+  const quote = collectFeesQuote({
+    whirlpool: poolData,
+    position: posData,
+    tickLower: position.getLowerTickData(),
+    tickUpper: position.getUpperTickData(),
+    tokenExtensionCtx,
+  });
+
+  return {
+    poolAddress: posData.whirlpool.toBase58(),
+    tokenA: {
+      mint: poolData.tokenMintA.toBase58(),
+      amount: Number(quote.feeOwedA.toString()) / 10 ** pool.getTokenAInfo().decimals,
+    },
+    tokenB: {
+      mint: poolData.tokenMintB.toBase58(),
+      amount: Number(quote.feeOwedB.toString()) / 10 ** pool.getTokenBInfo().decimals,
+    },
+    baseUnits: { tokenA: quote.feeOwedA, tokenB: quote.feeOwedB },
+  };
+}
+
+/**
+ * Build an increase-liquidity transaction that adds token amounts (base
+ * units) to an existing position. Quotes from each side and keeps the larger
+ * deposit whose max amounts, slippage included, fit what we have; any
+ * remainder stays in the wallet.
+ */
+export async function buildOrcaIncreaseLiquidityTx(params: {
+  walletAddress: string;
+  positionMintAddress: string;
+  amountA: BN;
+  amountB: BN;
+  slippageBps?: number;
+}): Promise<{ unsignedTransactions: string[]; flows: LpEntryFlows }> {
+  const { walletAddress, positionMintAddress, amountA, amountB, slippageBps = 100 } = params;
+
+  const connection = getOrcaConnection();
+  const client = getWhirlpoolClient(connection);
+  const ctx = getWhirlpoolCtx(connection);
+
+  const positionPDA = PDAUtil.getPosition(
+    ctx.program.programId,
+    new PublicKey(positionMintAddress),
+  );
+  const position = await client.getPosition(positionPDA.publicKey);
+  const posData = position.getData();
+  const pool = await client.getPool(posData.whirlpool);
+  const poolData = pool.getData();
+
+  const tokenExtensionCtx = await TokenExtensionUtil.buildTokenExtensionContextForPool(
+    client.getFetcher(), poolData.tokenMintA, poolData.tokenMintB,
+  );
+  const slippage = Percentage.fromFraction(slippageBps, 10000);
+  const quoteFrom = (inputTokenMint: PublicKey, amount: BN) => increaseLiquidityQuoteByInputTokenWithParams({
+    tokenMintA: poolData.tokenMintA,
+    tokenMintB: poolData.tokenMintB,
+    sqrtPrice: poolData.sqrtPrice,
+    tickCurrentIndex: poolData.tickCurrentIndex,
+    tickLowerIndex: posData.tickLowerIndex,
+    tickUpperIndex: posData.tickUpperIndex,
+    inputTokenMint,
+    // Leave room for the slippage the quote adds on top of the input
+    inputTokenAmount: amount.muln(10000).divn(10000 + slippageBps),
+    slippageTolerance: slippage,
+    tokenExtensionCtx,
+  });
+
+  const quotes = [];
+  if (!amountA.isZero()) quotes.push(quoteFrom(poolData.tokenMintA, amountA));
+  if (!amountB.isZero()) quotes.push(quoteFrom(poolData.tokenMintB, amountB));
+  const quote = quotes
+    .filter(q => !q.liquidityAmount.isZero() && q.tokenMaxA.lte(amountA) && q.tokenMaxB.lte(amountB))
+    .sort((a, b) => b.liquidityAmount.cmp(a.liquidityAmount))[0];
+
+  if (!quote) {
+    throw new Error('Amounts are too small to add liquidity at the current price');
+  }
+
+  const txBuilder = await position.increaseLiquidity(
+    quote,
+    true,          // resolveATA
+    walletAddress, // sourceWallet
+    walletAddress, // positionWallet
+    walletAddress, // ataPayer
+  );
+
+  return {
+    unsignedTransactions: [serializePayload(await txBuilder.build(), walletAddress)],
+    flows: {
+      tokenX: {
+        mint: poolData.tokenMintA.toBase58(),
+        amount: Number(quote.tokenEstA.toString()) / 10 ** pool.getTokenAInfo().decimals,
+      },
+      tokenY: {
+        mint: poolData.tokenMintB.toBase58(),
+        amount: Number(quote.tokenEstB.toString()) / 10 ** pool.getTokenBInfo().decimals,
+      },
+      swaps: [],
+      tipLamports: 0,
+    },
+  };
+}
@@ -1,10 +1,12 @@
 /**
- * Orca pool discovery via REST API
+ * Orca pool discovery via REST API, plus on-chain whirlpool state
  */
 
-import type { OrcaPoolInfo } from './types.js';
-
-const ORCA_API = 'https://api.orca.so/v2/solana';
+import { PublicKey } from '@solana/web3.js';
+import { IGNORE_CACHE, PriceMath } from '@orca-so/whirlpools-sdk';
+import type { OrcaPoolInfo, OrcaPoolState } from './types.js';
+import { config } from '../config/index.js';
+import { getWhirlpoolClient } from './client.js';
 
 let _poolCache: { data: OrcaPoolInfo[]; fetchedAt: number } | null = null;
 const CACHE_TTL_MS = 60_000;
@@ -19,7 +21,7 @@ export async function fetchOrcaPools(limit = 20, sortBy = 'tvl'): Promise<OrcaPo
     return _poolCache.data.slice(0, limit);
   }
 
-  const url = `${ORCA_API}/pools?sortBy=${sortBy}&sortDirection=desc&size=${Math.min(limit * 2, 50)}&minTvl=50000`;
+  const url = `${config.orca.apiUrl}/pools?sortBy=${sortBy}&sortDirection=desc&size=${Math.min(limit * 2, 50)}&minTvl=50000`;
   const resp = await fetch(url);
   if (!resp.ok) throw new Error(`Orca API failed: ${resp.status}`);
 
@@ -48,7 +50,7 @@ export async function fetchOrcaPoolByAddress(address: string): Promise<OrcaPoolI
   }
 
   try {
-    const resp = await fetch(`${ORCA_API}/pools/${address}`);
+    const resp = await fetch(`${config.orca.apiUrl}/pools/${address}`);
     if (!resp.ok) return null;
     const p = (await resp.json()) as any;
     return {
@@ -66,3 +68,24 @@ export async function fetchOrcaPoolByAddress(address: string): Promise<OrcaPoolI
     return null;
   }
 }
+
+/**
+ * Read a whirlpool's current tick and price from RPC
+ */
+export async function fetchOrcaPoolState(poolAddress: string): Promise<OrcaPoolState> {
+  const pool = await getWhirlpoolClient().getPool(new PublicKey(poolAddress), IGNORE_CACHE);
+  const data = pool.getData();
+  const tokenA = pool.getTokenAInfo();
+  const tokenB = pool.getTokenBInfo();
+
+  return {
+    poolAddress,
+    mintA: tokenA.mint.toBase58(),
+    mintB: tokenB.mint.toBase58(),
+    decimalsA: tokenA.decimals,
+    decimalsB: tokenB.decimals,
+    tickSpacing: data.tickSpacing,
+    tickCurrent: data.tickCurrentIndex,
+    currentPrice: PriceMath.sqrtPriceX64ToPrice(data.sqrtPrice, tokenA.decimals, tokenB.decimals).toNumber(),
+  };
+}
@@ -14,6 +14,18 @@ export interface OrcaPoolInfo {
   price: number;
 }
 
+/** On-chain whirlpool state: current tick and price */
+export interface OrcaPoolState {
+  poolAddress: string;
+  mintA: string;
+  mintB: string;
+  decimalsA: number;
+  decimalsB: number;
+  tickSpacing: number;
+  tickCurrent: number;
+  currentPrice: number; // Token B per token A
+}
+
 export interface OrcaPositionInfo {
   address: string;
   mintAddress: string;
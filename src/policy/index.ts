@@ -0,0 +1,319 @@
+/**
+ * Transaction Policy
+ *
+ * Checks run before a server wallet signs anything (PrivyWalletClient):
+ * - Every top-level instruction calls an allowed program: the DEXes we
+ *   build for, Jupiter, and the system / token / compute budget programs
+ * - SOL and tokens only leave the wallet for the wallet's own accounts,
+ *   Jito tip accounts, the treasury or the wallet's allowed destinations
+ * - The wallet's accounts and token accounts aren't handed to anyone else
+ * - Today's outflow stays under the wallet's daily limit (USD). It is
+ *   reserved with an atomic increment before signing, so concurrent
+ *   signatures can't each fit under the limit, and released if signing
+ *   fails or the signed transaction never lands (releaseUnsentOutflow).
+ *   With a limit set, an outflow in a token without a price is refused.
+ *
+ * The wallet's policy must load: if the store is down nothing is signed.
+ *
+ * and before an atomic operation is signed (submitAtomic): its swaps may
+ * not lose more than the wallet's max-loss bps between what goes in and
+ * what comes out.
+ *
+ * Violations are logged and recorded per wallet. They throw errors that
+ * start with "Policy violation" (classifyError -> POLICY_xxx, HTTP 403),
+ * unless SIGNING_POLICY_MODE=monitor, which only records them.
+ */
+
+import { LBCLMM_PROGRAM_IDS } from '@meteora-ag/dlmm';
+import { VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { ORCA_WHIRLPOOL_PROGRAM_ID } from '@orca-so/whirlpools-sdk';
+import { config } from '../config/index.js';
+import { createConnection } from '../services/connection-pool.js';
+import { FEE_CONFIG } from '../fees/index.js';
+import { JITO_TIP_ACCOUNTS } from '../jito/index.js';
+import { DAMM_V2_PROGRAM_ID } from '../damm/client.js';
+import { RAYDIUM_CLMM_PROGRAM_ID } from '../raydium/client.js';
+import { JUPITER_V6_PROGRAM_ID } from '../inspector/index.js';
+import { getTokenPrices } from '../utils/prices.js';
+import { inspectTransaction } from './inspect.js';
+import {
+  addDailyOutflowUsd,
+  getTransactionPolicy,
+  holdOutflow,
+  recordViolation,
+  takeHeldOutflow,
+  DEFAULT_TRANSACTION_POLICY,
+} from './store.js';
+import type { OutflowReservation, OutflowTransfer, PolicyRule, PolicyViolation, TransactionPolicy } from './types.js';
+import type { SwapFlow } from '../ledger/types.js';
+
+export * from './types.js';
+export {
+  DEFAULT_TRANSACTION_POLICY,
+  getTransactionPolicy,
+  setTransactionPolicy,
+  resetTransactionPolicy,
+  validateTransactionPolicy,
+  getDailyOutflowUsd,
+  getViolations,
+} from './store.js';
+
+export const ALLOWED_PROGRAMS: Record<string, string> = {
+  '11111111111111111111111111111111': 'System',
+  'ComputeBudget111111111111111111111111111111': 'Compute Budget',
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA': 'SPL Token',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb': 'Token-2022',
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL': 'Associated Token Account',
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr': 'Memo',
+  'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo': 'Memo (v1)',
+  [LBCLMM_PROGRAM_IDS['mainnet-beta']]: 'Meteora DLMM',
+  [DAMM_V2_PROGRAM_ID.toBase58()]: 'Meteora DAMM v2',
+  [ORCA_WHIRLPOOL_PROGRAM_ID.toBase58()]: 'Orca Whirlpool',
+  [RAYDIUM_CLMM_PROGRAM_ID.toBase58()]: 'Raydium CLMM',
+  [JUPITER_V6_PROGRAM_ID]: 'Jupiter v6',
+};
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+interface Finding {
+  rule: PolicyRule;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+function allowedPrograms(policy: TransactionPolicy): Set<string> {
+  return new Set([
+    ...Object.keys(ALLOWED_PROGRAMS),
+    ...config.policy.extraAllowedPrograms,
+    ...policy.extraAllowedPrograms,
+  ]);
+}
+
+function allowedDestinations(policy: TransactionPolicy, walletAddress: string): Set<string> {
+  return new Set([
+    walletAddress,
+    FEE_CONFIG.TREASURY_ADDRESS.toBase58(),
+    ...JITO_TIP_ACCOUNTS,
+    ...policy.allowedDestinations,
+  ]);
+}
+
+/**
+ * The wallet's policy. Without it the wallet's limits are unknown, so
+ * signing is refused (monitor mode only warns and checks the defaults).
+ */
+async function loadPolicy(walletId: string): Promise<TransactionPolicy> {
+  try {
+    return await getTransactionPolicy(walletId);
+  } catch (error: any) {
+    const reason = error?.message || String(error);
+    if (config.policy.mode === 'monitor') {
+      console.warn(`[Policy] Policy for ${walletId} unavailable, checking defaults:`, reason);
+      return { ...DEFAULT_TRANSACTION_POLICY };
+    }
+    console.error(`[Policy] Policy for ${walletId} unavailable, refusing to sign:`, reason);
+    throw new Error(`Policy unavailable: could not load the signing policy for ${walletId}: ${reason}`);
+  }
+}
+
+/**
+ * USD value of transfers, and the mints among them without a price
+ */
+async function valueUsd(transfers: OutflowTransfer[]): Promise<{ usd: number; unpriced: string[] }> {
+  const moving = transfers.filter(t => t.amount > 0n);
+  if (moving.length === 0) return { usd: 0, unpriced: [] };
+  const prices = await getTokenPrices([...new Set(moving.map(t => t.mint))]);
+  let usd = 0;
+  const unpriced = new Set<string>();
+  for (const t of moving) {
+    const price = prices.get(t.mint) || 0;
+    if (!price) unpriced.add(t.mint);
+    usd += (Number(t.amount) / 10 ** t.decimals) * price;
+  }
+  return { usd, unpriced: [...unpriced] };
+}
+
+/**
+ * Log and store violations; throw on the first one unless in monitor mode
+ */
+async function report(walletId: string, findings: Finding[]): Promise<void> {
+  if (findings.length === 0) return;
+  const monitorOnly = config.policy.mode === 'monitor';
+  for (const finding of findings) {
+    console.warn(`[Policy] ${monitorOnly ? 'Would block' : 'Blocked'} ${walletId} (${finding.rule}): ${finding.message}`);
+    const violation: PolicyViolation = { ...finding, walletId, monitorOnly, at: Date.now() };
+    await recordViolation(violation).catch(e => console.error('[Policy] Failed to record violation:', e.message));
+  }
+  if (!monitorOnly) {
+    const [first] = findings;
+    throw new Error(`Policy violation (${first.rule}): ${first.message}`);
+  }
+}
+
+/**
+ * Check a transaction the wallet is about to sign. Its outflow is reserved
+ * against today's limit; pass the reservation to releaseOutflow if the
+ * transaction doesn't get signed, or to holdSignedOutflow once it is.
+ */
+export async function checkTransactionPolicy(params: {
+  walletId: string;
+  walletAddress: string;
+  transactionBase64: string;
+}): Promise<{ outflowUsd: number; reservation: OutflowReservation | null }> {
+  const { walletId, walletAddress, transactionBase64 } = params;
+  const policy = await loadPolicy(walletId);
+  if (!policy.enabled) return { outflowUsd: 0, reservation: null };
+
+  const inspected = await inspectTransaction(createConnection(), transactionBase64, walletAddress);
+  const programs = allowedPrograms(policy);
+  const destinations = allowedDestinations(policy, walletAddress);
+  const findings: Finding[] = [];
+
+  for (const program of inspected.programs) {
+    if (!programs.has(program)) {
+      findings.push({ rule: 'program', message: `Program ${program} is not allowed`, details: { program } });
+    }
+  }
+
+  for (const change of inspected.authorityChanges) {
+    if (!destinations.has(change.newAuthority) || change.kind === 'assign') {
+      findings.push({
+        rule: 'authority',
+        message: `${change.kind} would give ${change.newAuthority} control of ${change.account}`,
+        details: { ...change },
+      });
+    }
+  }
+
+  // Accounts the wallet funds for a program we don't know could be drained by it
+  for (const created of inspected.createdAccounts) {
+    if (!programs.has(created.owner)) {
+      findings.push({
+        rule: 'destination',
+        message: `Funds a new account ${created.account} owned by ${created.owner}`,
+        details: { ...created },
+      });
+    }
+  }
+
+  const outgoing = inspected.transfers.filter(t => t.destination !== walletAddress);
+  for (const transfer of outgoing) {
+    if (!destinations.has(transfer.destination)) {
+      findings.push({
+        rule: 'destination',
+        message: `Sends ${transfer.mint === SOL_MINT ? 'SOL' : transfer.mint} to ${transfer.destination}, which is not an allowed destination`,
+        details: { mint: transfer.mint, amount: transfer.amount.toString(), destination: transfer.destination },
+      });
+    }
+  }
+
+  const { usd: outflowUsd, unpriced } = await valueUsd(outgoing);
+  if (unpriced.length > 0) {
+    if (policy.dailyOutflowLimitUsd !== null) {
+      findings.push({
+        rule: 'daily-outflow',
+        message: `Sends ${unpriced.join(', ')}, which has no price, so the daily limit of $${policy.dailyOutflowLimitUsd} can't be checked`,
+        details: { unpriced, limitUsd: policy.dailyOutflowLimitUsd },
+      });
+    } else {
+      console.warn(`[Policy] No price for ${unpriced.map(m => `${m.slice(0, 8)}...`).join(', ')}, outflow counted as $0`);
+    }
+  }
+  const reservation = outflowUsd > 0 ? await reserveOutflow(walletId, outflowUsd) : null;
+  if (reservation && policy.dailyOutflowLimitUsd !== null && reservation.totalUsd > policy.dailyOutflowLimitUsd) {
+    const spent = reservation.totalUsd - outflowUsd;
+    findings.push({
+      rule: 'daily-outflow',
+      message: `Sends $${outflowUsd.toFixed(2)} with $${spent.toFixed(2)} already out today; daily limit is $${policy.dailyOutflowLimitUsd}`,
+      details: { outflowUsd, spentTodayUsd: spent, limitUsd: policy.dailyOutflowLimitUsd },
+    });
+  }
+
+  try {
+    await report(walletId, findings);
+  } catch (error) {
+    await releaseOutflow(reservation);
+    throw error;
+  }
+  return { outflowUsd, reservation };
+}
+
+async function reserveOutflow(walletId: string, usd: number): Promise<OutflowReservation & { totalUsd: number }> {
+  const at = Date.now();
+  const totalUsd = await addDailyOutflowUsd(walletId, usd, at);
+  return { walletId, usd, at, totalUsd };
+}
+
+/**
+ * Give back an outflow reservation for a transaction that wasn't signed
+ */
+export async function releaseOutflow(reservation: OutflowReservation | null): Promise<void> {
+  if (!reservation) return;
+  try {
+    await addDailyOutflowUsd(reservation.walletId, -reservation.usd, reservation.at);
+  } catch (error: any) {
+    console.error(`[Policy] Failed to release outflow for ${reservation.walletId}:`, error.message);
+  }
+}
+
+function feePayerSignature(signedTransaction: string): string {
+  return bs58.encode(VersionedTransaction.deserialize(Buffer.from(signedTransaction, 'base64')).signatures[0]);
+}
+
+/**
+ * Keep a signed transaction's reservation until it is known whether it lands
+ */
+export async function holdSignedOutflow(signedTransaction: string, reservation: OutflowReservation | null): Promise<void> {
+  if (!reservation) return;
+  try {
+    await holdOutflow(feePayerSignature(signedTransaction), reservation);
+  } catch (error: any) {
+    console.error(`[Policy] Failed to hold outflow for ${reservation.walletId}:`, error.message);
+  }
+}
+
+/**
+ * Give back the reservations of signed transactions that will never land:
+ * rejected in simulation, never sent, dropped, failed or replaced by a
+ * re-signed copy. A transaction is released at most once.
+ */
+export async function releaseUnsentOutflow(signedTransactions: string[]): Promise<void> {
+  for (const signed of signedTransactions) {
+    try {
+      await releaseOutflow(await takeHeldOutflow(feePayerSignature(signed)));
+    } catch (error: any) {
+      console.error('[Policy] Failed to release a held outflow:', error.message);
+    }
+  }
+}
+
+/**
+ * Max-loss check for an operation's swaps, before anything is signed.
+ * Skipped when a side has no price.
+ */
+export async function checkSwapLoss(walletId: string, swaps: SwapFlow[]): Promise<void> {
+  if (swaps.length === 0) return;
+  const policy = await loadPolicy(walletId);
+  if (!policy.enabled || policy.maxLossBps === null) return;
+
+  const mints = [...new Set(swaps.flatMap(s => [s.input.mint, s.output.mint]))];
+  const prices = await getTokenPrices(mints);
+  if (mints.some(m => !prices.get(m))) {
+    console.warn(`[Policy] Max-loss check skipped for ${walletId}: missing prices`);
+    return;
+  }
+
+  const inUsd = swaps.reduce((sum, s) => sum + s.input.amount * prices.get(s.input.mint)!, 0);
+  const outUsd = swaps.reduce((sum, s) => sum + s.output.amount * prices.get(s.output.mint)!, 0);
+  if (inUsd <= 0) return;
+
+  const lossBps = Math.round(((inUsd - outUsd) / inUsd) * 10000);
+  if (lossBps > policy.maxLossBps) {
+    await report(walletId, [{
+      rule: 'max-loss',
+      message: `Swaps lose ${(lossBps / 100).toFixed(2)}% ($${inUsd.toFixed(2)} in, $${outUsd.toFixed(2)} out); max is ${(policy.maxLossBps / 100).toFixed(2)}%`,
+      details: { inUsd, outUsd, lossBps, maxLossBps: policy.maxLossBps },
+    }]);
+  }
+}
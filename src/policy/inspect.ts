@@ -0,0 +1,211 @@
+/**
+ * Policy Inspection - what a transaction does with the wallet's funds
+ *
+ * Decodes the top-level instructions the wallet signs for:
+ * - System transfers and account creations it funds
+ * - SPL Token / Token-2022 transfers, closes, approvals and authority
+ *   changes where the wallet is the authority
+ *
+ * Receiving accounts are resolved to their owner (token accounts, ATAs
+ * created in the same transaction, the wallet's wSOL account), so a
+ * transfer to the treasury's ATA counts as a transfer to the treasury.
+ * Value moved inside DEX programs (deposits into pools) is a CPI and stays
+ * the wallet's; it doesn't show up here.
+ */
+
+import { PublicKey, SystemProgram, VersionedTransaction, type Connection } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { getMintProfile } from '../utils/token-extensions.js';
+import { createAccountResolver, loadLookupTables } from '../inspector/accounts.js';
+import type { OutflowTransfer } from './types.js';
+
+const SOL_MINT = NATIVE_MINT.toBase58();
+const SYSTEM = SystemProgram.programId.toBase58();
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+const ATA_PROGRAM = ASSOCIATED_TOKEN_PROGRAM_ID.toBase58();
+
+// System program instruction indexes (u32 LE)
+const SYS_CREATE_ACCOUNT = 0;
+const SYS_ASSIGN = 1;
+const SYS_TRANSFER = 2;
+const SYS_CREATE_WITH_SEED = 3;
+const SYS_ASSIGN_WITH_SEED = 10;
+const SYS_TRANSFER_WITH_SEED = 11;
+
+// SPL Token instruction indexes (u8), shared by Token-2022
+const TOKEN_TRANSFER = 3;
+const TOKEN_APPROVE = 4;
+const TOKEN_SET_AUTHORITY = 6;
+const TOKEN_CLOSE_ACCOUNT = 9;
+const TOKEN_TRANSFER_CHECKED = 12;
+const TOKEN_APPROVE_CHECKED = 13;
+const TOKEN_TRANSFER_FEE_EXTENSION = 26; // Sub-instruction 1: TransferCheckedWithFee
+
+export interface AuthorityChange {
+  kind: 'assign' | 'approve' | 'set-authority';
+  account: string;
+  newAuthority: string; // Program id for assign
+}
+
+export interface InspectedTransaction {
+  /** Top-level program ids */
+  programs: string[];
+  /** Everything leaving the wallet, destinations resolved to owners (may be the wallet itself) */
+  transfers: OutflowTransfer[];
+  /** Accounts created with lamports from the wallet, with the program that will own them */
+  createdAccounts: Array<{ account: string; owner: string; lamports: number }>;
+  authorityChanges: AuthorityChange[];
+}
+
+/**
+ * Decode what a base64 transaction does with walletAddress's funds
+ */
+export async function inspectTransaction(
+  connection: Connection,
+  transactionBase64: string,
+  walletAddress: string,
+): Promise<InspectedTransaction> {
+  const tx = VersionedTransaction.deserialize(Buffer.from(transactionBase64, 'base64'));
+  const keys = tx.message.getAccountKeys({ addressLookupTableAccounts: await loadLookupTables(connection, tx) });
+  const key = (index: number) => keys.get(index)?.toBase58() ?? '';
+
+  const result: InspectedTransaction = { programs: [], transfers: [], createdAccounts: [], authorityChanges: [] };
+  const resolver = createAccountResolver(connection);
+  const wsolAccount = getAssociatedTokenAddressSync(NATIVE_MINT, new PublicKey(walletAddress)).toBase58();
+  resolver.register(wsolAccount, { owner: walletAddress, mint: SOL_MINT });
+  const { tokenAccount, ownerOf } = resolver;
+
+  const pending: Array<() => Promise<void>> = [];
+
+  for (const ix of tx.message.compiledInstructions) {
+    const program = key(ix.programIdIndex);
+    if (!result.programs.includes(program)) result.programs.push(program);
+    const accounts = ix.accountKeyIndexes.map(key);
+    const data = Buffer.from(ix.data);
+
+    if (program === ATA_PROGRAM && accounts.length >= 4) {
+      // Create / CreateIdempotent: [payer, ata, owner, mint, ...]
+      resolver.register(accounts[1], { owner: accounts[2], mint: accounts[3] });
+      continue;
+    }
+
+    if (program === SYSTEM && data.length >= 4) {
+      const index = data.readUInt32LE(0);
+      if (index === SYS_TRANSFER && accounts[0] === walletAddress && data.length >= 12) {
+        const lamports = data.readBigUInt64LE(4);
+        const to = accounts[1];
+        pending.push(async () => {
+          result.transfers.push({ mint: SOL_MINT, amount: lamports, decimals: 9, destination: await ownerOf(to) });
+        });
+      } else if (index === SYS_TRANSFER_WITH_SEED && accounts[1] === walletAddress && data.length >= 12) {
+        const lamports = data.readBigUInt64LE(4);
+        const to = accounts[2];
+        pending.push(async () => {
+          result.transfers.push({ mint: SOL_MINT, amount: lamports, decimals: 9, destination: await ownerOf(to) });
+        });
+      } else if (index === SYS_CREATE_ACCOUNT && accounts[0] === walletAddress && data.length >= 52) {
+        result.createdAccounts.push({
+          account: accounts[1],
+          lamports: Number(data.readBigUInt64LE(4)),
+          owner: new PublicKey(data.subarray(20, 52)).toBase58(),
+        });
+      } else if (index === SYS_CREATE_WITH_SEED && accounts[0] === walletAddress && data.length >= 44) {
+        const seedLength = Number(data.readBigUInt64LE(36));
+        const offset = 44 + seedLength;
+        if (data.length >= offset + 48) {
+          result.createdAccounts.push({
+            account: accounts[1],
+            lamports: Number(data.readBigUInt64LE(offset)),
+            owner: new PublicKey(data.subarray(offset + 16, offset + 48)).toBase58(),
+          });
+        }
+      } else if ((index === SYS_ASSIGN || index === SYS_ASSIGN_WITH_SEED) && accounts[0] === walletAddress) {
+        const ownerOffset = index === SYS_ASSIGN ? 4 : data.length - 32;
+        result.authorityChanges.push({
+          kind: 'assign',
+          account: walletAddress,
+          newAuthority: new PublicKey(data.subarray(ownerOffset, ownerOffset + 32)).toBase58(),
+        });
+      }
+      continue;
+    }
+
+    if (!TOKEN_PROGRAMS.includes(program) || data.length === 0) continue;
+
+    switch (data[0]) {
+      case TOKEN_TRANSFER: {
+        // [source, destination, authority]
+        if (accounts[2] !== walletAddress || data.length < 9) break;
+        const amount = data.readBigUInt64LE(1);
+        const [source, destination] = accounts;
+        pending.push(async () => {
+          const mint = (await tokenAccount(source))?.mint;
+          if (!mint) throw new Error(`Can't read token account ${source}`);
+          const { decimals } = await getMintProfile(connection, mint);
+          result.transfers.push({ mint, amount, decimals, destination: await ownerOf(destination) });
+        });
+        break;
+      }
+      case TOKEN_TRANSFER_CHECKED: {
+        // [source, mint, destination, authority]
+        if (accounts[3] !== walletAddress || data.length < 10) break;
+        const amount = data.readBigUInt64LE(1);
+        const decimals = data[9];
+        const [, mint, destination] = accounts;
+        pending.push(async () => {
+          result.transfers.push({ mint, amount, decimals, destination: await ownerOf(destination) });
+        });
+        break;
+      }
+      case TOKEN_TRANSFER_FEE_EXTENSION: {
+        // TransferCheckedWithFee: [source, mint, destination, authority]
+        if (data[1] !== 1 || accounts[3] !== walletAddress || data.length < 11) break;
+        const amount = data.readBigUInt64LE(2);
+        const decimals = data[10];
+        const [, mint, destination] = accounts;
+        pending.push(async () => {
+          result.transfers.push({ mint, amount, decimals, destination: await ownerOf(destination) });
+        });
+        break;
+      }
+      case TOKEN_CLOSE_ACCOUNT: {
+        // [account, destination, owner]: rent (and wSOL) goes to destination
+        if (accounts[2] !== walletAddress) break;
+        const destination = accounts[1];
+        pending.push(async () => {
+          result.transfers.push({ mint: SOL_MINT, amount: 0n, decimals: 9, destination: await ownerOf(destination) });
+        });
+        break;
+      }
+      case TOKEN_APPROVE:
+      case TOKEN_APPROVE_CHECKED: {
+        // Approve: [source, delegate, owner]; ApproveChecked: [source, mint, delegate, owner]
+        const checked = data[0] === TOKEN_APPROVE_CHECKED;
+        const owner = accounts[checked ? 3 : 2];
+        if (owner !== walletAddress) break;
+        result.authorityChanges.push({ kind: 'approve', account: accounts[0], newAuthority: accounts[checked ? 2 : 1] });
+        break;
+      }
+      case TOKEN_SET_AUTHORITY: {
+        // [account, current authority]; data: type u8, COption<Pubkey>
+        if (accounts[1] !== walletAddress || data.length < 35 || data[2] !== 1) break;
+        result.authorityChanges.push({
+          kind: 'set-authority',
+          account: accounts[0],
+          newAuthority: new PublicKey(data.subarray(3, 35)).toBase58(),
+        });
+        break;
+      }
+    }
+  }
+
+  // After the loop, so ATAs created later in the transaction are known
+  for (const resolve of pending) await resolve();
+  return result;
+}
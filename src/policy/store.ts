@@ -0,0 +1,130 @@
+/**
+ * Transaction Policy Storage
+ *
+ * Keyspace:
+ *   lp-toolkit:policy:wallet:<walletId>        Partial<TransactionPolicy> overrides
+ *   lp-toolkit:policy:outflow:<walletId>       Hash: UTC day -> outflow in micro-USD
+ *   lp-toolkit:policy:hold:<signature>         OutflowReservation of a signed, unsent transaction
+ *   lp-toolkit:policy:violations:<walletId>    PolicyViolation list, newest first, capped
+ */
+
+import { getStore } from '../storage/index.js';
+import type { OutflowReservation, PolicyViolation, TransactionPolicy } from './types.js';
+
+const KEYS = {
+  POLICY: (walletId: string) => `lp-toolkit:policy:wallet:${walletId}`,
+  OUTFLOW: (walletId: string) => `lp-toolkit:policy:outflow:${walletId}`,
+  HOLD: (signature: string) => `lp-toolkit:policy:hold:${signature}`,
+  VIOLATIONS: (walletId: string) => `lp-toolkit:policy:violations:${walletId}`,
+};
+
+const MAX_VIOLATIONS = 200;
+const OUTFLOW_TTL_SECONDS = 3 * 24 * 60 * 60;
+const MICRO = 1_000_000;
+
+export const DEFAULT_TRANSACTION_POLICY: TransactionPolicy = {
+  enabled: true,
+  dailyOutflowLimitUsd: null,
+  allowedDestinations: [],
+  extraAllowedPrograms: [],
+  maxLossBps: null,
+};
+
+function utcDay(at = Date.now()): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+/**
+ * Effective policy for a wallet (stored overrides on top of the defaults)
+ */
+export async function getTransactionPolicy(walletId: string): Promise<TransactionPolicy> {
+  const stored = await getStore().get<Partial<TransactionPolicy>>(KEYS.POLICY(walletId));
+  return { ...DEFAULT_TRANSACTION_POLICY, ...stored };
+}
+
+/**
+ * Validate a policy update; returns the error message for the first bad field
+ */
+export function validateTransactionPolicy(update: Record<string, unknown>): string | null {
+  if (update.enabled !== undefined && typeof update.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  const limit = update.dailyOutflowLimitUsd;
+  if (limit !== undefined && limit !== null && !(typeof limit === 'number' && limit >= 0)) {
+    return 'dailyOutflowLimitUsd must be a non-negative number or null';
+  }
+  const base58 = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+  for (const field of ['allowedDestinations', 'extraAllowedPrograms'] as const) {
+    const value = update[field];
+    if (value !== undefined && !(Array.isArray(value) && value.every(v => typeof v === 'string' && base58.test(v)))) {
+      return `${field} must be an array of base58 addresses`;
+    }
+  }
+  const maxLoss = update.maxLossBps;
+  if (maxLoss !== undefined && maxLoss !== null && !(Number.isInteger(maxLoss) && (maxLoss as number) >= 0 && (maxLoss as number) <= 10000)) {
+    return 'maxLossBps must be an integer from 0 to 10000, or null';
+  }
+  return null;
+}
+
+/**
+ * Store overrides for a wallet. Only known fields are kept; call
+ * validateTransactionPolicy first.
+ */
+export async function setTransactionPolicy(
+  walletId: string,
+  update: Partial<TransactionPolicy>,
+): Promise<TransactionPolicy> {
+  const store = getStore();
+  const stored = (await store.get<Partial<TransactionPolicy>>(KEYS.POLICY(walletId))) || {};
+  const next: Partial<TransactionPolicy> = { ...stored };
+  for (const key of Object.keys(DEFAULT_TRANSACTION_POLICY) as Array<keyof TransactionPolicy>) {
+    if (update[key] !== undefined) (next as Record<string, unknown>)[key] = update[key];
+  }
+  await store.set(KEYS.POLICY(walletId), next);
+  return { ...DEFAULT_TRANSACTION_POLICY, ...next };
+}
+
+export async function resetTransactionPolicy(walletId: string): Promise<void> {
+  await getStore().del(KEYS.POLICY(walletId));
+}
+
+// ============ Outflow ============
+
+export async function getDailyOutflowUsd(walletId: string, at = Date.now()): Promise<number> {
+  const micros = await getStore().hget<number | string>(KEYS.OUTFLOW(walletId), utcDay(at));
+  return Number(micros || 0) / MICRO;
+}
+
+export async function addDailyOutflowUsd(walletId: string, usd: number, at = Date.now()): Promise<number> {
+  const store = getStore();
+  const total = await store.hincrby(KEYS.OUTFLOW(walletId), utcDay(at), Math.round(usd * MICRO));
+  await store.expire(KEYS.OUTFLOW(walletId), OUTFLOW_TTL_SECONDS);
+  return total / MICRO;
+}
+
+export async function holdOutflow(signature: string, reservation: OutflowReservation): Promise<void> {
+  await getStore().set(KEYS.HOLD(signature), reservation, { ex: OUTFLOW_TTL_SECONDS });
+}
+
+/**
+ * The reservation held for a signature, removed so it can only be taken once
+ */
+export async function takeHeldOutflow(signature: string): Promise<OutflowReservation | null> {
+  const store = getStore();
+  const reservation = await store.get<OutflowReservation>(KEYS.HOLD(signature));
+  if (reservation) await store.del(KEYS.HOLD(signature));
+  return reservation;
+}
+
+// ============ Violations ============
+
+export async function recordViolation(violation: PolicyViolation): Promise<void> {
+  const store = getStore();
+  await store.lpush(KEYS.VIOLATIONS(violation.walletId), violation);
+  await store.ltrim(KEYS.VIOLATIONS(violation.walletId), 0, MAX_VIOLATIONS - 1);
+}
+
+export async function getViolations(walletId: string, limit = 20): Promise<PolicyViolation[]> {
+  return getStore().lrange<PolicyViolation>(KEYS.VIOLATIONS(walletId), 0, limit - 1);
+}
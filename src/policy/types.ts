@@ -0,0 +1,51 @@
+/**
+ * Transaction Policy Types
+ */
+
+/**
+ * What a violation broke:
+ * - program: an instruction calls a program outside the allowlist
+ * - destination: SOL or tokens leave the wallet for an address that isn't allowed
+ * - authority: the wallet's account or token accounts would be handed to someone else
+ * - daily-outflow: today's outflow would exceed the wallet's limit
+ * - max-loss: an operation's swaps lose more value than the wallet allows
+ */
+export type PolicyRule = 'program' | 'destination' | 'authority' | 'daily-outflow' | 'max-loss';
+
+export interface TransactionPolicy {
+  /** Off: sign without checks */
+  enabled: boolean;
+  /** USD value that may leave the wallet per UTC day; null for no limit */
+  dailyOutflowLimitUsd: number | null;
+  /** Addresses SOL and tokens may be sent to, besides the wallet itself, Jito tip accounts and the treasury */
+  allowedDestinations: string[];
+  /** Programs allowed on top of the built-in DEX / Jupiter / system list */
+  extraAllowedPrograms: string[];
+  /** Max value an operation's swaps may lose (price impact + slippage + fees), in bps; null for no check */
+  maxLossBps: number | null;
+}
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  walletId: string;
+  message: string;
+  details: Record<string, unknown>;
+  /** True when recorded in monitor mode: logged, but signed anyway */
+  monitorOnly: boolean;
+  at: number;
+}
+
+/** Outflow counted against the daily limit before signing, given back if signing fails */
+export interface OutflowReservation {
+  walletId: string;
+  usd: number;
+  at: number;
+}
+
+/** SOL (native mint) or tokens a transaction sends to an address other than the wallet */
+export interface OutflowTransfer {
+  mint: string;
+  amount: bigint; // Base units (lamports for SOL)
+  decimals: number;
+  destination: string; // Owner of the receiving account
+}
@@ -11,12 +11,14 @@ import {
   Connection,
   TransactionMessage,
   TransactionInstruction,
+  type Signer,
 } from '@solana/web3.js';
 import {
   ApiV3PoolInfoConcentratedItem,
   TickUtils,
   PoolUtils,
   ClmmKeys,
+  getLiquidityFromAmounts,
 } from '@raydium-io/raydium-sdk-v2';
 import {
   getAssociatedTokenAddressSync,
@@ -28,8 +30,9 @@ import BN from 'bn.js';
 import { getRaydiumClient, getRaydiumConnection, TX_VERSION } from './client.js';
 import { config } from '../config/index.js';
 import { buildTipTransaction, type TipSpeed } from '../jito/index.js';
+import { assertSupportedMints, getMintProfiles, netAfterTransferFee } from '../utils/token-extensions.js';
+import type { LpEntryFlows, SwapFlow } from '../ledger/types.js';
 
-const JUPITER_API = 'https://api.jup.ag/swap/v1';
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
 
 export interface RaydiumAtomicLPParams {
@@ -46,6 +49,7 @@ export interface BuiltRaydiumLP {
   unsignedTransactions: string[];
   positionMint: string;
   tickRange: { lower: number; upper: number };
+  flows: LpEntryFlows; // What lands in the position, for the PnL ledger
   encryptedStrategy?: any;
 }
 
@@ -58,12 +62,12 @@ async function getJupiterSwapTx(params: {
   amount: number;
   slippageBps: number;
   walletAddress: string;
-}): Promise<string | null> {
+}): Promise<{ transaction: string; outAmount: string; otherAmountThreshold: string } | null> {
   const headers: Record<string, string> = { Accept: 'application/json' };
   if (config.jupiter?.apiKey) headers['x-api-key'] = config.jupiter.apiKey;
 
   // Get quote
-  const quoteUrl = new URL(`${JUPITER_API}/quote`);
+  const quoteUrl = new URL(`${config.jupiter.baseUrl}/quote`);
   quoteUrl.searchParams.set('inputMint', params.inputMint);
   quoteUrl.searchParams.set('outputMint', params.outputMint);
   quoteUrl.searchParams.set('amount', params.amount.toString());
@@ -76,10 +80,10 @@ async function getJupiterSwapTx(params: {
     console.error('[Raydium] Jupiter quote failed:', await quoteResp.text());
     return null;
   }
-  const quote = await quoteResp.json();
+  const quote = (await quoteResp.json()) as { outAmount: string; otherAmountThreshold: string };
 
   // Get swap transaction
-  const swapResp = await fetch(`${JUPITER_API}/swap`, {
+  const swapResp = await fetch(`${config.jupiter.baseUrl}/swap`, {
     method: 'POST',
     headers: { ...headers, 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -97,7 +101,9 @@ async function getJupiterSwapTx(params: {
   }
 
   const swapData = await swapResp.json() as { swapTransaction?: string };
-  return swapData.swapTransaction || null;
+  return swapData.swapTransaction
+    ? { transaction: swapData.swapTransaction, outAmount: quote.outAmount, otherAmountThreshold: quote.otherAmountThreshold }
+    : null;
 }
 
 /**
@@ -157,15 +163,21 @@ export async function buildRaydiumAtomicLP(
   const mintB = poolInfo.mintB.address;
   const solIsMintA = mintA === SOL_MINT;
   const solIsMintB = mintB === SOL_MINT;
+
+  // Token-2022: refuse unsupported hooks; programs for ATAs, fees for swap outputs
+  const [profileA, profileB] = await getMintProfiles(connection, [mintA, mintB]);
+  assertSupportedMints([profileA, profileB]);
   
   const unsignedTransactions: string[] = [];
+  const swaps: SwapFlow[] = [];
+  let swappedA: BN | undefined; // Least the swap lands in the wallet, net of transfer fees
 
   // If pool doesn't contain SOL directly, we need to swap first
   if (!solIsMintA && !solIsMintB) {
     const targetMint = mintA;
     const swapAmount = Math.floor(amountSol * 1e9);
     
-    const swapTxB64 = await getJupiterSwapTx({
+    const swap = await getJupiterSwapTx({
       inputMint: SOL_MINT,
       outputMint: targetMint,
       amount: swapAmount,
@@ -173,8 +185,14 @@ export async function buildRaydiumAtomicLP(
       walletAddress,
     });
     
-    if (swapTxB64) {
-      unsignedTransactions.push(swapTxB64);
+    if (swap) {
+      unsignedTransactions.push(swap.transaction);
+      swappedA = netAfterTransferFee(profileA, new BN(swap.otherAmountThreshold));
+      const received = netAfterTransferFee(profileA, new BN(swap.outAmount));
+      swaps.push({
+        input: { mint: SOL_MINT, amount: swapAmount / 1e9 },
+        output: { mint: targetMint, amount: Number(received.toString()) / 10 ** poolInfo.mintA.decimals },
+      });
     } else {
       // No swap route means we can't get the pool tokens
       throw new Error(
@@ -184,16 +202,17 @@ export async function buildRaydiumAtomicLP(
     }
   }
 
-  // Calculate amounts for LP
+  // Calculate amounts for LP: based on the SOL side, or on the swapped-in
+  // token A for pools without SOL. amountHasFee makes the SDK account for
+  // deposit-side transfer fees.
   const epochInfo = await raydium.fetchEpochInfo();
-  const inputAmount = amountSol / 2;
-  const decimals = solIsMintA ? poolInfo.mintA.decimals : poolInfo.mintB.decimals;
-  const inputAmountBN = new BN(Math.floor(inputAmount * Math.pow(10, decimals)));
+  const baseIsA = solIsMintA || !!swappedA;
+  const inputAmountBN = swappedA ?? new BN(Math.floor((amountSol / 2) * 1e9));
 
   const liquidityRes = await PoolUtils.getLiquidityAmountOutFromAmountIn({
     poolInfo,
     slippage: slippageBps / 10000,
-    inputA: solIsMintA,
+    inputA: baseIsA,
     tickUpper,
     tickLower,
     amount: inputAmountBN,
@@ -213,7 +232,7 @@ export async function buildRaydiumAtomicLP(
   
   // Check and create ATA for mintA (if not SOL)
   if (mintA !== SOL_MINT) {
-    const ataA = getAssociatedTokenAddressSync(mintAPubkey, walletPubkey);
+    const ataA = getAssociatedTokenAddressSync(mintAPubkey, walletPubkey, false, profileA.tokenProgram);
     const ataAInfo = await connection.getAccountInfo(ataA);
     if (!ataAInfo) {
       console.log(`[Raydium] Creating ATA for mintA: ${mintA}`);
@@ -222,7 +241,8 @@ export async function buildRaydiumAtomicLP(
           walletPubkey, // payer
           ataA,
           walletPubkey, // owner
-          mintAPubkey
+          mintAPubkey,
+          profileA.tokenProgram
         )
       );
     }
@@ -230,7 +250,7 @@ export async function buildRaydiumAtomicLP(
   
   // Check and create ATA for mintB (if not SOL)
   if (mintB !== SOL_MINT) {
-    const ataB = getAssociatedTokenAddressSync(mintBPubkey, walletPubkey);
+    const ataB = getAssociatedTokenAddressSync(mintBPubkey, walletPubkey, false, profileB.tokenProgram);
     const ataBInfo = await connection.getAccountInfo(ataB);
     if (!ataBInfo) {
       console.log(`[Raydium] Creating ATA for mintB: ${mintB}`);
@@ -239,7 +259,8 @@ export async function buildRaydiumAtomicLP(
           walletPubkey, // payer
           ataB,
           walletPubkey, // owner
-          mintBPubkey
+          mintBPubkey,
+          profileB.tokenProgram
         )
       );
     }
@@ -266,12 +287,12 @@ export async function buildRaydiumAtomicLP(
     poolInfo,
     tickUpper,
     tickLower,
-    base: solIsMintA ? 'MintA' : 'MintB',
+    base: baseIsA ? 'MintA' : 'MintB',
     ownerInfo: {
       useSOLBalance: true,
     },
     baseAmount: inputAmountBN,
-    otherAmountMax: liquidityRes.amountSlippageB.amount,
+    otherAmountMax: baseIsA ? liquidityRes.amountSlippageB.amount : liquidityRes.amountSlippageA.amount,
     txVersion: TX_VERSION,
     associatedOnly: false,
     checkCreateATAOwner: false,
@@ -302,19 +323,28 @@ export async function buildRaydiumAtomicLP(
   }
 
   // Add Jito tip if not skipped
+  let tipLamports = 0;
   if (!skipTip) {
-    const { transaction: tipTx } = buildTipTransaction({
+    const { transaction: tipTx, tipLamports: tip } = await buildTipTransaction({
       payerAddress: walletAddress,
       recentBlockhash: blockhash,
       speed: tipSpeed,
+      valueLamports: Math.floor(amountSol * 1e9),
     });
     unsignedTransactions.push(Buffer.from(tipTx.serialize()).toString('base64'));
+    tipLamports = tip;
   }
 
   return {
     unsignedTransactions,
     positionMint: extInfo.nftMint.toBase58(),
     tickRange: { lower: tickLower, upper: tickUpper },
+    flows: {
+      tokenX: { mint: mintA, amount: Number(liquidityRes.amountA.amount.toString()) / 10 ** poolInfo.mintA.decimals },
+      tokenY: { mint: mintB, amount: Number(liquidityRes.amountB.amount.toString()) / 10 ** poolInfo.mintB.decimals },
+      swaps,
+      tipLamports,
+    },
   };
 }
 
@@ -369,6 +399,7 @@ export async function buildRaydiumWithdraw(params: {
     ownerPosition: positionData,
     ownerInfo: {
       useSOLBalance: true,
+      closePosition,
     },
     liquidity: positionData.liquidity,
     amountMinA: new BN(0),
@@ -399,7 +430,7 @@ export async function buildRaydiumWithdraw(params: {
 
   // Add Jito tip
   if (!skipTip) {
-    const { transaction: tipTx } = buildTipTransaction({
+    const { transaction: tipTx } = await buildTipTransaction({
       payerAddress: walletAddress,
       recentBlockhash: blockhash,
       speed: tipSpeed,
@@ -481,7 +512,7 @@ export async function buildRaydiumClaimFees(params: {
 
   // Add Jito tip
   if (!skipTip) {
-    const { transaction: tipTx } = buildTipTransaction({
+    const { transaction: tipTx } = await buildTipTransaction({
       payerAddress: walletAddress,
       recentBlockhash: blockhash,
       speed: tipSpeed,
@@ -491,3 +522,237 @@ export async function buildRaydiumClaimFees(params: {
 
   return { unsignedTransactions };
 }
+
+/**
+ * Build increase-liquidity transactions that add token amounts (base units)
+ * to an existing Raydium CLMM position. Liquidity is sized so neither amount
+ * is exceeded after slippage; any remainder stays in the wallet.
+ */
+export async function buildRaydiumIncreaseLiquidity(params: {
+  walletAddress: string;
+  positionMint: string;
+  amountA: BN;
+  amountB: BN;
+  slippageBps?: number;
+  tipSpeed?: TipSpeed;
+  skipTip?: boolean;
+}): Promise<{ unsignedTransactions: string[]; flows: LpEntryFlows }> {
+  const {
+    walletAddress,
+    positionMint,
+    amountA,
+    amountB,
+    slippageBps = 100,
+    tipSpeed = 'medium',
+    skipTip = false,
+  } = params;
+
+  const raydium = await getRaydiumClient();
+  const connection = getRaydiumConnection();
+
+  // Set the SDK owner to the actual wallet (required for token account lookups)
+  const walletPubkey = new PublicKey(walletAddress);
+  raydium.setOwner(walletPubkey);
+  await raydium.account.fetchWalletTokenAccounts({ forceUpdate: true });
+
+  const ownerPositions = await raydium.clmm.getOwnerPositionInfo({});
+  const positionData = ownerPositions.find(p => p.nftMint.toBase58() === positionMint);
+
+  if (!positionData) {
+    throw new Error(`Position not found: ${positionMint}`);
+  }
+
+  const poolData = await raydium.api.fetchPoolById({ ids: positionData.poolId.toBase58() });
+  const poolInfo = poolData[0] as ApiV3PoolInfoConcentratedItem;
+
+  if (!poolInfo) {
+    throw new Error('Pool not found for position');
+  }
+
+  // Size liquidity from amounts shrunk by the slippage, so the max amounts
+  // the program may pull never exceed what we have
+  const slippage = slippageBps / 10000;
+  const shrink = (amount: BN) => amount.muln(10000).divn(10000 + slippageBps);
+  const epochInfo = await raydium.fetchEpochInfo();
+  const liquidityRes = getLiquidityFromAmounts({
+    poolInfo,
+    tickLower: positionData.tickLower,
+    tickUpper: positionData.tickUpper,
+    amountA: shrink(amountA),
+    amountB: shrink(amountB),
+    slippage,
+    add: true,
+    epochInfo,
+    amountHasFee: true,
+  });
+
+  if (liquidityRes.liquidity.isZero()) {
+    throw new Error('Amounts are too small to add liquidity at the current price');
+  }
+
+  const { transaction } = await raydium.clmm.increasePositionFromLiquidity({
+    poolInfo,
+    ownerPosition: positionData,
+    ownerInfo: {
+      useSOLBalance: true,
+    },
+    liquidity: liquidityRes.liquidity,
+    amountMaxA: amountA,
+    amountMaxB: amountB,
+    txVersion: TX_VERSION,
+    computeBudgetConfig: {
+      units: 400000,
+      microLamports: 100000,
+    },
+  });
+
+  const unsignedTransactions: string[] = [Buffer.from(transaction.serialize()).toString('base64')];
+
+  let tipLamports = 0;
+  if (!skipTip) {
+    const { blockhash } = await connection.getLatestBlockhash('finalized');
+    const { transaction: tipTx, tipLamports: tip } = await buildTipTransaction({
+      payerAddress: walletAddress,
+      recentBlockhash: blockhash,
+      speed: tipSpeed,
+    });
+    tipLamports = tip;
+    unsignedTransactions.push(Buffer.from(tipTx.serialize()).toString('base64'));
+  }
+
+  return {
+    unsignedTransactions,
+    flows: {
+      tokenX: {
+        mint: poolInfo.mintA.address,
+        amount: Number(liquidityRes.amountA.amount.toString()) / 10 ** poolInfo.mintA.decimals,
+      },
+      tokenY: {
+        mint: poolInfo.mintB.address,
+        amount: Number(liquidityRes.amountB.amount.toString()) / 10 ** poolInfo.mintB.decimals,
+      },
+      swaps: [],
+      tipLamports,
+    },
+  };
+}
+
+/**
+ * Build transactions that open a new position over [tickLower, tickUpper]
+ * funded with token amounts already in the wallet (base units) - the
+ * re-entry leg of a rebalance. Liquidity is sized like
+ * buildRaydiumIncreaseLiquidity; any remainder stays in the wallet.
+ * The open transaction comes pre-signed by the position NFT mint.
+ */
+export async function buildRaydiumOpenPosition(params: {
+  walletAddress: string;
+  poolAddress: string;
+  tickLower: number;
+  tickUpper: number;
+  amountA: BN;
+  amountB: BN;
+  slippageBps?: number;
+  tipSpeed?: TipSpeed;
+  skipTip?: boolean;
+}): Promise<{ unsignedTransactions: string[]; positionMint: string; flows: LpEntryFlows; signers: Signer[] }> {
+  const {
+    walletAddress,
+    poolAddress,
+    tickLower,
+    tickUpper,
+    amountA,
+    amountB,
+    slippageBps = 100,
+    tipSpeed = 'medium',
+    skipTip = false,
+  } = params;
+
+  const raydium = await getRaydiumClient();
+  const connection = getRaydiumConnection();
+
+  const poolData = await raydium.api.fetchPoolById({ ids: poolAddress });
+  const poolInfo = poolData[0] as ApiV3PoolInfoConcentratedItem;
+
+  if (!poolInfo) {
+    throw new Error(`Pool not found: ${poolAddress}`);
+  }
+
+  const tickSpacing = poolInfo.config.tickSpacing;
+  if (tickLower % tickSpacing !== 0 || tickUpper % tickSpacing !== 0 || tickLower >= tickUpper) {
+    throw new Error(`Invalid tick range [${tickLower}, ${tickUpper}] for tick spacing ${tickSpacing}`);
+  }
+
+  // Set the SDK owner to the actual wallet (required for token account lookups)
+  const walletPubkey = new PublicKey(walletAddress);
+  raydium.setOwner(walletPubkey);
+  await raydium.account.fetchWalletTokenAccounts({ forceUpdate: true });
+
+  const slippage = slippageBps / 10000;
+  const shrink = (amount: BN) => amount.muln(10000).divn(10000 + slippageBps);
+  const epochInfo = await raydium.fetchEpochInfo();
+  const liquidityRes = getLiquidityFromAmounts({
+    poolInfo,
+    tickLower,
+    tickUpper,
+    amountA: shrink(amountA),
+    amountB: shrink(amountB),
+    slippage,
+    add: true,
+    epochInfo,
+    amountHasFee: true,
+  });
+
+  if (liquidityRes.liquidity.isZero()) {
+    throw new Error('Amounts are too small to open a position in this range');
+  }
+
+  const { transaction, signers, extInfo } = await raydium.clmm.openPositionFromLiquidity({
+    poolInfo,
+    tickLower,
+    tickUpper,
+    liquidity: liquidityRes.liquidity,
+    amountMaxA: amountA,
+    amountMaxB: amountB,
+    ownerInfo: {
+      useSOLBalance: true,
+    },
+    txVersion: TX_VERSION,
+    feePayer: walletPubkey,
+    computeBudgetConfig: {
+      units: 600000,
+      microLamports: 100000,
+    },
+  });
+
+  const unsignedTransactions: string[] = [Buffer.from(transaction.serialize()).toString('base64')];
+
+  let tipLamports = 0;
+  if (!skipTip) {
+    const { blockhash } = await connection.getLatestBlockhash('finalized');
+    const { transaction: tipTx, tipLamports: tip } = await buildTipTransaction({
+      payerAddress: walletAddress,
+      recentBlockhash: blockhash,
+      speed: tipSpeed,
+    });
+    tipLamports = tip;
+    unsignedTransactions.push(Buffer.from(tipTx.serialize()).toString('base64'));
+  }
+
+  return {
+    unsignedTransactions,
+    positionMint: extInfo.address.nftMint.toBase58(),
+    signers,
+    flows: {
+      tokenX: {
+        mint: poolInfo.mintA.address,
+        amount: Number(liquidityRes.amountA.amount.toString()) / 10 ** poolInfo.mintA.decimals,
+      },
+      tokenY: {
+        mint: poolInfo.mintB.address,
+        amount: Number(liquidityRes.amountB.amount.toString()) / 10 ** poolInfo.mintB.decimals,
+      },
+      swaps: [],
+      tipLamports,
+    },
+  };
+}
@@ -15,13 +15,21 @@ export {
 export {
   fetchRaydiumPositions,
   fetchRaydiumPosition,
+  fetchRaydiumPoolState,
+  fetchRaydiumPositionState,
+  quoteRaydiumClaimableFees,
+  tickToPrice,
   type RaydiumPosition,
+  type RaydiumPoolState,
+  type RaydiumPositionState,
 } from './positions.js';
 
 export {
   buildRaydiumAtomicLP,
   buildRaydiumWithdraw,
   buildRaydiumClaimFees,
+  buildRaydiumIncreaseLiquidity,
+  buildRaydiumOpenPosition,
   type RaydiumAtomicLPParams,
   type BuiltRaydiumLP,
 } from './atomic.js';
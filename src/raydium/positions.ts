@@ -5,8 +5,20 @@
  */
 
 import { PublicKey } from '@solana/web3.js';
-import { getRaydiumClient, RAYDIUM_CLMM_PROGRAM_ID } from './client.js';
-import { ApiV3PoolInfoConcentratedItem } from '@raydium-io/raydium-sdk-v2';
+import BN from 'bn.js';
+import { getRaydiumClient, getRaydiumConnection, RAYDIUM_CLMM_PROGRAM_ID } from './client.js';
+import {
+  ApiV3PoolInfoConcentratedItem,
+  LiquidityMath,
+  PoolInfoLayout,
+  PositionInfoLayout,
+  PositionUtils,
+  SqrtPriceMath,
+  TickArrayLayout,
+  TickUtils,
+  getPdaPersonalPositionAddress,
+} from '@raydium-io/raydium-sdk-v2';
+import type { TokenFlow } from '../ledger/types.js';
 
 export interface RaydiumPosition {
   positionAddress: string;
@@ -18,6 +30,8 @@ export interface RaydiumPosition {
   liquidity: string;
   tickLower: number;
   tickUpper: number;
+  tickCurrent: number;
+  tickSpacing: number;
   priceLower: number;
   priceUpper: number;
   currentPrice: number;
@@ -28,13 +42,44 @@ export interface RaydiumPosition {
   amountB: number;
 }
 
+/** On-chain pool state, read without the SDK owner or the Raydium API */
+export interface RaydiumPoolState {
+  poolAddress: string;
+  mintA: string;
+  mintB: string;
+  decimalsA: number;
+  decimalsB: number;
+  tickSpacing: number;
+  tickCurrent: number;
+  currentPrice: number; // Token B per token A
+}
+
+/** A position's range and principal at the current pool price */
+export interface RaydiumPositionState {
+  positionMint: string;
+  pool: RaydiumPoolState;
+  liquidity: BN;
+  tickLower: number;
+  tickUpper: number;
+  priceLower: number;
+  priceUpper: number;
+  inRange: boolean;
+  tokenA: TokenFlow; // UI units
+  tokenB: TokenFlow;
+  baseUnits: { tokenA: BN; tokenB: BN };
+}
+
 /**
  * Fetch all Raydium CLMM positions for a wallet
  */
 export async function fetchRaydiumPositions(walletAddress: string): Promise<RaydiumPosition[]> {
   try {
     const raydium = await getRaydiumClient();
-    
+
+    // Positions are found through the owner's NFTs, so point the SDK at the wallet
+    raydium.setOwner(new PublicKey(walletAddress));
+    await raydium.account.fetchWalletTokenAccounts({ forceUpdate: true });
+
     // Fetch all CLMM positions owned by wallet
     const positions = await raydium.clmm.getOwnerPositionInfo({
       programId: RAYDIUM_CLMM_PROGRAM_ID,
@@ -84,6 +129,8 @@ export async function fetchRaydiumPositions(walletAddress: string): Promise<Rayd
           liquidity: pos.liquidity.toString(),
           tickLower: pos.tickLower,
           tickUpper: pos.tickUpper,
+          tickCurrent: priceToTick(currentPrice, poolInfo.mintA.decimals, poolInfo.mintB.decimals),
+          tickSpacing: poolInfo.config.tickSpacing,
           priceLower,
           priceUpper,
           currentPrice,
@@ -108,13 +155,21 @@ export async function fetchRaydiumPositions(walletAddress: string): Promise<Rayd
 /**
  * Convert tick to price
  */
-function tickToPrice(tick: number, decimalsA: number, decimalsB: number): number {
+export function tickToPrice(tick: number, decimalsA: number, decimalsB: number): number {
   // Raydium uses same tick math as Orca
   // price = 1.0001^tick * 10^(decimalsA - decimalsB)
   const decimalAdjustment = Math.pow(10, decimalsA - decimalsB);
   return Math.pow(1.0001, tick) * decimalAdjustment;
 }
 
+/**
+ * Convert price to the tick it falls in (inverse of tickToPrice)
+ */
+function priceToTick(price: number, decimalsA: number, decimalsB: number): number {
+  if (price <= 0) return 0;
+  return Math.floor(Math.log(price / Math.pow(10, decimalsA - decimalsB)) / Math.log(1.0001));
+}
+
 /**
  * Calculate token amounts from liquidity using concentrated liquidity math
  * 
@@ -217,6 +272,8 @@ export async function fetchRaydiumPosition(
       liquidity: positionData.liquidity.toString(),
       tickLower: positionData.tickLower,
       tickUpper: positionData.tickUpper,
+      tickCurrent: priceToTick(currentPrice, poolInfo.mintA.decimals, poolInfo.mintB.decimals),
+      tickSpacing: poolInfo.config.tickSpacing,
       priceLower,
       priceUpper,
       currentPrice,
@@ -231,3 +288,111 @@ export async function fetchRaydiumPosition(
     return null;
   }
 }
+
+async function loadPositionAccount(positionMint: string) {
+  const connection = getRaydiumConnection();
+  const { publicKey: positionPda } = getPdaPersonalPositionAddress(RAYDIUM_CLMM_PROGRAM_ID, new PublicKey(positionMint));
+  const positionAccount = await connection.getAccountInfo(positionPda);
+  if (!positionAccount) throw new Error(`Position not found: ${positionMint}`);
+  return PositionInfoLayout.decode(positionAccount.data);
+}
+
+async function loadPoolAccount(poolId: PublicKey) {
+  const connection = getRaydiumConnection();
+  const poolAccount = await connection.getAccountInfo(poolId);
+  if (!poolAccount) throw new Error(`Pool not found: ${poolId.toBase58()}`);
+  return PoolInfoLayout.decode(poolAccount.data);
+}
+
+function toPoolState(poolId: PublicKey, pool: ReturnType<typeof PoolInfoLayout.decode>): RaydiumPoolState {
+  return {
+    poolAddress: poolId.toBase58(),
+    mintA: pool.mintA.toBase58(),
+    mintB: pool.mintB.toBase58(),
+    decimalsA: pool.mintDecimalsA,
+    decimalsB: pool.mintDecimalsB,
+    tickSpacing: pool.tickSpacing,
+    tickCurrent: pool.tickCurrent,
+    currentPrice: SqrtPriceMath.sqrtPriceX64ToPrice(pool.sqrtPriceX64, pool.mintDecimalsA, pool.mintDecimalsB).toNumber(),
+  };
+}
+
+/**
+ * Read a CLMM pool's current tick and price straight from RPC
+ */
+export async function fetchRaydiumPoolState(poolAddress: string): Promise<RaydiumPoolState> {
+  const poolId = new PublicKey(poolAddress);
+  return toPoolState(poolId, await loadPoolAccount(poolId));
+}
+
+/**
+ * Read a position's range and the principal it would return if withdrawn
+ * now. Like the fee quote below, this works for any owner.
+ */
+export async function fetchRaydiumPositionState(positionMint: string): Promise<RaydiumPositionState> {
+  const position = await loadPositionAccount(positionMint);
+  const poolAccount = await loadPoolAccount(position.poolId);
+  const pool = toPoolState(position.poolId, poolAccount);
+
+  const { amountA, amountB } = LiquidityMath.getAmountsFromLiquidity(
+    poolAccount.sqrtPriceX64,
+    SqrtPriceMath.getSqrtPriceX64FromTick(position.tickLower),
+    SqrtPriceMath.getSqrtPriceX64FromTick(position.tickUpper),
+    position.liquidity,
+    false,
+  );
+
+  return {
+    positionMint,
+    pool,
+    liquidity: position.liquidity,
+    tickLower: position.tickLower,
+    tickUpper: position.tickUpper,
+    priceLower: tickToPrice(position.tickLower, pool.decimalsA, pool.decimalsB),
+    priceUpper: tickToPrice(position.tickUpper, pool.decimalsA, pool.decimalsB),
+    inRange: pool.tickCurrent >= position.tickLower && pool.tickCurrent < position.tickUpper,
+    tokenA: { mint: pool.mintA, amount: Number(amountA.toString()) / 10 ** pool.decimalsA },
+    tokenB: { mint: pool.mintB, amount: Number(amountB.toString()) / 10 ** pool.decimalsB },
+    baseUnits: { tokenA: amountA, tokenB: amountB },
+  };
+}
+
+/**
+ * Quote the fees a claim would collect right now (owed plus accrued since
+ * the last on-chain update), in UI units. Reads the position, pool and tick
+ * arrays straight from RPC, so the wallet doesn't need to be the SDK owner.
+ */
+export async function quoteRaydiumClaimableFees(
+  positionMint: string,
+): Promise<{ poolAddress: string; tokenA: TokenFlow; tokenB: TokenFlow; baseUnits: { tokenA: BN; tokenB: BN } }> {
+  const connection = getRaydiumConnection();
+
+  const position = await loadPositionAccount(positionMint);
+  const pool = await loadPoolAccount(position.poolId);
+
+  const tickArrayAddresses = [position.tickLower, position.tickUpper].map(tick =>
+    TickUtils.getTickArrayAddressByTick(RAYDIUM_CLMM_PROGRAM_ID, position.poolId, tick, pool.tickSpacing),
+  );
+  const tickArrayAccounts = await connection.getMultipleAccountsInfo(tickArrayAddresses);
+  const [tickLower, tickUpper] = [position.tickLower, position.tickUpper].map((tick, i) => {
+    const account = tickArrayAccounts[i];
+    if (!account) throw new Error(`Tick array for tick ${tick} not found`);
+    const tickArray = TickArrayLayout.decode(account.data);
+    return tickArray.ticks[TickUtils.getTickOffsetInArray(tick, pool.tickSpacing)];
+  });
+
+  const { tokenFeeAmountA, tokenFeeAmountB } = PositionUtils.GetPositionFeesV2(pool, position, tickLower, tickUpper);
+
+  return {
+    poolAddress: position.poolId.toBase58(),
+    tokenA: {
+      mint: pool.mintA.toBase58(),
+      amount: Number(tokenFeeAmountA.toString()) / 10 ** pool.mintDecimalsA,
+    },
+    tokenB: {
+      mint: pool.mintB.toBase58(),
+      amount: Number(tokenFeeAmountB.toString()) / 10 ** pool.mintDecimalsB,
+    },
+    baseUnits: { tokenA: tokenFeeAmountA, tokenB: tokenFeeAmountB },
+  };
+}
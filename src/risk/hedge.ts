@@ -0,0 +1,237 @@
+/**
+ * Hedge Suggestions
+ *
+ * LP positions are long the volatile side and short gamma: as a token rises
+ * the position sells it, as it falls the position buys more. This computes
+ * each position's delta and gamma per volatile token (see il-calculator),
+ * sums them into wallet delta, and sizes hedges that flatten it:
+ * - short: short-equivalent amount (perp or borrow-and-sell)
+ * - stable-rebalance: swap that amount into a stablecoin
+ *
+ * Both hedges are static, so negative gamma makes them drift; the rehedge
+ * band says how far the price can move before the hedge is 20% off.
+ */
+
+import { calculatePositionGreeks } from '../utils/il-calculator.js';
+import { getTokenPrices } from '../utils/prices.js';
+import { STABLECOINS } from './index.js';
+import {
+  getPortfolioPositions,
+  positionAmountsAt,
+  toRangePosition,
+  IL_MOVES_PERCENT,
+  type PortfolioDex,
+  type PortfolioPosition,
+} from './portfolio.js';
+
+// ============ Types ============
+
+export interface PositionTokenGreeks {
+  dex: PortfolioDex;
+  positionId: string;
+  pair: string;
+  inRange: boolean;
+  delta: number; // Token units
+  deltaUsd: number;
+  gammaPer1Pct: number; // Change in delta (token units) for a +1% move
+  gammaUsdPer1Pct: number;
+}
+
+export interface HedgeWhatIf {
+  movePercent: number;
+  lpValueChangeUsd: number;
+  hedgePnlUsd: number;
+  netHedgedUsd: number;
+  deltaAfter: number; // LP delta after the move, token units
+  residualDeltaUsd: number; // LP delta after the move minus the hedge, at the new price
+}
+
+export interface HedgeSuggestion {
+  type: 'short' | 'stable-rebalance';
+  amount: number; // Token units
+  notionalUsd: number;
+  description: string;
+}
+
+export interface TokenHedgePlan {
+  mint: string;
+  symbol: string;
+  priceUsd: number;
+  delta: number;
+  deltaUsd: number;
+  gammaPer1Pct: number;
+  gammaUsdPer1Pct: number;
+  rehedgeBandPercent: number | null; // Move that drifts the hedge by 20%; null when gamma is ~0
+  positions: PositionTokenGreeks[];
+  suggestions: HedgeSuggestion[];
+  whatIf: HedgeWhatIf[];
+}
+
+export interface HedgeReport {
+  walletAddress: string;
+  positionCount: number;
+  totalDeltaUsd: number; // Sum over volatile tokens
+  tokens: TokenHedgePlan[];
+  notes: string[];
+  assessedAt: string;
+}
+
+// ============ Constants ============
+
+const REHEDGE_DRIFT = 0.2;
+const MIN_HEDGE_USD = 10;
+
+function round(n: number, digits = 2): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+// ============ Report ============
+
+/**
+ * Build hedge plans from normalized positions and USD prices (pure)
+ */
+export function buildHedgeReport(
+  walletAddress: string,
+  positions: PortfolioPosition[],
+  prices: Map<string, number>,
+): HedgeReport {
+  const priceOf = (mint: string) => prices.get(mint) || 0;
+  const notes: string[] = [];
+
+  const greeks = positions.map(pos => calculatePositionGreeks(toRangePosition(pos)));
+
+  // Volatile tokens held across positions
+  const volatile = new Map<string, string>();
+  for (const pos of positions) {
+    for (const token of [pos.tokenA, pos.tokenB]) {
+      if (!STABLECOINS.has(token.symbol.toUpperCase())) volatile.set(token.mint, token.symbol);
+    }
+  }
+
+  const tokens: TokenHedgePlan[] = [];
+  for (const [mint, symbol] of volatile) {
+    const priceUsd = priceOf(mint);
+    if (!(priceUsd > 0)) {
+      notes.push(`No USD price for ${symbol}; skipped`);
+      continue;
+    }
+
+    const perPosition: PositionTokenGreeks[] = [];
+    positions.forEach((pos, i) => {
+      const isA = pos.tokenA.mint === mint;
+      if (!isA && pos.tokenB.mint !== mint) return;
+      const delta = isA ? greeks[i].deltaA : greeks[i].deltaB;
+      const gamma = isA ? greeks[i].gammaA : greeks[i].gammaB;
+      perPosition.push({
+        dex: pos.dex,
+        positionId: pos.positionId,
+        pair: pos.pair,
+        inRange: pos.inRange,
+        delta: round(delta, 6),
+        deltaUsd: round(delta * priceUsd),
+        gammaPer1Pct: round(gamma, 6),
+        gammaUsdPer1Pct: round(gamma * priceUsd),
+      });
+    });
+
+    const delta = perPosition.reduce((sum, p) => sum + p.delta, 0);
+    const gamma = perPosition.reduce((sum, p) => sum + p.gammaPer1Pct, 0);
+    const deltaUsd = delta * priceUsd;
+
+    const suggestions: HedgeSuggestion[] = [];
+    if (deltaUsd >= MIN_HEDGE_USD) {
+      suggestions.push({
+        type: 'short',
+        amount: round(delta, 6),
+        notionalUsd: round(deltaUsd),
+        description: `Short ${round(delta, 4)} ${symbol} (~$${round(deltaUsd)}) via perp or borrow-and-sell to flatten LP delta`,
+      });
+      suggestions.push({
+        type: 'stable-rebalance',
+        amount: round(delta, 6),
+        notionalUsd: round(deltaUsd),
+        description: `Swap ${round(delta, 4)} ${symbol} to USDC from wallet balance or a partial withdrawal`,
+      });
+    }
+
+    // Static hedge sized at today's delta, priced through each move
+    const whatIf: HedgeWhatIf[] = IL_MOVES_PERCENT.map(movePercent => {
+      const move = 1 + movePercent / 100;
+      let lpChange = 0;
+      let deltaAfter = 0;
+      for (const pos of positions) {
+        const isA = pos.tokenA.mint === mint;
+        if (!isA && pos.tokenB.mint !== mint) continue;
+
+        const pA = priceOf(pos.tokenA.mint);
+        const pB = priceOf(pos.tokenB.mint);
+        const pA1 = isA ? pA * move : pA;
+        const pB1 = isA ? pB : pB * move;
+        const before = positionAmountsAt(pos, 1);
+        // Pool price is B per A
+        const after = positionAmountsAt(pos, isA ? move : 1 / move);
+        lpChange += after.a * pA1 + after.b * pB1 - (before.a * pA + before.b * pB);
+        deltaAfter += isA ? after.a : after.b;
+      }
+      const hedgePnl = -delta * priceUsd * (move - 1);
+      return {
+        movePercent,
+        lpValueChangeUsd: round(lpChange),
+        hedgePnlUsd: round(hedgePnl),
+        netHedgedUsd: round(lpChange + hedgePnl),
+        deltaAfter: round(deltaAfter, 6),
+        residualDeltaUsd: round((deltaAfter - delta) * priceUsd * move),
+      };
+    });
+
+    tokens.push({
+      mint,
+      symbol,
+      priceUsd,
+      delta: round(delta, 6),
+      deltaUsd: round(deltaUsd),
+      gammaPer1Pct: round(gamma, 6),
+      gammaUsdPer1Pct: round(gamma * priceUsd),
+      rehedgeBandPercent: Math.abs(gamma) > 1e-12 && delta > 0
+        ? round((REHEDGE_DRIFT * delta) / Math.abs(gamma), 1)
+        : null,
+      positions: perPosition,
+      suggestions,
+      whatIf,
+    });
+  }
+
+  tokens.sort((a, b) => b.deltaUsd - a.deltaUsd);
+
+  if (positions.some(p => !(p.priceLower > 0 && p.priceUpper > p.priceLower))) {
+    notes.push('Positions without a known range are modeled as full range');
+  }
+  if (positions.some(p => [p.tokenA, p.tokenB].every(t => volatile.has(t.mint)))) {
+    notes.push('Volatile/volatile pairs carry delta in both tokens; hedge each leg separately');
+  }
+
+  return {
+    walletAddress,
+    positionCount: positions.length,
+    totalDeltaUsd: round(tokens.reduce((sum, t) => sum + t.deltaUsd, 0)),
+    tokens,
+    notes,
+    assessedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Delta/gamma and hedge sizing for a wallet (REST, MCP and bot entry point)
+ */
+export async function getHedgeReport(walletAddress: string): Promise<HedgeReport> {
+  const positions = await getPortfolioPositions(walletAddress);
+  const mints = [...new Set(positions.flatMap(p => [p.tokenA.mint, p.tokenB.mint]).filter(Boolean))];
+  const prices = mints.length > 0
+    ? await getTokenPrices(mints).catch(() => new Map<string, number>())
+    : new Map<string, number>();
+
+  const report = buildHedgeReport(walletAddress, positions, prices);
+  console.log(`[Risk] Hedge ${walletAddress.slice(0, 8)}...: ${report.tokens.length} volatile tokens, delta $${report.totalDeltaUsd}`);
+  return report;
+}
@@ -10,18 +10,21 @@
  * - Risk-Adjusted Return: Sharpe-like ratio (APR / volatility)
  */
 
-import { Redis } from '@upstash/redis';
+import { getStore } from '../storage/index.js';
+import { config } from '../config/index.js';
+import { getStoredOptimization, type BacktestShape, type OptimizerCandidate } from '../backtest/index.js';
 
 // ============ Types ============
 
 export interface PoolRiskAssessment {
   poolAddress: string;
   poolName: string;
+  dex: 'meteora' | 'raydium';
   
-  // From Meteora
+  // From the pool's DEX
   apr: number;
   tvl: number;
-  binStep: number;
+  binStep: number;  // Price step in bps (tick spacing for Raydium CLMM)
   volume24h: number;
   
   // Risk metrics (1-10 scale, 1=safest)
@@ -36,9 +39,17 @@ export interface PoolRiskAssessment {
   // Risk-adjusted metrics
   sharpeRatio: number;  // APR / volatility (annualized)
   
-  // Recommendations
-  recommendedBins: number;
+  // Recommendations (from the optimizer when the pool has a stored run)
+  recommendedBins: number;  // Bins, or tick-spacing steps for Raydium CLMM
   recommendedStrategy: 'spot' | 'curve' | 'bid-ask';
+  recommendationSource: 'heuristic' | 'backtest';
+  optimizer?: {
+    series: string;
+    periodDays: number;
+    recommended: OptimizerCandidate;
+    frontSize: number;
+    optimizedAt: string;
+  };
   
   // Warnings
   warnings: string[];
@@ -96,6 +107,14 @@ const TOKEN_MINTS: Record<string, string> = {
 // Stablecoins (low volatility)
 const STABLECOINS = new Set(['USDC', 'USDT', 'PYUSD', 'DAI', 'USDH']);
 
+// Stablecoin mints, for pricing: any token can call itself USDC
+const STABLECOIN_MINTS = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+  '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo', // PYUSD
+  'USDH1SM1ojwWUga67PGrgFWUHibbjqMvuMaDkRJTgkX', // USDH
+]);
+
 // Risk thresholds
 const RISK_THRESHOLDS = {
   LOW_VOL_BPS: 100,       // <1% daily vol = low risk
@@ -112,22 +131,6 @@ const RISK_THRESHOLDS = {
   HEALTH_MEDIUM: 75,      // <75 = medium
 };
 
-// ============ Redis Client ============
-
-let redis: Redis | null = null;
-
-function getRedis(): Redis | null {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) return null;
-  
-  redis = new Redis({ url, token });
-  return redis;
-}
-
 // ============ Volatility Data ============
 
 /**
@@ -135,7 +138,7 @@ function getRedis(): Redis | null {
  * Uses Birdeye/Jupiter price API for historical data
  */
 export async function getTokenVolatility(symbol: string): Promise<TokenVolatility | null> {
-  const client = getRedis();
+  const client = getStore();
   const cacheKey = `risk:volatility:${symbol}`;
   
   // Check cache (5 min TTL)
@@ -167,7 +170,7 @@ export async function getTokenVolatility(symbol: string): Promise<TokenVolatilit
     const mint = TOKEN_MINTS[symbol];
     if (!mint) return null;
     
-    const response = await fetch(`https://api.jup.ag/price/v2?ids=${mint}`);
+    const response = await fetch(`${config.jupiter.priceUrl}?ids=${mint}`);
     
     // If API fails or requires auth, return default volatility for known tokens
     if (!response.ok) {
@@ -335,6 +338,12 @@ function recommendStrategy(
   return 'curve'; // Default: balanced curve
 }
 
+const SHAPE_TO_STRATEGY: Record<BacktestShape, PoolRiskAssessment['recommendedStrategy']> = {
+  spot: 'spot',
+  curve: 'curve',
+  bidask: 'bid-ask',
+};
+
 /**
  * Assess risk for a pool
  */
@@ -346,7 +355,8 @@ export async function assessPoolRisk(
   binStep: number,
   volume24h: number,
   tokenXSymbol: string,
-  tokenYSymbol: string
+  tokenYSymbol: string,
+  dex: 'meteora' | 'raydium' = 'meteora'
 ): Promise<PoolRiskAssessment> {
   const warnings: string[] = [];
   
@@ -372,9 +382,23 @@ export async function assessPoolRisk(
   const annualizedVol = pairVolatility * Math.sqrt(365) / 100; // Convert bps to %
   const sharpeRatio = annualizedVol > 0 ? apr / annualizedVol : 0;
   
-  // Recommendations
-  const recommendedBins = recommendBins(pairVolatility, binStep);
-  const recommendedStrategy = recommendStrategy(pairVolatility, isStablePair);
+  // Recommendations: backtested parameters beat rules of thumb
+  let recommendedBins = recommendBins(pairVolatility, binStep);
+  let recommendedStrategy = recommendStrategy(pairVolatility, isStablePair);
+  let optimizer: PoolRiskAssessment['optimizer'];
+
+  const optimized = await getStoredOptimization(poolAddress).catch(() => null);
+  if (optimized) {
+    recommendedBins = optimized.recommended.totalBins;
+    recommendedStrategy = SHAPE_TO_STRATEGY[optimized.recommended.shape];
+    optimizer = {
+      series: optimized.series,
+      periodDays: optimized.period.days,
+      recommended: optimized.recommended,
+      frontSize: optimized.front.length,
+      optimizedAt: optimized.optimizedAt,
+    };
+  }
   
   // Generate warnings
   if (riskScore >= 8) {
@@ -396,6 +420,7 @@ export async function assessPoolRisk(
   return {
     poolAddress,
     poolName,
+    dex,
     apr,
     tvl,
     binStep,
@@ -408,6 +433,8 @@ export async function assessPoolRisk(
     sharpeRatio: Math.round(sharpeRatio * 100) / 100,
     recommendedBins,
     recommendedStrategy,
+    recommendationSource: optimizer ? 'backtest' : 'heuristic',
+    optimizer,
     warnings,
     assessedAt: new Date().toISOString(),
   };
@@ -516,10 +543,46 @@ export async function assessPositionRisk(
   };
 }
 
+/**
+ * Assess risk for a tick-based (Raydium CLMM) position.
+ * A tick is 1 bp, so ticks are grouped into tick-spacing steps, the CLMM
+ * analogue of bins, and scored like a DLMM position.
+ */
+export async function assessTickPositionRisk(params: {
+  positionAddress: string;
+  poolAddress: string;
+  poolName: string;
+  tickCurrent: number;
+  tickLower: number;
+  tickUpper: number;
+  tickSpacing: number;
+  outOfRangeSince?: string;
+  tokenXSymbol?: string;
+  tokenYSymbol?: string;
+}): Promise<PositionRiskAssessment> {
+  const spacing = Math.max(1, params.tickSpacing);
+  // The upper tick is exclusive, so the last step is the one below it
+  const lowerStep = Math.floor(params.tickLower / spacing);
+  const upperStep = Math.ceil(params.tickUpper / spacing) - 1;
+
+  return assessPositionRisk(
+    params.positionAddress,
+    params.poolAddress,
+    params.poolName,
+    Math.floor(params.tickCurrent / spacing),
+    lowerStep,
+    Math.max(lowerStep, upperStep),
+    params.outOfRangeSince,
+    params.tokenXSymbol,
+    params.tokenYSymbol
+  );
+}
+
 // ============ Exports ============
 
 export {
   TOKEN_MINTS,
   STABLECOINS,
+  STABLECOIN_MINTS,
   RISK_THRESHOLDS,
 };
@@ -0,0 +1,415 @@
+/**
+ * Portfolio Risk Report
+ *
+ * Wallet-level view across Meteora (DLMM and DAMM v2), Orca and Raydium positions:
+ * - Net token exposure and the largest directional (non-stable) bet
+ * - Concentration by pair and by DEX
+ * - IL sensitivity: LP vs HODL for ±5/10/25% moves in each token
+ * - Share of capital out of range
+ * - One 0-100 health score built from the above
+ *
+ * Positions are modeled as concentrated liquidity over their price range
+ * (full range when the range is unknown); DLMM bins are treated the same way.
+ */
+
+import { getUserPositions } from '../onboarding/index.js';
+import { getOrcaPositionsForWallet } from '../services/orca-service.js';
+import { fetchRaydiumPositions } from '../raydium/positions.js';
+import { getDammPositionsForWallet } from '../services/damm-service.js';
+import { getTokenPrices } from '../utils/prices.js';
+import { amountsAtPrice, type RangePosition } from '../utils/il-calculator.js';
+import { STABLECOINS } from './index.js';
+
+// ============ Types ============
+
+export type PortfolioDex = 'meteora' | 'orca' | 'raydium' | 'damm';
+
+export interface PortfolioToken {
+  mint: string;
+  symbol: string;
+  amount: number; // UI units
+}
+
+/** A position normalized across DEXes. Prices are token B per token A; 0 when unknown. */
+export interface PortfolioPosition {
+  dex: PortfolioDex;
+  positionId: string; // Position account (Meteora, DAMM) or position NFT mint (Orca, Raydium)
+  poolAddress: string;
+  pair: string;
+  tokenA: PortfolioToken;
+  tokenB: PortfolioToken;
+  priceLower: number;
+  priceUpper: number;
+  priceCurrent: number;
+  inRange: boolean;
+}
+
+export interface TokenExposure {
+  mint: string;
+  symbol: string;
+  amount: number;
+  valueUsd: number;
+  sharePercent: number;
+  stable: boolean;
+}
+
+export interface ConcentrationBucket {
+  key: string;
+  valueUsd: number;
+  sharePercent: number;
+  positions: number;
+}
+
+export interface IlScenario {
+  movePercent: number;
+  lpValueChangeUsd: number;
+  hodlValueChangeUsd: number;
+  ilUsd: number; // LP minus HODL; negative is a loss
+  ilPercentOfPortfolio: number;
+}
+
+export interface TokenIlSensitivity {
+  mint: string;
+  symbol: string;
+  exposureUsd: number;
+  scenarios: IlScenario[];
+}
+
+export interface PortfolioRiskReport {
+  walletAddress: string;
+  totalValueUsd: number;
+  positionCount: number;
+  positions: Array<{
+    dex: PortfolioDex;
+    positionId: string;
+    pair: string;
+    valueUsd: number;
+    sharePercent: number;
+    inRange: boolean;
+  }>;
+  exposure: TokenExposure[];
+  concentration: {
+    byPair: ConcentrationBucket[];
+    byDex: ConcentrationBucket[];
+    pairHhi: number; // Herfindahl index over pairs, 0-1 (1 = everything in one pair)
+  };
+  ilSensitivity: TokenIlSensitivity[];
+  outOfRange: {
+    valueUsd: number;
+    sharePercent: number;
+    positions: number;
+  };
+  healthScore: number; // 0-100 (100 = healthy)
+  healthPenalties: {
+    outOfRange: number;
+    concentration: number;
+    ilSensitivity: number;
+    directional: number;
+  };
+  warnings: string[];
+  unpricedMints: string[];
+  assessedAt: string;
+}
+
+// ============ Constants ============
+
+export const IL_MOVES_PERCENT = [-25, -10, -5, 5, 10, 25];
+
+// Max points each factor can take off the health score
+const PENALTY_WEIGHTS = {
+  OUT_OF_RANGE: 40,    // Scaled by share of capital out of range
+  CONCENTRATION: 20,   // Pair HHI above 0.25 (four equal pairs) scales up to this
+  IL_SENSITIVITY: 25,  // Worst IL at ±25%: 1% of the portfolio = 2.5 points
+  DIRECTIONAL: 15,     // Largest non-stable token above 50% of the portfolio
+};
+
+// ============ Position Model ============
+
+/**
+ * Token amounts a position would hold if the pool price were multiplied by
+ * priceFactor. Liquidity is fitted to the current amounts.
+ */
+export function positionAmountsAt(pos: PortfolioPosition, priceFactor: number): { a: number; b: number } {
+  const { amountA, amountB } = amountsAtPrice(toRangePosition(pos), pos.priceCurrent * priceFactor);
+  return { a: amountA, b: amountB };
+}
+
+export function toRangePosition(pos: PortfolioPosition): RangePosition {
+  return {
+    amountA: pos.tokenA.amount,
+    amountB: pos.tokenB.amount,
+    lowerPrice: pos.priceLower,
+    upperPrice: pos.priceUpper,
+    currentPrice: pos.priceCurrent,
+  };
+}
+
+function round(n: number, digits = 2): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function share(part: number, total: number): number {
+  return total > 0 ? round((part / total) * 100) : 0;
+}
+
+function isStable(symbol: string): boolean {
+  return STABLECOINS.has(symbol.toUpperCase());
+}
+
+function buckets(entries: Array<{ key: string; valueUsd: number }>, total: number): ConcentrationBucket[] {
+  const map = new Map<string, ConcentrationBucket>();
+  for (const { key, valueUsd } of entries) {
+    const b = map.get(key) || { key, valueUsd: 0, sharePercent: 0, positions: 0 };
+    b.valueUsd += valueUsd;
+    b.positions++;
+    map.set(key, b);
+  }
+  return [...map.values()]
+    .map(b => ({ ...b, valueUsd: round(b.valueUsd), sharePercent: share(b.valueUsd, total) }))
+    .sort((x, y) => y.valueUsd - x.valueUsd);
+}
+
+// ============ Report ============
+
+/**
+ * Build the report from normalized positions and USD prices (pure)
+ */
+export function buildPortfolioRiskReport(
+  walletAddress: string,
+  positions: PortfolioPosition[],
+  prices: Map<string, number>,
+): PortfolioRiskReport {
+  const priceOf = (mint: string) => prices.get(mint) || 0;
+  const valueOf = (pos: PortfolioPosition) =>
+    pos.tokenA.amount * priceOf(pos.tokenA.mint) + pos.tokenB.amount * priceOf(pos.tokenB.mint);
+
+  const values = positions.map(valueOf);
+  const total = values.reduce((sum, v) => sum + v, 0);
+
+  // Net exposure
+  const exposureMap = new Map<string, TokenExposure>();
+  for (const pos of positions) {
+    for (const token of [pos.tokenA, pos.tokenB]) {
+      const e = exposureMap.get(token.mint) || {
+        mint: token.mint, symbol: token.symbol, amount: 0, valueUsd: 0, sharePercent: 0, stable: isStable(token.symbol),
+      };
+      e.amount += token.amount;
+      e.valueUsd += token.amount * priceOf(token.mint);
+      exposureMap.set(token.mint, e);
+    }
+  }
+  const exposure = [...exposureMap.values()]
+    .map(e => ({ ...e, amount: round(e.amount, 6), valueUsd: round(e.valueUsd), sharePercent: share(e.valueUsd, total) }))
+    .sort((x, y) => y.valueUsd - x.valueUsd);
+
+  // Concentration
+  const byPair = buckets(positions.map((pos, i) => ({
+    // Same pair on different DEXes counts once, whichever token is A
+    key: [pos.tokenA.symbol, pos.tokenB.symbol].sort().join('-'),
+    valueUsd: values[i],
+  })), total);
+  const byDex = buckets(positions.map((pos, i) => ({ key: pos.dex, valueUsd: values[i] })), total);
+  const pairHhi = total > 0 ? round(byPair.reduce((sum, b) => sum + (b.valueUsd / total) ** 2, 0), 4) : 0;
+
+  // IL sensitivity per token
+  const ilSensitivity: TokenIlSensitivity[] = exposure
+    .filter(e => !e.stable && priceOf(e.mint) > 0)
+    .map(e => ({
+      mint: e.mint,
+      symbol: e.symbol,
+      exposureUsd: e.valueUsd,
+      scenarios: IL_MOVES_PERCENT.map(movePercent => {
+        const move = 1 + movePercent / 100;
+        let lpChange = 0;
+        let hodlChange = 0;
+        for (const pos of positions) {
+          const isA = pos.tokenA.mint === e.mint;
+          const isB = pos.tokenB.mint === e.mint;
+          if (!isA && !isB) continue;
+
+          const pA = priceOf(pos.tokenA.mint);
+          const pB = priceOf(pos.tokenB.mint);
+          const pA1 = isA ? pA * move : pA;
+          const pB1 = isB ? pB * move : pB;
+          // Pool price is B per A
+          const before = positionAmountsAt(pos, 1);
+          const after = positionAmountsAt(pos, pA1 / pA / (pB1 / pB) || 1);
+
+          const valueBefore = before.a * pA + before.b * pB;
+          lpChange += after.a * pA1 + after.b * pB1 - valueBefore;
+          hodlChange += before.a * pA1 + before.b * pB1 - valueBefore;
+        }
+        const ilUsd = lpChange - hodlChange;
+        return {
+          movePercent,
+          lpValueChangeUsd: round(lpChange),
+          hodlValueChangeUsd: round(hodlChange),
+          ilUsd: round(ilUsd),
+          ilPercentOfPortfolio: share(ilUsd, total),
+        };
+      }),
+    }));
+
+  // Out of range
+  const outOfRangeValue = positions.reduce((sum, pos, i) => sum + (pos.inRange ? 0 : values[i]), 0);
+  const outOfRangeShare = share(outOfRangeValue, total);
+
+  // Health score
+  const worstIlPercent = Math.max(0, ...ilSensitivity.flatMap(t => t.scenarios.map(s => -s.ilPercentOfPortfolio)));
+  const directional = exposure.find(e => !e.stable);
+  const penalties = {
+    outOfRange: round((outOfRangeShare / 100) * PENALTY_WEIGHTS.OUT_OF_RANGE, 1),
+    concentration: round(Math.max(0, (pairHhi - 0.25) / 0.75) * PENALTY_WEIGHTS.CONCENTRATION, 1),
+    ilSensitivity: round(Math.min(PENALTY_WEIGHTS.IL_SENSITIVITY, worstIlPercent * 2.5), 1),
+    directional: round(Math.max(0, ((directional?.sharePercent || 0) - 50) / 50) * PENALTY_WEIGHTS.DIRECTIONAL, 1),
+  };
+  const healthScore = positions.length === 0
+    ? 100
+    : Math.round(Math.max(0, 100 - Object.values(penalties).reduce((sum, p) => sum + p, 0)));
+
+  // Warnings
+  const warnings: string[] = [];
+  const outOfRangeCount = positions.filter(p => !p.inRange).length;
+  if (outOfRangeShare >= 25) {
+    warnings.push(`${outOfRangeShare}% of capital is out of range and not earning fees`);
+  }
+  if (byPair.length > 0 && byPair[0].sharePercent >= 50 && positions.length > 1) {
+    warnings.push(`${byPair[0].sharePercent}% of capital is in ${byPair[0].key}`);
+  }
+  if (byDex.length > 0 && byDex[0].sharePercent >= 80 && positions.length > 2) {
+    warnings.push(`${byDex[0].sharePercent}% of capital is on ${byDex[0].key}`);
+  }
+  if (directional && directional.sharePercent >= 60) {
+    warnings.push(`${directional.sharePercent}% net exposure to ${directional.symbol}`);
+  }
+  if (worstIlPercent >= 2) {
+    warnings.push(`A 25% move could cost ${round(worstIlPercent, 1)}% of the portfolio in IL vs holding`);
+  }
+
+  const unpricedMints = exposure.filter(e => !(priceOf(e.mint) > 0)).map(e => e.mint);
+  if (unpricedMints.length > 0) {
+    warnings.push(`No USD price for ${unpricedMints.length} token(s); their value is counted as $0`);
+  }
+
+  return {
+    walletAddress,
+    totalValueUsd: round(total),
+    positionCount: positions.length,
+    positions: positions
+      .map((pos, i) => ({
+        dex: pos.dex,
+        positionId: pos.positionId,
+        pair: pos.pair,
+        valueUsd: round(values[i]),
+        sharePercent: share(values[i], total),
+        inRange: pos.inRange,
+      }))
+      .sort((x, y) => y.valueUsd - x.valueUsd),
+    exposure,
+    concentration: { byPair, byDex, pairHhi },
+    ilSensitivity,
+    outOfRange: {
+      valueUsd: round(outOfRangeValue),
+      sharePercent: outOfRangeShare,
+      positions: outOfRangeCount,
+    },
+    healthScore,
+    healthPenalties: penalties,
+    warnings,
+    unpricedMints,
+    assessedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fetch and normalize a wallet's positions on every DEX
+ */
+export async function getPortfolioPositions(walletAddress: string): Promise<PortfolioPosition[]> {
+  const [meteoraPositions, orcaPositions, raydiumPositions, dammPositions] = await Promise.all([
+    getUserPositions(walletAddress).catch(() => []),
+    getOrcaPositionsForWallet(walletAddress).catch(() => []),
+    fetchRaydiumPositions(walletAddress).catch(() => []),
+    getDammPositionsForWallet(walletAddress).catch(() => []),
+  ]);
+
+  const positions: PortfolioPosition[] = [];
+
+  for (const pos of meteoraPositions) {
+    positions.push({
+      dex: 'meteora',
+      positionId: pos.address,
+      poolAddress: pos.poolAddress,
+      pair: pos.pool,
+      tokenA: { mint: pos.tokenXMint, symbol: pos.amounts.tokenX.symbol, amount: pos.amounts.tokenX.amount || 0 },
+      tokenB: { mint: pos.tokenYMint, symbol: pos.amounts.tokenY.symbol, amount: pos.amounts.tokenY.amount || 0 },
+      priceLower: pos.priceRange.lower,
+      priceUpper: pos.priceRange.upper,
+      priceCurrent: pos.priceRange.current,
+      inRange: pos.inRange,
+    });
+  }
+
+  for (const pos of orcaPositions) {
+    positions.push({
+      dex: 'orca',
+      positionId: pos.mintAddress,
+      poolAddress: pos.poolAddress,
+      pair: pos.poolName,
+      tokenA: { mint: pos.tokenA.mint, symbol: pos.tokenA.symbol, amount: parseFloat(pos.tokenA.amount || '0') },
+      tokenB: { mint: pos.tokenB.mint, symbol: pos.tokenB.symbol, amount: parseFloat(pos.tokenB.amount || '0') },
+      priceLower: pos.priceLower,
+      priceUpper: pos.priceUpper,
+      priceCurrent: pos.priceCurrent,
+      inRange: pos.inRange,
+    });
+  }
+
+  for (const pos of raydiumPositions) {
+    positions.push({
+      dex: 'raydium',
+      positionId: pos.positionMint,
+      poolAddress: pos.poolAddress,
+      pair: pos.poolName,
+      tokenA: { mint: pos.tokenA.mint, symbol: pos.tokenA.symbol, amount: pos.amountA },
+      tokenB: { mint: pos.tokenB.mint, symbol: pos.tokenB.symbol, amount: pos.amountB },
+      priceLower: pos.priceLower,
+      priceUpper: pos.priceUpper,
+      priceCurrent: pos.currentPrice,
+      inRange: pos.inRange,
+    });
+  }
+
+  // DAMM v2 positions span the pool's price bounds
+  for (const pos of dammPositions) {
+    positions.push({
+      dex: 'damm',
+      positionId: pos.address,
+      poolAddress: pos.poolAddress,
+      pair: pos.poolName,
+      tokenA: { mint: pos.tokenA.mint, symbol: pos.tokenA.symbol, amount: pos.tokenA.amount },
+      tokenB: { mint: pos.tokenB.mint, symbol: pos.tokenB.symbol, amount: pos.tokenB.amount },
+      priceLower: pos.priceMin,
+      priceUpper: pos.priceMax,
+      priceCurrent: pos.currentPrice,
+      inRange: pos.inRange,
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Portfolio risk report for a wallet (REST, MCP and bot entry point)
+ */
+export async function getPortfolioRiskReport(walletAddress: string): Promise<PortfolioRiskReport> {
+  const positions = await getPortfolioPositions(walletAddress);
+  const mints = [...new Set(positions.flatMap(p => [p.tokenA.mint, p.tokenB.mint]).filter(Boolean))];
+  const prices = mints.length > 0
+    ? await getTokenPrices(mints).catch(() => new Map<string, number>())
+    : new Map<string, number>();
+
+  const report = buildPortfolioRiskReport(walletAddress, positions, prices);
+  console.log(`[Risk] Portfolio ${walletAddress.slice(0, 8)}...: ${report.positionCount} positions, $${report.totalValueUsd}, health ${report.healthScore}`);
+  return report;
+}
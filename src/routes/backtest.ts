@@ -0,0 +1,136 @@
+/**
+ * Backtest Routes - Replay DLMM strategies against historical series
+ */
+import { Hono } from 'hono';
+import {
+  runBacktest,
+  listSeries,
+  optimizeStrategy,
+  getStoredOptimization,
+  STRATEGY_BIN_OFFSETS,
+  type BacktestRequest,
+  type OptimizeRequest,
+} from '../backtest/index.js';
+import { config } from '../config/index.js';
+import { getPrincipal } from '../middleware/auth.js';
+
+const app = new Hono();
+
+const STRATEGIES = Object.keys(STRATEGY_BIN_OFFSETS);
+const SHAPES = ['spot', 'curve', 'bidask'];
+const TRIGGERS = ['none', 'out-of-range', 'edge'];
+
+/**
+ * GET /backtest/series
+ * List series files available in the data dir.
+ */
+app.get('/series', async (c) => {
+  const series = await listSeries();
+  return c.json({ dataDir: config.backtest.dataDir, series });
+});
+
+/**
+ * POST /backtest
+ * {
+ *   series: "sol-usdc-1h.csv" | points: [{ timestamp, price, volumeUsd }],
+ *   poolAddress?, binStep?, baseFeeBps?, tvlUsd?,
+ *   amountUsd?: 1000, strategy?: "tight|balanced|wide", binOffset?, shape?: "spot|curve|bidask",
+ *   rebalance?: { trigger: "none|out-of-range|edge", delayMinutes?, edgeBins?, cooldownMinutes? },
+ *   tipSpeed?, swapCostBps?, solPriceUsd?
+ * }
+ */
+app.post('/', async (c) => {
+  let body: BacktestRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (!body.series && !body.points?.length) {
+    return c.json({
+      error: 'Provide a series file name or inline points',
+      example: {
+        series: 'sol-usdc-1h.csv',
+        poolAddress: 'meteora-pool-address',
+        amountUsd: 1000,
+        strategy: 'balanced',
+        shape: 'spot',
+        rebalance: { trigger: 'out-of-range', delayMinutes: 30 },
+      },
+    }, 400);
+  }
+  if (body.strategy && !STRATEGIES.includes(body.strategy)) {
+    return c.json({ error: `Unknown strategy. Use one of: ${STRATEGIES.join(', ')}` }, 400);
+  }
+  if (body.shape && !SHAPES.includes(body.shape)) {
+    return c.json({ error: `Unknown shape. Use one of: ${SHAPES.join(', ')}` }, 400);
+  }
+  if (body.rebalance && !TRIGGERS.includes(body.rebalance.trigger)) {
+    return c.json({ error: `Unknown rebalance trigger. Use one of: ${TRIGGERS.join(', ')}` }, 400);
+  }
+
+  try {
+    const result = await runBacktest(body);
+    return c.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[Backtest] Error:', error.message);
+    return c.json({ error: 'Backtest failed', details: error.message }, 400);
+  }
+});
+
+/**
+ * POST /backtest/optimize
+ * {
+ *   poolAddress?: uses <poolAddress>.csv/.json when series is omitted,
+ *   series? | points?, binStep?, baseFeeBps?, tvlUsd?, amountUsd?,
+ *   grid?: { binOffsets?: [3, 8, 25], shapes?: ["spot"], thresholds?: [{ trigger: "edge", edgeFraction: 0.2 }] },
+ *   save?: true (admin key only; stores a series-file run for the risk engine)
+ * }
+ * Returns the Pareto front of fee APR vs IL vs rebalance cost.
+ */
+app.post('/optimize', async (c) => {
+  let body: OptimizeRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (!body.poolAddress && !body.series && !body.points?.length) {
+    return c.json({
+      error: 'Provide a poolAddress, series file name or inline points',
+      example: { poolAddress: 'meteora-pool-address', amountUsd: 1000 },
+    }, 400);
+  }
+  if (body.grid?.shapes?.some(s => !SHAPES.includes(s))) {
+    return c.json({ error: `Unknown shape. Use one of: ${SHAPES.join(', ')}` }, 400);
+  }
+  if (body.grid?.thresholds?.some(t => !TRIGGERS.includes(t.trigger))) {
+    return c.json({ error: `Unknown rebalance trigger. Use one of: ${TRIGGERS.join(', ')}` }, 400);
+  }
+  // Saved results drive /pools/top recommendations for every user
+  if (body.save && !getPrincipal(c)?.admin) {
+    return c.json({ error: 'Forbidden', details: 'Saving an optimization requires the admin key' }, 403);
+  }
+
+  try {
+    const result = await optimizeStrategy(body);
+    return c.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[Backtest] Optimize error:', error.message);
+    return c.json({ error: 'Optimization failed', details: error.message }, 400);
+  }
+});
+
+/**
+ * GET /backtest/optimize/:poolAddress
+ * Last stored optimization for a pool.
+ */
+app.get('/optimize/:poolAddress', async (c) => {
+  const result = await getStoredOptimization(c.req.param('poolAddress'));
+  if (!result) return c.json({ error: 'No optimization stored for this pool' }, 404);
+  return c.json({ success: true, ...result });
+});
+
+export default app;
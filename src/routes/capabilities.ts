@@ -43,7 +43,7 @@ app.get('/', (c) => {
           'DLMM concentrated liquidity',
           'Atomic swap-to-LP via Jito bundles',
           'Position monitoring with alerts',
-          'Auto-rebalance recommendations',
+          'Auto-rebalance with per-user guardrails',
           'Fee claiming and compounding',
         ],
       },
@@ -99,6 +99,27 @@ app.get('/', (c) => {
         botCommand: '/portfolio',
         status: 'live',
       },
+      {
+        name: 'Portfolio Risk',
+        description: 'Net token exposure, pair and DEX concentration, IL sensitivity to ±5/10/25% moves and out-of-range share, rolled into one health score',
+        endpoint: 'GET /risk/portfolio/:wallet',
+        botCommand: '/risk',
+        status: 'live',
+      },
+      {
+        name: 'Hedge Suggestions',
+        description: 'Delta and gamma of LP positions per volatile token, with short or stablecoin hedge sizes and a what-if table for price moves',
+        endpoint: 'GET /risk/hedge/:wallet',
+        botCommand: '/hedge',
+        status: 'live',
+      },
+      {
+        name: 'Tax Export',
+        description: 'LP activity with cost basis, proceeds, fee income and protocol fees as CSV, Koinly or CoinTracker import',
+        endpoint: 'GET /portfolio/:wallet/export',
+        botCommand: '/export',
+        status: 'live',
+      },
       {
         name: 'Pool Discovery',
         description: 'Find best yield pools across Meteora, Orca, Raydium',
@@ -106,6 +127,19 @@ app.get('/', (c) => {
         botCommand: '/pools',
         status: 'live',
       },
+      {
+        name: 'Strategy Backtester',
+        description: 'Replay tight/balanced/wide DLMM ranges and rebalance policies against historical price and volume',
+        endpoint: 'POST /backtest',
+        botCommand: '/backtest',
+        status: 'live',
+      },
+      {
+        name: 'Strategy Optimizer',
+        description: 'Pareto front of bin width, shape and rebalance threshold (fee APR vs IL vs rebalance cost); feeds pool risk recommendations',
+        endpoint: 'POST /backtest/optimize',
+        status: 'live',
+      },
       {
         name: 'IL Calculator',
         description: 'Impermanent loss estimation for positions',
@@ -116,10 +150,17 @@ app.get('/', (c) => {
       // Automation
       {
         name: 'Auto-Rebalance',
-        description: 'Analyzes positions and recommends rebalancing when out of range',
+        description: 'Rebalances out-of-range positions when allowed, within per-user limits, with dry-run mode and an audit trail',
+        endpoint: 'GET/POST /user/:userId/auto-rebalance',
         botCommand: '/rebalance',
         status: 'live',
       },
+      {
+        name: 'Auto-Compound',
+        description: 'Claims fees and adds them back to the same Meteora, Orca or Raydium position on an interval or once fees beat the tx cost',
+        endpoint: 'POST /fees/compound/policies',
+        status: 'live',
+      },
       {
         name: 'DCA into LP',
         description: 'Dollar-cost-average into LP positions over time',
@@ -43,6 +43,7 @@ app.get('/', (c) => c.json({
     'POST /wallet/create                  -> returns walletId',
     'GET  /wallet/:walletId               -> wallet info',
     'GET  /wallet/:walletId/balance       -> balance',
+    'GET|PUT /wallet/:walletId/submission-policy { mode, recovery, priorityUrgency, maxLegRetries } -> Jito-only or RPC fallback, partial-state recovery',
     'POST /lp/open    { walletId, ... }   -> open position',
     'POST /lp/close   { walletId, ... }   -> close position',
     'POST /lp/execute { walletId, ... }   -> full pipeline',
@@ -50,12 +51,18 @@ app.get('/', (c) => c.json({
     'POST /lp/withdraw/atomic { ..., convertToSol } -> atomic withdrawal via Jito',
     'POST /fees/claim { walletAddress, poolAddress, positionAddress } -> claim fees only',
     'POST /fees/compound { ... } -> claim + instructions to re-add',
+    'POST /fees/compound/policies { walletId, positionAddress, poolAddress, dex, trigger } -> auto-compound a position',
     'POST /lp/rebalance { walletId, poolAddress, positionAddress, ... } -> prepare rebalance',
     'POST /lp/rebalance/execute { ... }   -> execute atomic rebalance',
+    'Header Idempotency-Key on /lp/atomic, /lp/execute, /lp/withdraw/execute, /lp/rebalance/execute, /swap -> retries replay the original result (per API key and wallet; 422 if reused with other params)',
+    'POST /lp/execute?async=true { ..., notify?: { webhookUrl, chatId } } -> 202 { operationId } (also /lp/atomic, /lp/rebalance/execute)',
+    'GET  /operations/:id                 -> bundle state, tx signatures, tip paid, RPC fallback legs, result',
     'GET  /positions/:walletId            -> list positions (with token names & prices)',
     'GET  /positions?address=...          -> list positions by address',
     'GET  /positions/:walletId/risk       -> risk assessment for all positions',
     'GET  /risk/volatility/:symbol        -> token volatility data',
+    'GET  /risk/portfolio/:walletId       -> wallet-level exposure, concentration, IL sensitivity',
+    'GET  /risk/hedge/:walletId           -> delta/gamma per token and hedge sizes',
     'POST /chat       { message, walletId? }',
     '--- Monitoring ---',
     'POST /monitor/add                    -> add position to monitor',
@@ -67,6 +74,8 @@ app.get('/', (c) => c.json({
     'POST /monitor/webhook/test           -> send test alert to webhook',
     'DELETE /monitor/webhook              -> remove webhook',
     'POST /monitor/check                  -> manually trigger check',
+    'GET  /worker/queues                  -> job queue depth, counters, dead letters',
+    'POST /worker/queues/:q/dead/:id/retry -> requeue a dead-lettered job',
     '--- Oracle ---',
     'GET  /oracle/price?mint=<address>    -> aggregated price (Pyth + Jupiter)',
     'POST /oracle/prices { mints: [...] } -> batch prices',
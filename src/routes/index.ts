@@ -14,3 +14,4 @@ export { default as monitorRoutes, workerRoutes, userRoutes, alertRoutes, riskRo
 export { default as notifyRoutes, telegramRoutes } from './notify.js';
 export { default as chatRoutes } from './chat.js';
 export { default as portfolioRoutes } from './portfolio.js';
+export { default as operationsRoutes } from './operations.js';
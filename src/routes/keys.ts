@@ -0,0 +1,94 @@
+/**
+ * API Key Routes - issue, rotate and revoke keys, read their audit logs
+ *
+ * Admin key only (enforced by apiKeyAuth). Secrets are returned once, by
+ * issue and rotate; only their hashes are stored.
+ */
+import { Hono } from 'hono';
+import {
+  getApiKey,
+  getAuditEntries,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  validateIssueInput,
+  type IssueApiKeyInput,
+} from '../auth/index.js';
+
+const app = new Hono();
+
+const MAX_AUDIT_ENTRIES = 500;
+
+/**
+ * POST /keys
+ * Body: { name, scopes: ('read' | 'trade' | 'withdraw')[], walletIds: string[] | ['*'], expiresInDays? }
+ */
+app.post('/', async (c) => {
+  let body: Partial<IssueApiKeyInput>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  const invalid = validateIssueInput(body);
+  if (invalid) {
+    return c.json({
+      error: invalid,
+      example: { name: 'rebalance-agent', scopes: ['read', 'trade', 'withdraw'], walletIds: ['wallet-id'], expiresInDays: 90 },
+    }, 400);
+  }
+
+  try {
+    const { key, secret } = await issueApiKey(body as IssueApiKeyInput);
+    return c.json({ success: true, key, secret, note: 'Store the secret now - it cannot be shown again' }, 201);
+  } catch (error: any) {
+    const status = error.message?.includes('not found') ? 400 : 500;
+    return c.json({ error: 'Key issuance failed', details: error.message }, status);
+  }
+});
+
+app.get('/', async (c) => {
+  const keys = await listApiKeys();
+  return c.json({ success: true, keys, count: keys.length });
+});
+
+app.get('/:id', async (c) => {
+  const key = await getApiKey(c.req.param('id'));
+  if (!key) return c.json({ error: 'Key not found' }, 404);
+  return c.json({ success: true, key });
+});
+
+/**
+ * POST /keys/:id/rotate
+ * Body (optional): { graceSeconds } - how long the old secret keeps working
+ */
+app.post('/:id/rotate', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const graceSeconds = Number(body.graceSeconds ?? 0);
+  if (!Number.isFinite(graceSeconds) || graceSeconds < 0) {
+    return c.json({ error: 'graceSeconds must be a non-negative number' }, 400);
+  }
+  const rotated = await rotateApiKey(c.req.param('id'), graceSeconds);
+  if (!rotated) return c.json({ error: 'Key not found or revoked' }, 404);
+  return c.json({ success: true, key: rotated.key, secret: rotated.secret, note: 'Store the secret now - it cannot be shown again' });
+});
+
+app.post('/:id/revoke', async (c) => {
+  const key = await revokeApiKey(c.req.param('id'));
+  if (!key) return c.json({ error: 'Key not found' }, 404);
+  return c.json({ success: true, key });
+});
+
+/**
+ * GET /keys/:id/audit?limit=100
+ * Newest first; includes denied requests
+ */
+app.get('/:id/audit', async (c) => {
+  const id = c.req.param('id');
+  const limit = Math.min(Math.max(1, parseInt(c.req.query('limit') || '100') || 100), MAX_AUDIT_ENTRIES);
+  const entries = await getAuditEntries(id, limit);
+  return c.json({ success: true, keyId: id, entries, count: entries.length });
+});
+
+export default app;
@@ -6,6 +6,7 @@ import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } f
 import { loadWalletById, getConnection } from '../services/wallet-service.js';
 import { FEE_CONFIG, SAMPLE_POOLS } from '../services/pool-service.js';
 import { executeLp, invalidatePositionCache } from '../services/lp-service.js';
+import { executeDammLp } from '../services/damm-service.js';
 import { stats } from '../services/stats.js';
 import { withTimeout, PRIVY_SIGN_TIMEOUT_MS } from '../utils/resilience.js';
 import { ErrorCode, createError, classifyError, getHttpStatus, getFriendlyMessage } from '../utils/error-codes.js';
@@ -13,6 +14,8 @@ import { arciumPrivacy } from '../privacy/index.js';
 import { buildAtomicLP } from '../lp/atomic.js';
 import { sendBundle, waitForBundle, buildTipTransaction, type TipSpeed } from '../jito/index.js';
 import MeteoraDirectClient from '../dex/meteora.js';
+import { idempotent, acceptAsync } from '../middleware/idempotency.js';
+import type { IntentOutcome } from '../journal/index.js';
 
 const app = new Hono();
 
@@ -106,7 +109,7 @@ app.post('/open', async (c) => {
     return c.json({
       success: false,
       error: createError(code, getFriendlyMessage(code), { originalError: error.message }, requestId),
-    }, status as any);
+    }, status);
   }
 });
 
@@ -142,7 +145,7 @@ app.post('/close', async (c) => {
     return c.json({
       success: false,
       error: createError(code, getFriendlyMessage(code), { originalError: error.message }, requestId),
-    }, status as any);
+    }, status);
   }
 });
 
@@ -160,8 +163,13 @@ async function lpExecuteHandler(c: any) {
       shape = 'spot',
       tipSpeed = 'fast',
       slippageBps = 300,
+      dex = 'meteora',
     } = body;
 
+    if (dex !== 'meteora' && dex !== 'damm') {
+      return c.json({ error: 'Unknown dex. Use one of: meteora, damm' }, 400);
+    }
+
     if (!walletId) {
       return c.json({
         error: 'Missing walletId',
@@ -188,73 +196,159 @@ async function lpExecuteHandler(c: any) {
       }, 400);
     }
 
-    const { client, wallet } = await loadWalletById(walletId);
-    const walletAddress = wallet.address;
-
-    console.log(`[LP Execute] Opening position: ${amountSol} SOL in pool ${poolAddress}`);
-
-    const result = await executeLp({
-      walletId,
-      walletAddress,
-      poolAddress,
-      amountSol,
-      minBinId,
-      maxBinId,
-      strategy: strategy as 'concentrated' | 'wide' | 'custom',
-      shape: shape as 'spot' | 'curve' | 'bidask',
-      tipSpeed: tipSpeed as TipSpeed,
-      slippageBps,
-      signTransaction: async (tx: string) => {
-        return withTimeout(
-          () => client.signTransaction(tx),
-          { timeoutMs: PRIVY_SIGN_TIMEOUT_MS, errorMessage: 'Wallet signing timed out. Please try again.' }
-        );
-      },
-    });
+    const execute = async (): Promise<IntentOutcome> => {
+      try {
+        const { client, wallet } = await loadWalletById(walletId);
+        const walletAddress = wallet.address;
+
+        console.log(`[LP Execute] Opening position: ${amountSol} SOL in pool ${poolAddress}`);
+
+        if (dex === 'damm') {
+          // Full-range position: bin range, strategy and shape don't apply
+          const { lpResult, bundleId, txHashes, status, submission } = await executeDammLp({
+            walletId,
+            walletAddress,
+            poolAddress,
+            amountSol,
+            tipSpeed: tipSpeed as TipSpeed,
+            slippageBps,
+            signTransaction: async (tx: string) => {
+              return withTimeout(
+                () => client.signTransaction(tx),
+                { timeoutMs: PRIVY_SIGN_TIMEOUT_MS, errorMessage: 'Wallet signing timed out. Please try again.' }
+              );
+            },
+          });
+
+          if (!status.landed) {
+            return {
+              ok: false,
+              status: 500,
+              body: {
+                success: false,
+                error: submission.path === 'rpc' ? 'LP transactions failed to land' : 'Bundle failed to land',
+                bundleId,
+                details: status.error,
+                submission,
+              },
+            };
+          }
+
+          stats.actions.lpExecuted++;
+          return {
+            ok: true,
+            status: 200,
+            body: {
+              success: true,
+              message: `DAMM position opened with ${amountSol} SOL`,
+              walletId,
+              walletAddress,
+              poolAddress,
+              dex,
+              positionAddress: lpResult.positionAddress,
+              positionNft: lpResult.positionNft,
+              bundle: submission.path !== 'rpc' ? {
+                bundleId,
+                landed: status.landed,
+                slot: status.slot,
+                tipLamports: lpResult.flows.tipLamports,
+              } : undefined,
+              txHashes: submission.path === 'rpc' ? txHashes : undefined,
+              submission,
+            },
+          };
+        }
 
-    const { lpResult, bundleId, status } = result;
+        const result = await executeLp({
+          walletId,
+          walletAddress,
+          poolAddress,
+          amountSol,
+          minBinId,
+          maxBinId,
+          strategy: strategy as 'concentrated' | 'wide' | 'custom',
+          shape: shape as 'spot' | 'curve' | 'bidask',
+          tipSpeed: tipSpeed as TipSpeed,
+          slippageBps,
+          signTransaction: async (tx: string) => {
+            return withTimeout(
+              () => client.signTransaction(tx),
+              { timeoutMs: PRIVY_SIGN_TIMEOUT_MS, errorMessage: 'Wallet signing timed out. Please try again.' }
+            );
+          },
+        });
+
+        const { lpResult, bundleId, status, submission } = result;
+
+        if (typeof status === 'string') {
+          // Direct RPC path (no Jito bundle)
+          stats.actions.lpExecuted++;
+          return {
+            ok: true,
+            status: 200,
+            body: {
+              success: true,
+              message: `LP position opened with ${amountSol} SOL`,
+              walletId,
+              walletAddress,
+              poolAddress,
+              binRange: lpResult.binRange,
+              txHashes: result.txHashes,
+              encryptedStrategy: lpResult.encryptedStrategy,
+            },
+          };
+        }
 
-    if (typeof status === 'string') {
-      // Direct RPC path (no Jito bundle)
-      stats.actions.lpExecuted++;
-      return c.json({
-        success: true,
-        message: `LP position opened with ${amountSol} SOL`,
-        walletId,
-        walletAddress,
-        poolAddress,
-        binRange: lpResult.binRange,
-        txHashes: result.txHashes,
-        encryptedStrategy: lpResult.encryptedStrategy,
-      });
-    }
+        if (!status.landed) {
+          return {
+            ok: false,
+            status: 500,
+            body: {
+              success: false,
+              error: submission?.path === 'rpc' ? 'LP transactions failed to land' : 'Bundle failed to land',
+              bundleId,
+              details: status.error,
+              submission,
+            },
+          };
+        }
 
-    if (!status.landed) {
-      return c.json({
-        success: false,
-        error: 'Bundle failed to land',
-        bundleId,
-        details: status.error,
-      }, 500);
-    }
+        console.log(`[LP Execute] Position opened at slot ${status.slot} via ${submission?.path}!`);
+
+        stats.actions.lpExecuted++;
+        return {
+          ok: true,
+          status: 200,
+          body: {
+            success: true,
+            message: `LP position opened with ${amountSol} SOL`,
+            walletId,
+            walletAddress,
+            poolAddress,
+            binRange: lpResult.binRange,
+            bundle: submission?.path !== 'rpc' ? {
+              bundleId,
+              landed: status.landed,
+              slot: status.slot,
+              tipLamports: lpResult.flows.tipLamports,
+            } : undefined,
+            txHashes: submission?.path === 'rpc' ? result.txHashes : undefined,
+            submission,
+            encryptedStrategy: lpResult.encryptedStrategy,
+          },
+        };
+      } catch (error: any) {
+        console.error('[LP Execute] Error:', error);
+        stats.errors++;
+        return { ok: false, status: 500, body: { error: 'LP execute failed', details: error.message } };
+      }
+    };
 
-    console.log(`[LP Execute] Position opened at slot ${status.slot}!`);
+    const accepted = acceptAsync(c, body, execute);
+    if (accepted) return accepted;
 
-    stats.actions.lpExecuted++;
-    return c.json({
-      success: true,
-      message: `LP position opened with ${amountSol} SOL`,
-      walletId,
-      walletAddress,
-      poolAddress,
-      binRange: lpResult.binRange,
-      bundle: {
-        bundleId,
-        landed: status.landed,
-        slot: status.slot,
-      },
-      encryptedStrategy: lpResult.encryptedStrategy,
-    });
+    const outcome = await execute();
+    return c.json(outcome.body as any, outcome.status as any);
   } catch (error: any) {
     console.error('[LP Execute] Error:', error);
     stats.errors++;
@@ -262,8 +356,8 @@ async function lpExecuteHandler(c: any) {
   }
 }
 
-app.post('/atomic', async (c) => lpExecuteHandler(c));
-app.post('/execute', async (c) => lpExecuteHandler(c));
+app.post('/atomic', idempotent('lp'), async (c) => lpExecuteHandler(c));
+app.post('/execute', idempotent('lp'), async (c) => lpExecuteHandler(c));
 
 // Add liquidity to an existing position
 app.post('/add', async (c) => {
@@ -315,7 +409,7 @@ app.post('/add', async (c) => {
 
     // Add tip transaction
     const { blockhash } = await connection.getLatestBlockhash();
-    const { transaction: tipTx } = buildTipTransaction({ 
+    const { transaction: tipTx } = await buildTipTransaction({ 
       payerAddress: walletAddress, 
       recentBlockhash: blockhash, 
       speed: 'fast' as TipSpeed
@@ -30,6 +30,8 @@ import {
   isWorkerRunning,
   getWorkerStatus,
   triggerPositionCheck,
+  getQueueStats,
+  getWorkerQueue,
   getUserSettings,
   setUserSettings,
   createDefaultSettings,
@@ -42,10 +44,21 @@ import {
   parseNaturalRule,
   getAlertStats,
   getFailedAlerts,
+  getAutoRebalanceLimits,
+  getAutoRebalanceAudit,
+  discoverTrackablePositions,
+  DEFAULT_AUTO_REBALANCE_LIMITS,
   type UserSettings,
   type TrackedPosition,
 } from '../monitoring/index.js';
 import { getTokenVolatility } from '../risk/index.js';
+import { getPortfolioRiskReport } from '../risk/portfolio.js';
+import { getHedgeReport } from '../risk/hedge.js';
+import { loadWalletById } from '../services/wallet-service.js';
+import { createConnection } from '../services/connection-pool.js';
+import { fetchRaydiumPositionState } from '../raydium/index.js';
+import { discoverOrcaPositions } from '../orca/positions.js';
+import { walletParam } from '../middleware/auth.js';
 
 const app = new Hono();
 
@@ -128,6 +141,7 @@ app.post('/add', async (c) => {
   try {
     const body = await c.req.json();
     const { positionAddress, poolAddress, walletAddress, binRange, webhookUrl, alerts } = body;
+    const dex: 'meteora' | 'orca' | 'raydium' = body.dex === 'raydium' || body.dex === 'orca' ? body.dex : 'meteora';
 
     if (!positionAddress || !poolAddress) {
       return c.json({
@@ -136,6 +150,7 @@ app.post('/add', async (c) => {
           positionAddress: 'your-position-address',
           poolAddress: 'pool-address',
           walletAddress: 'wallet-address (optional)',
+          dex: 'meteora | orca | raydium (optional, orca/raydium use tick ranges, raydium positions the NFT mint)',
           binRange: { min: 100, max: 120 },
           alerts: { outOfRange: true, valueChangePercent: 10 },
         },
@@ -146,8 +161,19 @@ app.post('/add', async (c) => {
     let poolInfo = null;
 
     if (!binRange || (binRange.min === 0 && binRange.max === 0)) {
-      if (walletAddress) {
-        const conn = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+      if (dex === 'raydium') {
+        // CLMM position accounts are read by NFT mint, no wallet needed
+        const state = await fetchRaydiumPositionState(positionAddress);
+        actualBinRange = { min: state.tickLower, max: state.tickUpper };
+        poolInfo = state.pool;
+      } else if (dex === 'orca' && walletAddress) {
+        const owned = await discoverOrcaPositions(createConnection(), walletAddress);
+        const found = owned.find(p => p.address === positionAddress);
+        actualBinRange = found
+          ? { min: found.tickLowerIndex, max: found.tickUpperIndex }
+          : { min: 0, max: 0 };
+      } else if (walletAddress) {
+        const conn = createConnection();
         const discoveredRange = await getPositionBinRange(conn, poolAddress, positionAddress, walletAddress);
 
         if (discoveredRange) {
@@ -165,6 +191,7 @@ app.post('/add', async (c) => {
     const position: MonitoredPosition = {
       positionAddress,
       poolAddress,
+      dex,
       binRange: actualBinRange,
       alertsEnabled: {
         outOfRange: alerts?.outOfRange ?? true,
@@ -427,12 +454,44 @@ export function workerRoutes() {
     return c.json({ success: true, message: 'Position check triggered' });
   });
 
+  /**
+   * GET /worker/queues
+   * Depth, counters and dead letters for the withdrawal, swap and DCA queues.
+   */
+  wApp.get('/queues', async (c) => {
+    const stats = await getQueueStats();
+    const queues = await Promise.all(stats.map(async (s) => {
+      const queue = await getWorkerQueue(s.queue);
+      return { ...s, deadLetters: queue ? await queue.getDeadLetters() : [] };
+    }));
+    return c.json({ success: true, queues });
+  });
+
+  wApp.post('/queues/:queue/dead/:jobId/retry', async (c) => {
+    const queue = await getWorkerQueue(c.req.param('queue'));
+    if (!queue) return c.json({ error: 'Unknown queue' }, 404);
+    const retried = await queue.retryDeadLetter(c.req.param('jobId'));
+    if (!retried) return c.json({ error: 'Dead letter not found' }, 404);
+    return c.json({ success: true, message: 'Job requeued' });
+  });
+
+  wApp.delete('/queues/:queue/dead/:jobId', async (c) => {
+    const queue = await getWorkerQueue(c.req.param('queue'));
+    if (!queue) return c.json({ error: 'Unknown queue' }, 404);
+    const removed = await queue.removeDeadLetter(c.req.param('jobId'));
+    if (!removed) return c.json({ error: 'Dead letter not found' }, 404);
+    return c.json({ success: true, message: 'Dead letter removed' });
+  });
+
   return wApp;
 }
 
 export function userRoutes() {
   const uApp = new Hono();
 
+  // The user id doubles as a wallet id for notifications, so keys are bound to it like one
+  uApp.use('/:userId/*', walletParam('userId'));
+
   uApp.get('/:userId/settings', async (c) => {
     const userId = c.req.param('userId');
     const settings = await getUserSettings(userId);
@@ -474,10 +533,13 @@ export function userRoutes() {
   uApp.post('/:userId/positions/track', async (c) => {
     const userId = c.req.param('userId');
     const body = await c.req.json();
-    const { positionAddress, poolAddress, poolName, binRange, walletId } = body;
+    const { positionAddress, poolAddress, poolName, binRange, walletId, tickSpacing } = body;
 
-    if (!positionAddress || !poolAddress || !poolName) {
-      return c.json({ error: 'Missing required fields: positionAddress, poolAddress, poolName' }, 400);
+    if (!positionAddress || !poolAddress || !poolName || !walletId) {
+      return c.json({ error: 'Missing required fields: positionAddress, poolAddress, poolName, walletId' }, 400);
+    }
+    if (body.dex !== undefined && !['meteora', 'orca', 'raydium'].includes(body.dex)) {
+      return c.json({ error: 'dex must be one of: meteora, orca, raydium' }, 400);
     }
 
     const position: TrackedPosition = {
@@ -486,7 +548,9 @@ export function userRoutes() {
       poolName,
       userId,
       walletId,
+      dex: body.dex,
       binRange: binRange || { lower: 0, upper: 0 },
+      tickSpacing,
       createdAt: new Date().toISOString(),
     };
 
@@ -507,15 +571,13 @@ export function userRoutes() {
     const body = await c.req.json();
     const { walletAddress, walletId } = body;
 
-    if (!walletAddress) {
-      return c.json({ error: 'Missing walletAddress' }, 400);
+    if (!walletAddress || !walletId) {
+      return c.json({ error: 'Missing required fields: walletAddress, walletId' }, 400);
     }
 
     try {
-      // Discover all positions on-chain
-      const connection = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
-      const { discoverAllPositions } = await import('../utils/position-discovery.js');
-      const discovered = await discoverAllPositions(connection, walletAddress);
+      // Discover all positions on-chain (Meteora, Orca and Raydium)
+      const discovered = await discoverTrackablePositions(walletAddress, { userId, walletId });
 
       if (discovered.length === 0) {
         return c.json({
@@ -527,17 +589,7 @@ export function userRoutes() {
 
       // Track each discovered position
       const tracked: TrackedPosition[] = [];
-      for (const pos of discovered) {
-        const position: TrackedPosition = {
-          positionAddress: pos.address,
-          poolAddress: pos.pool.address,
-          poolName: pos.pool.name || `${pos.pool.tokenX.symbol}-${pos.pool.tokenY.symbol}`,
-          userId,
-          walletId,
-          binRange: pos.binRange,
-          createdAt: new Date().toISOString(),
-          lastInRange: pos.inRange,
-        };
+      for (const position of discovered) {
         await trackPosition(position);
         tracked.push(position);
       }
@@ -551,6 +603,7 @@ export function userRoutes() {
         positions: tracked.map(p => ({
           pool: p.poolName,
           address: p.positionAddress.slice(0, 8) + '...',
+          dex: p.dex,
           binRange: p.binRange,
         })),
       });
@@ -607,6 +660,56 @@ export function userRoutes() {
     return c.json({ success: true, message: 'Rule removed' });
   });
 
+  // Auto-rebalance policy, limits and audit trail
+  uApp.get('/:userId/auto-rebalance', async (c) => {
+    const userId = c.req.param('userId');
+    const limit = Math.min(500, parseInt(c.req.query('limit') || '50'));
+    const settings = await getUserSettings(userId);
+    if (!settings) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+    return c.json({
+      enabled: settings.preferences.autoRebalance,
+      live: config.autoRebalance.live,
+      limits: await getAutoRebalanceLimits(userId),
+      audit: await getAutoRebalanceAudit(userId, limit),
+    });
+  });
+
+  uApp.post('/:userId/auto-rebalance', async (c) => {
+    const userId = c.req.param('userId');
+    const body = await c.req.json();
+
+    let settings = await getUserSettings(userId);
+    if (!settings) {
+      settings = await createDefaultSettings(userId);
+    }
+
+    const limits = { ...settings.preferences.autoRebalanceLimits };
+    for (const [key, fallback] of Object.entries(DEFAULT_AUTO_REBALANCE_LIMITS)) {
+      const value = body.limits?.[key];
+      if (value === undefined) continue;
+      if (typeof value !== typeof fallback || (typeof value === 'number' && (!Number.isFinite(value) || value < 0))) {
+        return c.json({ error: `Invalid limits.${key}` }, 400);
+      }
+      (limits as Record<string, unknown>)[key] = value;
+    }
+
+    settings.preferences = {
+      ...settings.preferences,
+      autoRebalance: typeof body.enabled === 'boolean' ? body.enabled : settings.preferences.autoRebalance,
+      autoRebalanceLimits: limits,
+    };
+
+    await setUserSettings(settings);
+    return c.json({
+      success: true,
+      enabled: settings.preferences.autoRebalance,
+      live: config.autoRebalance.live,
+      limits: await getAutoRebalanceLimits(userId),
+    });
+  });
+
   return uApp;
 }
 
@@ -626,6 +729,13 @@ export function alertRoutes() {
   return aApp;
 }
 
+// Wallet id (Privy) or base58 address -> address
+async function resolveWalletParam(param: string): Promise<{ walletAddress: string; walletId?: string }> {
+  if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(param)) return { walletAddress: param };
+  const { wallet } = await loadWalletById(param);
+  return { walletAddress: wallet.address, walletId: param };
+}
+
 export function riskRoutes() {
   const rApp = new Hono();
 
@@ -638,5 +748,37 @@ export function riskRoutes() {
     return c.json({ success: true, volatility });
   });
 
+  /**
+   * GET /risk/portfolio/:walletIdOrAddress
+   * Wallet-level risk across Meteora, Orca and Raydium: exposure,
+   * concentration, IL sensitivity, out-of-range share and health score.
+   */
+  rApp.get('/portfolio/:walletIdOrAddress', walletParam('walletIdOrAddress'), async (c) => {
+    try {
+      const { walletAddress, walletId } = await resolveWalletParam(c.req.param('walletIdOrAddress'));
+      const report = await getPortfolioRiskReport(walletAddress);
+      return c.json({ success: true, ...(walletId && { walletId }), report });
+    } catch (error: any) {
+      console.error('[Risk] Portfolio report error:', error.message);
+      return c.json({ error: 'Failed to build portfolio risk report', details: error.message }, 500);
+    }
+  });
+
+  /**
+   * GET /risk/hedge/:walletIdOrAddress
+   * Delta and gamma per volatile token, hedge sizes that flatten wallet
+   * delta, and a what-if table for ±5/10/25% moves.
+   */
+  rApp.get('/hedge/:walletIdOrAddress', walletParam('walletIdOrAddress'), async (c) => {
+    try {
+      const { walletAddress, walletId } = await resolveWalletParam(c.req.param('walletIdOrAddress'));
+      const report = await getHedgeReport(walletAddress);
+      return c.json({ success: true, ...(walletId && { walletId }), report });
+    } catch (error: any) {
+      console.error('[Risk] Hedge report error:', error.message);
+      return c.json({ error: 'Failed to build hedge report', details: error.message }, 500);
+    }
+  });
+
   return rApp;
 }
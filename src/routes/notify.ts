@@ -32,6 +32,8 @@ import {
   getUserByChat,
   linkWalletToChat,
 } from '../onboarding/index.js';
+import { createConnection } from '../services/connection-pool.js';
+import { walletParam } from '../middleware/auth.js';
 
 const app = new Hono();
 
@@ -116,7 +118,7 @@ app.post('/notify/register', async (c) => {
 });
 
 // Get notification settings
-app.get('/notify/:walletId', async (c) => {
+app.get('/notify/:walletId', walletParam('walletId'), async (c) => {
   const walletId = c.req.param('walletId');
   const recipient = await getRecipient(walletId);
 
@@ -133,7 +135,7 @@ app.get('/notify/:walletId', async (c) => {
 });
 
 // Send positions report
-app.post('/notify/:walletId/positions', async (c) => {
+app.post('/notify/:walletId/positions', walletParam('walletId'), async (c) => {
   const walletId = c.req.param('walletId');
   const botToken = process.env.TELEGRAM_BOT_TOKEN;
 
@@ -146,7 +148,7 @@ app.post('/notify/:walletId/positions', async (c) => {
     return c.json({ error: 'No Telegram linked for this wallet' }, 400);
   }
 
-  const conn = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+  const conn = createConnection();
 
   let walletAddress: string;
   try {
@@ -245,7 +247,7 @@ app.post('/notify/:walletId/positions', async (c) => {
 });
 
 // Test notification
-app.post('/notify/:walletId/test', async (c) => {
+app.post('/notify/:walletId/test', walletParam('walletId'), async (c) => {
   const walletId = c.req.param('walletId');
 
   const testPayload: AlertPayload = {
@@ -400,7 +402,7 @@ export function telegramRoutes() {
           if (poolAddressMatch) {
             const poolAddress = poolAddressMatch[1];
             try {
-              const meteoraResp = await fetch(`https://dlmm-api.meteora.ag/pair/${poolAddress}`);
+              const meteoraResp = await fetch(`${config.meteora.apiUrl}/pair/${poolAddress}`);
               if (meteoraResp.ok) {
                 const poolData = await meteoraResp.json() as any;
                 const pairName = poolData.name ||
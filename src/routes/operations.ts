@@ -0,0 +1,68 @@
+/**
+ * Operation Routes - status of journaled write operations
+ *
+ * Every LP / withdraw / rebalance / swap request is journaled as an intent;
+ * its id comes back as `operationId` (async mode) or the X-Intent-ID header.
+ */
+import { Hono } from 'hono';
+import { getIntent, getIntentResponse } from '../journal/index.js';
+import { authorizeWallet, forbidWallet } from '../middleware/auth.js';
+
+const app = new Hono();
+
+/**
+ * GET /operations/:id
+ * Current state, per-bundle signatures and tips, transactions sent over
+ * the RPC fallback (with any partial state and recovery), history, and the
+ * final result once the operation has finished.
+ */
+app.get('/:id', async (c) => {
+  const id = c.req.param('id');
+  const intent = await getIntent(id);
+  if (!intent) {
+    return c.json({ error: 'Operation not found', operationId: id }, 404);
+  }
+  if (intent.walletId && !authorizeWallet(c, intent.walletId)) {
+    return forbidWallet(c, intent.walletId);
+  }
+
+  const response = await getIntentResponse(id);
+  // A 202 is only the async-mode ack, not the outcome
+  const result = response && response.status !== 202 ? response.body : null;
+
+  return c.json({
+    operationId: intent.id,
+    operation: intent.operation,
+    state: intent.state,
+    done: intent.settled,
+    walletId: intent.walletId,
+    bundles: intent.bundles.map(b => ({
+      bundleId: b.bundleId,
+      state: b.state,
+      signatures: b.signatures,
+      tipLamports: b.tipLamports,
+      slot: b.slot,
+      error: b.error,
+      superseded: b.superseded,
+      submittedAt: new Date(b.submittedAt).toISOString(),
+    })),
+    transactions: (intent.transactions || []).map(t => ({
+      ...t,
+      submittedAt: new Date(t.submittedAt).toISOString(),
+    })),
+    submission: intent.submission,
+    signatures: [
+      ...intent.bundles.flatMap(b => b.signatures),
+      ...(intent.transactions || []).map(t => t.signature),
+    ],
+    tipLamports: intent.bundles.reduce((sum, b) => sum + b.tipLamports, 0),
+    tip: intent.tip,
+    error: intent.error,
+    history: intent.history.map(h => ({ ...h, at: new Date(h.at).toISOString() })),
+    result,
+    createdAt: new Date(intent.createdAt).toISOString(),
+    updatedAt: new Date(intent.updatedAt).toISOString(),
+  });
+});
+
+export default app;
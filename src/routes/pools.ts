@@ -4,6 +4,9 @@
 import { Hono } from 'hono';
 import { SAMPLE_POOLS, getTopPools } from '../services/pool-service.js';
 import { assessPoolRisk } from '../risk/index.js';
+import { config } from '../config/index.js';
+import { getRaydiumClient } from '../raydium/client.js';
+import type { ApiV3PoolInfoConcentratedItem } from '@raydium-io/raydium-sdk-v2';
 
 const app = new Hono();
 
@@ -27,12 +30,14 @@ app.get('/top', async (c) => {
   const riskMax = parseInt(c.req.query('riskMax') || '10');
   const minTvl = parseInt(c.req.query('minTvl') || '100000');
   const sortBy = c.req.query('sortBy') || 'sharpe';
+  const dex = c.req.query('dex') === 'raydium' ? 'raydium' : 'meteora';
 
   try {
-    const result = await getTopPools({ limit, riskMax, minTvl, sortBy });
+    const result = await getTopPools({ limit, riskMax, minTvl, sortBy, dex });
 
     return c.json({
       success: true,
+      dex,
       count: result.count,
       sortedBy: sortBy,
       filters: { riskMax, minTvl },
@@ -47,8 +52,40 @@ app.get('/top', async (c) => {
 app.get('/:address/risk', async (c) => {
   const poolAddress = c.req.param('address');
 
+  if (c.req.query('dex') === 'raydium') {
+    try {
+      const raydium = await getRaydiumClient();
+      const [pool] = await raydium.api.fetchPoolById({ ids: poolAddress }) as ApiV3PoolInfoConcentratedItem[];
+      if (!pool) {
+        return c.json({ error: 'Pool not found' }, 404);
+      }
+
+      const tokenX = pool.mintA?.symbol || 'UNKNOWN';
+      const tokenY = pool.mintB?.symbol || 'UNKNOWN';
+
+      const assessment = await assessPoolRisk(
+        pool.id,
+        `${tokenX}-${tokenY}`,
+        pool.day?.apr || 0,
+        pool.tvl || 0,
+        pool.config?.tickSpacing || 64,
+        pool.day?.volume || 0,
+        tokenX,
+        tokenY,
+        'raydium'
+      );
+
+      return c.json({
+        success: true,
+        assessment,
+      });
+    } catch (error: any) {
+      return c.json({ error: 'Risk assessment failed', details: error.message }, 500);
+    }
+  }
+
   try {
-    const response = await fetch(`https://dlmm-api.meteora.ag/pair/${poolAddress}`);
+    const response = await fetch(`${config.meteora.apiUrl}/pair/${poolAddress}`);
     if (!response.ok) {
       return c.json({ error: 'Pool not found' }, 404);
     }
@@ -9,6 +9,17 @@ import { getAggregatedPrice } from '../services/oracle-service.js';
 import { getUserPositions } from '../onboarding/index.js';
 import { getOrcaPositionsForWallet } from '../services/orca-service.js';
 import { fetchRaydiumPositions } from '../raydium/positions.js';
+import { getDammPositionsForWallet } from '../services/damm-service.js';
+import {
+  getWalletPnl,
+  getWalletLedger,
+  exportWalletActivity,
+  parseExportDate,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type WalletPnl,
+} from '../ledger/index.js';
+import { walletParam } from '../middleware/auth.js';
 
 const app = new Hono();
 
@@ -29,15 +40,18 @@ interface PortfolioResponse {
     meteora: { count: number; valueUsd: number; feesUsd: number };
     orca: { count: number; valueUsd: number; feesUsd: number };
     raydium: { count: number; valueUsd: number; feesUsd: number };
+    damm: { count: number; valueUsd: number; feesUsd: number };
   };
   positions: Array<{
     pool: string;
     poolAddress: string;
+    positionId: string; // Position account (Meteora, DAMM) or position NFT mint (Orca, Raydium)
     dex: string;
     valueUsd: number;
     feesUsd: number;
     inRange: boolean;
   }>;
+  pnl: WalletPnl; // From the position ledger; covers closed positions too
 }
 
 /**
@@ -65,7 +79,12 @@ async function getTokenPriceUsd(mint: string, priceCache: Map<string, number>):
 /**
  * Collect all unique token mints from positions
  */
-function collectTokenMints(meteoraPositions: any[], orcaPositions: any[], raydiumPositions: any[]): Set<string> {
+function collectTokenMints(
+  meteoraPositions: any[],
+  orcaPositions: any[],
+  raydiumPositions: any[],
+  dammPositions: any[],
+): Set<string> {
   const mints = new Set<string>();
   
   for (const pos of meteoraPositions) {
@@ -78,7 +97,7 @@ function collectTokenMints(meteoraPositions: any[], orcaPositions: any[], raydiu
     if (pos.tokenB?.mint) mints.add(pos.tokenB.mint);
   }
   
-  for (const pos of raydiumPositions) {
+  for (const pos of [...raydiumPositions, ...dammPositions]) {
     if (pos.tokenA?.mint) mints.add(pos.tokenA.mint);
     if (pos.tokenB?.mint) mints.add(pos.tokenB.mint);
   }
@@ -86,7 +105,7 @@ function collectTokenMints(meteoraPositions: any[], orcaPositions: any[], raydiu
   return mints;
 }
 
-app.get('/:walletAddress', async (c) => {
+app.get('/:walletAddress', walletParam('walletAddress'), async (c) => {
   const walletAddress = c.req.param('walletAddress');
   stats.requests.total++;
   stats.requests.byEndpoint['/portfolio/:walletAddress'] = (stats.requests.byEndpoint['/portfolio/:walletAddress'] || 0) + 1;
@@ -110,15 +129,17 @@ app.get('/:walletAddress', async (c) => {
     }
 
     // Fetch all positions from all DEXes in parallel
-    const [meteoraPositions, orcaPositions, raydiumPositions] = await Promise.all([
+    const [meteoraPositions, orcaPositions, raydiumPositions, dammPositions] = await Promise.all([
       getUserPositions(walletAddress).catch(() => []),
       getOrcaPositionsForWallet(walletAddress).catch(() => []),
       fetchRaydiumPositions(walletAddress).catch(() => []),
+      getDammPositionsForWallet(walletAddress).catch(() => []),
     ]);
 
-    const totalPositions = meteoraPositions.length + orcaPositions.length + raydiumPositions.length;
+    const totalPositions = meteoraPositions.length + orcaPositions.length + raydiumPositions.length + dammPositions.length;
 
     if (totalPositions === 0) {
+      const pnl = await getWalletPnl(walletAddress, [], priceCache);
       return c.json({
         success: true,
         walletAddress,
@@ -132,13 +153,15 @@ app.get('/:walletAddress', async (c) => {
           meteora: { count: 0, valueUsd: 0, feesUsd: 0 },
           orca: { count: 0, valueUsd: 0, feesUsd: 0 },
           raydium: { count: 0, valueUsd: 0, feesUsd: 0 },
+          damm: { count: 0, valueUsd: 0, feesUsd: 0 },
         },
         positions: [],
-      });
+        pnl,
+      } as PortfolioResponse);
     }
 
     // Collect all token mints and fetch prices in parallel
-    const tokenMints = collectTokenMints(meteoraPositions, orcaPositions, raydiumPositions);
+    const tokenMints = collectTokenMints(meteoraPositions, orcaPositions, raydiumPositions, dammPositions);
     const pricePromises = Array.from(tokenMints).map(async (mint) => {
       try {
         const result = await getAggregatedPrice(mint);
@@ -183,6 +206,7 @@ app.get('/:walletAddress', async (c) => {
       meteoraPositionList.push({
         pool: pos.pool || 'Unknown',
         poolAddress: pos.poolAddress || '',
+        positionId: pos.address,
         dex: 'meteora',
         valueUsd,
         feesUsd,
@@ -218,6 +242,7 @@ app.get('/:walletAddress', async (c) => {
       orcaPositionList.push({
         pool: pos.poolName || 'Unknown',
         poolAddress: pos.poolAddress || '',
+        positionId: pos.mintAddress,
         dex: 'orca',
         valueUsd,
         feesUsd,
@@ -246,6 +271,7 @@ app.get('/:walletAddress', async (c) => {
       raydiumPositionList.push({
         pool: pos.poolName || 'Unknown',
         poolAddress: pos.poolAddress || '',
+        positionId: pos.positionMint,
         dex: 'raydium',
         valueUsd,
         feesUsd,
@@ -253,9 +279,38 @@ app.get('/:walletAddress', async (c) => {
       });
     }
 
-    const totalValueUsd = meteoraValueUsd + orcaValueUsd + raydiumValueUsd;
-    const totalFeesUsd = meteoraFeesUsd + orcaFeesUsd + raydiumFeesUsd;
-    const inRangeCount = meteoraInRange + orcaInRange + raydiumInRange;
+    // Calculate Meteora DAMM v2 values with proper token prices
+    let dammValueUsd = 0;
+    let dammFeesUsd = 0;
+    let dammInRange = 0;
+    const dammPositionList: PortfolioResponse['positions'] = [];
+
+    for (const pos of dammPositions) {
+      const tokenAPrice = priceCache.get(pos.tokenA.mint) || 0;
+      const tokenBPrice = priceCache.get(pos.tokenB.mint) || 0;
+
+      const valueUsd = pos.tokenA.amount * tokenAPrice + pos.tokenB.amount * tokenBPrice;
+      dammValueUsd += valueUsd;
+
+      const feesUsd = pos.fees.tokenA * tokenAPrice + pos.fees.tokenB * tokenBPrice;
+      dammFeesUsd += feesUsd;
+
+      if (pos.inRange) dammInRange++;
+
+      dammPositionList.push({
+        pool: pos.poolName || 'Unknown',
+        poolAddress: pos.poolAddress,
+        positionId: pos.address,
+        dex: 'damm',
+        valueUsd,
+        feesUsd,
+        inRange: pos.inRange,
+      });
+    }
+
+    const totalValueUsd = meteoraValueUsd + orcaValueUsd + raydiumValueUsd + dammValueUsd;
+    const totalFeesUsd = meteoraFeesUsd + orcaFeesUsd + raydiumFeesUsd + dammFeesUsd;
+    const inRangeCount = meteoraInRange + orcaInRange + raydiumInRange + dammInRange;
     const outOfRangeCount = totalPositions - inRangeCount;
 
     // Sort all positions by value descending
@@ -263,8 +318,15 @@ app.get('/:walletAddress', async (c) => {
       ...meteoraPositionList,
       ...orcaPositionList,
       ...raydiumPositionList,
+      ...dammPositionList,
     ].sort((a, b) => b.valueUsd - a.valueUsd);
 
+    const pnl = await getWalletPnl(
+      walletAddress,
+      allPositions.map(p => ({ positionId: p.positionId, valueUsd: p.valueUsd, feesUsd: p.feesUsd })),
+      priceCache,
+    );
+
     return c.json({
       success: true,
       walletAddress,
@@ -278,8 +340,10 @@ app.get('/:walletAddress', async (c) => {
         meteora: { count: meteoraPositions.length, valueUsd: meteoraValueUsd, feesUsd: meteoraFeesUsd },
         orca: { count: orcaPositions.length, valueUsd: orcaValueUsd, feesUsd: orcaFeesUsd },
         raydium: { count: raydiumPositions.length, valueUsd: raydiumValueUsd, feesUsd: raydiumFeesUsd },
+        damm: { count: dammPositions.length, valueUsd: dammValueUsd, feesUsd: dammFeesUsd },
       },
       positions: allPositions,
+      pnl,
     } as PortfolioResponse);
 
   } catch (error: any) {
@@ -291,4 +355,59 @@ app.get('/:walletAddress', async (c) => {
   }
 });
 
+// Raw ledger: every recorded deposit, swap, fee claim, compound, rebalance
+// and withdrawal for the wallet, grouped by position
+app.get('/:walletAddress/ledger', walletParam('walletAddress'), async (c) => {
+  const walletAddress = c.req.param('walletAddress');
+  stats.requests.total++;
+  stats.requests.byEndpoint['/portfolio/:walletAddress/ledger'] = (stats.requests.byEndpoint['/portfolio/:walletAddress/ledger'] || 0) + 1;
+
+  if (!walletAddress || walletAddress.length < 32) {
+    return c.json({ success: false, error: 'Invalid wallet address' }, 400);
+  }
+
+  try {
+    const positions = await getWalletLedger(walletAddress);
+    return c.json({ success: true, walletAddress, positions });
+  } catch (error: any) {
+    console.error('[Portfolio] Ledger error:', error);
+    return c.json({ success: false, error: error.message || 'Failed to fetch ledger' }, 500);
+  }
+});
+
+// Tax / accounting export of LP activity as a CSV download
+// ?format=csv|koinly|cointracker&from=YYYY-MM-DD&to=YYYY-MM-DD
+app.get('/:walletAddress/export', walletParam('walletAddress'), async (c) => {
+  const walletAddress = c.req.param('walletAddress');
+  stats.requests.total++;
+  stats.requests.byEndpoint['/portfolio/:walletAddress/export'] = (stats.requests.byEndpoint['/portfolio/:walletAddress/export'] || 0) + 1;
+
+  if (!walletAddress || walletAddress.length < 32) {
+    return c.json({ success: false, error: 'Invalid wallet address' }, 400);
+  }
+
+  const format = (c.req.query('format') || 'csv').toLowerCase() as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return c.json({ success: false, error: `Unknown format. Use one of: ${EXPORT_FORMATS.join(', ')}` }, 400);
+  }
+
+  const from = parseExportDate(c.req.query('from'));
+  const to = parseExportDate(c.req.query('to'), true);
+  if ((c.req.query('from') && from === undefined) || (c.req.query('to') && to === undefined)) {
+    return c.json({ success: false, error: 'Invalid from/to date. Use YYYY-MM-DD, ISO 8601 or a ms timestamp' }, 400);
+  }
+
+  try {
+    const { csv, filename, rowCount } = await exportWalletActivity(walletAddress, format, { from, to });
+    console.log(`[Portfolio] Export ${format} for ${walletAddress.slice(0, 8)}...: ${rowCount} rows`);
+    return c.body(csv, 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+  } catch (error: any) {
+    console.error('[Portfolio] Export error:', error);
+    return c.json({ success: false, error: error.message || 'Failed to build export' }, 500);
+  }
+});
+
 export default app;
@@ -7,7 +7,10 @@ import { loadWalletById } from '../services/wallet-service.js';
 import { getPositionsForWallet } from '../services/lp-service.js';
 import { config } from '../config/index.js';
 import { discoverAllPositions } from '../utils/position-discovery.js';
-import { assessPositionRisk } from '../risk/index.js';
+import { assessPositionRisk, assessTickPositionRisk } from '../risk/index.js';
+import { fetchRaydiumPositions } from '../raydium/index.js';
+import { createConnection } from '../services/connection-pool.js';
+import { walletParam } from '../middleware/auth.js';
 
 const app = new Hono();
 
@@ -17,7 +20,7 @@ function isSolanaAddress(str: string): boolean {
 }
 
 // Get positions by walletId OR wallet address
-app.get('/:walletIdOrAddress', async (c) => {
+app.get('/:walletIdOrAddress', walletParam('walletIdOrAddress'), async (c) => {
   const param = c.req.param('walletIdOrAddress');
 
   // Check if this might be a "risk" sub-path
@@ -43,14 +46,14 @@ app.get('/:walletIdOrAddress', async (c) => {
 
     return c.json({
       success: true,
-      message: `Found ${positions.length} positions across Meteora and Orca`,
+      message: `Found ${positions.length} positions across Meteora, Orca and Raydium`,
       data: {
         ...(walletId && { walletId }),
         walletAddress,
         positions,
         totalPositions: positions.length,
       },
-      note: 'Multi-DEX discovery - finds positions in Meteora DLMM and Orca Whirlpools',
+      note: 'Multi-DEX discovery - finds positions in Meteora DLMM, Orca Whirlpools and Raydium CLMM',
     });
   } catch (error: any) {
     return c.json({ error: 'Failed to fetch positions', details: error.message }, 500);
@@ -58,7 +61,7 @@ app.get('/:walletIdOrAddress', async (c) => {
 });
 
 // Risk assessment for all positions of a wallet
-app.get('/:walletIdOrAddress/risk', async (c) => {
+app.get('/:walletIdOrAddress/risk', walletParam('walletIdOrAddress'), async (c) => {
   const param = c.req.param('walletIdOrAddress');
 
   try {
@@ -73,10 +76,13 @@ app.get('/:walletIdOrAddress/risk', async (c) => {
       walletId = param;
     }
 
-    const connection = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
-    const positions = await discoverAllPositions(connection, walletAddress);
+    const connection = createConnection();
+    const [positions, raydiumPositions] = await Promise.all([
+      discoverAllPositions(connection, walletAddress),
+      fetchRaydiumPositions(walletAddress),
+    ]);
 
-    if (positions.length === 0) {
+    if (positions.length + raydiumPositions.length === 0) {
       return c.json({
         success: true,
         message: 'No positions found',
@@ -99,14 +105,26 @@ app.get('/:walletIdOrAddress/risk', async (c) => {
       );
     });
 
-    const assessments = await Promise.all(assessmentPromises);
+    const raydiumAssessments = raydiumPositions.map(pos => assessTickPositionRisk({
+      positionAddress: pos.positionMint,
+      poolAddress: pos.poolAddress,
+      poolName: pos.poolName,
+      tickCurrent: pos.tickCurrent,
+      tickLower: pos.tickLower,
+      tickUpper: pos.tickUpper,
+      tickSpacing: pos.tickSpacing,
+      outOfRangeSince: pos.inRange ? undefined : new Date().toISOString(),
+      tokenXSymbol: pos.tokenA.symbol,
+    }));
+
+    const assessments = await Promise.all([...assessmentPromises, ...raydiumAssessments]);
     assessments.sort((a, b) => a.healthScore - b.healthScore);
 
     return c.json({
       success: true,
       ...(walletId && { walletId }),
       walletAddress,
-      totalPositions: positions.length,
+      totalPositions: positions.length + raydiumPositions.length,
       assessments,
       summary: {
         critical: assessments.filter(a => a.urgency === 'critical').length,
@@ -145,13 +163,13 @@ export function positionsByAddress() {
 
       return c.json({
         success: true,
-        message: `Found ${positions.length} positions across Meteora and Orca`,
+        message: `Found ${positions.length} positions across Meteora, Orca and Raydium`,
         data: {
           walletAddress,
           positions,
           totalPositions: positions.length,
         },
-        note: 'Multi-DEX discovery - finds positions in Meteora DLMM and Orca Whirlpools',
+        note: 'Multi-DEX discovery - finds positions in Meteora DLMM, Orca Whirlpools and Raydium CLMM',
       });
     } catch (error: any) {
       return c.json({ error: 'Failed to fetch positions', details: error.message }, 500);
@@ -9,6 +9,7 @@ import { getRaydiumClient } from '../raydium/client.js';
 import { fetchRaydiumPositions, fetchRaydiumPosition } from '../raydium/positions.js';
 import { getAggregatedPrice } from '../services/oracle-service.js';
 import { ApiV3PoolInfoConcentratedItem } from '@raydium-io/raydium-sdk-v2';
+import { config } from '../config/index.js';
 
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
 
@@ -26,7 +27,7 @@ raydiumRoutes.get('/pools', async (c) => {
   
   try {
     // Use direct Raydium API for reliable pool listing
-    const apiUrl = new URL('https://api-v3.raydium.io/pools/info/mint');
+    const apiUrl = new URL(`${config.raydium.apiUrl}/pools/info/mint`);
     apiUrl.searchParams.set('mint1', mint);
     apiUrl.searchParams.set('poolType', type === 'all' ? 'all' : 'concentrated');
     apiUrl.searchParams.set('poolSortField', 'default');
@@ -11,10 +11,116 @@ import { config } from '../config/index.js';
 import { withTimeout, PRIVY_SIGN_TIMEOUT_MS } from '../utils/resilience.js';
 import { resolveTokens, calculateHumanPriceRange, formatPriceRange, formatPrice } from '../utils/token-metadata.js';
 import { buildAtomicWithdraw } from '../lp/atomicWithdraw.js';
+import { buildRaydiumWithdraw, fetchRaydiumPositionState, tickToPrice } from '../raydium/index.js';
 import type { TipSpeed } from '../jito/index.js';
+import { createConnection } from '../services/connection-pool.js';
+import { idempotent, acceptAsync } from '../middleware/idempotency.js';
+import type { IntentOutcome } from '../journal/index.js';
 
 const app = new Hono();
 
+/**
+ * Prepare a Raydium CLMM rebalance. Offsets count tick-spacing steps from
+ * the current tick; ranges in the response are tick indexes.
+ */
+async function prepareRaydiumRebalance(params: {
+  walletId: string;
+  walletAddress: string;
+  poolAddress: string;
+  positionAddress: string;
+  newLowerBin?: number;
+  newUpperBin?: number;
+  strategy: string;
+  tipSpeed: TipSpeed;
+  slippageBps: number;
+}) {
+  const { walletId, walletAddress, poolAddress, positionAddress, strategy, tipSpeed, slippageBps } = params;
+
+  const position = await fetchRaydiumPositionState(positionAddress);
+  const { pool } = position;
+  if (pool.poolAddress !== poolAddress) {
+    throw new Error(`Position ${positionAddress} belongs to pool ${pool.poolAddress}, not ${poolAddress}`);
+  }
+
+  const spacing = pool.tickSpacing;
+  const currentStep = Math.floor(pool.tickCurrent / spacing);
+  const defaultOffset = strategy === 'wide' ? 20 : 5;
+  const minOffset = params.newLowerBin ?? -defaultOffset;
+  const maxOffset = Math.max(params.newUpperBin ?? defaultOffset, minOffset + 1);
+  const targetLower = (currentStep + minOffset) * spacing;
+  const targetUpper = (currentStep + maxOffset) * spacing;
+
+  const tokenMetadata = await resolveTokens([pool.mintA, pool.mintB]);
+  const symbolA = tokenMetadata.get(pool.mintA)?.symbol || 'Unknown';
+  const symbolB = tokenMetadata.get(pool.mintB)?.symbol || 'Unknown';
+  const newPriceLower = tickToPrice(targetLower, pool.decimalsA, pool.decimalsB);
+  const newPriceUpper = tickToPrice(targetUpper, pool.decimalsA, pool.decimalsB);
+
+  const withdrawResult = await buildRaydiumWithdraw({
+    walletAddress,
+    positionMint: positionAddress,
+    closePosition: true,
+    tipSpeed,
+  });
+
+  return {
+    success: true,
+    message: 'Rebalance prepared',
+    dex: 'raydium',
+    walletId,
+    walletAddress,
+    currentPosition: {
+      address: positionAddress,
+      binRange: { lower: position.tickLower, upper: position.tickUpper },
+      priceRange: {
+        priceLower: position.priceLower,
+        priceUpper: position.priceUpper,
+        display: formatPriceRange(position.priceLower, position.priceUpper, symbolB, symbolA),
+      },
+      inRange: position.inRange,
+    },
+    newPosition: {
+      binRange: { lower: targetLower, upper: targetUpper },
+      priceRange: {
+        priceLower: newPriceLower,
+        priceUpper: newPriceUpper,
+        display: formatPriceRange(newPriceLower, newPriceUpper, symbolB, symbolA),
+      },
+      strategy,
+    },
+    pool: {
+      address: poolAddress,
+      tickSpacing: spacing,
+      tokenX: { mint: pool.mintA, symbol: symbolA },
+      tokenY: { mint: pool.mintB, symbol: symbolB },
+      tickCurrent: pool.tickCurrent,
+      currentPrice: pool.currentPrice,
+      displayPrice: `${formatPrice(pool.currentPrice)} ${symbolB} per ${symbolA}`,
+    },
+    withdraw: {
+      transactions: withdrawResult.unsignedTransactions,
+      estimatedWithdraw: {
+        tokenX: position.tokenA,
+        tokenY: position.tokenB,
+      },
+    },
+    reentry: {
+      hint: 'Prefer POST /rebalance/execute with dex "raydium", which withdraws and re-enters at this range',
+      params: {
+        walletId,
+        poolAddress,
+        positionAddress,
+        dex: 'raydium',
+        newMinBinOffset: minOffset,
+        newMaxBinOffset: maxOffset,
+        tipSpeed,
+        slippageBps,
+      },
+    },
+    note: 'Sign withdraw transactions with Privy, submit via Jito, then execute re-entry',
+  };
+}
+
 // Prepare rebalance (analyze + build withdrawal)
 app.post('/', async (c) => {
   try {
@@ -29,6 +135,7 @@ app.post('/', async (c) => {
       shape = 'spot',
       tipSpeed = 'fast',
       slippageBps = 300,
+      dex = 'meteora',
     } = body;
 
     if (!walletId) {
@@ -45,7 +152,23 @@ app.post('/', async (c) => {
     const { client, wallet } = await loadWalletById(walletId);
     const walletAddress = wallet.address;
 
-    const conn = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+    if (dex === 'raydium') {
+      const prepared = await prepareRaydiumRebalance({
+        walletId,
+        walletAddress,
+        poolAddress,
+        positionAddress,
+        newLowerBin,
+        newUpperBin,
+        strategy,
+        tipSpeed: tipSpeed as TipSpeed,
+        slippageBps,
+      });
+      stats.actions.lpWithdrawn++;
+      return c.json(prepared);
+    }
+
+    const conn = createConnection();
     const pool = await DLMM.create(conn, new PublicKey(poolAddress));
     const userPubkey = new PublicKey(walletAddress);
     const positions = await pool.getPositionsByUserAndLbPair(userPubkey);
@@ -163,7 +286,7 @@ app.post('/', async (c) => {
 });
 
 // Execute resilient rebalance
-app.post('/execute', async (c) => {
+app.post('/execute', idempotent('rebalance'), async (c) => {
   try {
     const body = await c.req.json();
     const {
@@ -176,50 +299,71 @@ app.post('/execute', async (c) => {
       shape = 'spot',
       tipSpeed = 'fast',
       slippageBps = 300,
+      dex = 'meteora',
     } = body;
 
     if (!walletId || !poolAddress || !positionAddress) {
       return c.json({ error: 'Missing walletId, poolAddress, or positionAddress' }, 400);
     }
 
-    const { client, wallet } = await loadWalletById(walletId);
-    const walletAddress = wallet.address;
+    const execute = async (): Promise<IntentOutcome> => {
+      try {
+        const { client, wallet } = await loadWalletById(walletId);
+        const walletAddress = wallet.address;
 
-    const result = await executeRebalanceOperation({
-      walletId,
-      walletAddress,
-      poolAddress,
-      positionAddress,
-      newMinBinOffset,
-      newMaxBinOffset,
-      strategy: strategy as 'concentrated' | 'wide',
-      shape: shape as 'spot' | 'curve' | 'bidask',
-      tipSpeed: tipSpeed as TipSpeed,
-      slippageBps,
-      signTransaction: async (tx: string) => {
-        return withTimeout(
-          () => client.signTransaction(tx),
-          { timeoutMs: PRIVY_SIGN_TIMEOUT_MS, errorMessage: 'Wallet signing timed out. Please try again.' }
-        );
-      },
-    });
+        const result = await executeRebalanceOperation({
+          walletId,
+          walletAddress,
+          poolAddress,
+          positionAddress,
+          dex: dex === 'raydium' ? 'raydium' : 'meteora',
+          newMinBinOffset,
+          newMaxBinOffset,
+          strategy: strategy as 'concentrated' | 'wide',
+          shape: shape as 'spot' | 'curve' | 'bidask',
+          tipSpeed: tipSpeed as TipSpeed,
+          slippageBps,
+          signTransaction: async (tx: string) => {
+            return withTimeout(
+              () => client.signTransaction(tx),
+              { timeoutMs: PRIVY_SIGN_TIMEOUT_MS, errorMessage: 'Wallet signing timed out. Please try again.' }
+            );
+          },
+        });
 
-    stats.actions.lpExecuted++;
+        stats.actions.lpExecuted++;
 
-    return c.json({
-      success: result.success,
-      message: result.success
-        ? 'Rebalance completed successfully!'
-        : `Rebalance ${result.phase1.status === 'success' ? 'partial' : 'failed'}: ${result.recoveryHint}`,
-      walletId,
-      walletAddress,
-      phase1: result.phase1,
-      phase2: result.phase2,
-      oldPosition: result.oldPosition,
-      newPosition: result.newPosition,
-      tokensInWallet: result.tokensInWallet,
-      recoveryHint: result.recoveryHint,
-    });
+        return {
+          ok: result.success,
+          status: 200,
+          body: {
+            success: result.success,
+            message: result.success
+              ? 'Rebalance completed successfully!'
+              : `Rebalance ${result.phase1.status === 'success' ? 'partial' : 'failed'}: ${result.recoveryHint}`,
+            walletId,
+            walletAddress,
+            dex,
+            phase1: result.phase1,
+            phase2: result.phase2,
+            oldPosition: result.oldPosition,
+            newPosition: result.newPosition,
+            tokensInWallet: result.tokensInWallet,
+            recoveryHint: result.recoveryHint,
+          },
+        };
+      } catch (error: any) {
+        console.error('[Rebalance Execute] Error:', error);
+        stats.errors++;
+        return { ok: false, status: 500, body: { error: 'Rebalance execution failed', details: error.message } };
+      }
+    };
+
+    const accepted = acceptAsync(c, body, execute);
+    if (accepted) return accepted;
+
+    const outcome = await execute();
+    return c.json(outcome.body as any, outcome.status as any);
   } catch (error: any) {
     console.error('[Rebalance Execute] Error:', error);
     stats.errors++;
@@ -3,6 +3,7 @@
  */
 import { Hono } from 'hono';
 import { TOKENS, FEE_CONFIG } from '../services/pool-service.js';
+import { idempotent } from '../middleware/idempotency.js';
 
 const app = new Hono();
 
@@ -13,7 +14,7 @@ app.get('/tokens', (c) => {
   });
 });
 
-app.post('/', async (c) => {
+app.post('/', idempotent('swap'), async (c) => {
   try {
     const body = await c.req.json();
     const { inputToken, outputToken, amount } = body;
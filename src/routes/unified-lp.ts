@@ -8,7 +8,10 @@ import { Hono } from 'hono';
 import { fetchUnifiedPools, findBestPool, type UnifiedPool } from '../services/unified-pools.js';
 import { loadWalletById, getWalletBalance } from '../services/wallet-service.js';
 import { executeLp, type LpExecuteParams } from '../services/lp-service.js';
+import { VersionedTransaction } from '@solana/web3.js';
 import { executeOrcaLp } from '../services/orca-service.js';
+import { executeRaydiumLp } from '../services/raydium-service.js';
+import { executeDammLp } from '../services/damm-service.js';
 import type { TipSpeed } from '../jito/index.js';
 
 // Strategy to bin offset mapping (Meteora)
@@ -17,6 +20,12 @@ const STRATEGY_BIN_OFFSET = {
   wide: 20,         // ±20 bins for more range
 } as const;
 
+// Strategy to tick-range preset (Raydium)
+const STRATEGY_RAYDIUM = {
+  concentrated: 'balanced',
+  wide: 'wide',
+} as const;
+
 const app = new Hono();
 
 interface AddLpRequest {
@@ -38,7 +47,7 @@ app.get('/pools', async (c) => {
     const limit = parseInt(c.req.query('limit') || '10');
     const minTvl = parseFloat(c.req.query('minTvl') || '50000');
     const maxRisk = parseInt(c.req.query('maxRisk') || '7');
-    const dex = c.req.query('dex') as 'meteora' | 'orca' | 'all' | undefined || 'all';
+    const dex = c.req.query('dex') as 'meteora' | 'orca' | 'raydium' | 'damm' | 'all' | undefined || 'all';
     const sortBy = c.req.query('sortBy') as 'apr' | 'tvl' | 'riskAdjustedYield' | 'volume24h' | undefined || 'riskAdjustedYield';
     const tokenFilter = c.req.query('token');
 
@@ -235,6 +244,51 @@ app.post('/lp/add', async (c) => {
           strategy,
           result,
         });
+      } else if (targetPool.dex === 'raydium') {
+        const result = await executeRaydiumLp({
+          walletId,
+          walletAddress,
+          poolAddress: targetPool.address,
+          amountSol,
+          strategy: STRATEGY_RAYDIUM[strategy],
+          tipSpeed,
+          slippageBps,
+          signTransaction: async (tx: VersionedTransaction) => {
+            const signed = await signTransaction(Buffer.from(tx.serialize()).toString('base64'));
+            return VersionedTransaction.deserialize(Buffer.from(signed, 'base64'));
+          },
+        });
+
+        return c.json({
+          success: result.success,
+          dex: 'raydium',
+          pool: targetPool.name,
+          poolAddress: targetPool.address,
+          amountSol,
+          strategy,
+          result,
+        });
+      } else if (targetPool.dex === 'damm') {
+        // DAMM v2 positions span the whole pool range; strategy only sets slippage
+        const result = await executeDammLp({
+          walletId,
+          walletAddress,
+          poolAddress: targetPool.address,
+          amountSol,
+          tipSpeed,
+          slippageBps,
+          signTransaction,
+        });
+
+        return c.json({
+          success: result.status.landed,
+          dex: 'damm',
+          pool: targetPool.name,
+          poolAddress: targetPool.address,
+          amountSol,
+          strategy,
+          result,
+        });
       } else {
         return c.json({
           success: false,
@@ -0,0 +1,38 @@
+/**
+ * Usage Routes - which clients are calling what, and how often they hit the rate limit
+ *
+ * Admin key only (enforced by apiKeyAuth).
+ */
+import { Hono } from 'hono';
+import { config } from '../config/index.js';
+import { getUsageReport } from '../services/usage-service.js';
+
+const app = new Hono();
+
+/**
+ * GET /usage?day=YYYY-MM-DD&client=key:<id>|ip:<address>&top=10
+ * Per-client totals (read / tx / limited) and busiest routes, busiest client first
+ */
+app.get('/', async (c) => {
+  const day = c.req.query('day') || new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+    return c.json({ error: 'day must be YYYY-MM-DD' }, 400);
+  }
+  const topRoutes = Math.min(Math.max(1, parseInt(c.req.query('top') || '10') || 10), 100);
+  const clients = await getUsageReport(day, { client: c.req.query('client'), topRoutes });
+
+  return c.json({
+    success: true,
+    day,
+    limits: {
+      enabled: config.rateLimit.enabled,
+      readPerMinute: config.rateLimit.readPerMinute,
+      txPerMinute: config.rateLimit.txPerMinute,
+      burstMultiplier: config.rateLimit.burstMultiplier,
+    },
+    clients,
+    totalRequests: clients.reduce((sum, u) => sum + u.total, 0),
+  });
+});
+
+export default app;
@@ -5,7 +5,25 @@ import { Hono } from 'hono';
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { createPrivyClient, loadWalletById, getConnection } from '../services/wallet-service.js';
 import { stats } from '../services/stats.js';
+import {
+  getSubmissionPolicy,
+  setSubmissionPolicy,
+  resetSubmissionPolicy,
+  validateSubmissionPolicy,
+  DEFAULT_SUBMISSION_POLICY,
+} from '../submission/index.js';
+import {
+  getTransactionPolicy,
+  setTransactionPolicy,
+  resetTransactionPolicy,
+  validateTransactionPolicy,
+  getDailyOutflowUsd,
+  getViolations,
+  DEFAULT_TRANSACTION_POLICY,
+  ALLOWED_PROGRAMS,
+} from '../policy/index.js';
 import { config } from '../config/index.js';
+import { walletParam } from '../middleware/auth.js';
 
 const app = new Hono();
 
@@ -35,7 +53,7 @@ app.post('/create', async (c) => {
 });
 
 // Get wallet info by ID
-app.get('/:walletId', async (c) => {
+app.get('/:walletId', walletParam('walletId'), async (c) => {
   const walletId = c.req.param('walletId');
   try {
     const { wallet } = await loadWalletById(walletId);
@@ -53,7 +71,7 @@ app.get('/:walletId', async (c) => {
 });
 
 // Get balance by walletId
-app.get('/:walletId/balance', async (c) => {
+app.get('/:walletId/balance', walletParam('walletId'), async (c) => {
   const walletId = c.req.param('walletId');
   try {
     const { wallet } = await loadWalletById(walletId);
@@ -73,8 +91,87 @@ app.get('/:walletId/balance', async (c) => {
   }
 });
 
+// Submission policy: Jito-only, or fall back to RPC, and how to recover partial states
+app.get('/:walletId/submission-policy', walletParam('walletId'), async (c) => {
+  const walletId = c.req.param('walletId');
+  return c.json({
+    walletId,
+    policy: await getSubmissionPolicy(walletId),
+    defaults: DEFAULT_SUBMISSION_POLICY,
+  });
+});
+
+app.put('/:walletId/submission-policy', walletParam('walletId'), async (c) => {
+  const walletId = c.req.param('walletId');
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const invalid = validateSubmissionPolicy(body);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+
+  const policy = await setSubmissionPolicy(walletId, body);
+  return c.json({ success: true, walletId, policy });
+});
+
+app.delete('/:walletId/submission-policy', walletParam('walletId'), async (c) => {
+  const walletId = c.req.param('walletId');
+  await resetSubmissionPolicy(walletId);
+  return c.json({ success: true, walletId, policy: DEFAULT_SUBMISSION_POLICY });
+});
+
+// Transaction policy: checked before the wallet signs anything. Changes need the admin key.
+app.get('/:walletId/transaction-policy', walletParam('walletId'), async (c) => {
+  const walletId = c.req.param('walletId');
+  const [policy, outflowTodayUsd, violations] = await Promise.all([
+    getTransactionPolicy(walletId),
+    getDailyOutflowUsd(walletId),
+    getViolations(walletId, Math.min(parseInt(c.req.query('violations') || '20'), 200)),
+  ]);
+  return c.json({
+    walletId,
+    mode: config.policy.mode,
+    policy,
+    outflowTodayUsd,
+    violations,
+    builtInPrograms: ALLOWED_PROGRAMS,
+    defaults: DEFAULT_TRANSACTION_POLICY,
+  });
+});
+
+app.put('/:walletId/transaction-policy', walletParam('walletId'), async (c) => {
+  const walletId = c.req.param('walletId');
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const invalid = validateTransactionPolicy(body);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+
+  const policy = await setTransactionPolicy(walletId, body);
+  console.log(`[Policy] Updated policy for ${walletId}:`, JSON.stringify(policy));
+  return c.json({ success: true, walletId, policy });
+});
+
+app.delete('/:walletId/transaction-policy', walletParam('walletId'), async (c) => {
+  const walletId = c.req.param('walletId');
+  await resetTransactionPolicy(walletId);
+  console.log(`[Policy] Reset policy for ${walletId}`);
+  return c.json({ success: true, walletId, policy: DEFAULT_TRANSACTION_POLICY });
+});
+
 // Swap all tokens to SOL
-app.post('/:walletId/swap-all-to-sol', async (c) => {
+app.post('/:walletId/swap-all-to-sol', walletParam('walletId'), async (c) => {
   const walletId = c.req.param('walletId');
 
   try {
@@ -109,7 +206,7 @@ app.post('/:walletId/swap-all-to-sol', async (c) => {
 
       try {
         const jupiterApiKey = process.env.JUPITER_API_KEY;
-        const quoteUrl = `https://api.jup.ag/swap/v1/quote?inputMint=${mint}&outputMint=${SOL_MINT}&amount=${info.tokenAmount.amount}&slippageBps=300`;
+        const quoteUrl = `${config.jupiter.baseUrl}/quote?inputMint=${mint}&outputMint=${SOL_MINT}&amount=${info.tokenAmount.amount}&slippageBps=300`;
 
         const headers: Record<string, string> = { 'Accept': 'application/json' };
         if (jupiterApiKey) {
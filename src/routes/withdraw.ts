@@ -1,21 +1,39 @@
 /**
- * Withdraw Routes - Withdrawal operations, fee claim, compound
+ * Withdraw Routes - Withdrawal operations, fee claim, compound, auto-compound policies
  */
 import { Hono } from 'hono';
 import { Connection, PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
 import BN from 'bn.js';
-import { getConnection } from '../services/connection-pool.js';
+import { getConnection, createConnection } from '../services/connection-pool.js';
 import DLMM from '@meteora-ag/dlmm';
 import { loadWalletById } from '../services/wallet-service.js';
 import { invalidatePositionCache } from '../services/lp-service.js';
 import { stats } from '../services/stats.js';
 import { config } from '../config/index.js';
 import { buildAtomicWithdraw } from '../lp/atomicWithdraw.js';
-import { sendBundle } from '../jito/index.js';
+import { executeDammWithdraw } from '../services/damm-service.js';
+import { sendBundleWithSimulation, waitForBundle, expectedWithdrawals } from '../jito/index.js';
+import { recordLpExit, fromBaseUnits } from '../ledger/index.js';
+import {
+  createCompoundPolicy,
+  getCompoundPolicy,
+  getWalletCompoundPolicies,
+  getCompoundHistory,
+  cancelCompoundPolicy,
+  resumeCompoundPolicy,
+  type CompoundDex,
+  type CompoundTrigger,
+} from '../services/compound-service.js';
 import type { TipSpeed } from '../jito/index.js';
+import { deferCurrentIntent, failIntent } from '../journal/index.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { authorizeWallet, forbidWallet } from '../middleware/auth.js';
 
 const app = new Hono();
 
+const COMPOUND_DEXES: CompoundDex[] = ['meteora', 'orca', 'raydium'];
+const COMPOUND_TRIGGERS: CompoundTrigger[] = ['interval', 'fee-multiple'];
+
 // Build withdrawal transactions
 app.post('/', async (c) => {
   try {
@@ -126,7 +144,7 @@ app.post('/atomic', async (c) => {
 });
 
 // Full withdrawal execution (background)
-app.post('/execute', async (c) => {
+app.post('/execute', idempotent('withdraw'), async (c) => {
   try {
     const body = await c.req.json();
     const {
@@ -136,6 +154,7 @@ app.post('/execute', async (c) => {
       tipSpeed = 'fast',
       convertToSol = true,
       chatId,
+      dex = 'meteora',
     } = body;
 
     if (!walletId || !poolAddress || !positionAddress) {
@@ -146,11 +165,17 @@ app.post('/execute', async (c) => {
           poolAddress: 'pool-address',
           positionAddress: 'position-address-to-withdraw',
           convertToSol: true,
+          dex: 'meteora | damm',
         },
       }, 400);
     }
+    if (dex !== 'meteora' && dex !== 'damm') {
+      return c.json({ error: 'Unknown dex. Use one of: meteora, damm' }, 400);
+    }
 
     const jobId = `wd_${Date.now()}_${positionAddress.slice(0, 8)}`;
+    // The bundle is sent after we respond; the journal settles it from there
+    const intentId = deferCurrentIntent();
 
     // Process in background
     (async () => {
@@ -158,6 +183,24 @@ app.post('/execute', async (c) => {
         const { client, wallet } = await loadWalletById(walletId);
         const walletAddress = wallet.address;
 
+        if (dex === 'damm') {
+          // Submitted and settled by the service, ledger included
+          const result = await executeDammWithdraw({
+            walletId,
+            walletAddress,
+            positionAddress,
+            convertToSol,
+            tipSpeed: tipSpeed as TipSpeed,
+            signTransaction: (tx) => client.signTransaction(tx),
+          });
+          if (!result.status.landed) {
+            throw new Error(result.status.error || 'Withdrawal did not land');
+          }
+          console.log(`[Withdraw ${jobId}] DAMM withdrawal landed via ${result.submission.path}`);
+          stats.actions.lpWithdrawn++;
+          return;
+        }
+
         const result = await buildAtomicWithdraw({
           walletAddress,
           poolAddress,
@@ -172,10 +215,19 @@ app.post('/execute', async (c) => {
           signedTxs.push(signedTx);
         }
 
-        const { bundleId } = await sendBundle(signedTxs);
-        console.log(`[Withdraw ${jobId}] Bundle submitted: ${bundleId}`);
+        const { bundleId, simulation } = await sendBundleWithSimulation(signedTxs, {
+          walletAddress,
+          swaps: result.flows.swaps,
+          withdrawals: expectedWithdrawals(result.flows),
+        });
+        console.log(`[Withdraw ${jobId}] Bundle submitted: ${bundleId} (simulated ${simulation.computeUnits} CU)`);
 
         await invalidatePositionCache(walletId);
+        await recordLpExit({
+          walletAddress, poolAddress, positionId: positionAddress, dex: 'meteora',
+          flows: result.flows,
+          bundleId,
+        });
 
         if (chatId && process.env.TELEGRAM_BOT_TOKEN) {
           const msg = `*Withdrawal Submitted*\n\nPool: ${poolAddress.slice(0, 8)}...\nBundle: \`${bundleId.slice(0, 16)}...\`\n\n_Check /positions in 30 seconds_`;
@@ -187,9 +239,18 @@ app.post('/execute', async (c) => {
         }
 
         stats.actions.lpWithdrawn++;
+
+        // Follow the bundle so the journal and its subscribers see it land
+        const status = await waitForBundle(bundleId, { timeoutMs: 60000 });
+        if (!status.landed) {
+          console.warn(`[Withdraw ${jobId}] Bundle ${bundleId} not confirmed: ${status.error}`);
+        }
       } catch (error: any) {
         console.error(`[Withdraw ${jobId}] Error:`, error);
         stats.errors++;
+        if (intentId) {
+          await failIntent(intentId, error.message || 'Unknown');
+        }
 
         if (chatId && process.env.TELEGRAM_BOT_TOKEN) {
           const msg = `*Withdrawal Failed*\n\nError: ${error.message || 'Unknown'}`;
@@ -206,6 +267,7 @@ app.post('/execute', async (c) => {
       success: true,
       message: 'Withdrawal started in background',
       jobId,
+      intentId,
       walletId,
       poolAddress,
       positionAddress,
@@ -228,15 +290,48 @@ app.post('/execute/sync', async (c) => {
       positionAddress,
       tipSpeed = 'fast',
       convertToSol = true,
+      dex = 'meteora',
     } = body;
 
     if (!walletId || !poolAddress || !positionAddress) {
       return c.json({ error: 'Missing walletId, poolAddress, or positionAddress' }, 400);
     }
+    if (dex !== 'meteora' && dex !== 'damm') {
+      return c.json({ error: 'Unknown dex. Use one of: meteora, damm' }, 400);
+    }
 
     const { client, wallet } = await loadWalletById(walletId);
     const walletAddress = wallet.address;
 
+    if (dex === 'damm') {
+      const { withdrawResult, bundleId, txHashes, status, submission } = await executeDammWithdraw({
+        walletId,
+        walletAddress,
+        positionAddress,
+        convertToSol,
+        tipSpeed: tipSpeed as TipSpeed,
+        signTransaction: (tx) => client.signTransaction(tx),
+      });
+      if (!status.landed) {
+        return c.json({ success: false, error: 'Withdrawal did not land', details: status.error, bundleId, submission }, 500);
+      }
+
+      stats.actions.lpWithdrawn++;
+      return c.json({
+        success: true,
+        message: 'DAMM withdrawal landed',
+        walletId,
+        walletAddress,
+        poolAddress: withdrawResult.poolAddress,
+        positionAddress,
+        bundleId,
+        txHashes: txHashes.length > 0 ? txHashes : undefined,
+        submission,
+        estimatedWithdraw: withdrawResult.estimatedWithdraw,
+        fees: withdrawResult.fees,
+      });
+    }
+
     const result = await buildAtomicWithdraw({
       walletAddress,
       poolAddress,
@@ -251,8 +346,17 @@ app.post('/execute/sync', async (c) => {
       signedTxs.push(signedTx);
     }
 
-    const { bundleId } = await sendBundle(signedTxs);
+    const { bundleId, simulation } = await sendBundleWithSimulation(signedTxs, {
+      walletAddress,
+      swaps: result.flows.swaps,
+      withdrawals: expectedWithdrawals(result.flows),
+    });
     await invalidatePositionCache(walletId);
+    await recordLpExit({
+      walletAddress, poolAddress, positionId: positionAddress, dex: 'meteora',
+      flows: result.flows,
+      bundleId,
+    });
 
     stats.actions.lpWithdrawn++;
     return c.json({
@@ -265,8 +369,10 @@ app.post('/execute/sync', async (c) => {
       bundle: {
         bundleId,
         submitted: true,
+        tipLamports: result.flows.tipLamports,
         hint: 'Bundle submitted to Jito - check Solscan in 30-60 seconds for confirmation',
       },
+      simulation,
       estimatedWithdraw: result.estimatedWithdraw,
       fee: result.fee,
       pnl: result.pnl,
@@ -350,6 +456,24 @@ app.post('/direct', async (c) => {
       }
     }
 
+    const [decimalsX, decimalsY] = [pool.tokenX.mint.decimals, pool.tokenY.mint.decimals];
+    const [mintX, mintY] = [pool.tokenX.publicKey.toBase58(), pool.tokenY.publicKey.toBase58()];
+    await recordLpExit({
+      walletAddress: wallet.address, poolAddress, positionId: positionAddress, dex: 'meteora',
+      flows: {
+        tokenX: { mint: mintX, amount: fromBaseUnits(positionData.totalXAmount || '0', decimalsX) },
+        tokenY: { mint: mintY, amount: fromBaseUnits(positionData.totalYAmount || '0', decimalsY) },
+        fees: [
+          { mint: mintX, amount: fromBaseUnits(positionData.feeX || '0', decimalsX) },
+          { mint: mintY, amount: fromBaseUnits(positionData.feeY || '0', decimalsY) },
+        ],
+        protocolFee: [],
+        swaps: [],
+        tipLamports: 0,
+      },
+      txHashes,
+    });
+
     return c.json({
       success: true,
       message: 'Position closed via direct RPC',
@@ -387,7 +511,7 @@ export function feeRoutes() {
         }, 400);
       }
 
-      const connection = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+      const connection = createConnection();
       const pool = await DLMM.create(connection, new PublicKey(poolAddress));
 
       const userPositions = await pool.getPositionsByUserAndLbPair(new PublicKey(walletAddress));
@@ -457,7 +581,7 @@ export function feeRoutes() {
         }, 400);
       }
 
-      const connection = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+      const connection = createConnection();
       const pool = await DLMM.create(connection, new PublicKey(poolAddress));
 
       const userPositions = await pool.getPositionsByUserAndLbPair(new PublicKey(walletAddress));
@@ -519,5 +643,111 @@ export function feeRoutes() {
     }
   });
 
+  /**
+   * POST /fees/compound/policies
+   * Auto-compound a position: the worker claims its fees and adds them back,
+   * every intervalHours or once fees reach feeMultiple x the tx cost.
+   */
+  feeApp.post('/compound/policies', async (c) => {
+    try {
+      const body = await c.req.json();
+      const {
+        walletId, positionAddress, poolAddress, poolName, dex = 'meteora',
+        trigger = 'fee-multiple', intervalHours, feeMultiple, slippageBps,
+      } = body;
+
+      if (!walletId || !positionAddress || !poolAddress) {
+        return c.json({
+          error: 'Missing required parameters',
+          example: {
+            walletId: 'your-wallet-id',
+            positionAddress: 'position-address (Orca/Raydium: position NFT mint)',
+            poolAddress: 'pool-address',
+            dex: 'meteora',
+            trigger: 'fee-multiple',
+            feeMultiple: 10,
+          },
+        }, 400);
+      }
+      if (!COMPOUND_DEXES.includes(dex)) {
+        return c.json({ error: `Unknown dex. Use one of: ${COMPOUND_DEXES.join(', ')}` }, 400);
+      }
+      if (!COMPOUND_TRIGGERS.includes(trigger)) {
+        return c.json({ error: `Unknown trigger. Use one of: ${COMPOUND_TRIGGERS.join(', ')}` }, 400);
+      }
+
+      const { wallet } = await loadWalletById(walletId);
+      const policy = await createCompoundPolicy({
+        positionId: positionAddress,
+        walletId,
+        walletAddress: wallet.address,
+        poolAddress,
+        poolName,
+        dex,
+        trigger,
+        intervalHours,
+        feeMultiple,
+        slippageBps,
+      });
+
+      return c.json({ success: true, policy });
+    } catch (error: any) {
+      console.error('[Compound] Policy error:', error.message);
+      return c.json({ error: 'Could not set compound policy', details: error.message }, 400);
+    }
+  });
+
+  /**
+   * GET /fees/compound/policies?walletId=...
+   */
+  feeApp.get('/compound/policies', async (c) => {
+    const walletId = c.req.query('walletId');
+    if (!walletId) return c.json({ error: 'walletId query parameter required' }, 400);
+
+    const policies = await getWalletCompoundPolicies(walletId);
+    return c.json({ success: true, policies });
+  });
+
+  /**
+   * GET /fees/compound/policies/:positionAddress
+   * Policy plus recent compound history.
+   */
+  feeApp.get('/compound/policies/:positionAddress', async (c) => {
+    const positionAddress = c.req.param('positionAddress');
+    const policy = await getCompoundPolicy(positionAddress);
+    if (!policy) return c.json({ error: 'No compound policy for this position' }, 404);
+    if (!authorizeWallet(c, policy.walletId)) return forbidWallet(c, policy.walletId);
+
+    const history = await getCompoundHistory(positionAddress, parseInt(c.req.query('limit') || '10'));
+    return c.json({ success: true, policy, history });
+  });
+
+  /**
+   * POST /fees/compound/policies/:positionAddress/resume
+   * Resume a policy paused after repeated failures.
+   */
+  feeApp.post('/compound/policies/:positionAddress/resume', async (c) => {
+    const positionAddress = c.req.param('positionAddress');
+    const policy = await getCompoundPolicy(positionAddress);
+    if (policy && !authorizeWallet(c, policy.walletId)) return forbidWallet(c, policy.walletId);
+
+    const resumed = await resumeCompoundPolicy(positionAddress);
+    if (!resumed) return c.json({ error: 'No paused compound policy for this position' }, 404);
+    return c.json({ success: true });
+  });
+
+  /**
+   * DELETE /fees/compound/policies/:positionAddress
+   */
+  feeApp.delete('/compound/policies/:positionAddress', async (c) => {
+    const positionAddress = c.req.param('positionAddress');
+    const policy = await getCompoundPolicy(positionAddress);
+    if (policy && !authorizeWallet(c, policy.walletId)) return forbidWallet(c, policy.walletId);
+
+    const cancelled = await cancelCompoundPolicy(positionAddress);
+    if (!cancelled) return c.json({ error: 'No compound policy for this position' }, 404);
+    return c.json({ success: true });
+  });
+
   return feeApp;
 }
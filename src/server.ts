@@ -12,6 +12,7 @@ import { cors } from 'hono/cors';
 import { serve } from '@hono/node-server';
 import { stats } from './services/stats.js';
 import { FEE_CONFIG } from './services/pool-service.js';
+import { config } from './config/index.js';
 
 // Import route modules
 import {
@@ -35,6 +36,7 @@ import {
   telegramRoutes,
   chatRoutes,
   portfolioRoutes,
+  operationsRoutes,
   initializeMonitoring,
   startMonitoringInterval,
 } from './routes/index.js';
@@ -45,12 +47,17 @@ import actionsRoutes from './routes/actions.js';
 import unifiedLpRoutes from './routes/unified-lp.js';
 import raydiumRoutes from './routes/raydium.js';
 import capabilitiesRoutes from './routes/capabilities.js';
+import backtestRoutes from './routes/backtest.js';
+import keyRoutes from './routes/keys.js';
+import usageRoutes from './routes/usage.js';
 
 // Import bot
 import { createBot, initBot, getBot, getBotWebhookHandler } from './bot/index.js';
 
 // Import middleware
 import { requestIdMiddleware } from './middleware/requestId.js';
+import { apiKeyAuth } from './middleware/auth.js';
+import { rateLimit } from './middleware/rateLimit.js';
 
 // Import worker
 import { startWorker, isWorkerRunning } from './monitoring/index.js';
@@ -65,6 +72,12 @@ app.use('*', cors());
 // Request ID middleware - generates unique ID for each request, logs timing
 app.use('*', requestIdMiddleware);
 
+// API keys - scopes, wallet binding and per-key audit log (see middleware/auth.ts)
+app.use('*', apiKeyAuth);
+
+// Token buckets per key / IP and per wallet, read vs transaction budgets (see middleware/rateLimit.ts)
+app.use('*', rateLimit);
+
 // Stats tracking middleware
 app.use('*', async (c, next) => {
   const path = new URL(c.req.url).pathname;
@@ -94,6 +107,7 @@ app.route('/lp/withdraw', withdrawRoutes);
 app.route('/lp/rebalance', rebalanceRoutes);
 app.route('/unified', unifiedLpRoutes);
 app.route('/swap', swapRoutes);
+app.route('/operations', operationsRoutes);
 app.route('/encrypt', encryptRoutes);
 
 // Fee routes
@@ -150,6 +164,13 @@ app.route('/raydium', raydiumRoutes);
 // Portfolio routes (aggregated across all DEXes)
 app.route('/portfolio', portfolioRoutes);
 
+// Strategy backtester
+app.route('/backtest', backtestRoutes);
+
+// API key management (admin key only)
+app.route('/keys', keyRoutes);
+app.route('/usage', usageRoutes);
+
 // Capabilities showcase (for demos)
 app.route('/capabilities', capabilitiesRoutes);
 
@@ -159,7 +180,7 @@ app.route('/', actionsRoutes);
 // Debug Jupiter test
 app.get('/debug/jupiter-test', async (c) => {
   const jupiterApiKey = process.env.JUPITER_API_KEY;
-  const testUrl = 'https://api.jup.ag/swap/v1/quote?inputMint=EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v&outputMint=So11111111111111111111111111111111111111112&amount=1000000&slippageBps=100';
+  const testUrl = `${config.jupiter.baseUrl}/quote?inputMint=EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v&outputMint=So11111111111111111111111111111111111111112&amount=1000000&slippageBps=100`;
 
   const headers: Record<string, string> = { 'Accept': 'application/json' };
   if (jupiterApiKey) {
@@ -12,7 +12,7 @@ export interface RebalanceAnalysis {
   positionAddress: string;
   poolAddress: string;
   poolName: string;
-  dex: 'meteora' | 'orca';
+  dex: 'meteora' | 'orca' | 'raydium';
   
   /** Current status */
   inRange: boolean;
@@ -43,7 +43,7 @@ export interface RebalanceAnalysis {
 export interface RebalanceParams {
   positionAddress: string;
   poolAddress: string;
-  dex: 'meteora' | 'orca';
+  dex: 'meteora' | 'orca' | 'raydium';
   walletId: string;
   walletAddress: string;
   newRangeLower: number;
@@ -58,7 +58,7 @@ export function analyzePosition(params: {
   positionAddress: string;
   poolAddress: string;
   poolName: string;
-  dex: 'meteora' | 'orca';
+  dex: 'meteora' | 'orca' | 'raydium';
   currentPrice: number;
   lowerBound: number;
   upperBound: number;
@@ -203,6 +203,7 @@ export function formatRebalanceAnalysis(analysis: RebalanceAnalysis): string {
 export async function checkAllPositions(walletAddress: string): Promise<RebalanceAnalysis[]> {
   const { getUserPositions } = await import('../onboarding/index.js');
   const { getOrcaPositionsForWallet } = await import('./orca-service.js');
+  const { fetchRaydiumPositions } = await import('../raydium/index.js');
 
   const analyses: RebalanceAnalysis[] = [];
 
@@ -250,6 +251,28 @@ export async function checkAllPositions(walletAddress: string): Promise<Rebalanc
     console.error('[AutoRebalance] Error checking Orca positions:', err);
   }
 
+  // Check Raydium positions
+  try {
+    const raydiumPositions = await fetchRaydiumPositions(walletAddress);
+    for (const pos of raydiumPositions) {
+      const analysis = analyzePosition({
+        positionAddress: pos.positionMint,
+        poolAddress: pos.poolAddress,
+        poolName: pos.poolName,
+        dex: 'raydium',
+        currentPrice: pos.currentPrice,
+        lowerBound: pos.priceLower,
+        upperBound: pos.priceUpper,
+      });
+      
+      if (analysis.action !== 'hold') {
+        analyses.push(analysis);
+      }
+    }
+  } catch (err) {
+    console.error('[AutoRebalance] Error checking Raydium positions:', err);
+  }
+
   // Sort by urgency
   const urgencyOrder = { critical: 0, high: 1, medium: 2, low: 3 };
   analyses.sort((a, b) => urgencyOrder[a.urgency] - urgencyOrder[b.urgency]);
@@ -0,0 +1,512 @@
+/**
+ * Auto-Compound Service
+ *
+ * Per-position policies that claim unclaimed fees and add them back into the
+ * same position, either on a fixed interval or once fees are worth N times
+ * the transaction cost. Policies are stored in the shared store and executed
+ * by the monitoring worker; results go out through the notification system.
+ *
+ * Claims and adds are sent as plain transactions, one confirmed before the
+ * next, so there is no Jito tip in the cost.
+ */
+
+import { PublicKey, type Transaction } from '@solana/web3.js';
+import DLMM from '@meteora-ag/dlmm';
+import BN from 'bn.js';
+import { getStore } from '../storage/index.js';
+import { getConnection } from './connection-pool.js';
+import { invalidatePositionCache } from './lp-service.js';
+import { loadWalletById } from './wallet-service.js';
+import { MeteoraDirectClient } from '../dex/meteora.js';
+import { buildOrcaFeeClaimTx, buildOrcaIncreaseLiquidityTx, quoteOrcaClaimableFees } from '../orca/index.js';
+import { buildRaydiumClaimFees, buildRaydiumIncreaseLiquidity, quoteRaydiumClaimableFees } from '../raydium/index.js';
+import { recordFeeClaim, recordLpEntry, fromBaseUnits, type LpEntryFlows, type TokenFlow } from '../ledger/index.js';
+import { sendAlert as sendNotification } from '../notifications/index.js';
+import { getTokenPrices } from '../utils/prices.js';
+import { operationLock } from '../utils/operation-lock.js';
+
+// Storage keys
+const KEYS = {
+  POLICIES: 'lp-toolkit:compound:policies',
+  HISTORY: 'lp-toolkit:compound:history',
+  ACTIVE: 'lp-toolkit:compound:active',
+};
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const TX_FEE_LAMPORTS = 35_000; // Base fee + priority fee per transaction
+const TXS_PER_COMPOUND = 2; // Claim + add
+const FEE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+export type CompoundDex = 'meteora' | 'orca' | 'raydium';
+export type CompoundTrigger = 'interval' | 'fee-multiple';
+
+export interface CompoundPolicy {
+  positionId: string; // Position account (Meteora) or position NFT mint (Orca, Raydium)
+  walletId: string;
+  walletAddress: string;
+  poolAddress: string;
+  poolName: string;
+  dex: CompoundDex;
+
+  // Trigger
+  trigger: CompoundTrigger;
+  intervalHours: number; // interval: compound every N hours
+  feeMultiple: number; // fee-multiple: compound once fees reach N x the tx cost
+  slippageBps: number;
+
+  // State
+  status: 'active' | 'paused' | 'cancelled';
+  nextCheckAt: number; // timestamp ms
+  createdAt: number;
+  compoundCount: number;
+  totalCompoundedUsd: number;
+  lastCheckedAt?: number;
+  lastFeesUsd?: number;
+  lastCompoundedAt?: number;
+  failureCount: number;
+  lastError?: string;
+}
+
+export interface CompoundExecution {
+  positionId: string;
+  executedAt: number;
+  trigger: CompoundTrigger;
+  fees: TokenFlow[];
+  feesUsd: number;
+  estimatedCostUsd: number;
+  success: boolean;
+  claimed: boolean; // Fees left the position (they may be in the wallet if the add failed)
+  txHashes: string[];
+  error?: string;
+}
+
+interface ClaimableFees {
+  poolAddress: string;
+  tokenA: TokenFlow;
+  tokenB: TokenFlow;
+  baseUnits: { tokenA: BN; tokenB: BN };
+}
+
+/**
+ * Create or replace the compounding policy for a position the wallet owns.
+ * Another wallet's live policy on the same position is never replaced.
+ */
+export async function createCompoundPolicy(params: {
+  positionId: string;
+  walletId: string;
+  walletAddress: string;
+  poolAddress: string;
+  poolName?: string;
+  dex: CompoundDex;
+  trigger: CompoundTrigger;
+  intervalHours?: number;
+  feeMultiple?: number;
+  slippageBps?: number;
+}): Promise<CompoundPolicy> {
+  const intervalHours = params.intervalHours ?? 24;
+  const feeMultiple = params.feeMultiple ?? 10;
+  if (params.trigger === 'interval' && !(intervalHours >= 1)) {
+    throw new Error('intervalHours must be at least 1');
+  }
+  if (params.trigger === 'fee-multiple' && !(feeMultiple >= 1)) {
+    throw new Error('feeMultiple must be at least 1');
+  }
+
+  // Policies are keyed by position, so another wallet's must not be replaced
+  const existing = await getCompoundPolicy(params.positionId);
+  if (existing && existing.status !== 'cancelled' && existing.walletId !== params.walletId) {
+    throw new Error(`Position ${params.positionId} already has a compound policy for another wallet`);
+  }
+  if (!(await isPositionOwner(params.dex, params.positionId, params.poolAddress, params.walletAddress))) {
+    throw new Error(`Position ${params.positionId} is not owned by wallet ${params.walletAddress}`);
+  }
+
+  const policy: CompoundPolicy = {
+    positionId: params.positionId,
+    walletId: params.walletId,
+    walletAddress: params.walletAddress,
+    poolAddress: params.poolAddress,
+    poolName: params.poolName || `${params.poolAddress.slice(0, 8)}...`,
+    dex: params.dex,
+    trigger: params.trigger,
+    intervalHours,
+    feeMultiple,
+    slippageBps: params.slippageBps ?? 100,
+    status: 'active',
+    nextCheckAt: params.trigger === 'interval'
+      ? Date.now() + intervalHours * 60 * 60 * 1000
+      : Date.now(),
+    createdAt: Date.now(),
+    compoundCount: 0,
+    totalCompoundedUsd: 0,
+    failureCount: 0,
+  };
+
+  await updateCompoundPolicy(policy);
+
+  const when = policy.trigger === 'interval'
+    ? `every ${intervalHours}h`
+    : `when fees reach ${feeMultiple}x tx cost`;
+  console.log(`[Compound] Policy set for ${policy.dex} position ${policy.positionId.slice(0, 8)}... (${when})`);
+
+  return policy;
+}
+
+/**
+ * Whether a wallet holds a position: the owner of a Meteora position
+ * account, or the holder of an Orca / Raydium position NFT
+ */
+async function isPositionOwner(dex: CompoundDex, positionId: string, poolAddress: string, walletAddress: string): Promise<boolean> {
+  const connection = getConnection();
+  if (dex === 'meteora') {
+    const pool = await DLMM.create(connection, new PublicKey(poolAddress));
+    const { positionData } = await pool.getPosition(new PublicKey(positionId));
+    return positionData.owner.toBase58() === walletAddress;
+  }
+
+  const { value } = await connection.getParsedTokenAccountsByOwner(
+    new PublicKey(walletAddress),
+    { mint: new PublicKey(positionId) },
+  );
+  return value.some(a => a.account.data.parsed?.info?.tokenAmount?.amount === '1');
+}
+
+/**
+ * Get the compounding policy for a position
+ */
+export async function getCompoundPolicy(positionId: string): Promise<CompoundPolicy | null> {
+  return getStore().hget<CompoundPolicy>(KEYS.POLICIES, positionId);
+}
+
+/**
+ * Get all active compounding policies
+ */
+export async function getActiveCompoundPolicies(): Promise<CompoundPolicy[]> {
+  const store = getStore();
+  const ids = await store.smembers(KEYS.ACTIVE);
+
+  const policies: CompoundPolicy[] = [];
+  for (const id of ids) {
+    const policy = await store.hget<CompoundPolicy>(KEYS.POLICIES, id as string);
+    if (policy) policies.push(policy);
+  }
+  return policies;
+}
+
+/**
+ * Get compounding policies for a wallet (active and paused)
+ */
+export async function getWalletCompoundPolicies(walletId: string): Promise<CompoundPolicy[]> {
+  const all = await getStore().hgetall<Record<string, CompoundPolicy>>(KEYS.POLICIES);
+  return Object.values(all || {}).filter(p => p.walletId === walletId && p.status !== 'cancelled');
+}
+
+/**
+ * Save a policy and keep the active set in sync
+ */
+export async function updateCompoundPolicy(policy: CompoundPolicy): Promise<void> {
+  const store = getStore();
+  await store.hset(KEYS.POLICIES, { [policy.positionId]: policy });
+
+  if (policy.status === 'active') {
+    await store.sadd(KEYS.ACTIVE, policy.positionId);
+  } else {
+    await store.srem(KEYS.ACTIVE, policy.positionId);
+  }
+}
+
+/**
+ * Stop compounding a position
+ */
+export async function cancelCompoundPolicy(positionId: string): Promise<boolean> {
+  const policy = await getCompoundPolicy(positionId);
+  if (!policy || policy.status === 'cancelled') return false;
+
+  policy.status = 'cancelled';
+  await updateCompoundPolicy(policy);
+
+  console.log(`[Compound] Cancelled policy for ${positionId.slice(0, 8)}...`);
+  return true;
+}
+
+/**
+ * Resume a policy paused after repeated failures
+ */
+export async function resumeCompoundPolicy(positionId: string): Promise<boolean> {
+  const policy = await getCompoundPolicy(positionId);
+  if (!policy || policy.status !== 'paused') return false;
+
+  policy.status = 'active';
+  policy.failureCount = 0;
+  policy.nextCheckAt = Date.now();
+  await updateCompoundPolicy(policy);
+
+  console.log(`[Compound] Resumed policy for ${positionId.slice(0, 8)}...`);
+  return true;
+}
+
+/**
+ * Get compound execution history for a position
+ */
+export async function getCompoundHistory(positionId: string, limit: number = 10): Promise<CompoundExecution[]> {
+  return getStore().lrange<CompoundExecution>(`${KEYS.HISTORY}:${positionId}`, 0, limit - 1);
+}
+
+/**
+ * Estimated SOL cost of one compound (claim + add)
+ */
+export function estimateCompoundCostSol(): number {
+  return (TXS_PER_COMPOUND * TX_FEE_LAMPORTS) / 1e9;
+}
+
+async function quoteClaimableFees(policy: CompoundPolicy): Promise<ClaimableFees> {
+  if (policy.dex === 'orca') return quoteOrcaClaimableFees(policy.positionId);
+  if (policy.dex === 'raydium') return quoteRaydiumClaimableFees(policy.positionId);
+
+  const pool = await DLMM.create(getConnection(), new PublicKey(policy.poolAddress));
+  const { positionData } = await pool.getPosition(new PublicKey(policy.positionId));
+  const feeX = new BN(positionData.feeX?.toString() || '0');
+  const feeY = new BN(positionData.feeY?.toString() || '0');
+  return {
+    poolAddress: policy.poolAddress,
+    tokenA: { mint: pool.tokenX.publicKey.toBase58(), amount: fromBaseUnits(feeX, pool.tokenX.mint.decimals) },
+    tokenB: { mint: pool.tokenY.publicKey.toBase58(), amount: fromBaseUnits(feeY, pool.tokenY.mint.decimals) },
+    baseUnits: { tokenA: feeX, tokenB: feeY },
+  };
+}
+
+async function buildClaimTxs(policy: CompoundPolicy): Promise<string[]> {
+  if (policy.dex === 'orca') return buildOrcaFeeClaimTx(policy.walletAddress, policy.positionId);
+  if (policy.dex === 'raydium') {
+    const built = await buildRaydiumClaimFees({
+      walletAddress: policy.walletAddress,
+      positionMint: policy.positionId,
+      skipTip: true,
+    });
+    return built.unsignedTransactions;
+  }
+
+  // Meteora: same claim path as /fees/claim
+  const connection = getConnection();
+  const owner = new PublicKey(policy.walletAddress);
+  const pool = await DLMM.create(connection, new PublicKey(policy.poolAddress));
+  const position = await pool.getPosition(new PublicKey(policy.positionId));
+  const claimTxs: Transaction[] = await pool.claimSwapFee({ owner, position });
+
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  return claimTxs.map(tx => {
+    tx.recentBlockhash = blockhash;
+    tx.feePayer = owner;
+    return tx.serialize({ requireAllSignatures: false }).toString('base64');
+  });
+}
+
+async function buildAddTxs(
+  policy: CompoundPolicy,
+  fees: ClaimableFees,
+): Promise<{ unsignedTransactions: string[]; flows: LpEntryFlows }> {
+  const { walletAddress, positionId, slippageBps } = policy;
+  const { tokenA: amountA, tokenB: amountB } = fees.baseUnits;
+
+  if (policy.dex === 'orca') {
+    return buildOrcaIncreaseLiquidityTx({ walletAddress, positionMintAddress: positionId, amountA, amountB, slippageBps });
+  }
+  if (policy.dex === 'raydium') {
+    return buildRaydiumIncreaseLiquidity({ walletAddress, positionMint: positionId, amountA, amountB, slippageBps, skipTip: true });
+  }
+
+  const meteora = new MeteoraDirectClient(getConnection().rpcEndpoint);
+  const { transactions } = await meteora.buildAddToExistingPositionTx({
+    poolAddress: policy.poolAddress,
+    positionAddress: positionId,
+    userPublicKey: walletAddress,
+    amountX: amountA.toNumber(),
+    amountY: amountB.toNumber(),
+    slippageBps,
+  });
+  return {
+    unsignedTransactions: transactions,
+    flows: { tokenX: fees.tokenA, tokenY: fees.tokenB, swaps: [], tipLamports: 0 },
+  };
+}
+
+/**
+ * Sign, send and confirm transactions one at a time
+ */
+async function sendInOrder(client: any, unsignedTxs: string[]): Promise<string[]> {
+  const connection = getConnection();
+  const txHashes: string[] = [];
+  for (const unsignedTx of unsignedTxs) {
+    const signedTx = await client.signTransaction(unsignedTx);
+    const txHash = await connection.sendRawTransaction(Buffer.from(signedTx, 'base64'));
+    await connection.confirmTransaction(txHash, 'confirmed');
+    txHashes.push(txHash);
+  }
+  return txHashes;
+}
+
+async function notifyResult(policy: CompoundPolicy, execution: CompoundExecution): Promise<void> {
+  const feeText = `$${execution.feesUsd.toFixed(2)} in fees (est. cost $${execution.estimatedCostUsd.toFixed(3)})`;
+  let message: string;
+  if (execution.success) {
+    message = `Compounded ${feeText}. Total compounded: $${policy.totalCompoundedUsd.toFixed(2)} over ${policy.compoundCount} runs.`;
+  } else if (execution.claimed) {
+    message = `Fees were claimed to your wallet but could not be added back: ${execution.error}`;
+  } else {
+    message = execution.error || 'Unknown error';
+  }
+  if (policy.status === 'paused') {
+    message += ` Auto-compound paused after ${policy.failureCount} failures.`;
+  }
+
+  await sendNotification(policy.walletId, {
+    event: execution.success ? 'compound_complete' : 'compound_failed',
+    walletId: policy.walletId,
+    timestamp: new Date(execution.executedAt).toISOString(),
+    position: {
+      address: policy.positionId,
+      poolName: policy.poolName,
+      poolAddress: policy.poolAddress,
+    },
+    details: {
+      message,
+      dex: policy.dex,
+      trigger: policy.trigger,
+      fees: execution.fees,
+      feesUsd: execution.feesUsd,
+      txHashes: execution.txHashes,
+    },
+  }).catch(e => console.warn('[Compound] Notification failed:', e.message));
+}
+
+/**
+ * Check one policy and compound if its trigger is met
+ */
+export async function runCompoundPolicy(policy: CompoundPolicy): Promise<CompoundExecution | null> {
+  if (!await operationLock.tryAcquire(policy.walletId, 'compound')) {
+    return null; // Another compound for this wallet is in flight; retry on the next pass
+  }
+
+  const now = Date.now();
+  const execution: CompoundExecution = {
+    positionId: policy.positionId,
+    executedAt: now,
+    trigger: policy.trigger,
+    fees: [],
+    feesUsd: 0,
+    estimatedCostUsd: 0,
+    success: false,
+    claimed: false,
+    txHashes: [],
+  };
+
+  try {
+    const fees = await quoteClaimableFees(policy);
+    const prices = await getTokenPrices([fees.tokenA.mint, fees.tokenB.mint, SOL_MINT]);
+    const solPrice = prices.get(SOL_MINT);
+    if (!solPrice) throw new Error('Could not fetch SOL price for the cost check');
+
+    execution.fees = [fees.tokenA, fees.tokenB].filter(f => f.amount > 0);
+    execution.feesUsd = fees.tokenA.amount * (prices.get(fees.tokenA.mint) || 0)
+      + fees.tokenB.amount * (prices.get(fees.tokenB.mint) || 0);
+    execution.estimatedCostUsd = estimateCompoundCostSol() * solPrice;
+
+    policy.lastCheckedAt = now;
+    policy.lastFeesUsd = execution.feesUsd;
+
+    const belowThreshold = policy.trigger === 'fee-multiple'
+      && execution.feesUsd < policy.feeMultiple * execution.estimatedCostUsd;
+    if (execution.fees.length === 0 || belowThreshold) {
+      policy.nextCheckAt = policy.trigger === 'interval'
+        ? now + policy.intervalHours * 60 * 60 * 1000
+        : now + FEE_CHECK_INTERVAL_MS;
+      await updateCompoundPolicy(policy);
+      return null;
+    }
+
+    console.log(`[Compound] Compounding ${policy.dex} position ${policy.positionId.slice(0, 8)}...: $${execution.feesUsd.toFixed(2)} in fees`);
+
+    const { client } = await loadWalletById(policy.walletId);
+
+    const claimHashes = await sendInOrder(client, await buildClaimTxs(policy));
+    execution.claimed = true;
+    execution.txHashes.push(...claimHashes);
+    await recordFeeClaim({
+      walletAddress: policy.walletAddress,
+      poolAddress: fees.poolAddress,
+      dex: policy.dex,
+      positionId: policy.positionId,
+      fees: execution.fees,
+      txHashes: claimHashes,
+    });
+
+    const add = await buildAddTxs(policy, fees);
+    const addHashes = await sendInOrder(client, add.unsignedTransactions);
+    execution.txHashes.push(...addHashes);
+    await recordLpEntry({
+      walletAddress: policy.walletAddress,
+      poolAddress: fees.poolAddress,
+      dex: policy.dex,
+      positionId: policy.positionId,
+      type: 'compound',
+      flows: add.flows,
+      txHashes: addHashes,
+    });
+
+    execution.success = true;
+    policy.compoundCount++;
+    policy.totalCompoundedUsd += execution.feesUsd;
+    policy.lastCompoundedAt = now;
+    policy.failureCount = 0;
+    policy.lastError = undefined;
+  } catch (error: any) {
+    console.error(`[Compound] Failed for ${policy.positionId}:`, error.message);
+    execution.error = error.message || 'Unknown error';
+    policy.failureCount++;
+    policy.lastError = execution.error;
+    if (policy.failureCount >= MAX_CONSECUTIVE_FAILURES) {
+      policy.status = 'paused';
+    }
+  } finally {
+    await operationLock.release(policy.walletId, 'compound');
+  }
+
+  policy.nextCheckAt = policy.trigger === 'interval'
+    ? now + policy.intervalHours * 60 * 60 * 1000
+    : now + FEE_CHECK_INTERVAL_MS;
+  await updateCompoundPolicy(policy);
+
+  if (execution.claimed) {
+    await invalidatePositionCache(policy.walletId);
+  }
+
+  const store = getStore();
+  await store.lpush(`${KEYS.HISTORY}:${policy.positionId}`, execution);
+  await store.ltrim(`${KEYS.HISTORY}:${policy.positionId}`, 0, 49); // Keep last 50
+
+  // Quote failures on a quiet position aren't worth a message until the policy pauses
+  if (execution.claimed || execution.success || policy.status === 'paused') {
+    await notifyResult(policy, execution);
+  }
+
+  return execution;
+}
+
+/**
+ * Process all due compounding policies (called by worker)
+ */
+export async function processDueCompounds(): Promise<number> {
+  const policies = await getActiveCompoundPolicies();
+  const now = Date.now();
+  let compounded = 0;
+
+  for (const policy of policies) {
+    if (policy.status === 'active' && policy.nextCheckAt <= now) {
+      const execution = await runCompoundPolicy(policy);
+      if (execution?.success) compounded++;
+    }
+  }
+
+  return compounded;
+}
@@ -14,6 +14,7 @@
 
 import { Connection, Commitment } from '@solana/web3.js';
 import { config } from '../config/index.js';
+import { createFixtureConnection } from '../offline/fixtureConnection.js';
 
 // Default commitment level for LP operations
 // Using 'finalized' for Privy RPC compatibility
@@ -22,6 +23,24 @@ const DEFAULT_COMMITMENT: Commitment = 'finalized';
 // Singleton connection instance
 let sharedConnection: Connection | null = null;
 
+function resolveRpcUrl(): string {
+  return config.solana?.rpc || process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+}
+
+/**
+ * Fixture-backed connection when offline mode is configured, otherwise null
+ */
+function createOfflineConnection(rpcUrl: string, commitment: Commitment): Connection | null {
+  if (!config.offline.fixturesDir) return null;
+
+  return createFixtureConnection({
+    rpcUrl,
+    fixturesDir: config.offline.fixturesDir,
+    mode: config.offline.mode,
+    commitment,
+  });
+}
+
 /**
  * Get the shared RPC connection.
  * Creates a new connection on first call, reuses on subsequent calls.
@@ -31,9 +50,9 @@ let sharedConnection: Connection | null = null;
  */
 export function getConnection(commitment?: Commitment): Connection {
   if (!sharedConnection) {
-    const rpcUrl = config.solana?.rpc || process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+    const rpcUrl = resolveRpcUrl();
     
-    sharedConnection = new Connection(rpcUrl, {
+    sharedConnection = createOfflineConnection(rpcUrl, commitment || DEFAULT_COMMITMENT) ?? new Connection(rpcUrl, {
       commitment: commitment || DEFAULT_COMMITMENT,
       // Connection config for optimal performance
       confirmTransactionInitialTimeout: 60000,
@@ -49,10 +68,11 @@ export function getConnection(commitment?: Commitment): Connection {
 /**
  * Get a fresh connection (for one-off operations that need isolation)
  * Use sparingly - prefer getConnection() for most operations.
+ * Pass rpcUrl to target a different endpoint than config.solana.rpc.
  */
-export function createConnection(commitment?: Commitment): Connection {
-  const rpcUrl = config.solana?.rpc || process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
-  return new Connection(rpcUrl, commitment || DEFAULT_COMMITMENT);
+export function createConnection(commitment?: Commitment, rpcUrl: string = resolveRpcUrl()): Connection {
+  return createOfflineConnection(rpcUrl, commitment || DEFAULT_COMMITMENT)
+    ?? new Connection(rpcUrl, commitment || DEFAULT_COMMITMENT);
 }
 
 /**
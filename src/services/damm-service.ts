@@ -0,0 +1,120 @@
+/**
+ * DAMM Service - Meteora DAMM v2 operation orchestration for routes and bot
+ */
+
+import { buildDammAtomicLP } from '../damm/atomic.js';
+import { buildDammWithdraw } from '../damm/atomicWithdraw.js';
+import { discoverDammPositions } from '../damm/positions.js';
+import { submitAtomic } from '../submission/index.js';
+import { invalidatePositionCache } from './lp-service.js';
+import { recordLpEntry, recordLpExit } from '../ledger/index.js';
+import { expectedWithdrawals, type TipSpeed } from '../jito/index.js';
+
+export interface DammLpExecuteParams {
+  walletId: string;
+  walletAddress: string;
+  poolAddress: string;
+  amountSol: number;
+  tipSpeed?: TipSpeed;
+  slippageBps?: number;
+  signTransaction: (tx: string) => Promise<string>;
+}
+
+export async function executeDammLp(params: DammLpExecuteParams) {
+  const {
+    walletId, walletAddress, poolAddress, amountSol,
+    tipSpeed = 'fast', slippageBps = 300, signTransaction,
+  } = params;
+
+  console.log(`[DAMM Service] Building LP for pool ${poolAddress}, amount ${amountSol} SOL`);
+
+  // Jito bundle, falling back to RPC per the wallet's submission policy
+  const { built, bundleId, txHashes, status, submission } = await submitAtomic({
+    walletId,
+    walletAddress,
+    build: ({ skipTip }) => buildDammAtomicLP({
+      walletAddress,
+      poolAddress,
+      amountSol,
+      slippageBps,
+      tipSpeed,
+      skipTip,
+    }),
+    legs: (built) => ({
+      unsignedTransactions: built.unsignedTransactions,
+      swaps: built.flows.swaps,
+      signers: built.signers,
+      deposits: [built.flows.tokenX, built.flows.tokenY],
+    }),
+    signTransaction,
+  });
+  // Keypairs stay server-side
+  const { signers: _signers, ...lpResult } = built;
+
+  await invalidatePositionCache(walletId);
+  if (status.landed) {
+    await recordLpEntry({
+      walletAddress, poolAddress, dex: 'damm',
+      positionId: lpResult.positionAddress,
+      flows: lpResult.flows,
+      bundleId,
+      txHashes: txHashes.length > 0 ? txHashes : undefined,
+    });
+  }
+  return { lpResult, bundleId, txHashes, status, submission };
+}
+
+export interface DammWithdrawExecuteParams {
+  walletId: string;
+  walletAddress: string;
+  positionAddress: string;
+  convertToSol?: boolean;
+  tipSpeed?: TipSpeed;
+  slippageBps?: number;
+  signTransaction: (tx: string) => Promise<string>;
+}
+
+export async function executeDammWithdraw(params: DammWithdrawExecuteParams) {
+  const {
+    walletId, walletAddress, positionAddress, convertToSol,
+    tipSpeed = 'fast', slippageBps, signTransaction,
+  } = params;
+
+  console.log(`[DAMM Service] Building withdraw for position ${positionAddress}`);
+
+  const { built, bundleId, txHashes, status, submission } = await submitAtomic({
+    walletId,
+    walletAddress,
+    build: ({ skipTip }) => buildDammWithdraw({
+      walletAddress,
+      positionAddress,
+      convertToSol,
+      slippageBps,
+      tipSpeed,
+      skipTip,
+    }),
+    legs: (built) => ({
+      unsignedTransactions: built.unsignedTransactions,
+      swaps: built.flows.swaps,
+      signers: [],
+      withdrawals: expectedWithdrawals(built.flows),
+    }),
+    signTransaction,
+  });
+
+  await invalidatePositionCache(walletId);
+  if (status.landed) {
+    await recordLpExit({
+      walletAddress, poolAddress: built.poolAddress, dex: 'damm',
+      positionId: positionAddress,
+      flows: built.flows,
+      bundleId,
+      txHashes: txHashes.length > 0 ? txHashes : undefined,
+    });
+  }
+  return { withdrawResult: built, bundleId, txHashes, status, submission };
+}
+
+export async function getDammPositionsForWallet(walletAddress: string) {
+  return discoverDammPositions(walletAddress);
+}
@@ -2,16 +2,21 @@
  * DCA (Dollar Cost Averaging) Service
  * 
  * Enables users to set up recurring LP deposits into a pool.
- * Schedules are stored in Redis and executed by the monitoring worker.
+ * Schedules are stored in the shared store. The worker's leader enqueues each
+ * due slot as a job (keyed by schedule + slot, so a slot runs once) and any
+ * replica can execute it.
  */
 
-import { Redis } from '@upstash/redis';
+import { VersionedTransaction } from '@solana/web3.js';
+import { getStore } from '../storage/index.js';
+import { JobQueue } from '../jobs/index.js';
+import { runIntent } from '../journal/index.js';
 import { executeLp, type LpExecuteParams } from './lp-service.js';
 import { executeOrcaLp, type OrcaLpExecuteParams } from './orca-service.js';
 import { executeRaydiumLp, type RaydiumLpExecuteParams } from './raydium-service.js';
 import { loadWalletById } from './wallet-service.js';
 
-// Redis keys
+// Storage keys
 const KEYS = {
   DCA_SCHEDULES: 'lp-toolkit:dca:schedules',
   DCA_HISTORY: 'lp-toolkit:dca:history',
@@ -71,20 +76,12 @@ export interface DCAExecution {
   error?: string;
 }
 
-// Initialize Redis
-let redis: Redis | null = null;
-
-function getRedis(): Redis {
-  if (!redis) {
-    const url = process.env.UPSTASH_REDIS_REST_URL;
-    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-    
-    if (!url || !token) {
-      throw new Error('Redis not configured for DCA service (set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN)');
-    }
-    redis = new Redis({ url, token });
-  }
-  return redis;
+/**
+ * Stored JSON comes back already decoded from the store, but older entries
+ * may still be raw strings
+ */
+function parseStored<T>(data: T | string): T {
+  return typeof data === 'string' ? JSON.parse(data) as T : data;
 }
 
 /**
@@ -127,7 +124,7 @@ export async function createDCASchedule(params: {
   interval: DCAInterval;
   strategy?: 'tight' | 'balanced' | 'wide';
 }): Promise<DCASchedule> {
-  const redis = getRedis();
+  const store = getStore();
   
   const id = `dca_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const intervalMs = INTERVAL_MS[params.interval];
@@ -153,9 +150,8 @@ export async function createDCASchedule(params: {
     createdAt: Date.now(),
   };
   
-  // Store in Redis
-  await redis.hset(KEYS.DCA_SCHEDULES, { [id]: JSON.stringify(schedule) });
-  await redis.sadd(KEYS.DCA_ACTIVE, id);
+  await store.hset(KEYS.DCA_SCHEDULES, { [id]: JSON.stringify(schedule) });
+  await store.sadd(KEYS.DCA_ACTIVE, id);
   
   console.log(`[DCA] Created schedule ${id} for ${params.poolName}, ${params.amountPerExecution} SOL every ${params.interval}`);
   
@@ -166,17 +162,17 @@ export async function createDCASchedule(params: {
  * Get all active DCA schedules
  */
 export async function getActiveDCASchedules(): Promise<DCASchedule[]> {
-  const redis = getRedis();
+  const store = getStore();
   
-  const activeIds = await redis.smembers(KEYS.DCA_ACTIVE);
+  const activeIds = await store.smembers(KEYS.DCA_ACTIVE);
   if (!activeIds || activeIds.length === 0) return [];
   
   const schedules: DCASchedule[] = [];
   
   for (const id of activeIds) {
-    const data = await redis.hget(KEYS.DCA_SCHEDULES, id as string);
+    const data = await store.hget<DCASchedule | string>(KEYS.DCA_SCHEDULES, id as string);
     if (data) {
-      schedules.push(JSON.parse(data as string));
+      schedules.push(parseStored<DCASchedule>(data));
     }
   }
   
@@ -195,23 +191,23 @@ export async function getUserDCASchedules(walletId: string): Promise<DCASchedule
  * Get a specific DCA schedule
  */
 export async function getDCASchedule(id: string): Promise<DCASchedule | null> {
-  const redis = getRedis();
-  const data = await redis.hget(KEYS.DCA_SCHEDULES, id);
-  return data ? JSON.parse(data as string) : null;
+  const store = getStore();
+  const data = await store.hget<DCASchedule | string>(KEYS.DCA_SCHEDULES, id);
+  return data ? parseStored<DCASchedule>(data) : null;
 }
 
 /**
  * Update DCA schedule
  */
 export async function updateDCASchedule(schedule: DCASchedule): Promise<void> {
-  const redis = getRedis();
-  await redis.hset(KEYS.DCA_SCHEDULES, { [schedule.id]: JSON.stringify(schedule) });
+  const store = getStore();
+  await store.hset(KEYS.DCA_SCHEDULES, { [schedule.id]: JSON.stringify(schedule) });
   
   // Update active set based on status
   if (schedule.status === 'active') {
-    await redis.sadd(KEYS.DCA_ACTIVE, schedule.id);
+    await store.sadd(KEYS.DCA_ACTIVE, schedule.id);
   } else {
-    await redis.srem(KEYS.DCA_ACTIVE, schedule.id);
+    await store.srem(KEYS.DCA_ACTIVE, schedule.id);
   }
 }
 
@@ -275,7 +271,7 @@ export async function executeDCADeposit(schedule: DCASchedule): Promise<DCAExecu
     // Load wallet
     const { client } = await loadWalletById(schedule.walletId);
     
-    let result: { bundleId?: string; txHashes?: string[] };
+    let result: { bundleId?: string; txHashes?: string[]; status?: string | { landed?: boolean; error?: string } };
     
     // Execute based on DEX
     if (schedule.dex === 'orca') {
@@ -299,7 +295,11 @@ export async function executeDCADeposit(schedule: DCASchedule): Promise<DCAExecu
         strategy: schedule.strategy,
         tipSpeed: 'fast',
         slippageBps: 300,
-        signTransaction: async (tx) => client.signTransaction(tx),
+        // The service hands over deserialized transactions; Privy signs base64
+        signTransaction: async (tx) => {
+          const signed = await client.signTransaction(Buffer.from(tx.serialize()).toString('base64'));
+          return VersionedTransaction.deserialize(Buffer.from(signed, 'base64'));
+        },
       };
       result = await executeRaydiumLp(params);
     } else {
@@ -319,6 +319,11 @@ export async function executeDCADeposit(schedule: DCASchedule): Promise<DCAExecu
       };
       result = await executeLp(params);
     }
+
+    // Not landed, or stopped halfway on the RPC fallback (see submission/index.ts)
+    if (typeof result.status === 'object' && !result.status.landed) {
+      throw new Error(result.status.error || 'Deposit did not land');
+    }
     
     execution.success = true;
     execution.bundleId = result.bundleId;
@@ -368,38 +373,85 @@ export async function executeDCADeposit(schedule: DCASchedule): Promise<DCAExecu
   }
   
   // Log execution
-  const redis = getRedis();
-  await redis.lpush(`${KEYS.DCA_HISTORY}:${schedule.id}`, JSON.stringify(execution));
-  await redis.ltrim(`${KEYS.DCA_HISTORY}:${schedule.id}`, 0, 99); // Keep last 100
+  const store = getStore();
+  await store.lpush(`${KEYS.DCA_HISTORY}:${schedule.id}`, JSON.stringify(execution));
+  await store.ltrim(`${KEYS.DCA_HISTORY}:${schedule.id}`, 0, 99); // Keep last 100
   
   return execution;
 }
 
+// ============ Job Queue ============
+
+export interface DCAJob {
+  scheduleId: string;
+  slot: number; // nextExecutionAt the job was created for
+}
+
+// A deposit that may have landed isn't retried: an expired lease dead-letters
+export const dcaQueue = new JobQueue<DCAJob>('dca', {
+  visibilityTimeoutMs: 5 * 60 * 1000,
+  maxAttempts: 1,
+});
+
 /**
- * Process all due DCA schedules (called by worker)
+ * Enqueue every due schedule slot (called by the worker's leader)
  */
-export async function processDueSchedules(): Promise<number> {
+export async function enqueueDueSchedules(): Promise<number> {
   const schedules = await getActiveDCASchedules();
   const now = Date.now();
-  let processed = 0;
+  let enqueued = 0;
   
   for (const schedule of schedules) {
     if (schedule.status === 'active' && schedule.nextExecutionAt <= now) {
-      await executeDCADeposit(schedule);
-      processed++;
+      const { duplicate } = await dcaQueue.enqueue(
+        { scheduleId: schedule.id, slot: schedule.nextExecutionAt },
+        { idempotencyKey: `${schedule.id}:${schedule.nextExecutionAt}` },
+      );
+      if (!duplicate) enqueued++;
     }
   }
   
-  return processed;
+  return enqueued;
+}
+
+/**
+ * Run the next queued DCA deposit, if any (called by every worker replica)
+ */
+export async function processNextDCAJob(): Promise<boolean> {
+  const job = await dcaQueue.processNext(async ({ scheduleId, slot }) => {
+    const schedule = await getDCASchedule(scheduleId);
+    // Paused, cancelled or already advanced past this slot
+    if (!schedule || schedule.status !== 'active' || schedule.nextExecutionAt !== slot) {
+      console.log(`[DCA] Skipping stale job for ${scheduleId}`);
+      return;
+    }
+    // A slot that already ran (e.g. redelivered after a crash) is not deposited twice
+    const run = await runIntent(
+      {
+        operation: 'dca',
+        idempotencyKey: `${scheduleId}:${slot}`,
+        walletId: schedule.walletId,
+        params: { scheduleId, slot, poolAddress: schedule.poolAddress, amountSol: schedule.amountSolPerExecution },
+      },
+      async () => {
+        const execution = await executeDCADeposit(schedule);
+        return { ok: execution.success, status: execution.success ? 200 : 500, body: execution };
+      },
+    );
+    if (run.replayed) {
+      console.log(`[DCA] Slot ${slot} of ${scheduleId} already journaled as ${run.intent.state}, skipping`);
+    }
+  });
+  return !!job;
 }
 
 /**
  * Get DCA execution history
  */
 export async function getDCAHistory(scheduleId: string, limit: number = 10): Promise<DCAExecution[]> {
-  const redis = getRedis();
-  const history = await redis.lrange(`${KEYS.DCA_HISTORY}:${scheduleId}`, 0, limit - 1);
-  return history.map(h => JSON.parse(h as string));
+  const store = getStore();
+  const history = await store.lrange<DCAExecution | string>(`${KEYS.DCA_HISTORY}:${scheduleId}`, 0, limit - 1);
+  return history.map(h => parseStored<DCAExecution>(h));
 }
 
 /**
@@ -1,40 +1,28 @@
 /**
  * LP Service - LP operation orchestration for routes and bot
  */
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import DLMM from '@meteora-ag/dlmm';
 import { buildAtomicLP } from '../lp/atomic.js';
 import { buildAtomicWithdraw } from '../lp/atomicWithdraw.js';
 import { executeRebalance } from '../lp/atomicRebalance.js';
-import { sendBundle, waitForBundle, simulateTransactions, type TipSpeed } from '../jito/index.js';
+import type { TipSpeed } from '../jito/index.js';
+import { submitAtomic } from '../submission/index.js';
 import { discoverAllPositions } from '../utils/position-discovery.js';
 import { discoverOrcaPositions } from '../orca/positions.js';
+import { fetchRaydiumPositions } from '../raydium/index.js';
+import { discoverDammPositions } from '../damm/positions.js';
 import { resolveTokens, calculateHumanPriceRange, formatPriceRange, formatPrice } from '../utils/token-metadata.js';
 import { config } from '../config/index.js';
-import { Redis } from '@upstash/redis';
-import { withRetry, isTransientError } from '../utils/resilience.js';
-
-// Redis client for cache invalidation
-let redis: Redis | null = null;
-export function getRedis(): Redis | null {
-  if (redis) return redis;
-
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-  if (!url || !token) return null;
-
-  redis = new Redis({ url, token });
-  return redis;
-}
+import { getStore } from '../storage/index.js';
+import { createConnection } from './connection-pool.js';
+import { recordLpEntry, recordLpExit } from '../ledger/index.js';
+import { previewTransactions, type BundlePreview } from '../inspector/index.js';
 
 export async function invalidatePositionCache(walletId: string): Promise<void> {
   try {
-    const r = getRedis();
-    if (r) {
-      await r.del(`positions:${walletId}`);
-      console.log(`[LP Service] Invalidated position cache for wallet ${walletId}`);
-    }
+    await getStore().del(`positions:${walletId}`);
+    console.log(`[LP Service] Invalidated position cache for wallet ${walletId}`);
   } catch (e) {
     console.warn('[LP Service] Failed to invalidate position cache:', (e as Error).message);
   }
@@ -55,34 +43,57 @@ export interface LpExecuteParams {
   signAndSendTransaction?: (tx: string) => Promise<string>;
 }
 
-export async function executeLp(params: LpExecuteParams) {
-  const {
-    walletId, walletAddress, poolAddress, amountSol,
-    minBinId, maxBinId, strategy, shape, tipSpeed, slippageBps,
-    signTransaction, signAndSendTransaction,
-  } = params;
+type LpBuildParams = Omit<LpExecuteParams, 'walletId' | 'signTransaction' | 'signAndSendTransaction'>;
+
+function buildLp(params: LpBuildParams, skipTip: boolean) {
+  return buildAtomicLP({
+    walletAddress: params.walletAddress,
+    poolAddress: params.poolAddress,
+    collateralMint: 'So11111111111111111111111111111111111111112',
+    collateralAmount: Math.floor(params.amountSol * LAMPORTS_PER_SOL),
+    strategy: params.strategy,
+    shape: params.shape,
+    minBinId: params.minBinId,
+    maxBinId: params.maxBinId,
+    tipSpeed: params.tipSpeed,
+    slippageBps: params.slippageBps,
+    skipTip,
+  });
+}
+
+/**
+ * Build the LP transactions without signing and decode them, for a
+ * confirmation step. executeLp rebuilds with fresh quotes.
+ */
+export async function previewLp(params: LpBuildParams): Promise<BundlePreview> {
+  const built = await buildLp(params, false);
+  return previewTransactions(built.unsignedTransactions, params.walletAddress);
+}
+
+/**
+ * Same for a Meteora withdrawal (what the withdrawal worker builds)
+ */
+export async function previewWithdraw(params: {
+  walletAddress: string;
+  poolAddress: string;
+  positionAddress: string;
+  convertToSol: boolean;
+}): Promise<BundlePreview> {
+  const built = await buildAtomicWithdraw(params);
+  return previewTransactions(built.unsignedTransactions, params.walletAddress);
+}
 
-  const lamports = Math.floor(amountSol * LAMPORTS_PER_SOL);
-  const solMint = 'So11111111111111111111111111111111111111112';
+export async function executeLp(params: LpExecuteParams) {
+  const { walletId, walletAddress, poolAddress, signTransaction, signAndSendTransaction } = params;
 
   // Use direct RPC when signAndSendTransaction is available (bypasses Jito bundles)
   const useDirectRpc = !!signAndSendTransaction;
 
-  const lpResult = await buildAtomicLP({
-    walletAddress,
-    poolAddress,
-    collateralMint: solMint,
-    collateralAmount: lamports,
-    strategy,
-    shape,
-    minBinId,
-    maxBinId,
-    tipSpeed,
-    slippageBps,
-    skipTip: useDirectRpc,
-  });
+  const build = (skipTip: boolean) => buildLp(params, skipTip);
 
   if (useDirectRpc) {
+    const lpResult = await build(true);
+
     // Send each transaction individually via Privy RPC (more reliable than Jito bundles)
     const txHashes: string[] = [];
     for (let i = 0; i < lpResult.unsignedTransactions.length; i++) {
@@ -98,48 +109,48 @@ export async function executeLp(params: LpExecuteParams) {
     }
 
     await invalidatePositionCache(walletId);
+    await recordLpEntry({
+      walletAddress, poolAddress, dex: 'meteora',
+      positionId: lpResult.positionAddress,
+      flows: lpResult.flows,
+      txHashes,
+    });
     return { lpResult, txHashes, status: 'sent' };
   }
 
-  // Jito bundle path
-  console.log(`[LP Service] Jito bundle path: ${lpResult.unsignedTransactions.length} transactions`);
-  const signedTxs: string[] = [];
-  for (let i = 0; i < lpResult.unsignedTransactions.length; i++) {
-    const unsignedTx = lpResult.unsignedTransactions[i];
-    console.log(`[LP Service] Signing tx ${i + 1}/${lpResult.unsignedTransactions.length}...`);
-    const signedTx = await signTransaction(unsignedTx);
-    if (!signedTx) {
-      throw new Error(`signTransaction returned null/undefined for tx ${i + 1}`);
-    }
-    signedTxs.push(signedTx);
-  }
-
-  // Pre-flight simulation to catch errors before Jito
-  console.log(`[LP Service] Simulating ${signedTxs.length} transactions before Jito...`);
-  const simResult = await simulateTransactions(signedTxs);
-  if (!simResult.success) {
-    console.error(`[LP Service] ❌ Simulation failed:`, simResult.errors);
-    throw new Error(`Transaction simulation failed:\n${simResult.errors.join('\n')}`);
-  }
-  console.log(`[LP Service] ✅ All ${signedTxs.length} transactions passed simulation`);
-
-  console.log(`[LP Service] Sending bundle with ${signedTxs.length} transactions...`);
-  const { bundleId } = await withRetry(
-    () => sendBundle(signedTxs),
-    { maxRetries: 2, baseDelayMs: 2000, retryOn: isTransientError },
-  );
-  const status = await waitForBundle(bundleId, { timeoutMs: 60000 });
+  // Jito bundle, falling back to RPC per the wallet's submission policy
+  const { built: lpResult, bundleId, txHashes, status, submission } = await submitAtomic({
+    walletId,
+    walletAddress,
+    build: ({ skipTip }) => build(skipTip),
+    legs: (built) => ({
+      unsignedTransactions: built.unsignedTransactions,
+      swaps: built.flows.swaps,
+      signers: [Keypair.fromSecretKey(Buffer.from(built.positionKeypair, 'base64'))],
+      deposits: [built.flows.tokenX, built.flows.tokenY],
+    }),
+    signTransaction,
+  });
 
   await invalidatePositionCache(walletId);
+  if (status.landed) {
+    await recordLpEntry({
+      walletAddress, poolAddress, dex: 'meteora',
+      positionId: lpResult.positionAddress,
+      flows: lpResult.flows,
+      bundleId,
+      txHashes: txHashes.length > 0 ? txHashes : undefined,
+    });
+  }
 
-  return { lpResult, bundleId, status };
+  return { lpResult, bundleId, txHashes, status, submission };
 }
 
 export async function getPositionsForWallet(walletAddress: string) {
-  const conn = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+  const conn = createConnection();
   
-  // Fetch both Meteora and Orca positions in parallel
-  const [meteoraPositions, orcaPositions] = await Promise.all([
+  // Fetch Meteora DLMM, Orca, Raydium and Meteora DAMM v2 positions in parallel
+  const [meteoraPositions, orcaPositions, raydiumPositions, dammPositions] = await Promise.all([
     discoverAllPositions(conn, walletAddress).catch(e => {
       console.warn('[LP Service] Meteora position discovery failed:', e.message);
       return [];
@@ -148,6 +159,14 @@ export async function getPositionsForWallet(walletAddress: string) {
       console.warn('[LP Service] Orca position discovery failed:', e.message);
       return [];
     }),
+    fetchRaydiumPositions(walletAddress).catch(e => {
+      console.warn('[LP Service] Raydium position discovery failed:', e.message);
+      return [];
+    }),
+    discoverDammPositions(walletAddress).catch(e => {
+      console.warn('[LP Service] DAMM position discovery failed:', e.message);
+      return [];
+    }),
   ]);
 
   // Normalize Orca positions to match Meteora format
@@ -197,14 +216,105 @@ export async function getPositionsForWallet(walletAddress: string) {
     solscanUrl: `https://solscan.io/account/${pos.address}`,
   }));
 
+  // Normalize Raydium positions the same way (binRange holds tick indexes)
+  const normalizedRaydium = raydiumPositions.map(pos => ({
+    address: pos.positionMint,
+    pool: {
+      address: pos.poolAddress,
+      name: pos.poolName,
+      tokenX: {
+        mint: pos.tokenA.mint,
+        symbol: pos.tokenA.symbol,
+        name: pos.tokenA.symbol,
+        decimals: 9,
+      },
+      tokenY: {
+        mint: pos.tokenB.mint,
+        symbol: pos.tokenB.symbol,
+        name: pos.tokenB.symbol,
+        decimals: 6,
+      },
+      binStep: 0, // Raydium uses tickSpacing, not binStep
+    },
+    binRange: {
+      lower: pos.tickLower,
+      upper: pos.tickUpper,
+    },
+    priceRange: {
+      priceLower: pos.priceLower,
+      priceUpper: pos.priceUpper,
+      currentPrice: pos.currentPrice,
+      display: `${pos.priceLower.toFixed(2)} - ${pos.priceUpper.toFixed(2)}`,
+      unit: `${pos.tokenB.symbol} per ${pos.tokenA.symbol}`,
+    },
+    activeBinId: pos.tickCurrent,
+    inRange: pos.inRange,
+    amounts: {
+      tokenX: String(pos.amountA),
+      tokenY: String(pos.amountB),
+    },
+    fees: {
+      tokenX: String(pos.feesOwedA),
+      tokenY: String(pos.feesOwedB),
+      tokenXFormatted: `${pos.feesOwedA} ${pos.tokenA.symbol}`,
+      tokenYFormatted: `${pos.feesOwedB} ${pos.tokenB.symbol}`,
+    },
+    dex: 'raydium' as const,
+    solscanUrl: `https://solscan.io/token/${pos.positionMint}`,
+  }));
+
+  // Normalize DAMM v2 positions (no bins or ticks; the range is the pool's price bounds)
+  const normalizedDamm = dammPositions.map(pos => ({
+    address: pos.address,
+    pool: {
+      address: pos.poolAddress,
+      name: pos.poolName,
+      tokenX: {
+        mint: pos.tokenA.mint,
+        symbol: pos.tokenA.symbol,
+        name: pos.tokenA.symbol,
+        decimals: pos.tokenA.decimals,
+      },
+      tokenY: {
+        mint: pos.tokenB.mint,
+        symbol: pos.tokenB.symbol,
+        name: pos.tokenB.symbol,
+        decimals: pos.tokenB.decimals,
+      },
+      binStep: 0,
+    },
+    binRange: { lower: 0, upper: 0 },
+    priceRange: {
+      priceLower: pos.priceMin,
+      priceUpper: pos.priceMax,
+      currentPrice: pos.currentPrice,
+      display: 'Full range',
+      unit: `${pos.tokenB.symbol} per ${pos.tokenA.symbol}`,
+    },
+    activeBinId: 0,
+    inRange: pos.inRange,
+    amounts: {
+      tokenX: String(pos.tokenA.amount),
+      tokenY: String(pos.tokenB.amount),
+    },
+    fees: {
+      tokenX: String(pos.fees.tokenA),
+      tokenY: String(pos.fees.tokenB),
+      tokenXFormatted: `${pos.fees.tokenA} ${pos.tokenA.symbol}`,
+      tokenYFormatted: `${pos.fees.tokenB} ${pos.tokenB.symbol}`,
+    },
+    dex: 'damm' as const,
+    solscanUrl: `https://solscan.io/account/${pos.address}`,
+  }));
+
   // Mark Meteora positions with dex
   const normalizedMeteora = meteoraPositions.map(pos => ({
     ...pos,
     dex: 'meteora' as const,
   }));
 
-  console.log(`[LP Service] Found ${normalizedMeteora.length} Meteora + ${normalizedOrca.length} Orca positions`);
-  return [...normalizedMeteora, ...normalizedOrca];
+  console.log(`[LP Service] Found ${normalizedMeteora.length} Meteora + ${normalizedOrca.length} Orca + ${normalizedRaydium.length} Raydium + ${normalizedDamm.length} DAMM positions`);
+  return [...normalizedMeteora, ...normalizedOrca, ...normalizedRaydium, ...normalizedDamm];
 }
 
 export interface RebalanceParams {
@@ -212,6 +322,7 @@ export interface RebalanceParams {
   walletAddress: string;
   poolAddress: string;
   positionAddress: string;
+  dex?: 'meteora' | 'raydium';
   newMinBinOffset: number;
   newMaxBinOffset: number;
   strategy: 'concentrated' | 'wide';
@@ -227,6 +338,7 @@ export async function executeRebalanceOperation(params: RebalanceParams) {
     walletId: params.walletId,
     poolAddress: params.poolAddress,
     positionAddress: params.positionAddress,
+    dex: params.dex,
     newMinBinOffset: params.newMinBinOffset,
     newMaxBinOffset: params.newMaxBinOffset,
     strategy: params.strategy,
@@ -238,5 +350,29 @@ export async function executeRebalanceOperation(params: RebalanceParams) {
 
   await invalidatePositionCache(params.walletId);
 
+  // Old position closes even if re-entry fails; the new one opens only if it landed
+  const newPositionId = result.phase2.status === 'success' ? result.phase2.newPositionAddress : undefined;
+  const ref = { walletAddress: params.walletAddress, poolAddress: params.poolAddress, dex: params.dex ?? 'meteora' };
+  if (result.flows?.withdrawn) {
+    await recordLpExit({
+      ...ref,
+      type: 'rebalance',
+      positionId: params.positionAddress,
+      flows: result.flows.withdrawn,
+      relatedPositionId: newPositionId,
+      bundleId: result.phase1.bundleId,
+    });
+  }
+  if (newPositionId && result.flows?.entry) {
+    await recordLpEntry({
+      ...ref,
+      type: 'rebalance',
+      positionId: newPositionId,
+      flows: result.flows.entry,
+      relatedPositionId: params.positionAddress,
+      bundleId: result.phase2.bundleId,
+    });
+  }
+
   return result;
 }
@@ -37,7 +37,6 @@ export interface AggregatedPrice {
 const MAX_STALENESS_MS = 30_000;
 const CACHE_TTL_MS = 10_000;
 const DIVERGENCE_THRESHOLD = 0.005; // 0.5%
-const HERMES_BASE = 'https://hermes.pyth.network';
 const FETCH_TIMEOUT_MS = 5_000;
 const MAX_RETRIES = 2;
 const RETRY_BASE_DELAY_MS = 500;
@@ -115,7 +114,7 @@ async function fetchPythPrice(mint: string): Promise<OraclePrice | null> {
   if (!feedId) return null;
 
   try {
-    const url = `${HERMES_BASE}/v2/updates/price/latest?ids[]=${feedId}`;
+    const url = `${config.pyth.hermesUrl}/v2/updates/price/latest?ids[]=${feedId}`;
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
@@ -156,7 +155,7 @@ async function fetchPythPrice(mint: string): Promise<OraclePrice | null> {
 
 async function fetchJupiterPrice(mint: string): Promise<OraclePrice | null> {
   try {
-    const url = `https://api.jup.ag/price/v2?ids=${mint}`;
+    const url = `${config.jupiter.priceUrl}?ids=${mint}`;
     const headers: Record<string, string> = { Accept: 'application/json' };
     if (config.jupiter?.apiKey) {
       headers['x-api-key'] = config.jupiter.apiKey;
@@ -5,12 +5,15 @@
 import { Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { buildOrcaAtomicLP, type OrcaAtomicLPParams } from '../orca/atomic.js';
 import { buildOrcaWithdraw } from '../orca/atomicWithdraw.js';
-import { buildOrcaFeeClaimTx } from '../orca/fees.js';
+import { buildOrcaFeeClaimTx, quoteOrcaClaimableFees } from '../orca/fees.js';
 import { discoverOrcaPositions } from '../orca/positions.js';
-import { sendBundle, waitForBundle, simulateTransactions, type TipSpeed } from '../jito/index.js';
+import { sendBundle, waitForBundle, type TipSpeed } from '../jito/index.js';
+import { submitAtomic } from '../submission/index.js';
 import { config } from '../config/index.js';
 import { withRetry, isTransientError } from '../utils/resilience.js';
 import { invalidatePositionCache } from './lp-service.js';
+import { createConnection } from './connection-pool.js';
+import { recordLpEntry, recordLpExit, recordFeeClaim } from '../ledger/index.js';
 
 export interface OrcaLpExecuteParams {
   walletId: string;
@@ -33,17 +36,18 @@ export async function executeOrcaLp(params: OrcaLpExecuteParams) {
 
   const useDirectRpc = !!signAndSendTransaction;
 
-  const lpResult = await buildOrcaAtomicLP({
+  const build = (skipTip: boolean) => buildOrcaAtomicLP({
     walletAddress,
     poolAddress,
     amountSol,
     strategy,
     slippageBps,
     tipSpeed,
-    skipTip: useDirectRpc,
+    skipTip,
   });
 
   if (useDirectRpc) {
+    const { signers: _signers, ...lpResult } = await build(true);
     const txHashes: string[] = [];
     for (let i = 0; i < lpResult.unsignedTransactions.length; i++) {
       console.log(`[Orca Service] Signing+sending tx ${i + 1}/${lpResult.unsignedTransactions.length}...`);
@@ -68,68 +72,42 @@ export async function executeOrcaLp(params: OrcaLpExecuteParams) {
     }
 
     await invalidatePositionCache(walletId);
+    await recordLpEntry({
+      walletAddress, poolAddress, dex: 'orca',
+      positionId: lpResult.positionMint,
+      flows: lpResult.flows,
+      txHashes,
+    });
     return { lpResult, txHashes, status: 'sent' };
   }
 
-  // Jito bundle path
-  console.log(`[Orca Service] Jito bundle path: ${lpResult.unsignedTransactions.length} transactions`);
-  const signedTxs: string[] = [];
-  for (let i = 0; i < lpResult.unsignedTransactions.length; i++) {
-    const unsignedTx = lpResult.unsignedTransactions[i];
-    console.log(`[Orca Service] Signing tx ${i + 1}/${lpResult.unsignedTransactions.length}...`);
-    
-    // Debug: decode and inspect the transaction
-    try {
-      const txBuf = Buffer.from(unsignedTx, 'base64');
-      const { VersionedTransaction } = await import('@solana/web3.js');
-      const decoded = VersionedTransaction.deserialize(txBuf);
-      const signers = decoded.message.staticAccountKeys.slice(0, decoded.message.header.numRequiredSignatures);
-      console.log(`[Orca Service] Tx ${i + 1} requires ${decoded.message.header.numRequiredSignatures} signatures`);
-      console.log(`[Orca Service] Tx ${i + 1} signers: ${signers.map(s => s.toBase58().slice(0, 8)).join(', ')}`);
-      console.log(`[Orca Service] Tx ${i + 1} existing sigs: ${decoded.signatures.filter(s => !s.every(b => b === 0)).length}`);
-    } catch (e: any) {
-      console.log(`[Orca Service] Failed to decode tx ${i + 1} for debug:`, e.message);
-    }
-    
-    console.log(`[Orca Service] Unsigned tx length: ${unsignedTx.length}`);
-    const signedTx = await signTransaction(unsignedTx);
-    console.log(`[Orca Service] Signed tx length: ${signedTx?.length || 0}`);
-    if (!signedTx) {
-      throw new Error(`signTransaction returned null/undefined for tx ${i + 1}`);
-    }
-    
-    // Debug: check signatures after Privy signs
-    try {
-      const signedBuf = Buffer.from(signedTx, 'base64');
-      const { VersionedTransaction } = await import('@solana/web3.js');
-      const decoded = VersionedTransaction.deserialize(signedBuf);
-      const filledSigs = decoded.signatures.filter(s => !s.every(b => b === 0)).length;
-      console.log(`[Orca Service] Tx ${i + 1} after signing: ${filledSigs}/${decoded.signatures.length} signatures filled`);
-    } catch (e: any) {
-      console.log(`[Orca Service] Failed to decode signed tx ${i + 1}:`, e.message);
-    }
-    
-    signedTxs.push(signedTx);
-  }
-
-  // Simulate all transactions before sending to Jito
-  console.log(`[Orca Service] Simulating ${signedTxs.length} transactions before Jito...`);
-  const simResult = await simulateTransactions(signedTxs);
-  if (!simResult.success) {
-    console.error(`[Orca Service] ❌ Simulation failed:`, simResult.errors);
-    throw new Error(`Transaction simulation failed:\n${simResult.errors.join('\n')}`);
-  }
-  console.log(`[Orca Service] ✅ All ${signedTxs.length} transactions passed simulation`);
-
-  console.log(`[Orca Service] Sending bundle with ${signedTxs.length} transactions...`);
-  const { bundleId } = await withRetry(
-    () => sendBundle(signedTxs),
-    { maxRetries: 2, baseDelayMs: 2000, retryOn: isTransientError },
-  );
-  const status = await waitForBundle(bundleId, { timeoutMs: 60000 });
+  // Jito bundle, falling back to RPC per the wallet's submission policy
+  const { built, bundleId, txHashes, status, submission } = await submitAtomic({
+    walletId,
+    walletAddress,
+    build: ({ skipTip }) => build(skipTip),
+    legs: (built) => ({
+      unsignedTransactions: built.unsignedTransactions,
+      swaps: built.flows.swaps,
+      signers: built.signers,
+      deposits: [built.flows.tokenX, built.flows.tokenY],
+    }),
+    signTransaction,
+  });
+  // Keypairs stay server-side
+  const { signers: _signers, ...lpResult } = built;
 
   await invalidatePositionCache(walletId);
-  return { lpResult, bundleId, status };
+  if (status.landed) {
+    await recordLpEntry({
+      walletAddress, poolAddress, dex: 'orca',
+      positionId: lpResult.positionMint,
+      flows: lpResult.flows,
+      bundleId,
+      txHashes: txHashes.length > 0 ? txHashes : undefined,
+    });
+  }
+  return { lpResult, bundleId, txHashes, status, submission };
 }
 
 export interface OrcaWithdrawExecuteParams {
@@ -171,6 +149,12 @@ export async function executeOrcaWithdraw(params: OrcaWithdrawExecuteParams) {
     }
 
     await invalidatePositionCache(walletId);
+    await recordLpExit({
+      walletAddress, poolAddress, dex: 'orca',
+      positionId: withdrawResult.positionMint,
+      flows: withdrawResult.flows,
+      txHashes,
+    });
     return { withdrawResult, txHashes, status: 'sent' };
   }
 
@@ -187,6 +171,14 @@ export async function executeOrcaWithdraw(params: OrcaWithdrawExecuteParams) {
   const status = await waitForBundle(bundleId, { timeoutMs: 60000 });
 
   await invalidatePositionCache(walletId);
+  if (status.landed) {
+    await recordLpExit({
+      walletAddress, poolAddress, dex: 'orca',
+      positionId: withdrawResult.positionMint,
+      flows: withdrawResult.flows,
+      bundleId,
+    });
+  }
   return { withdrawResult, bundleId, status };
 }
 
@@ -200,6 +192,10 @@ export interface OrcaFeeClaimParams {
 export async function executeOrcaFeeClaim(params: OrcaFeeClaimParams) {
   const { walletId, walletAddress, positionMintAddress, signAndSendTransaction } = params;
 
+  const claimable = await quoteOrcaClaimableFees(positionMintAddress).catch((e: any) => {
+    console.warn('[Orca Service] Fee quote failed, claim will not be priced:', e.message);
+    return null;
+  });
   const unsignedTxs = await buildOrcaFeeClaimTx(walletAddress, positionMintAddress);
 
   const txHashes: string[] = [];
@@ -215,10 +211,20 @@ export async function executeOrcaFeeClaim(params: OrcaFeeClaimParams) {
   }
 
   await invalidatePositionCache(walletId);
+  if (claimable && txHashes.length > 0) {
+    await recordFeeClaim({
+      walletAddress,
+      poolAddress: claimable.poolAddress,
+      dex: 'orca',
+      positionId: positionMintAddress,
+      fees: [claimable.tokenA, claimable.tokenB],
+      txHashes,
+    });
+  }
   return { txHashes, status: 'sent' };
 }
 
 export async function getOrcaPositionsForWallet(walletAddress: string) {
-  const conn = new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+  const conn = createConnection();
   return discoverOrcaPositions(conn, walletAddress);
 }
@@ -1,94 +1,53 @@
 /**
  * Pool Data Cache Service
  * 
- * Caches Meteora DLMM pool data to reduce RPC calls.
- * Uses Redis if available, falls back to in-memory cache.
+ * Caches Meteora DLMM pool data to reduce RPC calls, in the shared store
+ * (see storage/index.ts).
  * 
  * Cache keys:
- * - pool:info:{address} - Pool info (TVL, fees, tokens, etc.)
- * - pool:bins:{address} - Active bin data
+ * - lp-toolkit:pool:info:{address} - Pool info (TVL, fees, tokens, etc.)
+ * - lp-toolkit:pool:bins:{address} - Active bin data
  * 
  * TTL: 60s for pool info (changes rarely), 10s for bin data (changes frequently)
  */
 
 import { Connection, PublicKey } from '@solana/web3.js';
 import DLMM from '@meteora-ag/dlmm';
-import { Redis } from '@upstash/redis';
+import { getStore, type StorageBackend } from '../storage/index.js';
 
 // Cache TTLs in seconds
 const POOL_INFO_TTL = 60;  // Pool metadata changes rarely
 const BIN_DATA_TTL = 10;   // Active bin changes with trades
 const DLMM_INSTANCE_TTL = 300; // DLMM instance cache (5 min, in-memory only)
 
-// In-memory cache for DLMM instances (can't serialize to Redis)
-const dlmmCache = new Map<string, { instance: any; expires: number }>();
-
-// In-memory fallback cache
-const memoryCache = new Map<string, { data: any; expires: number }>();
+const KEYS = {
+  INFO: (poolAddress: string) => `lp-toolkit:pool:info:${poolAddress}`,
+  BINS: (poolAddress: string) => `lp-toolkit:pool:bins:${poolAddress}`,
+};
 
-// Redis client (lazy init)
-let redis: Redis | null = null;
-
-function getRedis(): Redis | null {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) return null;
-  
-  try {
-    redis = new Redis({ url, token });
-    return redis;
-  } catch {
-    return null;
-  }
-}
+// In-memory cache for DLMM instances (can't be serialized)
+const dlmmCache = new Map<string, { instance: any; expires: number }>();
 
 /**
- * Get cached value from Redis or memory
+ * Get cached value, or null on a miss or store error
  */
 async function getCached<T>(key: string): Promise<T | null> {
-  const redis = getRedis();
-  
-  if (redis) {
-    try {
-      const value = await redis.get(key);
-      if (value) {
-        return value as T;
-      }
-    } catch (e) {
-      console.warn(`[PoolCache] Redis get failed: ${(e as Error).message}`);
-    }
-  }
-  
-  // Fallback to memory cache
-  const cached = memoryCache.get(key);
-  if (cached && cached.expires > Date.now()) {
-    return cached.data as T;
+  try {
+    return await getStore().get<T>(key);
+  } catch (e) {
+    console.warn(`[PoolCache] Store get failed: ${(e as Error).message}`);
+    return null;
   }
-  
-  return null;
 }
 
 /**
- * Set cached value in Redis and memory
+ * Set cached value with a TTL
  */
 async function setCached<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
-  const redis = getRedis();
-  
-  // Always set in memory as fallback
-  memoryCache.set(key, {
-    data: value,
-    expires: Date.now() + ttlSeconds * 1000,
-  });
-  
-  if (redis) {
-    try {
-      await redis.set(key, value, { ex: ttlSeconds });
-    } catch (e) {
-      console.warn(`[PoolCache] Redis set failed: ${(e as Error).message}`);
-    }
+  try {
+    await getStore().set(key, value, { ex: ttlSeconds });
+  } catch (e) {
+    console.warn(`[PoolCache] Store set failed: ${(e as Error).message}`);
   }
 }
 
@@ -96,20 +55,12 @@ async function setCached<T>(key: string, value: T, ttlSeconds: number): Promise<
  * Invalidate cache for a pool
  */
 export async function invalidatePoolCache(poolAddress: string): Promise<void> {
-  const keys = [`pool:info:${poolAddress}`, `pool:bins:${poolAddress}`];
-  
-  // Clear memory cache
-  keys.forEach(key => memoryCache.delete(key));
   dlmmCache.delete(poolAddress);
-  
-  // Clear Redis
-  const redis = getRedis();
-  if (redis) {
-    try {
-      await redis.del(...keys);
-    } catch (e) {
-      console.warn(`[PoolCache] Redis del failed: ${(e as Error).message}`);
-    }
+
+  try {
+    await getStore().del(KEYS.INFO(poolAddress), KEYS.BINS(poolAddress));
+  } catch (e) {
+    console.warn(`[PoolCache] Store del failed: ${(e as Error).message}`);
   }
   
   console.log(`[PoolCache] Invalidated cache for ${poolAddress.slice(0, 8)}...`);
@@ -164,7 +115,7 @@ export async function getCachedPoolInfo(
   connection: Connection,
   poolAddress: string
 ): Promise<CachedPoolInfo> {
-  const cacheKey = `pool:info:${poolAddress}`;
+  const cacheKey = KEYS.INFO(poolAddress);
   
   // Check cache first
   const cached = await getCached<CachedPoolInfo>(cacheKey);
@@ -227,7 +178,7 @@ export async function getCachedBinData(
   connection: Connection,
   poolAddress: string
 ): Promise<CachedBinData> {
-  const cacheKey = `pool:bins:${poolAddress}`;
+  const cacheKey = KEYS.BINS(poolAddress);
   
   // Check cache first
   const cached = await getCached<CachedBinData>(cacheKey);
@@ -275,13 +226,11 @@ export async function getCachedBinData(
  */
 export function getCacheStats(): {
   dlmmInstances: number;
-  memoryEntries: number;
-  redisAvailable: boolean;
+  backend: StorageBackend;
 } {
   return {
     dlmmInstances: dlmmCache.size,
-    memoryEntries: memoryCache.size,
-    redisAvailable: getRedis() !== null,
+    backend: getStore().backend,
   };
 }
 
@@ -290,19 +239,14 @@ export function getCacheStats(): {
  */
 export async function clearAllCaches(): Promise<void> {
   dlmmCache.clear();
-  memoryCache.clear();
-  
-  const redis = getRedis();
-  if (redis) {
-    try {
-      // Clear all pool: keys
-      const keys = await redis.keys('pool:*');
-      if (keys.length > 0) {
-        await redis.del(...keys);
-      }
-    } catch (e) {
-      console.warn(`[PoolCache] Redis clear failed: ${(e as Error).message}`);
+
+  try {
+    const keys = await getStore().keys('lp-toolkit:pool:*');
+    if (keys.length > 0) {
+      await getStore().del(...keys);
     }
+  } catch (e) {
+    console.warn(`[PoolCache] Store clear failed: ${(e as Error).message}`);
   }
   
   console.log('[PoolCache] All caches cleared');
@@ -3,6 +3,8 @@
  */
 import { assessPoolRisk, type PoolRiskAssessment } from '../risk/index.js';
 import { withRetry, CircuitBreaker, isTransientError } from '../utils/resilience.js';
+import { config } from '../config/index.js';
+import { fetchRaydiumTopPools } from './unified-pools.js';
 
 const meteoraCircuitBreaker = new CircuitBreaker({
   name: 'meteora-api',
@@ -55,15 +57,26 @@ export interface TopPoolsOptions {
   riskMax: number;
   minTvl: number;
   sortBy: string;
+  dex?: 'meteora' | 'raydium';
 }
 
-export async function getTopPools(options: TopPoolsOptions): Promise<{ pools: PoolRiskAssessment[]; count: number }> {
-  const { limit, riskMax, minTvl, sortBy } = options;
+/** A pool listing normalized for risk assessment */
+interface PoolCandidate {
+  address: string;
+  name: string;
+  tokenX: string;
+  tokenY: string;
+  apr: number;
+  tvl: number;
+  volume24h: number;
+  binStep: number; // Tick spacing for Raydium CLMM
+}
 
+async function fetchMeteoraCandidates(): Promise<PoolCandidate[]> {
   const data = await meteoraCircuitBreaker.execute(() =>
     withRetry(
       async () => {
-        const response = await fetch('https://dlmm-api.meteora.ag/pair/all_with_pagination?limit=100&offset=0');
+        const response = await fetch(`${config.meteora.apiUrl}/pair/all_with_pagination?limit=100&offset=0`);
         if (!response.ok) {
           throw new Error(`Failed to fetch pools from Meteora (HTTP ${response.status})`);
         }
@@ -74,31 +87,65 @@ export async function getTopPools(options: TopPoolsOptions): Promise<{ pools: Po
   );
   const pools = data.pairs || data.data || [];
 
-  const assessedPools: PoolRiskAssessment[] = [];
+  return pools
+    .filter((pool: any) => !pool.is_blacklisted && !pool.hide)
+    .map((pool: any) => {
+      const nameParts = (pool.name || '').split('-');
+      const tokenX = nameParts[0] || 'UNKNOWN';
+      const tokenY = nameParts[1] || 'UNKNOWN';
+      const rawApr = parseFloat(pool.apr || pool.apy || '0');
+
+      return {
+        address: pool.address,
+        name: pool.name || `${tokenX}-${tokenY}`,
+        tokenX,
+        tokenY,
+        apr: rawApr * 100,
+        tvl: parseFloat(pool.liquidity || pool.tvl || '0'),
+        volume24h: parseFloat(pool.trade_volume_24h || pool.volume24h || '0'),
+        binStep: parseInt(pool.bin_step || pool.binStep || '10'),
+      };
+    });
+}
 
-  for (const pool of pools) {
-    const tvl = parseFloat(pool.liquidity || pool.tvl || '0');
-    if (tvl < minTvl) continue;
-    if (pool.is_blacklisted || pool.hide) continue;
+async function fetchRaydiumCandidates(): Promise<PoolCandidate[]> {
+  const pools = await fetchRaydiumTopPools(100);
+  if (pools.length === 0) {
+    throw new Error('Failed to fetch pools from Raydium');
+  }
 
-    const nameParts = (pool.name || '').split('-');
-    const tokenX = nameParts[0] || 'UNKNOWN';
-    const tokenY = nameParts[1] || 'UNKNOWN';
+  return pools.map(pool => ({
+    address: pool.address,
+    name: pool.name,
+    tokenX: pool.tokenA.symbol,
+    tokenY: pool.tokenB.symbol,
+    apr: pool.apr,
+    tvl: pool.tvl,
+    volume24h: pool.volume24h,
+    binStep: pool.tickSpacing ?? 64,
+  }));
+}
 
-    const rawApr = parseFloat(pool.apr || pool.apy || '0');
-    const apr = rawApr * 100;
-    const volume24h = parseFloat(pool.trade_volume_24h || pool.volume24h || '0');
-    const binStep = parseInt(pool.bin_step || pool.binStep || '10');
+export async function getTopPools(options: TopPoolsOptions): Promise<{ pools: PoolRiskAssessment[]; count: number }> {
+  const { limit, riskMax, minTvl, sortBy, dex = 'meteora' } = options;
+
+  const pools = dex === 'raydium' ? await fetchRaydiumCandidates() : await fetchMeteoraCandidates();
+
+  const assessedPools: PoolRiskAssessment[] = [];
+
+  for (const pool of pools) {
+    if (pool.tvl < minTvl) continue;
 
     const assessment = await assessPoolRisk(
       pool.address,
-      pool.name || `${tokenX}-${tokenY}`,
-      apr,
-      tvl,
-      binStep,
-      volume24h,
-      tokenX,
-      tokenY
+      pool.name,
+      pool.apr,
+      pool.tvl,
+      pool.binStep,
+      pool.volume24h,
+      pool.tokenX,
+      pool.tokenY,
+      dex
     );
 
     if (assessment.riskScore <= riskMax) {
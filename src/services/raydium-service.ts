@@ -7,10 +7,12 @@
 
 import { VersionedTransaction } from '@solana/web3.js';
 import { buildRaydiumAtomicLP, buildRaydiumWithdraw, buildRaydiumClaimFees } from '../raydium/index.js';
-import { fetchRaydiumPositions, fetchRaydiumPosition } from '../raydium/index.js';
+import { fetchRaydiumPositions, fetchRaydiumPosition, quoteRaydiumClaimableFees } from '../raydium/index.js';
 import { sendBundle } from '../jito/index.js';
+import { submitAtomic, type SubmissionReport } from '../submission/index.js';
 import { loadWalletById } from './wallet-service.js';
 import { getConnection } from './connection-pool.js';
+import { recordLpEntry, recordLpExit, recordFeeClaim } from '../ledger/index.js';
 import type { TipSpeed } from '../jito/index.js';
 
 export interface RaydiumLpExecuteParams {
@@ -31,6 +33,7 @@ export interface RaydiumLpResult {
   positionMint?: string;
   tickRange?: { lower: number; upper: number };
   status?: { landed?: boolean; error?: string };
+  submission?: SubmissionReport;
 }
 
 /**
@@ -50,41 +53,53 @@ export async function executeRaydiumLp(params: RaydiumLpExecuteParams): Promise<
 
   console.log(`[RaydiumService] Building LP for pool ${poolAddress}, amount ${amountSol} SOL, strategy ${strategy}`);
 
-  // Build unsigned transactions
-  const built = await buildRaydiumAtomicLP({
+  // Jito bundle, falling back to RPC per the wallet's submission policy
+  const { built, bundleId, txHashes, status, submission } = await submitAtomic({
+    walletId,
     walletAddress,
-    poolAddress,
-    amountSol,
-    strategy,
-    slippageBps,
-    tipSpeed,
+    build: async ({ skipTip }) => {
+      const built = await buildRaydiumAtomicLP({
+        walletAddress,
+        poolAddress,
+        amountSol,
+        strategy,
+        slippageBps,
+        tipSpeed,
+        skipTip,
+      });
+      console.log(`[RaydiumService] Built ${built.unsignedTransactions.length} transactions, position mint: ${built.positionMint}`);
+      return built;
+    },
+    legs: (built) => ({
+      unsignedTransactions: built.unsignedTransactions,
+      swaps: built.flows.swaps,
+      signers: [],
+      deposits: [built.flows.tokenX, built.flows.tokenY],
+    }),
+    signTransaction: async (txB64) => {
+      const signed = await signTransaction(VersionedTransaction.deserialize(Buffer.from(txB64, 'base64')));
+      return Buffer.from(signed.serialize()).toString('base64');
+    },
   });
 
-  console.log(`[RaydiumService] Built ${built.unsignedTransactions.length} transactions, position mint: ${built.positionMint}`);
-
-  // Deserialize and sign each transaction
-  const signedTxs: VersionedTransaction[] = [];
-  
-  for (const txB64 of built.unsignedTransactions) {
-    const txBuffer = Buffer.from(txB64, 'base64');
-    const tx = VersionedTransaction.deserialize(txBuffer);
-    const signed = await signTransaction(tx);
-    signedTxs.push(signed);
+  if (status.landed) {
+    await recordLpEntry({
+      walletAddress, poolAddress, dex: 'raydium',
+      positionId: built.positionMint,
+      flows: built.flows,
+      bundleId,
+      txHashes: txHashes.length > 0 ? txHashes : undefined,
+    });
   }
 
-  // Submit as Jito bundle
-  const signedB64s = signedTxs.map(tx => Buffer.from(tx.serialize()).toString('base64'));
-  const bundleResult = await sendBundle(signedB64s);
-
-  console.log(`[RaydiumService] Bundle submitted: ${bundleResult.bundleId}`);
-
   return {
-    success: true,
-    txHashes: [],
-    bundleId: bundleResult.bundleId,
+    success: status.landed,
+    txHashes,
+    bundleId,
     positionMint: built.positionMint,
     tickRange: built.tickRange,
-    status: { landed: true },
+    status,
+    submission,
   };
 }
 
@@ -107,6 +122,9 @@ export async function executeRaydiumWithdraw(params: {
 
   console.log(`[RaydiumService] Building withdraw for position ${positionMint}`);
 
+  // Snapshot amounts for the ledger before the position is closed
+  const snapshot = await fetchRaydiumPosition(positionMint);
+
   // Build unsigned transactions
   const built = await buildRaydiumWithdraw({
     walletAddress,
@@ -131,6 +149,27 @@ export async function executeRaydiumWithdraw(params: {
   const signedB64s = signedTxs.map(tx => Buffer.from(tx.serialize()).toString('base64'));
   const bundleResult = await sendBundle(signedB64s);
 
+  if (snapshot) {
+    await recordLpExit({
+      walletAddress,
+      poolAddress: snapshot.poolAddress,
+      dex: 'raydium',
+      positionId: positionMint,
+      flows: {
+        tokenX: { mint: snapshot.tokenA.mint, amount: snapshot.amountA },
+        tokenY: { mint: snapshot.tokenB.mint, amount: snapshot.amountB },
+        fees: [
+          { mint: snapshot.tokenA.mint, amount: snapshot.feesOwedA },
+          { mint: snapshot.tokenB.mint, amount: snapshot.feesOwedB },
+        ],
+        protocolFee: [],
+        swaps: [],
+        tipLamports: 0,
+      },
+      bundleId: bundleResult.bundleId,
+    });
+  }
+
   return {
     success: true,
     txHashes: [],
@@ -158,6 +197,11 @@ export async function executeRaydiumClaimFees(params: {
 
   console.log(`[RaydiumService] Building claim fees for position ${positionMint}`);
 
+  const claimable = await quoteRaydiumClaimableFees(positionMint).catch((e: any) => {
+    console.warn('[RaydiumService] Fee quote failed, claim will not be priced:', e.message);
+    return null;
+  });
+
   // Build unsigned transactions
   const built = await buildRaydiumClaimFees({
     walletAddress,
@@ -181,6 +225,17 @@ export async function executeRaydiumClaimFees(params: {
   const signedB64s = signedTxs.map(tx => Buffer.from(tx.serialize()).toString('base64'));
   const bundleResult = await sendBundle(signedB64s);
 
+  if (claimable) {
+    await recordFeeClaim({
+      walletAddress,
+      poolAddress: claimable.poolAddress,
+      dex: 'raydium',
+      positionId: positionMint,
+      fees: [claimable.tokenA, claimable.tokenB],
+      bundleId: bundleResult.bundleId,
+    });
+  }
+
   return {
     success: true,
     txHashes: [],
@@ -10,7 +10,6 @@
 
 import { config } from '../config/index.js';
 
-const ULTRA_BASE = 'https://api.jup.ag/ultra/v1';
 const FETCH_TIMEOUT_MS = 15_000;
 
 // ---------------------------------------------------------------------------
@@ -141,7 +140,7 @@ export async function createUltraOrder(params: UltraOrderParams): Promise<UltraO
   const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
   try {
-    const resp = await fetch(`${ULTRA_BASE}/order`, {
+    const resp = await fetch(`${config.jupiter.ultraUrl}/order`, {
       method: 'POST',
       headers: buildHeaders(),
       signal: controller.signal,
@@ -190,7 +189,7 @@ export async function executeUltraOrder(params: {
   const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
   try {
-    const resp = await fetch(`${ULTRA_BASE}/execute`, {
+    const resp = await fetch(`${config.jupiter.ultraUrl}/execute`, {
       method: 'POST',
       headers: buildHeaders(),
       signal: controller.signal,
@@ -1,7 +1,8 @@
 /**
  * Unified Pool Fetcher Service
  *
- * Aggregates liquidity pools from multiple DEXes (Meteora DLMM, Orca Whirlpools, Raydium CLMM)
+ * Aggregates liquidity pools from multiple DEXes (Meteora DLMM, Meteora DAMM v2,
+ * Orca Whirlpools, Raydium CLMM)
  * into a unified format for the LP Agent Toolkit.
  *
  * Features:
@@ -12,6 +13,7 @@
  */
 
 import { STABLECOINS } from '../risk/index.js';
+import { config } from '../config/index.js';
 
 // ============ Types ============
 
@@ -20,7 +22,7 @@ export interface UnifiedPool {
   name: string;
   tokenA: { symbol: string; mint: string };
   tokenB: { symbol: string; mint: string };
-  dex: 'meteora' | 'orca' | 'raydium';
+  dex: 'meteora' | 'orca' | 'raydium' | 'damm';
   apr: number;
   tvl: number;
   volume24h: number;
@@ -35,17 +37,13 @@ export interface FetchUnifiedPoolsOptions {
   limit?: number;
   minTvl?: number;
   maxRiskScore?: number;
-  dexFilter?: 'meteora' | 'orca' | 'raydium' | 'all';
+  dexFilter?: 'meteora' | 'orca' | 'raydium' | 'damm' | 'all';
   sortBy?: 'apr' | 'tvl' | 'riskAdjustedYield' | 'volume24h';
   tokenFilter?: string; // Only pools containing this token symbol
 }
 
 // ============ Constants ============
 
-const METEORA_API = 'https://dlmm-api.meteora.ag/pair/all';
-const ORCA_API = 'https://api.orca.so/v2/solana/pools';
-const RAYDIUM_API = 'https://api-v3.raydium.io/pools/info/list';
-
 // Tick spacing to fee rate mapping (bps) for Orca/Raydium
 const TICK_SPACING_FEE: Record<number, number> = {
   1: 1, 2: 2, 4: 5, 8: 10, 16: 15, 32: 30, 64: 65, 128: 100, 256: 200,
@@ -64,6 +62,7 @@ interface CacheEntry<T> {
 let _meteoraCache: CacheEntry<any[]> | null = null;
 let _orcaCache: CacheEntry<any[]> | null = null;
 let _raydiumCache: CacheEntry<any[]> | null = null;
+let _dammCache: CacheEntry<any[]> | null = null;
 
 // ============ Risk Scoring ============
 
@@ -151,7 +150,7 @@ export async function fetchMeteoraTopPools(limit: number = 20): Promise<UnifiedP
   }
 
   try {
-    const resp = await fetch(METEORA_API);
+    const resp = await fetch(`${config.meteora.apiUrl}/pair/all`);
     if (!resp.ok) throw new Error(`Meteora API failed: ${resp.status}`);
 
     const rawPools = (await resp.json()) as any[];
@@ -208,7 +207,7 @@ export async function fetchOrcaTopPools(limit: number = 20): Promise<UnifiedPool
   }
 
   try {
-    const url = `${ORCA_API}?sortBy=tvl&sortDirection=desc&size=${Math.min(limit * 2, 100)}&minTvl=50000`;
+    const url = `${config.orca.apiUrl}/pools?sortBy=tvl&sortDirection=desc&size=${Math.min(limit * 2, 100)}&minTvl=50000`;
     const resp = await fetch(url);
     if (!resp.ok) throw new Error(`Orca API failed: ${resp.status}`);
 
@@ -280,7 +279,7 @@ export async function fetchRaydiumTopPools(limit: number = 20): Promise<UnifiedP
   }
 
   try {
-    const url = `${RAYDIUM_API}?poolType=concentrated&poolSortField=liquidity&sortType=desc&page=1&pageSize=${Math.min(limit * 2, 100)}`;
+    const url = `${config.raydium.apiUrl}/pools/info/list?poolType=concentrated&poolSortField=liquidity&sortType=desc&page=1&pageSize=${Math.min(limit * 2, 100)}`;
     const resp = await fetch(url);
     if (!resp.ok) throw new Error(`Raydium API failed: ${resp.status}`);
 
@@ -329,6 +328,63 @@ function transformRaydiumPool(p: any): UnifiedPool {
   };
 }
 
+// ============ Meteora DAMM v2 Fetching ============
+
+/**
+ * Fetch top Meteora DAMM v2 (constant-product) pools
+ */
+export async function fetchDammTopPools(limit: number = 20): Promise<UnifiedPool[]> {
+  // Check cache
+  if (_dammCache && Date.now() - _dammCache.fetchedAt < CACHE_TTL_MS) {
+    return _dammCache.data.slice(0, limit).map(transformDammPool);
+  }
+
+  try {
+    const url = `${config.meteora.dammApiUrl}/pools?page=1&limit=${Math.min(limit * 2, 100)}&order_by=tvl&order=desc`;
+    const resp = await fetch(url);
+    if (!resp.ok) throw new Error(`Meteora DAMM API failed: ${resp.status}`);
+
+    const data = (await resp.json()) as any;
+    const rawPools = (data.data || []).filter((p: any) => parseFloat(p.tvl || '0') > 10_000);
+
+    _dammCache = { data: rawPools, fetchedAt: Date.now() };
+
+    return rawPools.slice(0, limit).map(transformDammPool);
+  } catch (error) {
+    console.error('[UnifiedPools] Meteora DAMM fetch error:', error);
+    return [];
+  }
+}
+
+function transformDammPool(p: any): UnifiedPool {
+  const tokenASymbol = p.token_a_symbol || 'UNKNOWN';
+  const tokenBSymbol = p.token_b_symbol || 'UNKNOWN';
+  const name = p.pool_name || `${tokenASymbol}-${tokenBSymbol}`;
+  const feeRate = Math.round(parseFloat(p.base_fee || '0') * 100); // Percent to bps
+
+  const tvl = parseFloat(p.tvl || '0');
+  const volume24h = parseFloat(p.volume24h || '0');
+
+  // DAMM API provides APR directly (already percentage)
+  const apr = parseFloat(p.apr || '0');
+
+  const riskScore = calculatePoolRiskScore(tokenASymbol, tokenBSymbol, tvl, volume24h);
+
+  return {
+    address: p.pool_address,
+    name,
+    tokenA: { symbol: tokenASymbol, mint: p.token_a_mint || '' },
+    tokenB: { symbol: tokenBSymbol, mint: p.token_b_mint || '' },
+    dex: 'damm',
+    apr,
+    tvl,
+    volume24h,
+    feeRate,
+    riskScore,
+    dailyYieldPer100Usd: calculateDailyYield(apr),
+  };
+}
+
 // ============ Unified Fetching ============
 
 /**
@@ -348,13 +404,15 @@ export async function fetchUnifiedPools(
   } = options;
 
   // Fetch from all DEXes in parallel
-  const [meteoraPools, orcaPools, raydiumPools] = await Promise.all([
-    dexFilter === 'orca' || dexFilter === 'raydium' ? [] : fetchMeteoraTopPools(limit * 2),
-    dexFilter === 'meteora' || dexFilter === 'raydium' ? [] : fetchOrcaTopPools(limit * 2),
-    dexFilter === 'meteora' || dexFilter === 'orca' ? [] : fetchRaydiumTopPools(limit * 2),
+  const wants = (dex: UnifiedPool['dex']) => dexFilter === 'all' || dexFilter === dex;
+  const [meteoraPools, orcaPools, raydiumPools, dammPools] = await Promise.all([
+    wants('meteora') ? fetchMeteoraTopPools(limit * 2) : [],
+    wants('orca') ? fetchOrcaTopPools(limit * 2) : [],
+    wants('raydium') ? fetchRaydiumTopPools(limit * 2) : [],
+    wants('damm') ? fetchDammTopPools(limit * 2) : [],
   ]);
 
-  let allPools = [...meteoraPools, ...orcaPools, ...raydiumPools];
+  let allPools = [...meteoraPools, ...orcaPools, ...raydiumPools, ...dammPools];
 
   // Apply filters
   allPools = allPools.filter(pool => {
@@ -422,13 +480,14 @@ export async function findBestPool(
   const tokenBUpper = tokenB.toUpperCase();
 
   // Fetch all pools from all DEXes
-  const [meteoraPools, orcaPools, raydiumPools] = await Promise.all([
+  const [meteoraPools, orcaPools, raydiumPools, dammPools] = await Promise.all([
     fetchMeteoraTopPools(100),
     fetchOrcaTopPools(100),
     fetchRaydiumTopPools(100),
+    fetchDammTopPools(100),
   ]);
 
-  const allPools = [...meteoraPools, ...orcaPools, ...raydiumPools];
+  const allPools = [...meteoraPools, ...orcaPools, ...raydiumPools, ...dammPools];
 
   // Find matching pools
   const matchingPools = allPools.filter(pool => {
@@ -465,11 +524,18 @@ export async function findPoolsByToken(
 
 // ============ Utility Functions ============
 
+const DEX_BADGES: Record<UnifiedPool['dex'], string> = {
+  meteora: '🌙',
+  orca: '🐋',
+  raydium: '⚡',
+  damm: '💧',
+};
+
 /**
  * Format pool for display
  */
 export function formatPoolDisplay(pool: UnifiedPool): string {
-  const dexBadge = pool.dex === 'meteora' ? '🌙' : pool.dex === 'orca' ? '🐋' : '⚡'; // Raydium = lightning
+  const dexBadge = DEX_BADGES[pool.dex];
   const tvlStr = pool.tvl >= 1_000_000 
     ? `$${(pool.tvl / 1_000_000).toFixed(1)}M`
     : pool.tvl >= 1_000 
@@ -493,6 +559,7 @@ export function clearUnifiedPoolsCache(): void {
   _meteoraCache = null;
   _orcaCache = null;
   _raydiumCache = null;
+  _dammCache = null;
 }
 
 // ============ Exports ============
@@ -524,6 +591,11 @@ export async function testUnifiedPools(): Promise<void> {
   const raydiumPools = await fetchRaydiumTopPools(5);
   raydiumPools.forEach(p => console.log(formatPoolDisplay(p) + '\n'));
 
+  // Test Meteora DAMM v2
+  console.log('\n=== Meteora DAMM v2 Top Pools ===');
+  const dammPools = await fetchDammTopPools(5);
+  dammPools.forEach(p => console.log(formatPoolDisplay(p) + '\n'));
+
   // Test unified
   console.log('\n=== Unified Pools (Risk-Adjusted) ===');
   const unified = await fetchUnifiedPools({ limit: 10, sortBy: 'riskAdjustedYield' });
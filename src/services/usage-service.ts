@@ -0,0 +1,140 @@
+/**
+ * Usage Accounting - per-client request counts by day
+ *
+ * Clients are `key:<apiKeyId>` or `ip:<address>`. Counts are buffered in
+ * memory and flushed to the shared store every few seconds, so a request
+ * costs no KV round trips and counts from every instance add up.
+ *
+ * Keyspace:
+ *   lp-toolkit:usage:<day>:clients          Set of clients seen that day
+ *   lp-toolkit:usage:<day>:client:<client>  Hash: total, read, tx, limited, route:<METHOD path>
+ */
+
+import { getStore } from '../storage/index.js';
+import { config } from '../config/index.js';
+
+const KEYS = {
+  CLIENTS: (day: string) => `lp-toolkit:usage:${day}:clients`,
+  CLIENT: (day: string, client: string) => `lp-toolkit:usage:${day}:client:${client}`,
+};
+
+const FLUSH_INTERVAL_MS = 10_000;
+const ROUTE_FIELD_PREFIX = 'route:';
+
+export type RequestClass = 'read' | 'tx';
+
+export interface UsageEvent {
+  client: string;
+  requestClass: RequestClass;
+  method: string;
+  path: string;
+  limited: boolean;
+}
+
+export interface ClientUsage {
+  client: string;
+  total: number;
+  read: number;
+  tx: number;
+  limited: number;
+  routes: Array<{ route: string; count: number }>;
+}
+
+// day -> client -> field -> count, not yet in the store
+const pending = new Map<string, Map<string, Map<string, number>>>();
+let flushTimer: NodeJS.Timeout | null = null;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Collapse ids and addresses so /wallet/<id>/balance counts as one route
+ */
+export function normalizeRoute(path: string): string {
+  return path
+    .split('/')
+    .map(seg => {
+      if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(seg)) return ':address';
+      if (seg.length >= 16 && /\d/.test(seg)) return ':id';
+      return seg;
+    })
+    .join('/');
+}
+
+function bump(fields: Map<string, number>, field: string): void {
+  fields.set(field, (fields.get(field) || 0) + 1);
+}
+
+export function recordUsage(event: UsageEvent): void {
+  const day = today();
+  let clients = pending.get(day);
+  if (!clients) pending.set(day, clients = new Map());
+  let fields = clients.get(event.client);
+  if (!fields) clients.set(event.client, fields = new Map());
+
+  bump(fields, 'total');
+  bump(fields, event.requestClass);
+  if (event.limited) bump(fields, 'limited');
+  bump(fields, `${ROUTE_FIELD_PREFIX}${event.method} ${normalizeRoute(event.path)}`);
+
+  if (!flushTimer) {
+    flushTimer = setInterval(() => {
+      flushUsage().catch(e => console.error('[Usage] Flush failed:', e.message));
+    }, FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+  }
+}
+
+/**
+ * Write buffered counts to the store
+ */
+export async function flushUsage(): Promise<void> {
+  if (pending.size === 0) return;
+  const batch = new Map(pending);
+  pending.clear();
+
+  const store = getStore();
+  const ttl = config.rateLimit.usageRetentionDays * 24 * 60 * 60;
+  for (const [day, clients] of batch) {
+    for (const [client, fields] of clients) {
+      const key = KEYS.CLIENT(day, client);
+      for (const [field, count] of fields) {
+        await store.hincrby(key, field, count);
+      }
+      await store.expire(key, ttl);
+      await store.sadd(KEYS.CLIENTS(day), client);
+    }
+    await store.expire(KEYS.CLIENTS(day), ttl);
+  }
+}
+
+/**
+ * Usage per client for a day (YYYY-MM-DD, default today), busiest first
+ */
+export async function getUsageReport(day = today(), opts: { client?: string; topRoutes?: number } = {}): Promise<ClientUsage[]> {
+  await flushUsage();
+
+  const store = getStore();
+  const clients = opts.client ? [opts.client] : await store.smembers<string>(KEYS.CLIENTS(day));
+  const report = await Promise.all(clients.map(async (client) => {
+    const hash = await store.hgetall<Record<string, string | number>>(KEYS.CLIENT(day, client)) || {};
+    const routes = Object.entries(hash)
+      .filter(([field]) => field.startsWith(ROUTE_FIELD_PREFIX))
+      .map(([field, count]) => ({ route: field.slice(ROUTE_FIELD_PREFIX.length), count: Number(count) }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, opts.topRoutes ?? 10);
+    return {
+      client,
+      total: Number(hash.total || 0),
+      read: Number(hash.read || 0),
+      tx: Number(hash.tx || 0),
+      limited: Number(hash.limited || 0),
+      routes,
+    };
+  }));
+
+  return report
+    .filter(u => u.total > 0)
+    .sort((a, b) => b.total - a.total);
+}
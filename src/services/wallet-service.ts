@@ -4,6 +4,7 @@
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { config } from '../config/index.js';
 import { withRetry, isTransientError } from '../utils/resilience.js';
+import { createConnection } from './connection-pool.js';
 
 // Lazy-load Privy to avoid ESM/CJS issues at startup
 let PrivyWalletClient: any = null;
@@ -52,7 +53,7 @@ export async function loadWalletById(walletId: string): Promise<{ client: any; w
 }
 
 export function getConnection(): Connection {
-  return new Connection(config.solana?.rpc || 'https://api.mainnet-beta.solana.com');
+  return createConnection();
 }
 
 export async function getWalletBalance(walletAddress: string): Promise<{ lamports: number; sol: number }> {
@@ -36,26 +36,12 @@ import {
   type WebhookConfig,
   type AlertResult,
 } from './monitoring/index.js';
-import { Redis } from '@upstash/redis';
+import { getStore } from './storage/index.js';
 import { assessPoolRisk, assessPositionRisk, getTokenVolatility, type PoolRiskAssessment, type PositionRiskAssessment } from './risk/index.js';
 import { withTimeout, PRIVY_SIGN_TIMEOUT_MS } from './utils/resilience.js';
 import { ErrorCode, createError, classifyError, getHttpStatus, getFriendlyMessage } from './utils/error-codes.js';
 import { requestIdMiddleware, getRequestId } from './middleware/requestId.js';
 
-// Redis client for cache invalidation
-let redis: Redis | null = null;
-function getRedis(): Redis | null {
-  if (redis) return redis;
-  
-  const url = process.env.UPSTASH_REDIS_REST_URL;
-  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
-  
-  if (!url || !token) return null;
-  
-  redis = new Redis({ url, token });
-  return redis;
-}
-
 // Lazy-load Privy to avoid ESM/CJS issues at startup
 let PrivyWalletClient: any = null;
 async function loadPrivy() {
@@ -1319,10 +1305,7 @@ app.post('/wallet/:walletId/swap-all-to-sol', async (c) => {
     const failedSwaps = swaps.filter(s => s.error);
     
     // Invalidate position cache since balances changed
-    const redisClient = getRedis();
-    if (redisClient) {
-      await redisClient.del(`positions:${walletId}`);
-    }
+    await getStore().del(`positions:${walletId}`);
     
     return c.json({
       success: successfulSwaps.length > 0,
@@ -1801,11 +1784,8 @@ async function lpExecuteHandler(c: any) {
 
     // CACHE FIX: Invalidate position cache after new LP position is created
     try {
-      const redis = getRedis();
-      if (redis) {
-        await redis.del(`positions:${walletId}`);
-        console.log(`[LP Execute] Invalidated position cache for wallet ${walletId}`);
-      }
+      await getStore().del(`positions:${walletId}`);
+      console.log(`[LP Execute] Invalidated position cache for wallet ${walletId}`);
     } catch (e) {
       console.warn('[LP Execute] Failed to invalidate position cache:', (e as Error).message);
     }
@@ -2138,11 +2118,8 @@ app.post('/lp/rebalance/execute', async (c) => {
 
     // CACHE FIX: Invalidate position cache after rebalance (whether successful or partial)
     try {
-      const redis = getRedis();
-      if (redis) {
-        await redis.del(`positions:${walletId}`);
-        console.log(`[Rebalance Execute] Invalidated position cache for wallet ${walletId}`);
-      }
+      await getStore().del(`positions:${walletId}`);
+      console.log(`[Rebalance Execute] Invalidated position cache for wallet ${walletId}`);
     } catch (e) {
       console.warn('[Rebalance Execute] Failed to invalidate position cache:', (e as Error).message);
     }
@@ -2392,11 +2369,8 @@ app.post('/lp/withdraw/execute', async (c) => {
 
         // CACHE FIX: Invalidate position cache after successful submission
         try {
-          const redis = getRedis();
-          if (redis) {
-            await redis.del(`positions:${walletId}`);
-            console.log(`[Withdraw ${jobId}] Invalidated position cache for wallet ${walletId}`);
-          }
+          await getStore().del(`positions:${walletId}`);
+          console.log(`[Withdraw ${jobId}] Invalidated position cache for wallet ${walletId}`);
         } catch (e) {
           console.warn(`[Withdraw ${jobId}] Failed to invalidate position cache:`, (e as Error).message);
         }
@@ -2507,11 +2481,8 @@ app.post('/lp/withdraw/execute/sync', async (c) => {
 
     // CACHE FIX: Invalidate position cache after bundle submission
     try {
-      const redis = getRedis();
-      if (redis) {
-        await redis.del(`positions:${walletId}`);
-        console.log(`[Withdraw Execute] Invalidated position cache for wallet ${walletId}`);
-      }
+      await getStore().del(`positions:${walletId}`);
+      console.log(`[Withdraw Execute] Invalidated position cache for wallet ${walletId}`);
     } catch (e) {
       console.warn('Failed to invalidate position cache:', (e as Error).message);
     }
@@ -0,0 +1,49 @@
+/**
+ * Value encoding shared by the local storage adapters.
+ *
+ * Matches the Upstash client's automatic (de)serialization so data written
+ * through one backend reads back identically through another: non-string
+ * values are JSON encoded on the way in, and replies are JSON parsed on the
+ * way out when they parse cleanly.
+ */
+
+export function encodeValue(value: unknown): string {
+  switch (typeof value) {
+    case 'string':
+      return value;
+    case 'number':
+    case 'boolean':
+      return String(value);
+    default:
+      return JSON.stringify(value);
+  }
+}
+
+export function decodeValue<T = unknown>(raw: string | null | undefined): T | null {
+  if (raw === null || raw === undefined) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    // Keep numeric-looking strings ("007", "1e3") exactly as stored
+    if (typeof parsed === 'number' && parsed.toString() !== raw) {
+      return raw as unknown as T;
+    }
+    return parsed as T;
+  } catch {
+    return raw as unknown as T;
+  }
+}
+
+/**
+ * Convert a Redis glob pattern (`*`, `?`, `[abc]`) into a RegExp
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (const char of pattern) {
+    if (char === '*') source += '.*';
+    else if (char === '?') source += '.';
+    else if (char === '[' || char === ']') source += char;
+    else source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
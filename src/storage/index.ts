@@ -0,0 +1,93 @@
+/**
+ * Storage
+ *
+ * Single entry point for persistent state. Every stateful module calls
+ * `getStore()` instead of constructing its own Upstash client, and the
+ * backend is chosen once from config:
+ *
+ * - upstash: Upstash REST (production)
+ * - redis:   any Redis server over RESP (local dev, docker-compose)
+ * - memory:  in-process Maps, optionally snapshotted to STORAGE_FILE
+ *
+ * STORAGE_BACKEND forces a backend; otherwise Upstash credentials win,
+ * then REDIS_URL, then memory.
+ */
+
+import { config } from '../config/index.js';
+import { UpstashStore } from './upstash.js';
+import { RedisProtocolStore } from './redisProtocol.js';
+import { MemoryStore } from './memory.js';
+import type { KVStore, StorageBackend } from './types.js';
+
+export type { KVStore, StorageBackend, SetOptions, ZRangeOptions } from './types.js';
+export { UpstashStore } from './upstash.js';
+export { RedisProtocolStore } from './redisProtocol.js';
+export { MemoryStore } from './memory.js';
+
+// Singleton store instance
+let store: KVStore | null = null;
+
+function resolveBackend(): StorageBackend {
+  const requested = config.storage.backend.toLowerCase();
+  if (requested === 'upstash' || requested === 'redis' || requested === 'memory') {
+    return requested;
+  }
+  if (requested) {
+    console.warn(`[Storage] Unknown STORAGE_BACKEND "${requested}", auto-detecting`);
+  }
+
+  if (config.storage.upstashUrl && config.storage.upstashToken) return 'upstash';
+  if (config.storage.redisUrl) return 'redis';
+  return 'memory';
+}
+
+/**
+ * Create a store for an explicit backend (ignores the singleton)
+ */
+export function createStore(backend: StorageBackend): KVStore {
+  switch (backend) {
+    case 'upstash':
+      if (!config.storage.upstashUrl || !config.storage.upstashToken) {
+        throw new Error('Upstash storage requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN');
+      }
+      return new UpstashStore(config.storage.upstashUrl, config.storage.upstashToken);
+    case 'redis':
+      return new RedisProtocolStore(config.storage.redisUrl || 'redis://127.0.0.1:6379');
+    case 'memory':
+      return new MemoryStore(config.storage.file || undefined);
+  }
+}
+
+/**
+ * Get the shared store.
+ * Creates it on first call from config, reuses on subsequent calls.
+ */
+export function getStore(): KVStore {
+  if (!store) {
+    const backend = resolveBackend();
+    store = createStore(backend);
+
+    if (backend === 'memory' && !config.storage.file) {
+      console.warn('[Storage] ⚠️ Using in-process storage (set STORAGE_FILE to persist across restarts)');
+    } else {
+      console.log(`[Storage] Using ${backend} storage backend`);
+    }
+  }
+
+  return store;
+}
+
+/**
+ * Replace the shared store (for tests and scripts)
+ */
+export function setStore(next: KVStore | null): void {
+  store = next;
+}
+
+/**
+ * Whether state survives a process restart with the active backend
+ */
+export function isStoreDurable(): boolean {
+  const active = getStore();
+  return active.backend !== 'memory' || !!config.storage.file;
+}
@@ -0,0 +1,393 @@
+/**
+ * In-Process Storage Adapter
+ *
+ * Implements the KVStore contract with plain Maps so the bot and API run
+ * on a laptop (or in CI) with no Redis at all. When a snapshot file is
+ * configured the whole keyspace is written to disk after each mutation
+ * (debounced) and reloaded on startup, so onboarding state and DCA
+ * schedules survive restarts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { encodeValue, decodeValue, globToRegExp } from './codec.js';
+import type { KVStore, SetOptions, ZRangeOptions } from './types.js';
+
+type Entry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'hash'; value: Map<string, string>; expiresAt?: number }
+  | { type: 'set'; value: Set<string>; expiresAt?: number }
+  | { type: 'list'; value: string[]; expiresAt?: number }
+  | { type: 'zset'; value: Map<string, number>; expiresAt?: number };
+
+interface SnapshotEntry {
+  type: Entry['type'];
+  value: any;
+  expiresAt?: number;
+}
+
+const FLUSH_DEBOUNCE_MS = 250;
+
+export class MemoryStore implements KVStore {
+  readonly backend = 'memory' as const;
+
+  private data = new Map<string, Entry>();
+  private snapshotPath?: string;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(snapshotPath?: string) {
+    this.snapshotPath = snapshotPath;
+    if (snapshotPath) this.load();
+  }
+
+  // ============ Snapshot Persistence ============
+
+  private load(): void {
+    if (!this.snapshotPath || !fs.existsSync(this.snapshotPath)) return;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8')) as Record<string, SnapshotEntry>;
+      for (const [key, entry] of Object.entries(raw)) {
+        switch (entry.type) {
+          case 'string':
+            this.data.set(key, { type: 'string', value: entry.value, expiresAt: entry.expiresAt });
+            break;
+          case 'hash':
+            this.data.set(key, { type: 'hash', value: new Map(Object.entries(entry.value)), expiresAt: entry.expiresAt });
+            break;
+          case 'set':
+            this.data.set(key, { type: 'set', value: new Set(entry.value), expiresAt: entry.expiresAt });
+            break;
+          case 'list':
+            this.data.set(key, { type: 'list', value: entry.value, expiresAt: entry.expiresAt });
+            break;
+          case 'zset':
+            this.data.set(key, { type: 'zset', value: new Map(Object.entries(entry.value)), expiresAt: entry.expiresAt });
+            break;
+        }
+      }
+      console.log(`[Storage] Loaded ${this.data.size} keys from ${this.snapshotPath}`);
+    } catch (error: any) {
+      console.error(`[Storage] Failed to load snapshot ${this.snapshotPath}: ${error.message}`);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.snapshotPath || this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_DEBOUNCE_MS);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Write the keyspace to the snapshot file immediately
+   */
+  flush(): void {
+    if (!this.snapshotPath) return;
+
+    const snapshot: Record<string, SnapshotEntry> = {};
+    for (const [key, entry] of this.data) {
+      if (this.isExpired(entry)) continue;
+      let value: any;
+      switch (entry.type) {
+        case 'string':
+        case 'list':
+          value = entry.value;
+          break;
+        case 'set':
+          value = [...entry.value];
+          break;
+        case 'hash':
+        case 'zset':
+          value = Object.fromEntries(entry.value);
+          break;
+      }
+      snapshot[key] = { type: entry.type, value, expiresAt: entry.expiresAt };
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.snapshotPath), { recursive: true });
+      const tmpPath = `${this.snapshotPath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(snapshot));
+      fs.renameSync(tmpPath, this.snapshotPath);
+    } catch (error: any) {
+      console.error(`[Storage] Failed to write snapshot ${this.snapshotPath}: ${error.message}`);
+    }
+  }
+
+  // ============ Helpers ============
+
+  private isExpired(entry: Entry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+  }
+
+  private entry(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry && this.isExpired(entry)) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private typed<K extends Entry['type']>(key: string, type: K, create: boolean): Extract<Entry, { type: K }> | undefined {
+    const existing = this.entry(key);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+      }
+      return existing as Extract<Entry, { type: K }>;
+    }
+    if (!create) return undefined;
+
+    let created: Entry;
+    switch (type) {
+      case 'string': created = { type: 'string', value: '' }; break;
+      case 'hash': created = { type: 'hash', value: new Map() }; break;
+      case 'set': created = { type: 'set', value: new Set() }; break;
+      case 'list': created = { type: 'list', value: [] }; break;
+      default: created = { type: 'zset', value: new Map() }; break;
+    }
+    this.data.set(key, created);
+    return created as Extract<Entry, { type: K }>;
+  }
+
+  private dropIfEmpty(key: string): void {
+    const entry = this.data.get(key);
+    if (!entry || entry.type === 'string') return;
+    const size = entry.type === 'list' ? entry.value.length : entry.value.size;
+    if (size === 0) this.data.delete(key);
+  }
+
+  private normalizeIndex(index: number, length: number): number {
+    return index < 0 ? Math.max(length + index, 0) : index;
+  }
+
+  private sortedZset(key: string): Array<[string, number]> {
+    const zset = this.typed(key, 'zset', false);
+    if (!zset) return [];
+    return [...zset.value.entries()].sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]));
+  }
+
+  // ============ KVStore ============
+
+  async ping(): Promise<string> {
+    return 'PONG';
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const entry = this.typed(key, 'string', false);
+    return entry ? decodeValue<T>(entry.value) : null;
+  }
+
+  async set(key: string, value: unknown, opts?: SetOptions): Promise<'OK' | null> {
+    if (opts?.nx && this.entry(key)) return null;
+
+    this.data.set(key, {
+      type: 'string',
+      value: encodeValue(value),
+      expiresAt: opts?.ex ? Date.now() + opts.ex * 1000 : undefined,
+    });
+    this.scheduleFlush();
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let removed = 0;
+    for (const key of keys) {
+      if (this.entry(key) && this.data.delete(key)) removed++;
+    }
+    if (removed > 0) this.scheduleFlush();
+    return removed;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const regex = globToRegExp(pattern);
+    return [...this.data.keys()].filter(key => this.entry(key) && regex.test(key));
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.typed(key, 'string', true)!;
+    const current = entry.value === '' ? 0 : parseInt(entry.value);
+    if (Number.isNaN(current)) throw new Error('ERR value is not an integer or out of range');
+    entry.value = String(current + 1);
+    this.scheduleFlush();
+    return current + 1;
+  }
+
+  async expire(key: string, seconds: number): Promise<number> {
+    const entry = this.entry(key);
+    if (!entry) return 0;
+    entry.expiresAt = Date.now() + seconds * 1000;
+    this.scheduleFlush();
+    return 1;
+  }
+
+  async sadd(key: string, ...members: unknown[]): Promise<number> {
+    const set = this.typed(key, 'set', true)!;
+    let added = 0;
+    for (const member of members.map(encodeValue)) {
+      if (!set.value.has(member)) {
+        set.value.add(member);
+        added++;
+      }
+    }
+    this.scheduleFlush();
+    return added;
+  }
+
+  async srem(key: string, ...members: unknown[]): Promise<number> {
+    const set = this.typed(key, 'set', false);
+    if (!set) return 0;
+    let removed = 0;
+    for (const member of members.map(encodeValue)) {
+      if (set.value.delete(member)) removed++;
+    }
+    this.dropIfEmpty(key);
+    this.scheduleFlush();
+    return removed;
+  }
+
+  async smembers<T = string>(key: string): Promise<T[]> {
+    const set = this.typed(key, 'set', false);
+    return set ? [...set.value].map(m => decodeValue<T>(m) as T) : [];
+  }
+
+  async hset(key: string, fields: Record<string, unknown>): Promise<number> {
+    const hash = this.typed(key, 'hash', true)!;
+    let added = 0;
+    for (const [field, value] of Object.entries(fields)) {
+      if (!hash.value.has(field)) added++;
+      hash.value.set(field, encodeValue(value));
+    }
+    this.scheduleFlush();
+    return added;
+  }
+
+  async hget<T = unknown>(key: string, field: string): Promise<T | null> {
+    const hash = this.typed(key, 'hash', false);
+    return hash ? decodeValue<T>(hash.value.get(field)) : null;
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<number> {
+    const hash = this.typed(key, 'hash', false);
+    if (!hash) return 0;
+    let removed = 0;
+    for (const field of fields) {
+      if (hash.value.delete(field)) removed++;
+    }
+    this.dropIfEmpty(key);
+    this.scheduleFlush();
+    return removed;
+  }
+
+  async hgetall<T = Record<string, unknown>>(key: string): Promise<T | null> {
+    const hash = this.typed(key, 'hash', false);
+    if (!hash || hash.value.size === 0) return null;
+    const result: Record<string, unknown> = {};
+    for (const [field, value] of hash.value) {
+      result[field] = decodeValue(value);
+    }
+    return result as T;
+  }
+
+  async hlen(key: string): Promise<number> {
+    return this.typed(key, 'hash', false)?.value.size ?? 0;
+  }
+
+  async hincrby(key: string, field: string, increment: number): Promise<number> {
+    const hash = this.typed(key, 'hash', true)!;
+    const next = parseInt(hash.value.get(field) ?? '0') + increment;
+    hash.value.set(field, String(next));
+    this.scheduleFlush();
+    return next;
+  }
+
+  async lpush(key: string, ...values: unknown[]): Promise<number> {
+    const list = this.typed(key, 'list', true)!;
+    for (const value of values) {
+      list.value.unshift(encodeValue(value));
+    }
+    this.scheduleFlush();
+    return list.value.length;
+  }
+
+  async rpop<T = unknown>(key: string): Promise<T | null> {
+    const list = this.typed(key, 'list', false);
+    if (!list) return null;
+    const value = list.value.pop();
+    this.dropIfEmpty(key);
+    this.scheduleFlush();
+    return decodeValue<T>(value);
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.typed(key, 'list', false)?.value.length ?? 0;
+  }
+
+  async lrange<T = string>(key: string, start: number, stop: number): Promise<T[]> {
+    const list = this.typed(key, 'list', false);
+    if (!list) return [];
+    const from = this.normalizeIndex(start, list.value.length);
+    const to = stop < 0 ? list.value.length + stop : stop;
+    return list.value.slice(from, to + 1).map(v => decodeValue<T>(v) as T);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<'OK'> {
+    const list = this.typed(key, 'list', false);
+    if (!list) return 'OK';
+    const from = this.normalizeIndex(start, list.value.length);
+    const to = stop < 0 ? list.value.length + stop : stop;
+    list.value = list.value.slice(from, to + 1);
+    this.dropIfEmpty(key);
+    this.scheduleFlush();
+    return 'OK';
+  }
+
+  async zadd(key: string, entry: { score: number; member: unknown }): Promise<number | null> {
+    const zset = this.typed(key, 'zset', true)!;
+    const member = encodeValue(entry.member);
+    const added = zset.value.has(member) ? 0 : 1;
+    zset.value.set(member, entry.score);
+    this.scheduleFlush();
+    return added;
+  }
+
+  async zrange<T = string>(key: string, min: number, max: number, opts?: ZRangeOptions): Promise<T[]> {
+    const sorted = this.sortedZset(key);
+    let members: string[];
+
+    if (opts?.byScore) {
+      members = sorted.filter(([, score]) => score >= min && score <= max).map(([m]) => m);
+      const offset = opts.offset ?? 0;
+      members = opts.count !== undefined
+        ? members.slice(offset, offset + opts.count)
+        : members.slice(offset);
+    } else {
+      const from = this.normalizeIndex(min, sorted.length);
+      const to = max < 0 ? sorted.length + max : max;
+      members = sorted.slice(from, to + 1).map(([m]) => m);
+    }
+
+    return members.map(m => decodeValue<T>(m) as T);
+  }
+
+  async zrem(key: string, ...members: unknown[]): Promise<number> {
+    const zset = this.typed(key, 'zset', false);
+    if (!zset) return 0;
+    let removed = 0;
+    for (const member of members.map(encodeValue)) {
+      if (zset.value.delete(member)) removed++;
+    }
+    this.dropIfEmpty(key);
+    this.scheduleFlush();
+    return removed;
+  }
+
+  async zcard(key: string): Promise<number> {
+    return this.typed(key, 'zset', false)?.value.size ?? 0;
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Redis Protocol Storage Adapter
+ *
+ * Speaks RESP directly over a TCP socket so a plain local `redis-server`
+ * (or Docker `redis:7`) can back the toolkit without an Upstash account.
+ * Commands are pipelined on a single connection and replies are matched
+ * to callers in FIFO order.
+ *
+ * Connection string: redis://[:password@]host[:port][/db]
+ */
+
+import net from 'net';
+import { encodeValue, decodeValue } from './codec.js';
+import type { KVStore, SetOptions, ZRangeOptions } from './types.js';
+
+type RespReply = string | number | null | RespReply[];
+
+interface PendingCommand {
+  resolve: (reply: RespReply) => void;
+  reject: (error: Error) => void;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+export class RedisProtocolStore implements KVStore {
+  readonly backend = 'redis' as const;
+
+  private host: string;
+  private port: number;
+  private password?: string;
+  private db: number;
+
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer = Buffer.alloc(0);
+
+  constructor(url: string) {
+    const parsed = new URL(url);
+    this.host = parsed.hostname || '127.0.0.1';
+    this.port = parsed.port ? parseInt(parsed.port) : 6379;
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : undefined;
+    this.db = parsed.pathname && parsed.pathname.length > 1 ? parseInt(parsed.pathname.slice(1)) : 0;
+  }
+
+  // ============ Connection ============
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setTimeout(CONNECT_TIMEOUT_MS);
+
+      socket.once('connect', async () => {
+        socket.setTimeout(0);
+        this.socket = socket;
+        try {
+          if (this.password) await this.command('AUTH', this.password);
+          if (this.db) await this.command('SELECT', String(this.db));
+          resolve(socket);
+        } catch (error: any) {
+          reject(error);
+        }
+      });
+
+      socket.once('timeout', () => {
+        socket.destroy(new Error(`Redis connection to ${this.host}:${this.port} timed out`));
+      });
+
+      socket.on('data', (chunk) => this.onData(chunk));
+
+      socket.on('error', (error) => {
+        console.error(`[Storage] Redis socket error: ${error.message}`);
+        this.failPending(error);
+        reject(error);
+      });
+
+      socket.on('close', () => {
+        this.socket = null;
+        this.connecting = null;
+        this.buffer = Buffer.alloc(0);
+        this.failPending(new Error('Redis connection closed'));
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const p of pending) p.reject(error);
+  }
+
+  private async command(...args: string[]): Promise<RespReply> {
+    const socket = this.socket ?? await this.connect();
+
+    let payload = `*${args.length}\r\n`;
+    for (const arg of args) {
+      payload += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+    }
+
+    return new Promise<RespReply>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(payload);
+    });
+  }
+
+  // ============ RESP Parsing ============
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.pending.length > 0) {
+      const parsed = this.parseReply(0);
+      if (!parsed) return;
+
+      this.buffer = this.buffer.subarray(parsed.next);
+      const next = this.pending.shift()!;
+      if (parsed.reply instanceof Error) {
+        next.reject(parsed.reply);
+      } else {
+        next.resolve(parsed.reply);
+      }
+    }
+  }
+
+  private parseReply(offset: number): { reply: RespReply | Error; next: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const afterLine = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { reply: line, next: afterLine };
+      case '-':
+        return { reply: new Error(line), next: afterLine };
+      case ':':
+        return { reply: parseInt(line), next: afterLine };
+      case '$': {
+        const length = parseInt(line);
+        if (length === -1) return { reply: null, next: afterLine };
+        if (this.buffer.length < afterLine + length + 2) return null;
+        return {
+          reply: this.buffer.toString('utf8', afterLine, afterLine + length),
+          next: afterLine + length + 2,
+        };
+      }
+      case '*': {
+        const count = parseInt(line);
+        if (count === -1) return { reply: null, next: afterLine };
+        const items: RespReply[] = [];
+        let cursor = afterLine;
+        for (let i = 0; i < count; i++) {
+          const item = this.parseReply(cursor);
+          if (!item) return null;
+          items.push(item.reply instanceof Error ? null : item.reply);
+          cursor = item.next;
+        }
+        return { reply: items, next: cursor };
+      }
+      default:
+        return { reply: new Error(`Unexpected RESP type: ${type}`), next: afterLine };
+    }
+  }
+
+  // ============ KVStore ============
+
+  async ping(): Promise<string> {
+    return String(await this.command('PING'));
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return decodeValue<T>(await this.command('GET', key) as string | null);
+  }
+
+  async set(key: string, value: unknown, opts?: SetOptions): Promise<'OK' | null> {
+    const args = ['SET', key, encodeValue(value)];
+    if (opts?.ex) args.push('EX', String(opts.ex));
+    if (opts?.nx) args.push('NX');
+    const reply = await this.command(...args);
+    return reply === null ? null : 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return await this.command('DEL', ...keys) as number;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return await this.command('KEYS', pattern) as string[];
+  }
+
+  async incr(key: string): Promise<number> {
+    return await this.command('INCR', key) as number;
+  }
+
+  async expire(key: string, seconds: number): Promise<number> {
+    return await this.command('EXPIRE', key, String(seconds)) as number;
+  }
+
+  async sadd(key: string, ...members: unknown[]): Promise<number> {
+    return await this.command('SADD', key, ...members.map(encodeValue)) as number;
+  }
+
+  async srem(key: string, ...members: unknown[]): Promise<number> {
+    return await this.command('SREM', key, ...members.map(encodeValue)) as number;
+  }
+
+  async smembers<T = string>(key: string): Promise<T[]> {
+    const reply = await this.command('SMEMBERS', key) as string[];
+    return reply.map(r => decodeValue<T>(r) as T);
+  }
+
+  async hset(key: string, fields: Record<string, unknown>): Promise<number> {
+    const args = Object.entries(fields).flatMap(([f, v]) => [f, encodeValue(v)]);
+    return await this.command('HSET', key, ...args) as number;
+  }
+
+  async hget<T = unknown>(key: string, field: string): Promise<T | null> {
+    return decodeValue<T>(await this.command('HGET', key, field) as string | null);
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<number> {
+    return await this.command('HDEL', key, ...fields) as number;
+  }
+
+  async hgetall<T = Record<string, unknown>>(key: string): Promise<T | null> {
+    const reply = await this.command('HGETALL', key) as string[];
+    if (reply.length === 0) return null;
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < reply.length; i += 2) {
+      result[reply[i]] = decodeValue(reply[i + 1]);
+    }
+    return result as T;
+  }
+
+  async hlen(key: string): Promise<number> {
+    return await this.command('HLEN', key) as number;
+  }
+
+  async hincrby(key: string, field: string, increment: number): Promise<number> {
+    return await this.command('HINCRBY', key, field, String(increment)) as number;
+  }
+
+  async lpush(key: string, ...values: unknown[]): Promise<number> {
+    return await this.command('LPUSH', key, ...values.map(encodeValue)) as number;
+  }
+
+  async rpop<T = unknown>(key: string): Promise<T | null> {
+    return decodeValue<T>(await this.command('RPOP', key) as string | null);
+  }
+
+  async llen(key: string): Promise<number> {
+    return await this.command('LLEN', key) as number;
+  }
+
+  async lrange<T = string>(key: string, start: number, stop: number): Promise<T[]> {
+    const reply = await this.command('LRANGE', key, String(start), String(stop)) as string[];
+    return reply.map(r => decodeValue<T>(r) as T);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<'OK'> {
+    await this.command('LTRIM', key, String(start), String(stop));
+    return 'OK';
+  }
+
+  async zadd(key: string, entry: { score: number; member: unknown }): Promise<number | null> {
+    return await this.command('ZADD', key, String(entry.score), encodeValue(entry.member)) as number;
+  }
+
+  async zrange<T = string>(key: string, min: number, max: number, opts?: ZRangeOptions): Promise<T[]> {
+    const args = opts?.byScore
+      ? ['ZRANGEBYSCORE', key, String(min), String(max)]
+      : ['ZRANGE', key, String(min), String(max)];
+    if (opts?.byScore && opts.count !== undefined) {
+      args.push('LIMIT', String(opts.offset ?? 0), String(opts.count));
+    }
+    const reply = await this.command(...args) as string[];
+    return reply.map(r => decodeValue<T>(r) as T);
+  }
+
+  async zrem(key: string, ...members: unknown[]): Promise<number> {
+    return await this.command('ZREM', key, ...members.map(encodeValue)) as number;
+  }
+
+  async zcard(key: string): Promise<number> {
+    return await this.command('ZCARD', key) as number;
+  }
+
+  /**
+   * Close the socket (used by scripts and tests to let the process exit)
+   */
+  disconnect(): void {
+    this.socket?.end();
+    this.socket = null;
+    this.connecting = null;
+  }
+}
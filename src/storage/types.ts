@@ -0,0 +1,61 @@
+/**
+ * Storage Types
+ *
+ * Key-value store contract shared by every storage adapter. The method
+ * signatures mirror the subset of the Upstash Redis client the toolkit
+ * already uses, so modules can swap `new Redis(...)` for `getStore()`
+ * without touching call sites.
+ */
+
+export type StorageBackend = 'upstash' | 'redis' | 'memory';
+
+export interface SetOptions {
+  ex?: number;  // TTL in seconds
+  nx?: boolean; // Only set if the key does not exist
+}
+
+export interface ZRangeOptions {
+  byScore?: boolean;
+  offset?: number;
+  count?: number;
+}
+
+export interface KVStore {
+  readonly backend: StorageBackend;
+
+  ping(): Promise<string>;
+
+  // Strings
+  get<T = unknown>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, opts?: SetOptions): Promise<'OK' | null>;
+  del(...keys: string[]): Promise<number>;
+  keys(pattern: string): Promise<string[]>;
+  incr(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+
+  // Sets
+  sadd(key: string, ...members: unknown[]): Promise<number>;
+  srem(key: string, ...members: unknown[]): Promise<number>;
+  smembers<T = string>(key: string): Promise<T[]>;
+
+  // Hashes
+  hset(key: string, fields: Record<string, unknown>): Promise<number>;
+  hget<T = unknown>(key: string, field: string): Promise<T | null>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+  hgetall<T = Record<string, unknown>>(key: string): Promise<T | null>;
+  hlen(key: string): Promise<number>;
+  hincrby(key: string, field: string, increment: number): Promise<number>;
+
+  // Lists
+  lpush(key: string, ...values: unknown[]): Promise<number>;
+  rpop<T = unknown>(key: string): Promise<T | null>;
+  llen(key: string): Promise<number>;
+  lrange<T = string>(key: string, start: number, stop: number): Promise<T[]>;
+  ltrim(key: string, start: number, stop: number): Promise<'OK'>;
+
+  // Sorted sets
+  zadd(key: string, entry: { score: number; member: unknown }): Promise<number | null>;
+  zrange<T = string>(key: string, min: number, max: number, opts?: ZRangeOptions): Promise<T[]>;
+  zrem(key: string, ...members: unknown[]): Promise<number>;
+  zcard(key: string): Promise<number>;
+}
@@ -0,0 +1,135 @@
+/**
+ * Upstash Storage Adapter
+ *
+ * Thin wrapper over the Upstash REST client. Upstash already performs the
+ * JSON (de)serialization the other adapters emulate, so every call is a
+ * straight pass-through.
+ */
+
+import { Redis } from '@upstash/redis';
+import type { KVStore, SetOptions, ZRangeOptions } from './types.js';
+
+export class UpstashStore implements KVStore {
+  readonly backend = 'upstash' as const;
+  private client: Redis;
+
+  constructor(url: string, token: string) {
+    this.client = new Redis({ url, token });
+  }
+
+  ping(): Promise<string> {
+    return this.client.ping();
+  }
+
+  get<T = unknown>(key: string): Promise<T | null> {
+    return this.client.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, opts?: SetOptions): Promise<'OK' | null> {
+    const result = opts?.nx
+      ? await this.client.set(key, value, opts.ex ? { ex: opts.ex, nx: true } : { nx: true })
+      : await this.client.set(key, value, opts?.ex ? { ex: opts.ex } : undefined);
+    return result === null ? null : 'OK';
+  }
+
+  del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return Promise.resolve(0);
+    return this.client.del(...keys);
+  }
+
+  keys(pattern: string): Promise<string[]> {
+    return this.client.keys(pattern);
+  }
+
+  incr(key: string): Promise<number> {
+    return this.client.incr(key);
+  }
+
+  expire(key: string, seconds: number): Promise<number> {
+    return this.client.expire(key, seconds);
+  }
+
+  sadd(key: string, ...members: unknown[]): Promise<number> {
+    const [first, ...rest] = members;
+    return this.client.sadd(key, first, ...rest);
+  }
+
+  srem(key: string, ...members: unknown[]): Promise<number> {
+    return this.client.srem(key, ...members);
+  }
+
+  smembers<T = string>(key: string): Promise<T[]> {
+    return this.client.smembers(key) as Promise<T[]>;
+  }
+
+  hset(key: string, fields: Record<string, unknown>): Promise<number> {
+    return this.client.hset(key, fields);
+  }
+
+  hget<T = unknown>(key: string, field: string): Promise<T | null> {
+    return this.client.hget<T>(key, field);
+  }
+
+  hdel(key: string, ...fields: string[]): Promise<number> {
+    return this.client.hdel(key, ...fields);
+  }
+
+  hgetall<T = Record<string, unknown>>(key: string): Promise<T | null> {
+    return this.client.hgetall(key) as Promise<T | null>;
+  }
+
+  hlen(key: string): Promise<number> {
+    return this.client.hlen(key);
+  }
+
+  hincrby(key: string, field: string, increment: number): Promise<number> {
+    return this.client.hincrby(key, field, increment);
+  }
+
+  lpush(key: string, ...values: unknown[]): Promise<number> {
+    return this.client.lpush(key, ...values);
+  }
+
+  rpop<T = unknown>(key: string): Promise<T | null> {
+    return this.client.rpop<T>(key);
+  }
+
+  llen(key: string): Promise<number> {
+    return this.client.llen(key);
+  }
+
+  lrange<T = string>(key: string, start: number, stop: number): Promise<T[]> {
+    return this.client.lrange<T>(key, start, stop);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<'OK'> {
+    await this.client.ltrim(key, start, stop);
+    return 'OK';
+  }
+
+  zadd(key: string, entry: { score: number; member: unknown }): Promise<number | null> {
+    return this.client.zadd(key, entry);
+  }
+
+  zrange<T = string>(key: string, min: number, max: number, opts?: ZRangeOptions): Promise<T[]> {
+    if (opts?.byScore) {
+      return this.client.zrange<T[]>(
+        key,
+        min,
+        max,
+        opts.count !== undefined
+          ? { byScore: true, offset: opts.offset ?? 0, count: opts.count }
+          : { byScore: true }
+      );
+    }
+    return this.client.zrange<T[]>(key, min, max);
+  }
+
+  zrem(key: string, ...members: unknown[]): Promise<number> {
+    return this.client.zrem(key, ...members);
+  }
+
+  zcard(key: string): Promise<number> {
+    return this.client.zcard(key);
+  }
+}
@@ -0,0 +1,522 @@
+/**
+ * Submission Strategy
+ *
+ * The atomic builders (lp/atomic.ts, orca/atomic.ts, raydium/atomic.ts)
+ * produce swaps + LP transactions meant for one Jito bundle: all land or
+ * none do. When the block engine is down, rate-limits us, or drops the
+ * bundle, the wallet's submission policy (policy.ts) can fall back to
+ * sending the legs one by one over RPC with priority fees.
+ *
+ * That path is not atomic. Each leg is confirmed before the next is sent,
+ * and when it stops halfway (the swaps landed, the LP did not) the policy
+ * decides the recovery: re-send the failed leg on a fresh blockhash, swap
+ * what the landed swaps bought back to the collateral, or leave it and
+ * report the partial state. Every leg is journaled on the current intent.
+ * Before it is sent, each leg is simulated with the unsent legs after it and
+ * held to the quote, as the bundle is on the Jito path.
+ *
+ * Signed transactions that will never land (rejected in simulation, never
+ * sent, dropped or failed) give their outflow back to the daily limit.
+ */
+
+import { Connection, type Signer } from '@solana/web3.js';
+import {
+  sendBundle,
+  waitForBundle,
+  simulateTransactions,
+  type SimulationExpectation,
+  type SimulationReport,
+} from '../jito/index.js';
+import {
+  noteBundleSuperseded,
+  noteSubmission,
+  noteTransactionResult,
+  noteTransactionSubmitted,
+  noteTransactionSuperseded,
+} from '../journal/store.js';
+import { createConnection } from '../services/connection-pool.js';
+import { jupiterClient, TOKENS } from '../swap/index.js';
+import { checkSwapLoss, releaseUnsentOutflow } from '../policy/index.js';
+import { withRetry, isTransientError } from '../utils/resilience.js';
+import { getMintProfile } from '../utils/token-extensions.js';
+import { getSubmissionPolicy } from './policy.js';
+import { blockhashOf, refreshBlockhash, sendAndConfirm, signatureOf, withPriorityFee, type RpcSendResult } from './rpc.js';
+import type { SwapFlow, TokenFlow } from '../ledger/types.js';
+import type {
+  LegResult,
+  PartialState,
+  RecoveryAttempt,
+  SubmissionLeg,
+  SubmissionPolicy,
+  SubmissionReport,
+} from './types.js';
+
+export * from './types.js';
+export {
+  DEFAULT_SUBMISSION_POLICY,
+  getSubmissionPolicy,
+  setSubmissionPolicy,
+  resetSubmissionPolicy,
+  validateSubmissionPolicy,
+} from './policy.js';
+
+const BUNDLE_TIMEOUT_MS = 60_000;
+// How long to wait for a dropped bundle's blockhash to expire before falling back
+const EXPIRY_WAIT_MS = 120_000;
+const SIMULATION_FAILED = 'Transaction simulation failed';
+
+/** The legs of a built atomic operation */
+export interface AtomicLegs {
+  unsignedTransactions: string[]; // Base64, without a tip transaction on the RPC path
+  swaps: SwapFlow[];              // The first swaps.length transactions are these swaps, in order
+  signers: Signer[];              // Keypairs that pre-signed any of the transactions
+  deposits?: TokenFlow[];         // Planned into the position, checked in simulation
+  withdrawals?: TokenFlow[];      // Expected out of the position, net of the protocol fee
+}
+
+export interface SubmitAtomicParams<T> {
+  walletId: string;
+  walletAddress: string;
+  /** Build the operation; skipTip for RPC submission */
+  build: (opts: { skipTip: boolean }) => Promise<T>;
+  legs: (built: T) => AtomicLegs;
+  signTransaction: (tx: string) => Promise<string>;
+  /** Defaults to the wallet's stored policy */
+  policy?: SubmissionPolicy;
+}
+
+export interface AtomicSubmission<T> {
+  built: T;         // The build that was submitted last
+  bundleId?: string; // Set when the bundle path decided the outcome
+  txHashes: string[]; // Landed transactions on the RPC path
+  status: { landed: boolean; slot?: number; error?: string };
+  submission: SubmissionReport;
+}
+
+interface Fallback {
+  reason: string;
+  bundleId?: string;
+}
+
+interface RpcContext {
+  connection: Connection;
+  policy: SubmissionPolicy;
+  signTransaction: (tx: string) => Promise<string>;
+  report: SubmissionReport;
+  walletAddress: string;
+  /** The quoted flows of the legs that have not landed yet */
+  pending: SimulationExpectation;
+}
+
+/**
+ * Submit an atomic operation per the wallet's submission policy
+ */
+export async function submitAtomic<T>(params: SubmitAtomicParams<T>): Promise<AtomicSubmission<T>> {
+  const policy = params.policy || await getSubmissionPolicy(params.walletId);
+
+  // Every (re)build is held to the wallet's max-loss limit before signing
+  const build = params.build;
+  params = {
+    ...params,
+    build: async (opts) => {
+      const built = await build(opts);
+      await checkSwapLoss(params.walletId, params.legs(built).swaps);
+      return built;
+    },
+  };
+
+  let fallback: Fallback = { reason: 'Submission mode is rpc' };
+  if (policy.mode !== 'rpc') {
+    const viaJito = await submitBundle(params, policy);
+    if ('result' in viaJito) return viaJito.result;
+    fallback = viaJito.fallback;
+  }
+
+  console.log(`[Submission] Sending over RPC: ${fallback.reason}`);
+  return submitOverRpc(params, policy, fallback);
+}
+
+// ============ Jito ============
+
+async function signAll(unsignedTransactions: string[], signTransaction: (tx: string) => Promise<string>): Promise<string[]> {
+  const signedTxs: string[] = [];
+  try {
+    for (let i = 0; i < unsignedTransactions.length; i++) {
+      console.log(`[Submission] Signing tx ${i + 1}/${unsignedTransactions.length}...`);
+      const signedTx = await signTransaction(unsignedTransactions[i]);
+      if (!signedTx) {
+        throw new Error(`signTransaction returned null/undefined for tx ${i + 1}`);
+      }
+      signedTxs.push(signedTx);
+    }
+  } catch (error) {
+    await releaseUnsentOutflow(signedTxs);
+    throw error;
+  }
+  return signedTxs;
+}
+
+async function submitBundle<T>(
+  params: SubmitAtomicParams<T>,
+  policy: SubmissionPolicy,
+): Promise<{ result: AtomicSubmission<T> } | { fallback: Fallback }> {
+  const built = await params.build({ skipTip: false });
+  const legs = params.legs(built);
+  const signedTxs = await signAll(legs.unsignedTransactions, params.signTransaction);
+
+  // Pre-flight simulation: a failing transaction, or one too far off the
+  // quote, fails on either path
+  console.log(`[Submission] Simulating ${signedTxs.length} transactions before Jito...`);
+  const simResult = await simulateTransactions(signedTxs, {
+    walletAddress: params.walletAddress,
+    swaps: legs.swaps,
+    deposits: legs.deposits,
+    withdrawals: legs.withdrawals,
+  });
+  const simulation = simResult.report;
+  if (!simResult.success) {
+    console.error('[Submission] ❌ Simulation failed:', simResult.errors);
+    await releaseUnsentOutflow(signedTxs);
+    throw new Error(`${SIMULATION_FAILED}:\n${simResult.errors.join('\n')}`);
+  }
+
+  let bundleId: string;
+  try {
+    ({ bundleId } = await withRetry(
+      () => sendBundle(signedTxs),
+      { maxRetries: 2, baseDelayMs: 2000, retryOn: isTransientError },
+    ));
+  } catch (error: any) {
+    await releaseUnsentOutflow(signedTxs);
+    if (policy.mode === 'jito') throw error;
+    // Nothing was sent, so falling back is safe
+    return { fallback: { reason: `Block engine unavailable: ${error.message}` } };
+  }
+
+  const finish = async (status: { landed: boolean; slot?: number; error?: string }) => {
+    // A failed bundle landed nothing; one that timed out may still land
+    if (!status.landed && !status.error?.startsWith('Timeout')) await releaseUnsentOutflow(signedTxs);
+    const submission: SubmissionReport = { mode: policy.mode, path: 'jito', bundleId, transactions: [], simulation };
+    await noteSubmission(submission);
+    return { result: { built, bundleId, txHashes: [], status, submission } };
+  };
+
+  const status = await waitForBundle(bundleId, { timeoutMs: BUNDLE_TIMEOUT_MS });
+  const dropped = !status.landed && !!status.error?.startsWith('Timeout');
+  if (!dropped || policy.mode === 'jito') return finish(status);
+
+  // Re-sending the same legs is only safe once the bundle can no longer land
+  const connection = createConnection('confirmed');
+  const blockhash = blockhashOf(signedTxs[0]);
+  const deadline = Date.now() + EXPIRY_WAIT_MS;
+  let expired = false;
+  while (!expired && Date.now() < deadline) {
+    const { value: valid } = await connection.isBlockhashValid(blockhash, { commitment: 'confirmed' })
+      .catch(() => ({ value: true }));
+    expired = !valid;
+    if (!expired) await new Promise(r => setTimeout(r, 5000));
+  }
+
+  const late = await waitForBundle(bundleId, { timeoutMs: 5000, intervalMs: 2500 });
+  if (late.landed || !expired) {
+    // Landed late, or still undecided: leave it to the bundle (and the reconciler)
+    return finish(late.landed ? late : status);
+  }
+
+  await noteBundleSuperseded(bundleId, 'Dropped; replaced by RPC submission');
+  await releaseUnsentOutflow(signedTxs);
+  return { fallback: { reason: `Bundle ${bundleId} was dropped (${status.error})`, bundleId } };
+}
+
+// ============ RPC ============
+
+/**
+ * What the rest of the operation is held to once a leg has landed: the swap
+ * it made and, if it changed a position, the deposits or withdrawals (the
+ * position legs were checked together before the first of them was sent)
+ */
+function settleLanded(pending: SimulationExpectation, simulation: SimulationReport): SimulationExpectation {
+  const quoted = (pending.swaps || []).filter(s => s.output.amount > 0);
+  const swapChecks = simulation.checks.filter(c => c.kind === 'swap-output');
+  const changedPosition = simulation.transactions[0]?.positions.some(p => p.liquidityAfter !== p.liquidityBefore);
+  return {
+    ...pending,
+    swaps: quoted.filter((_, i) => !swapChecks[i]?.transactions.includes(0)),
+    deposits: changedPosition ? undefined : pending.deposits,
+    withdrawals: changedPosition ? undefined : pending.withdrawals,
+  };
+}
+
+/**
+ * Simulate, sign and send one leg. The legs after it are simulated with it,
+ * so what they depend on is checked too; a leg that fails simulation or is
+ * too far off the quote is rejected without being sent.
+ */
+async function sendLeg(
+  ctx: RpcContext,
+  unsigned: string,
+  leg: SubmissionLeg,
+  index: number,
+  attempt: number,
+  following: string[] = [],
+  expected: SimulationExpectation = ctx.pending,
+): Promise<RpcSendResult> {
+  const prepared = await withPriorityFee(ctx.connection, unsigned, ctx.policy.priorityUrgency);
+  const signed = await ctx.signTransaction(prepared);
+  if (!signed) {
+    throw new Error(`signTransaction returned null/undefined for ${leg} tx ${index + 1}`);
+  }
+
+  const label = index >= 0 ? index + 1 : '(recovery)';
+  console.log(`[Submission] Simulating ${leg} tx ${label} with ${following.length} later transactions...`);
+  const simResult = await simulateTransactions([signed, ...following], { ...expected, walletAddress: ctx.walletAddress });
+  const simulation = simResult.report;
+  ctx.report.simulation ??= simulation;
+  if (!simResult.success) {
+    console.error(`[Submission] ❌ ${leg} tx ${label} simulation failed:`, simResult.errors);
+    const result: RpcSendResult = {
+      signature: signatureOf(signed),
+      state: 'rejected',
+      error: `${SIMULATION_FAILED}:\n${simResult.errors.join('\n')}`,
+    };
+    await releaseUnsentOutflow([signed]);
+    ctx.report.transactions.push({ index, leg, attempt, ...result, simulation });
+    return result;
+  }
+
+  console.log(`[Submission] Sending ${leg} tx ${label} over RPC (attempt ${attempt})...`);
+  const result = await sendAndConfirm(ctx.connection, signed, (signature) => noteTransactionSubmitted(signature, leg));
+
+  if (result.state === 'landed' || result.state === 'failed' || result.state === 'expired') {
+    await noteTransactionResult(result.signature, { landed: result.state === 'landed', slot: result.slot, error: result.error });
+  }
+  // A failed transaction's transfers were reverted; a rejected or expired one never ran
+  if (result.state === 'rejected' || result.state === 'failed' || result.state === 'expired') {
+    await releaseUnsentOutflow([signed]);
+  }
+  console.log(`[Submission] ${leg} tx ${result.signature.slice(0, 8)}... ${result.state}${result.error ? `: ${result.error}` : ''}`);
+
+  if (result.state === 'landed' && expected === ctx.pending) {
+    ctx.pending = settleLanded(ctx.pending, simulation);
+  }
+  ctx.report.transactions.push({ index, leg, attempt, ...result, simulation });
+  return result;
+}
+
+/**
+ * Re-send the failed leg and the legs after it on a fresh blockhash, each
+ * up to maxLegRetries times
+ */
+async function retryLegs(
+  ctx: RpcContext,
+  legs: AtomicLegs,
+  failed: { index: number; result: RpcSendResult },
+): Promise<RecoveryAttempt> {
+  const signatures: string[] = [];
+  const legOf = (i: number): SubmissionLeg => (i < legs.swaps.length ? 'swap' : 'lp');
+
+  for (let i = failed.index; i < legs.unsignedTransactions.length; i++) {
+    let result: RpcSendResult | null = i === failed.index ? failed.result : null;
+    let attempt = 0;
+
+    while (!result || (result.state !== 'landed' && attempt < ctx.policy.maxLegRetries)) {
+      if (result?.state === 'unconfirmed') {
+        return { action: 'retry-lp', success: false, signatures, error: `${result.signature} may still land; not retrying` };
+      }
+      if (result) attempt++;
+
+      const { blockhash } = await ctx.connection.getLatestBlockhash('confirmed');
+      const refreshed = refreshBlockhash(legs.unsignedTransactions[i], blockhash, legs.signers);
+      if (!refreshed) {
+        return { action: 'retry-lp', success: false, signatures, error: `Tx ${i + 1} needs a signer we don't hold to be re-signed` };
+      }
+      if (result && result.state !== 'rejected') await noteTransactionSuperseded(result.signature);
+      result = await sendLeg(ctx, refreshed, legOf(i), i, attempt, legs.unsignedTransactions.slice(i + 1));
+    }
+
+    if (result.state !== 'landed') {
+      return { action: 'retry-lp', success: false, signatures, error: result.error };
+    }
+    signatures.push(result.signature);
+  }
+
+  return { action: 'retry-lp', success: true, signatures };
+}
+
+/**
+ * Raw amount of a mint the wallet received in a confirmed transaction
+ * Native SOL arrives as lamports, so it is read from the wallet's lamport
+ * balance (plus the fee, when the wallet paid it) if no wrapped SOL moved.
+ */
+async function receivedAmount(
+  connection: Connection,
+  signature: string,
+  walletAddress: string,
+  mint: string,
+): Promise<bigint | null> {
+  for (let tries = 0; tries < 3; tries++) {
+    const tx = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+    if (tx?.meta) {
+      const balance = (list: typeof tx.meta.postTokenBalances) => BigInt(
+        list?.find(b => b.owner === walletAddress && b.mint === mint)?.uiTokenAmount.amount || '0',
+      );
+      let delta = balance(tx.meta.postTokenBalances) - balance(tx.meta.preTokenBalances);
+      if (delta <= 0n && mint === TOKENS.SOL) {
+        const index = tx.transaction.message.staticAccountKeys.findIndex(k => k.toBase58() === walletAddress);
+        if (index >= 0) {
+          const fee = index === 0 ? BigInt(tx.meta.fee) : 0n;
+          delta = BigInt(tx.meta.postBalances[index]) - BigInt(tx.meta.preBalances[index]) + fee;
+        }
+      }
+      return delta > 0n ? delta : null;
+    }
+    await new Promise(r => setTimeout(r, 2000));
+  }
+  return null;
+}
+
+/**
+ * Swap what each landed swap leg bought back to its input token
+ */
+async function swapBack(
+  ctx: RpcContext,
+  walletAddress: string,
+  landedSwaps: Array<{ signature: string; flow: SwapFlow }>,
+): Promise<RecoveryAttempt> {
+  const signatures: string[] = [];
+
+  for (const { signature, flow } of landedSwaps) {
+    const amount = await receivedAmount(ctx.connection, signature, walletAddress, flow.output.mint);
+    if (!amount) {
+      return { action: 'swap-back', success: false, signatures, error: `Could not read what ${signature} received` };
+    }
+
+    try {
+      const { quote, swap } = await jupiterClient.getSwapTransaction(
+        flow.output.mint,
+        flow.input.mint,
+        amount.toString(),
+        walletAddress,
+        ctx.policy.swapBackSlippageBps,
+      );
+      // Held to its own quote, within the swap-back slippage
+      const [inputProfile, outputProfile] = await Promise.all([
+        getMintProfile(ctx.connection, flow.input.mint),
+        getMintProfile(ctx.connection, flow.output.mint),
+      ]);
+      const expected: SimulationExpectation = {
+        swaps: [{
+          input: { mint: flow.output.mint, amount: Number(amount) / 10 ** outputProfile.decimals },
+          output: { mint: flow.input.mint, amount: Number(quote.outAmount) / 10 ** inputProfile.decimals },
+        }],
+        toleranceBps: ctx.policy.swapBackSlippageBps,
+      };
+      const result = await sendLeg(ctx, swap.swapTransaction, 'recovery', -1, 0, [], expected);
+      if (result.state !== 'landed') {
+        return { action: 'swap-back', success: false, signatures, error: result.error };
+      }
+      signatures.push(result.signature);
+    } catch (error: any) {
+      return { action: 'swap-back', success: false, signatures, error: error.message };
+    }
+  }
+
+  return { action: 'swap-back', success: true, signatures };
+}
+
+async function submitOverRpc<T>(
+  params: SubmitAtomicParams<T>,
+  policy: SubmissionPolicy,
+  fallback: Fallback,
+): Promise<AtomicSubmission<T>> {
+  const report: SubmissionReport = {
+    mode: policy.mode,
+    path: 'rpc',
+    bundleId: fallback.bundleId,
+    fallbackReason: fallback.reason,
+    transactions: [],
+  };
+  const built = await params.build({ skipTip: true });
+  const legs = params.legs(built);
+  const legOf = (i: number): SubmissionLeg => (i < legs.swaps.length ? 'swap' : 'lp');
+  const ctx: RpcContext = {
+    connection: createConnection('confirmed'),
+    policy,
+    signTransaction: params.signTransaction,
+    report,
+    walletAddress: params.walletAddress,
+    pending: { swaps: legs.swaps, deposits: legs.deposits, withdrawals: legs.withdrawals },
+  };
+
+  let failed: { index: number; result: RpcSendResult } | null = null;
+  for (let i = 0; i < legs.unsignedTransactions.length; i++) {
+    const result = await sendLeg(ctx, legs.unsignedTransactions[i], legOf(i), i, 0, legs.unsignedTransactions.slice(i + 1));
+    if (result.state !== 'landed') {
+      failed = { index: i, result };
+      break;
+    }
+  }
+
+  const finish = async (status: AtomicSubmission<T>['status']): Promise<AtomicSubmission<T>> => {
+    await noteSubmission(report);
+    const txHashes = report.transactions
+      .filter(t => t.state === 'landed' && t.leg !== 'recovery')
+      .map(t => t.signature);
+    return { built, txHashes, status, submission: report };
+  };
+
+  const lastSlot = () => report.transactions.filter(t => t.state === 'landed').pop()?.slot;
+  if (!failed) return finish({ landed: true, slot: lastSlot() });
+
+  const failedLeg = legOf(failed.index);
+  const error = failed.result.error || `${failedLeg} transaction did not land`;
+  const landedLegs = report.transactions.filter(t => t.state === 'landed');
+
+  if (failed.result.state === 'unconfirmed') {
+    // It may still land: recovering now could double-spend. The reconciler settles it.
+    return finish({ landed: false, error: `${failedLeg} transaction ${failed.result.signature} is not confirmed yet` });
+  }
+  if (landedLegs.length === 0) {
+    // Nothing was sent: fail as the bundle path does
+    if (error.startsWith(SIMULATION_FAILED)) {
+      await noteSubmission(report);
+      throw new Error(error);
+    }
+    return finish({ landed: false, error });
+  }
+
+  const landedSwaps = landedLegs
+    .filter(t => t.leg === 'swap')
+    .map(t => ({ signature: t.signature, flow: legs.swaps[t.index] }));
+  const partial: PartialState = {
+    swapsLanded: landedSwaps.length,
+    swapsTotal: legs.swaps.length,
+    lpLanded: landedLegs.some(t => t.leg === 'lp'),
+    failedLeg,
+    error,
+  };
+  report.partial = partial;
+  report.recovery = [];
+  console.warn(`[Submission] Partial state: ${partial.swapsLanded}/${partial.swapsTotal} swaps landed, ${failedLeg} leg failed: ${error}`);
+
+  if (policy.recovery === 'retry-lp' || policy.recovery === 'retry-then-swap-back') {
+    const retry = await retryLegs(ctx, legs, failed);
+    report.recovery.push(retry);
+    if (retry.success) return finish({ landed: true, slot: lastSlot() });
+  }
+
+  // Only what the swaps bought is swapped back; landed LP legs (tick array
+  // or ATA setup) hold no funds
+  let swappedBack = false;
+  if ((policy.recovery === 'swap-back' || policy.recovery === 'retry-then-swap-back') && landedSwaps.length > 0) {
+    const recovery = await swapBack(ctx, params.walletAddress, landedSwaps);
+    report.recovery.push(recovery);
+    swappedBack = recovery.success;
+  }
+
+  const outcome = swappedBack ? 'swapped back to the collateral' : 'left in the wallet';
+  return finish({
+    landed: false,
+    error: `${failedLeg} leg failed after ${partial.swapsLanded}/${partial.swapsTotal} swaps landed (${outcome}): ${error}`,
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Per-wallet Submission Policy
+ *
+ * Keyspace:
+ *   lp-toolkit:submission:policy:<walletId>    Partial<SubmissionPolicy> overrides
+ */
+
+import { getStore } from '../storage/index.js';
+import type { FeeUrgency } from '../utils/priority-fees.js';
+import type { PartialRecovery, SubmissionMode, SubmissionPolicy } from './types.js';
+
+const KEYS = {
+  POLICY: (walletId: string) => `lp-toolkit:submission:policy:${walletId}`,
+};
+
+export const SUBMISSION_MODES: SubmissionMode[] = ['jito', 'jito-then-rpc', 'rpc'];
+export const PARTIAL_RECOVERIES: PartialRecovery[] = ['retry-lp', 'swap-back', 'retry-then-swap-back', 'none'];
+const FEE_URGENCIES: FeeUrgency[] = ['low', 'medium', 'high', 'critical'];
+
+export const DEFAULT_SUBMISSION_POLICY: SubmissionPolicy = {
+  mode: 'jito-then-rpc',
+  recovery: 'retry-then-swap-back',
+  priorityUrgency: 'high',
+  maxLegRetries: 2,
+  swapBackSlippageBps: 300,
+};
+
+/**
+ * Effective policy for a wallet (stored overrides on top of the defaults)
+ */
+export async function getSubmissionPolicy(walletId: string): Promise<SubmissionPolicy> {
+  try {
+    const stored = await getStore().get<Partial<SubmissionPolicy>>(KEYS.POLICY(walletId));
+    return { ...DEFAULT_SUBMISSION_POLICY, ...stored };
+  } catch (error: any) {
+    console.warn('[Submission] Policy unavailable, using defaults:', error?.message || error);
+    return { ...DEFAULT_SUBMISSION_POLICY };
+  }
+}
+
+/**
+ * Validate a policy update; returns the error message for the first bad field
+ */
+export function validateSubmissionPolicy(update: Record<string, unknown>): string | null {
+  if (update.mode !== undefined && !SUBMISSION_MODES.includes(update.mode as SubmissionMode)) {
+    return `mode must be one of: ${SUBMISSION_MODES.join(', ')}`;
+  }
+  if (update.recovery !== undefined && !PARTIAL_RECOVERIES.includes(update.recovery as PartialRecovery)) {
+    return `recovery must be one of: ${PARTIAL_RECOVERIES.join(', ')}`;
+  }
+  if (update.priorityUrgency !== undefined && !FEE_URGENCIES.includes(update.priorityUrgency as FeeUrgency)) {
+    return `priorityUrgency must be one of: ${FEE_URGENCIES.join(', ')}`;
+  }
+  const maxLegRetries = update.maxLegRetries;
+  if (maxLegRetries !== undefined && (!Number.isInteger(maxLegRetries) || (maxLegRetries as number) < 0 || (maxLegRetries as number) > 5)) {
+    return 'maxLegRetries must be an integer from 0 to 5';
+  }
+  const slippage = update.swapBackSlippageBps;
+  if (slippage !== undefined && (!Number.isInteger(slippage) || (slippage as number) < 1 || (slippage as number) > 5000)) {
+    return 'swapBackSlippageBps must be an integer from 1 to 5000';
+  }
+  return null;
+}
+
+/**
+ * Store overrides for a wallet. Only known fields are kept; call
+ * validateSubmissionPolicy first.
+ */
+export async function setSubmissionPolicy(
+  walletId: string,
+  update: Partial<SubmissionPolicy>,
+): Promise<SubmissionPolicy> {
+  const store = getStore();
+  const stored = (await store.get<Partial<SubmissionPolicy>>(KEYS.POLICY(walletId))) || {};
+  const next: Partial<SubmissionPolicy> = { ...stored };
+  for (const key of Object.keys(DEFAULT_SUBMISSION_POLICY) as Array<keyof SubmissionPolicy>) {
+    if (update[key] !== undefined) (next as Record<string, unknown>)[key] = update[key];
+  }
+  await store.set(KEYS.POLICY(walletId), next);
+  return { ...DEFAULT_SUBMISSION_POLICY, ...next };
+}
+
+export async function resetSubmissionPolicy(walletId: string): Promise<void> {
+  await getStore().del(KEYS.POLICY(walletId));
+}
@@ -0,0 +1,164 @@
+/**
+ * RPC Submission
+ *
+ * Sends single transactions over RPC (the fallback when a bundle can't be
+ * used) and the transaction surgery that needs: adding a priority fee and
+ * moving a transaction to a fresh blockhash.
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type Signer,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { estimatePriorityFee, type FeeUrgency } from '../utils/priority-fees.js';
+import type { LegState } from './types.js';
+
+// Longer than a blockhash lives, so we normally see it expire first
+const CONFIRM_TIMEOUT_MS = 150_000;
+const POLL_INTERVAL_MS = 2000;
+const SET_COMPUTE_UNIT_PRICE = 3; // ComputeBudget instruction discriminator
+
+export interface RpcSendResult {
+  signature: string;
+  state: LegState;
+  slot?: number;
+  error?: string;
+}
+
+function decode(encoded: string): VersionedTransaction {
+  return VersionedTransaction.deserialize(Buffer.from(encoded, 'base64'));
+}
+
+function encode(tx: VersionedTransaction): string {
+  return Buffer.from(tx.serialize()).toString('base64');
+}
+
+function hasComputeUnitPrice(tx: VersionedTransaction): boolean {
+  const keys = tx.message.staticAccountKeys;
+  return tx.message.compiledInstructions.some(ix =>
+    keys[ix.programIdIndex]?.equals(ComputeBudgetProgram.programId) && ix.data[0] === SET_COMPUTE_UNIT_PRICE,
+  );
+}
+
+async function loadLookupTables(
+  connection: Connection,
+  tx: VersionedTransaction,
+): Promise<AddressLookupTableAccount[] | null> {
+  const tables: AddressLookupTableAccount[] = [];
+  for (const lookup of tx.message.addressTableLookups) {
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!value) return null;
+    tables.push(value);
+  }
+  return tables;
+}
+
+/**
+ * Add a priority fee to a transaction that has none. Transactions signed
+ * by other keys (position keypairs) are left alone - changing the message
+ * would void those signatures - and are expected to carry their own.
+ */
+export async function withPriorityFee(
+  connection: Connection,
+  encoded: string,
+  urgency: FeeUrgency,
+): Promise<string> {
+  const tx = decode(encoded);
+  if (tx.message.header.numRequiredSignatures > 1 || hasComputeUnitPrice(tx)) return encoded;
+
+  try {
+    const tables = await loadLookupTables(connection, tx);
+    if (!tables) return encoded;
+
+    const microLamports = await estimatePriorityFee(connection, tx, urgency);
+    const message = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: tables });
+    message.instructions.unshift(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    const compiled = tx.message.version === 'legacy'
+      ? message.compileToLegacyMessage()
+      : message.compileToV0Message(tables);
+    return encode(new VersionedTransaction(compiled));
+  } catch (error: any) {
+    console.warn('[Submission] Could not add priority fee:', error?.message || error);
+    return encoded;
+  }
+}
+
+/**
+ * Move an unsigned (or partly pre-signed) transaction to a new blockhash,
+ * re-signing with the keypairs that pre-signed it. Returns null when a
+ * required signer other than the fee payer is missing.
+ */
+export function refreshBlockhash(encoded: string, blockhash: string, signers: Signer[]): string | null {
+  const tx = decode(encoded);
+  const required = tx.message.staticAccountKeys.slice(1, tx.message.header.numRequiredSignatures);
+  const available = required.map(key => signers.find(s => s.publicKey.equals(key)));
+  if (available.some(s => !s)) return null;
+
+  tx.message.recentBlockhash = blockhash;
+  tx.signatures = tx.signatures.map(() => new Uint8Array(64));
+  if (available.length > 0) tx.sign(available as Signer[]);
+  return encode(tx);
+}
+
+export function signatureOf(encoded: string): string {
+  return bs58.encode(decode(encoded).signatures[0]);
+}
+
+export function blockhashOf(encoded: string): string {
+  return decode(encoded).message.recentBlockhash;
+}
+
+/**
+ * Send a signed transaction and wait until it is confirmed, fails, or its
+ * blockhash expires. Re-broadcasts while waiting, since the RPC may drop it.
+ */
+export async function sendAndConfirm(
+  connection: Connection,
+  signed: string,
+  onSent?: (signature: string) => Promise<void>,
+): Promise<RpcSendResult> {
+  const raw = Buffer.from(signed, 'base64');
+  const signature = signatureOf(signed);
+  const blockhash = blockhashOf(signed);
+
+  try {
+    await connection.sendRawTransaction(raw, { skipPreflight: false, maxRetries: 0 });
+  } catch (error: any) {
+    return { signature, state: 'rejected', error: error?.message || String(error) };
+  }
+  await onSent?.(signature);
+
+  const start = Date.now();
+  while (Date.now() - start < CONFIRM_TIMEOUT_MS) {
+    await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
+
+    const { value: [status] } = await connection.getSignatureStatuses([signature]);
+    if (status?.err) {
+      return { signature, state: 'failed', slot: status.slot, error: JSON.stringify(status.err) };
+    }
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      return { signature, state: 'landed', slot: status.slot };
+    }
+
+    const { value: valid } = await connection.isBlockhashValid(blockhash, { commitment: 'confirmed' });
+    if (!valid) {
+      // One last look: it may have landed in the final slots
+      const { value: [last] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+      if (last?.err) return { signature, state: 'failed', slot: last.slot, error: JSON.stringify(last.err) };
+      if (last?.confirmationStatus === 'confirmed' || last?.confirmationStatus === 'finalized') {
+        return { signature, state: 'landed', slot: last.slot };
+      }
+      if (last) return { signature, state: 'unconfirmed', slot: last.slot, error: 'Processed but not yet confirmed' };
+      return { signature, state: 'expired', error: 'Blockhash expired before confirmation' };
+    }
+
+    await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }).catch(() => {});
+  }
+
+  return { signature, state: 'unconfirmed', error: `Not confirmed after ${CONFIRM_TIMEOUT_MS}ms` };
+}
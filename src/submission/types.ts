@@ -0,0 +1,84 @@
+/**
+ * Submission Strategy Types
+ */
+
+import type { FeeUrgency } from '../utils/priority-fees.js';
+import type { SimulationReport } from '../jito/index.js';
+
+/**
+ * How an atomic operation reaches the chain:
+ * - jito: one bundle, all or nothing (no fallback)
+ * - jito-then-rpc: bundle first; if the block engine rejects it or it is
+ *   dropped, send the transactions one by one over RPC
+ * - rpc: always send one by one over RPC with priority fees
+ */
+export type SubmissionMode = 'jito' | 'jito-then-rpc' | 'rpc';
+
+/**
+ * What to do when RPC submission stops halfway (e.g. the swaps landed but
+ * the LP transaction did not):
+ * - retry-lp: re-send the failed leg with a fresh blockhash
+ * - swap-back: swap what the landed swaps bought back to the collateral
+ * - retry-then-swap-back: retry first, swap back if the retries fail
+ * - none: leave the wallet as it is and report the partial state
+ */
+export type PartialRecovery = 'retry-lp' | 'swap-back' | 'retry-then-swap-back' | 'none';
+
+export interface SubmissionPolicy {
+  mode: SubmissionMode;
+  recovery: PartialRecovery;
+  priorityUrgency: FeeUrgency; // Priority fee level for RPC submission
+  maxLegRetries: number;       // Re-sends of a failed leg before giving up on it
+  swapBackSlippageBps: number;
+}
+
+export type SubmissionLeg = 'swap' | 'lp' | 'recovery';
+
+/**
+ * Outcome of one transaction sent over RPC:
+ * - landed / failed: confirmed on-chain, with or without an error
+ * - rejected: preflight refused it, nothing reached the chain
+ * - expired: its blockhash expired unconfirmed, it can no longer land
+ * - unconfirmed: still unknown after the timeout, it may yet land
+ */
+export type LegState = 'landed' | 'failed' | 'rejected' | 'expired' | 'unconfirmed';
+
+export interface LegResult {
+  index: number; // Position in the operation's transaction list (recovery swaps: -1)
+  leg: SubmissionLeg;
+  attempt: number; // 0 for the first send, then one per retry on a fresh blockhash
+  signature: string;
+  state: LegState;
+  slot?: number;
+  error?: string;
+  /** Pre-flight simulation of this leg and the unsent legs after it */
+  simulation?: SimulationReport;
+}
+
+/** Legs that landed before RPC submission stopped */
+export interface PartialState {
+  swapsLanded: number;
+  swapsTotal: number;
+  lpLanded: boolean;
+  failedLeg: SubmissionLeg;
+  error: string;
+}
+
+export interface RecoveryAttempt {
+  action: 'retry-lp' | 'swap-back';
+  success: boolean;
+  signatures: string[];
+  error?: string;
+}
+
+export interface SubmissionReport {
+  mode: SubmissionMode;
+  path: 'jito' | 'rpc';
+  bundleId?: string;      // Bundle that landed, or was dropped before the fallback
+  fallbackReason?: string;
+  transactions: LegResult[];
+  partial?: PartialState;
+  recovery?: RecoveryAttempt[];
+  /** Pre-flight simulation of the bundle, or of the first RPC leg and the legs after it */
+  simulation?: SimulationReport;
+}
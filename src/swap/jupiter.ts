@@ -52,14 +52,17 @@ export interface SwapResult {
 }
 
 export class JupiterClient {
-  private baseUrl: string;
   private apiKey: string;
 
   constructor() {
-    this.baseUrl = config.jupiter.baseUrl;
     this.apiKey = config.jupiter.apiKey;
   }
 
+  // Read per call so a repointed config (offline harness) takes effect
+  private get baseUrl(): string {
+    return config.jupiter.baseUrl;
+  }
+
   private get headers(): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -6,10 +6,14 @@
  * - WALLET_xxx: Wallet operations
  * - ORACLE_xxx: Price feeds
  * - SWAP_xxx: Swap operations
+ * - TOKEN_xxx: Token mints (Token-2022 extensions)
+ * - POLICY_xxx: Transaction policy (checked before signing)
  * - BOT_xxx: Telegram bot
  * - MONITOR_xxx: Position monitoring
  */
 
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
 export enum ErrorCode {
   // LP Operations (LP_xxx)
   LP_INSUFFICIENT_BALANCE = 'LP_INSUFFICIENT_BALANCE',
@@ -21,6 +25,7 @@ export enum ErrorCode {
   LP_SUBMIT_FAILED = 'LP_SUBMIT_FAILED',
   LP_BUNDLE_FAILED = 'LP_BUNDLE_FAILED',
   LP_SLIPPAGE_EXCEEDED = 'LP_SLIPPAGE_EXCEEDED',
+  LP_SIMULATION_DEVIATION = 'LP_SIMULATION_DEVIATION',
   LP_OUT_OF_RANGE = 'LP_OUT_OF_RANGE',
   
   // Wallet Operations (WALLET_xxx)
@@ -42,6 +47,17 @@ export enum ErrorCode {
   SWAP_CIRCUIT_OPEN = 'SWAP_CIRCUIT_OPEN',
   SWAP_ULTRA_TIMEOUT = 'SWAP_ULTRA_TIMEOUT',
   
+  // Token Mints (TOKEN_xxx)
+  TOKEN_TRANSFER_HOOK_UNSUPPORTED = 'TOKEN_TRANSFER_HOOK_UNSUPPORTED',
+  
+  // Transaction Policy (POLICY_xxx)
+  POLICY_PROGRAM_NOT_ALLOWED = 'POLICY_PROGRAM_NOT_ALLOWED',
+  POLICY_DESTINATION_NOT_ALLOWED = 'POLICY_DESTINATION_NOT_ALLOWED',
+  POLICY_AUTHORITY_CHANGE = 'POLICY_AUTHORITY_CHANGE',
+  POLICY_DAILY_OUTFLOW_EXCEEDED = 'POLICY_DAILY_OUTFLOW_EXCEEDED',
+  POLICY_MAX_LOSS_EXCEEDED = 'POLICY_MAX_LOSS_EXCEEDED',
+  POLICY_UNAVAILABLE = 'POLICY_UNAVAILABLE',
+  
   // Bot Operations (BOT_xxx)
   BOT_NOT_INITIALIZED = 'BOT_NOT_INITIALIZED',
   BOT_SEND_FAILED = 'BOT_SEND_FAILED',
@@ -94,6 +110,28 @@ export function classifyError(error: unknown): ErrorCode {
   
   const msg = (error instanceof Error ? error.message : String(error)).toLowerCase();
   
+  // Token-2022 hooks (checked first: the message also names the mint)
+  if (msg.includes('unsupported transfer hook')) {
+    return ErrorCode.TOKEN_TRANSFER_HOOK_UNSUPPORTED;
+  }
+  
+  // Transaction policy ("Policy violation (<rule>): ..."); the rest of the message can name prices or balances
+  if (msg.includes('policy unavailable')) {
+    return ErrorCode.POLICY_UNAVAILABLE;
+  }
+  if (msg.includes('policy violation')) {
+    if (msg.includes('(program)')) return ErrorCode.POLICY_PROGRAM_NOT_ALLOWED;
+    if (msg.includes('(authority)')) return ErrorCode.POLICY_AUTHORITY_CHANGE;
+    if (msg.includes('(daily-outflow)')) return ErrorCode.POLICY_DAILY_OUTFLOW_EXCEEDED;
+    if (msg.includes('(max-loss)')) return ErrorCode.POLICY_MAX_LOSS_EXCEEDED;
+    return ErrorCode.POLICY_DESTINATION_NOT_ALLOWED;
+  }
+  
+  // Pre-flight simulation outcome too far from the quote
+  if (msg.includes('deviates from the quote')) {
+    return ErrorCode.LP_SIMULATION_DEVIATION;
+  }
+  
   // Timeout patterns
   if (msg.includes('timeout') || msg.includes('timed out')) {
     if (msg.includes('sign')) return ErrorCode.LP_SIGN_TIMEOUT;
@@ -144,12 +182,20 @@ export function classifyError(error: unknown): ErrorCode {
 /**
  * Get HTTP status code for an error code
  */
-export function getHttpStatus(code: ErrorCode): number {
+export function getHttpStatus(code: ErrorCode): ContentfulStatusCode {
   switch (code) {
     case ErrorCode.LP_INSUFFICIENT_BALANCE:
     case ErrorCode.GENERAL_INVALID_INPUT:
+    case ErrorCode.TOKEN_TRANSFER_HOOK_UNSUPPORTED:
       return 400;
     
+    case ErrorCode.POLICY_PROGRAM_NOT_ALLOWED:
+    case ErrorCode.POLICY_DESTINATION_NOT_ALLOWED:
+    case ErrorCode.POLICY_AUTHORITY_CHANGE:
+    case ErrorCode.POLICY_DAILY_OUTFLOW_EXCEEDED:
+    case ErrorCode.POLICY_MAX_LOSS_EXCEEDED:
+      return 403;
+    
     case ErrorCode.LP_POOL_NOT_FOUND:
     case ErrorCode.LP_POSITION_NOT_FOUND:
     case ErrorCode.WALLET_NOT_FOUND:
@@ -159,6 +205,7 @@ export function getHttpStatus(code: ErrorCode): number {
       return 429;
     
     case ErrorCode.SWAP_CIRCUIT_OPEN:
+    case ErrorCode.POLICY_UNAVAILABLE:
     case ErrorCode.GENERAL_SERVICE_UNAVAILABLE:
     case ErrorCode.BOT_NOT_INITIALIZED:
       return 503;
@@ -190,10 +237,26 @@ export function getFriendlyMessage(code: ErrorCode): string {
       return 'Transaction bundle failed. Please try again in a moment.';
     case ErrorCode.LP_SLIPPAGE_EXCEEDED:
       return 'Price moved too much. Try again with higher slippage.';
+    case ErrorCode.LP_SIMULATION_DEVIATION:
+      return 'The simulated outcome moved too far from the quote, so nothing was sent. Please try again in a moment.';
     case ErrorCode.WALLET_NOT_FOUND:
       return 'Wallet not found. Please create a wallet first.';
     case ErrorCode.SWAP_CIRCUIT_OPEN:
       return 'Swap service temporarily unavailable. Please try again in 30 seconds.';
+    case ErrorCode.TOKEN_TRANSFER_HOOK_UNSUPPORTED:
+      return 'This pool has a token with a transfer hook, which is not supported yet. Try another pool.';
+    case ErrorCode.POLICY_PROGRAM_NOT_ALLOWED:
+      return 'This transaction calls a program the wallet\'s policy does not allow.';
+    case ErrorCode.POLICY_DESTINATION_NOT_ALLOWED:
+      return 'This transaction sends funds to an address the wallet\'s policy does not allow.';
+    case ErrorCode.POLICY_AUTHORITY_CHANGE:
+      return 'This transaction would hand control of the wallet\'s accounts to another address.';
+    case ErrorCode.POLICY_DAILY_OUTFLOW_EXCEEDED:
+      return 'This would exceed the wallet\'s daily outflow limit. Try again tomorrow or raise the limit.';
+    case ErrorCode.POLICY_MAX_LOSS_EXCEEDED:
+      return 'Expected swap losses exceed the wallet\'s max-loss limit. Try a smaller amount or a more liquid pool.';
+    case ErrorCode.POLICY_UNAVAILABLE:
+      return 'The wallet\'s signing policy could not be loaded, so nothing was signed. Please try again in a moment.';
     case ErrorCode.GENERAL_RATE_LIMITED:
       return 'Too many requests. Please wait a moment and try again.';
     case ErrorCode.GENERAL_TIMEOUT:
@@ -164,6 +164,92 @@ export function estimateILForPriceChange(
   return standardIL * rangeMultiplier * 100;
 }
 
+export interface RangePosition {
+  /** Current amount of token A (UI units) */
+  amountA: number;
+  /** Current amount of token B (UI units) */
+  amountB: number;
+  /** Range bounds in token B per token A; 0 when unknown (treated as full range) */
+  lowerPrice: number;
+  upperPrice: number;
+  /** Current price of token A in terms of token B */
+  currentPrice: number;
+}
+
+export interface PositionGreeks {
+  /** Liquidity fitted to the current amounts (0 if it can't be fitted) */
+  liquidity: number;
+  inRange: boolean;
+  /** Delta to each token's USD price, in token units (equals the amount held) */
+  deltaA: number;
+  deltaB: number;
+  /** Change in delta for a +1% move in that token's USD price (negative = short gamma) */
+  gammaA: number;
+  gammaB: number;
+}
+
+function sqrtBounds(pos: RangePosition): { sl: number; su: number } {
+  const bounded = pos.lowerPrice > 0 && pos.upperPrice > pos.lowerPrice;
+  return {
+    sl: bounded ? Math.sqrt(pos.lowerPrice) : 0,
+    su: bounded ? Math.sqrt(pos.upperPrice) : Infinity,
+  };
+}
+
+function clampSqrt(price: number, sl: number, su: number): number {
+  return Math.min(Math.max(Math.sqrt(price), sl), su);
+}
+
+/**
+ * Fit CLMM liquidity to a position's current amounts. Reported amounts don't
+ * sit exactly on the curve (DLMM bins, rounding), so the two fits are averaged.
+ */
+export function fitLiquidity(pos: RangePosition): number {
+  if (!(pos.currentPrice > 0)) return 0;
+  const { sl, su } = sqrtBounds(pos);
+  const s = clampSqrt(pos.currentPrice, sl, su);
+  const perLA = 1 / s - 1 / su;
+  const perLB = s - sl;
+  const fits = [perLA > 0 ? pos.amountA / perLA : NaN, perLB > 0 ? pos.amountB / perLB : NaN]
+    .filter(Number.isFinite);
+  return fits.length > 0 ? fits.reduce((sum, l) => sum + l, 0) / fits.length : 0;
+}
+
+/**
+ * Amounts a range position holds at another pool price (token B per token A)
+ */
+export function amountsAtPrice(pos: RangePosition, price: number): { amountA: number; amountB: number } {
+  const liquidity = fitLiquidity(pos);
+  if (!(liquidity > 0) || !(price > 0)) return { amountA: pos.amountA, amountB: pos.amountB };
+  const { sl, su } = sqrtBounds(pos);
+  const s = clampSqrt(price, sl, su);
+  return { amountA: liquidity * (1 / s - 1 / su), amountB: liquidity * (s - sl) };
+}
+
+/**
+ * Delta and gamma of a range position to each token's USD price.
+ *
+ * On the CLMM curve the value's derivative to a token's price is the amount
+ * of that token held, so delta is the amount. Gamma comes from how that
+ * amount shifts as the pool price moves, and is zero out of range.
+ */
+export function calculatePositionGreeks(pos: RangePosition): PositionGreeks {
+  const liquidity = fitLiquidity(pos);
+  const { sl, su } = sqrtBounds(pos);
+  const s = Math.sqrt(pos.currentPrice);
+  const inRange = liquidity > 0 && s > sl && s < su;
+
+  return {
+    liquidity,
+    inRange,
+    deltaA: pos.amountA,
+    deltaB: pos.amountB,
+    // d(amountA)/d(ln p) = -L / (2 sqrt p); token B rising is p falling
+    gammaA: inRange ? (-liquidity / (2 * s)) * 0.01 : 0,
+    gammaB: inRange ? (-liquidity * s / 2) * 0.01 : 0,
+  };
+}
+
 /**
  * Format IL for display
  */
@@ -1,22 +1,18 @@
 /**
  * Operation Lock - Prevents duplicate concurrent operations
  *
- * Simple in-memory lock to prevent double-tap issues where a user
- * might trigger the same LP/withdraw/rebalance operation twice.
+ * Store-backed lock to prevent double-tap issues where a user might
+ * trigger the same LP/withdraw/rebalance operation twice, including
+ * when the second request lands on another replica.
  */
 
-interface LockEntry {
-  operation: string;
-  acquiredAt: number;
-}
-
-const locks = new Map<string, LockEntry>();
+import { acquireLock, releaseLock, getLockHolder } from '../jobs/lock.js';
 
 // Auto-release locks after 5 minutes to prevent permanent deadlocks
-const LOCK_TTL_MS = 5 * 60 * 1000;
+const LOCK_TTL_SECONDS = 5 * 60;
 
-function lockKey(userId: string, operation: string): string {
-  return `${userId}:${operation}`;
+function lockName(userId: string, operation: string): string {
+  return `op:${userId}:${operation}`;
 }
 
 export class OperationLock {
@@ -24,43 +20,25 @@ export class OperationLock {
    * Try to acquire a lock for a user+operation.
    * Returns true if acquired, false if already locked.
    */
-  tryAcquire(userId: string, operation: string): boolean {
-    const key = lockKey(userId, operation);
-    const existing = locks.get(key);
-
-    // If there's an existing lock, check if it's expired
-    if (existing) {
-      if (Date.now() - existing.acquiredAt > LOCK_TTL_MS) {
-        // Expired, allow re-acquisition
-        console.warn(`[OperationLock] Auto-releasing expired lock: ${key}`);
-      } else {
-        return false;
-      }
-    }
-
-    locks.set(key, { operation, acquiredAt: Date.now() });
-    return true;
+  async tryAcquire(userId: string, operation: string): Promise<boolean> {
+    return acquireLock(lockName(userId, operation), LOCK_TTL_SECONDS);
   }
 
   /**
    * Release a lock for a user+operation.
    */
-  release(userId: string, operation: string): void {
-    locks.delete(lockKey(userId, operation));
+  async release(userId: string, operation: string): Promise<void> {
+    const released = await releaseLock(lockName(userId, operation)).catch(() => false);
+    if (!released) {
+      console.warn(`[OperationLock] ${lockName(userId, operation)} was not held by this instance`);
+    }
   }
 
   /**
    * Check if a lock is held (without acquiring).
    */
-  isLocked(userId: string, operation: string): boolean {
-    const key = lockKey(userId, operation);
-    const existing = locks.get(key);
-    if (!existing) return false;
-    if (Date.now() - existing.acquiredAt > LOCK_TTL_MS) {
-      locks.delete(key);
-      return false;
-    }
-    return true;
+  async isLocked(userId: string, operation: string): Promise<boolean> {
+    return !!(await getLockHolder(lockName(userId, operation)));
   }
 }
 
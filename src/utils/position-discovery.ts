@@ -15,6 +15,7 @@ import {
   formatPrice,
 } from './token-metadata';
 import { getCachedPoolInfo, getCachedDLMM } from '../services/pool-cache.js';
+import { config } from '../config/index.js';
 
 // Cache for Meteora pool names
 const poolNameCache = new Map<string, string>();
@@ -29,7 +30,7 @@ async function getMeteoraPoolName(poolAddress: string): Promise<string | null> {
   }
   
   try {
-    const resp = await fetch(`https://dlmm-api.meteora.ag/pair/${poolAddress}`);
+    const resp = await fetch(`${config.meteora.apiUrl}/pair/${poolAddress}`);
     if (resp.ok) {
       const data = await resp.json() as { name?: string };
       const name = data.name || null;
@@ -44,7 +44,7 @@ export async function getTokenPrices(mints: string[]): Promise<Map<string, numbe
   if (uncachedMints.length > 0) {
     try {
       const ids = uncachedMints.join(',');
-      const url = `https://api.jup.ag/price/v2?ids=${ids}`;
+      const url = `${config.jupiter.priceUrl}?ids=${ids}`;
       
       const headers: Record<string, string> = {
         'Accept': 'application/json',
@@ -257,6 +257,13 @@ export function friendlyErrorMessage(error: any): string {
   if (msg.includes('0x1794') || msg.includes('bitmapextension') || msg.includes('6036')) {
     return 'This pool uses extended bin ranges that aren\'t fully supported yet. Try a different pool with higher liquidity.';
   }
+  if (msg.includes('unsupported transfer hook')) {
+    return 'This pool has a token with a transfer hook, which isn\'t supported yet. Try a different pool.';
+  }
+  if (msg.includes('policy violation')) {
+    const reason = (error.message || '').replace(/^Policy violation \([^)]*\):\s*/i, '');
+    return `Blocked by the wallet's transaction policy: ${reason}`;
+  }
   if (msg.includes('not_tradable') || msg.includes('not tradable')) {
     return 'This token has low liquidity and cannot be swapped on Jupiter. Try a more liquid pool.';
   }
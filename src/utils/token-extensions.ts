@@ -0,0 +1,134 @@
+/**
+ * Token-2022 Extension Inspection
+ *
+ * Detects the token program and the mint extensions LP building cares about:
+ * - Transfer fees: withheld from every transfer, so a wallet receives less
+ *   than a quote's raw output
+ * - Interest-bearing: raw amounts are unaffected, only UI amounts accrue
+ * - Transfer hooks: every transfer needs the hook's extra accounts, which
+ *   our builders and Jupiter swaps don't supply unless the program is allowlisted
+ */
+
+import { PublicKey, type Connection } from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  ExtensionType,
+  calculateEpochFee,
+  getExtensionTypes,
+  getInterestBearingMintConfigState,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackMint,
+  type TransferFeeConfig,
+} from '@solana/spl-token';
+import BN from 'bn.js';
+import { config } from '../config/index.js';
+
+export interface MintProfile {
+  mint: string;
+  decimals: number;
+  tokenProgram: PublicKey;
+  isToken2022: boolean;
+  extensions: string[]; // ExtensionType names, for logs and API responses
+  transferFee: { config: TransferFeeConfig; epoch: bigint } | null;
+  interestRateBps: number | null;
+  transferHookProgram: string | null;
+}
+
+// Fee configs can schedule a new rate for a later epoch, so profiles expire
+const PROFILE_TTL_MS = 5 * 60_000;
+const profileCache = new Map<string, { profile: MintProfile; fetchedAt: number }>();
+
+/**
+ * Read a mint's program and extensions from chain
+ */
+export async function getMintProfile(connection: Connection, mint: string): Promise<MintProfile> {
+  const cached = profileCache.get(mint);
+  if (cached && Date.now() - cached.fetchedAt < PROFILE_TTL_MS) return cached.profile;
+
+  const mintPubkey = new PublicKey(mint);
+  const account = await connection.getAccountInfo(mintPubkey);
+  if (!account) {
+    throw new Error(`Mint ${mint} not found`);
+  }
+  const isToken2022 = account.owner.equals(TOKEN_2022_PROGRAM_ID);
+  if (!isToken2022 && !account.owner.equals(TOKEN_PROGRAM_ID)) {
+    throw new Error(`Account ${mint} is not a token mint`);
+  }
+
+  const mintState = unpackMint(mintPubkey, account, account.owner);
+  let profile: MintProfile = {
+    mint,
+    decimals: mintState.decimals,
+    tokenProgram: account.owner,
+    isToken2022,
+    extensions: [],
+    transferFee: null,
+    interestRateBps: null,
+    transferHookProgram: null,
+  };
+
+  if (isToken2022 && mintState.tlvData.length > 0) {
+    const feeConfig = getTransferFeeConfig(mintState);
+    const hook = getTransferHook(mintState);
+    const { epoch } = feeConfig ? await connection.getEpochInfo() : { epoch: 0 };
+    profile = {
+      ...profile,
+      extensions: getExtensionTypes(mintState.tlvData).map(t => ExtensionType[t] ?? String(t)),
+      transferFee: feeConfig ? { config: feeConfig, epoch: BigInt(epoch) } : null,
+      interestRateBps: getInterestBearingMintConfigState(mintState)?.currentRate ?? null,
+      // A hook extension with no program set is a no-op
+      transferHookProgram: hook && !hook.programId.equals(PublicKey.default) ? hook.programId.toBase58() : null,
+    };
+  }
+
+  profileCache.set(mint, { profile, fetchedAt: Date.now() });
+  return profile;
+}
+
+/**
+ * Profiles for several mints, e.g. both sides of a pool
+ */
+export async function getMintProfiles(connection: Connection, mints: string[]): Promise<MintProfile[]> {
+  return Promise.all(mints.map(m => getMintProfile(connection, m)));
+}
+
+/**
+ * Transfer fee withheld when `amount` (base units) is transferred
+ */
+export function transferFeeFor(profile: MintProfile, amount: BN): BN {
+  if (!profile.transferFee || amount.isZero()) return new BN(0);
+  const { config: feeConfig, epoch } = profile.transferFee;
+  return new BN(calculateEpochFee(feeConfig, epoch, BigInt(amount.toString())).toString());
+}
+
+/**
+ * What the recipient actually gets when `amount` (base units) is transferred
+ */
+export function netAfterTransferFee(profile: MintProfile, amount: BN): BN {
+  return amount.sub(transferFeeFor(profile, amount));
+}
+
+/**
+ * Throw if any mint has a transfer hook we can't satisfy
+ * Message matches classifyError's TOKEN_TRANSFER_HOOK_UNSUPPORTED pattern.
+ */
+export function assertSupportedMints(profiles: MintProfile[]): void {
+  for (const p of profiles) {
+    if (p.transferHookProgram && !config.tokens.allowedTransferHookPrograms.includes(p.transferHookProgram)) {
+      throw new Error(
+        `Unsupported transfer hook on ${p.mint.slice(0, 8)}... (program ${p.transferHookProgram}). ` +
+        `Tokens with transfer hooks can't be used for LP yet.`
+      );
+    }
+  }
+}
+
+export default {
+  getMintProfile,
+  getMintProfiles,
+  transferFeeFor,
+  netAfterTransferFee,
+  assertSupportedMints,
+};
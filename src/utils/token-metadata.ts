@@ -5,6 +5,10 @@
  * Uses Jupiter's verified token list for accuracy.
  */
 
+import { PublicKey, type Connection } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackMint } from '@solana/spl-token';
+import { config } from '../config/index.js';
+
 // Well-known tokens (fallback)
 const KNOWN_TOKENS: Record<string, { symbol: string; name: string; decimals: number }> = {
   'So11111111111111111111111111111111111111112': { symbol: 'SOL', name: 'Wrapped SOL', decimals: 9 },
@@ -51,7 +55,7 @@ async function fetchJupiterTokenList(): Promise<Map<string, { symbol: string; na
 
   try {
     // Jupiter's verified token list API
-    const response = await fetch('https://token.jup.ag/strict');
+    const response = await fetch(config.jupiter.tokenListUrl);
     if (!response.ok) {
       throw new Error(`Jupiter API failed: ${response.status}`);
     }
@@ -157,6 +161,39 @@ export async function resolveTokens(mints: string[]): Promise<Map<string, {
   return results;
 }
 
+// Decimals and owning program never change for a mint, so cache forever
+const mintInfoCache = new Map<string, { decimals: number; tokenProgram: PublicKey; isToken2022: boolean }>();
+
+/**
+ * Read a mint's decimals and token program from chain
+ * Works for both SPL Token and Token-2022 mints, including ones missing
+ * from the token list (where resolveToken would guess 9 decimals).
+ */
+export async function getMintInfo(connection: Connection, mint: string): Promise<{
+  mint: string;
+  decimals: number;
+  tokenProgram: PublicKey;
+  isToken2022: boolean;
+}> {
+  const cached = mintInfoCache.get(mint);
+  if (cached) return { mint, ...cached };
+
+  const mintPubkey = new PublicKey(mint);
+  const account = await connection.getAccountInfo(mintPubkey);
+  if (!account) {
+    throw new Error(`Mint ${mint} not found`);
+  }
+  const isToken2022 = account.owner.equals(TOKEN_2022_PROGRAM_ID);
+  if (!isToken2022 && !account.owner.equals(TOKEN_PROGRAM_ID)) {
+    throw new Error(`Account ${mint} is not a token mint`);
+  }
+
+  const { decimals } = unpackMint(mintPubkey, account, account.owner);
+  const info = { decimals, tokenProgram: account.owner, isToken2022 };
+  mintInfoCache.set(mint, info);
+  return { mint, ...info };
+}
+
 /**
  * Get symbol for a mint (quick lookup)
  */
@@ -302,6 +339,7 @@ export function formatPriceRange(
 export default {
   resolveToken,
   resolveTokens,
+  getMintInfo,
   getSymbol,
   binIdToPrice,
   binIdToHumanPrice,
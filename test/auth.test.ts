@@ -0,0 +1,114 @@
+/**
+ * API key auth: the scope each route needs, and what a key may touch
+ */
+
+import { Hono } from 'hono';
+import { apiKeyAuth, routeAccess, walletParam } from '../src/middleware/auth.js';
+import { hasScope, issueApiKey, revokeApiKey } from '../src/auth/index.js';
+import { config } from '../src/config/index.js';
+import { setStore, MemoryStore } from '../src/storage/index.js';
+
+jest.mock('../src/services/wallet-service.js', () => ({
+  loadWalletById: async (id: string) => ({ wallet: { id, address: `address-of-${id}` }, client: {} }),
+}));
+
+const ADMIN_KEY = 'admin-secret';
+
+describe('routeAccess', () => {
+  it.each([
+    ['GET', '/health', 'public'],
+    ['POST', '/actions/lp', 'public'],
+    ['GET', '/keys', 'admin'],
+    ['POST', '/worker/run', 'admin'],
+    ['GET', '/wallet/w1/transaction-policy', ['read']],
+    ['PUT', '/wallet/w1/transaction-policy', 'admin'],
+    ['GET', '/pools/top', ['read']],
+    ['POST', '/lp/prepare', ['read']],
+    ['POST', '/lp/atomic', ['trade']],
+    ['POST', '/lp/withdraw/atomic', ['withdraw']],
+    ['POST', '/lp/rebalance/execute', ['trade', 'withdraw']],
+    ['POST', '/something/new', ['trade']],
+  ])('%s %s needs %j', (method, path, access) => {
+    expect(routeAccess(method, path)).toEqual(access);
+  });
+});
+
+describe('hasScope', () => {
+  it('grants read to any key and nothing else implicitly', () => {
+    expect(hasScope(['trade'], 'read')).toBe(true);
+    expect(hasScope(['withdraw'], 'trade')).toBe(false);
+    expect(hasScope([], 'read')).toBe(false);
+  });
+});
+
+describe('apiKeyAuth', () => {
+  const saved = { ...config.auth };
+  let app: Hono;
+  let reader: string;
+  let trader: string;
+
+  beforeAll(async () => {
+    setStore(new MemoryStore());
+    Object.assign(config.auth, { adminKey: ADMIN_KEY, required: true });
+    ({ secret: reader } = await issueApiKey({ name: 'reader', scopes: ['read'], walletIds: ['wallet-a'] }));
+    ({ secret: trader } = await issueApiKey({ name: 'trader', scopes: ['trade'], walletIds: ['wallet-a'] }));
+
+    app = new Hono();
+    app.use('*', apiKeyAuth);
+    const ok = (c: any) => c.json({ ok: true });
+    app.get('/health', ok);
+    app.get('/keys', ok);
+    app.get('/pools/top', ok);
+    app.post('/lp/atomic', ok);
+    app.post('/lp/withdraw/atomic', ok);
+    app.get('/wallet/:walletId', walletParam('walletId'), ok);
+  });
+
+  afterAll(() => {
+    Object.assign(config.auth, saved);
+    setStore(null);
+  });
+
+  const call = (method: string, path: string, key?: string, body?: unknown) => app.request(path, {
+    method,
+    headers: {
+      ...(key ? { Authorization: `Bearer ${key}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  it('lets public routes through without a key and requires one elsewhere', async () => {
+    expect((await call('GET', '/health')).status).toBe(200);
+    expect((await call('GET', '/pools/top')).status).toBe(401);
+    expect((await call('GET', '/pools/top', 'lpk_nope_nope')).status).toBe(401);
+  });
+
+  it('checks the scopes the route needs', async () => {
+    expect((await call('GET', '/pools/top', reader)).status).toBe(200);
+    expect((await call('POST', '/lp/atomic', reader, { walletId: 'wallet-a' })).status).toBe(403);
+    expect((await call('POST', '/lp/atomic', trader, { walletId: 'wallet-a' })).status).toBe(200);
+    expect((await call('POST', '/lp/withdraw/atomic', trader, { walletId: 'wallet-a' })).status).toBe(403);
+  });
+
+  it('keeps admin routes to the admin key', async () => {
+    expect((await call('GET', '/keys', trader)).status).toBe(403);
+    expect((await call('GET', '/keys', ADMIN_KEY)).status).toBe(200);
+  });
+
+  it('binds keys to their wallets by id or address, in the body, query and path', async () => {
+    expect((await call('POST', '/lp/atomic', trader, { walletAddress: 'address-of-wallet-a' })).status).toBe(200);
+    expect((await call('POST', '/lp/atomic', trader, { walletId: 'wallet-b' })).status).toBe(403);
+    expect((await call('GET', '/pools/top?walletId=wallet-b', reader)).status).toBe(403);
+    expect((await call('GET', '/wallet/wallet-a', reader)).status).toBe(200);
+    expect((await call('GET', '/wallet/wallet-b', reader)).status).toBe(403);
+    expect((await call('GET', '/wallet/wallet-b', ADMIN_KEY)).status).toBe(200);
+  });
+
+  it('refuses revoked keys', async () => {
+    const { key, secret } = await issueApiKey({ name: 'temp', scopes: ['read'], walletIds: ['wallet-a'] });
+    expect((await call('GET', '/pools/top', secret)).status).toBe(200);
+    await revokeApiKey(key.id);
+    expect((await call('GET', '/pools/top', secret)).status).toBe(401);
+  });
+});
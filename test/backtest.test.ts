@@ -0,0 +1,115 @@
+/**
+ * Backtest engine, Pareto optimizer and what optimizeStrategy will store
+ */
+
+import {
+  runBacktestSimulation,
+  paretoFront,
+  optimizeStrategy,
+  getStoredOptimization,
+  MAX_INLINE_POINTS,
+  type BacktestCosts,
+  type BacktestPool,
+  type OptimizerCandidate,
+  type SeriesPoint,
+} from '../src/backtest/index.js';
+import backtestRoutes from '../src/routes/backtest.js';
+import { setStore, MemoryStore } from '../src/storage/index.js';
+
+const HOUR = 3_600_000;
+const POOL: BacktestPool = { binStep: 10, baseFeeBps: 10, tvlUsd: 1_000_000, liquidityBins: 70 };
+const COSTS: BacktestCosts = { tipLamports: 100_000, txFeeLamports: 105_000, swapCostBps: 30, solPriceUsd: 150 };
+
+function series(prices: number[], volumeUsd = 100_000): SeriesPoint[] {
+  return prices.map((price, i) => ({ timestamp: i * HOUR, price, volumeUsd }));
+}
+
+function candidate(feeAprPercent: number, ilPercent: number, rebalanceCostUsd: number): OptimizerCandidate {
+  return {
+    binOffset: 8, totalBins: 17, rangePercent: 0.8, shape: 'spot', rebalance: { trigger: 'none' },
+    feeAprPercent, ilPercent, rebalanceCostUsd, rebalances: 0, timeInRangePercent: 100, netAprPercent: feeAprPercent,
+  };
+}
+
+describe('runBacktestSimulation', () => {
+  const base = { pool: POOL, amountUsd: 1000, strategy: 'balanced' as const, shape: 'spot' as const, costs: COSTS };
+
+  it('earns fees with no IL on a flat price', () => {
+    const result = runBacktestSimulation({ ...base, points: series(Array(48).fill(100)), rebalance: { trigger: 'none' } });
+
+    expect(result.feesEarnedUsd).toBeGreaterThan(0);
+    expect(result.ilUsd).toBeCloseTo(0, 6);
+    expect(result.timeInRangePercent).toBe(100);
+    expect(result.rebalances).toBe(0);
+  });
+
+  it('leaves the range without rebalancing, and re-centres with it', () => {
+    const prices = [...Array(12).fill(100), ...Array(36).fill(120)];
+    const idle = runBacktestSimulation({ ...base, points: series(prices), rebalance: { trigger: 'none' } });
+    const active = runBacktestSimulation({ ...base, points: series(prices), rebalance: { trigger: 'out-of-range' } });
+
+    expect(idle.timeInRangePercent).toBeLessThan(50);
+    expect(idle.ilUsd).toBeLessThan(0);
+    expect(active.rebalances).toBeGreaterThan(0);
+    expect(active.timeInRangePercent).toBeGreaterThan(idle.timeInRangePercent);
+    expect(active.costs.totalUsd).toBeGreaterThan(0);
+  });
+});
+
+describe('paretoFront', () => {
+  it('drops dominated candidates and sorts by fee APR', () => {
+    const best = candidate(40, -2, 5);
+    const cheap = candidate(20, -1, 0);
+    const dominated = candidate(30, -3, 6);
+
+    expect(paretoFront([dominated, cheap, best])).toEqual([best, cheap]);
+  });
+});
+
+describe('optimizeStrategy', () => {
+  const request = { binStep: 10, baseFeeBps: 10, tvlUsd: 1_000_000, solPriceUsd: 150, points: series([100, 101, 99, 100, 102, 98]) };
+
+  beforeEach(() => {
+    setStore(new MemoryStore());
+  });
+
+  afterAll(() => {
+    setStore(null);
+  });
+
+  it('returns the front without storing anything by default', async () => {
+    const result = await optimizeStrategy({ ...request, poolAddress: 'pool-1', grid: { binOffsets: [3, 8] } });
+
+    expect(result.front.length).toBeGreaterThan(0);
+    expect(result.front).toContainEqual(result.recommended);
+    expect(await getStoredOptimization('pool-1')).toBeNull();
+  });
+
+  it('refuses to save a run over inline points', async () => {
+    await expect(optimizeStrategy({ ...request, poolAddress: 'pool-1', save: true }))
+      .rejects.toThrow('Only runs over a series file');
+    expect(await getStoredOptimization('pool-1')).toBeNull();
+  });
+
+  it('caps inline points and the grid', async () => {
+    const long = series(Array(MAX_INLINE_POINTS + 1).fill(100));
+    await expect(optimizeStrategy({ ...request, points: long })).rejects.toThrow('Too many inline points');
+
+    const binOffsets = Array.from({ length: 34 }, (_, i) => i + 1);
+    await expect(optimizeStrategy({ ...request, grid: { binOffsets } })).rejects.toThrow('grid is too large');
+
+    const thresholds = [{ trigger: 'edge' as const, edgeFraction: 5 }];
+    await expect(optimizeStrategy({ ...request, grid: { thresholds } })).rejects.toThrow('edgeFraction');
+  });
+});
+
+describe('POST /backtest/optimize', () => {
+  it('only lets the admin key save', async () => {
+    const res = await backtestRoutes.request('/optimize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ poolAddress: 'pool-1', series: 'pool-1.csv', save: true }),
+    });
+    expect(res.status).toBe(403);
+  });
+});
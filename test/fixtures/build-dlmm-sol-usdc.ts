@@ -0,0 +1,296 @@
+/**
+ * Builds the dlmm-sol-usdc fixtures: a Meteora DLMM SOL-USDC pool and a
+ * wallet holding two positions in it, one out of range (to rebalance) and
+ * one in range (to withdraw).
+ *
+ * The accounts are encoded with the DLMM program's own coder in the same
+ * layout record mode saves (accounts/<address>.json), so the snapshot can
+ * be swapped for one recorded from mainnet without touching the test.
+ *
+ *   npx tsx test/fixtures/build-dlmm-sol-usdc.ts
+ */
+
+import { Connection, Keypair, PublicKey, SystemProgram, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
+import { AccountLayout, MintLayout, NATIVE_MINT, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import {
+  LBCLMM_PROGRAM_IDS,
+  ClockLayout,
+  createProgram,
+  deriveBinArray,
+  deriveLbPair2,
+  deriveOracle,
+  deriveReserve,
+} from '@meteora-ag/dlmm';
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
+import bs58 from 'bs58';
+import { createHash } from 'crypto';
+import path from 'path';
+import fs from 'fs';
+import { FixtureStore, type AccountFixture } from '../../src/offline/fixtures.js';
+import { OFFLINE_SLOT } from '../../src/offline/fixtureConnection.js';
+
+const FIXTURES_DIR = path.join(__dirname, 'dlmm-sol-usdc');
+
+const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const PROGRAM_ID = new PublicKey(LBCLMM_PROGRAM_IDS['mainnet-beta']);
+const BIN_STEP = 10;
+const BASE_FACTOR = 10_000;
+// SOL at 150 USDC: 0.15 micro-USDC per lamport
+const ACTIVE_ID = Math.round(Math.log(0.15) / Math.log(1 + BIN_STEP / 10_000));
+const BINS_PER_ARRAY = 70;
+const UNIX_TIMESTAMP = 1_760_000_000;
+
+const seeded = (label: string) => Keypair.fromSeed(createHash('sha256').update(`lp-toolkit-offline:${label}`).digest());
+
+const wallet = seeded('wallet');
+const outOfRange = seeded('position-out-of-range');
+const inRange = seeded('position-in-range');
+
+const [pool] = deriveLbPair2(NATIVE_MINT, USDC_MINT, new BN(BIN_STEP), new BN(BASE_FACTOR), PROGRAM_ID);
+const [reserveX] = deriveReserve(NATIVE_MINT, pool, PROGRAM_ID);
+const [reserveY] = deriveReserve(USDC_MINT, pool, PROGRAM_ID);
+const [oracle] = deriveOracle(pool, PROGRAM_ID);
+
+// Anchor's coder, for the program's own account layouts
+const program = createProgram(new Connection('http://127.0.0.1:8899'));
+const idlTypes: any[] = (program.idl as any).types;
+
+function zeroed(type: any): any {
+  if (typeof type === 'string') {
+    if (type === 'pubkey') return PublicKey.default;
+    if (type === 'bool') return false;
+    return /^[ui](8|16|32)$/.test(type) ? 0 : new BN(0);
+  }
+  if (type.array) return Array.from({ length: type.array[1] }, () => zeroed(type.array[0]));
+  if (type.option) return null;
+  if (type.vec) return [];
+  const def = idlTypes.find(t => t.name === type.defined.name);
+  return Object.fromEntries(def.type.fields.map((f: any) => [f.name, zeroed(f.type)]));
+}
+
+/** Discriminator + layout; the coder's own encode() caps accounts at 1000 bytes */
+function encodeAccount(name: string, value: unknown): Buffer {
+  const { discriminator, layout } = (program.coder.accounts as any).accountLayouts.get(name);
+  const body = Buffer.alloc(layout.span > 0 ? layout.span : 20_000);
+  const length = layout.encode(value, body);
+  return Buffer.concat([Buffer.from(discriminator), body.subarray(0, length)]);
+}
+
+const rentFor = (size: number) => (size + 128) * 6960;
+
+function account(owner: PublicKey, data: Buffer, lamports = rentFor(data.length)): AccountFixture {
+  return {
+    lamports,
+    owner: owner.toBase58(),
+    data: [data.toString('base64'), 'base64'],
+    executable: false,
+    rentEpoch: 0,
+    space: data.length,
+  };
+}
+
+function mintAccount(decimals: number, supply: bigint, authority: PublicKey | null): AccountFixture {
+  const data = Buffer.alloc(MintLayout.span);
+  MintLayout.encode({
+    mintAuthorityOption: authority ? 1 : 0,
+    mintAuthority: authority ?? PublicKey.default,
+    supply,
+    decimals,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default,
+  }, data);
+  return account(TOKEN_PROGRAM_ID, data);
+}
+
+function tokenAccount(mint: PublicKey, owner: PublicKey, amount: bigint): AccountFixture {
+  const data = Buffer.alloc(AccountLayout.span);
+  const native = mint.equals(NATIVE_MINT);
+  AccountLayout.encode({
+    mint,
+    owner,
+    amount,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: 1,
+    isNativeOption: native ? 1 : 0,
+    isNative: native ? BigInt(rentFor(AccountLayout.span)) : 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default,
+  }, data);
+  return account(TOKEN_PROGRAM_ID, data, rentFor(AccountLayout.span) + (native ? Number(amount) : 0));
+}
+
+// Q64.64 bin price, and liquidity as price * x + y in the same scale
+const binPrice = (binId: number) => new BN(
+  new Decimal(1 + BIN_STEP / 10_000).pow(binId).mul(new Decimal(2).pow(64)).floor().toFixed(),
+);
+const liquidityOf = (binId: number, x: BN, y: BN) => binPrice(binId).mul(x).add(y.shln(64));
+
+/** Bins the positions hold, all of each bin's liquidity: [binId, lamports, micro-USDC] */
+function positionBins(lower: number, upper: number, perBinX: number, perBinY: number): Array<[number, BN, BN]> {
+  const bins: Array<[number, BN, BN]> = [];
+  for (let id = lower; id <= upper; id++) {
+    const x = id > ACTIVE_ID || id === ACTIVE_ID ? new BN(perBinX) : new BN(0);
+    const y = id < ACTIVE_ID || id === ACTIVE_ID ? new BN(perBinY) : new BN(0);
+    bins.push([id, x, y]);
+  }
+  return bins;
+}
+
+async function main() {
+  const store = new FixtureStore(FIXTURES_DIR);
+  fs.rmSync(FIXTURES_DIR, { recursive: true, force: true });
+
+  const positions = [
+    { keypair: outOfRange, lower: ACTIVE_ID - 40, upper: ACTIVE_ID - 30, bins: positionBins(ACTIVE_ID - 40, ACTIVE_ID - 30, 0, 10_000_000) },
+    { keypair: inRange, lower: ACTIVE_ID - 5, upper: ACTIVE_ID + 5, bins: positionBins(ACTIVE_ID - 5, ACTIVE_ID + 5, 100_000_000, 15_000_000) },
+  ];
+  const bins = new Map(positions.flatMap(p => p.bins.map(([id, x, y]) => [id, { x, y }] as const)));
+  const totalX = [...bins.values()].reduce((sum, b) => sum.add(b.x), new BN(0));
+  const totalY = [...bins.values()].reduce((sum, b) => sum.add(b.y), new BN(0));
+
+  // Bin arrays around the active bin, with the positions' liquidity
+  const activeArray = Math.floor(ACTIVE_ID / BINS_PER_ARRAY);
+  const arrayIndexes = [activeArray - 1, activeArray, activeArray + 1];
+  for (const index of arrayIndexes) {
+    const binArray = zeroed({ defined: { name: 'binArray' } });
+    binArray.index = new BN(index);
+    binArray.version = 1;
+    binArray.lbPair = pool;
+    binArray.bins = binArray.bins.map((bin: any, i: number) => {
+      const id = index * BINS_PER_ARRAY + i;
+      const held = bins.get(id);
+      return {
+        ...bin,
+        price: binPrice(id),
+        amountX: held?.x ?? new BN(0),
+        amountY: held?.y ?? new BN(0),
+        liquiditySupply: held ? liquidityOf(id, held.x, held.y) : new BN(0),
+      };
+    });
+    const [address] = deriveBinArray(pool, new BN(index), PROGRAM_ID);
+    store.putAccount(address.toBase58(), account(PROGRAM_ID, encodeAccount('binArray', binArray)));
+  }
+
+  // The 1024-bit bitmap of initialized bin arrays, index -512 at bit 0
+  let bitmap = new BN(0);
+  for (const index of arrayIndexes) bitmap = bitmap.bincn(index + 512);
+  const words = Array.from({ length: 16 }, (_, i) => bitmap.shrn(64 * i).maskn(64));
+
+  const lbPair = zeroed({ defined: { name: 'lbPair' } });
+  Object.assign(lbPair.parameters, {
+    baseFactor: BASE_FACTOR,
+    filterPeriod: 30,
+    decayPeriod: 600,
+    reductionFactor: 5000,
+    variableFeeControl: 7500,
+    maxVolatilityAccumulator: 150_000,
+    minBinId: -443_636,
+    maxBinId: 443_636,
+    protocolShare: 500,
+  });
+  lbPair.vParameters.indexReference = ACTIVE_ID;
+  lbPair.vParameters.lastUpdateTimestamp = new BN(UNIX_TIMESTAMP);
+  Object.assign(lbPair, {
+    bumpSeed: [deriveLbPair2(NATIVE_MINT, USDC_MINT, new BN(BIN_STEP), new BN(BASE_FACTOR), PROGRAM_ID)[1]],
+    binStepSeed: [BIN_STEP & 0xff, BIN_STEP >> 8],
+    baseFactorSeed: [BASE_FACTOR & 0xff, BASE_FACTOR >> 8],
+    activeId: ACTIVE_ID,
+    binStep: BIN_STEP,
+    tokenXMint: NATIVE_MINT,
+    tokenYMint: USDC_MINT,
+    reserveX,
+    reserveY,
+    oracle,
+    binArrayBitmap: words,
+    lastUpdatedAt: new BN(UNIX_TIMESTAMP),
+  });
+  store.putAccount(pool.toBase58(), account(PROGRAM_ID, encodeAccount('lbPair', lbPair)));
+
+  for (const position of positions) {
+    const data = zeroed({ defined: { name: 'positionV2' } });
+    Object.assign(data, {
+      lbPair: pool,
+      owner: wallet.publicKey,
+      lowerBinId: position.lower,
+      upperBinId: position.upper,
+      lastUpdatedAt: new BN(UNIX_TIMESTAMP),
+      version: 1,
+    });
+    data.liquidityShares = data.liquidityShares.map((share: BN, i: number) => {
+      const bin = position.bins[i];
+      return bin ? liquidityOf(bin[0], bin[1], bin[2]) : share;
+    });
+    store.putAccount(position.keypair.publicKey.toBase58(), account(PROGRAM_ID, encodeAccount('positionV2', data)));
+  }
+
+  // Pool reserves hold what the bins hold
+  store.putAccount(reserveX.toBase58(), tokenAccount(NATIVE_MINT, pool, BigInt(totalX.toString())));
+  store.putAccount(reserveY.toBase58(), tokenAccount(USDC_MINT, pool, BigInt(totalY.toString())));
+  store.putAccount(NATIVE_MINT.toBase58(), mintAccount(9, 0n, null));
+  store.putAccount(USDC_MINT.toBase58(), mintAccount(6, 10_000_000_000_000_000n, seeded('usdc-authority').publicKey));
+
+  // The wallet: 10 SOL and 200 USDC
+  store.putAccount(wallet.publicKey.toBase58(), account(SystemProgram.programId, Buffer.alloc(0), 10_000_000_000));
+  const walletUsdc = getAssociatedTokenAddressSync(USDC_MINT, wallet.publicKey);
+  store.putAccount(walletUsdc.toBase58(), tokenAccount(USDC_MINT, wallet.publicKey, 200_000_000n));
+
+  const clock = Buffer.alloc(ClockLayout.span);
+  ClockLayout.encode({
+    slot: new BN(OFFLINE_SLOT),
+    epochStartTimestamp: new BN(UNIX_TIMESTAMP - 86_400),
+    epoch: new BN(700),
+    leaderScheduleEpoch: new BN(701),
+    unixTimestamp: new BN(UNIX_TIMESTAMP),
+  }, clock);
+  store.putAccount(SYSVAR_CLOCK_PUBKEY.toBase58(), account(new PublicKey('Sysvar1111111111111111111111111111111111111'), clock));
+
+  // The pool as Meteora's API lists it
+  store.putHttp('meteora', 'pools', [{
+    address: pool.toBase58(),
+    name: 'SOL-USDC',
+    mint_x: NATIVE_MINT.toBase58(),
+    mint_y: USDC_MINT.toBase58(),
+    reserve_x: reserveX.toBase58(),
+    reserve_y: reserveY.toBase58(),
+    reserve_x_amount: Number(totalX.toString()),
+    reserve_y_amount: Number(totalY.toString()),
+    bin_step: BIN_STEP,
+    base_fee_percentage: '0.1',
+    max_fee_percentage: '10',
+    protocol_fee_percentage: '5',
+    liquidity: '1000000',
+    fees_24h: 1000,
+    today_fees: 1000,
+    trade_volume_24h: 1_000_000,
+    cumulative_trade_volume: '100000000',
+    cumulative_fee_volume: '100000',
+    current_price: 150,
+    apr: 36.5,
+    apy: 44,
+    hide: false,
+  }]);
+
+  fs.writeFileSync(path.join(FIXTURES_DIR, 'manifest.json'), JSON.stringify({
+    poolAddress: pool.toBase58(),
+    activeBinId: ACTIVE_ID,
+    wallet: {
+      address: wallet.publicKey.toBase58(),
+      secretKey: bs58.encode(wallet.secretKey), // Test-only key, never funded
+    },
+    positions: {
+      outOfRange: outOfRange.publicKey.toBase58(),
+      inRange: inRange.publicKey.toBase58(),
+    },
+  }, null, 2) + '\n');
+
+  console.log(`Wrote ${store.allAccounts().size} accounts to ${FIXTURES_DIR}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * Position greeks and the hedge plans sized from them
+ */
+
+import { amountsAtPrice, calculatePositionGreeks, type RangePosition } from '../src/utils/il-calculator.js';
+import { buildHedgeReport } from '../src/risk/hedge.js';
+import type { PortfolioPosition } from '../src/risk/portfolio.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+// 1 SOL + 100 USDC at $100, range $50-$200
+const IN_RANGE: RangePosition = { amountA: 1, amountB: 100, lowerPrice: 50, upperPrice: 200, currentPrice: 100 };
+
+function solUsdc(range: RangePosition, positionId = 'sol-usdc'): PortfolioPosition {
+  return {
+    dex: 'meteora',
+    positionId,
+    poolAddress: 'pool',
+    pair: 'SOL-USDC',
+    tokenA: { mint: SOL, symbol: 'SOL', amount: range.amountA },
+    tokenB: { mint: USDC, symbol: 'USDC', amount: range.amountB },
+    priceLower: range.lowerPrice,
+    priceUpper: range.upperPrice,
+    priceCurrent: range.currentPrice,
+    inRange: range.currentPrice > range.lowerPrice && range.currentPrice < range.upperPrice,
+  };
+}
+
+describe('calculatePositionGreeks', () => {
+  it('has delta equal to the amounts and gamma matching a 1% move', () => {
+    const greeks = calculatePositionGreeks(IN_RANGE);
+    expect(greeks.inRange).toBe(true);
+    expect(greeks.deltaA).toBe(1);
+    expect(greeks.deltaB).toBe(100);
+    expect(greeks.gammaA).toBeLessThan(0);
+    expect(greeks.gammaB).toBeLessThan(0);
+
+    // Short gamma: a 1% rise sells about gammaA of token A
+    const up = amountsAtPrice(IN_RANGE, IN_RANGE.currentPrice * Math.exp(0.01));
+    expect(up.amountA - IN_RANGE.amountA).toBeCloseTo(greeks.gammaA, 3);
+    // Token B rising is the pool price falling
+    const down = amountsAtPrice(IN_RANGE, IN_RANGE.currentPrice * Math.exp(-0.01));
+    expect(down.amountB - IN_RANGE.amountB).toBeCloseTo(greeks.gammaB, 1);
+  });
+
+  it('has no gamma out of range', () => {
+    const greeks = calculatePositionGreeks({ amountA: 2, amountB: 0, lowerPrice: 120, upperPrice: 200, currentPrice: 100 });
+    expect(greeks.inRange).toBe(false);
+    expect(greeks.deltaA).toBe(2);
+    expect(greeks.gammaA).toBe(0);
+    expect(greeks.gammaB).toBe(0);
+  });
+});
+
+describe('buildHedgeReport', () => {
+  const prices = new Map([[SOL, 100], [USDC, 1]]);
+
+  it('hedges the volatile side and never the stablecoin', () => {
+    const report = buildHedgeReport('wallet', [solUsdc(IN_RANGE)], prices);
+
+    expect(report.tokens.map(t => t.symbol)).toEqual(['SOL']);
+    const sol = report.tokens[0];
+    expect(sol.delta).toBe(1);
+    expect(sol.deltaUsd).toBe(100);
+    expect(sol.gammaPer1Pct).toBeLessThan(0);
+    expect(sol.rehedgeBandPercent).toBeGreaterThan(0);
+    expect(sol.suggestions.map(s => [s.type, s.amount])).toEqual([['short', 1], ['stable-rebalance', 1]]);
+    expect(report.totalDeltaUsd).toBe(100);
+  });
+
+  it('leaves less exposure hedged than unhedged for small moves', () => {
+    const sol = buildHedgeReport('wallet', [solUsdc(IN_RANGE)], prices).tokens[0];
+    for (const scenario of sol.whatIf.filter(w => Math.abs(w.movePercent) <= 10)) {
+      expect(Math.abs(scenario.netHedgedUsd)).toBeLessThan(Math.abs(scenario.lpValueChangeUsd));
+      // Short gamma: the hedged position loses a little either way
+      expect(scenario.netHedgedUsd).toBeLessThanOrEqual(0);
+    }
+  });
+
+  it('sums delta across positions and skips dust', () => {
+    const small: RangePosition = { ...IN_RANGE, amountA: 0.05, amountB: 5 };
+    const one = buildHedgeReport('wallet', [solUsdc(small)], prices).tokens[0];
+    expect(one.suggestions).toEqual([]);
+
+    const both = buildHedgeReport('wallet', [solUsdc(small, 'a'), solUsdc(small, 'b')], prices).tokens[0];
+    expect(both.delta).toBeCloseTo(0.1, 6);
+    expect(both.positions).toHaveLength(2);
+  });
+
+  it('notes tokens it cannot price', () => {
+    const bonk: PortfolioPosition = {
+      ...solUsdc(IN_RANGE),
+      pair: 'BONK-USDC',
+      tokenA: { mint: BONK, symbol: 'BONK', amount: 1_000_000 },
+    };
+    const report = buildHedgeReport('wallet', [bonk], prices);
+    expect(report.tokens).toEqual([]);
+    expect(report.notes).toContain('No USD price for BONK; skipped');
+  });
+});
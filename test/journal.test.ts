@@ -0,0 +1,56 @@
+/**
+ * Intent journal: idempotency key claims
+ */
+
+import { createIntent, getIntent, getInflightIntentIds } from '../src/journal/store.js';
+import { setStore, MemoryStore, type SetOptions } from '../src/storage/index.js';
+
+// Writes land a tick later, as they would over the network
+class NetworkedStore extends MemoryStore {
+  async set(key: string, value: unknown, opts?: SetOptions): Promise<'OK' | null> {
+    await new Promise(resolve => setImmediate(resolve));
+    return super.set(key, value, opts);
+  }
+}
+
+describe('createIntent', () => {
+  beforeEach(() => {
+    setStore(new NetworkedStore());
+  });
+
+  afterAll(() => {
+    setStore(null);
+  });
+
+  const input = { operation: 'lp' as const, idempotencyKey: 'retry-1', principal: 'key-1', walletId: 'wallet-a' };
+
+  it('returns the existing intent for a repeated key', async () => {
+    const first = await createIntent(input);
+    const second = await createIntent(input);
+
+    expect(first.created).toBe(true);
+    expect(second.created).toBe(false);
+    expect(second.intent.id).toBe(first.intent.id);
+  });
+
+  it('creates one intent for concurrent requests with the same key', async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => createIntent(input)));
+
+    const created = results.filter(r => r.created);
+    expect(created).toHaveLength(1);
+    expect(new Set(results.map(r => r.intent.id))).toEqual(new Set([created[0].intent.id]));
+    expect(await getInflightIntentIds()).toEqual([created[0].intent.id]);
+
+    // The losers' records are dropped
+    const losers = await Promise.all(results.map(r => getIntent(r.intent.id)));
+    expect(losers.every(intent => intent?.id === created[0].intent.id)).toBe(true);
+  });
+
+  it('scopes keys to the wallet', async () => {
+    const a = await createIntent(input);
+    const b = await createIntent({ ...input, walletId: 'wallet-b' });
+
+    expect(b.created).toBe(true);
+    expect(b.intent.id).not.toBe(a.intent.id);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tax export rendering: token symbols come from on-chain metadata, so
+ * they must not turn into spreadsheet formulas
+ */
+
+jest.mock('../src/utils/token-metadata.js', () => ({
+  resolveTokens: async (mints: string[]) => new Map(mints.map(mint => [
+    mint,
+    { mint, symbol: mint === 'EVIL' ? '=HYPERLINK("http://x","USDC")' : 'SOL', name: 'Token', decimals: 9 },
+  ])),
+}));
+
+import { renderExport, type ExportRow } from '../src/ledger/export.js';
+
+function row(overrides: Partial<ExportRow>): ExportRow {
+  return {
+    timestamp: Date.UTC(2026, 0, 31, 14, 5),
+    kind: 'trade',
+    eventType: 'swap',
+    dex: 'meteora',
+    poolAddress: 'pool',
+    positionId: 'position',
+    networkFeeSol: 0,
+    costBasisUsd: 0,
+    proceedsUsd: 0,
+    incomeUsd: 0,
+    protocolFeeUsd: 0,
+    txHash: 'sig',
+    ...overrides,
+  };
+}
+
+describe('renderExport', () => {
+  it('neutralizes symbols that look like formulas', async () => {
+    const csv = await renderExport([row({
+      sent: { mint: 'SOLMINT', amount: 1, priceUsd: 150 },
+      received: { mint: 'EVIL', amount: 150, priceUsd: 1 },
+    })], 'koinly');
+
+    const line = csv.split('\n')[1];
+    expect(line).toContain(`"'=HYPERLINK(""http://x"",""USDC"")"`);
+    expect(line).not.toMatch(/(^|,)=/);
+  });
+
+  it('leaves plain numbers alone', async () => {
+    const csv = await renderExport([row({ kind: 'liquidity_out', eventType: 'withdrawal', proceedsUsd: 12.5 })], 'csv');
+    expect(csv.split('\n')[1]).toContain(',12.50,');
+  });
+});
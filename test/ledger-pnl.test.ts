@@ -0,0 +1,112 @@
+/**
+ * Position PnL: cost basis, fees, costs and IL against holding the deposit
+ */
+
+import { computePositionPnl } from '../src/ledger/pnl.js';
+import type { LedgerEntry, LedgerPosition, PricedAmount } from '../src/ledger/types.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const DAY_MS = 86_400_000;
+const OPENED_AT = Date.UTC(2026, 0, 1);
+
+const sol = (amount: number, priceUsd: number): PricedAmount => ({ mint: SOL, amount, priceUsd });
+const usdc = (amount: number): PricedAmount => ({ mint: USDC, amount, priceUsd: 1 });
+
+const position = (closedAt?: number): LedgerPosition => ({
+  positionId: 'position',
+  walletAddress: 'wallet',
+  poolAddress: 'pool',
+  dex: 'meteora',
+  mints: [SOL, USDC],
+  openedAt: OPENED_AT,
+  closedAt,
+});
+
+let seq = 0;
+function entry(type: LedgerEntry['type'], fields: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id: `entry-${++seq}`,
+    type,
+    positionId: 'position',
+    walletAddress: 'wallet',
+    poolAddress: 'pool',
+    dex: 'meteora',
+    timestamp: OPENED_AT,
+    tokens: [],
+    fees: [],
+    protocolFee: [],
+    costUsd: 0,
+    txHashes: [],
+    ...fields,
+  };
+}
+
+// 1 SOL at $100 and 100 USDC in, $1 of tips, $1 lost swapping 50 USDC into 0.49 SOL
+const deposit = entry('deposit', {
+  tokens: [sol(1, 100), usdc(100)],
+  swap: { input: usdc(50), output: sol(0.49, 100) },
+  costUsd: 1,
+});
+
+describe('computePositionPnl', () => {
+  it('splits an open position into fees, unrealized PnL and IL', () => {
+    const claim = entry('fee_claim', { fees: [usdc(3)] });
+    const prices = new Map([[SOL, 121], [USDC, 1]]);
+    const pnl = computePositionPnl(position(), [deposit, claim], { positionId: 'position', valueUsd: 220, feesUsd: 5 }, prices, OPENED_AT + 10 * DAY_MS);
+
+    expect(pnl.status).toBe('open');
+    expect(pnl.costBasisUsd).toBe(200);
+    expect(pnl.costsUsd).toBe(2);
+    expect(pnl.feesEarnedUsd).toBe(8);
+    expect(pnl.holdValueUsd).toBe(221);
+    expect(pnl.ilUsd).toBe(-1);
+    expect(pnl.ilPercent).toBeCloseTo(-0.45, 2);
+    expect(pnl.realizedPnlUsd).toBe(1); // 3 claimed - 2 costs
+    expect(pnl.unrealizedPnlUsd).toBe(25); // 220 + 5 - 200
+    expect(pnl.netPnlUsd).toBe(26);
+    expect(pnl.netAprPercent).toBeCloseTo((26 / 200) * (365 / 10) * 100, 1);
+  });
+
+  it('values a closed position\'s IL at the exit prices', () => {
+    const withdrawal = entry('withdrawal', {
+      timestamp: OPENED_AT + DAY_MS,
+      tokens: [sol(0.8, 150), usdc(120)],
+      fees: [usdc(2)],
+      protocolFee: [usdc(0.5)],
+    });
+    const pnl = computePositionPnl(position(OPENED_AT + DAY_MS), [deposit, withdrawal], undefined, new Map([[SOL, 300]]));
+
+    expect(pnl.status).toBe('closed');
+    expect(pnl.withdrawnUsd).toBe(240);
+    expect(pnl.holdValueUsd).toBe(250); // 1 SOL at the $150 exit price, not today's $300
+    expect(pnl.ilUsd).toBe(-10);
+    expect(pnl.costsUsd).toBe(2.5);
+    expect(pnl.realizedPnlUsd).toBe(39.5); // 240 + 2 - 200 - 2.5
+    expect(pnl.unrealizedPnlUsd).toBe(0);
+  });
+
+  it('counts compounds as reinvested capital, not as basis', () => {
+    const compound = entry('compound', { tokens: [usdc(10)] });
+    const claim = entry('fee_claim', { fees: [usdc(10)] });
+    const prices = new Map([[SOL, 100], [USDC, 1]]);
+    const pnl = computePositionPnl(position(), [deposit, claim, compound], { positionId: 'position', valueUsd: 210, feesUsd: 0 }, prices);
+
+    expect(pnl.costBasisUsd).toBe(200);
+    expect(pnl.reinvestedUsd).toBe(10);
+    expect(pnl.holdValueUsd).toBe(210);
+    expect(pnl.ilUsd).toBe(0);
+    expect(pnl.realizedPnlUsd).toBe(-2); // 10 claimed - 10 reinvested - 2 costs
+    expect(pnl.unrealizedPnlUsd).toBe(10);
+  });
+
+  it('does not measure IL for a position missing on chain', () => {
+    const pnl = computePositionPnl(position(), [deposit], undefined, new Map([[SOL, 50]]));
+
+    expect(pnl.status).toBe('missing');
+    expect(pnl.ilUsd).toBe(0);
+    expect(pnl.ilPercent).toBe(0);
+    expect(pnl.unrealizedPnlUsd).toBe(0);
+    expect(pnl.realizedPnlUsd).toBe(-2);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Monitor persistence goes through the shared store, whatever the backend
+ */
+
+import { addPosition, getPositions, removePosition, clearAll, getStorageInfo } from '../src/monitoring/redis-persistence.js';
+import type { MonitoredPosition } from '../src/monitoring/positionMonitor.js';
+import { getStore, setStore, MemoryStore } from '../src/storage/index.js';
+
+const position = (positionAddress: string): MonitoredPosition => ({
+  positionAddress,
+  poolAddress: 'pool',
+  binRange: { min: 1, max: 10 },
+  alertsEnabled: { outOfRange: true, valueChange: 50 },
+  createdAt: new Date(0).toISOString(),
+});
+
+describe('monitor persistence', () => {
+  beforeEach(() => setStore(new MemoryStore()));
+  afterAll(() => setStore(null));
+
+  it('keeps positions in the shared store', async () => {
+    await addPosition(position('a'));
+    await addPosition(position('b'));
+    await addPosition({ ...position('a'), lastActiveBin: 5 });
+
+    expect((await getPositions()).map(p => [p.positionAddress, p.lastActiveBin])).toEqual([['a', 5], ['b', undefined]]);
+    expect(await getStore().get<MonitoredPosition[]>('lp-toolkit:positions')).toHaveLength(2);
+    expect(getStorageInfo()).toEqual({ type: 'memory', available: false });
+
+    await removePosition('b');
+    expect((await getPositions()).map(p => p.positionAddress)).toEqual(['a']);
+
+    await clearAll();
+    expect(await getPositions()).toEqual([]);
+  });
+});
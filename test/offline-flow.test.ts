@@ -0,0 +1,109 @@
+/**
+ * Offline open → rebalance → withdraw against the SOL-USDC DLMM fixtures
+ * (test/fixtures/dlmm-sol-usdc; regenerate with build-dlmm-sol-usdc.ts)
+ */
+
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { startOfflineHarness, type OfflineHarness } from '../src/offline/index.js';
+import { executeLp, executeRebalanceOperation } from '../src/services/lp-service.js';
+import { buildAtomicWithdraw } from '../src/lp/atomicWithdraw.js';
+import { sendBundleWithSimulation, waitForBundle, expectedWithdrawals } from '../src/jito/index.js';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'dlmm-sol-usdc');
+
+interface Manifest {
+  poolAddress: string;
+  activeBinId: number;
+  wallet: { address: string; secretKey: string };
+  positions: { outOfRange: string; inRange: string };
+}
+
+const manifest: Manifest = JSON.parse(readFileSync(join(FIXTURES_DIR, 'manifest.json'), 'utf8'));
+const wallet = Keypair.fromSecretKey(bs58.decode(manifest.wallet.secretKey));
+const WALLET_ID = 'offline-wallet';
+
+async function signTransaction(base64Tx: string): Promise<string> {
+  const tx = VersionedTransaction.deserialize(Buffer.from(base64Tx, 'base64'));
+  tx.sign([wallet]);
+  return Buffer.from(tx.serialize()).toString('base64');
+}
+
+describe('offline DLMM flow', () => {
+  let harness: OfflineHarness;
+
+  beforeAll(async () => {
+    harness = await startOfflineHarness({ fixturesDir: FIXTURES_DIR });
+  });
+
+  afterAll(async () => {
+    await harness.stop();
+  });
+
+  it('opens a position with SOL', async () => {
+    const result = await executeLp({
+      walletId: WALLET_ID,
+      walletAddress: manifest.wallet.address,
+      poolAddress: manifest.poolAddress,
+      amountSol: 0.5,
+      minBinId: manifest.activeBinId - 10,
+      maxBinId: manifest.activeBinId + 10,
+      strategy: 'custom',
+      shape: 'spot',
+      tipSpeed: 'fast',
+      slippageBps: 300,
+      signTransaction,
+    });
+
+    expect(result.status).toMatchObject({ landed: true });
+    expect(result.bundleId).toBeDefined();
+    expect(result.lpResult.unsignedTransactions.length).toBeGreaterThan(0);
+    expect(harness.services.jito.bundles).toHaveLength(1);
+  });
+
+  it('rebalances an out-of-range position into a new one', async () => {
+    const result = await executeRebalanceOperation({
+      walletId: WALLET_ID,
+      walletAddress: manifest.wallet.address,
+      poolAddress: manifest.poolAddress,
+      positionAddress: manifest.positions.outOfRange,
+      newMinBinOffset: -5,
+      newMaxBinOffset: 5,
+      strategy: 'concentrated',
+      shape: 'spot',
+      tipSpeed: 'fast',
+      slippageBps: 300,
+      signTransaction,
+    });
+
+    expect(result.phase1.status).toBe('success');
+    expect(result.phase2.status).toBe('success');
+    expect(result.phase2.newPositionAddress).toBeDefined();
+    expect(result.flows?.withdrawn).toBeDefined();
+    expect(result.flows?.entry).toBeDefined();
+  });
+
+  it('withdraws an in-range position to SOL', async () => {
+    const built = await buildAtomicWithdraw({
+      walletAddress: manifest.wallet.address,
+      poolAddress: manifest.poolAddress,
+      positionAddress: manifest.positions.inRange,
+      convertToSol: true,
+      tipSpeed: 'fast',
+    });
+    expect(built.flows.swaps.length).toBeGreaterThan(0);
+
+    const signed = await Promise.all(built.unsignedTransactions.map(signTransaction));
+    const { bundleId, simulation } = await sendBundleWithSimulation(signed, {
+      walletAddress: manifest.wallet.address,
+      swaps: built.flows.swaps,
+      withdrawals: expectedWithdrawals(built.flows),
+    });
+    expect(simulation.checks.some(check => check.kind === 'withdrawal')).toBe(true);
+
+    const status = await waitForBundle(bundleId, { timeoutMs: 10_000 });
+    expect(status.landed).toBe(true);
+  });
+});
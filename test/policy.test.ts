@@ -0,0 +1,146 @@
+/**
+ * Transaction policy: destinations, authority changes and the daily outflow
+ * limit, checked against unsigned transactions the wallet would sign
+ */
+
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import { createTransferCheckedInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { join } from 'path';
+import { startOfflineHarness, OFFLINE_BLOCKHASH, type OfflineHarness } from '../src/offline/index.js';
+import {
+  checkTransactionPolicy,
+  getDailyOutflowUsd,
+  holdSignedOutflow,
+  releaseUnsentOutflow,
+  setTransactionPolicy,
+} from '../src/policy/index.js';
+import { FEE_CONFIG } from '../src/fees/index.js';
+import { getStore, setStore, MemoryStore } from '../src/storage/index.js';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'dlmm-sol-usdc');
+const LAMPORTS_PER_DOLLAR = 1e9 / 150; // SOL is $150 in the stand-in
+
+class UnavailableStore extends MemoryStore {
+  async get<T = unknown>(): Promise<T | null> {
+    throw new Error('connection refused');
+  }
+}
+
+describe('transaction policy', () => {
+  let harness: OfflineHarness;
+  const wallet = Keypair.generate();
+  const walletAddress = wallet.publicKey.toBase58();
+  let walletId: string;
+  let n = 0;
+
+  beforeAll(async () => {
+    harness = await startOfflineHarness({ fixturesDir: FIXTURES_DIR });
+  });
+
+  afterAll(async () => {
+    await harness.stop();
+  });
+
+  beforeEach(() => {
+    walletId = `policy-wallet-${++n}`;
+  });
+
+  function transaction(...instructions: TransactionInstruction[]): VersionedTransaction {
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: OFFLINE_BLOCKHASH,
+      instructions,
+    }).compileToV0Message();
+    return new VersionedTransaction(message);
+  }
+
+  const encode = (tx: VersionedTransaction) => Buffer.from(tx.serialize()).toString('base64');
+  const check = (tx: VersionedTransaction) => checkTransactionPolicy({ walletId, walletAddress, transactionBase64: encode(tx) });
+  const sendUsd = (to: PublicKey, usd: number) => transaction(SystemProgram.transfer({
+    fromPubkey: wallet.publicKey,
+    toPubkey: to,
+    lamports: Math.round(usd * LAMPORTS_PER_DOLLAR),
+  }));
+
+  describe('destinations', () => {
+    it('allows the treasury and refuses unknown addresses', async () => {
+      await expect(check(sendUsd(FEE_CONFIG.TREASURY_ADDRESS, 1))).resolves.toBeDefined();
+      await expect(check(sendUsd(Keypair.generate().publicKey, 1))).rejects.toThrow('Policy violation (destination)');
+    });
+
+    it('allows the wallet\'s allowed destinations', async () => {
+      const friend = Keypair.generate().publicKey;
+      await setTransactionPolicy(walletId, { allowedDestinations: [friend.toBase58()] });
+      await expect(check(sendUsd(friend, 1))).resolves.toBeDefined();
+    });
+  });
+
+  describe('authority', () => {
+    it('refuses assigning the wallet to another program', async () => {
+      const tx = transaction(SystemProgram.assign({ accountPubkey: wallet.publicKey, programId: Keypair.generate().publicKey }));
+      await expect(check(tx)).rejects.toThrow('Policy violation (authority)');
+    });
+  });
+
+  describe('daily outflow', () => {
+    const treasury = FEE_CONFIG.TREASURY_ADDRESS;
+
+    it('refuses what goes over the limit and gives its reservation back', async () => {
+      await setTransactionPolicy(walletId, { dailyOutflowLimitUsd: 50 });
+
+      await check(sendUsd(treasury, 30));
+      await expect(check(sendUsd(treasury, 30))).rejects.toThrow('Policy violation (daily-outflow)');
+      expect(await getDailyOutflowUsd(walletId)).toBeCloseTo(30, 2);
+    });
+
+    it('refuses tokens without a price when a limit is set', async () => {
+      const mint = Keypair.generate().publicKey;
+      // Not on chain, so its owner can't be looked up: allow the account itself
+      const destination = getAssociatedTokenAddressSync(mint, treasury);
+      await setTransactionPolicy(walletId, { allowedDestinations: [destination.toBase58()] });
+      const tx = transaction(createTransferCheckedInstruction(
+        getAssociatedTokenAddressSync(mint, wallet.publicKey),
+        mint,
+        destination,
+        wallet.publicKey,
+        1_000_000n,
+        6,
+      ));
+
+      await expect(check(tx)).resolves.toBeDefined();
+      await setTransactionPolicy(walletId, { allowedDestinations: [destination.toBase58()], dailyOutflowLimitUsd: 50 });
+      await expect(check(tx)).rejects.toThrow('has no price');
+    });
+
+    it('releases a signed transaction that never landed, once', async () => {
+      await setTransactionPolicy(walletId, { dailyOutflowLimitUsd: 50 });
+      const tx = sendUsd(treasury, 40);
+      const { reservation } = await check(tx);
+      tx.sign([wallet]);
+      await holdSignedOutflow(encode(tx), reservation);
+      expect(await getDailyOutflowUsd(walletId)).toBeCloseTo(40, 2);
+
+      await releaseUnsentOutflow([encode(tx)]);
+      await releaseUnsentOutflow([encode(tx)]);
+      expect(await getDailyOutflowUsd(walletId)).toBeCloseTo(0, 2);
+      await expect(check(sendUsd(treasury, 40))).resolves.toBeDefined();
+    });
+  });
+
+  it('refuses to sign when the policy can\'t be loaded', async () => {
+    const store = getStore();
+    setStore(new UnavailableStore());
+    try {
+      await expect(check(sendUsd(FEE_CONFIG.TREASURY_ADDRESS, 1))).rejects.toThrow('Policy unavailable');
+    } finally {
+      setStore(store);
+    }
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Token-bucket rate limits: per key, per wallet, and separate budgets for
+ * reads and transaction building
+ */
+
+import { Hono } from 'hono';
+import { apiKeyAuth } from '../src/middleware/auth.js';
+import { rateLimit } from '../src/middleware/rateLimit.js';
+import { issueApiKey, ALL_WALLETS } from '../src/auth/index.js';
+import { config } from '../src/config/index.js';
+import { setStore, MemoryStore } from '../src/storage/index.js';
+
+jest.mock('../src/services/wallet-service.js', () => ({
+  loadWalletById: async (id: string) => ({ wallet: { id, address: `address-of-${id}` }, client: {} }),
+}));
+
+describe('rateLimit', () => {
+  const saved = { ...config.rateLimit };
+  let app: Hono;
+  let now: number;
+
+  beforeAll(() => {
+    setStore(new MemoryStore());
+    Object.assign(config.rateLimit, { enabled: true, readPerMinute: 5, txPerMinute: 2, burstMultiplier: 1 });
+    app = new Hono();
+    app.use('*', apiKeyAuth);
+    app.use('*', rateLimit);
+    app.get('/pools/top', c => c.json({ ok: true }));
+    app.post('/lp/atomic', c => c.json({ ok: true }));
+    app.get('/health', c => c.json({ ok: true }));
+  });
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    Object.assign(config.rateLimit, saved);
+    setStore(null);
+  });
+
+  async function key(walletIds: string[]): Promise<string> {
+    return (await issueApiKey({ name: 'test', scopes: ['trade'], walletIds })).secret;
+  }
+
+  const read = (secret: string) => app.request('/pools/top', { headers: { Authorization: `Bearer ${secret}` } });
+  const build = (secret: string, walletId: string) => app.request('/lp/atomic', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+    body: JSON.stringify({ walletId }),
+  });
+
+  it('limits a key once its bucket is empty and refills it over time', async () => {
+    const secret = await key([ALL_WALLETS]);
+    for (let i = 0; i < 5; i++) expect((await read(secret)).status).toBe(200);
+
+    const limited = await read(secret);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('12'); // One token per 60s / 5
+    expect(limited.headers.get('X-RateLimit-Remaining')).toBe('0');
+
+    now += 12_000;
+    expect((await read(secret)).status).toBe(200);
+    expect((await read(secret)).status).toBe(429);
+  });
+
+  it('keeps reads and transaction building on separate budgets', async () => {
+    const secret = await key([ALL_WALLETS]);
+    for (let i = 0; i < 5; i++) await read(secret);
+    expect((await read(secret)).status).toBe(429);
+
+    expect((await build(secret, 'wallet-1')).status).toBe(200);
+    expect((await build(secret, 'wallet-1')).status).toBe(200);
+    expect((await build(secret, 'wallet-1')).status).toBe(429);
+  });
+
+  it('shares a wallet\'s budget across keys', async () => {
+    const first = await key(['wallet-shared', 'wallet-other']);
+    const second = await key(['wallet-shared', 'wallet-other']);
+
+    expect((await build(first, 'wallet-shared')).status).toBe(200);
+    expect((await build(second, 'wallet-shared')).status).toBe(200);
+    expect((await build(second, 'wallet-shared')).status).toBe(429);
+    // A limited request takes no tokens, so the second key still has one
+    expect((await build(second, 'wallet-other')).status).toBe(200);
+  });
+
+  it('exempts health checks', async () => {
+    for (let i = 0; i < 10; i++) expect((await app.request('/health')).status).toBe(200);
+  });
+});
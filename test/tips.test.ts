@@ -0,0 +1,49 @@
+/**
+ * Jito tip estimator: landing rates per tip bucket
+ */
+
+import { tipFromHistory, tipFromFloor, type TipOutcome } from '../src/jito/tips.js';
+
+const outcomes = (count: number, tipLamports: number, landed: boolean): TipOutcome[] =>
+  Array.from({ length: count }, () => ({ tipLamports, landed, at: Date.now() }));
+
+describe('tipFromHistory', () => {
+  it('needs enough history overall', () => {
+    expect(tipFromHistory(outcomes(19, 10_000, true), 0.9)).toBeNull();
+  });
+
+  it('does not credit a cheap tip with the landings of much larger tips', () => {
+    const history = [...outcomes(99, 2_500_000, true), ...outcomes(1, 1000, false)];
+    expect(tipFromHistory(history, 0.9)).toBe(2_500_000);
+  });
+
+  it('picks the cheapest bucket that lands often enough', () => {
+    const history = [
+      ...outcomes(6, 10_000, true), ...outcomes(14, 10_000, false),
+      ...outcomes(19, 100_000, true), ...outcomes(1, 100_000, false),
+      ...outcomes(20, 1_000_000, true),
+    ];
+    expect(tipFromHistory(history, 0.9)).toBe(100_000);
+    expect(tipFromHistory(history, 0.25)).toBe(10_000);
+  });
+
+  it('returns the largest tip seen in the bucket', () => {
+    const history = [...outcomes(10, 100_000, true), ...outcomes(10, 120_000, true)];
+    expect(tipFromHistory(history, 0.9)).toBe(120_000);
+  });
+
+  it('ignores buckets with too few samples', () => {
+    const history = [...outcomes(5, 1000, true), ...outcomes(15, 500_000, false)];
+    expect(tipFromHistory(history, 0.5)).toBeNull();
+  });
+});
+
+describe('tipFromFloor', () => {
+  const points: Array<[number, number]> = [[0.25, 1000], [0.5, 2000], [0.75, 4000], [0.95, 8000], [0.99, 16000]];
+
+  it('interpolates between percentiles and clamps at the ends', () => {
+    expect(tipFromFloor(points, 0.1)).toBe(1000);
+    expect(tipFromFloor(points, 0.625)).toBe(3000);
+    expect(tipFromFloor(points, 0.999)).toBe(16000);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * /user/:userId routes: the path user id is a wallet the key must be bound to
+ */
+
+import { Hono } from 'hono';
+import { apiKeyAuth } from '../src/middleware/auth.js';
+import { userRoutes } from '../src/routes/monitor.js';
+import { issueApiKey } from '../src/auth/index.js';
+import { setStore, MemoryStore } from '../src/storage/index.js';
+
+jest.mock('../src/services/wallet-service.js', () => ({
+  loadWalletById: async (id: string) => ({ wallet: { id, address: `address-of-${id}` }, client: {} }),
+}));
+
+const TRACK = {
+  positionAddress: 'position-1',
+  poolAddress: 'pool-1',
+  poolName: 'SOL-USDC',
+};
+
+describe('user routes', () => {
+  let app: Hono;
+  let secret: string;
+
+  beforeAll(async () => {
+    setStore(new MemoryStore());
+    ({ secret } = await issueApiKey({ name: 'wallet-a', scopes: ['trade'], walletIds: ['wallet-a'] }));
+    app = new Hono();
+    app.use('*', apiKeyAuth);
+    app.route('/user', userRoutes());
+  });
+
+  afterAll(() => {
+    setStore(null);
+  });
+
+  const post = (path: string, body: unknown) => app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+    body: JSON.stringify(body),
+  });
+
+  it('refuses another wallet in the path', async () => {
+    expect((await post('/user/wallet-b/positions/track', TRACK)).status).toBe(403);
+    expect((await post('/user/wallet-b/auto-rebalance', { enabled: true })).status).toBe(403);
+    expect((await post('/user/wallet-b/settings', {})).status).toBe(403);
+  });
+
+  it('refuses another wallet in the body', async () => {
+    const res = await post('/user/wallet-a/positions/track', { ...TRACK, walletId: 'wallet-b' });
+    expect(res.status).toBe(403);
+  });
+
+  it('requires the wallet a tracked position is traded with', async () => {
+    expect((await post('/user/wallet-a/positions/track', TRACK)).status).toBe(400);
+
+    const res = await post('/user/wallet-a/positions/track', { ...TRACK, walletId: 'wallet-a' });
+    expect(res.status).toBe(200);
+    const body = await res.json() as { position: { walletId: string } };
+    expect(body.position.walletId).toBe('wallet-a');
+  });
+});